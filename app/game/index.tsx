@@ -17,15 +17,19 @@ import { useCallback, useEffect, useRef, useState } from "react";
 import { BackHandler, Platform, View } from "react-native";
 import { AmmoDisplay } from "@/components/game/AmmoDisplay";
 import { AudioProvider } from "@/components/game/AudioProvider";
+import { BountyBoard } from "@/components/game/BountyBoard";
 import { CharacterPanel } from "@/components/game/CharacterPanel";
+import { CompanionPanel } from "@/components/game/CompanionPanel";
 import { CompassBar } from "@/components/game/CompassBar";
 import { Crosshair } from "@/components/game/Crosshair";
 import { DamageFlash } from "@/components/game/DamageFlash";
 import { DamageIndicator } from "@/components/game/DamageIndicator";
+import { DepotPanel } from "@/components/game/DepotPanel";
 import { DialogueBox } from "@/components/game/DialogueBox";
 import { GameOverScreen } from "@/components/game/GameOverScreen";
 import { InteractionPrompt } from "@/components/game/InteractionPrompt";
 import { InventoryPanel } from "@/components/game/InventoryPanel";
+import { LiveryPanel } from "@/components/game/LiveryPanel";
 import { LoadingScreen, type LoadingStage } from "@/components/game/LoadingScreen";
 import { LocationEntry } from "@/components/game/LocationEntry";
 import { LowHealthVignette } from "@/components/game/LowHealthVignette";
@@ -38,6 +42,7 @@ import { QuestNotification } from "@/components/game/QuestNotification";
 import { QuestObjectiveToast } from "@/components/game/QuestObjectiveToast";
 import { ShopPanel } from "@/components/game/ShopPanel";
 import { StealthIndicator } from "@/components/game/StealthIndicator";
+import { SubtitleOverlay } from "@/components/game/SubtitleOverlay";
 import { SurvivalWarning } from "@/components/game/SurvivalWarning";
 import { TouchOverlay } from "@/components/game/TouchOverlay";
 import { TravelPanel } from "@/components/game/TravelPanel";
@@ -45,14 +50,17 @@ import { TravelTransition } from "@/components/game/TravelTransition";
 import { TutorialHints } from "@/components/game/TutorialHints";
 import { WorldMap } from "@/components/game/WorldMap";
 import { GameScene } from "@/components/scene";
+import { useControlSettings } from "@/hooks/useControlSettings";
 import { useGameStoreShallow } from "@/hooks/useGameStore";
 import { usePlatform } from "@/hooks/usePlatform";
+import { useReplayHotkeys } from "@/hooks/useReplayHotkeys";
 import { FrontierTerritory } from "@/src/game/data/worlds/frontier_territory";
 import { getDoorSystem } from "@/src/game/engine/interiors/DoorSystem";
 import { gameOrchestrator } from "@/src/game/GameOrchestrator";
 import { hasTouchCapability, initializeInput } from "@/src/game/input/InputInitializer";
 import { InputManager } from "@/src/game/input/InputManager";
 import type { PanelType } from "@/src/game/store/types";
+import { getCompanionDefinition } from "@/src/game/systems/companions";
 import {
   type InteractableEntity,
   type InteractionAction,
@@ -60,6 +68,8 @@ import {
   processInteraction,
 } from "@/src/game/systems/InteractionSystem";
 import { getInteriorManager } from "@/src/game/systems/InteriorManager";
+import { crimeBus, isBuildingClosed, isLawman, LAW_DIALOGUE_ID } from "@/src/game/systems/law";
+import { DEPOT_ARCHETYPE_ID, DEPOT_ROLES } from "@/src/game/systems/railroad";
 
 // ============================================================================
 // XR CONTROLLER REGISTRATION (web only)
@@ -101,6 +111,8 @@ const KEY_BINDINGS: Record<string, { panel?: PanelType; action?: string }> = {
   Escape: { action: "menu" },
   c: { panel: "character" },
   C: { panel: "character" },
+  h: { action: "mount" },
+  H: { action: "mount" },
 };
 
 // ============================================================================
@@ -128,7 +140,23 @@ function useInteractionDispatch() {
       switch (action.type) {
         case "talk": {
           if (action.npcId) {
-            startDialogue(action.npcId);
+            // Lawmen deal with a wanted player before anything else
+            const storeState = require("@/src/game/store/webGameStore").gameStore.getState();
+            // Companions on the road talk about the road, not their old business
+            const companion = storeState.isInParty(action.npcId)
+              ? getCompanionDefinition(action.npcId)
+              : undefined;
+            const role = storeState.npcs[action.npcId]?.role ?? "";
+            // Station staff sell train tickets
+            if (DEPOT_ROLES.includes(role) && storeState.isRailStation()) {
+              storeState.openDepot();
+              break;
+            }
+            const wanted = isLawman(role) && storeState.getBounty() > 0;
+            startDialogue(
+              action.npcId,
+              companion?.dialogueTreeId ?? (wanted ? LAW_DIALOGUE_ID : undefined),
+            );
           }
           break;
         }
@@ -163,6 +191,18 @@ function useInteractionDispatch() {
             doorSys.openDoor(action.buildingId);
             interiorManager.enterBuilding(action.buildingId, action.archetypeId);
             addNotification("info", `Entered ${action.archetypeId.replace(/_/g, " ")}`);
+
+            const storeState = require("@/src/game/store/webGameStore").gameStore.getState();
+            if (isBuildingClosed(action.archetypeId, storeState.clockState.hour)) {
+              addNotification("warning", "This place is closed. You're trespassing.");
+              crimeBus.emit({ type: "trespass", position: { ...storeState.playerPosition } });
+            } else if (action.archetypeId === "sheriff_office") {
+              storeState.openBountyBoard();
+            } else if (action.archetypeId === "livery") {
+              storeState.openLivery();
+            } else if (action.archetypeId === DEPOT_ARCHETYPE_ID && storeState.isRailStation()) {
+              storeState.openDepot();
+            }
           }
           break;
         }
@@ -287,6 +327,12 @@ export default function GameScreen() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [markStage]);
 
+  // --- Bindings and look options (after input is initialized) ---
+  useControlSettings();
+
+  // --- F8 record / F9 replay input, for reproducing reported bugs ---
+  useReplayHotkeys();
+
   // --- Re-detect touch on fold/unfold (foldable phones) ---
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -399,6 +445,8 @@ export default function GameScreen() {
         togglePanel(binding.panel);
       } else if (binding.action === "worldmap" && canToggleUI) {
         setWorldMapOpen((prev) => !prev);
+      } else if (binding.action === "mount" && phase === "playing") {
+        require("@/src/game/store/webGameStore").gameStore.getState().toggleMount();
       } else if (binding.action === "menu") {
         // Escape: close any open panel/map first, then toggle menu
         if (activePanel) {
@@ -449,6 +497,22 @@ export default function GameScreen() {
     closePanel();
   }, [closePanel]);
 
+  const handleCloseBountyBoard = useCallback(() => {
+    closePanel();
+  }, [closePanel]);
+
+  const handleCloseLivery = useCallback(() => {
+    closePanel();
+  }, [closePanel]);
+
+  const handleCloseDepot = useCallback(() => {
+    closePanel();
+  }, [closePanel]);
+
+  const handleCloseCompanion = useCallback(() => {
+    closePanel();
+  }, [closePanel]);
+
   const handleCloseCharacter = useCallback(() => {
     closePanel();
   }, [closePanel]);
@@ -561,6 +625,9 @@ export default function GameScreen() {
           {/* Location entry notification (centered, large text, fades) */}
           <LocationEntry />
 
+          {/* Subtitles and sound captions (bottom-center, per accessibility settings) */}
+          <SubtitleOverlay />
+
           {/* Tutorial hints (bottom-center, timed sequence for new players) */}
           {isExploring ? <TutorialHints /> : null}
 
@@ -642,6 +709,18 @@ export default function GameScreen() {
           {/* Quest Log (J key) */}
           <QuestLog open={activePanel === "quests"} onClose={handleCloseQuestLog} />
 
+          {/* Bounty Board (sheriff's office) */}
+          <BountyBoard open={activePanel === "bounties"} onClose={handleCloseBountyBoard} />
+
+          {/* Livery (buy and stable horses) */}
+          <LiveryPanel open={activePanel === "livery"} onClose={handleCloseLivery} />
+
+          {/* Depot (train tickets at a station) */}
+          <DepotPanel open={activePanel === "depot"} onClose={handleCloseDepot} />
+
+          {/* Companion (trade items with whoever rides along) */}
+          <CompanionPanel open={activePanel === "companions"} onClose={handleCloseCompanion} />
+
           {/* World Map (M key) */}
           <WorldMap
             isOpen={worldMapOpen}
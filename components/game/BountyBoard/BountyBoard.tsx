@@ -0,0 +1,123 @@
+/**
+ * BountyBoard - Wanted posters at a town's sheriff's office (React Native / Expo)
+ *
+ * Modal listing the contracts on the open board, each with its dead and
+ * alive payouts. Contracts are accepted here and their rewards claimed here
+ * once the outlaw is dealt with.
+ */
+
+import * as React from "react";
+import { Modal, Pressable, useWindowDimensions, View } from "react-native";
+import Animated, { SlideInUp, SlideOutDown } from "react-native-reanimated";
+
+import { ScrollArea, Text } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import { gameStore } from "@/src/game/store/webGameStore";
+import { getContractStatus } from "@/src/game/systems/bountyBoard";
+
+import { ContractCard } from "./ContractCard.tsx";
+
+export interface BountyBoardProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function BountyBoard({ open, onClose }: BountyBoardProps) {
+  const { width } = useWindowDimensions();
+  const isWide = width >= 768;
+
+  // Store
+  const townId = gameStore((s) => s.bountyBoardTownId);
+  const board = gameStore((s) => (townId ? s.bountyBoards[townId] : undefined));
+  // Contract status follows the quest log
+  const activeQuests = gameStore((s) => s.activeQuests);
+
+  const contracts = React.useMemo(
+    () =>
+      (board?.contracts ?? []).map((contract) => ({
+        contract,
+        status: getContractStatus(
+          contract,
+          activeQuests.find((q) => q.questId === contract.id),
+        ),
+      })),
+    [board, activeQuests],
+  );
+
+  const townName = React.useMemo(() => {
+    if (!townId) return null;
+    return gameStore.getState().getLawJurisdiction(townId).townName;
+  }, [townId]);
+
+  if (!open) return null;
+
+  return (
+    <Modal
+      transparent
+      visible={open}
+      onRequestClose={onClose}
+      animationType="none"
+      statusBarTranslucent
+    >
+      <Pressable
+        className="absolute inset-0 bg-black/70"
+        onPress={onClose}
+        accessibilityRole="button"
+        accessibilityLabel="Close bounty board"
+      />
+
+      <Animated.View
+        entering={SlideInUp.duration(250)}
+        exiting={SlideOutDown.duration(200)}
+        className={cn(
+          "absolute inset-x-0 bottom-0 rounded-t-2xl overflow-hidden",
+          "bg-card border-t border-border",
+          "dark:border-frontier-leather/40 dark:bg-card",
+          isWide ? "top-[15%] mx-[20%]" : "top-[12%]",
+        )}
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-4 pt-4 pb-2">
+          <View>
+            <Text variant="subheading" className="text-card-foreground">
+              Wanted
+            </Text>
+            {townName ? (
+              <Text className="text-xs text-muted-foreground font-body">
+                {townName} sheriff's office
+              </Text>
+            ) : null}
+          </View>
+          <Pressable
+            className="min-w-[44px] min-h-[44px] items-center justify-center"
+            onPress={onClose}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Text className="text-lg text-muted-foreground">{"✕"}</Text>
+          </Pressable>
+        </View>
+
+        <ScrollArea className="flex-1">
+          {contracts.length === 0 ? (
+            <View className="items-center justify-center py-12">
+              <Text className="text-sm text-muted-foreground font-body">
+                No bounties posted. Check back in a few days.
+              </Text>
+            </View>
+          ) : (
+            contracts.map(({ contract, status }) => (
+              <ContractCard
+                key={contract.id}
+                contract={contract}
+                status={status}
+                onAccept={() => gameStore.getState().acceptContract(contract.id)}
+                onClaim={() => gameStore.getState().claimContract(contract.id)}
+              />
+            ))
+          )}
+        </ScrollArea>
+      </Animated.View>
+    </Modal>
+  );
+}
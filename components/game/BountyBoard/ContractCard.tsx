@@ -0,0 +1,80 @@
+/**
+ * ContractCard - One wanted poster on a sheriff's bounty board.
+ */
+
+import { View } from "react-native";
+
+import { Badge, Button, Text } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import type { BountyContract, ContractStatus } from "@/src/game/systems/bountyBoard";
+
+const STATUS_BADGES: Record<
+  ContractStatus,
+  { label: string; variant: "default" | "success" | "warning" | "danger" | "info" }
+> = {
+  posted: { label: "Wanted", variant: "danger" },
+  hunting: { label: "Hunting", variant: "warning" },
+  claimable: { label: "Reward Due", variant: "success" },
+  closed: { label: "Closed", variant: "info" },
+};
+
+interface ContractCardProps {
+  contract: BountyContract;
+  status: ContractStatus;
+  onAccept: () => void;
+  onClaim: () => void;
+}
+
+export function ContractCard({ contract, status, onAccept, onClaim }: ContractCardProps) {
+  const { outlaw } = contract;
+  const badge = STATUS_BADGES[status];
+  const action =
+    status === "posted"
+      ? { label: "Accept", onPress: onAccept }
+      : status === "claimable"
+        ? { label: "Claim", onPress: onClaim }
+        : null;
+
+  return (
+    <View
+      className={cn("px-4 py-3 border-b border-border/30", status === "closed" && "opacity-60")}
+    >
+      <View className="flex-row items-center gap-2">
+        <Text
+          className="flex-1 text-base font-semibold text-card-foreground font-heading"
+          numberOfLines={1}
+        >
+          {outlaw.name}
+        </Text>
+        <Badge variant={badge.variant}>
+          <Text>{badge.label}</Text>
+        </Badge>
+      </View>
+
+      <Text className="mt-1 text-sm text-muted-foreground font-body" numberOfLines={2}>
+        {contract.quest.description}
+      </Text>
+
+      <View className="mt-2 flex-row items-center justify-between">
+        <View>
+          <Text className="font-data text-xs text-yellow-400">
+            Dead: {contract.reward}g {"·"} Alive: {contract.captureReward}g
+          </Text>
+          <Text className="font-data text-xs text-muted-foreground">
+            Last seen: {contract.campName} {"·"} Lv {outlaw.level}
+          </Text>
+        </View>
+        {action ? (
+          <Button
+            variant="primary"
+            size="sm"
+            className="min-h-[36px] px-3"
+            onPress={action.onPress}
+          >
+            <Text className="text-xs font-medium">{action.label}</Text>
+          </Button>
+        ) : null}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,2 @@
+export type { BountyBoardProps } from "./BountyBoard.tsx";
+export { BountyBoard } from "./BountyBoard.tsx";
@@ -3,9 +3,11 @@ import { Pressable, StyleSheet, View } from "react-native";
 import Animated, { FadeIn, FadeOut } from "react-native-reanimated";
 
 import { Text } from "@/components/ui";
+import { getPerksForSkill } from "@/src/game/data/perks";
 import { gameStore } from "@/src/game/store";
+import { getSkillCap, MAX_SKILL_LEVEL } from "@/src/game/systems/skills";
 
-import { ATTRIBUTE_ENTRIES, PERKS, SKILL_ENTRIES } from "./data.ts";
+import { ATTRIBUTE_ENTRIES, SKILL_ENTRIES } from "./data.ts";
 import { AttributeRow, PerkRow, SectionHeader, SkillRow, XPBar } from "./StatRows.tsx";
 import { styles } from "./styles.ts";
 
@@ -19,17 +21,23 @@ export function CharacterPanel({ visible, onClose }: CharacterPanelProps) {
   const playerStats = gameStore((s) => s.playerStats);
   const _equipment = gameStore((s) => s.equipment);
   const getEquipmentBonuses = gameStore((s) => s.getEquipmentBonuses);
+  const spendSkillPoint = gameStore((s) => s.spendSkillPoint);
+  const spendAttributePoint = gameStore((s) => s.spendAttributePoint);
+  const getPerkBlocker = gameStore((s) => s.getPerkBlocker);
+  const unlockPerk = gameStore((s) => s.unlockPerk);
 
   const bonuses = React.useMemo(() => getEquipmentBonuses(), [getEquipmentBonuses]);
 
   if (!visible) return null;
 
   const { level, xp, xpToNext, attributes, skills, gold } = playerStats;
-
-  const totalSkillPoints = Math.max(0, (level - 1) * 2);
-  const usedSkillPoints =
-    Object.values(skills).reduce((a, b) => a + b, 0) - SKILL_ENTRIES.length * 15;
-  const availableSkillPoints = Math.max(0, totalSkillPoints - usedSkillPoints);
+  // Saves from before levelling rewards existed have no point counters
+  const { skillPoints = 0, attributePoints = 0, perkPoints = 0, perks = [] } = playerStats;
+  const unspent = [
+    attributePoints > 0 && `${attributePoints} ATTRIBUTE`,
+    skillPoints > 0 && `${skillPoints} SKILL`,
+    perkPoints > 0 && `${perkPoints} PERK`,
+  ].filter(Boolean);
 
   return (
     <View style={styles.overlay} pointerEvents="box-none">
@@ -62,12 +70,9 @@ export function CharacterPanel({ visible, onClose }: CharacterPanelProps) {
 
             <XPBar xp={xp} xpToNext={xpToNext} />
 
-            {availableSkillPoints > 0 && (
+            {unspent.length > 0 && (
               <View style={styles.skillPointsBanner}>
-                <Text style={styles.skillPointsText}>
-                  {availableSkillPoints} SKILL POINT{availableSkillPoints !== 1 ? "S" : ""}{" "}
-                  AVAILABLE
-                </Text>
+                <Text style={styles.skillPointsText}>{unspent.join(" / ")} POINTS TO SPEND</Text>
               </View>
             )}
 
@@ -87,15 +92,32 @@ export function CharacterPanel({ visible, onClose }: CharacterPanelProps) {
                   description={description}
                   value={attributes[key]}
                   max={10}
+                  onSpend={
+                    attributePoints > 0 && attributes[key] < 10
+                      ? () => spendAttributePoint(key)
+                      : undefined
+                  }
                 />
               ))}
 
               <View style={styles.separator} />
 
               <SectionHeader title="SKILLS" />
-              {SKILL_ENTRIES.map(({ key, label }) => (
-                <SkillRow key={key} label={label} value={skills[key]} max={100} />
-              ))}
+              {SKILL_ENTRIES.map(({ key, label }) => {
+                const cap = getSkillCap(key, attributes);
+                return (
+                  <SkillRow
+                    key={key}
+                    label={label}
+                    value={skills[key]}
+                    max={MAX_SKILL_LEVEL}
+                    cap={cap}
+                    onSpend={
+                      skillPoints > 0 && skills[key] < cap ? () => spendSkillPoint(key) : undefined
+                    }
+                  />
+                );
+              })}
 
               {(bonuses.damage > 0 || bonuses.defense > 0 || bonuses.accuracy > 0) && (
                 <>
@@ -124,8 +146,19 @@ export function CharacterPanel({ visible, onClose }: CharacterPanelProps) {
 
               <View style={styles.separator} />
               <SectionHeader title="PERKS" />
-              {PERKS.map((perk) => (
-                <PerkRow key={perk.id} perk={perk} earned={level >= perk.minLevel} />
+              {SKILL_ENTRIES.map(({ key, label }) => (
+                <View key={key}>
+                  <Text style={styles.perkTree}>{label.toUpperCase()}</Text>
+                  {getPerksForSkill(key).map((perk) => (
+                    <PerkRow
+                      key={perk.id}
+                      perk={perk}
+                      taken={perks.includes(perk.id)}
+                      blocker={getPerkBlocker(perk.id)}
+                      onUnlock={() => unlockPerk(perk.id)}
+                    />
+                  ))}
+                </View>
               ))}
             </Animated.ScrollView>
 
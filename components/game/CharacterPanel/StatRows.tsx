@@ -1,8 +1,8 @@
-import { View } from "react-native";
+import { Pressable, View } from "react-native";
 
 import { Text } from "@/components/ui";
+import type { Perk } from "@/src/game/data/perks";
 
-import type { Perk } from "./data.ts";
 import { styles } from "./styles.ts";
 import { AMBER, AMBER_DIM, GREEN_GOOD } from "./theme.ts";
 
@@ -12,12 +12,15 @@ export function AttributeRow({
   description,
   value,
   max,
+  onSpend,
 }: {
   abbrev: string;
   label: string;
   description: string;
   value: number;
   max: number;
+  /** Shown as a [+] button when a point can be spent here */
+  onSpend?: () => void;
 }) {
   const pct = max > 0 ? Math.min((value / max) * 100, 100) : 0;
   const barColor =
@@ -31,7 +34,10 @@ export function AttributeRow({
       <View style={styles.attrContent}>
         <View style={styles.attrHeader}>
           <Text style={styles.attrLabel}>{label}</Text>
-          <Text style={styles.attrValue}>{value}</Text>
+          <View style={styles.valueGroup}>
+            <Text style={styles.attrValue}>{value}</Text>
+            {onSpend ? <SpendButton onPress={onSpend} /> : null}
+          </View>
         </View>
         <View style={styles.barTrack}>
           <View style={[styles.barFill, { width: `${pct}%`, backgroundColor: barColor }]} />
@@ -45,14 +51,39 @@ export function AttributeRow({
   );
 }
 
-export function SkillRow({ label, value, max }: { label: string; value: number; max: number }) {
+function SpendButton({ onPress }: { onPress: () => void }) {
+  return (
+    <Pressable onPress={onPress} style={styles.spendBtn}>
+      <Text style={styles.spendBtnText}>+</Text>
+    </Pressable>
+  );
+}
+
+export function SkillRow({
+  label,
+  value,
+  max,
+  cap = max,
+  onSpend,
+}: {
+  label: string;
+  value: number;
+  max: number;
+  /** Highest the skill can go with the player's current attributes */
+  cap?: number;
+  onSpend?: () => void;
+}) {
   const pct = max > 0 ? Math.min((value / max) * 100, 100) : 0;
+  const shown = cap < max ? `${value} / ${cap}` : `${value}`;
 
   return (
     <View style={styles.skillRow}>
       <View style={styles.skillHeader}>
         <Text style={styles.skillLabel}>{label}</Text>
-        <Text style={styles.skillValue}>{value}</Text>
+        <View style={styles.valueGroup}>
+          <Text style={styles.skillValue}>{shown}</Text>
+          {onSpend ? <SpendButton onPress={onSpend} /> : null}
+        </View>
       </View>
       <View style={styles.barTrackThin}>
         <View style={[styles.barFillThin, { width: `${pct}%` }]} />
@@ -89,9 +120,20 @@ export function SectionHeader({ title }: { title: string }) {
   );
 }
 
-export function PerkRow({ perk, earned }: { perk: Perk; earned: boolean }) {
+export function PerkRow({
+  perk,
+  taken,
+  blocker,
+  onUnlock,
+}: {
+  perk: Perk;
+  taken: boolean;
+  /** Why the perk can't be taken yet, or null if it can */
+  blocker: string | null;
+  onUnlock: () => void;
+}) {
   return (
-    <View style={[styles.perkRow, !earned && { opacity: 0.35 }]}>
+    <View style={[styles.perkRow, !taken && blocker !== null && { opacity: 0.35 }]}>
       <View style={styles.perkIcon}>
         <Text style={styles.perkIconText}>{perk.icon}</Text>
       </View>
@@ -99,10 +141,14 @@ export function PerkRow({ perk, earned }: { perk: Perk; earned: boolean }) {
         <Text style={styles.perkName}>{perk.name}</Text>
         <Text style={styles.perkDesc}>{perk.description}</Text>
       </View>
-      {earned ? (
+      {taken ? (
         <Text style={styles.perkEarned}>ACTIVE</Text>
+      ) : blocker === null ? (
+        <Pressable onPress={onUnlock} style={styles.unlockBtn}>
+          <Text style={styles.perkEarned}>TAKE</Text>
+        </Pressable>
       ) : (
-        <Text style={styles.perkLocked}>LV {perk.minLevel}</Text>
+        <Text style={styles.perkLocked}>{blocker.toUpperCase()}</Text>
       )}
     </View>
   );
@@ -30,37 +30,3 @@ export const SKILL_ENTRIES: { key: keyof PlayerSkills; label: string }[] = [
   { key: "survival", label: "Survival" },
   { key: "barter", label: "Barter" },
 ];
-
-export interface Perk {
-  id: string;
-  name: string;
-  icon: string;
-  description: string;
-  minLevel: number;
-}
-
-export const PERKS: Perk[] = [
-  { id: "steady_hand", name: "Steady Hand", icon: "+", description: "+10% accuracy", minLevel: 2 },
-  {
-    id: "quick_draw",
-    name: "Quick Draw",
-    icon: ">",
-    description: "Faster weapon swap",
-    minLevel: 4,
-  },
-  {
-    id: "tough_hide",
-    name: "Tough Hide",
-    icon: "#",
-    description: "+5 damage resistance",
-    minLevel: 6,
-  },
-  {
-    id: "silver_tongue",
-    name: "Silver Tongue",
-    icon: "*",
-    description: "+15 speech skill",
-    minLevel: 8,
-  },
-  { id: "deadeye", name: "Deadeye", icon: "@", description: "+20% crit chance", minLevel: 10 },
-];
@@ -175,4 +175,38 @@ export const statRowStyles = StyleSheet.create({
     fontFamily: Platform.select({ web: "monospace", default: undefined }),
     letterSpacing: 1,
   },
+  perkTree: {
+    color: AMBER_DIM,
+    fontSize: 10,
+    fontFamily: Platform.select({ web: "monospace", default: undefined }),
+    letterSpacing: 1,
+    marginTop: 8,
+  },
+
+  // Point spending
+  spendBtn: {
+    width: 18,
+    height: 18,
+    borderWidth: 1,
+    borderColor: GREEN_GOOD,
+    alignItems: "center",
+    justifyContent: "center",
+    marginLeft: 6,
+  },
+  spendBtnText: {
+    color: GREEN_GOOD,
+    fontSize: 12,
+    fontFamily: Platform.select({ web: "monospace", default: undefined }),
+    fontWeight: "700",
+  },
+  valueGroup: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  unlockBtn: {
+    borderWidth: 1,
+    borderColor: GREEN_GOOD,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
 });
@@ -0,0 +1,161 @@
+/**
+ * CompanionPanel - Trading items with a companion (React Native / Expo)
+ *
+ * Modal showing what the companion thinks of the player and what they're
+ * carrying, with the player's own pack beneath to hand things over.
+ * Equipped items stay with the player.
+ */
+
+import * as React from "react";
+import { Modal, Pressable, useWindowDimensions, View } from "react-native";
+import Animated, { SlideInUp, SlideOutDown } from "react-native-reanimated";
+
+import { Button, ScrollArea, Text } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import type { InventoryItem } from "@/src/game/store/types";
+import { gameStore } from "@/src/game/store/webGameStore";
+import {
+  getApprovalMood,
+  getCarriedWeight,
+  getCompanionDefinition,
+} from "@/src/game/systems/companions";
+
+import { ItemRow } from "./ItemRow.tsx";
+
+export interface CompanionPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/** Stable fallback for a companion carrying nothing */
+const NO_ITEMS: InventoryItem[] = [];
+
+function SectionHeading({ children }: { children: string }) {
+  return (
+    <Text className="px-4 pt-4 pb-1 text-xs uppercase tracking-wide text-muted-foreground font-heading">
+      {children}
+    </Text>
+  );
+}
+
+export function CompanionPanel({ open, onClose }: CompanionPanelProps) {
+  const { width } = useWindowDimensions();
+  const isWide = width >= 768;
+
+  // Store
+  const party = gameStore((s) => s.party);
+  const companionId = gameStore((s) => s.companionPanelId);
+  const carried =
+    gameStore((s) => (companionId ? s.companionItems[companionId] : undefined)) ?? NO_ITEMS;
+  const inventory = gameStore((s) => s.inventory);
+  const equipment = gameStore((s) => s.equipment);
+
+  const companion = party.find((member) => member.id === companionId);
+  const definition = companionId ? getCompanionDefinition(companionId) : undefined;
+  const equippedIds = React.useMemo(() => new Set(Object.values(equipment)), [equipment]);
+
+  if (!open) return null;
+
+  return (
+    <Modal
+      transparent
+      visible={open}
+      onRequestClose={onClose}
+      animationType="none"
+      statusBarTranslucent
+    >
+      <Pressable
+        className="absolute inset-0 bg-black/70"
+        onPress={onClose}
+        accessibilityRole="button"
+        accessibilityLabel="Close companion"
+      />
+
+      <Animated.View
+        entering={SlideInUp.duration(250)}
+        exiting={SlideOutDown.duration(200)}
+        className={cn(
+          "absolute inset-x-0 bottom-0 rounded-t-2xl overflow-hidden",
+          "bg-card border-t border-border",
+          "dark:border-frontier-leather/40 dark:bg-card",
+          isWide ? "top-[15%] mx-[20%]" : "top-[12%]",
+        )}
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-4 pt-4 pb-2">
+          <View>
+            <Text variant="subheading" className="text-card-foreground">
+              {definition?.name ?? "Companion"}
+            </Text>
+            {companion && definition ? (
+              <Text className="text-xs text-muted-foreground font-body">
+                {getApprovalMood(companion.approval)} {"·"} Carrying{" "}
+                {getCarriedWeight(carried).toFixed(1)} / {definition.carryCapacity} lb
+              </Text>
+            ) : null}
+          </View>
+          <Pressable
+            className="min-w-[44px] min-h-[44px] items-center justify-center"
+            onPress={onClose}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Text className="text-lg text-muted-foreground">{"✕"}</Text>
+          </Pressable>
+        </View>
+
+        {/* Switch between companions when more than one rides along */}
+        {party.length > 1 ? (
+          <View className="flex-row gap-2 px-4 pb-2">
+            {party.map((member) => (
+              <Button
+                key={member.id}
+                variant={member.id === companionId ? "primary" : "outline"}
+                size="sm"
+                className="min-h-[36px] px-3"
+                onPress={() => gameStore.getState().openCompanionPanel(member.id)}
+              >
+                <Text className="text-xs font-medium">
+                  {getCompanionDefinition(member.id)?.name ?? member.id}
+                </Text>
+              </Button>
+            ))}
+          </View>
+        ) : null}
+
+        <ScrollArea className="flex-1">
+          {companion ? (
+            <>
+              <SectionHeading>They carry</SectionHeading>
+              {carried.length === 0 ? (
+                <Text className="px-4 py-2 text-sm text-muted-foreground font-body">
+                  Nothing yet.
+                </Text>
+              ) : (
+                carried.map((item) => (
+                  <ItemRow
+                    key={item.id}
+                    item={item}
+                    actionLabel="Take"
+                    onPress={() => gameStore.getState().takeCompanionItem(companion.id, item.id)}
+                  />
+                ))
+              )}
+
+              <SectionHeading>Your pack</SectionHeading>
+              {inventory.map((item) => (
+                <ItemRow
+                  key={item.id}
+                  item={item}
+                  actionLabel="Give"
+                  disabled={equippedIds.has(item.id)}
+                  onPress={() => gameStore.getState().giveCompanionItem(companion.id, item.id)}
+                />
+              ))}
+            </>
+          ) : null}
+        </ScrollArea>
+      </Animated.View>
+    </Modal>
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * ItemRow - One stack of items in the player's or a companion's pack.
+ */
+
+import { View } from "react-native";
+
+import { Button, Text } from "@/components/ui";
+import type { InventoryItem } from "@/src/game/store/types";
+
+interface ItemRowProps {
+  item: InventoryItem;
+  /** Label for the button that moves the stack to the other pack */
+  actionLabel: string;
+  onPress: () => void;
+  disabled?: boolean;
+}
+
+export function ItemRow({ item, actionLabel, onPress, disabled = false }: ItemRowProps) {
+  return (
+    <View className="flex-row items-center justify-between px-4 py-2 border-b border-border/30">
+      <View className="flex-1 pr-2">
+        <Text className="text-sm text-card-foreground font-body" numberOfLines={1}>
+          {item.name}
+          {item.quantity > 1 ? ` x${item.quantity}` : ""}
+        </Text>
+        <Text className="font-data text-xs text-muted-foreground">
+          {(item.weight * item.quantity).toFixed(1)} lb
+        </Text>
+      </View>
+      <Button
+        variant="primary"
+        size="sm"
+        className="min-h-[36px] px-3"
+        onPress={onPress}
+        disabled={disabled}
+      >
+        <Text className="text-xs font-medium">{actionLabel}</Text>
+      </Button>
+    </View>
+  );
+}
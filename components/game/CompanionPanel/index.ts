@@ -0,0 +1,2 @@
+export type { CompanionPanelProps } from "./CompanionPanel.tsx";
+export { CompanionPanel } from "./CompanionPanel.tsx";
@@ -6,6 +6,7 @@ import { useGameStoreShallow } from "@/hooks/useGameStore";
 import { useResponsive } from "@/hooks/useResponsive";
 import { gameStore } from "@/src/game/store/webGameStore";
 import { getActiveQuestMarkers, type QuestMarker } from "@/src/game/systems/QuestMarkerSystem";
+import { useHudPalette } from "../hudPalette.ts";
 import { EnemyDot, MarkerDiamond, Tick } from "./CompassMarkers.tsx";
 import {
   COMPASS_WIDTH_RATIO,
@@ -20,6 +21,7 @@ import { bearingToCompassX, bearingToTarget, yawToBearing } from "./helpers.ts";
 export function CompassBar() {
   const insets = useSafeAreaInsets();
   const { width: screenWidth, isPhone } = useResponsive();
+  const palette = useHudPalette();
 
   const { playerRotation, combatState } = useGameStoreShallow((s) => ({
     playerRotation: s.playerRotation,
@@ -39,7 +41,7 @@ export function CompassBar() {
     const state = gameStore.getState();
     const _playerPos = state.playerPosition;
     return combatState.combatants
-      .filter((c) => !c.isPlayer && !c.isDead)
+      .filter((c) => !c.isPlayer && !c.isAlly && !c.isDead)
       .map((enemy) => {
         const offset = enemy.position.q * 15 - 15;
         return (playerBearing + offset + 360) % 360;
@@ -126,6 +128,7 @@ export function CompassBar() {
               key={`${marker.questId}-${marker.objectiveId}`}
               xFraction={x}
               compassWidth={compassWidth}
+              color={palette.objective}
               label={showLabel ? marker.label : undefined}
             />
           );
@@ -134,7 +137,14 @@ export function CompassBar() {
       {enemyBearings.map((bearing, i) => {
         const x = bearingToCompassX(bearing, playerBearing);
         if (x === null) return null;
-        return <EnemyDot key={`enemy-${i}`} xFraction={x} compassWidth={compassWidth} />;
+        return (
+          <EnemyDot
+            key={`enemy-${i}`}
+            xFraction={x}
+            compassWidth={compassWidth}
+            color={palette.enemy}
+          />
+        );
       })}
     </View>
   );
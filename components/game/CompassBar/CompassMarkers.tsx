@@ -110,9 +110,14 @@ export const MarkerDiamond = React.memo(function MarkerDiamond({
 interface EnemyDotProps {
   xFraction: number;
   compassWidth: number;
+  color?: string;
 }
 
-export const EnemyDot = React.memo(function EnemyDot({ xFraction, compassWidth }: EnemyDotProps) {
+export const EnemyDot = React.memo(function EnemyDot({
+  xFraction,
+  compassWidth,
+  color = HUD_RED,
+}: EnemyDotProps) {
   const x = compassWidth * (0.5 + xFraction);
 
   return (
@@ -124,7 +129,7 @@ export const EnemyDot = React.memo(function EnemyDot({ xFraction, compassWidth }
         width: 5,
         height: 5,
         borderRadius: 2.5,
-        backgroundColor: HUD_RED,
+        backgroundColor: color,
         transform: [{ translateX: -2.5 }],
         opacity: 0.9,
       }}
@@ -20,12 +20,12 @@ import Animated, {
   withTiming,
 } from "react-native-reanimated";
 import { scheduleOnRN } from "react-native-worklets";
+import { useHudPalette } from "./hudPalette.ts";
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-const HUD_RED = "#CC4444";
 const FADE_DURATION_MS = 1000;
 const MAX_INDICATORS = 4;
 
@@ -48,10 +48,11 @@ interface DamageArc {
 interface ArcProps {
   angle: number;
   intensity: number;
+  color: string;
   onComplete: () => void;
 }
 
-function DamageArc({ angle, intensity, onComplete }: ArcProps) {
+function DamageArc({ angle, intensity, color, onComplete }: ArcProps) {
   const opacity = useSharedValue(intensity);
 
   React.useEffect(() => {
@@ -109,7 +110,7 @@ function DamageArc({ angle, intensity, onComplete }: ArcProps) {
           width: "100%",
           height: "100%",
           borderRadius: arcSize / 2,
-          backgroundColor: HUD_RED,
+          backgroundColor: color,
           opacity: 0.6,
         }}
       />
@@ -127,6 +128,7 @@ let _triggerFn: TriggerFn | null = null;
 
 export function DamageIndicator() {
   const [arcs, setArcs] = React.useState<DamageArc[]>([]);
+  const palette = useHudPalette();
 
   const trigger = React.useCallback((angle: number, intensity = 0.7) => {
     const id = _nextId++;
@@ -167,6 +169,7 @@ export function DamageIndicator() {
           key={arc.id}
           angle={arc.angle}
           intensity={arc.intensity}
+          color={palette.damage}
           onComplete={() => removeArc(arc.id)}
         />
       ))}
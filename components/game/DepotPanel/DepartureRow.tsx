@@ -0,0 +1,53 @@
+/**
+ * DepartureRow - One train at the depot, on the timetable or on a ticket.
+ */
+
+import { View } from "react-native";
+
+import { Button, Text } from "@/components/ui";
+
+interface DepartureRowAction {
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+}
+
+interface DepartureRowProps {
+  /** Departure time, e.g. "14:00" */
+  time: string;
+  destination: string;
+  /** Line, ride length and price or status, shown under the destination */
+  detail: string;
+  actions: DepartureRowAction[];
+}
+
+export function DepartureRow({ time, destination, detail, actions }: DepartureRowProps) {
+  return (
+    <View className="px-4 py-3 border-b border-border/30 flex-row items-center gap-3">
+      <Text className="font-data text-base text-card-foreground w-14">{time}</Text>
+      <View className="flex-1">
+        <Text
+          className="text-base font-semibold text-card-foreground font-heading"
+          numberOfLines={1}
+        >
+          {destination}
+        </Text>
+        <Text className="font-data text-xs text-yellow-400">{detail}</Text>
+      </View>
+      <View className="flex-row gap-2">
+        {actions.map((action) => (
+          <Button
+            key={action.label}
+            variant="primary"
+            size="sm"
+            className="min-h-[36px] px-3"
+            disabled={action.disabled}
+            onPress={action.onPress}
+          >
+            <Text className="text-xs font-medium">{action.label}</Text>
+          </Button>
+        ))}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,198 @@
+/**
+ * DepotPanel - A railroad station's ticket window (React Native / Expo)
+ *
+ * Modal for the tickets the player holds (board, or wait or sleep until the
+ * train leaves) and the station's upcoming departures. Tickets are only sold
+ * to stations the player has visited, at a price set by IVRC standing.
+ */
+
+import * as React from "react";
+import { Modal, Pressable, useWindowDimensions, View } from "react-native";
+import Animated, { SlideInUp, SlideOutDown } from "react-native-reanimated";
+
+import { ScrollArea, Text } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import { getConnectionsFrom } from "@/src/game/data/schemas/world";
+import { FrontierTerritory } from "@/src/game/data/worlds/frontier_territory";
+import { getClockMinutes } from "@/src/game/store/slices/questHelpers";
+import { gameStore } from "@/src/game/store/webGameStore";
+import {
+  formatDepartureTime,
+  getTimetable,
+  RAIL_LINES,
+  sellsTickets,
+  type TrainDeparture,
+} from "@/src/game/systems/railroad";
+import { getFactionReputation } from "@/src/game/systems/reputation";
+
+import { DepartureRow } from "./DepartureRow.tsx";
+
+export interface DepotPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+function locationName(locationId: string): string {
+  return FrontierTerritory.locations.find((l) => l.id === locationId)?.name ?? locationId;
+}
+
+function SectionHeading({ children }: { children: string }) {
+  return (
+    <Text className="px-4 pt-4 pb-1 text-xs uppercase tracking-wide text-muted-foreground font-heading">
+      {children}
+    </Text>
+  );
+}
+
+export function DepotPanel({ open, onClose }: DepotPanelProps) {
+  const { width } = useWindowDimensions();
+  const isWide = width >= 768;
+
+  // Store
+  const stationId = gameStore((s) => s.depotStationId);
+  const tickets = gameStore((s) => s.railTickets);
+  const visitedIds = gameStore((s) => s.visitedLocationIds);
+  const factionReputation = gameStore((s) => s.factionReputation);
+  const clockState = gameStore((s) => s.clockState);
+  const loadedWorld = gameStore((s) => s.loadedWorld);
+  const day = clockState.day;
+
+  // Re-read the timetable as the clock moves
+  const connections = React.useMemo(
+    () =>
+      stationId && loadedWorld
+        ? getConnectionsFrom(loadedWorld.world ?? loadedWorld, stationId)
+        : [],
+    [stationId, loadedWorld],
+  );
+  const departures = React.useMemo(
+    () => (stationId ? getTimetable(connections, stationId, getClockMinutes(clockState)) : []),
+    [connections, stationId, clockState],
+  );
+
+  const ivrcReputation = getFactionReputation(factionReputation, "ivrc");
+  const selling = sellsTickets(ivrcReputation);
+
+  const when = (departure: TrainDeparture): string => {
+    const departureDay = Math.floor(departure.departsAt / 1440) + 1;
+    const time = formatDepartureTime(departure.departsAt);
+    return departureDay > day ? `${time}+1` : time;
+  };
+
+  const lineDetail = (departure: TrainDeparture): string =>
+    `${RAIL_LINES[departure.lineId]?.name ?? departure.lineId} ${"·"} ${departure.rideHours}h`;
+
+  if (!open) return null;
+
+  return (
+    <Modal
+      transparent
+      visible={open}
+      onRequestClose={onClose}
+      animationType="none"
+      statusBarTranslucent
+    >
+      <Pressable
+        className="absolute inset-0 bg-black/70"
+        onPress={onClose}
+        accessibilityRole="button"
+        accessibilityLabel="Close depot"
+      />
+
+      <Animated.View
+        entering={SlideInUp.duration(250)}
+        exiting={SlideOutDown.duration(200)}
+        className={cn(
+          "absolute inset-x-0 bottom-0 rounded-t-2xl overflow-hidden",
+          "bg-card border-t border-border",
+          "dark:border-frontier-leather/40 dark:bg-card",
+          isWide ? "top-[15%] mx-[20%]" : "top-[12%]",
+        )}
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-4 pt-4 pb-2">
+          <View>
+            <Text variant="subheading" className="text-card-foreground">
+              Depot
+            </Text>
+            {stationId ? (
+              <Text className="text-xs text-muted-foreground font-body">
+                {locationName(stationId)} station
+              </Text>
+            ) : null}
+          </View>
+          <Pressable
+            className="min-w-[44px] min-h-[44px] items-center justify-center"
+            onPress={onClose}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Text className="text-lg text-muted-foreground">{"✕"}</Text>
+          </Pressable>
+        </View>
+
+        <ScrollArea className="flex-1">
+          {tickets.length > 0 ? (
+            <>
+              <SectionHeading>Your tickets</SectionHeading>
+              {tickets.map((ticket) => {
+                const here = ticket.fromId === stationId;
+                return (
+                  <DepartureRow
+                    key={ticket.id}
+                    time={when(ticket)}
+                    destination={locationName(ticket.toId)}
+                    detail={here ? lineDetail(ticket) : `From ${locationName(ticket.fromId)}`}
+                    actions={[
+                      {
+                        label: "Board",
+                        disabled: !here,
+                        onPress: () => gameStore.getState().boardTrain(ticket.id),
+                      },
+                      {
+                        label: "Wait",
+                        disabled: !here,
+                        onPress: () => gameStore.getState().waitForTrain(ticket.id),
+                      },
+                      {
+                        label: "Sleep",
+                        disabled: !here,
+                        onPress: () => gameStore.getState().waitForTrain(ticket.id, true),
+                      },
+                    ]}
+                  />
+                );
+              })}
+            </>
+          ) : null}
+
+          <SectionHeading>Departures</SectionHeading>
+          {!selling ? (
+            <Text className="px-4 py-2 text-sm text-red-400 font-body">
+              The clerk won't sell a ticket to an enemy of the company.
+            </Text>
+          ) : null}
+          {departures.map((departure) => {
+            const visited = visitedIds.includes(departure.toId);
+            const price = gameStore.getState().getTicketPrice(departure);
+            return (
+              <DepartureRow
+                key={`${departure.lineId}_${departure.toId}_${departure.departsAt}`}
+                time={when(departure)}
+                destination={locationName(departure.toId)}
+                detail={visited ? `${lineDetail(departure)} ${"·"} ${price}g` : "Not yet visited"}
+                actions={[
+                  {
+                    label: "Buy",
+                    disabled: !visited || !selling,
+                    onPress: () => gameStore.getState().buyTicket(departure),
+                  },
+                ]}
+              />
+            );
+          })}
+        </ScrollArea>
+      </Animated.View>
+    </Modal>
+  );
+}
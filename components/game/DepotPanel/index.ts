@@ -0,0 +1,2 @@
+export type { DepotPanelProps } from "./DepotPanel.tsx";
+export { DepotPanel } from "./DepotPanel.tsx";
@@ -6,6 +6,7 @@ import { Progress } from "@/components/ui/Progress";
 import { Text } from "@/components/ui/Text";
 import { useGameStoreShallow } from "@/hooks/useGameStore";
 import { useResponsive } from "@/hooks/useResponsive";
+import { formatCalendarDate, getCalendarDate } from "@/src/game/systems/calendar";
 import {
   formatTime,
   healthPercent,
@@ -80,12 +81,16 @@ export const TopLeftPanel = React.memo(function TopLeftPanel() {
 });
 
 export const TopRightPanel = React.memo(function TopRightPanel() {
-  const { currentLocationId, loadedWorld, clockHour, clockMinute } = useGameStoreShallow((s) => ({
-    currentLocationId: s.currentLocationId,
-    loadedWorld: s.loadedWorld,
-    clockHour: s.clockState.hour,
-    clockMinute: s.clockState.minute,
-  }));
+  const { currentLocationId, loadedWorld, clockHour, clockMinute, clockDay, bounty, hostile } =
+    useGameStoreShallow((s) => ({
+      currentLocationId: s.currentLocationId,
+      loadedWorld: s.loadedWorld,
+      clockHour: s.clockState.hour,
+      clockMinute: s.clockState.minute,
+      clockDay: s.clockState.day,
+      bounty: s.getBounty(),
+      hostile: s.getWantedStatus().hostile,
+    }));
 
   const insets = useSafeAreaInsets();
   const { isPhone, isDesktop } = useResponsive();
@@ -96,7 +101,8 @@ export const TopRightPanel = React.memo(function TopRightPanel() {
   const locationName = currentLocation?.ref?.name ?? "Unknown Territory";
 
   const timeStr = formatTime(clockHour, clockMinute);
-  const phase = timePhaseLabel(clockHour);
+  const phase = timePhaseLabel(clockHour, clockDay);
+  const dateStr = formatCalendarDate(getCalendarDate(clockDay));
 
   const labelSize = isPhone ? "text-[9px]" : "text-[10px]";
   const valueSize = isPhone ? "text-[10px]" : "text-xs";
@@ -121,6 +127,18 @@ export const TopRightPanel = React.memo(function TopRightPanel() {
         </Text>
       </View>
 
+      {bounty > 0 && (
+        <View className={`rounded-lg bg-black/50 ${padding} flex-row items-center gap-2`}>
+          <Text className={`text-frontier-blood ${labelSize} font-body`}>WANTED</Text>
+          <Text className={`text-white ${valueSize} font-mono`}>{bounty}g</Text>
+          {hostile ? (
+            <Badge variant="danger">
+              <Text className="text-[9px] font-body">Dead or Alive</Text>
+            </Badge>
+          ) : null}
+        </View>
+      )}
+
       <View className={`rounded-lg bg-black/50 ${padding} flex-row items-center gap-2`}>
         <Text className={`text-frontier-dust ${labelSize} font-body`}>TIME</Text>
         <Text className={`text-white ${valueSize} font-mono`}>{timeStr}</Text>
@@ -131,6 +149,13 @@ export const TopRightPanel = React.memo(function TopRightPanel() {
         )}
       </View>
 
+      {!isPhone && (
+        <View className={`rounded-lg bg-black/50 ${padding} flex-row items-center gap-2`}>
+          <Text className={`text-frontier-dust ${labelSize} font-body`}>DATE</Text>
+          <Text className={`text-white ${valueSize} font-body`}>{dateStr}</Text>
+        </View>
+      )}
+
       {!isPhone && (
         <View className={`rounded-lg bg-black/50 ${padding} flex-row items-center gap-2`}>
           <Text className={`text-frontier-dust ${labelSize} font-body`}>DIR</Text>
@@ -1,4 +1,5 @@
-import { getQuestById } from "@/src/game/data/quests";
+import { gameStore } from "@/src/game/store/webGameStore";
+import { getSeasonalPhaseBoundaries } from "@/src/game/systems/calendar";
 import { DEFAULT_FATIGUE_CONFIG } from "@/src/game/systems/fatigue";
 import { DEFAULT_PROVISIONS_CONFIG } from "@/src/game/systems/provisions";
 
@@ -24,10 +25,12 @@ export function formatTime(hour: number, minute: number): string {
   return `${displayHour}:${minute.toString().padStart(2, "0")} ${period}`;
 }
 
-export function timePhaseLabel(hour: number): string {
-  if (hour >= 5 && hour < 7) return "Dawn";
-  if (hour >= 7 && hour < 17) return "Day";
-  if (hour >= 17 && hour < 20) return "Dusk";
+/** Phase of the day on clock day `day`; daylight hours follow the season. */
+export function timePhaseLabel(hour: number, day: number): string {
+  const { dawn, day: daytime, dusk } = getSeasonalPhaseBoundaries(day);
+  if (hour >= dawn[0] && hour < dawn[1]) return "Dawn";
+  if (hour >= daytime[0] && hour < daytime[1]) return "Day";
+  if (hour >= dusk[0] && hour < dusk[1]) return "Dusk";
   return "Night";
 }
 
@@ -62,7 +65,7 @@ export function activeQuestSummary(
 ): { title: string; objective: string } | null {
   if (!activeQuests.length) return null;
   const aq = activeQuests[0];
-  const quest = getQuestById(aq.questId);
+  const quest = gameStore.getState().getQuestDefinition(aq.questId);
   if (!quest) return null;
 
   const stage = quest.stages[aq.currentStageIndex];
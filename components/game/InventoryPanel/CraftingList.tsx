@@ -0,0 +1,134 @@
+/**
+ * Crafting tab for the inventory panel: recipes and weapon mod fitting.
+ */
+
+import { View } from "react-native";
+
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { Card, CardContent } from "@/components/ui/Card";
+import { Text } from "@/components/ui/Text";
+import { cn } from "@/lib/utils";
+import { getItem, getWeaponMod, RECIPES } from "@/src/game/data/items";
+import type { Recipe } from "@/src/game/data/schemas/item";
+import { gameStore } from "@/src/game/store";
+import type { InventoryItem } from "@/src/game/store/types";
+
+// =============================================================================
+// RecipeCard
+// =============================================================================
+
+function RecipeCard({ recipe }: { recipe: Recipe }) {
+  const blocker = gameStore((s) => s.getCraftBlocker(recipe.id));
+  const getItemCount = gameStore((s) => s.getItemCount);
+  const craftItem = gameStore((s) => s.craftItem);
+
+  return (
+    <Card className="border-frontier-leather/40 bg-frontier-gunmetal/60">
+      <CardContent className="p-3 gap-1.5">
+        <View className="flex-row items-center justify-between">
+          <Text className="text-frontier-dust font-heading font-bold text-sm">{recipe.name}</Text>
+          <View className="flex-row gap-1">
+            {recipe.station ? (
+              <Badge variant="default">
+                <Text className="text-[9px] capitalize">{recipe.station}</Text>
+              </Badge>
+            ) : null}
+            {recipe.skill ? (
+              <Badge variant="info">
+                <Text className="text-[9px] capitalize">
+                  {recipe.skill} {recipe.skillLevel}
+                </Text>
+              </Badge>
+            ) : null}
+          </View>
+        </View>
+        <Text className="text-frontier-dust/60 text-xs font-body">{recipe.description}</Text>
+        {recipe.ingredients.map((ingredient) => {
+          const have = getItemCount(ingredient.itemId);
+          return (
+            <Text
+              key={ingredient.itemId}
+              className={cn(
+                "text-[11px] font-data",
+                have >= ingredient.quantity ? "text-frontier-sage" : "text-frontier-blood",
+              )}
+            >
+              {getItem(ingredient.itemId)?.name ?? ingredient.itemId} {have}/{ingredient.quantity}
+            </Text>
+          );
+        })}
+        <View className="flex-row items-center justify-between mt-1">
+          <Text className="text-frontier-dust/40 text-[10px] font-body flex-1">
+            {blocker ?? ""}
+          </Text>
+          <Button
+            variant="outline"
+            size="sm"
+            className={cn("border-frontier-brass/40 bg-frontier-brass/10", blocker && "opacity-40")}
+            disabled={!!blocker}
+            onPress={() => craftItem(recipe.id)}
+          >
+            <Text className="text-frontier-brass text-xs font-body">Craft</Text>
+          </Button>
+        </View>
+      </CardContent>
+    </Card>
+  );
+}
+
+// =============================================================================
+// ModRow
+// =============================================================================
+
+function ModRow({ mod, weapon }: { mod: InventoryItem; weapon: InventoryItem | null }) {
+  const applyWeaponMod = gameStore((s) => s.applyWeaponMod);
+  const def = getWeaponMod(mod.itemId);
+
+  return (
+    <View className="flex-row items-center justify-between rounded-md border border-frontier-leather/30 p-2">
+      <View className="flex-1">
+        <Text className="text-frontier-dust text-xs font-body font-semibold">{mod.name}</Text>
+        <Text className="text-frontier-dust/40 text-[10px] font-data">
+          {def ? `${def.slot} · ${def.weaponTypes.join(", ")}` : ""}
+        </Text>
+      </View>
+      <Button
+        variant="outline"
+        size="sm"
+        className={cn("border-frontier-sky/40 bg-frontier-sky/10", !weapon && "opacity-40")}
+        disabled={!weapon}
+        onPress={() => weapon && applyWeaponMod(weapon.id, mod.itemId)}
+      >
+        <Text className="text-frontier-sky text-xs font-body">
+          {weapon ? `Fit to ${weapon.name}` : "No weapon"}
+        </Text>
+      </Button>
+    </View>
+  );
+}
+
+// =============================================================================
+// CraftingList
+// =============================================================================
+
+export function CraftingList({ inventory }: { inventory: InventoryItem[] }) {
+  const weapon = gameStore((s) => s.getEquippedItem("weapon"));
+  const mods = inventory.filter((item) => getWeaponMod(item.itemId));
+
+  return (
+    <View className="gap-2">
+      {RECIPES.map((recipe) => (
+        <RecipeCard key={recipe.id} recipe={recipe} />
+      ))}
+      {mods.length > 0 ? (
+        <View className="gap-2 mt-2">
+          <Text className="text-frontier-dust/60 text-xs font-heading">Weapon Mods</Text>
+          {mods.map((mod) => (
+            <ModRow key={mod.id} mod={mod} weapon={weapon} />
+          ))}
+        </View>
+      ) : null}
+    </View>
+  );
+}
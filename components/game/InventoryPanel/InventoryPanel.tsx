@@ -12,19 +12,15 @@ import { Text } from "@/components/ui/Text";
 import { gameStore } from "@/src/game/store";
 import type { EquipmentSlot, InventoryItem } from "@/src/game/store/types";
 
+import { CraftingList } from "./CraftingList.tsx";
 import { EquipmentStrip } from "./EquipmentStrip.tsx";
-import {
-  FILTER_TABS,
-  type FilterCategory,
-  type InventoryPanelProps,
-  isItemEquipped,
-} from "./helpers.ts";
+import { FILTER_TABS, type InventoryPanelProps, isItemEquipped, type PanelTab } from "./helpers.ts";
 import { ItemCell } from "./ItemCell.tsx";
 import { EmptyDetail, ItemDetail } from "./ItemDetail.tsx";
 import { PanelHeader } from "./PanelHeader.tsx";
 
 export function InventoryPanel({ visible, onClose }: InventoryPanelProps) {
-  const [activeTab, setActiveTab] = React.useState<FilterCategory>("all");
+  const [activeTab, setActiveTab] = React.useState<PanelTab>("all");
   const [selectedItemId, setSelectedItemId] = React.useState<string | null>(null);
 
   // Store selectors
@@ -39,6 +35,7 @@ export function InventoryPanel({ visible, onClose }: InventoryPanelProps) {
   const dropItem = gameStore((s) => s.dropItem);
   const equipItem = gameStore((s) => s.equipItem);
   const unequipItem = gameStore((s) => s.unequipItem);
+  const repairItem = gameStore((s) => s.repairItem);
 
   // Derived values
   const totalWeight = React.useMemo(
@@ -48,6 +45,7 @@ export function InventoryPanel({ visible, onClose }: InventoryPanelProps) {
 
   const filteredItems = React.useMemo(() => {
     if (activeTab === "all") return inventory;
+    if (activeTab === "craft") return [];
     return inventory.filter((item) => item.type === activeTab);
   }, [inventory, activeTab]);
 
@@ -86,6 +84,12 @@ export function InventoryPanel({ visible, onClose }: InventoryPanelProps) {
     },
     [dropItem, selectedItemId],
   );
+  const handleRepair = React.useCallback(
+    (id: string) => {
+      repairItem(id);
+    },
+    [repairItem],
+  );
   const handleUnequip = React.useCallback(
     (slot: EquipmentSlot) => {
       unequipItem(slot);
@@ -138,7 +142,7 @@ export function InventoryPanel({ visible, onClose }: InventoryPanelProps) {
 
         <Tabs
           value={activeTab}
-          onValueChange={(v) => setActiveTab(v as FilterCategory)}
+          onValueChange={(v) => setActiveTab(v as PanelTab)}
           className="flex-1"
         >
           <TabsList className="mx-4 mt-3 bg-frontier-gunmetal/50">
@@ -150,6 +154,9 @@ export function InventoryPanel({ visible, onClose }: InventoryPanelProps) {
                 </Text>
               </TabsTrigger>
             ))}
+            <TabsTrigger value="craft">
+              <Text className="text-xs font-body">Craft</Text>
+            </TabsTrigger>
           </TabsList>
 
           {FILTER_TABS.map((tab) => (
@@ -183,6 +190,7 @@ export function InventoryPanel({ visible, onClose }: InventoryPanelProps) {
                         onUse={handleUse}
                         onEquip={handleEquip}
                         onDrop={handleDrop}
+                        onRepair={handleRepair}
                       />
                     </View>
                   )}
@@ -192,6 +200,12 @@ export function InventoryPanel({ visible, onClose }: InventoryPanelProps) {
               </View>
             </TabsContent>
           ))}
+
+          <TabsContent value="craft" className="flex-1">
+            <ScrollArea className="flex-1 px-4 pt-3 pb-4">
+              <CraftingList inventory={inventory} />
+            </ScrollArea>
+          </TabsContent>
         </Tabs>
       </Animated.View>
     </Modal>
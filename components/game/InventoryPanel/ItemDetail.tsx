@@ -10,7 +10,7 @@ import { Card, CardContent } from "@/components/ui/Card";
 import { Separator } from "@/components/ui/Separator";
 import { Text } from "@/components/ui/Text";
 import { cn } from "@/lib/utils";
-import { getItem } from "@/src/game/data/items";
+import { applyWeaponMods, getItem } from "@/src/game/data/items";
 import { getItemTypeName, type ItemType } from "@/src/game/data/schemas/item";
 import type { EquipmentState, InventoryItem } from "@/src/game/store/types";
 import { conditionColor, isItemEquipped, rarityBadgeVariant } from "./helpers.ts";
@@ -48,16 +48,20 @@ export function ItemDetail({
   onUse,
   onEquip,
   onDrop,
+  onRepair,
 }: {
   item: InventoryItem;
   equipment: EquipmentState;
   onUse: (id: string) => void;
   onEquip: (id: string) => void;
   onDrop: (id: string) => void;
+  onRepair: (id: string) => void;
 }) {
   const def = getItem(item.itemId);
   const equipped = isItemEquipped(equipment, item.id);
   const canEquip = item.type === "weapon" || item.type === "armor";
+  const canRepair = canEquip && item.condition < 100;
+  const weaponStats = def?.weaponStats ? applyWeaponMods(def.weaponStats, item.mods) : null;
 
   return (
     <Card className="border-frontier-leather/40 bg-frontier-gunmetal/60">
@@ -90,23 +94,28 @@ export function ItemDetail({
         <View className="gap-1.5 mb-3">
           <StatRow label="Type" value={getItemTypeName(item.type as ItemType)} />
           <StatRow label="Weight" value={`${item.weight} lbs`} />
-          {item.type === "weapon" ? (
+          {canEquip ? (
+            <StatRow
+              label="Condition"
+              value={`${Math.round(item.condition)}%`}
+              valueClassName={conditionColor(item.condition)}
+            />
+          ) : null}
+          {item.type === "weapon" && weaponStats ? (
             <>
               <StatRow
-                label="Condition"
-                value={`${item.condition}%`}
-                valueClassName={conditionColor(item.condition)}
+                label="Damage"
+                value={String(weaponStats.damage)}
+                valueClassName="text-frontier-blood"
               />
-              {def?.weaponStats ? (
-                <>
-                  <StatRow
-                    label="Damage"
-                    value={String(def.weaponStats.damage)}
-                    valueClassName="text-frontier-blood"
-                  />
-                  <StatRow label="Range" value={`${def.weaponStats.range}m`} />
-                  <StatRow label="Accuracy" value={`${def.weaponStats.accuracy}%`} />
-                </>
+              <StatRow label="Range" value={`${weaponStats.range}m`} />
+              <StatRow label="Accuracy" value={`${weaponStats.accuracy}%`} />
+              {item.mods?.length ? (
+                <StatRow
+                  label="Mods"
+                  value={item.mods.map((id) => getItem(id)?.name ?? id).join(", ")}
+                  valueClassName="text-frontier-brass"
+                />
               ) : null}
             </>
           ) : null}
@@ -175,6 +184,16 @@ export function ItemDetail({
               </Text>
             </Button>
           ) : null}
+          {canRepair ? (
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 border-frontier-whiskey/40 bg-frontier-whiskey/10"
+              onPress={() => onRepair(item.id)}
+            >
+              <Text className="text-frontier-whiskey text-xs font-body">Repair</Text>
+            </Button>
+          ) : null}
           {item.droppable ? (
             <Button
               variant="outline"
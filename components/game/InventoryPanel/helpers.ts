@@ -10,6 +10,9 @@ import type { EquipmentState } from "@/src/game/store/types";
 
 export type FilterCategory = "all" | "weapon" | "armor" | "consumable" | "key_item";
 
+/** Item filters plus the crafting tab */
+export type PanelTab = FilterCategory | "craft";
+
 export interface InventoryPanelProps {
   /** Whether the panel is visible */
   visible: boolean;
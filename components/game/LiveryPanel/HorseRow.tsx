@@ -0,0 +1,56 @@
+/**
+ * HorseRow - One horse at the livery, for sale or the player's own.
+ */
+
+import { View } from "react-native";
+
+import { Button, Text } from "@/components/ui";
+import type { HorseBreed } from "@/src/game/systems/horses";
+
+interface HorseRowAction {
+  label: string;
+  onPress: () => void;
+}
+
+interface HorseRowProps {
+  title: string;
+  breed: HorseBreed;
+  /** Condition, fees or price, shown under the stats */
+  detail: string;
+  actions: HorseRowAction[];
+}
+
+export function HorseRow({ title, breed, detail, actions }: HorseRowProps) {
+  return (
+    <View className="px-4 py-3 border-b border-border/30">
+      <Text className="text-base font-semibold text-card-foreground font-heading" numberOfLines={1}>
+        {title}
+      </Text>
+      <Text className="mt-1 text-sm text-muted-foreground font-body" numberOfLines={2}>
+        {breed.description}
+      </Text>
+
+      <View className="mt-2 flex-row items-center justify-between">
+        <View className="flex-1">
+          <Text className="font-data text-xs text-muted-foreground">
+            HP {breed.maxHealth} {"·"} Wind {breed.maxStamina} {"·"} Bags +{breed.saddlebagCapacity}
+          </Text>
+          <Text className="font-data text-xs text-yellow-400">{detail}</Text>
+        </View>
+        <View className="flex-row gap-2">
+          {actions.map((action) => (
+            <Button
+              key={action.label}
+              variant="primary"
+              size="sm"
+              className="min-h-[36px] px-3"
+              onPress={action.onPress}
+            >
+              <Text className="text-xs font-medium">{action.label}</Text>
+            </Button>
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * LiveryPanel - A town's livery stable (React Native / Expo)
+ *
+ * Modal for the horse riding with the player (stable it, fit saddlebags),
+ * the player's horses stabled in this town (settle the bill and take one
+ * out) and the breeds the livery has for sale.
+ */
+
+import * as React from "react";
+import { Modal, Pressable, useWindowDimensions, View } from "react-native";
+import Animated, { SlideInUp, SlideOutDown } from "react-native-reanimated";
+
+import { ScrollArea, Text } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import { gameStore } from "@/src/game/store/webGameStore";
+import {
+  getStableFee,
+  HORSE_BREEDS,
+  type Horse,
+  SADDLEBAGS_PRICE,
+} from "@/src/game/systems/horses";
+
+import { HorseRow } from "./HorseRow.tsx";
+
+export interface LiveryPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+function condition(horse: Horse): string {
+  return `Health ${Math.round(horse.health)} ${"·"} Wind ${Math.round(horse.stamina)}`;
+}
+
+function SectionHeading({ children }: { children: string }) {
+  return (
+    <Text className="px-4 pt-4 pb-1 text-xs uppercase tracking-wide text-muted-foreground font-heading">
+      {children}
+    </Text>
+  );
+}
+
+export function LiveryPanel({ open, onClose }: LiveryPanelProps) {
+  const { width } = useWindowDimensions();
+  const isWide = width >= 768;
+
+  // Store
+  const townId = gameStore((s) => s.liveryTownId);
+  const horses = gameStore((s) => s.horses);
+  const activeHorseId = gameStore((s) => s.activeHorseId);
+  const day = gameStore((s) => s.clockState.day);
+
+  const activeHorse = horses.find((horse) => horse.id === activeHorseId);
+  const stabled = React.useMemo(
+    () => horses.filter((horse) => townId && horse.stabledAt === townId),
+    [horses, townId],
+  );
+
+  const townName = React.useMemo(() => {
+    if (!townId) return null;
+    return gameStore.getState().getLawJurisdiction(townId).townName;
+  }, [townId]);
+
+  if (!open) return null;
+
+  return (
+    <Modal
+      transparent
+      visible={open}
+      onRequestClose={onClose}
+      animationType="none"
+      statusBarTranslucent
+    >
+      <Pressable
+        className="absolute inset-0 bg-black/70"
+        onPress={onClose}
+        accessibilityRole="button"
+        accessibilityLabel="Close livery"
+      />
+
+      <Animated.View
+        entering={SlideInUp.duration(250)}
+        exiting={SlideOutDown.duration(200)}
+        className={cn(
+          "absolute inset-x-0 bottom-0 rounded-t-2xl overflow-hidden",
+          "bg-card border-t border-border",
+          "dark:border-frontier-leather/40 dark:bg-card",
+          isWide ? "top-[15%] mx-[20%]" : "top-[12%]",
+        )}
+      >
+        {/* Header */}
+        <View className="flex-row items-center justify-between px-4 pt-4 pb-2">
+          <View>
+            <Text variant="subheading" className="text-card-foreground">
+              Livery
+            </Text>
+            {townName ? (
+              <Text className="text-xs text-muted-foreground font-body">{townName} stables</Text>
+            ) : null}
+          </View>
+          <Pressable
+            className="min-w-[44px] min-h-[44px] items-center justify-center"
+            onPress={onClose}
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+          >
+            <Text className="text-lg text-muted-foreground">{"✕"}</Text>
+          </Pressable>
+        </View>
+
+        <ScrollArea className="flex-1">
+          {activeHorse ? (
+            <>
+              <SectionHeading>Your horse</SectionHeading>
+              <HorseRow
+                title={activeHorse.name}
+                breed={HORSE_BREEDS[activeHorse.breedId]}
+                detail={`${condition(activeHorse)}${activeHorse.saddlebags ? " · Saddlebags" : ""}`}
+                actions={[
+                  { label: "Stable", onPress: () => gameStore.getState().stableHorse() },
+                  ...(activeHorse.saddlebags
+                    ? []
+                    : [
+                        {
+                          label: `Bags ${SADDLEBAGS_PRICE}g`,
+                          onPress: () => gameStore.getState().buySaddlebags(),
+                        },
+                      ]),
+                ]}
+              />
+            </>
+          ) : null}
+
+          {stabled.length > 0 ? (
+            <>
+              <SectionHeading>In the stable</SectionHeading>
+              {stabled.map((horse) => (
+                <HorseRow
+                  key={horse.id}
+                  title={horse.name}
+                  breed={HORSE_BREEDS[horse.breedId]}
+                  detail={`Keep owed: ${getStableFee(horse, day)}g`}
+                  actions={[
+                    { label: "Take", onPress: () => gameStore.getState().takeHorse(horse.id) },
+                  ]}
+                />
+              ))}
+            </>
+          ) : null}
+
+          <SectionHeading>For sale</SectionHeading>
+          {Object.values(HORSE_BREEDS).map((breed) => (
+            <HorseRow
+              key={breed.id}
+              title={breed.name}
+              breed={breed}
+              detail={`${breed.price}g`}
+              actions={[{ label: "Buy", onPress: () => gameStore.getState().buyHorse(breed.id) }]}
+            />
+          ))}
+        </ScrollArea>
+      </Animated.View>
+    </Modal>
+  );
+}
@@ -0,0 +1,2 @@
+export type { LiveryPanelProps } from "./LiveryPanel.tsx";
+export { LiveryPanel } from "./LiveryPanel.tsx";
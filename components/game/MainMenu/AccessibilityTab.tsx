@@ -0,0 +1,81 @@
+/**
+ * AccessibilityTab - Colourblind palettes, subtitles, sound captions and aim
+ * assist. Hold/toggle options for crouch, aim and sprint live on the
+ * Controls tab with the rest of the input settings.
+ */
+
+import { View } from "react-native";
+import { CardContent, Text } from "@/components/ui";
+import { getAccessibility } from "@/src/game/store/slices";
+import type { ColorblindMode } from "@/src/game/store/types";
+import { gameStore } from "@/src/game/store/webGameStore";
+import { WesternSeparator } from "./MenuOverlays.tsx";
+import { Choice, StepperRow, ToggleRow } from "./SettingsControls.tsx";
+
+const COLORBLIND_MODES: [ColorblindMode, string][] = [
+  ["off", "Off"],
+  ["protanopia", "Protan"],
+  ["deuteranopia", "Deutan"],
+  ["tritanopia", "Tritan"],
+];
+
+export function AccessibilityTab() {
+  const settings = gameStore((s) => s.settings);
+  const setAccessibility = gameStore((s) => s.setAccessibility);
+  const accessibility = getAccessibility(settings);
+  const { aimAssist } = accessibility;
+
+  return (
+    <CardContent className="gap-4">
+      <View className="gap-2">
+        <Text variant="small" className="text-foreground">
+          Colourblind Mode
+        </Text>
+        <View className="flex-row gap-2">
+          {COLORBLIND_MODES.map(([mode, label]) => (
+            <Choice
+              key={mode}
+              label={label}
+              selected={accessibility.colorblindMode === mode}
+              onPress={() => setAccessibility({ colorblindMode: mode })}
+            />
+          ))}
+        </View>
+      </View>
+
+      <ToggleRow
+        label="Subtitles"
+        description="Show what people say"
+        value={accessibility.subtitles}
+        onToggle={() => setAccessibility({ subtitles: !accessibility.subtitles })}
+      />
+      <ToggleRow
+        label="Sound Captions"
+        description="Describe important sounds, like gunfire close by"
+        value={accessibility.soundCaptions}
+        onToggle={() => setAccessibility({ soundCaptions: !accessibility.soundCaptions })}
+      />
+
+      <WesternSeparator />
+
+      <ToggleRow
+        label="Aim Assist"
+        description="Gamepad and touch only"
+        value={aimAssist.enabled}
+        onToggle={() => setAccessibility({ aimAssist: { enabled: !aimAssist.enabled } })}
+      />
+      <StepperRow
+        label="Slowdown"
+        display={`${Math.round(aimAssist.slowdown * 100)}%`}
+        onDecrease={() => setAccessibility({ aimAssist: { slowdown: aimAssist.slowdown - 0.1 } })}
+        onIncrease={() => setAccessibility({ aimAssist: { slowdown: aimAssist.slowdown + 0.1 } })}
+      />
+      <StepperRow
+        label="Magnetism"
+        display={`${Math.round(aimAssist.magnetism * 100)}%`}
+        onDecrease={() => setAccessibility({ aimAssist: { magnetism: aimAssist.magnetism - 0.1 } })}
+        onIncrease={() => setAccessibility({ aimAssist: { magnetism: aimAssist.magnetism + 0.1 } })}
+      />
+    </CardContent>
+  );
+}
@@ -0,0 +1,267 @@
+/**
+ * ControlsTab - Control presets, look options, hold/toggle options and the
+ * rebinding list.
+ *
+ * Tap an action, then press the key, mouse button or gamepad button to bind
+ * it. Left click is bound by clicking the waiting action itself, so clicks
+ * elsewhere stay free for the menu. Escape cancels. An input taken from
+ * another action is reported, and anything left sharing an input is flagged.
+ */
+
+import * as React from "react";
+import { Pressable, View } from "react-native";
+import { CardContent, ScrollArea, Text } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import {
+  ACTION_LABELS,
+  type BindingDevice,
+  type ControlPreset,
+  describeInput,
+  findConflicts,
+  type InputAction,
+  type ToggleableAction,
+} from "@/src/game/input";
+import { getControls } from "@/src/game/store/slices";
+import { gameStore } from "@/src/game/store/webGameStore";
+import { WesternSeparator } from "./MenuOverlays.tsx";
+import { Choice, StepperRow, ToggleRow } from "./SettingsControls.tsx";
+
+const PRESETS: [ControlPreset, string][] = [
+  ["default", "Default"],
+  ["left-handed", "Left-Handed"],
+  ["southpaw", "Southpaw"],
+];
+
+const ACTION_NAMES = new Map(ACTION_LABELS);
+
+const TOGGLE_OPTIONS: [ToggleableAction, string, string][] = [
+  ["crouch", "Toggle Crouch", "Press once to crouch, again to stand"],
+  ["aim", "Toggle Aim", "Press once to aim down sights, again to lower"],
+  ["sprint", "Toggle Sprint", "Press once to sprint; stops when you stop moving"],
+];
+
+/**
+ * Wait for the next key, mouse button or gamepad button press and hand it
+ * to `onInput`. Only works on web; elsewhere nothing is ever captured.
+ */
+function useInputCapture(
+  device: BindingDevice,
+  active: boolean,
+  onInput: (input: string | number) => void,
+  onCancel: () => void,
+) {
+  React.useEffect(() => {
+    if (!active || typeof document === "undefined") return;
+
+    if (device === "keyboard") {
+      const onKeyDown = (e: KeyboardEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (e.code === "Escape") onCancel();
+        else onInput(e.code);
+      };
+      const onMouseDown = (e: MouseEvent) => {
+        if (e.button === 0) return;
+        e.preventDefault();
+        onInput(`Mouse${e.button}`);
+      };
+      document.addEventListener("keydown", onKeyDown, true);
+      document.addEventListener("mousedown", onMouseDown, true);
+      return () => {
+        document.removeEventListener("keydown", onKeyDown, true);
+        document.removeEventListener("mousedown", onMouseDown, true);
+      };
+    }
+
+    if (typeof navigator === "undefined" || typeof navigator.getGamepads !== "function") return;
+    // Ignore buttons already held when listening started
+    const held = new Set<string>();
+    for (const gp of navigator.getGamepads()) {
+      gp?.buttons.forEach((b, i) => {
+        if (b.pressed) held.add(`${gp.index}:${i}`);
+      });
+    }
+    let frame = 0;
+    const poll = () => {
+      for (const gp of navigator.getGamepads()) {
+        if (!gp) continue;
+        for (let i = 0; i < gp.buttons.length; i++) {
+          const key = `${gp.index}:${i}`;
+          if (!gp.buttons[i].pressed) held.delete(key);
+          else if (!held.has(key)) {
+            onInput(i);
+            return;
+          }
+        }
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [device, active, onInput, onCancel]);
+}
+
+export function ControlsTab() {
+  const settings = gameStore((s) => s.settings);
+  const setControls = gameStore((s) => s.setControls);
+  const rebindControl = gameStore((s) => s.rebindControl);
+  const applyControlPreset = gameStore((s) => s.applyControlPreset);
+  const controls = getControls(settings);
+
+  const [device, setDevice] = React.useState<BindingDevice>("keyboard");
+  const [listening, setListening] = React.useState<InputAction | null>(null);
+  const [notice, setNotice] = React.useState<string | null>(null);
+
+  const bindings: Partial<Record<InputAction, (string | number)[]>> =
+    device === "keyboard" ? controls.keyboard : controls.gamepad;
+  const conflicts = findConflicts(bindings);
+
+  const handleInput = React.useCallback(
+    (input: string | number) => {
+      if (listening === null) return;
+      const displaced = rebindControl(device, listening, input);
+      setNotice(
+        displaced.length > 0
+          ? `${describeInput(input)} was taken from ${displaced
+              .map((a) => ACTION_NAMES.get(a))
+              .join(", ")}`
+          : null,
+      );
+      setListening(null);
+    },
+    [device, listening, rebindControl],
+  );
+  const handleCancel = React.useCallback(() => setListening(null), []);
+  useInputCapture(device, listening !== null, handleInput, handleCancel);
+
+  const switchDevice = (next: BindingDevice) => {
+    setDevice(next);
+    setListening(null);
+    setNotice(null);
+  };
+
+  return (
+    <CardContent className="gap-4">
+      <View className="gap-2">
+        <Text variant="small" className="text-foreground">
+          Preset{controls.preset === "custom" ? " (custom)" : ""}
+        </Text>
+        <View className="flex-row gap-2">
+          {PRESETS.map(([preset, label]) => (
+            <Choice
+              key={preset}
+              label={label}
+              selected={controls.preset === preset}
+              onPress={() => {
+                applyControlPreset(preset);
+                setNotice(null);
+              }}
+            />
+          ))}
+        </View>
+      </View>
+
+      <StepperRow
+        label="Look Sensitivity"
+        display={`${Math.round(controls.lookSensitivity * 100)}%`}
+        onDecrease={() => setControls({ lookSensitivity: controls.lookSensitivity - 0.1 })}
+        onIncrease={() => setControls({ lookSensitivity: controls.lookSensitivity + 0.1 })}
+      />
+      <StepperRow
+        label="Stick Deadzone"
+        display={`${Math.round(controls.stickDeadzone * 100)}%`}
+        onDecrease={() => setControls({ stickDeadzone: controls.stickDeadzone - 0.05 })}
+        onIncrease={() => setControls({ stickDeadzone: controls.stickDeadzone + 0.05 })}
+      />
+      <ToggleRow
+        label="Invert Y"
+        description="Push up to look down"
+        value={controls.invertY}
+        onToggle={() => setControls({ invertY: !controls.invertY })}
+      />
+      <ToggleRow
+        label="Swap Sticks"
+        description="Move with the right stick, look with the left"
+        value={controls.swapSticks}
+        onToggle={() => setControls({ swapSticks: !controls.swapSticks, preset: "custom" })}
+      />
+      {TOGGLE_OPTIONS.map(([action, label, description]) => (
+        <ToggleRow
+          key={action}
+          label={label}
+          description={description}
+          value={controls.activation[action] === "toggle"}
+          onToggle={() =>
+            setControls({
+              activation: {
+                ...controls.activation,
+                [action]: controls.activation[action] === "toggle" ? "hold" : "toggle",
+              },
+            })
+          }
+        />
+      ))}
+
+      <WesternSeparator />
+
+      <View className="flex-row gap-2">
+        <Choice
+          label="Keyboard & Mouse"
+          selected={device === "keyboard"}
+          onPress={() => switchDevice("keyboard")}
+        />
+        <Choice
+          label="Gamepad"
+          selected={device === "gamepad"}
+          onPress={() => switchDevice("gamepad")}
+        />
+      </View>
+
+      {notice ? (
+        <Text variant="caption" className="text-amber-500">
+          {notice}
+        </Text>
+      ) : null}
+
+      <ScrollArea style={{ maxHeight: 260 }} contentContainerClassName="gap-1">
+        {ACTION_LABELS.map(([action, label]) => {
+          const inputs = bindings[action] ?? [];
+          const isListening = listening === action;
+          const clash = inputs.some((input) => conflicts.has(input));
+          return (
+            <Pressable
+              key={action}
+              className={cn(
+                "flex-row items-center justify-between rounded-md px-2 py-2",
+                isListening ? "bg-primary/20" : "active:bg-muted/30",
+              )}
+              onPress={() => {
+                if (!isListening) setListening(action);
+                else if (device === "keyboard") handleInput("Mouse0");
+                else setListening(null);
+              }}
+            >
+              <Text variant="small" className="text-foreground">
+                {label}
+              </Text>
+              <Text
+                variant="caption"
+                className={cn(
+                  isListening && "text-primary",
+                  !isListening && (clash || inputs.length === 0) && "text-destructive",
+                  !isListening && !clash && inputs.length > 0 && "text-muted-foreground",
+                )}
+              >
+                {isListening
+                  ? "Press a button..."
+                  : inputs.length > 0
+                    ? inputs.map(describeInput).join(" / ")
+                    : "Unbound"}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </ScrollArea>
+    </CardContent>
+  );
+}
@@ -23,7 +23,9 @@ import {
 } from "@/components/ui";
 import { gameStore } from "@/src/game/store/webGameStore";
 import type { SaveSlotMeta } from "@/src/game/systems/SaveSystem";
+import { AccessibilityTab } from "./AccessibilityTab.tsx";
 import { AnimatedTitle } from "./AnimatedTitle.tsx";
+import { ControlsTab } from "./ControlsTab.tsx";
 import { APP_VERSION, COLORS } from "./constants.ts";
 import { MenuButton } from "./MenuButton.tsx";
 import { FilmGrainOverlay, VignetteEdge, WesternSeparator } from "./MenuOverlays.tsx";
@@ -213,6 +215,12 @@ export function MainMenu({ onClose }: { onClose?: () => void } = {}) {
                     <TabsTrigger value="settings">
                       <Text>Settings</Text>
                     </TabsTrigger>
+                    <TabsTrigger value="controls">
+                      <Text>Controls</Text>
+                    </TabsTrigger>
+                    <TabsTrigger value="accessibility">
+                      <Text>Access</Text>
+                    </TabsTrigger>
                   </TabsList>
                 </View>
 
@@ -249,6 +257,14 @@ export function MainMenu({ onClose }: { onClose?: () => void } = {}) {
                 <TabsContent value="settings">
                   <SettingsTab />
                 </TabsContent>
+
+                <TabsContent value="controls">
+                  <ControlsTab />
+                </TabsContent>
+
+                <TabsContent value="accessibility">
+                  <AccessibilityTab />
+                </TabsContent>
               </Tabs>
             )}
 
@@ -84,3 +84,64 @@ export function ToggleRow({
     </Pressable>
   );
 }
+
+export function StepperRow({
+  label,
+  display,
+  onDecrease,
+  onIncrease,
+}: {
+  label: string;
+  display: string;
+  onDecrease: () => void;
+  onIncrease: () => void;
+}) {
+  return (
+    <View className="flex-row items-center justify-between">
+      <Text variant="small" className="text-foreground">
+        {label}
+      </Text>
+      <View className="flex-row items-center gap-2">
+        <Pressable
+          className="h-8 w-8 items-center justify-center rounded-md border border-border active:bg-muted/30"
+          onPress={onDecrease}
+        >
+          <Text className="text-foreground">-</Text>
+        </Pressable>
+        <Text variant="caption" className="w-10 text-center text-muted-foreground">
+          {display}
+        </Text>
+        <Pressable
+          className="h-8 w-8 items-center justify-center rounded-md border border-border active:bg-muted/30"
+          onPress={onIncrease}
+        >
+          <Text className="text-foreground">+</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+export function Choice({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      className={cn(
+        "flex-1 items-center rounded-md border px-2 py-2",
+        selected ? "border-primary bg-primary/20" : "border-border active:bg-muted/30",
+      )}
+      onPress={onPress}
+    >
+      <Text variant="small" className={selected ? "text-primary" : "text-foreground"}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
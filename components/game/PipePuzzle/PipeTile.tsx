@@ -4,6 +4,7 @@ import Animated, { useAnimatedStyle, useSharedValue, withSpring } from "react-na
 
 import { Text } from "@/components/ui";
 import type { PipeCell } from "@/src/game/puzzles/pipe-fitter/types";
+import { useHudPalette } from "../hudPalette.ts";
 
 import {
   AMBER,
@@ -13,10 +14,8 @@ import {
   CELL_BORDER,
   CELL_FIXED_BG,
   CELL_FIXED_BORDER,
-  FLOW_AMBER,
   INACTIVE_PIPE,
   MONO_FONT,
-  SOLVED_GREEN,
   TILE_SIZE,
 } from "./constants.ts";
 import { getPipeSegments } from "./pipeSegments.ts";
@@ -31,6 +30,7 @@ export function PipeTile({
   solved: boolean;
 }) {
   const scale = useSharedValue(1);
+  const { flow, solved: solvedColor } = useHudPalette();
 
   const handlePress = React.useCallback(() => {
     if (cell.fixed || cell.locked || solved) return;
@@ -54,10 +54,10 @@ export function PipeTile({
 
   let pipeColor = INACTIVE_PIPE;
   if (cell.active) {
-    pipeColor = solved ? SOLVED_GREEN : FLOW_AMBER;
+    pipeColor = solved ? solvedColor : flow;
   }
-  if (isSource) pipeColor = cell.active ? (solved ? SOLVED_GREEN : FLOW_AMBER) : AMBER;
-  if (isSink) pipeColor = cell.active && solved ? SOLVED_GREEN : AMBER_DIM;
+  if (isSource) pipeColor = cell.active ? (solved ? solvedColor : flow) : AMBER;
+  if (isSink) pipeColor = cell.active && solved ? solvedColor : AMBER_DIM;
 
   return (
     <Pressable onPress={handlePress} disabled={!isInteractable}>
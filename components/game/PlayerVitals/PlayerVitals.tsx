@@ -12,6 +12,7 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Text } from "@/components/ui/Text";
 import { useGameStoreShallow } from "@/hooks/useGameStore";
 import { useResponsive } from "@/hooks/useResponsive";
+import { HORSE_BREEDS } from "@/src/game/systems/horses";
 import { SegmentedBar } from "./VitalBars.tsx";
 
 const HUD_AMBER = "#D4A855";
@@ -36,6 +37,14 @@ export function PlayerVitals() {
     maxStamina: s.playerStats.maxStamina,
   }));
 
+  // The horse's wind, while in the saddle
+  const horse = useGameStoreShallow((s) => {
+    const active = s.mounted ? s.getActiveHorse() : undefined;
+    return active
+      ? { stamina: Math.round(active.stamina), maxStamina: HORSE_BREEDS[active.breedId].maxStamina }
+      : null;
+  });
+
   const flashOpacity = useSharedValue(0);
   const prevHealthRef = React.useRef(health);
 
@@ -154,6 +163,41 @@ export function PlayerVitals() {
             </Text>
           ) : null}
         </View>
+
+        {horse ? (
+          <View style={{ flexDirection: "row", alignItems: "center", gap: 6 }}>
+            <Text
+              style={{
+                color: HUD_AMBER_DIM,
+                fontSize: isPhone ? 8 : 9,
+                fontWeight: "600",
+                fontFamily: MONO_FONT,
+                width: 20,
+              }}
+            >
+              HS
+            </Text>
+            <SegmentedBar
+              value={horse.stamina}
+              maxValue={horse.maxStamina}
+              segments={HP_SEGMENTS}
+              height={smallBarHeight}
+              color={HUD_AMBER_DIM}
+              width={barWidth}
+            />
+            {showNumbers ? (
+              <Text
+                style={{
+                  color: HUD_AMBER_DIM,
+                  fontSize: isPhone ? 8 : 9,
+                  fontFamily: MONO_FONT,
+                }}
+              >
+                {horse.stamina}/{horse.maxStamina}
+              </Text>
+            ) : null}
+          </View>
+        ) : null}
       </View>
     </Pressable>
   );
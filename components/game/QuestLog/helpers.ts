@@ -2,8 +2,8 @@
  * QuestLog shared types, constants, and helper functions.
  */
 
-import { getQuestById } from "@/src/game/data/quests";
 import type { ActiveQuest, Objective, Quest, QuestType } from "@/src/game/data/schemas/quest";
+import { gameStore } from "@/src/game/store/webGameStore";
 
 // =============================================================================
 // TYPES
@@ -71,7 +71,7 @@ export function shouldShowObjective(
 export function buildActiveQuestsWithDefs(activeQuests: ActiveQuest[]): QuestWithActive[] {
   const items = activeQuests
     .map((activeQuest) => {
-      const quest = getQuestById(activeQuest.questId);
+      const quest = gameStore.getState().getQuestDefinition(activeQuest.questId);
       return quest ? { activeQuest, quest } : null;
     })
     .filter((item): item is QuestWithActive => item !== null);
@@ -91,5 +91,7 @@ export function buildCompletedQuestsDisplay(
   completedQuestIds: string[],
 ): Quest[] {
   if (completedQuests.length > 0) return completedQuests;
-  return completedQuestIds.map((id) => getQuestById(id)).filter((q): q is Quest => q !== undefined);
+  return completedQuestIds
+    .map((id) => gameStore.getState().getQuestDefinition(id))
+    .filter((q): q is Quest => q !== undefined);
 }
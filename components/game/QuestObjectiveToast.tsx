@@ -22,7 +22,7 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Text } from "@/components/ui/Text";
 import { useGameStoreShallow } from "@/hooks/useGameStore";
 import { useResponsive } from "@/hooks/useResponsive";
-import { getQuestById } from "@/src/game/data/quests";
+import { gameStore } from "@/src/game/store/webGameStore";
 
 // ============================================================================
 // CONSTANTS
@@ -54,7 +54,7 @@ function getCurrentObjectiveText(
 ): string | null {
   if (!activeQuests.length) return null;
   const aq = activeQuests[0];
-  const quest = getQuestById(aq.questId);
+  const quest = gameStore.getState().getQuestDefinition(aq.questId);
   if (!quest) return null;
 
   const stage = quest.stages[aq.currentStageIndex];
@@ -10,7 +10,8 @@ import { Text } from "@/components/ui/Text";
 import { cn } from "@/lib/utils";
 import { getItem } from "@/src/game/data/items";
 import { getRarityColor } from "@/src/game/data/schemas/item";
-import { calculateBuyPrice, type ShopDefinition, type ShopItem } from "@/src/game/data/shops";
+import type { ShopDefinition, ShopItem } from "@/src/game/data/shops";
+import { gameStore } from "@/src/game/store/webGameStore";
 
 import { formatStock, getRarityBadgeVariant } from "./helpers.ts";
 import { GoldIcon } from "./ShopHeader.tsx";
@@ -27,9 +28,10 @@ export function BuyItemRow({
   onBuy: (itemId: string, price: number, itemName: string) => void;
 }) {
   const itemDef = getItem(shopItem.itemId);
-  const price = calculateBuyPrice(shop, shopItem);
+  const price = gameStore((s) => s.getShopBuyPrice(shop.id, shopItem.itemId));
+  const stock = gameStore((s) => s.getShopStock(shop.id, shopItem.itemId));
   const affordable = playerGold >= price;
-  const soldOut = shopItem.stock === 0;
+  const soldOut = stock === 0;
   const disabled = !affordable || soldOut;
   const rarityColor = itemDef ? getRarityColor(itemDef.rarity) : "#95A5A6";
   const rarity = itemDef?.rarity ?? "common";
@@ -75,7 +77,7 @@ export function BuyItemRow({
       <Text
         className={cn("hidden text-xs text-frontier-dust/40", Platform.select({ web: "sm:block" }))}
       >
-        {formatStock(shopItem.stock)}
+        {formatStock(stock)}
       </Text>
 
       <View className="flex-row items-center gap-2">
@@ -1,5 +1,5 @@
 /**
- * Confirmation dialog for buy/sell actions and empty state component.
+ * Confirmation dialog for buy/sell/repair actions and empty state component.
  */
 
 import { Modal, Platform, Pressable, View } from "react-native";
@@ -27,6 +27,12 @@ export function EmptyState({ message, hint }: { message: string; hint: string })
 // ConfirmDialog
 // =============================================================================
 
+const DIALOG_TEXT = {
+  buy: { title: "Confirm Purchase", verb: "Buy", button: "bg-green-700" },
+  sell: { title: "Confirm Sale", verb: "Sell", button: "bg-amber-700" },
+  repair: { title: "Confirm Repair", verb: "Repair", button: "bg-sky-700" },
+} as const;
+
 export function ConfirmDialog({
   dialog,
   onCancel,
@@ -34,7 +40,7 @@ export function ConfirmDialog({
   dialog: NonNullable<ConfirmationDialog>;
   onCancel: () => void;
 }) {
-  const isBuy = dialog.type === "buy";
+  const text = DIALOG_TEXT[dialog.type];
 
   return (
     <Modal transparent visible onRequestClose={onCancel}>
@@ -47,12 +53,10 @@ export function ConfirmDialog({
         >
           <Pressable>
             <Text variant="subheading" className="mb-2 text-center text-frontier-dust">
-              {isBuy ? "Confirm Purchase" : "Confirm Sale"}
+              {text.title}
             </Text>
             <Text className="mb-4 text-center text-sm text-frontier-dust/70">
-              {isBuy
-                ? `Buy ${dialog.itemName} for ${dialog.price} gold?`
-                : `Sell ${dialog.itemName} for ${dialog.price} gold?`}
+              {`${text.verb} ${dialog.itemName} for ${dialog.price} gold?`}
             </Text>
             <View className="flex-row items-center justify-center gap-3">
               <Button
@@ -66,13 +70,13 @@ export function ConfirmDialog({
               <Button
                 variant="primary"
                 size="sm"
-                className={cn("min-h-[44px] flex-1", isBuy ? "bg-green-700" : "bg-amber-700")}
+                className={cn("min-h-[44px] flex-1", text.button)}
                 onPress={() => {
                   dialog.onConfirm();
                   onCancel();
                 }}
               >
-                <Text className="text-sm font-medium text-white">{isBuy ? "Buy" : "Sell"}</Text>
+                <Text className="text-sm font-medium text-white">{text.verb}</Text>
               </Button>
             </View>
           </Pressable>
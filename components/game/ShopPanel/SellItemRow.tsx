@@ -10,8 +10,9 @@ import { Text } from "@/components/ui/Text";
 import { cn } from "@/lib/utils";
 import { getItem } from "@/src/game/data/items";
 import { getRarityColor } from "@/src/game/data/schemas/item";
-import { calculateSellPrice, canSellItemToShop, type ShopDefinition } from "@/src/game/data/shops";
+import { canSellItemToShop, type ShopDefinition } from "@/src/game/data/shops";
 import type { InventoryItem } from "@/src/game/store/types";
+import { gameStore } from "@/src/game/store/webGameStore";
 
 import { getRarityBadgeVariant } from "./helpers.ts";
 import { GoldIcon } from "./ShopHeader.tsx";
@@ -20,14 +21,17 @@ export function SellItemRow({
   item,
   shop,
   onSell,
+  onRepair,
 }: {
   item: InventoryItem;
   shop: ShopDefinition;
   onSell: (inventoryId: string, price: number, itemName: string) => void;
+  onRepair: (inventoryId: string, price: number, itemName: string) => void;
 }) {
   const itemDef = getItem(item.itemId);
   const canSell = itemDef ? canSellItemToShop(shop, item.type) && itemDef.sellable : false;
-  const price = itemDef ? calculateSellPrice(shop, itemDef) : 0;
+  const price = gameStore((s) => s.getShopSellPrice(shop.id, item.itemId));
+  const repairCost = gameStore((s) => s.getShopRepairCost(shop.id, item.id));
   const rarityColor = itemDef ? getRarityColor(itemDef.rarity) : "#95A5A6";
   const rarity = itemDef?.rarity ?? "common";
 
@@ -35,7 +39,7 @@ export function SellItemRow({
     <View
       className={cn(
         "flex-row items-center gap-3 rounded-lg border border-frontier-leather/20 bg-frontier-gunmetal/30 px-3 py-2.5",
-        !canSell && "opacity-40",
+        !canSell && repairCost === 0 && "opacity-40",
         canSell &&
           Platform.select({
             web: "hover:border-frontier-leather/40 hover:bg-frontier-gunmetal/50",
@@ -61,10 +65,23 @@ export function SellItemRow({
             <Text className="text-[9px] uppercase">{rarity}</Text>
           </Badge>
         </View>
-        <Text className="mt-0.5 text-[10px] text-frontier-dust/40">x{item.quantity}</Text>
+        <Text className="mt-0.5 text-[10px] text-frontier-dust/40">
+          x{item.quantity}
+          {repairCost > 0 ? ` \u00B7 ${Math.round(item.condition)}%` : ""}
+        </Text>
       </View>
 
       <View className="flex-row items-center gap-2">
+        {repairCost > 0 ? (
+          <Button
+            variant="outline"
+            size="sm"
+            className="min-h-[36px] border-sky-700/60 px-3"
+            onPress={() => onRepair(item.id, repairCost, item.name)}
+          >
+            <Text className="text-xs font-medium text-sky-300">Repair {repairCost}g</Text>
+          </Button>
+        ) : null}
         {canSell ? (
           <>
             <View className="flex-row items-center gap-1">
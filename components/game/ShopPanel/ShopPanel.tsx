@@ -15,11 +15,13 @@ import {
   canSellItemToShop,
   getAvailableShopItems,
   getShopById,
+  getShopFaction,
   type ShopDefinition,
   type ShopItem,
 } from "@/src/game/data/shops";
 import type { InventoryItem } from "@/src/game/store/types";
 import { gameStore } from "@/src/game/store/webGameStore";
+import { getFactionReputation } from "@/src/game/systems/reputation";
 
 import { BuyItemRow } from "./BuyItemRow.tsx";
 import { ConfirmDialog, EmptyState } from "./ConfirmDialog.tsx";
@@ -32,8 +34,10 @@ export function ShopPanel() {
   const shopState = gameStore((s) => s.shopState);
   const playerStats = gameStore((s) => s.playerStats);
   const inventory = gameStore((s) => s.inventory);
+  const factionReputation = gameStore((s) => s.factionReputation);
   const buyItem = gameStore((s) => s.buyItem);
   const sellItem = gameStore((s) => s.sellItem);
+  const repairAtShop = gameStore((s) => s.repairAtShop);
   const closeShop = gameStore((s) => s.closeShop);
 
   // Local state
@@ -48,8 +52,11 @@ export function ShopPanel() {
 
   const availableItems: ShopItem[] = React.useMemo(() => {
     if (!shop) return [];
-    return getAvailableShopItems(shop, playerStats.reputation);
-  }, [shop, playerStats.reputation]);
+    return getAvailableShopItems(
+      shop,
+      getFactionReputation(factionReputation, getShopFaction(shop)),
+    );
+  }, [shop, factionReputation]);
 
   const sellableInventory: InventoryItem[] = React.useMemo(() => {
     return inventory;
@@ -73,6 +80,15 @@ export function ShopPanel() {
     setConfirmation({ type: "sell", itemName, price, onConfirm: () => sellItem(inventoryId) });
   };
 
+  const handleRepairRequest = (inventoryId: string, price: number, itemName: string) => {
+    setConfirmation({
+      type: "repair",
+      itemName,
+      price,
+      onConfirm: () => repairAtShop(inventoryId),
+    });
+  };
+
   const handleClose = () => {
     setConfirmation(null);
     setActiveTab("buy");
@@ -172,7 +188,13 @@ export function ShopPanel() {
                   <EmptyState message="This merchant doesn't buy items" hint="" />
                 ) : (
                   sellableInventory.map((item) => (
-                    <SellItemRow key={item.id} item={item} shop={shop} onSell={handleSellRequest} />
+                    <SellItemRow
+                      key={item.id}
+                      item={item}
+                      shop={shop}
+                      onSell={handleSellRequest}
+                      onRepair={handleRepairRequest}
+                    />
                   ))
                 )}
               </ScrollArea>
@@ -7,7 +7,7 @@
 // =============================================================================
 
 export type ConfirmationDialog = {
-  type: "buy" | "sell";
+  type: "buy" | "sell" | "repair";
   itemName: string;
   price: number;
   onConfirm: () => void;
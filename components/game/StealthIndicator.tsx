@@ -29,15 +29,12 @@ import Animated, {
 import { Text } from "@/components/ui/Text";
 import { useGameStoreShallow } from "@/hooks/useGameStore";
 import { useResponsive } from "@/hooks/useResponsive";
+import { useHudPalette } from "./hudPalette.ts";
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-const HUD_AMBER = "#D4A855";
-const HUD_RED = "#CC4444";
-const HUD_YELLOW = "#D4A017";
-
 const MONO_FONT = Platform.select({
   ios: "Menlo",
   android: "monospace",
@@ -76,10 +73,11 @@ function numericToDetectionLevel(value: number): DetectionLevel {
 // STYLE MAP
 // ============================================================================
 
-const DETECTION_STYLES: Record<DetectionLevel, { label: string; color: string; pulse: boolean }> = {
-  hidden: { label: "HIDDEN", color: HUD_AMBER, pulse: false },
-  caution: { label: "CAUTION", color: HUD_YELLOW, pulse: true },
-  danger: { label: "DANGER", color: HUD_RED, pulse: true },
+/** Colours come from the HUD palette, keyed by the same level names. */
+const DETECTION_STYLES: Record<DetectionLevel, { label: string; pulse: boolean }> = {
+  hidden: { label: "HIDDEN", pulse: false },
+  caution: { label: "CAUTION", pulse: true },
+  danger: { label: "DANGER", pulse: true },
 };
 
 // ============================================================================
@@ -88,6 +86,7 @@ const DETECTION_STYLES: Record<DetectionLevel, { label: string; color: string; p
 
 export function StealthIndicator({ detectionLevel: detectionLevelProp }: StealthIndicatorProps) {
   const { isPhone } = useResponsive();
+  const palette = useHudPalette();
 
   // Read stealth state from the store
   const { storeDetection, nearestHostileDistance } = useGameStoreShallow((s) => ({
@@ -130,7 +129,7 @@ export function StealthIndicator({ detectionLevel: detectionLevelProp }: Stealth
 
   if (!detectionLevel) return null;
 
-  const style = DETECTION_STYLES[detectionLevel];
+  const style = { ...DETECTION_STYLES[detectionLevel], color: palette[detectionLevel] };
   const fontSize = isPhone ? 11 : 13;
 
   return (
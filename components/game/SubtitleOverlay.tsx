@@ -0,0 +1,75 @@
+/**
+ * SubtitleOverlay - Subtitles and sound captions along the bottom of the screen.
+ *
+ * Subscribes to the global subtitle feed. Speech is shown when subtitles are
+ * on and sound captions when captions are on (Settings > Accessibility).
+ * Speech lines lead with the speaker's name; captions are bracketed. Each
+ * line clears after its own duration, and only the newest few are kept.
+ */
+
+import { useEffect, useState } from "react";
+import { View } from "react-native";
+import { Text } from "@/components/ui";
+import { useGameStore } from "@/hooks/useGameStore";
+import { getAccessibility } from "@/src/game/store/slices";
+import { type Subtitle, subtitles } from "@/src/game/systems/Subtitles";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Maximum lines on screen at once (oldest drop off first). */
+const MAX_VISIBLE = 3;
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+export function SubtitleOverlay() {
+  const showSpeech = useGameStore((s) => getAccessibility(s.settings).subtitles);
+  const showSounds = useGameStore((s) => getAccessibility(s.settings).soundCaptions);
+  const [lines, setLines] = useState<Subtitle[]>([]);
+
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    const unsubscribe = subtitles.subscribe((subtitle) => {
+      if (subtitle.kind === "speech" ? !showSpeech : !showSounds) return;
+
+      setLines((prev) => [...prev, subtitle].slice(-MAX_VISIBLE));
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        setLines((prev) => prev.filter((line) => line.id !== subtitle.id));
+      }, subtitle.duration * 1000);
+      timers.add(timer);
+    });
+
+    return () => {
+      unsubscribe();
+      for (const timer of timers) clearTimeout(timer);
+      setLines([]);
+    };
+  }, [showSpeech, showSounds]);
+
+  if (lines.length === 0) return null;
+
+  return (
+    <View className="absolute bottom-28 left-8 right-8 items-center gap-1" pointerEvents="none">
+      {lines.map((line) => (
+        <View key={line.id} className="rounded bg-black/70 px-3 py-1">
+          {line.kind === "speech" ? (
+            <Text variant="small" className="text-center text-stone-100">
+              <Text variant="small" className="font-bold text-amber-300">
+                {line.speaker}:{" "}
+              </Text>
+              {line.text}
+            </Text>
+          ) : (
+            <Text variant="small" className="text-center italic text-stone-300">
+              [{line.text}]
+            </Text>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -43,6 +43,8 @@ export function EncounterPanel({
     opacity: pulseOpacity.value,
   }));
 
+  const onTrain = travel.method === "railroad";
+
   return (
     <Animated.View
       entering={FadeIn.duration(300)}
@@ -58,10 +60,12 @@ export function EncounterPanel({
             <Text style={{ fontSize: 32 }}>{"\u{1F480}"}</Text>
           </View>
           <Text className="text-lg font-bold text-red-300 font-heading text-center">
-            Road Ambush!
+            {onTrain ? "Train Robbery!" : "Road Ambush!"}
           </Text>
           <Text className="text-sm text-red-400/80 text-center mt-0.5">
-            Hostiles have blocked the {travel.method}!
+            {onTrain
+              ? "Outlaws have stopped the train!"
+              : `Hostiles have blocked the ${travel.method}!`}
           </Text>
         </View>
 
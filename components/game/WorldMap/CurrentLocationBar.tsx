@@ -7,6 +7,7 @@ import { Pressable, View } from "react-native";
 
 import { Text } from "@/components/ui/Text";
 import type { Connection, LocationRef } from "@/src/game/data/schemas/world";
+import { getOverlandRoute } from "@/src/game/systems/railroad";
 import { DANGER_COLORS, getLocationById } from "./types.ts";
 
 export function CurrentLocationBar({
@@ -50,6 +51,7 @@ export function CurrentLocationBar({
           <View className="gap-1.5">
             {currentConnections.slice(0, 6).map((conn) => {
               const targetId = conn.to === currentLocationId ? conn.from : conn.to;
+              const route = getOverlandRoute(conn.method, conn.travelTime);
               const target = getLocationById(targetId);
               if (!target) return null;
               const isTargetDiscovered = discoveredIds.has(targetId);
@@ -73,7 +75,7 @@ export function CurrentLocationBar({
                       {isTargetDiscovered ? target.name : "???"}
                     </Text>
                     <Text className="text-[10px] text-amber-400">
-                      {conn.travelTime}h via {conn.method}
+                      {route.travelTime}h via {route.method}
                     </Text>
                   </View>
                   <View className="flex-row items-center gap-1.5">
@@ -11,6 +11,7 @@ import { Modal, Pressable, ScrollView, useWindowDimensions, View } from "react-n
 import { Text } from "@/components/ui/Text";
 import { useGameStoreShallow } from "@/hooks/useGameStore";
 import type { LocationRef } from "@/src/game/data/schemas/world";
+import { getOverlandRoute } from "@/src/game/systems/railroad";
 
 import { ConnectionLine } from "./ConnectionLine.tsx";
 import { CurrentLocationBar } from "./CurrentLocationBar.tsx";
@@ -106,15 +107,18 @@ export function WorldMap({ isOpen, onClose, onTravelTo }: WorldMapProps) {
           (c.bidirectional && c.from === location.id && c.to === currentLocationId),
       );
 
+      // Riding the train takes a ticket from the depot, so the map walks the tracks
+      const route = connection ? getOverlandRoute(connection.method, connection.travelTime) : null;
       setTooltip({
         location,
-        travelInfo: connection
-          ? {
-              travelTime: connection.travelTime,
-              danger: connection.danger,
-              method: connection.method,
-            }
-          : null,
+        travelInfo:
+          connection && route
+            ? {
+                travelTime: route.travelTime,
+                danger: connection.danger,
+                method: route.method,
+              }
+            : null,
       });
     },
     [currentLocationId, discoveredIds, addNotification],
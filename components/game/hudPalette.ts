@@ -0,0 +1,84 @@
+/**
+ * hudPalette — Signal colours for the HUD, with colourblind-safe variants.
+ *
+ * The default palette is the Fallout amber/red/green scheme. The others swap
+ * the colours that carry meaning (detection, threats, pipe flow) for ones
+ * that stay apart under each kind of colour blindness, drawn from the
+ * Okabe-Ito set. Text labels and shapes still carry the same information.
+ *
+ * @module components/game/hudPalette
+ */
+
+import { useGameStore } from "@/hooks/useGameStore";
+import { getAccessibility } from "@/src/game/store/slices";
+import type { ColorblindMode } from "@/src/game/store/types";
+
+export interface HudPalette {
+  /** Stealth: unseen */
+  hidden: string;
+  /** Stealth: being noticed */
+  caution: string;
+  /** Stealth: spotted */
+  danger: string;
+  /** Quest markers on the compass */
+  objective: string;
+  /** Enemies on the compass */
+  enemy: string;
+  /** Directional damage arcs */
+  damage: string;
+  /** Pipe puzzle: water reaching a pipe */
+  flow: string;
+  /** Pipe puzzle: the finished circuit */
+  solved: string;
+}
+
+export const HUD_PALETTES: Record<ColorblindMode, HudPalette> = {
+  off: {
+    hidden: "#D4A855",
+    caution: "#D4A017",
+    danger: "#CC4444",
+    objective: "#D4A855",
+    enemy: "#CC4444",
+    damage: "#CC4444",
+    flow: "#E8C460",
+    solved: "#4ADE80",
+  },
+  // Red and green both read as olive: move threats to blue
+  protanopia: {
+    hidden: "#D4A855",
+    caution: "#F0E442",
+    danger: "#3D9BE9",
+    objective: "#E69F00",
+    enemy: "#3D9BE9",
+    damage: "#3D9BE9",
+    flow: "#F0E442",
+    solved: "#56B4E9",
+  },
+  deuteranopia: {
+    hidden: "#D4A855",
+    caution: "#F0E442",
+    danger: "#3D9BE9",
+    objective: "#E69F00",
+    enemy: "#3D9BE9",
+    damage: "#3D9BE9",
+    flow: "#F0E442",
+    solved: "#56B4E9",
+  },
+  // Blue and yellow are the pair lost: keep red, move the rest to teal and pink
+  tritanopia: {
+    hidden: "#66C2B5",
+    caution: "#FF9EC7",
+    danger: "#E0443C",
+    objective: "#F2F2F2",
+    enemy: "#E0443C",
+    damage: "#E0443C",
+    flow: "#66C2B5",
+    solved: "#F2F2F2",
+  },
+};
+
+/** The HUD palette for the player's colourblind setting. */
+export function useHudPalette(): HudPalette {
+  const mode = useGameStore((s) => getAccessibility(s.settings).colorblindMode);
+  return HUD_PALETTES[mode];
+}
@@ -26,13 +26,18 @@ export { NotificationFeed } from "./NotificationFeed.tsx";
 export { PlayerVitals } from "./PlayerVitals/index.ts";
 export { QuestNotification } from "./QuestNotification.tsx";
 export { StealthIndicator } from "./StealthIndicator.tsx";
+export { SubtitleOverlay } from "./SubtitleOverlay.tsx";
 
 // ---------------------------------------------------------------------------
 // Panels (full-screen / modal)
 // ---------------------------------------------------------------------------
 
+export { BountyBoard } from "./BountyBoard/index.ts";
 export { CharacterPanel } from "./CharacterPanel/index.ts";
+export { CompanionPanel } from "./CompanionPanel/index.ts";
+export { DepotPanel } from "./DepotPanel/index.ts";
 export { InventoryPanel } from "./InventoryPanel/index.ts";
+export { LiveryPanel } from "./LiveryPanel/index.ts";
 export { MainMenu } from "./MainMenu/index.ts";
 export { QuestLog } from "./QuestLog/index.ts";
 export { ShopPanel } from "./ShopPanel/index.ts";
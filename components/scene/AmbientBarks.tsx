@@ -0,0 +1,51 @@
+// AmbientBarks — R3F component that lets townsfolk remark as the player
+// walks past them.
+//
+// A couple of times a second, gathers the NPC entities from the ECS, joins
+// them to their store records and asks the AmbientBarker who, if anyone,
+// speaks. Lines go to the subtitle feed. Runs inside the R3F <Canvas> tree
+// with no visual output.
+
+import { useFrame } from "@react-three/fiber";
+import { useRef } from "react";
+
+import { dialogueTargets } from "@/src/game/ecs/world";
+import { InputManager } from "@/src/game/input";
+import { gameStore } from "@/src/game/store/webGameStore";
+import { AmbientBarker, type BarkCandidate } from "@/src/game/systems/AmbientBarks";
+import { subtitles } from "@/src/game/systems/Subtitles";
+
+// Check for barks about twice a second
+const TICK_INTERVAL = 0.5;
+
+export function AmbientBarks() {
+  const barkerRef = useRef(new AmbientBarker());
+  const accumulatorRef = useRef(0);
+
+  useFrame((state) => {
+    const delta = InputManager.getInstance().getLastStep();
+    accumulatorRef.current += delta;
+    if (accumulatorRef.current < TICK_INTERVAL) return;
+    accumulatorRef.current = 0;
+
+    const store = gameStore.getState();
+    if (store.phase !== "playing") return;
+
+    const candidates: BarkCandidate[] = [];
+    for (const entity of dialogueTargets.entities) {
+      const npc = store.npcs[entity.dialogueTarget.npcId];
+      if (!npc) continue;
+      candidates.push({ npc, x: entity.position.x, z: entity.position.z });
+    }
+
+    const bark = barkerRef.current.update(
+      state.clock.elapsedTime,
+      { x: state.camera.position.x, z: state.camera.position.z },
+      candidates,
+      store.worldSeed,
+    );
+    if (bark) subtitles.say(bark.npc.name, bark.text);
+  });
+
+  return null;
+}
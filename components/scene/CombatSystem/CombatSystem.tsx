@@ -2,25 +2,44 @@ import { useFrame, useThree } from "@react-three/fiber";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useGameStore } from "@/hooks/useGameStore";
 import {
+  type CompanionGunner,
+  createPhysicsCoverProvider,
+  createPhysicsLineOfSight,
   createWeaponState,
   type DamageNumberData,
   getDifficultyConfig,
+  getModdedWeaponConfig,
   processCombatTick,
+  stepCompanionFire,
   type WeaponRuntimeState,
 } from "@/src/game/engine/combat";
-import { InputManager } from "@/src/game/input";
+import { detectPlatform, InputManager, usesAnalogAim } from "@/src/game/input";
 import { gameAudioBridge } from "@/src/game/services/audio/GameAudioBridge";
+import { getAccessibility } from "@/src/game/store/slices";
+import { getCaptureTarget } from "@/src/game/systems/bountyBoard";
+import { crimeBus, POSSE_ID_PREFIX, recordTownsfolkHit } from "@/src/game/systems/law";
 import { questEvents } from "@/src/game/systems/QuestEvents";
+import { PHASE_LIGHT_LEVELS } from "@/src/game/systems/time";
+import { getWeatherEffects } from "@/src/game/systems/weather";
+import { usePhysics } from "../PhysicsProvider.tsx";
 import { DamageNumber } from "./DamageNumber.tsx";
 import { rollLoot } from "./loot.ts";
 import type { CombatSystemProps } from "./types.ts";
 import { getWeaponSlots } from "./weaponSlots.ts";
 
+/** Stable fallback for saves made before perks existed */
+const NO_PERKS: string[] = [];
+/** Stable fallback for weapons with nothing fitted */
+const NO_MODS: string[] = [];
+/** Stable fallback when no one rides with the player */
+const NO_COMPANIONS: CompanionGunner[] = [];
+
 export function CombatSystem({
   weaponId: weaponIdProp,
   difficulty = "normal",
   reserveAmmo = 60,
   enemies = [],
+  companions = NO_COMPANIONS,
   locationId = "unknown",
   onCrosshairSpreadChange,
   onHitMarker,
@@ -30,6 +49,9 @@ export function CombatSystem({
   onWeaponSwitch,
 }: CombatSystemProps) {
   const { camera, scene } = useThree();
+  const { world, player } = usePhysics();
+  const lineOfSight = useMemo(() => createPhysicsLineOfSight(world), [world]);
+  const cover = useMemo(() => createPhysicsCoverProvider(world), [world]);
 
   const takeDamage = useGameStore((s) => s.takeDamage);
   const gainXP = useGameStore((s) => s.gainXP);
@@ -38,23 +60,63 @@ export function CombatSystem({
   const equipItem = useGameStore((s) => s.equipItem);
   const getEquippedItem = useGameStore((s) => s.getEquippedItem);
   const getEquipmentBonuses = useGameStore((s) => s.getEquipmentBonuses);
+  const degradeItem = useGameStore((s) => s.degradeItem);
+  const degradeArmor = useGameStore((s) => s.degradeArmor);
+  const horseUnderFire = useGameStore((s) => s.horseUnderFire);
+  const addNotification = useGameStore((s) => s.addNotification);
+  const updateNPC = useGameStore((s) => s.updateNPC);
   const inventory = useGameStore((s) => s.inventory);
   const equipment = useGameStore((s) => s.equipment);
+  const perks = useGameStore((s) => s.playerStats.perks) ?? NO_PERKS;
+  const timePhase = useGameStore((s) => s.getTimePhase());
+  const aimAssistSettings = useGameStore((s) => getAccessibility(s.settings).aimAssist);
+  const weather = useGameStore((s) => s.weather);
+  const platform = useMemo(() => detectPlatform(), []);
 
   const equippedWeapon = getEquippedItem("weapon");
   const activeWeaponId = weaponIdProp ?? equippedWeapon?.itemId ?? "revolver";
+  const weaponCondition = equippedWeapon?.condition ?? 100;
+  const weaponMods = equippedWeapon?.mods ?? NO_MODS;
 
   const playerArmor = getEquipmentBonuses().defense;
 
-  const weaponStateRef = useRef<WeaponRuntimeState>(createWeaponState(activeWeaponId, reserveAmmo));
+  const weaponStateRef = useRef<WeaponRuntimeState>(
+    createWeaponState(activeWeaponId, reserveAmmo, weaponCondition, perks, weaponMods),
+  );
 
   const prevWeaponIdRef = useRef(activeWeaponId);
   useEffect(() => {
     if (prevWeaponIdRef.current !== activeWeaponId) {
-      weaponStateRef.current = createWeaponState(activeWeaponId, reserveAmmo);
+      weaponStateRef.current = createWeaponState(
+        activeWeaponId,
+        reserveAmmo,
+        weaponCondition,
+        perks,
+        weaponMods,
+      );
       prevWeaponIdRef.current = activeWeaponId;
     }
-  }, [activeWeaponId, reserveAmmo]);
+  }, [activeWeaponId, reserveAmmo, weaponCondition, perks, weaponMods]);
+
+  // Repairs and wear happen in the store; keep the runtime copy in step
+  useEffect(() => {
+    weaponStateRef.current.condition = weaponCondition;
+  }, [weaponCondition]);
+
+  useEffect(() => {
+    weaponStateRef.current.perks = perks;
+  }, [perks]);
+
+  useEffect(() => {
+    const weaponState = weaponStateRef.current;
+    weaponState.mods = weaponMods;
+    // Taking off an extended cylinder unloads the chambers it added
+    const capacity = getModdedWeaponConfig(weaponState.weaponId, weaponMods)?.ammoCapacity;
+    if (capacity !== undefined && weaponState.ammoInMagazine > capacity) {
+      weaponState.ammoReserve += weaponState.ammoInMagazine - capacity;
+      weaponState.ammoInMagazine = capacity;
+    }
+  }, [weaponMods]);
 
   const [damageNumbers, setDamageNumbers] = useState<DamageNumberData[]>([]);
 
@@ -67,9 +129,12 @@ export function CombatSystem({
   );
 
   const deadEnemyTimers = useRef<Map<string, number>>(new Map());
+  /** Damage each townsperson has taken from the player */
+  const npcDamage = useRef<Map<string, number>>(new Map());
   const prevReloadPhaseRef = useRef<string>("none");
 
-  useFrame((_state, delta) => {
+  useFrame(() => {
+    const delta = InputManager.getInstance().getLastStep();
     const inputFrame = InputManager.getInstance().getFrame();
 
     if (inputFrame.weaponSwitch > 0 && inputFrame.weaponSwitch <= 5) {
@@ -92,6 +157,7 @@ export function CombatSystem({
       fire: firePressed,
     };
 
+    const weatherEffects = getWeatherEffects(weather);
     const result = processCombatTick(
       delta,
       combatInput,
@@ -101,12 +167,45 @@ export function CombatSystem({
       weaponStateRef.current,
       difficulty,
       playerArmor,
+      {
+        lightLevel: PHASE_LIGHT_LEVELS[timePhase],
+        visibility: weatherEffects.visibility,
+        accuracyPenalty: weatherEffects.enemyAccuracyPenalty,
+        lineOfSight,
+      },
+      cover,
+      aimAssistSettings.enabled && usesAnalogAim(platform) ? aimAssistSettings : null,
+      weatherEffects.aimSway,
     );
 
+    // Kills by companions are the player's to collect, like their own
+    for (const shot of stepCompanionFire(
+      delta,
+      companions,
+      enemies,
+      difficulty,
+      result,
+      lineOfSight,
+    )) {
+      gameAudioBridge.playWeaponFire(shot);
+    }
+
+    // Lands on the camera next frame, when the player controller syncs it
+    player.yaw -= result.aimAssist.yaw;
+    player.pitch -= result.aimAssist.pitch;
+
     if (result.playerFired) {
       gameAudioBridge.playWeaponFire(activeWeaponId);
     }
 
+    if (result.weaponWear > 0 && equippedWeapon && equippedWeapon.itemId === activeWeaponId) {
+      degradeItem(equippedWeapon.id, result.weaponWear);
+    }
+
+    if (result.weaponJammed) {
+      addNotification("warning", "Weapon jammed!");
+    }
+
     const currentReloadPhase = result.weaponState.reloadPhase;
     if (currentReloadPhase === "starting" && prevReloadPhaseRef.current === "none") {
       gameAudioBridge.playWeaponReload(activeWeaponId);
@@ -127,6 +226,9 @@ export function CombatSystem({
 
     for (const dmgEvent of result.playerDamageEvents) {
       takeDamage(dmgEvent.damage);
+      degradeArmor(dmgEvent.damage);
+      // A ridden horse takes its share and may bolt
+      horseUnderFire(dmgEvent.damage);
       onPlayerDamage?.(dmgEvent.damage);
       onPlayerDamageDirectional?.(dmgEvent.damage, dmgEvent.attackDirection);
       gameAudioBridge.playPlayerHurt();
@@ -145,15 +247,34 @@ export function CombatSystem({
         addItemById(itemId, 1);
       }
 
-      questEvents.emit("enemyKilled", {
-        enemyType: killData.enemyType,
-        enemyId: killData.enemyId,
-        locationId,
-      });
+      if (killData.subdued) {
+        // Brought down alive: the bounty wants them in irons, not dead
+        questEvents.emit("objectInteracted", {
+          targetId: getCaptureTarget(killData.entityId),
+          locationId,
+        });
+        addNotification("info", "The outlaw throws down their gun and surrenders.");
+      } else {
+        questEvents.emit("enemyKilled", {
+          enemyType: killData.enemyType,
+          enemyId: killData.enemyId,
+          entityId: killData.entityId,
+          locationId,
+        });
+      }
+
+      // Gunning down the law is murder like any other
+      if (killData.entityId.startsWith(POSSE_ID_PREFIX)) {
+        crimeBus.emit({ type: "murder", position: killData.deathPosition });
+      }
 
       deadEnemyTimers.current.set(killData.entityId, performance.now());
     }
 
+    for (const hit of result.npcHits) {
+      if (recordTownsfolkHit(npcDamage.current, hit)) updateNPC(hit.npcId, { isAlive: false });
+    }
+
     const now = performance.now();
     for (const [entityId, deathTime] of deadEnemyTimers.current.entries()) {
       if (now - deathTime >= 1000) {
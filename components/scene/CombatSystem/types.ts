@@ -1,10 +1,17 @@
-import type { CombatEnemy, DifficultyLevel, WeaponRuntimeState } from "@/src/game/engine/combat";
+import type {
+  CombatEnemy,
+  CompanionGunner,
+  DifficultyLevel,
+  WeaponRuntimeState,
+} from "@/src/game/engine/combat";
 
 export interface CombatSystemProps {
   weaponId?: string;
   difficulty?: DifficultyLevel;
   reserveAmmo?: number;
   enemies?: CombatEnemy[];
+  /** Companions shooting alongside the player */
+  companions?: CompanionGunner[];
   locationId?: string;
   onCrosshairSpreadChange?: (spread: number) => void;
   onHitMarker?: (isHeadshot: boolean, isKill: boolean) => void;
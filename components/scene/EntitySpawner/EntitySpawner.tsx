@@ -12,22 +12,79 @@
 // For wilderness: spawns EnemyEntity components based on encounter data
 // from the store (danger level, enemy types).
 // Also listens to EncounterSystem triggers to spawn encounter enemies.
+//
+// Law: townsfolk witness the player's crimes, lawmen stop a wanted player,
+// and a posse rides in as enemies when the law is out to shoot. NPC models
+// carry their npcId in userData so gunfire can tell who it hit.
+//
+// Bounties: outlaws the player has taken contracts on wait with their gangs
+// at the camps the sheriff's boards sent them to.
+//
+// Companions: NPCs riding with the player follow them everywhere, town or
+// wilderness, are talkable like townsfolk and shoot at enemies in a fight.
+//
+// Quests: NPCs the player is escorting follow them like companions until
+// they reach their destination, and raiders ride in wave after wave against
+// a position the player is holding.
 
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { EnemyEntity } from "@/components/entities/EnemyEntity";
 import { NPCEntity } from "@/components/entities/NPCEntity";
 import { useGameStoreShallow } from "@/hooks/useGameStore";
+import type { CombatEnemy } from "@/src/game/engine/combat";
+import type { InteractableEntity } from "@/src/game/systems/InteractionSystem";
 import { type EntitySpawnerProps, npcToChibiConfig } from "./types.ts";
+import { useBountyTargets } from "./useBountyTargets.ts";
+import { useCompanions } from "./useCompanions.ts";
 import { useEnemySpawner } from "./useEnemySpawner.ts";
+import { useEscorts } from "./useEscorts.ts";
+import { useLawEnforcement } from "./useLawEnforcement.ts";
 import { useNPCSpawner } from "./useNPCSpawner.ts";
+import { useRaiders } from "./useRaiders.ts";
 
-export function EntitySpawner({ onEnemiesChange, onInteractablesChange }: EntitySpawnerProps) {
+export function EntitySpawner({
+  onEnemiesChange,
+  onInteractablesChange,
+  onCompanionsChange,
+}: EntitySpawnerProps) {
   const currentLocationId = useGameStoreShallow((s) => s.currentLocationId);
 
-  const { locationNPCs, isTown, movementSystemRef } = useNPCSpawner(onInteractablesChange);
+  // Townsfolk and companions are both talkable; the parent gets them as one list
+  const [townInteractables, setTownInteractables] = useState<InteractableEntity[]>([]);
+  const { locationNPCs, isTown, movementSystemRef } = useNPCSpawner(setTownInteractables);
+  const companions = useCompanions(currentLocationId, isTown);
+  useEffect(() => {
+    onInteractablesChange?.([...townInteractables, ...companions.interactables]);
+  }, [townInteractables, companions.interactables, onInteractablesChange]);
+  useEffect(() => {
+    onCompanionsChange?.(companions.gunners);
+  }, [companions.gunners, onCompanionsChange]);
+
+  const posse = useLawEnforcement(currentLocationId, isTown, locationNPCs, movementSystemRef);
+  const bountyTargets = useBountyTargets(currentLocationId);
+  const escorts = useEscorts();
+
+  // Raiders are judged by how their fight is going, so the spawner's combat
+  // enemies are kept here on their way to the parent
+  const combatEnemiesRef = useRef<CombatEnemy[]>([]);
+  const handleEnemiesChange = useCallback(
+    (enemies: CombatEnemy[]) => {
+      combatEnemiesRef.current = enemies;
+      onEnemiesChange?.(enemies);
+    },
+    [onEnemiesChange],
+  );
+  const raiders = useRaiders(currentLocationId, combatEnemiesRef);
+
+  const extraEnemies = useMemo(
+    () => [...posse, ...bountyTargets, ...raiders],
+    [posse, bountyTargets, raiders],
+  );
   const { allEnemies, enemyGroupRefs, getHealthPercent, isEnemyDead } = useEnemySpawner(
     currentLocationId,
     isTown,
-    onEnemiesChange,
+    handleEnemiesChange,
+    extraEnemies,
   );
 
   return (
@@ -37,40 +94,77 @@ export function EntitySpawner({ onEnemiesChange, onInteractablesChange }: Entity
         ? locationNPCs.map((npc) => {
             const moveState = movementSystemRef.current?.getState(npc.id);
             return (
-              <NPCEntity
-                key={npc.id}
-                config={npcToChibiConfig(npc)}
-                position={[npc.position.x, npc.position.y, npc.position.z]}
-                name={npc.name}
-                rotation={npc.rotation}
-                seed={`npc-${npc.id}`}
-                movementState={moveState}
-                hidden={moveState?.isIndoors === true}
-              />
+              <group key={npc.id} userData={{ npcId: npc.id }}>
+                <NPCEntity
+                  config={npcToChibiConfig(npc)}
+                  position={[npc.position.x, npc.position.y, npc.position.z]}
+                  name={npc.name}
+                  rotation={npc.rotation}
+                  seed={`npc-${npc.id}`}
+                  movementState={moveState}
+                  hidden={moveState?.isIndoors === true}
+                />
+              </group>
             );
           })
         : null}
 
-      {/* Wilderness + encounter enemies */}
-      {!isTown
-        ? allEnemies.map((enemy) => (
-            <group
-              key={enemy.id}
-              ref={(g) => {
-                if (g) enemyGroupRefs.current.set(enemy.id, g);
-              }}
-            >
-              <EnemyEntity
-                enemyType={enemy.enemyType}
-                position={enemy.position}
-                seed={enemy.seed}
-                name={enemy.name}
-                healthPercent={getHealthPercent(enemy.id)}
-                isDead={isEnemyDead(enemy.id)}
-              />
-            </group>
-          ))
-        : null}
+      {/* Companions following the player */}
+      {companions.companions.map((npc) => {
+        // Not placed until useCompanions has put them beside the player
+        const moveState = companions.movementSystem.getState(npc.id);
+        if (!moveState) return null;
+        const position = moveState.currentPosition;
+        return (
+          <group key={npc.id} userData={{ npcId: npc.id }}>
+            <NPCEntity
+              config={companions.configs.get(npc.id) ?? npcToChibiConfig(npc)}
+              position={[position.x, position.y, position.z]}
+              name={npc.name}
+              seed={`npc-${npc.id}`}
+              movementState={moveState}
+            />
+          </group>
+        );
+      })}
+
+      {/* NPCs being escorted for a quest */}
+      {escorts.escorts.map((escort) => {
+        const moveState = escorts.movementSystem.getState(escort.id);
+        if (!moveState) return null;
+        const position = moveState.currentPosition;
+        return (
+          <group key={escort.id} userData={{ npcId: escort.id }}>
+            <NPCEntity
+              config={escort.config}
+              position={[position.x, position.y, position.z]}
+              name={escort.name}
+              seed={`npc-${escort.id}`}
+              movementState={moveState}
+            />
+          </group>
+        );
+      })}
+
+      {/* Wilderness + encounter enemies, any posse in town, wanted outlaws
+          and raiders */}
+      {allEnemies.map((enemy) => (
+        <group
+          key={enemy.id}
+          ref={(g) => {
+            if (g) enemyGroupRefs.current.set(enemy.id, g);
+          }}
+        >
+          <EnemyEntity
+            enemyType={enemy.enemyType}
+            position={enemy.position}
+            seed={enemy.seed}
+            name={enemy.name}
+            healthPercent={getHealthPercent(enemy.id)}
+            isDead={isEnemyDead(enemy.id)}
+          />
+        </group>
+      ))}
     </group>
   );
 }
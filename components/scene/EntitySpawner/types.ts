@@ -1,10 +1,11 @@
 // EntitySpawner shared types and constants
 
-import type { CombatEnemy } from "@/src/game/engine/combat";
+import type { CombatEnemy, CompanionGunner } from "@/src/game/engine/combat";
 import type { ChibiConfig } from "@/src/game/engine/renderers/ChibiRenderer";
 import type { EnemyType } from "@/src/game/engine/renderers/MonsterFactory";
 import type { NPC } from "@/src/game/store/types";
 import type { InteractableEntity } from "@/src/game/systems/InteractionSystem";
+import type { LocationMarkerIndex } from "@/src/game/systems/NPCScheduleResolver";
 
 // ---------------------------------------------------------------------------
 // Props
@@ -15,6 +16,8 @@ export interface EntitySpawnerProps {
   onEnemiesChange?: (enemies: CombatEnemy[]) => void;
   /** Callback providing the current list of interactable entities (NPCs, etc.). */
   onInteractablesChange?: (entities: InteractableEntity[]) => void;
+  /** Callback providing the companions who shoot alongside the player. */
+  onCompanionsChange?: (companions: CompanionGunner[]) => void;
 }
 
 // ---------------------------------------------------------------------------
@@ -30,6 +33,8 @@ export interface SpawnedEnemy {
   position: [number, number, number];
   name: string;
   seed: string;
+  /** A wanted outlaw who can be brought in alive */
+  capturable?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -66,7 +71,10 @@ const CLOTHING_MAP: Record<string, ChibiConfig["clothingType"]> = {
   vest: "vest",
 };
 
-export function npcToChibiConfig(npc: NPC): ChibiConfig {
+export function npcToChibiConfig(npc: {
+  appearance?: NPC["appearance"];
+  role: string;
+}): ChibiConfig {
   const app = npc.appearance;
   return {
     skinTone: app?.skinTone ?? "#C08050",
@@ -100,6 +108,20 @@ export const WILDERNESS_ENEMIES: Record<
   5: { types: ["outlaw"], count: [3, 6], level: 4 },
 };
 
+// ---------------------------------------------------------------------------
+// Followers (companions, escorts)
+// ---------------------------------------------------------------------------
+
+// Followers don't keep schedules, so they need no markers
+export const NO_MARKERS: LocationMarkerIndex = {
+  byAssignment: new Map(),
+  byRole: new Map(),
+  byTag: new Map(),
+  roadPositions: new Map(),
+  townCenter: { x: 0, y: 0, z: 0 },
+  outskirts: [],
+};
+
 // ---------------------------------------------------------------------------
 // Default schedule for NPCs without a matching template
 // ---------------------------------------------------------------------------
@@ -0,0 +1,42 @@
+// useBountyTargets — Puts the outlaws the player has taken contracts on, and
+// their gangs, in the camps the bounty boards sent the player to.
+
+import { useMemo } from "react";
+import { useGameStoreShallow } from "@/hooks/useGameStore";
+import { getScaledEnemyStats } from "@/src/game/engine/combat/DamageCalculator";
+import { gameStore } from "@/src/game/store/webGameStore";
+import { getOutlawSpawns } from "@/src/game/systems/bountyBoard";
+import type { SpawnedEnemy } from "./types.ts";
+
+export function useBountyTargets(currentLocationId: string | null): SpawnedEnemy[] {
+  // Joined ids keep the selector primitive; the contracts are read below
+  const huntedIds = useGameStoreShallow((s) =>
+    currentLocationId
+      ? s
+          .getHuntedContracts(currentLocationId)
+          .map((contract) => contract.id)
+          .join(",")
+      : "",
+  );
+
+  return useMemo(() => {
+    if (!huntedIds || !currentLocationId) return [];
+    return gameStore
+      .getState()
+      .getHuntedContracts(currentLocationId)
+      .flatMap(getOutlawSpawns)
+      .map(
+        (spawn): SpawnedEnemy => ({
+          id: spawn.id,
+          enemyType: spawn.capturable ? "banditBoss" : "outlaw",
+          configId: spawn.configId,
+          level: spawn.level,
+          maxHealth: getScaledEnemyStats(spawn.configId, spawn.level, "normal").health,
+          position: spawn.position,
+          name: spawn.name,
+          seed: spawn.id,
+          capturable: spawn.capturable,
+        }),
+      );
+  }, [huntedIds, currentLocationId]);
+}
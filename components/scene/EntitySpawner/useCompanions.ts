@@ -0,0 +1,146 @@
+// useCompanions — Keeps the player's companions at their heels: walks them
+// after the player with a follower-only NPCMovementSystem, makes them
+// talkable wherever the player is, arms them for the FPS combat loop, and
+// lets them react to the player's crimes and remark on where they arrive.
+
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useGameStoreShallow } from "@/hooks/useGameStore";
+import { getNPCById } from "@/src/game/data/npcs";
+import type { NPCDefinition } from "@/src/game/data/schemas/npc";
+import { type CompanionGunner, createWeaponState } from "@/src/game/engine/combat";
+import type { ChibiConfig } from "@/src/game/engine/renderers/ChibiRenderer";
+import { InputManager } from "@/src/game/input";
+import { gameStore } from "@/src/game/store/webGameStore";
+import { COMPANIONS, type CompanionId } from "@/src/game/systems/companions";
+import {
+  createNPCInteractable,
+  type InteractableEntity,
+} from "@/src/game/systems/InteractionSystem";
+import { crimeBus } from "@/src/game/systems/law";
+import { NPCMovementSystem } from "@/src/game/systems/NPCMovementSystem";
+import { usePhysics } from "../PhysicsProvider.tsx";
+import { NO_MARKERS, npcToChibiConfig } from "./types.ts";
+
+// Where a new companion turns up, relative to the player (m)
+const JOIN_OFFSET = 2;
+
+interface UseCompanionsResult {
+  companions: NPCDefinition[];
+  /** Looks by companion id */
+  configs: Map<string, ChibiConfig>;
+  movementSystem: NPCMovementSystem;
+  interactables: InteractableEntity[];
+  gunners: CompanionGunner[];
+}
+
+export function useCompanions(
+  currentLocationId: string | null,
+  isTown: boolean,
+): UseCompanionsResult {
+  const { player } = usePhysics();
+  // Joined ids keep the selector primitive; the party is read below
+  const partyIds = useGameStoreShallow((s) => s.party.map((c) => c.id).join(","));
+
+  const movementSystem = useMemo(() => new NPCMovementSystem(NO_MARKERS), []);
+
+  const companions = useMemo(
+    () =>
+      (partyIds ? partyIds.split(",") : [])
+        .map((id) => getNPCById(id))
+        .filter((npc): npc is NPCDefinition => npc !== undefined),
+    [partyIds],
+  );
+
+  // Out of their home town a companion isn't in the store's NPC list, so
+  // their look is taken once while it still is
+  const configs = useMemo(() => {
+    const { npcs } = gameStore.getState();
+    return new Map(
+      companions.map((npc) => [
+        npc.id,
+        npcToChibiConfig({ role: npc.role, appearance: npcs[npc.id]?.appearance }),
+      ]),
+    );
+  }, [companions]);
+
+  const [interactables, setInteractables] = useState<InteractableEntity[]>([]);
+  const gunnersRef = useRef<CompanionGunner[]>([]);
+  const [gunners, setGunners] = useState<CompanionGunner[]>([]);
+
+  // Companions join at the player's side and leave the system when they go
+  useEffect(() => {
+    const ids = new Set(companions.map((npc) => npc.id));
+    for (const id of movementSystem.getAllStates().keys()) {
+      if (!ids.has(id)) movementSystem.unregisterNPC(id);
+    }
+
+    const placed = companions.map((npc, index) => {
+      const side = index % 2 === 0 ? 1 : -1;
+      const state =
+        movementSystem.getState(npc.id) ??
+        movementSystem.registerFollower(npc.id, {
+          x: player.position.x + side * JOIN_OFFSET,
+          y: player.position.y,
+          z: player.position.z + JOIN_OFFSET,
+        });
+      return { npc, position: state.currentPosition };
+    });
+
+    // Interactables and gunners share the movement state's position, so
+    // they move with the companion without being rebuilt
+    setInteractables(
+      placed.map(({ npc, position }) =>
+        createNPCInteractable(npc.id, npc.name, position, { npcId: npc.id }),
+      ),
+    );
+
+    const armed = placed.map(({ npc, position }) => {
+      const existing = gunnersRef.current.find((gunner) => gunner.id === npc.id);
+      if (existing) return existing;
+      const definition = COMPANIONS[npc.id as CompanionId];
+      return {
+        id: npc.id,
+        position,
+        weaponState: createWeaponState(definition.weaponId),
+        marksmanship: definition.marksmanship,
+      };
+    });
+    gunnersRef.current = armed;
+    setGunners(armed);
+  }, [companions, movementSystem, player]);
+
+  useEffect(() => () => movementSystem.clear(), [movementSystem]);
+
+  // Crimes are always committed in front of the party
+  useEffect(
+    () =>
+      crimeBus.subscribe((crime) => gameStore.getState().companionsReact([`crime:${crime.type}`])),
+    [],
+  );
+
+  // A word on arriving somewhere new
+  useEffect(() => {
+    if (!currentLocationId) return;
+    gameStore.getState().companionsRemark(isTown ? "town" : "wilderness");
+  }, [currentLocationId, isTown]);
+
+  useFrame(() => {
+    const delta = InputManager.getInstance().getLastStep();
+    if (companions.length === 0) return;
+    const { dialogueState, time } = gameStore.getState();
+
+    for (const npc of companions) {
+      if (dialogueState?.npcId === npc.id) movementSystem.startInteraction(npc.id);
+      else movementSystem.endInteraction(npc.id);
+    }
+
+    movementSystem.update({
+      gameHour: time.hour,
+      playerPosition: { x: player.position.x, y: player.position.y, z: player.position.z },
+      deltaTime: delta,
+    });
+  });
+
+  return { companions, configs, movementSystem, interactables, gunners };
+}
@@ -1,5 +1,6 @@
 // useEnemySpawner — Manages enemy lifecycle: wilderness spawning, encounter
 // system integration, ECS registration, health tracking, and CombatEnemy refs.
+// Callers can add enemies of their own, such as a town's posse.
 
 import { useFrame } from "@react-three/fiber";
 import Alea from "alea";
@@ -15,6 +16,9 @@ import { getEncounterSystem } from "@/src/game/systems/EncounterSystem";
 import { rngTick, scopedRNG } from "../../../src/game/lib/prng.ts";
 import { ENEMY_TYPE_TO_CONFIG_ID, type SpawnedEnemy, WILDERNESS_ENEMIES } from "./types.ts";
 
+/** Stable default so the enemy list isn't rebuilt every render */
+const NO_ENEMIES: SpawnedEnemy[] = [];
+
 interface UseEnemySpawnerResult {
   allEnemies: SpawnedEnemy[];
   enemyGroupRefs: React.RefObject<Map<string, THREE.Group>>;
@@ -26,6 +30,7 @@ export function useEnemySpawner(
   currentLocationId: string | null,
   isTown: boolean,
   onEnemiesChange?: (enemies: CombatEnemy[]) => void,
+  extraEnemies: SpawnedEnemy[] = NO_ENEMIES,
 ): UseEnemySpawnerResult {
   const ecsEntitiesRef = useRef<Entity[]>([]);
   const enemyGroupRefs = useRef<Map<string, THREE.Group>>(new Map());
@@ -74,10 +79,10 @@ export function useEnemySpawner(
     return result;
   }, [currentLocationId, isTown]);
 
-  // Combine wilderness + encounter enemies
+  // Combine wilderness, encounter and caller-supplied enemies
   const allEnemies = useMemo(
-    () => [...wildernessEnemies, ...encounterEnemies],
-    [wildernessEnemies, encounterEnemies],
+    () => [...wildernessEnemies, ...encounterEnemies, ...extraEnemies],
+    [wildernessEnemies, encounterEnemies, extraEnemies],
   );
 
   // ---------------------------------------------------------------------------
@@ -192,6 +197,7 @@ export function useEnemySpawner(
         level: enemy.level,
         meshGroup,
         ai: aiState,
+        capturable: enemy.capturable,
       });
 
       initialHealthMap.set(enemy.id, { current: enemy.maxHealth, max: enemy.maxHealth });
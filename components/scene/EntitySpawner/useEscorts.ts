@@ -0,0 +1,101 @@
+// useEscorts — Walks the NPCs the player is escorting for a quest along
+// behind the player with a follower-only NPCMovementSystem, and reports them
+// to the quest bus once they are standing at their destination.
+
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useMemo, useRef } from "react";
+import { useGameStoreShallow } from "@/hooks/useGameStore";
+import { getNPCById } from "@/src/game/data/npcs";
+import type { ChibiConfig } from "@/src/game/engine/renderers/ChibiRenderer";
+import { InputManager } from "@/src/game/input";
+import { gameStore } from "@/src/game/store/webGameStore";
+import { NPCMovementSystem } from "@/src/game/systems/NPCMovementSystem";
+import { getActiveEscorts, reportEscortArrivals } from "@/src/game/systems/QuestEncounters";
+import { usePhysics } from "../PhysicsProvider.tsx";
+import { NO_MARKERS, npcToChibiConfig } from "./types.ts";
+
+/** Seconds between checks for escorts at their destination */
+const TICK_INTERVAL = 0.5;
+
+// Where an escort not met in this scene turns up, relative to the player (m)
+const JOIN_OFFSET = 2;
+
+export interface EscortedNPC {
+  id: string;
+  name: string;
+  config: ChibiConfig;
+}
+
+interface UseEscortsResult {
+  escorts: EscortedNPC[];
+  movementSystem: NPCMovementSystem;
+}
+
+export function useEscorts(): UseEscortsResult {
+  const { player } = usePhysics();
+  // Joined ids keep the selector primitive; the NPCs are read below
+  const escortIds = useGameStoreShallow((s) =>
+    [...new Set(getActiveEscorts(s).map((escort) => escort.npcId))].join(","),
+  );
+
+  const movementSystem = useMemo(() => new NPCMovementSystem(NO_MARKERS), []);
+  const accumulatorRef = useRef(0);
+
+  // An escort looks and is named as they were when the player met them
+  const escorts = useMemo(() => {
+    const { npcs } = gameStore.getState();
+    return (escortIds ? escortIds.split(",") : []).flatMap((id): EscortedNPC[] => {
+      const npc = npcs[id] ?? getNPCById(id);
+      if (!npc) return [];
+      const appearance = npcs[id]?.appearance;
+      return [{ id, name: npc.name, config: npcToChibiConfig({ role: npc.role, appearance }) }];
+    });
+  }, [escortIds]);
+
+  // Escorts set off from where they stand; once let go they stay where they
+  // were brought
+  useEffect(() => {
+    const ids = new Set(escorts.map((escort) => escort.id));
+    for (const [id, state] of movementSystem.getAllStates()) {
+      if (ids.has(id)) continue;
+      const { npcs, updateNPC } = gameStore.getState();
+      if (npcs[id]) updateNPC(id, { position: { ...state.currentPosition } });
+      movementSystem.unregisterNPC(id);
+    }
+
+    for (const escort of escorts) {
+      if (movementSystem.getState(escort.id)) continue;
+      const start = gameStore.getState().npcs[escort.id]?.position ?? {
+        x: player.position.x + JOIN_OFFSET,
+        y: player.position.y,
+        z: player.position.z - JOIN_OFFSET,
+      };
+      movementSystem.registerFollower(escort.id, start);
+    }
+  }, [escorts, movementSystem, player]);
+
+  useEffect(() => () => movementSystem.clear(), [movementSystem]);
+
+  useFrame(() => {
+    const delta = InputManager.getInstance().getLastStep();
+    if (escorts.length === 0) return;
+    const state = gameStore.getState();
+
+    movementSystem.update({
+      gameHour: state.time.hour,
+      playerPosition: { x: player.position.x, y: player.position.y, z: player.position.z },
+      deltaTime: delta,
+    });
+
+    accumulatorRef.current += delta;
+    if (accumulatorRef.current < TICK_INTERVAL) return;
+    accumulatorRef.current = 0;
+
+    const positions = new Map(
+      [...movementSystem.getAllStates()].map(([id, moveState]) => [id, moveState.currentPosition]),
+    );
+    reportEscortArrivals(state, positions);
+  });
+
+  return { escorts, movementSystem };
+}
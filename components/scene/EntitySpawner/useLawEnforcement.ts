@@ -0,0 +1,143 @@
+// useLawEnforcement — Puts the town's law to work: hands crimes from the
+// CrimeBus to the townsfolk who witnessed them, has a nearby lawman stop a
+// wanted player, and sends a posse when the law is out to shoot.
+
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useRef, useState } from "react";
+import { useGameStore } from "@/hooks/useGameStore";
+import { getScaledEnemyStats } from "@/src/game/engine/combat/DamageCalculator";
+import { InputManager } from "@/src/game/input";
+import type { NPC } from "@/src/game/store/types";
+import { gameStore } from "@/src/game/store/webGameStore";
+import {
+  CONFRONT_COOLDOWN,
+  CONFRONT_RANGE,
+  canSee,
+  crimeBus,
+  findWitnesses,
+  isLawman,
+  LAW_DIALOGUE_ID,
+  POSSE_CONFIG_ID,
+  POSSE_ID_PREFIX,
+  POSSE_SIZE,
+  type WitnessCandidate,
+  type WitnessConditions,
+} from "@/src/game/systems/law";
+import type { NPCMovementSystem } from "@/src/game/systems/NPCMovementSystem";
+import { getWeatherEffects } from "@/src/game/systems/weather";
+import type { SpawnedEnemy } from "./types.ts";
+
+/** Seconds between checks for a lawman in sight of a wanted player */
+const TICK_INTERVAL = 0.5;
+
+/** How far from the player a posse rides in (m) */
+const POSSE_DISTANCE = 25;
+
+const POSSE_LEVEL = 2;
+
+/** Everyone in town who might see or hear what the player does */
+function getWitnessCandidates(npcs: NPC[], movement: NPCMovementSystem | null): WitnessCandidate[] {
+  return npcs.map((npc) => {
+    const state = movement?.getState(npc.id);
+    return {
+      id: npc.id,
+      position: state?.currentPosition ?? npc.position,
+      facingYaw: state?.facingYaw ?? npc.rotation,
+      isIndoors: state?.isIndoors ?? false,
+      isAsleep: state?.activity === "sleep",
+      isLawman: isLawman(npc.role),
+    };
+  });
+}
+
+function getWitnessConditions(): WitnessConditions {
+  const state = gameStore.getState();
+  return {
+    visibility: getWeatherEffects(state.weather).visibility,
+    isNight: state.isNight(),
+  };
+}
+
+export function useLawEnforcement(
+  currentLocationId: string | null,
+  isTown: boolean,
+  locationNPCs: NPC[],
+  movementSystemRef: React.RefObject<NPCMovementSystem | null>,
+): SpawnedEnemy[] {
+  const response = useGameStore((s) => (isTown ? s.getLawResponse() : "none"));
+  const [posse, setPosse] = useState<SpawnedEnemy[]>([]);
+  const accumulatorRef = useRef(0);
+  const cooldownRef = useRef(0);
+
+  // Report crimes to the law whenever somebody saw or heard them
+  useEffect(() => {
+    if (!isTown) return;
+    return crimeBus.subscribe((crime) => {
+      const candidates = getWitnessCandidates(locationNPCs, movementSystemRef.current);
+      const witnesses = findWitnesses(crime, candidates, getWitnessConditions());
+      gameStore.getState().reportCrime(crime, witnesses);
+    });
+  }, [isTown, locationNPCs, movementSystemRef]);
+
+  // Send riders after a player the law means to shoot
+  useEffect(() => {
+    if (response !== "attack" || !currentLocationId) {
+      setPosse([]);
+      return;
+    }
+
+    const state = gameStore.getState();
+    const size = POSSE_SIZE[state.getLawJurisdiction().lawLevel];
+    const { x, z } = state.playerPosition;
+    const { health } = getScaledEnemyStats(POSSE_CONFIG_ID, POSSE_LEVEL, "normal");
+
+    setPosse(
+      Array.from({ length: size }, (_, i) => {
+        const angle = (i / size) * Math.PI * 2;
+        return {
+          id: `${POSSE_ID_PREFIX}${currentLocationId}-${i}`,
+          enemyType: "outlaw",
+          configId: POSSE_CONFIG_ID,
+          level: POSSE_LEVEL,
+          maxHealth: health,
+          position: [
+            x + Math.cos(angle) * POSSE_DISTANCE,
+            0,
+            z + Math.sin(angle) * POSSE_DISTANCE,
+          ] as [number, number, number],
+          name: "Deputy",
+          seed: `${POSSE_ID_PREFIX}${currentLocationId}-${i}`,
+        };
+      }),
+    );
+  }, [response, currentLocationId]);
+
+  // A lawman who can see a wanted player walks up and has a word
+  useFrame(() => {
+    const delta = InputManager.getInstance().getLastStep();
+    if (response !== "confront") return;
+    accumulatorRef.current += delta;
+    cooldownRef.current = Math.max(0, cooldownRef.current - delta);
+    if (accumulatorRef.current < TICK_INTERVAL) return;
+    accumulatorRef.current = 0;
+
+    const state = gameStore.getState();
+    if (state.phase !== "playing" || cooldownRef.current > 0) return;
+
+    const player = state.playerPosition;
+    const conditions = getWitnessConditions();
+    const lawman = getWitnessCandidates(locationNPCs, movementSystemRef.current).find(
+      (candidate) =>
+        candidate.isLawman &&
+        Math.hypot(candidate.position.x - player.x, candidate.position.z - player.z) <=
+          CONFRONT_RANGE &&
+        canSee(candidate, player, conditions),
+    );
+    if (!lawman) return;
+
+    cooldownRef.current = CONFRONT_COOLDOWN;
+    state.startDialogue(lawman.id, LAW_DIALOGUE_ID);
+  });
+
+  return posse;
+}
@@ -1,5 +1,7 @@
 // useNPCSpawner — Manages NPC lifecycle: schedule resolution, movement,
-// ECS registration, and interactable entity tracking for towns.
+// ECS registration, and interactable entity tracking for towns. NPCs riding
+// with the player as companions are left to useCompanions, and NPCs being
+// escorted for a quest to useEscorts.
 
 import { useFrame } from "@react-three/fiber";
 import { useEffect, useMemo, useRef } from "react";
@@ -9,7 +11,9 @@ import { getLocationById } from "@/src/game/data/locations";
 import { getNPCsByLocation } from "@/src/game/data/npcs";
 import type { Entity } from "@/src/game/ecs/components";
 import { world as ecsWorld } from "@/src/game/ecs/world";
+import { InputManager } from "@/src/game/input";
 import type { NPC } from "@/src/game/store/types";
+import { getActiveTownEvents } from "@/src/game/systems/calendar";
 import {
   createNPCInteractable,
   type InteractableEntity,
@@ -20,6 +24,7 @@ import {
   type LocationMarkerIndex,
   type NPCInstanceData,
 } from "@/src/game/systems/NPCScheduleResolver";
+import { getActiveEscorts } from "@/src/game/systems/QuestEncounters";
 import { DEFAULT_IDLE_SCHEDULE } from "./types.ts";
 
 interface UseNPCSpawnerResult {
@@ -31,12 +36,24 @@ interface UseNPCSpawnerResult {
 export function useNPCSpawner(
   onInteractablesChange?: (entities: InteractableEntity[]) => void,
 ): UseNPCSpawnerResult {
-  const { currentLocationId, npcs, time, playerPosition } = useGameStoreShallow((s) => ({
-    currentLocationId: s.currentLocationId,
-    npcs: s.npcs,
-    time: s.time,
-    playerPosition: s.playerPosition,
-  }));
+  const { currentLocationId, npcs, time, day, playerPosition, partyIds, escortIds } =
+    useGameStoreShallow((s) => ({
+      currentLocationId: s.currentLocationId,
+      npcs: s.npcs,
+      time: s.time,
+      day: s.clockState.day,
+      playerPosition: s.playerPosition,
+      partyIds: s.party.map((c) => c.id).join(","),
+      escortIds: getActiveEscorts(s)
+        .map((escort) => escort.npcId)
+        .join(","),
+    }));
+
+  // Town events under way pull NPCs to church or the square
+  const events = useMemo(
+    () => getActiveTownEvents(day, time.hour).map((event) => event.id),
+    [day, time.hour],
+  );
 
   const movementSystemRef = useRef<NPCMovementSystem | null>(null);
   const markerIndexRef = useRef<LocationMarkerIndex | null>(null);
@@ -46,10 +63,12 @@ export function useNPCSpawner(
   // Determine if this is a town (has NPCs) or wilderness
   const locationNPCs = useMemo(() => {
     if (!currentLocationId) return [];
+    // Companions and escorts walk with the player instead
+    const following = [...partyIds.split(","), ...escortIds.split(",")];
     return Object.values(npcs).filter((npc) => {
-      return npc.isAlive;
+      return npc.isAlive && !following.includes(npc.id);
     });
-  }, [currentLocationId, npcs]);
+  }, [currentLocationId, npcs, partyIds, escortIds]);
 
   // Check if this is a town — use store NPCs first, but fall back to the data
   // layer to avoid spawning wilderness enemies in towns before NPCs are loaded.
@@ -134,7 +153,7 @@ export function useNPCSpawner(
         schedule,
       };
 
-      system.registerNPC(instanceData, gameHour);
+      system.registerNPC(instanceData, gameHour, events);
     }
 
     // Build initial interactable entries for the InteractionSystem
@@ -161,13 +180,14 @@ export function useNPCSpawner(
       onInteractablesChange?.([]);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentLocationId, isTown, locationNPCs, onInteractablesChange, time.hour]);
+  }, [currentLocationId, isTown, locationNPCs, onInteractablesChange, time.hour, events]);
 
   // ---------------------------------------------------------------------------
   // Per-frame: tick the NPC movement system and update interactable positions
   // ---------------------------------------------------------------------------
 
-  useFrame((_frameState, delta) => {
+  useFrame(() => {
+    const delta = InputManager.getInstance().getLastStep();
     const system = movementSystemRef.current;
     if (!system || !isTown) return;
 
@@ -175,6 +195,7 @@ export function useNPCSpawner(
       gameHour: time.hour,
       playerPosition: { x: playerPosition.x, y: playerPosition.y, z: playerPosition.z },
       deltaTime: delta,
+      events,
     });
 
     const interactables = interactablesRef.current;
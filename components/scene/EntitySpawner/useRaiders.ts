@@ -0,0 +1,94 @@
+// useRaiders — Sends raiders against a position the player is holding for a
+// quest, a wave at a time, and reports each wave to the quest bus: beaten
+// back once every raider is down, or the position overrun if the player
+// leaves or falls while any are still standing.
+
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useMemo, useRef } from "react";
+import { useGameStoreShallow } from "@/hooks/useGameStore";
+import type { CombatEnemy } from "@/src/game/engine/combat";
+import { getScaledEnemyStats } from "@/src/game/engine/combat/DamageCalculator";
+import { InputManager } from "@/src/game/input";
+import { gameStore } from "@/src/game/store/webGameStore";
+import {
+  getDefendedPosition,
+  getRaiderSpawns,
+  resolveRaid,
+} from "@/src/game/systems/QuestEncounters";
+import type { SpawnedEnemy } from "./types.ts";
+
+/** Seconds between checks on how a wave is going */
+const TICK_INTERVAL = 0.5;
+
+export function useRaiders(
+  currentLocationId: string | null,
+  combatEnemiesRef: React.RefObject<CombatEnemy[]>,
+): SpawnedEnemy[] {
+  // Objective and wave as one primitive, so a new wave rides in when the
+  // last one is beaten back
+  const waveKey = useGameStoreShallow((s) => {
+    const defended = getDefendedPosition(s, currentLocationId);
+    return defended ? `${defended.questId}:${defended.objectiveId}:${defended.wave}` : "";
+  });
+  const settleRef = useRef<((holding: boolean) => void) | null>(null);
+  const accumulatorRef = useRef(0);
+
+  const defended = useMemo(
+    () => (waveKey ? getDefendedPosition(gameStore.getState(), currentLocationId) : null),
+    [waveKey, currentLocationId],
+  );
+
+  const raiders = useMemo(
+    (): SpawnedEnemy[] =>
+      defended
+        ? getRaiderSpawns(defended).map((spawn) => ({
+            id: spawn.id,
+            enemyType: "outlaw",
+            configId: spawn.configId,
+            level: spawn.level,
+            maxHealth: getScaledEnemyStats(spawn.configId, spawn.level, "normal").health,
+            position: spawn.position,
+            name: spawn.name,
+            seed: spawn.id,
+          }))
+        : [],
+    [defended],
+  );
+
+  // Each wave is settled once; the player giving up the position settles it
+  // at once, the fight itself on the next check
+  useEffect(() => {
+    if (!defended) return;
+    const ids = new Set(raiders.map((raider) => raider.id));
+    let settled = false;
+    const settle = (holding: boolean) => {
+      if (settled) return;
+      const fighting = combatEnemiesRef.current.filter((enemy) => ids.has(enemy.entityId));
+      // Not yet in the fight
+      if (fighting.length < ids.size) return;
+      if (resolveRaid(defended.positionId, fighting, holding)) settled = true;
+    };
+    settleRef.current = settle;
+
+    const unsubscribe = gameStore.subscribe((state) => {
+      if (state.currentLocationId !== defended.positionId || state.phase === "game_over") {
+        settle(false);
+      }
+    });
+    return () => {
+      unsubscribe();
+      settleRef.current = null;
+    };
+  }, [defended, raiders, combatEnemiesRef]);
+
+  useFrame(() => {
+    const delta = InputManager.getInstance().getLastStep();
+    if (!settleRef.current) return;
+    accumulatorRef.current += delta;
+    if (accumulatorRef.current < TICK_INTERVAL) return;
+    accumulatorRef.current = 0;
+    settleRef.current(true);
+  });
+
+  return raiders;
+}
@@ -7,9 +7,10 @@
 //   - OpenWorld (terrain chunks, towns, buildings, roads, vegetation)
 //   - CombatSystem (processes per-frame combat tick with enemy list)
 //   - WeaponView (first-person weapon model, reads equipped weapon)
-//   - EntitySpawner (spawns NPCs in towns, enemies in wilderness)
+//   - EntitySpawner (spawns NPCs in towns, enemies in wilderness, companions anywhere)
 //   - WorldItems (dropped loot, glowing pickups with auto-collect)
 //   - InteractionDetector (proximity/raycast detection for "Press E")
+//   - AmbientBarks (passing remarks from nearby townsfolk, as subtitles)
 //
 // The Crosshair overlay is a React Native component rendered in the
 // game page's RN overlay layer (outside the Canvas). This component
@@ -22,17 +23,19 @@ import * as THREE from "three";
 import { Crosshair } from "@/components/game/Crosshair";
 import { useGameStore } from "@/hooks/useGameStore";
 import type { World } from "@/src/game/data/schemas/world";
-import type { CombatEnemy } from "@/src/game/engine/combat";
+import type { CombatEnemy, CompanionGunner } from "@/src/game/engine/combat";
 import { DEFAULT_WORLD_POSITION } from "@/src/game/store/defaults";
 import { useXRMode } from "@/src/game/xr/useXRMode";
 import { XRSetup } from "@/src/game/xr/XRSetup";
 
+import { AmbientBarks } from "./AmbientBarks.tsx";
 import { CombatSystem } from "./CombatSystem/index.ts";
 import { DayNightCycle, type DayNightCycleProps } from "./DayNightCycle.tsx";
 import { DesertAtmosphere } from "./DesertAtmosphere/index.ts";
 import { DesertEnvironment } from "./DesertEnvironment.tsx";
 import { EntitySpawner } from "./EntitySpawner/index.ts";
 import { FPSCamera } from "./FPSCamera.tsx";
+import { HorseMount } from "./HorseMount.tsx";
 import { InteractionDetector, type InteractionTarget } from "./InteractionDetector.tsx";
 import { NPCIndicators } from "./NPCIndicator.tsx";
 import { ObjectiveMarker } from "./ObjectiveMarker.tsx";
@@ -148,6 +151,9 @@ export function GameScene({
     setCombatEnemies(enemies);
   }, []);
 
+  // --- Companions shooting alongside the player (managed by EntitySpawner) ---
+  const [companionGunners, setCompanionGunners] = useState<CompanionGunner[]>([]);
+
   // --- Crosshair integration ---
   // Hit markers are routed to the RN-layer Crosshair via its imperative API.
   const handleHitMarker = useCallback((isHeadshot: boolean, isKill: boolean) => {
@@ -197,8 +203,12 @@ export function GameScene({
         <EntitySpawner
           onEnemiesChange={handleEnemiesChange}
           onInteractablesChange={onInteractablesChange}
+          onCompanionsChange={setCompanionGunners}
         />
 
+        {/* The player's horse, ridden or standing where it was left */}
+        <HorseMount />
+
         {/* World item pickups (dropped loot, glowing collectibles) */}
         <WorldItems />
 
@@ -212,6 +222,7 @@ export function GameScene({
           weaponId={displayWeaponType}
           difficulty={difficulty}
           enemies={combatEnemies}
+          companions={companionGunners}
           locationId={locationId}
           onCrosshairSpreadChange={onCrosshairSpreadChange}
           onHitMarker={handleHitMarker}
@@ -224,8 +235,8 @@ export function GameScene({
             is represented by the physical controller in the player's hand */}
         <VRGatedWeaponView weaponType={displayWeaponType} />
 
-        {/* Stealth detection (calculates detection level from enemy proximity) */}
-        <StealthDetector />
+        {/* Stealth detection (calculates detection level from what enemies can see) */}
+        <StealthDetector enemies={combatEnemies} />
 
         {/* Interaction detection (NPC proximity, building doors) */}
         <InteractionDetector onInteractionChange={onInteractionChange} />
@@ -236,6 +247,9 @@ export function GameScene({
         {/* NPC interaction indicators (!, ?, ... above heads) */}
         <NPCIndicators />
 
+        {/* Passing remarks from townsfolk near the player */}
+        <AmbientBarks />
+
         {/* Detects when the scene has rendered a few frames and signals ready */}
         {onSceneReady ? <SceneReadyDetector onReady={onSceneReady} /> : null}
       </PhysicsProvider>
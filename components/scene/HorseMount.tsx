@@ -0,0 +1,135 @@
+// HorseMount — R3F component for the horse riding with the player.
+//
+// Out of the saddle the horse stands where it was left, and the component
+// tells the store whether the player is close enough to mount. In the saddle
+// it hands the horse's gaits to the PlayerController and carries the horse
+// along under the camera, passing stamina back to the store a few times a
+// second.
+
+import { useFrame } from "@react-three/fiber";
+import { useEffect, useMemo, useRef } from "react";
+import * as THREE from "three";
+
+import { useGameStore } from "@/hooks/useGameStore";
+import { constructHorse } from "@/src/game/engine/renderers";
+import { InputManager } from "@/src/game/input";
+import { gameStore } from "@/src/game/store/webGameStore";
+import { getMountStats, HORSE_BREEDS, MOUNT_RANGE } from "@/src/game/systems/horses";
+
+import { usePhysics } from "./PhysicsProvider.tsx";
+
+// Write the horse's stamina back to the store about once a second
+const STAMINA_SYNC_INTERVAL = 1;
+
+// Where the horse is left on dismount, relative to the rider (m)
+const DISMOUNT_OFFSET = 1.5;
+
+// Leg swing per gait stride
+const LEG_SWING = 0.5;
+const STRIDE_RATE = { walk: 4, trot: 8, gallop: 12 } as const;
+
+const LEG_PHASES: Record<string, number> = {
+  leg_fl: 0,
+  leg_br: 0,
+  leg_fr: Math.PI,
+  leg_bl: Math.PI,
+};
+
+const _offset = new THREE.Vector3();
+
+export function HorseMount() {
+  const { player } = usePhysics();
+  const horse = useGameStore((s) => s.getActiveHorse());
+  const horseId = horse?.id;
+  const breedId = horse?.breedId;
+  const saddlebags = horse?.saddlebags ?? false;
+
+  const group = useMemo(
+    () => (horseId && breedId ? constructHorse(horseId, HORSE_BREEDS[breedId].coat) : null),
+    [horseId, breedId],
+  );
+  // Set once the horse has been placed in the world
+  const placedRef = useRef(false);
+  const strideRef = useRef(0);
+  const syncTimerRef = useRef(0);
+
+  useEffect(() => {
+    placedRef.current = false;
+    if (!group) return;
+    return () => {
+      group.traverse((child) => {
+        if (child instanceof THREE.Mesh) child.geometry.dispose();
+      });
+    };
+  }, [group]);
+
+  useEffect(() => {
+    const bags = group?.getObjectByName("saddlebags");
+    if (bags) bags.visible = saddlebags;
+  }, [group, saddlebags]);
+
+  // Lose the horse, lose the saddle
+  useEffect(() => {
+    if (!horseId && player.mount) player.dismount();
+  }, [horseId, player]);
+
+  useFrame(() => {
+    const delta = InputManager.getInstance().getLastStep();
+    if (!group) return;
+    const store = gameStore.getState();
+    const active = store.getActiveHorse();
+    if (!active) return;
+
+    // Follow the store's mounted flag
+    if (store.mounted && !player.mount) {
+      player.mountHorse(getMountStats(active), active.stamina);
+    } else if (!store.mounted && player.mount) {
+      store.setHorseStamina(player.mountStamina);
+      player.dismount();
+      placeBeside(group, player.position, player.yaw);
+    }
+
+    if (!placedRef.current) {
+      placeBeside(group, player.position, player.yaw);
+      placedRef.current = true;
+    }
+
+    if (player.mount) {
+      // Horse faces +Z; the rider looks down -Z
+      group.position.copy(player.position);
+      group.rotation.y = player.yaw + Math.PI;
+
+      const speed = Math.hypot(player.velocity.x, player.velocity.z);
+      strideRef.current = speed > 0.1 ? strideRef.current + delta * STRIDE_RATE[player.gait] : 0;
+      for (const [name, phase] of Object.entries(LEG_PHASES)) {
+        const leg = group.getObjectByName(name);
+        if (leg) leg.rotation.x = Math.sin(strideRef.current + phase) * LEG_SWING;
+      }
+
+      syncTimerRef.current += delta;
+      if (syncTimerRef.current >= STAMINA_SYNC_INTERVAL) {
+        syncTimerRef.current = 0;
+        if (Math.round(player.mountStamina) !== Math.round(active.stamina)) {
+          store.setHorseStamina(player.mountStamina);
+        }
+      }
+      return;
+    }
+
+    const inReach = group.position.distanceTo(player.position) <= MOUNT_RANGE;
+    if (inReach !== store.horseInReach) store.setHorseInReach(inReach);
+  });
+
+  return group ? <primitive object={group} /> : null;
+}
+
+/** Stand the horse off the rider's right hand, facing the way they face */
+function placeBeside(group: THREE.Group, position: THREE.Vector3, yaw: number): void {
+  _offset.set(DISMOUNT_OFFSET, 0, 0).applyAxisAngle(THREE.Object3D.DEFAULT_UP, yaw);
+  group.position.copy(position).add(_offset);
+  group.rotation.y = yaw + Math.PI;
+  for (const name of Object.keys(LEG_PHASES)) {
+    const leg = group.getObjectByName(name);
+    if (leg) leg.rotation.x = 0;
+  }
+}
@@ -26,6 +26,7 @@ import {
   placeTown,
   type TownPlacement,
 } from "@/src/game/engine/world/index";
+import { InputManager } from "@/src/game/input";
 import { getEncounterSystem } from "@/src/game/systems/EncounterSystem";
 import { getTownBoundarySystem } from "@/src/game/systems/TownBoundarySystem";
 
@@ -151,12 +152,12 @@ export function OpenWorld({
   const [townOpacities, setTownOpacities] = useState<Map<string, number>>(() => new Map());
 
   // Per-frame update
-  useFrame((_state, dt) => {
+  useFrame(() => {
     const px = camera.position.x;
     const pz = camera.position.z;
 
     // Animate doors (smooth 0.3s open/close rotation)
-    doorSystem.update(dt);
+    doorSystem.update(InputManager.getInstance().getLastStep());
 
     // Update chunk manager when player crosses a chunk boundary
     const cx = Math.floor(px / CHUNK_SIZE);
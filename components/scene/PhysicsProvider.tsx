@@ -26,6 +26,7 @@ import {
   type TriggerCallback,
 } from "@/engine/physics";
 import { InputManager } from "@/src/game/input";
+import { updateReplaySession } from "@/src/game/input/replay";
 import { gameStore } from "@/src/game/store/webGameStore";
 
 // ---------------------------------------------------------------------------
@@ -190,16 +191,16 @@ export function PhysicsProvider({ spawnPosition, initialYaw, children }: Physics
   const cameraQuat = useRef(new THREE.Quaternion());
 
   useFrame((_state, delta) => {
-    // Cap delta to prevent physics explosion after tab-out / suspend
-    const dt = Math.min(delta, 0.1);
-
-    // Poll input (InputManager.tick() must happen before player.update)
+    // Poll input (InputManager.tick() must happen before player.update).
+    // Delta is capped to prevent physics explosion after tab-out / suspend;
+    // recordings round it and replays substitute the recorded step.
     const input = InputManager.getInstance();
-    input.tick();
+    const dt = input.tick(Math.min(delta, 0.1));
     const frame = input.getFrame();
+    updateReplaySession(player);
 
     // Overlay store crouch state onto input frame so PlayerController
-    // applies crouch speed. The C-key toggle is handled by StealthDetector.
+    // applies crouch speed. StealthDetector mirrors the input's crouch into it.
     const isCrouching = gameStore.getState().stealthState.isCrouching;
     const patchedFrame = isCrouching ? { ...frame, crouch: true } : frame;
 
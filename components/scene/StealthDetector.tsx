@@ -1,10 +1,13 @@
 /**
  * StealthDetector — R3F scene component that runs stealth detection each frame.
  *
- * Reads enemy positions from the ECS world, player position from the store,
- * crouch/sprint state from the InputManager, and night state from the survival
- * clock. Feeds these into the pure StealthSystem tick function and writes the
- * result back to the store.
+ * Reads what each combat enemy perceived of the player on its last AI update
+ * (vision cone, line of sight, lighting, weather), player position from the store and
+ * crouch/sprint state from the InputManager. Feeds these into the pure
+ * StealthSystem tick function and writes the result back to the store.
+ *
+ * Also puts the player's footsteps on the noise bus, louder on noisy ground
+ * and when sprinting, nearly silent when crouch-walking.
  *
  * Runs inside the R3F <Canvas> tree (no visual output — returns null).
  *
@@ -13,20 +16,29 @@
 
 import { useFrame } from "@react-three/fiber";
 import { useRef } from "react";
-import { enemies as enemyQuery } from "@/src/game/ecs/world";
+import type { CombatEnemy } from "@/src/game/engine/combat";
+import { FOOTSTEP_INTERVAL, type Gait, getFootstepRadius, noiseBus } from "@/src/game/engine/noise";
 import { InputManager } from "@/src/game/input";
 import { gameStore } from "@/src/game/store/webGameStore";
 import { type StealthTickInput, tickStealth } from "@/src/game/systems/StealthSystem";
+import { getWeatherEffects } from "@/src/game/systems/weather";
 
 // Throttle stealth ticks to ~10 Hz (every 100ms) to avoid per-frame store writes
 const TICK_INTERVAL = 0.1;
 
-export function StealthDetector() {
+export interface StealthDetectorProps {
+  /** Live combat enemies, whose AI tracks what they can see of the player */
+  enemies?: CombatEnemy[];
+}
+
+export function StealthDetector({ enemies = [] }: StealthDetectorProps) {
   const accumulatorRef = useRef(0);
-  // Track previous crouch key state for toggle detection
+  // Last crouch state sent to the store
   const prevCrouchRef = useRef(false);
+  const footstepTimerRef = useRef(0);
 
-  useFrame((_state, delta) => {
+  useFrame(() => {
+    const delta = InputManager.getInstance().getLastStep();
     accumulatorRef.current += delta;
     if (accumulatorRef.current < TICK_INTERVAL) return;
 
@@ -38,37 +50,57 @@ export function StealthDetector() {
     // Only run stealth during active gameplay
     if (state.phase !== "playing") return;
 
-    // Handle crouch toggle from input (rising edge only)
+    // The InputManager latches crouch when it's set to toggle, so the frame
+    // already says whether to crouch; pass on changes
     const inputFrame = InputManager.getInstance().getFrame();
-    const crouchPressed = inputFrame.crouch;
-    if (crouchPressed && !prevCrouchRef.current) {
-      state.toggleCrouch();
+    if (inputFrame.crouch !== prevCrouchRef.current) {
+      state.setCrouching(inputFrame.crouch);
     }
-    prevCrouchRef.current = crouchPressed;
+    prevCrouchRef.current = inputFrame.crouch;
 
-    // Re-read stealth state after potential toggle
+    // Re-read stealth state after a possible change
     const stealthState = gameStore.getState().stealthState;
 
-    // Gather hostile positions from the pre-built ECS enemy query
+    // Gather where each living enemy is and how well it can see the player
     const hostilePositions: Array<{ x: number; y: number; z: number }> = [];
-    for (const entity of enemyQuery) {
-      if (entity.health.current > 0) {
-        hostilePositions.push(entity.position);
-      }
+    const observers: number[] = [];
+    const hearing: number[] = [];
+    for (const enemy of enemies) {
+      if (enemy.ai.state === "dead") continue;
+      hostilePositions.push(enemy.ai.position);
+      observers.push(enemy.ai.perception.visibility);
+      hearing.push(enemy.ai.heardNoise);
     }
 
     // Determine movement state from input
     const isMoving = Math.abs(inputFrame.move.x) > 0.1 || Math.abs(inputFrame.move.z) > 0.1;
+    const isSprinting = inputFrame.sprint && isMoving;
+
+    // Footsteps carry according to the ground underfoot and how the player moves
+    footstepTimerRef.current = isMoving ? footstepTimerRef.current + dt : 0;
+    if (footstepTimerRef.current >= FOOTSTEP_INTERVAL) {
+      footstepTimerRef.current = 0;
+      const gait: Gait = stealthState.isCrouching ? "crouch" : isSprinting ? "sprint" : "walk";
+      noiseBus.emit({
+        kind: "footstep",
+        position: { ...state.playerPosition },
+        radius: getFootstepRadius(state.currentTerrain, gait),
+      });
+    }
 
     const input: StealthTickInput = {
       playerPosition: state.playerPosition,
       isCrouching: stealthState.isCrouching,
       isMoving,
-      isSprinting: inputFrame.sprint && isMoving,
+      isSprinting,
       isNight: state.isNight(),
       currentDetection: stealthState.detectionLevel,
       dt,
       hostilePositions,
+      perkModifier: state.getPerkModifier("detection"),
+      observers,
+      hearing,
+      visibility: getWeatherEffects(state.weather).visibility,
     };
 
     const result = tickStealth(input);
@@ -1,5 +1,6 @@
 // scene — Barrel export for R3F scene components
 
+export { AmbientBarks } from "./AmbientBarks.tsx";
 export { CombatSystem, type CombatSystemProps } from "./CombatSystem/index.ts";
 export { DayNightCycle, type DayNightCycleProps } from "./DayNightCycle.tsx";
 export { DesertEnvironment, type DesertEnvironmentProps } from "./DesertEnvironment.tsx";
@@ -7,6 +8,7 @@ export { EntitySpawner, type EntitySpawnerProps } from "./EntitySpawner/index.ts
 export { Fireflies, type FirefliesProps } from "./Fireflies.tsx";
 export { FPSCamera } from "./FPSCamera.tsx";
 export { GameScene, type GameSceneProps } from "./GameScene.tsx";
+export { HorseMount } from "./HorseMount.tsx";
 export {
   InteractionDetector,
   type InteractionDetectorProps,
@@ -25,7 +27,7 @@ export {
   type PropType,
 } from "./PropCluster.tsx";
 export { Sky, type SkyProps } from "./Sky.tsx";
-export { StealthDetector } from "./StealthDetector.tsx";
+export { StealthDetector, type StealthDetectorProps } from "./StealthDetector.tsx";
 export { Terrain, type TerrainProps } from "./Terrain.tsx";
 export {
   VegetationField,
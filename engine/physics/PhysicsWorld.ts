@@ -104,6 +104,11 @@ export class PhysicsWorld {
     this.triggerColliders.clear();
   }
 
+  /** Solid box colliders (buildings, props), e.g. for finding cover. */
+  getBoxColliders(): BoxCollider[] {
+    return Array.from(this.boxColliders.values());
+  }
+
   get colliderCount(): number {
     return (
       this.boxColliders.size +
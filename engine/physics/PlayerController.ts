@@ -2,11 +2,21 @@
 //
 // Converts InputFrame movement intents into physics-resolved positions.
 // Handles walk/sprint, jumping (with coyote time), terrain following,
-// step-up, trigger volume enter/exit callbacks, and head bob.
+// step-up, trigger volume enter/exit callbacks, and head bob. Mounted, the
+// player moves at the horse's walk/trot/gallop instead and the gallop
+// spends the horse's stamina.
 
 import * as THREE from "three";
 
 import type { InputFrame } from "@/src/game/input/InputFrame";
+import {
+  GAIT_BOB,
+  type Gait,
+  MOUNTED_EYE_RISE,
+  type MountStats,
+  resolveGait,
+  stepMountStamina,
+} from "./mountMovement.ts";
 import type { PhysicsWorld } from "./PhysicsWorld.ts";
 import type { TriggerEvent } from "./physicsTypes.ts";
 import {
@@ -46,6 +56,8 @@ export interface PlayerState {
   readonly pitch: number;
   readonly grounded: boolean;
   readonly sprinting: boolean;
+  readonly mounted: boolean;
+  readonly gait: Gait | null;
 }
 
 export type TriggerCallback = (event: TriggerEvent) => void;
@@ -61,6 +73,10 @@ export class PlayerController {
   pitch = 0;
   grounded = false;
   sprinting = false;
+  /** The horse being ridden, if any */
+  mount: MountStats | null = null;
+  gait: Gait = "walk";
+  mountStamina = 0;
 
   private bobPhase = 0;
   private lastHorizontalSpeed = 0;
@@ -99,9 +115,24 @@ export class PlayerController {
     const isMoving = _wishDir.lengthSq() > 0.001;
     if (isMoving) _wishDir.normalize();
 
-    this.sprinting = frame.sprint && isMoving;
-    const crouching = frame.crouch && !this.sprinting;
-    const speed = this.sprinting ? SPRINT_SPEED : crouching ? CROUCH_SPEED : WALK_SPEED;
+    let speed: number;
+    let crouching = false;
+    if (this.mount) {
+      this.gait = resolveGait(frame, this.mountStamina, this.gait);
+      this.mountStamina = stepMountStamina(
+        this.mountStamina,
+        this.gait,
+        isMoving,
+        this.mount,
+        delta,
+      );
+      this.sprinting = false;
+      speed = this.mount.speeds[this.gait];
+    } else {
+      this.sprinting = frame.sprint && isMoving;
+      crouching = frame.crouch && !this.sprinting;
+      speed = this.sprinting ? SPRINT_SPEED : crouching ? CROUCH_SPEED : WALK_SPEED;
+    }
 
     this.velocity.x = isMoving ? _wishDir.x * speed : 0;
     this.velocity.z = isMoving ? _wishDir.z * speed : 0;
@@ -162,11 +193,13 @@ export class PlayerController {
     this.grounded = result.grounded;
 
     if (this.grounded && this.lastHorizontalSpeed > 0.5) {
-      const bobSpeed = this.sprinting
-        ? BOB_FREQUENCY * 1.3
-        : crouching
-          ? BOB_FREQUENCY * 0.7
-          : BOB_FREQUENCY;
+      const bobSpeed = this.mount
+        ? BOB_FREQUENCY * GAIT_BOB[this.gait]
+        : this.sprinting
+          ? BOB_FREQUENCY * 1.3
+          : crouching
+            ? BOB_FREQUENCY * 0.7
+            : BOB_FREQUENCY;
       this.bobPhase += delta * bobSpeed;
     } else {
       this.bobPhase *= 0.9;
@@ -175,9 +208,23 @@ export class PlayerController {
     this.updateTriggers();
   }
 
+  /** Climb into the saddle of a horse with `stamina` left. */
+  mountHorse(stats: MountStats, stamina: number): void {
+    this.mount = stats;
+    this.mountStamina = Math.min(stamina, stats.maxStamina);
+    this.gait = "walk";
+    this.sprinting = false;
+  }
+
+  dismount(): void {
+    this.mount = null;
+    this.gait = "walk";
+  }
+
   getEyePosition(out: THREE.Vector3): THREE.Vector3 {
     const bob = Math.sin(this.bobPhase) * BOB_AMPLITUDE;
-    return out.set(this.position.x, this.position.y + EYE_OFFSET + bob, this.position.z);
+    const rise = this.mount ? MOUNTED_EYE_RISE : 0;
+    return out.set(this.position.x, this.position.y + EYE_OFFSET + rise + bob, this.position.z);
   }
 
   getCameraQuaternion(out: THREE.Quaternion): THREE.Quaternion {
@@ -204,6 +251,8 @@ export class PlayerController {
       pitch: this.pitch,
       grounded: this.grounded,
       sprinting: this.sprinting,
+      mounted: this.mount !== null,
+      gait: this.mount ? this.gait : null,
     };
   }
 
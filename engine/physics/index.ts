@@ -23,6 +23,13 @@ export {
   extractBuildingColliders,
   resetColliderIds,
 } from "./CollisionShapes.ts";
+export type { Gait, MountStats } from "./mountMovement.ts";
+export {
+  GALLOP_MIN_STAMINA,
+  MOUNTED_EYE_RISE,
+  resolveGait,
+  stepMountStamina,
+} from "./mountMovement.ts";
 export type {
   MoveResult,
   RaycastHit,
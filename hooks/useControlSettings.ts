@@ -0,0 +1,52 @@
+/**
+ * useControlSettings — Keeps the input providers in step with the player's
+ * control settings.
+ *
+ * Controls belong to the device rather than to a playthrough, so besides
+ * riding along in save slots they're kept in the separate settings store
+ * (`saveSettings`). On mount the saved copy wins over whatever the loaded
+ * game carried; after that every change is pushed to the providers and
+ * written back.
+ *
+ * Call after initializeInput() has run so the providers exist.
+ *
+ * @module hooks/useControlSettings
+ */
+
+import { useEffect, useRef } from 'react';
+import { applyControlSettings, DEFAULT_CONTROLS } from '@/src/game/input';
+import { gameStore, loadSettings, saveSettings } from '@/src/game/store';
+import { getControls } from '@/src/game/store/slices';
+import { useGameStore } from './useGameStore';
+
+export function useControlSettings(): void {
+  const settings = useGameStore((s) => s.settings);
+  const controls = getControls(settings);
+  const loadedRef = useRef(false);
+
+  // --- Restore saved controls once ---
+  useEffect(() => {
+    let cancelled = false;
+    loadSettings().then((saved) => {
+      if (cancelled) return;
+      if (saved?.controls) {
+        gameStore.getState().updateSettings({
+          controls: { ...DEFAULT_CONTROLS, ...saved.controls },
+        });
+      }
+      loadedRef.current = true;
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // --- Apply and persist on every change ---
+  useEffect(() => {
+    applyControlSettings(controls);
+    // Don't overwrite the saved copy with defaults before it's been read
+    if (loadedRef.current) {
+      saveSettings(gameStore.getState().settings);
+    }
+  }, [controls]);
+}
@@ -0,0 +1,78 @@
+/**
+ * useReplayHotkeys — Tester shortcuts for recording and replaying sessions.
+ *
+ * F8 starts recording from the current state, and a second press stops it
+ * and downloads the replay. F9 opens a replay file, restores the save it
+ * began from and plays it back in place of live input.
+ *
+ * Web development builds only.
+ *
+ * @module hooks/useReplayHotkeys
+ */
+
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+import {
+  downloadReplay,
+  isRecording,
+  parseReplay,
+  startRecording,
+  startReplay,
+  stopRecording,
+} from '@/src/game/input/replay';
+import { gameStore } from '@/src/game/store';
+
+function toggleRecording(): void {
+  const state = gameStore.getState();
+  if (!isRecording()) {
+    startRecording({ seed: state.worldSeed, startSave: state.getSaveData() });
+    state.addNotification('info', 'Recording input (F8 to stop).');
+    return;
+  }
+  const replay = stopRecording();
+  if (!replay) return;
+  downloadReplay(replay);
+  state.addNotification('info', `Replay saved (${replay.frameCount} frames).`);
+}
+
+function openReplay(): void {
+  const picker = document.createElement('input');
+  picker.type = 'file';
+  picker.accept = '.json,application/json';
+  picker.onchange = async () => {
+    const file = picker.files?.[0];
+    if (!file) return;
+    const state = gameStore.getState();
+    try {
+      const replay = parseReplay(await file.text());
+      if (replay.startSave) state.hydrateFromSave(replay.startSave);
+      startReplay(replay, () => {
+        gameStore.getState().addNotification('info', 'Replay finished.');
+      });
+      state.addNotification('info', `Replaying ${replay.frameCount} frames.`);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      state.addNotification('warning', `That replay file could not be played: ${reason}`);
+    }
+  };
+  picker.click();
+}
+
+export function useReplayHotkeys(): void {
+  useEffect(() => {
+    if (!__DEV__ || Platform.OS !== 'web') return;
+
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.code === 'F8') {
+        e.preventDefault();
+        toggleRecording();
+      } else if (e.code === 'F9') {
+        e.preventDefault();
+        openReplay();
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
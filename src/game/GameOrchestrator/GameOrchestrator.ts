@@ -16,6 +16,11 @@ import {
 class GameOrchestrator {
   private questHandle: QuestSystemHandle | null = null;
   private questNotifyTeardown: (() => void) | null = null;
+  private questTimerTeardown: (() => void) | null = null;
+  private shopRestockTeardown: (() => void) | null = null;
+  private weatherTeardown: (() => void) | null = null;
+  private lawTeardown: (() => void) | null = null;
+  private bountyBoardTeardown: (() => void) | null = null;
   private autosaveTimer: ReturnType<typeof setInterval> | null = null;
   private gameLoopTimer: ReturnType<typeof setInterval> | null = null;
   private lastTickTime = 0;
@@ -118,6 +123,11 @@ class GameOrchestrator {
 
     this.questHandle = initQuestSystem(store);
     this.questNotifyTeardown = wireQuestNotifications(store);
+    this.questTimerTeardown = store.getState().watchQuestTimers();
+    this.shopRestockTeardown = store.getState().watchShopRestock();
+    this.weatherTeardown = store.getState().watchWeather();
+    this.lawTeardown = store.getState().watchBounties();
+    this.bountyBoardTeardown = store.getState().watchBountyBoards();
 
     this.lastTickTime = performance.now();
     this.gameLoopTimer = setInterval(() => {
@@ -205,6 +215,31 @@ class GameOrchestrator {
       this.questNotifyTeardown = null;
     }
 
+    if (this.questTimerTeardown) {
+      this.questTimerTeardown();
+      this.questTimerTeardown = null;
+    }
+
+    if (this.shopRestockTeardown) {
+      this.shopRestockTeardown();
+      this.shopRestockTeardown = null;
+    }
+
+    if (this.weatherTeardown) {
+      this.weatherTeardown();
+      this.weatherTeardown = null;
+    }
+
+    if (this.lawTeardown) {
+      this.lawTeardown();
+      this.lawTeardown = null;
+    }
+
+    if (this.bountyBoardTeardown) {
+      this.bountyBoardTeardown();
+      this.bountyBoardTeardown = null;
+    }
+
     if (this.gameLoopTimer) {
       clearInterval(this.gameLoopTimer);
       this.gameLoopTimer = null;
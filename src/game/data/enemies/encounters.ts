@@ -76,6 +76,50 @@ export const IVRCCheckpoint: CombatEncounter = {
   tags: ['ivrc', 'checkpoint'],
 };
 
+export const TrainRobbery: CombatEncounter = {
+  id: 'train_robbery',
+  name: 'Train Robbery',
+  description: 'Masked riders have stopped the train and are working through the cars.',
+  enemies: [
+    { enemyId: 'bandit_thug', count: 2 },
+    { enemyId: 'bandit_gunman', count: 2 },
+  ],
+  minLevel: 1,
+  isBoss: false,
+  canFlee: true,
+  rewards: {
+    xp: 70,
+    gold: 35,
+    items: [
+      { itemId: 'revolver_ammo', quantity: 6, chance: 0.7 },
+      { itemId: 'whiskey', quantity: 1, chance: 0.3 },
+    ],
+  },
+  tags: ['railroad', 'robbery'],
+};
+
+export const CopperheadTrainHeist: CombatEncounter = {
+  id: 'copperhead_train_heist',
+  name: 'Copperhead Heist',
+  description: 'The Copperheads have blown the tracks to get at the company strongbox.',
+  enemies: [
+    { enemyId: 'copperhead_gunslinger', count: 2 },
+    { enemyId: 'copperhead_dynamiter', count: 1 },
+  ],
+  minLevel: 3,
+  isBoss: false,
+  canFlee: true,
+  rewards: {
+    xp: 110,
+    gold: 60,
+    items: [
+      { itemId: 'ivrc_scrip', quantity: 20, chance: 0.6 },
+      { itemId: 'revolver_ammo', quantity: 12, chance: 0.8 },
+    ],
+  },
+  tags: ['railroad', 'robbery', 'copperhead'],
+};
+
 export const RemnantAwakening: CombatEncounter = {
   id: 'remnant_awakening',
   name: 'Awakened Machines',
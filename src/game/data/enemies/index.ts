@@ -13,14 +13,14 @@ export { CopperheadEnforcer, CopperheadGunslinger, CopperheadDynamiter } from '.
 export { IVRCGuard, IVRCMarksman, IVRCCaptain } from './ivrc.ts';
 export { DesertWolf, Rattlesnake, MountainLion, GrizzlyBear, Scorpion, Vulture } from './wildlife.ts';
 export { RemnantSentry, RemnantScout, RemnantJuggernaut } from './remnant.ts';
-export { RoadsideBandits, WolfPack, CopperheadPatrol, IVRCCheckpoint, RemnantAwakening, JuggernautBoss } from './encounters.ts';
+export { RoadsideBandits, WolfPack, CopperheadPatrol, IVRCCheckpoint, TrainRobbery, CopperheadTrainHeist, RemnantAwakening, JuggernautBoss } from './encounters.ts';
 
 import { BanditThug, BanditGunman, BanditSharpshooter, BanditLeader } from './bandits.ts';
 import { CopperheadEnforcer, CopperheadGunslinger, CopperheadDynamiter } from './copperhead.ts';
 import { IVRCGuard, IVRCMarksman, IVRCCaptain } from './ivrc.ts';
 import { DesertWolf, Rattlesnake, MountainLion, GrizzlyBear, Scorpion, Vulture } from './wildlife.ts';
 import { RemnantSentry, RemnantScout, RemnantJuggernaut } from './remnant.ts';
-import { RoadsideBandits, WolfPack, CopperheadPatrol, IVRCCheckpoint, RemnantAwakening, JuggernautBoss } from './encounters.ts';
+import { RoadsideBandits, WolfPack, CopperheadPatrol, IVRCCheckpoint, TrainRobbery, CopperheadTrainHeist, RemnantAwakening, JuggernautBoss } from './encounters.ts';
 
 export const ALL_ENEMIES: EnemyDefinition[] = [
   BanditThug, BanditGunman, BanditSharpshooter,
@@ -37,7 +37,7 @@ export const ENEMIES_BY_ID: Record<string, EnemyDefinition> = Object.fromEntries
 
 export const ALL_ENCOUNTERS: CombatEncounter[] = [
   RoadsideBandits, WolfPack, CopperheadPatrol,
-  IVRCCheckpoint, RemnantAwakening, JuggernautBoss,
+  IVRCCheckpoint, TrainRobbery, CopperheadTrainHeist, RemnantAwakening, JuggernautBoss,
 ];
 
 export const ENCOUNTERS_BY_ID: Record<string, CombatEncounter> = Object.fromEntries(
@@ -74,7 +74,11 @@ export function generateObjective(
   let targetId: string | undefined;
   let targetName: string | undefined;
 
-  if (template.targetType !== 'any' || template.targetTags.length > 0) {
+  if (template.reuseTarget && variables['lastTargetId']) {
+    targetId = variables['lastTargetId'];
+    targetName = variables['lastTarget'];
+    variables['target'] = targetName;
+  } else if (template.targetType !== 'any' || template.targetTags.length > 0) {
     const target = selectTarget(
       rng,
       template.targetType,
@@ -101,6 +105,9 @@ export function generateObjective(
     ? substituteTemplate(template.hintTemplate, variables)
     : undefined;
 
+  // Escorts head for the quest's destination
+  const escort = template.type === 'escort' && variables['destinationId'];
+
   return {
     id: `obj_${index}_${rng.int(0, 0xffff).toString(16)}`,
     type: template.type,
@@ -108,6 +115,8 @@ export function generateObjective(
     targetType: template.targetType,
     targetId,
     targetName,
+    destinationId: escort ? variables['destinationId'] : undefined,
+    destinationName: escort ? variables['destination'] : undefined,
     count,
     currentCount: 0,
     optional: template.optional,
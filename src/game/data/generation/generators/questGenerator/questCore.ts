@@ -91,6 +91,8 @@ export function generateQuest(
         allTargetIds.push(obj.targetId);
         if (obj.targetName) {
           allTargetNames[obj.targetId] = obj.targetName;
+          variables['lastTarget'] = obj.targetName;
+          variables['lastTargetId'] = obj.targetId;
         }
       }
     }
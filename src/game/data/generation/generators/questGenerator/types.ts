@@ -14,6 +14,9 @@ export interface GeneratedObjective {
   targetType: 'npc' | 'item' | 'location' | 'enemy' | 'any';
   targetId?: string;
   targetName?: string;
+  /** Escort destination (location ID) */
+  destinationId?: string;
+  destinationName?: string;
   count: number;
   currentCount: number;
   optional: boolean;
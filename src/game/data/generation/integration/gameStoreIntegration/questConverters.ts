@@ -20,8 +20,11 @@ function convertGeneratedObjective(generated: GeneratedObjective): Objective {
     visit: 'visit',
     interact: 'interact',
     deliver: 'deliver',
+    escort: 'escort',
+    survive: 'survive',
+    defend: 'defend',
+    stealth: 'stealth',
     fetch: 'collect',
-    escort: 'visit',
     investigate: 'interact',
   };
 
@@ -30,6 +33,7 @@ function convertGeneratedObjective(generated: GeneratedObjective): Objective {
     description: generated.description,
     type: typeMap[generated.type] ?? 'interact',
     target: generated.targetId ?? generated.targetName ?? 'unknown',
+    destination: generated.destinationId,
     count: generated.count,
     current: generated.currentCount,
     optional: generated.optional,
@@ -153,4 +153,72 @@ export const COMBAT_CLEAR_TEMPLATES: QuestTemplate[] = [
     repeatable: true,
     cooldownHours: 48,
   },
+  {
+    id: 'hold_homestead',
+    name: 'Hold the Homestead',
+    archetype: 'clear_area',
+    questType: 'side',
+    titleTemplates: ['Hold the Line', 'Siege at {{destination}}', 'Last Stand'],
+    descriptionTemplates: [
+      'Raiders are riding on {{destination}}. {{giver}} needs guns to hold it until they give up.',
+      'A homestead near {{destination}} is under threat. Keep the family alive through the night.',
+    ],
+    stages: [
+      {
+        titleTemplate: 'Ride to {{destination}}',
+        descriptionTemplate: 'Get to {{destination}} before the raiders do.',
+        objectives: [
+          {
+            type: 'visit',
+            descriptionTemplate: 'Reach {{destination}}',
+            targetType: 'location',
+            targetTags: ['ranch', 'homestead', 'farm'],
+            countRange: [1, 1],
+            optional: false,
+          },
+        ],
+      },
+      {
+        titleTemplate: 'Hold the Homestead',
+        descriptionTemplate: 'Beat back the raiders until they lose their nerve.',
+        objectives: [
+          {
+            type: 'defend',
+            descriptionTemplate: 'Beat back the raider waves',
+            targetType: 'location',
+            targetTags: ['ranch', 'homestead', 'farm'],
+            countRange: [2, 4],
+            optional: false,
+            hintTemplate: "Don't let them reach the house.",
+            reuseTarget: true,
+          },
+          {
+            type: 'survive',
+            descriptionTemplate: 'Hold out until dawn',
+            targetType: 'any',
+            targetTags: [],
+            countRange: [120, 240],
+            optional: true,
+          },
+        ],
+        onCompleteTextTemplate: 'The raiders scatter into the dark. The homestead stands.',
+      },
+    ],
+    rewards: {
+      xpRange: [45, 80],
+      goldRange: [20, 45],
+      itemTags: ['ammo'],
+      itemChance: 0.3,
+      reputationImpact: {
+        townfolk: [5, 10],
+      },
+    },
+    levelRange: [3, 7],
+    giverRoles: ['rancher', 'farmer', 'sheriff'],
+    giverFactions: ['townfolk'],
+    validLocationTypes: ['ranch', 'town'],
+    tags: ['combat', 'defense', 'siege'],
+    repeatable: true,
+    cooldownHours: 48,
+  },
 ];
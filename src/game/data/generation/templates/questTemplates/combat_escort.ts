@@ -40,13 +40,14 @@ export const COMBAT_ESCORT_TEMPLATES: QuestTemplate[] = [
         descriptionTemplate: 'Protect {{target}} on the road to {{destination}}.',
         objectives: [
           {
-            type: 'visit',
-            descriptionTemplate: 'Arrive at {{destination}} with {{target}}',
-            targetType: 'location',
-            targetTags: ['town', 'outpost'],
+            type: 'escort',
+            descriptionTemplate: 'Bring {{target}} to {{destination}} alive',
+            targetType: 'npc',
+            targetTags: ['traveler', 'civilian'],
             countRange: [1, 1],
             optional: false,
             hintTemplate: 'Stay close and watch for ambushes.',
+            reuseTarget: true,
           },
         ],
         onCompleteTextTemplate: '{{target}} arrived safely.',
@@ -22,8 +22,8 @@ export const RETRIEVAL_STEAL_TEMPLATES: QuestTemplate[] = [
         descriptionTemplate: 'Get inside {{destination}} undetected.',
         objectives: [
           {
-            type: 'visit',
-            descriptionTemplate: 'Enter {{destination}}',
+            type: 'stealth',
+            descriptionTemplate: 'Enter {{destination}} unseen',
             targetType: 'location',
             targetTags: ['office', 'warehouse', 'building'],
             countRange: [1, 1],
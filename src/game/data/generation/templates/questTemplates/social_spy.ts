@@ -22,8 +22,8 @@ export const SOCIAL_SPY_TEMPLATES: QuestTemplate[] = [
         descriptionTemplate: 'Get close to {{destination}} without being detected.',
         objectives: [
           {
-            type: 'visit',
-            descriptionTemplate: 'Reach observation point',
+            type: 'stealth',
+            descriptionTemplate: 'Reach observation point unseen',
             targetType: 'location',
             targetTags: ['building', 'camp'],
             countRange: [1, 1],
@@ -78,12 +78,25 @@ export function getAllSchedulesForRole(role: string): ScheduleTemplate[] {
   return Object.values(SCHEDULE_TEMPLATES).filter((schedule) => schedule.validRoles.includes(role));
 }
 
+function coversHour(entry: ScheduleTemplate['entries'][0], hour: number): boolean {
+  // Handle schedules that wrap around midnight
+  if (entry.startHour <= entry.endHour) {
+    // Normal case: start <= end (e.g., 8-12)
+    return hour >= entry.startHour && hour < entry.endHour;
+  }
+  // Wrap case: start > end (e.g., 22-6 means 22-24 and 0-6)
+  return hour >= entry.startHour || hour < entry.endHour;
+}
+
 /**
- * Get the activity for an NPC at a specific hour
+ * Get the activity for an NPC at a specific hour. Entries tied to a town
+ * event in `events` (the ids of events under way) come first; entries tied
+ * to any other event are skipped.
  */
 export function getNPCActivityAt(
   schedule: ScheduleTemplate,
-  hour: number
+  hour: number,
+  events: readonly string[] = []
 ):
   | {
       activity: ScheduleTemplate['entries'][0]['activity'];
@@ -94,30 +107,17 @@ export function getNPCActivityAt(
   // Normalize hour to 0-24 range
   const normalizedHour = ((hour % 24) + 24) % 24;
 
-  for (const entry of schedule.entries) {
-    // Handle schedules that wrap around midnight
-    if (entry.startHour <= entry.endHour) {
-      // Normal case: start <= end (e.g., 8-12)
-      if (normalizedHour >= entry.startHour && normalizedHour < entry.endHour) {
-        return {
-          activity: entry.activity,
-          locationMarker: entry.locationMarker,
-          dialogueOverride: entry.dialogueOverride,
-        };
-      }
-    } else {
-      // Wrap case: start > end (e.g., 22-6 means 22-24 and 0-6)
-      if (normalizedHour >= entry.startHour || normalizedHour < entry.endHour) {
-        return {
-          activity: entry.activity,
-          locationMarker: entry.locationMarker,
-          dialogueOverride: entry.dialogueOverride,
-        };
-      }
-    }
-  }
+  const entry =
+    schedule.entries.find(
+      (e) => e.event !== undefined && events.includes(e.event) && coversHour(e, normalizedHour)
+    ) ?? schedule.entries.find((e) => e.event === undefined && coversHour(e, normalizedHour));
+  if (!entry) return undefined;
 
-  return undefined;
+  return {
+    activity: entry.activity,
+    locationMarker: entry.locationMarker,
+    dialogueOverride: entry.dialogueOverride,
+  };
 }
 
 /**
@@ -99,6 +99,14 @@ export const preacher_schedule: ScheduleTemplate = {
     },
     { startHour: 6, endHour: 7, activity: 'eat', locationMarker: '{{home}}' },
     { startHour: 7, endHour: 9, activity: 'work', locationMarker: '{{church}}' },
+    {
+      startHour: 9,
+      endHour: 11,
+      activity: 'work',
+      locationMarker: '{{church}}',
+      dialogueOverride: 'sunday_sermon',
+      event: 'sunday_service',
+    },
     {
       startHour: 9,
       endHour: 12,
@@ -223,6 +231,29 @@ export const townsfolk_schedule: ScheduleTemplate = {
       activity: 'idle',
       locationMarker: '{{home}}',
     },
+    {
+      startHour: 9,
+      endHour: 11,
+      activity: 'pray',
+      locationMarker: '{{church}}',
+      event: 'sunday_service',
+    },
+    {
+      startHour: 9,
+      endHour: 22,
+      activity: 'socialize',
+      locationMarker: '{{town_center}}',
+      dialogueOverride: 'founders_day_fair',
+      event: 'founders_day',
+    },
+    {
+      startHour: 18,
+      endHour: 23,
+      activity: 'socialize',
+      locationMarker: '{{town_center}}',
+      dialogueOverride: 'harvest_dance',
+      event: 'harvest_dance',
+    },
     {
       startHour: 9,
       endHour: 11,
@@ -173,6 +173,10 @@ export {
   ActiveQuestSchema,
   createActiveQuest,
   getCurrentStage,
+  getNextStageIndex,
+  getSatisfiedExit,
+  getStageIndex,
+  hasTakenBranch,
   isCurrentStageComplete,
   isQuestComplete,
   // Utilities
@@ -186,6 +190,10 @@ export {
   type Quest,
   QuestSchema,
   type QuestStage,
+  type QuestStageExit,
+  QuestStageExitSchema,
+  type QuestStageRewards,
+  QuestStageRewardsSchema,
   QuestStageSchema,
   type QuestStatus,
   QuestStatusSchema,
@@ -196,6 +204,7 @@ export {
   validateObjective,
   validateQuest,
   validateQuestStage,
+  validateQuestStageGraph,
 } from './schemas/quest';
 
 // ============================================================================
@@ -228,10 +237,16 @@ export {
   SheriffMarcusCole,
 } from './npcs/index';
 export {
+  type CheckAttribute,
+  CheckAttributeSchema,
+  type CheckSkill,
+  CheckSkillSchema,
   // Types
   type ConditionType,
   // Dialogue schemas
   ConditionTypeSchema,
+  type DialogueCheck,
+  DialogueCheckSchema,
   type DialogueChoice,
   DialogueChoiceSchema,
   type DialogueCondition,
@@ -0,0 +1,121 @@
+/**
+ * Item Durability - Wear, effectiveness, jamming and repair rules
+ *
+ * Every inventory item carries a condition from 0 to 100. Weapons wear with
+ * each shot, armor wears as it absorbs hits, and worn gear is less effective.
+ * Repairs spend junk parts in the field or gold at a smithy.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CONDITION_MAX = 100;
+
+/** Condition lost per shot fired */
+export const WEAPON_WEAR_PER_SHOT = 0.5;
+
+/** Condition lost per melee swing */
+export const MELEE_WEAR_PER_SWING = 0.25;
+
+/** Condition lost per point of incoming damage, spread over worn armor */
+export const ARMOR_WEAR_PER_DAMAGE = 0.2;
+
+/** Fraction of a stat that remains at condition 0 */
+export const MIN_CONDITION_EFFECTIVENESS = 0.5;
+
+/** Firearms below this condition can jam */
+export const JAM_CONDITION_THRESHOLD = 40;
+
+/** Jam chance per shot at condition 0 */
+export const MAX_JAM_CHANCE = 0.25;
+
+/** Seconds spent clearing a jam */
+export const JAM_CLEAR_TIME = 1.2;
+
+/** Condition a field repair can reach with no repair skill */
+export const FIELD_REPAIR_BASE_CAP = 50;
+
+/**
+ * Junk items usable as repair parts, in the order they are spent, and the
+ * condition each restores before the repair skill is applied.
+ */
+export const REPAIR_PARTS: Record<string, number> = {
+  scrap_metal: 20,
+  oil_can: 15,
+  rusty_nail: 10,
+};
+
+/** Gold per point of condition restored, as a fraction of the item's value */
+export const SMITH_REPAIR_RATE = 0.01;
+
+// ============================================================================
+// WEAR
+// ============================================================================
+
+export function clampCondition(condition: number): number {
+  return Math.max(0, Math.min(CONDITION_MAX, condition));
+}
+
+/**
+ * Multiplier applied to damage, defense and accuracy for a given condition.
+ * Scales linearly from MIN_CONDITION_EFFECTIVENESS at 0 to 1 at full.
+ */
+export function getConditionMultiplier(condition: number): number {
+  const fraction = clampCondition(condition) / CONDITION_MAX;
+  return MIN_CONDITION_EFFECTIVENESS + (1 - MIN_CONDITION_EFFECTIVENESS) * fraction;
+}
+
+/**
+ * Chance a firearm jams on a shot. Zero at or above the threshold, rising
+ * linearly to MAX_JAM_CHANCE at condition 0.
+ */
+export function getJamChance(condition: number): number {
+  const c = clampCondition(condition);
+  if (c >= JAM_CONDITION_THRESHOLD) return 0;
+  return MAX_JAM_CHANCE * (1 - c / JAM_CONDITION_THRESHOLD);
+}
+
+/**
+ * Condition each equipped armor piece loses from one hit.
+ */
+export function getArmorWear(damage: number, pieces: number): number {
+  if (pieces <= 0 || damage <= 0) return 0;
+  return (damage * ARMOR_WEAR_PER_DAMAGE) / pieces;
+}
+
+// ============================================================================
+// REPAIR
+// ============================================================================
+
+/**
+ * Highest condition a field repair can reach with a given repair skill.
+ */
+export function getFieldRepairCap(repairSkill: number): number {
+  const skill = Math.max(0, Math.min(100, repairSkill));
+  return Math.min(CONDITION_MAX, FIELD_REPAIR_BASE_CAP + skill / 2);
+}
+
+/**
+ * Condition restored by one part, scaled by repair skill (half at 0, 1.5x at 100).
+ */
+export function getFieldRepairAmount(partValue: number, repairSkill: number): number {
+  const skill = Math.max(0, Math.min(100, repairSkill));
+  return partValue * (0.5 + skill / 100);
+}
+
+/**
+ * First repair part the player is carrying, by REPAIR_PARTS order.
+ */
+export function findRepairPart(getItemCount: (itemId: string) => number): string | null {
+  return Object.keys(REPAIR_PARTS).find((itemId) => getItemCount(itemId) > 0) ?? null;
+}
+
+/**
+ * Gold a smith charges to restore an item to full condition.
+ */
+export function getSmithRepairCost(itemValue: number, condition: number, modifier = 1): number {
+  const missing = CONDITION_MAX - clampCondition(condition);
+  if (missing <= 0) return 0;
+  return Math.max(1, Math.ceil(itemValue * missing * SMITH_REPAIR_RATE * modifier));
+}
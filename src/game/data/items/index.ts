@@ -10,6 +10,32 @@ import type { BaseItem } from '../schemas/item.ts';
 // Re-export types for external use
 export type { ArmorItem, BaseItem, ConsumableItem, WeaponItem } from '../schemas/item.ts';
 
+export {
+  ARMOR_WEAR_PER_DAMAGE,
+  CONDITION_MAX,
+  clampCondition,
+  findRepairPart,
+  getArmorWear,
+  getConditionMultiplier,
+  getFieldRepairAmount,
+  getFieldRepairCap,
+  getJamChance,
+  getSmithRepairCost,
+  JAM_CLEAR_TIME,
+  MELEE_WEAR_PER_SWING,
+  REPAIR_PARTS,
+  WEAPON_WEAR_PER_SHOT,
+} from './durability.ts';
+
+export { getRecipe, RECIPES, WORKBENCH_ARCHETYPES } from './recipes.ts';
+export {
+  applyWeaponMods,
+  getWeaponMod,
+  getWeaponNoiseMultiplier,
+  WEAPON_MOD_ITEMS,
+  WEAPON_MODS,
+} from './weaponMods.ts';
+
 import { WEAPONS_0 } from './weapons0.ts';
 import { WEAPONS_1 } from './weapons1.ts';
 import { CONSUMABLES_0 } from './consumables0.ts';
@@ -19,6 +45,7 @@ import { CURRENCY } from './currency.ts';
 import { SUPPLIES } from './supplies.ts';
 import { JUNK } from './junk.ts';
 import { AMMO } from './ammo.ts';
+import { WEAPON_MOD_ITEMS } from './weaponMods.ts';
 
 const WEAPONS = [...WEAPONS_0, ...WEAPONS_1];
 const CONSUMABLES = [...CONSUMABLES_0, ...CONSUMABLES_1];
@@ -27,11 +54,18 @@ const CONSUMABLES = [...CONSUMABLES_0, ...CONSUMABLES_1];
 export const ITEM_LIBRARY: Record<string, BaseItem> = {};
 
 // Populate the library
-[...WEAPONS, ...CONSUMABLES, ...KEY_ITEMS, ...CURRENCY, ...SUPPLIES, ...JUNK, ...AMMO].forEach(
-  (item) => {
-    ITEM_LIBRARY[item.id] = item;
-  }
-);
+[
+  ...WEAPONS,
+  ...CONSUMABLES,
+  ...KEY_ITEMS,
+  ...CURRENCY,
+  ...SUPPLIES,
+  ...JUNK,
+  ...AMMO,
+  ...WEAPON_MOD_ITEMS,
+].forEach((item) => {
+  ITEM_LIBRARY[item.id] = item;
+});
 
 /**
  * Get an item definition by ID
@@ -83,6 +117,7 @@ export const ALL_CURRENCY = CURRENCY;
 export const ALL_SUPPLIES = SUPPLIES;
 export const ALL_JUNK = JUNK;
 export const ALL_AMMO = AMMO;
+export const ALL_WEAPON_MODS = WEAPON_MOD_ITEMS;
 
 // Default starter inventory for new games
 export const STARTER_INVENTORY = [
@@ -0,0 +1,167 @@
+/**
+ * Crafting Recipes - What junk and supplies can be turned into
+ *
+ * Recipes are validated against RecipeSchema when the module loads, so a
+ * malformed entry fails fast instead of at the workbench.
+ */
+
+import type { Recipe } from '../schemas/item.ts';
+import { validateRecipe } from '../schemas/item.ts';
+
+/** Building archetypes whose interiors count as a workbench */
+export const WORKBENCH_ARCHETYPES = ['blacksmith'];
+
+export const RECIPES: Recipe[] = [
+  // Field medicine
+  {
+    id: 'recipe_medical_kit',
+    name: 'Medical Kit',
+    description: 'Bundle bandages and laudanum with whiskey to clean the wound.',
+    ingredients: [
+      { itemId: 'bandages', quantity: 2 },
+      { itemId: 'laudanum', quantity: 1 },
+      { itemId: 'whiskey', quantity: 1 },
+    ],
+    output: { itemId: 'medical_kit', quantity: 1 },
+    skill: 'medicine',
+    skillLevel: 25,
+    tags: ['medical'],
+  },
+
+  // Campfire cooking
+  {
+    id: 'recipe_hot_meal',
+    name: 'Hot Meal',
+    description: 'Beans and jerky stewed over the fire.',
+    ingredients: [
+      { itemId: 'beans', quantity: 1 },
+      { itemId: 'dried_jerky', quantity: 1 },
+    ],
+    output: { itemId: 'hot_meal', quantity: 1 },
+    station: 'campfire',
+    tags: ['food'],
+  },
+  {
+    id: 'recipe_coffee',
+    name: 'Trail Coffee',
+    description: 'Grind the beans and boil them strong enough to stand a spoon in.',
+    ingredients: [{ itemId: 'coffee_beans', quantity: 1 }],
+    output: { itemId: 'coffee', quantity: 2 },
+    station: 'campfire',
+    tags: ['food'],
+  },
+
+  // Workbench tools and blades
+  {
+    id: 'recipe_lantern',
+    name: 'Lantern',
+    description: 'An oil reservoir in a bottle, with a scrap-metal cage around it.',
+    ingredients: [
+      { itemId: 'empty_bottle', quantity: 1 },
+      { itemId: 'oil_can', quantity: 1 },
+      { itemId: 'scrap_metal', quantity: 1 },
+    ],
+    output: { itemId: 'lantern', quantity: 1 },
+    station: 'workbench',
+    skill: 'repair',
+    skillLevel: 10,
+    tags: ['tool'],
+  },
+  {
+    id: 'recipe_reinforced_knife',
+    name: 'Reinforced Knife',
+    description: 'Fold scrap steel over a hunting knife and regrind the edge.',
+    ingredients: [
+      { itemId: 'hunting_knife', quantity: 1 },
+      { itemId: 'scrap_metal', quantity: 3 },
+    ],
+    output: { itemId: 'reinforced_knife', quantity: 1 },
+    station: 'workbench',
+    skill: 'repair',
+    skillLevel: 30,
+    tags: ['weapon'],
+  },
+
+  // Gunsmithing
+  {
+    id: 'recipe_mod_scope',
+    name: 'Brass Scope',
+    description: 'Grind bottle glass into lenses and seat them in a scrap tube.',
+    ingredients: [
+      { itemId: 'empty_bottle', quantity: 2 },
+      { itemId: 'scrap_metal', quantity: 2 },
+    ],
+    output: { itemId: 'mod_scope', quantity: 1 },
+    station: 'workbench',
+    skill: 'repair',
+    skillLevel: 35,
+    tags: ['weapon_mod'],
+  },
+  {
+    id: 'recipe_mod_extended_cylinder',
+    name: 'Extended Cylinder',
+    description: 'Bore out a heavier cylinder from scrap stock.',
+    ingredients: [
+      { itemId: 'scrap_metal', quantity: 4 },
+      { itemId: 'oil_can', quantity: 1 },
+    ],
+    output: { itemId: 'mod_extended_cylinder', quantity: 1 },
+    station: 'workbench',
+    skill: 'repair',
+    skillLevel: 45,
+    tags: ['weapon_mod'],
+  },
+  {
+    id: 'recipe_mod_hair_trigger',
+    name: 'Hair Trigger',
+    description: 'Steal the mainspring from a pocket watch for a lighter pull.',
+    ingredients: [
+      { itemId: 'pocket_watch', quantity: 1 },
+      { itemId: 'oil_can', quantity: 1 },
+    ],
+    output: { itemId: 'mod_hair_trigger', quantity: 1 },
+    station: 'workbench',
+    skill: 'repair',
+    skillLevel: 30,
+    tags: ['weapon_mod'],
+  },
+  {
+    id: 'recipe_mod_choke',
+    name: 'Shotgun Choke',
+    description: 'Hammer a tapered sleeve from scrap and nails.',
+    ingredients: [
+      { itemId: 'scrap_metal', quantity: 3 },
+      { itemId: 'rusty_nail', quantity: 2 },
+    ],
+    output: { itemId: 'mod_choke', quantity: 1 },
+    station: 'workbench',
+    skill: 'repair',
+    skillLevel: 25,
+    tags: ['weapon_mod'],
+  },
+  {
+    id: 'recipe_mod_baffle',
+    name: 'Muzzle Baffle',
+    description: 'Roll a scrap sleeve and pack it tight with wadded newsprint.',
+    ingredients: [
+      { itemId: 'scrap_metal', quantity: 2 },
+      { itemId: 'old_newspaper', quantity: 3 },
+    ],
+    output: { itemId: 'mod_baffle', quantity: 1 },
+    station: 'workbench',
+    skill: 'repair',
+    skillLevel: 40,
+    tags: ['weapon_mod'],
+  },
+].map(validateRecipe);
+
+const RECIPES_BY_ID: Record<string, Recipe> = Object.fromEntries(
+  RECIPES.map((recipe) => [recipe.id, recipe])
+);
+
+/**
+ * Get a recipe by ID
+ */
+export function getRecipe(recipeId: string): Recipe | undefined {
+  return RECIPES_BY_ID[recipeId];
+}
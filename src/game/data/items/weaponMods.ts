@@ -0,0 +1,176 @@
+/**
+ * Weapon Mods - Gunsmithing parts and the stat changes they make
+ *
+ * Each mod is an item the player crafts or finds, plus a definition of the
+ * slot it occupies, the weapons it fits and how it changes WeaponStats.
+ */
+
+import type { BaseItem, WeaponMod, WeaponStats } from '../schemas/item.ts';
+import { validateWeaponMod } from '../schemas/item.ts';
+
+export const WEAPON_MOD_ITEMS: BaseItem[] = [
+  {
+    id: 'mod_scope',
+    name: 'Brass Scope',
+    description: 'A ground-glass sight in a brass tube. Mounts on a rifle for longer shots.',
+    type: 'junk',
+    rarity: 'uncommon',
+    value: 30,
+    weight: 0.5,
+    stackable: true,
+    maxStack: 5,
+    usable: false,
+    droppable: true,
+    sellable: true,
+    icon: 'scope',
+    tags: ['weapon_mod', 'sight'],
+    effects: [],
+  },
+  {
+    id: 'mod_extended_cylinder',
+    name: 'Extended Cylinder',
+    description: 'An oversized eight-chamber cylinder. Slower to load, but two more shots.',
+    type: 'junk',
+    rarity: 'uncommon',
+    value: 35,
+    weight: 0.6,
+    stackable: true,
+    maxStack: 5,
+    usable: false,
+    droppable: true,
+    sellable: true,
+    icon: 'cylinder',
+    tags: ['weapon_mod', 'cylinder'],
+    effects: [],
+  },
+  {
+    id: 'mod_hair_trigger',
+    name: 'Hair Trigger',
+    description: 'A filed-down sear and a watch spring. Fires faster, and not always when you mean it to.',
+    type: 'junk',
+    rarity: 'uncommon',
+    value: 25,
+    weight: 0.1,
+    stackable: true,
+    maxStack: 5,
+    usable: false,
+    droppable: true,
+    sellable: true,
+    icon: 'trigger',
+    tags: ['weapon_mod', 'trigger'],
+    effects: [],
+  },
+  {
+    id: 'mod_choke',
+    name: 'Shotgun Choke',
+    description: 'A tapered muzzle insert that keeps buckshot together a little longer.',
+    type: 'junk',
+    rarity: 'common',
+    value: 20,
+    weight: 0.3,
+    stackable: true,
+    maxStack: 5,
+    usable: false,
+    droppable: true,
+    sellable: true,
+    icon: 'choke',
+    tags: ['weapon_mod', 'barrel'],
+    effects: [],
+  },
+  {
+    id: 'mod_baffle',
+    name: 'Muzzle Baffle',
+    description: 'A tube of packed paper wads over the muzzle. Muffles the report, at the cost of some punch.',
+    type: 'junk',
+    rarity: 'uncommon',
+    value: 30,
+    weight: 0.4,
+    stackable: true,
+    maxStack: 5,
+    usable: false,
+    droppable: true,
+    sellable: true,
+    icon: 'baffle',
+    tags: ['weapon_mod', 'barrel'],
+    effects: [],
+  },
+];
+
+export const WEAPON_MODS: WeaponMod[] = [
+  {
+    id: 'mod_scope',
+    slot: 'sight',
+    weaponTypes: ['rifle'],
+    modifiers: { accuracy: 15, range: 15 },
+  },
+  {
+    id: 'mod_extended_cylinder',
+    slot: 'cylinder',
+    weaponTypes: ['revolver'],
+    modifiers: { clipSize: 2, reloadTime: 0.5 },
+  },
+  {
+    id: 'mod_hair_trigger',
+    slot: 'trigger',
+    weaponTypes: ['revolver', 'rifle'],
+    modifiers: { fireRate: 0.3, accuracy: -5 },
+  },
+  {
+    id: 'mod_choke',
+    slot: 'barrel',
+    weaponTypes: ['shotgun'],
+    modifiers: { accuracy: 10, range: 5 },
+  },
+  {
+    id: 'mod_baffle',
+    slot: 'barrel',
+    weaponTypes: ['revolver', 'rifle'],
+    modifiers: { damage: -3, range: -5 },
+    noise: 0.4,
+  },
+].map(validateWeaponMod);
+
+const WEAPON_MODS_BY_ID: Record<string, WeaponMod> = Object.fromEntries(
+  WEAPON_MODS.map((mod) => [mod.id, mod])
+);
+
+/**
+ * Get a weapon mod definition by its item ID
+ */
+export function getWeaponMod(modId: string): WeaponMod | undefined {
+  return WEAPON_MODS_BY_ID[modId];
+}
+
+/**
+ * Combined multiplier the fitted mods put on how far a weapon can be heard.
+ */
+export function getWeaponNoiseMultiplier(modIds: readonly string[] = []): number {
+  return modIds.reduce((noise, modId) => noise * (WEAPON_MODS_BY_ID[modId]?.noise ?? 1), 1);
+}
+
+/**
+ * Apply fitted mods to a weapon's base stats. Unknown mod IDs are ignored.
+ */
+export function applyWeaponMods(stats: WeaponStats, modIds: readonly string[] = []): WeaponStats {
+  const result = { ...stats };
+  for (const modId of modIds) {
+    const mod = WEAPON_MODS_BY_ID[modId];
+    if (!mod) continue;
+    const m = mod.modifiers;
+    result.damage += m.damage ?? 0;
+    result.range += m.range ?? 0;
+    result.accuracy += m.accuracy ?? 0;
+    result.fireRate += m.fireRate ?? 0;
+    result.clipSize += m.clipSize ?? 0;
+    result.reloadTime += m.reloadTime ?? 0;
+  }
+  return {
+    ...result,
+    damage: Math.max(1, result.damage),
+    range: Math.max(0, result.range),
+    accuracy: Math.max(0, Math.min(100, result.accuracy)),
+    fireRate: Math.max(0, result.fireRate),
+    clipSize: Math.max(0, result.clipSize),
+    reloadTime: Math.max(0, result.reloadTime),
+  };
+}
@@ -86,7 +86,7 @@ export const DocChenWei: NPCDefinition = {
   description:
     'An older Chinese man with thoughtful eyes and steady hands. His small office is filled with both western medicine and traditional remedies.',
   portraitId: 'doc_chen',
-  dialogueTreeIds: ['doc_chen_main'],
+  dialogueTreeIds: ['doc_chen_main', 'doc_chen_companion', 'doc_chen_barks'],
   primaryDialogueId: 'doc_chen_main',
   essential: true,
   questGiver: true,
@@ -158,7 +158,7 @@ export const DiamondbackDolores: NPCDefinition = {
   description:
     'A striking woman with sun-darkened skin and cold, calculating eyes. A coiled rattlesnake tattoo winds up her neck. Her presence commands immediate attention.',
   portraitId: 'diamondback',
-  dialogueTreeIds: ['diamondback_main'],
+  dialogueTreeIds: ['diamondback_main', 'diamondback_companion', 'diamondback_barks'],
   primaryDialogueId: 'diamondback_main',
   essential: true,
   questGiver: true,
@@ -192,7 +192,7 @@ export const OldSamuelIronpick: NPCDefinition = {
   description:
     'A grizzled old miner with a silver beard and hands like leather. His eyes hold both wisdom and deep sorrow. He carries himself with quiet dignity despite his worn clothes.',
   portraitId: 'samuel_ironpick',
-  dialogueTreeIds: ['samuel_ironpick_main'],
+  dialogueTreeIds: ['samuel_ironpick_main', 'samuel_ironpick_companion', 'samuel_ironpick_barks'],
   primaryDialogueId: 'samuel_ironpick_main',
   essential: true,
   questGiver: true,
@@ -0,0 +1,156 @@
+/**
+ * "Diamondback" Dolores Vega - Companion Dialogue
+ *
+ * Talking the Copperhead leader into riding with the player, her talk on
+ * the trail, and the remarks she makes about where they go and what they do.
+ */
+
+import type { DialogueNode, DialogueTree } from '../../../schemas/npc.ts';
+
+/** Recruit nodes, reached from her trusted greeting in the main tree */
+export const diamondback_recruit_nodes: DialogueNode[] = [
+{
+      id: 'companion_ask',
+      text: "*She studies you, thumb resting on the hammer of her Schofield* Ride with you? My people can spare me a while, I reckon. But I don't take orders and I don't kiss company boots. You go soft on IVRC, I'm gone.",
+      expression: 'suspicious',
+      choices: [
+        {
+          text: "Wouldn't have it any other way.",
+          nextNodeId: 'companion_outcome',
+          effects: [{ type: 'recruit_companion' }],
+        },
+        {
+          text: 'Maybe this was a bad idea.',
+          nextNodeId: null,
+        },
+      ],
+    },
+{
+      id: 'companion_outcome',
+      text: '*Diamondback looks over her shoulder at the camp, then back at you.*',
+      choices: [
+        {
+          text: 'Well?',
+          nextNodeId: 'companion_joined',
+          conditions: [{ type: 'flag_set', target: 'companion_joined' }],
+        },
+        {
+          text: 'Some other time.',
+          nextNodeId: null,
+          conditions: [{ type: 'flag_not_set', target: 'companion_joined' }],
+        },
+      ],
+    },
+{
+      id: 'companion_joined',
+      text: "*She whistles sharp and a lieutenant comes running* Canyon's yours till I'm back. *She turns to you and grins* Let's go make some noise.",
+      expression: 'friendly',
+      choices: [
+        {
+          text: 'After you.',
+          nextNodeId: null,
+        },
+      ],
+    },
+];
+
+export const DiamondbackCompanionDialogue: DialogueTree = {
+  id: 'diamondback_companion',
+  name: 'Diamondback Dolores - On the Road',
+  description: 'What Diamondback says while she rides with the player',
+  tags: ['companion'],
+
+  entryPoints: [
+    {
+      nodeId: 'road_warm',
+      conditions: [{ type: 'approval_gte', value: 70 }],
+      priority: 5,
+    },
+    {
+      nodeId: 'road_greeting',
+      conditions: [],
+      priority: 0,
+    },
+  ],
+
+  nodes: [
+    {
+      id: 'road_warm',
+      text: "*She tips her hat back* You're all right, you know that? Don't let it go to your head. What is it?",
+      expression: 'friendly',
+      choices: [
+        {
+          text: "Let's see what you're carrying.",
+          nextNodeId: null,
+          effects: [{ type: 'trade_companion' }],
+        },
+        {
+          text: 'Time we parted ways.',
+          nextNodeId: 'road_parting',
+        },
+        {
+          text: 'Just making sure you were still there.',
+          nextNodeId: null,
+        },
+      ],
+    },
+    {
+      id: 'road_greeting',
+      text: "*She keeps her eyes on the ridgeline* Talk fast. I don't like standin' still out here.",
+      choices: [
+        {
+          text: "Let's see what you're carrying.",
+          nextNodeId: null,
+          effects: [{ type: 'trade_companion' }],
+        },
+        {
+          text: 'Time we parted ways.',
+          nextNodeId: 'road_parting',
+        },
+        {
+          text: 'Nothing.',
+          nextNodeId: null,
+        },
+      ],
+    },
+    {
+      id: 'road_parting',
+      text: "Suit yourself. My people'll be glad to have me back. You want me again, you know where the Copperheads den.",
+      choices: [
+        {
+          text: 'Watch your back, Dolores.',
+          nextNodeId: null,
+          effects: [{ type: 'dismiss_companion' }],
+        },
+        {
+          text: 'Forget it. Stick around.',
+          nextNodeId: null,
+        },
+      ],
+    },
+  ],
+};
+
+export const DiamondbackBarkDialogue: DialogueTree = {
+  id: 'diamondback_barks',
+  name: 'Diamondback Dolores - Barks',
+  description: 'One-line remarks Diamondback makes while riding with the player',
+  tags: ['barks'],
+
+  entryPoints: [{ nodeId: 'bark_recruited', conditions: [], priority: 0 }],
+
+  nodes: [
+    { id: 'bark_recruited', text: "Try to keep up. And don't shoot anything I'm aimin' at.", tags: ['recruited'], choices: [] },
+    { id: 'bark_dismissed', text: "Don't get yourself killed. I'd have to hear about it.", tags: ['dismissed'], choices: [] },
+    { id: 'bark_town_1', text: 'Too many windows. Too many badges. Let\'s not linger.', tags: ['town'], choices: [] },
+    { id: 'bark_town_2', text: "See that company clerk? Robbed his payroll coach once. He don't recognize me without the bandana.", tags: ['town'], choices: [] },
+    { id: 'bark_wilderness_1', text: 'Open country. Now I can breathe.', tags: ['wilderness'], choices: [] },
+    { id: 'bark_wilderness_2', text: 'Watch the high ground. That\'s where I\'d be.', tags: ['wilderness'], choices: [] },
+    { id: 'bark_approve_1', text: "Ha! That's more like it.", tags: ['approve'], choices: [] },
+    { id: 'bark_approve_2', text: 'Knew there was some spine in you.', tags: ['approve'], choices: [] },
+    { id: 'bark_disapprove_1', text: "*She spits in the dirt* You sound like a company man.", tags: ['disapprove'], choices: [] },
+    { id: 'bark_disapprove_2', text: "Yes sir, no sir. Didn't figure you for a lapdog.", tags: ['disapprove'], choices: [] },
+    { id: 'bark_warning', text: "I'm startin' to wonder whose side you're on. Don't make me find out.", tags: ['warning'], choices: [] },
+    { id: 'bark_leaving', text: "I'm done. I rode out of the company's pocket once, I ain't climbing into yours.", tags: ['leaving'], choices: [] },
+  ],
+};
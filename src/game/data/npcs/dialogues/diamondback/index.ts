@@ -14,6 +14,11 @@ import { diamondback_nodes_2 } from './nodes2.ts';
 import { diamondback_nodes_3 } from './nodes3.ts';
 import { diamondback_nodes_4 } from './nodes4.ts';
 import { diamondback_nodes_5 } from './nodes5.ts';
+import {
+  DiamondbackBarkDialogue,
+  DiamondbackCompanionDialogue,
+  diamondback_recruit_nodes,
+} from './companion.ts';
 
 export const DiamondbackMainDialogue: DialogueTree = {
   id: 'diamondback_main',
@@ -51,7 +56,12 @@ export const DiamondbackMainDialogue: DialogueTree = {
       ...diamondback_nodes_3,
       ...diamondback_nodes_4,
       ...diamondback_nodes_5,
+      ...diamondback_recruit_nodes,
     ],
 };
 
-export const DiamondbackDialogues = [DiamondbackMainDialogue];
+export const DiamondbackDialogues = [
+  DiamondbackMainDialogue,
+  DiamondbackCompanionDialogue,
+  DiamondbackBarkDialogue,
+];
@@ -89,6 +89,10 @@ export const diamondback_nodes_4: DialogueNode[] = [
           text: 'Any news from your end?',
           nextNodeId: 'copperhead_news',
         },
+        {
+          text: 'Ride with me a while.',
+          nextNodeId: 'companion_ask',
+        },
         {
           text: 'I may have a lead on those documents.',
           nextNodeId: 'documents_lead',
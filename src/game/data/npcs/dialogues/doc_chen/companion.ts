@@ -0,0 +1,156 @@
+/**
+ * Doc Chen Wei - Companion Dialogue
+ *
+ * Asking the doctor to ride along, what he says to the player on the road,
+ * and the lines he drops about where they go and what they do.
+ */
+
+import type { DialogueNode, DialogueTree } from '../../../schemas/npc.ts';
+
+/** Recruit nodes, reached from his return greeting in the main tree */
+export const doc_chen_recruit_nodes: DialogueNode[] = [
+{
+      id: 'companion_ask',
+      text: '*He sets down his mortar and considers you for a long moment* You want a doctor at your side. Sensible. But I will not stand by while you shoot men who could have been talked down. If I come, I come as a healer first.',
+      expression: 'thoughtful',
+      choices: [
+        {
+          text: 'That suits me. Get your bag.',
+          nextNodeId: 'companion_outcome',
+          effects: [{ type: 'recruit_companion' }],
+        },
+        {
+          text: 'Forget I asked.',
+          nextNodeId: null,
+        },
+      ],
+    },
+{
+      id: 'companion_outcome',
+      text: '*Doc Chen glances around the surgery, then back at you.*',
+      choices: [
+        {
+          text: 'Ready?',
+          nextNodeId: 'companion_joined',
+          conditions: [{ type: 'flag_set', target: 'companion_joined' }],
+        },
+        {
+          text: 'Another time, then.',
+          nextNodeId: null,
+          conditions: [{ type: 'flag_not_set', target: 'companion_joined' }],
+        },
+      ],
+    },
+{
+      id: 'companion_joined',
+      text: '*He snaps his bag shut and takes his coat from the hook* The surgery will keep. Lead on, and try not to give me too much work.',
+      expression: 'friendly',
+      choices: [
+        {
+          text: "I'll do my best.",
+          nextNodeId: null,
+        },
+      ],
+    },
+];
+
+export const DocChenCompanionDialogue: DialogueTree = {
+  id: 'doc_chen_companion',
+  name: 'Doc Chen Wei - On the Road',
+  description: 'What Doc Chen says while he travels with the player',
+  tags: ['companion'],
+
+  entryPoints: [
+    {
+      nodeId: 'road_warm',
+      conditions: [{ type: 'approval_gte', value: 70 }],
+      priority: 5,
+    },
+    {
+      nodeId: 'road_greeting',
+      conditions: [],
+      priority: 0,
+    },
+  ],
+
+  nodes: [
+    {
+      id: 'road_warm',
+      text: '*Doc Chen falls into step beside you* I confess I had doubts when we set out. Fewer now. What do you need?',
+      expression: 'friendly',
+      choices: [
+        {
+          text: "Let's see what you're carrying.",
+          nextNodeId: null,
+          effects: [{ type: 'trade_companion' }],
+        },
+        {
+          text: 'Time we parted ways, Doc.',
+          nextNodeId: 'road_parting',
+        },
+        {
+          text: 'Nothing. Just glad of the company.',
+          nextNodeId: null,
+        },
+      ],
+    },
+    {
+      id: 'road_greeting',
+      text: '*He adjusts the strap of his medical bag* Yes?',
+      choices: [
+        {
+          text: "Let's see what you're carrying.",
+          nextNodeId: null,
+          effects: [{ type: 'trade_companion' }],
+        },
+        {
+          text: 'Time we parted ways, Doc.',
+          nextNodeId: 'road_parting',
+        },
+        {
+          text: 'Never mind.',
+          nextNodeId: null,
+        },
+      ],
+    },
+    {
+      id: 'road_parting',
+      text: 'Very well. I have patients waiting in Dusty Springs in any case. You know where to find me.',
+      choices: [
+        {
+          text: 'Take care of yourself.',
+          nextNodeId: null,
+          effects: [{ type: 'dismiss_companion' }],
+        },
+        {
+          text: 'On second thought, stay.',
+          nextNodeId: null,
+        },
+      ],
+    },
+  ],
+};
+
+export const DocChenBarkDialogue: DialogueTree = {
+  id: 'doc_chen_barks',
+  name: 'Doc Chen Wei - Barks',
+  description: 'One-line remarks Doc Chen makes while travelling with the player',
+  tags: ['barks'],
+
+  entryPoints: [{ nodeId: 'bark_recruited', conditions: [], priority: 0 }],
+
+  nodes: [
+    { id: 'bark_recruited', text: 'I have packed bandages enough for both of us. Let us hope they stay packed.', tags: ['recruited'], choices: [] },
+    { id: 'bark_dismissed', text: 'Mind your wounds. Come see me before they fester.', tags: ['dismissed'], choices: [] },
+    { id: 'bark_town_1', text: 'Towns tell you everything, if you watch who avoids whose eyes.', tags: ['town'], choices: [] },
+    { id: 'bark_town_2', text: 'Company men on the corner again. Keep your voice down.', tags: ['town'], choices: [] },
+    { id: 'bark_wilderness_1', text: 'Creosote, sage, yarrow... half my pharmacy grows out here, if you know where to look.', tags: ['wilderness'], choices: [] },
+    { id: 'bark_wilderness_2', text: 'Drink before you are thirsty. The desert does not give second warnings.', tags: ['wilderness'], choices: [] },
+    { id: 'bark_approve_1', text: 'That was well done. Restraint is rarer than courage.', tags: ['approve'], choices: [] },
+    { id: 'bark_approve_2', text: '*He nods slowly* Good. There is hope for this territory yet.', tags: ['approve'], choices: [] },
+    { id: 'bark_disapprove_1', text: 'There was a gentler way. There usually is.', tags: ['disapprove'], choices: [] },
+    { id: 'bark_disapprove_2', text: '*He says nothing, but his jaw tightens.*', tags: ['disapprove'], choices: [] },
+    { id: 'bark_warning', text: 'I did not leave my surgery to watch you become the thing we are fighting. Think hard on that.', tags: ['warning'], choices: [] },
+    { id: 'bark_leaving', text: 'Enough. I have stitched up too many of your victims. Find yourself another doctor.', tags: ['leaving'], choices: [] },
+  ],
+};
@@ -11,6 +11,11 @@ import type { DialogueTree } from '../../../schemas/npc.ts';
 import { doc_chen_nodes_0 } from './nodes0.ts';
 import { doc_chen_nodes_1 } from './nodes1.ts';
 import { doc_chen_nodes_2 } from './nodes2.ts';
+import {
+  DocChenBarkDialogue,
+  DocChenCompanionDialogue,
+  doc_chen_recruit_nodes,
+} from './companion.ts';
 
 export const DocChenMainDialogue: DialogueTree = {
   id: 'doc_chen_main',
@@ -40,7 +45,12 @@ export const DocChenMainDialogue: DialogueTree = {
       ...doc_chen_nodes_0,
       ...doc_chen_nodes_1,
       ...doc_chen_nodes_2,
+      ...doc_chen_recruit_nodes,
     ],
 };
 
-export const DocChenDialogues = [DocChenMainDialogue];
+export const DocChenDialogues = [
+  DocChenMainDialogue,
+  DocChenCompanionDialogue,
+  DocChenBarkDialogue,
+];
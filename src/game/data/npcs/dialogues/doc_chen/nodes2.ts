@@ -133,6 +133,10 @@ export const doc_chen_nodes_2: DialogueNode[] = [
           effects: [{ type: 'open_shop', target: 'doc_chen_shop' }],
           tags: ['shop'],
         },
+        {
+          text: 'Ride with me a while, Doc.',
+          nextNodeId: 'companion_ask',
+        },
         {
           text: 'Just checking in.',
           nextNodeId: null,
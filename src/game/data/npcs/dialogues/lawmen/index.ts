@@ -0,0 +1,183 @@
+/**
+ * Lawmen - Dialogue Trees
+ *
+ * What any sheriff or deputy says to a wanted player: pay the fine, serve
+ * the time, try a bribe, or refuse and be shot at. Opened by the law
+ * system rather than from an NPC's own dialogue list, so it works for
+ * every lawman in every town.
+ */
+
+import type { DialogueTree } from '../../../schemas/npc.ts';
+
+export const LawConfrontationDialogue: DialogueTree = {
+  id: 'law_confrontation',
+  name: 'Lawman - Wanted',
+  description: 'A lawman stops the player over the bounty on their head',
+  tags: ['authority', 'law'],
+
+  entryPoints: [
+    {
+      nodeId: 'law_stop',
+      conditions: [{ type: 'bounty_gte', value: 1 }],
+      priority: 10,
+    },
+    {
+      nodeId: 'law_clear',
+      conditions: [],
+      priority: 0,
+    },
+  ],
+
+  nodes: [
+    {
+      id: 'law_stop',
+      text: "That's far enough. There's paper out on you in this town, and I mean to see it settled. How's it going to be?",
+      expression: 'stern',
+      conditions: [],
+      nextNodeId: null,
+      choiceDelay: 0,
+      onEnterEffects: [],
+      tags: [],
+      choices: [
+        {
+          text: "I'll pay the fine.",
+          nextNodeId: 'law_outcome',
+          conditions: [],
+          effects: [{ type: 'settle_bounty', stringValue: 'fine' }],
+          tags: ['lawful'],
+        },
+        {
+          text: "I'll serve my time.",
+          nextNodeId: 'law_outcome',
+          conditions: [],
+          effects: [{ type: 'settle_bounty', stringValue: 'jail' }],
+          tags: ['lawful'],
+        },
+        {
+          text: 'Could be we forget this ever happened.',
+          nextNodeId: null,
+          conditions: [],
+          effects: [],
+          tags: ['bribe'],
+          check: {
+            stat: 'speech',
+            difficulty: 45,
+            successNodeId: 'law_outcome',
+            failureNodeId: 'law_bribe_refused',
+            successEffects: [{ type: 'settle_bounty', stringValue: 'bribe' }],
+          },
+        },
+        {
+          text: "You'll have to take me.",
+          nextNodeId: 'law_resisted',
+          conditions: [],
+          effects: [{ type: 'resist_arrest' }],
+          tags: ['aggressive'],
+        },
+      ],
+    },
+    {
+      id: 'law_outcome',
+      text: 'The lawman makes a note in the book and looks back up at you.',
+      conditions: [],
+      nextNodeId: null,
+      choiceDelay: 0,
+      onEnterEffects: [],
+      tags: [],
+      choices: [
+        {
+          text: 'We square?',
+          nextNodeId: 'law_square',
+          conditions: [{ type: 'flag_set', target: 'bounty_settled' }],
+          effects: [],
+          tags: [],
+        },
+        {
+          text: 'Seems that fell through.',
+          nextNodeId: 'law_stop',
+          conditions: [{ type: 'flag_not_set', target: 'bounty_settled' }],
+          effects: [],
+          tags: [],
+        },
+      ],
+    },
+    {
+      id: 'law_square',
+      text: "Square. Your slate's clean, so keep it that way. I'd hate to see you back here.",
+      expression: 'neutral',
+      conditions: [],
+      nextNodeId: null,
+      choiceDelay: 0,
+      onEnterEffects: [],
+      tags: [],
+      choices: [
+        {
+          text: "You won't.",
+          nextNodeId: null,
+          conditions: [],
+          effects: [],
+          tags: [],
+        },
+      ],
+    },
+    {
+      id: 'law_bribe_refused',
+      text: "Try that again and it'll cost you more than money. Now, are you settling up or not?",
+      expression: 'angry',
+      conditions: [],
+      nextNodeId: null,
+      choiceDelay: 0,
+      onEnterEffects: [],
+      tags: [],
+      choices: [
+        {
+          text: 'All right, all right.',
+          nextNodeId: 'law_stop',
+          conditions: [],
+          effects: [],
+          tags: [],
+        },
+      ],
+    },
+    {
+      id: 'law_resisted',
+      text: 'Have it your way. You had your chance.',
+      expression: 'angry',
+      conditions: [],
+      nextNodeId: null,
+      choiceDelay: 0,
+      onEnterEffects: [],
+      tags: [],
+      choices: [
+        {
+          text: 'So be it.',
+          nextNodeId: null,
+          conditions: [],
+          effects: [],
+          tags: ['aggressive'],
+        },
+      ],
+    },
+    {
+      id: 'law_clear',
+      text: "Nothing on you that I know of. Keep the peace and we'll get along fine.",
+      expression: 'neutral',
+      conditions: [],
+      nextNodeId: null,
+      choiceDelay: 0,
+      onEnterEffects: [],
+      tags: [],
+      choices: [
+        {
+          text: 'Will do.',
+          nextNodeId: null,
+          conditions: [],
+          effects: [],
+          tags: [],
+        },
+      ],
+    },
+  ],
+};
+
+export const LawmenDialogues = [LawConfrontationDialogue];
@@ -164,6 +164,29 @@ export const mayor_holt_nodes_3: DialogueNode[] = [
           nextNodeId: null,
           effects: [{ type: 'change_reputation', value: -5 }],
         },
+        {
+          text: 'Then stop practicing and tell me what they really have over you.',
+          nextNodeId: null,
+          check: {
+            stat: 'speech',
+            difficulty: 45,
+            successNodeId: 'holt_confides',
+            failureNodeId: null,
+            failureEffects: [{ type: 'change_reputation', value: -5 }],
+          },
+        },
+      ],
+    },
+{
+      id: 'holt_confides',
+      text: "*She glances at the door, then lowers her voice* The town's water bonds. I signed them when the wells ran dry, and IVRC bought every one. If I cross them, they call the debt and Dusty Springs goes thirsty. *She straightens* You didn't hear that from me.",
+      onEnterEffects: [{ type: 'set_flag', target: 'mayor_revealed_water_bonds' }],
+      choices: [
+        {
+          text: "Your secret's safe with me.",
+          nextNodeId: null,
+          effects: [{ type: 'change_reputation', value: 5 }],
+        },
       ],
     },
 {
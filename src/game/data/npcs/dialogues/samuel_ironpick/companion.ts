@@ -0,0 +1,156 @@
+/**
+ * Samuel Ironpick - Companion Dialogue
+ *
+ * Bringing the old miner down off the mountain, his talk on the road, and
+ * the remarks he makes about where they go and what they do.
+ */
+
+import type { DialogueNode, DialogueTree } from '../../../schemas/npc.ts';
+
+/** Recruit nodes, reached from his trusted greeting in the main tree */
+export const samuel_ironpick_recruit_nodes: DialogueNode[] = [
+{
+      id: 'companion_ask',
+      text: "*Samuel rubs his beard* Leave the Hollow? *He looks to the cabins, then to you* Maggie can keep folk fed a spell. I'll carry what needs carryin' and I'll hold a line. But I won't be party to thievin' or killin' for sport. Those are my terms.",
+      expression: 'thoughtful',
+      choices: [
+        {
+          text: 'Fair terms. Grab your scattergun.',
+          nextNodeId: 'companion_outcome',
+          effects: [{ type: 'recruit_companion' }],
+        },
+        {
+          text: "You're needed here. Forget it.",
+          nextNodeId: null,
+        },
+      ],
+    },
+{
+      id: 'companion_outcome',
+      text: '*Samuel stands, knees cracking, and looks you over.*',
+      choices: [
+        {
+          text: 'Coming?',
+          nextNodeId: 'companion_joined',
+          conditions: [{ type: 'flag_set', target: 'companion_joined' }],
+        },
+        {
+          text: 'Another day, then.',
+          nextNodeId: null,
+          conditions: [{ type: 'flag_not_set', target: 'companion_joined' }],
+        },
+      ],
+    },
+{
+      id: 'companion_joined',
+      text: '*He hefts a pack the size of a steamer trunk onto his back like it weighs nothing* Been a long while since I walked off this mountain. Lead the way, friend.',
+      expression: 'warm',
+      choices: [
+        {
+          text: "Let's go.",
+          nextNodeId: null,
+        },
+      ],
+    },
+];
+
+export const SamuelIronpickCompanionDialogue: DialogueTree = {
+  id: 'samuel_ironpick_companion',
+  name: 'Samuel Ironpick - On the Road',
+  description: 'What Samuel says while he travels with the player',
+  tags: ['companion'],
+
+  entryPoints: [
+    {
+      nodeId: 'road_warm',
+      conditions: [{ type: 'approval_gte', value: 70 }],
+      priority: 5,
+    },
+    {
+      nodeId: 'road_greeting',
+      conditions: [],
+      priority: 0,
+    },
+  ],
+
+  nodes: [
+    {
+      id: 'road_warm',
+      text: "*He claps you on the back hard enough to rattle teeth* Glad I came along, I'll say that. What'll it be?",
+      expression: 'warm',
+      choices: [
+        {
+          text: "Let's see what you're carrying.",
+          nextNodeId: null,
+          effects: [{ type: 'trade_companion' }],
+        },
+        {
+          text: 'Time we parted ways, Samuel.',
+          nextNodeId: 'road_parting',
+        },
+        {
+          text: 'Nothing. Just checking on you.',
+          nextNodeId: null,
+        },
+      ],
+    },
+    {
+      id: 'road_greeting',
+      text: '*Samuel shifts the pack on his shoulders* Somethin\' you need?',
+      choices: [
+        {
+          text: "Let's see what you're carrying.",
+          nextNodeId: null,
+          effects: [{ type: 'trade_companion' }],
+        },
+        {
+          text: 'Time we parted ways, Samuel.',
+          nextNodeId: 'road_parting',
+        },
+        {
+          text: 'Never mind.',
+          nextNodeId: null,
+        },
+      ],
+    },
+    {
+      id: 'road_parting',
+      text: "Reckon the Hollow's missed me anyhow. You come up the mountain whenever you need a strong back.",
+      choices: [
+        {
+          text: 'Safe travels, Samuel.',
+          nextNodeId: null,
+          effects: [{ type: 'dismiss_companion' }],
+        },
+        {
+          text: "On second thought, I'd rather you stayed.",
+          nextNodeId: null,
+        },
+      ],
+    },
+  ],
+};
+
+export const SamuelIronpickBarkDialogue: DialogueTree = {
+  id: 'samuel_ironpick_barks',
+  name: 'Samuel Ironpick - Barks',
+  description: 'One-line remarks Samuel makes while travelling with the player',
+  tags: ['barks'],
+
+  entryPoints: [{ nodeId: 'bark_recruited', conditions: [], priority: 0 }],
+
+  nodes: [
+    { id: 'bark_recruited', text: "Pack's light. Load it up, I've hauled ore heavier than anything you'll find.", tags: ['recruited'], choices: [] },
+    { id: 'bark_dismissed', text: "Keep your powder dry, friend. Mountain's always there.", tags: ['dismissed'], choices: [] },
+    { id: 'bark_town_1', text: "Lot of folk in one place. Makes my skin itch.", tags: ['town'], choices: [] },
+    { id: 'bark_town_2', text: "Company store prices. Robbery with a ledger, that's all it is.", tags: ['town'], choices: [] },
+    { id: 'bark_wilderness_1', text: 'Smell that? Rain somewhere past the ridge.', tags: ['wilderness'], choices: [] },
+    { id: 'bark_wilderness_2', text: 'Good rock out here. Copper, maybe. Old habits.', tags: ['wilderness'], choices: [] },
+    { id: 'bark_approve_1', text: "That's the right of it. Good.", tags: ['approve'], choices: [] },
+    { id: 'bark_approve_2', text: '*He grunts, satisfied* Your ma raised you decent.', tags: ['approve'], choices: [] },
+    { id: 'bark_disapprove_1', text: "Hmph. Not how I'd have done it.", tags: ['disapprove'], choices: [] },
+    { id: 'bark_disapprove_2', text: "*He shakes his head and says nothin'.*", tags: ['disapprove'], choices: [] },
+    { id: 'bark_warning', text: "I told you my terms when we set out. You're walkin' close to the edge of 'em.", tags: ['warning'], choices: [] },
+    { id: 'bark_leaving', text: "That's it. I'm goin' home. Don't come lookin' for me.", tags: ['leaving'], choices: [] },
+  ],
+};
@@ -15,6 +15,11 @@ import { samuel_ironpick_nodes_2 } from './nodes2.ts';
 import { samuel_ironpick_nodes_3 } from './nodes3.ts';
 import { samuel_ironpick_nodes_4 } from './nodes4.ts';
 import { samuel_ironpick_nodes_5 } from './nodes5.ts';
+import {
+  SamuelIronpickBarkDialogue,
+  SamuelIronpickCompanionDialogue,
+  samuel_ironpick_recruit_nodes,
+} from './companion.ts';
 
 export const SamuelIronpickMainDialogue: DialogueTree = {
   id: 'samuel_ironpick_main',
@@ -68,7 +73,12 @@ export const SamuelIronpickMainDialogue: DialogueTree = {
       ...samuel_ironpick_nodes_3,
       ...samuel_ironpick_nodes_4,
       ...samuel_ironpick_nodes_5,
+      ...samuel_ironpick_recruit_nodes,
     ],
 };
 
-export const SamuelIronpickDialogues = [SamuelIronpickMainDialogue];
+export const SamuelIronpickDialogues = [
+  SamuelIronpickMainDialogue,
+  SamuelIronpickCompanionDialogue,
+  SamuelIronpickBarkDialogue,
+];
@@ -141,6 +141,10 @@ export const samuel_ironpick_nodes_4: DialogueNode[] = [
           text: "I have news. We need to talk.",
           nextNodeId: 'trusted_news',
         },
+        {
+          text: 'Ride with me a while, Samuel.',
+          nextNodeId: 'companion_ask',
+        },
         {
           text: 'Ready to talk about those documents?',
           nextNodeId: 'ready_for_documents',
@@ -32,6 +32,7 @@ import {
 import { DiamondbackDialogues } from './dialogues/diamondback/index.ts';
 import { DocChenDialogues } from './dialogues/doc_chen/index.ts';
 import { FatherMiguelDialogues } from './dialogues/father_miguel/index.ts';
+import { LawmenDialogues } from './dialogues/lawmen/index.ts';
 import { MayorHoltDialogues } from './dialogues/mayor_holt/index.ts';
 import { SamuelIronpickDialogues } from './dialogues/samuel_ironpick/index.ts';
 import { SheriffColeDialogues } from './dialogues/sheriff_cole/index.ts';
@@ -67,6 +68,7 @@ export const ALL_DIALOGUE_TREES: DialogueTree[] = [
   ...MayorHoltDialogues,
   ...FatherMiguelDialogues,
   ...SamuelIronpickDialogues,
+  ...LawmenDialogues,
 ];
 
 export const DIALOGUE_TREES_BY_ID: Record<string, DialogueTree> = Object.fromEntries(
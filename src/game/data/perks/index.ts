@@ -0,0 +1,317 @@
+/**
+ * Perks - Iron Frontier
+ *
+ * One small tree per skill. Each perk costs a perk point, needs the skill at a
+ * given level and sometimes an earlier perk in the same tree. Effects are
+ * fractional modifiers that systems multiply into their own math.
+ */
+
+import { z } from 'zod';
+import { type CheckSkill, CheckSkillSchema } from '../schemas/npc';
+
+// ============================================================================
+// PERK SCHEMAS
+// ============================================================================
+
+export const PerkEffectTypeSchema = z.enum([
+  /** Damage with firearms */
+  'gun_damage',
+  /** Damage with melee weapons */
+  'melee_damage',
+  /** Shots per second with firearms */
+  'fire_rate',
+  /** How quickly hostiles notice the player (negative is stealthier) */
+  'detection',
+  /** Chance a hunt turns up game */
+  'hunt_chance',
+  /** Food and water brought back from a hunt */
+  'hunt_yield',
+  /** Prices paid to shops (negative is cheaper) */
+  'buy_price',
+  /** Prices shops pay the player */
+  'sell_price',
+  /** Condition restored by field repairs */
+  'repair',
+  /** Health restored by medicine and food */
+  'healing',
+]);
+export type PerkEffectType = z.infer<typeof PerkEffectTypeSchema>;
+
+export const PerkEffectSchema = z.object({
+  type: PerkEffectTypeSchema,
+  /** Fractional change, e.g. 0.15 for +15% */
+  value: z.number(),
+});
+export type PerkEffect = z.infer<typeof PerkEffectSchema>;
+
+export const PerkSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  icon: z.string().default('+'),
+  /** Skill tree this perk belongs to */
+  skill: CheckSkillSchema,
+  /** Skill level needed to take the perk */
+  skillLevel: z.number().int().min(0).max(100),
+  /** Character level needed to take the perk */
+  minLevel: z.number().int().min(1).default(1),
+  /** Perks that must be taken first */
+  requires: z.array(z.string()).default([]),
+  effects: z.array(PerkEffectSchema).min(1),
+});
+export type Perk = z.infer<typeof PerkSchema>;
+
+// ============================================================================
+// PERK TREES
+// ============================================================================
+
+export const PERKS: Perk[] = [
+  // Guns
+  {
+    id: 'steady_hand',
+    name: 'Steady Hand',
+    description: '+10% firearm damage.',
+    icon: '+',
+    skill: 'guns',
+    skillLevel: 25,
+    effects: [{ type: 'gun_damage', value: 0.1 }],
+  },
+  {
+    id: 'fan_the_hammer',
+    name: 'Fan the Hammer',
+    description: 'Fire 25% faster.',
+    icon: '>',
+    skill: 'guns',
+    skillLevel: 45,
+    minLevel: 4,
+    requires: ['steady_hand'],
+    effects: [{ type: 'fire_rate', value: 0.25 }],
+  },
+  {
+    id: 'deadeye',
+    name: 'Deadeye',
+    description: '+20% firearm damage.',
+    icon: '@',
+    skill: 'guns',
+    skillLevel: 70,
+    minLevel: 8,
+    requires: ['fan_the_hammer'],
+    effects: [{ type: 'gun_damage', value: 0.2 }],
+  },
+
+  // Melee
+  {
+    id: 'brawler',
+    name: 'Brawler',
+    description: '+15% melee damage.',
+    icon: '#',
+    skill: 'melee',
+    skillLevel: 25,
+    effects: [{ type: 'melee_damage', value: 0.15 }],
+  },
+  {
+    id: 'haymaker',
+    name: 'Haymaker',
+    description: '+25% melee damage.',
+    icon: '!',
+    skill: 'melee',
+    skillLevel: 50,
+    minLevel: 5,
+    requires: ['brawler'],
+    effects: [{ type: 'melee_damage', value: 0.25 }],
+  },
+
+  // Lockpick
+  {
+    id: 'light_step',
+    name: 'Light Step',
+    description: 'Hostiles notice you 15% slower.',
+    icon: '~',
+    skill: 'lockpick',
+    skillLevel: 30,
+    effects: [{ type: 'detection', value: -0.15 }],
+  },
+  {
+    id: 'ghost',
+    name: 'Ghost',
+    description: 'Hostiles notice you a further 20% slower.',
+    icon: '.',
+    skill: 'lockpick',
+    skillLevel: 60,
+    minLevel: 6,
+    requires: ['light_step'],
+    effects: [{ type: 'detection', value: -0.2 }],
+  },
+
+  // Speech
+  {
+    id: 'silver_tongue',
+    name: 'Silver Tongue',
+    description: 'Shopkeepers take 5% off.',
+    icon: '*',
+    skill: 'speech',
+    skillLevel: 30,
+    effects: [{ type: 'buy_price', value: -0.05 }],
+  },
+  {
+    id: 'smooth_talker',
+    name: 'Smooth Talker',
+    description: 'Shopkeepers pay 5% more.',
+    icon: '"',
+    skill: 'speech',
+    skillLevel: 55,
+    minLevel: 5,
+    requires: ['silver_tongue'],
+    effects: [{ type: 'sell_price', value: 0.05 }],
+  },
+
+  // Barter
+  {
+    id: 'haggler',
+    name: 'Haggler',
+    description: 'Buy for 10% less.',
+    icon: '$',
+    skill: 'barter',
+    skillLevel: 30,
+    effects: [{ type: 'buy_price', value: -0.1 }],
+  },
+  {
+    id: 'fence',
+    name: 'Fence',
+    description: 'Sell for 15% more.',
+    icon: '%',
+    skill: 'barter',
+    skillLevel: 55,
+    minLevel: 5,
+    requires: ['haggler'],
+    effects: [{ type: 'sell_price', value: 0.15 }],
+  },
+
+  // Repair
+  {
+    id: 'tinkerer',
+    name: 'Tinkerer',
+    description: 'Field repairs restore 25% more.',
+    icon: '&',
+    skill: 'repair',
+    skillLevel: 30,
+    effects: [{ type: 'repair', value: 0.25 }],
+  },
+  {
+    id: 'gunsmith',
+    name: 'Gunsmith',
+    description: 'Field repairs restore a further 25% more.',
+    icon: '=',
+    skill: 'repair',
+    skillLevel: 55,
+    minLevel: 5,
+    requires: ['tinkerer'],
+    effects: [{ type: 'repair', value: 0.25 }],
+  },
+
+  // Medicine
+  {
+    id: 'field_medic',
+    name: 'Field Medic',
+    description: 'Healing items restore 20% more.',
+    icon: '+',
+    skill: 'medicine',
+    skillLevel: 30,
+    effects: [{ type: 'healing', value: 0.2 }],
+  },
+  {
+    id: 'sawbones',
+    name: 'Sawbones',
+    description: 'Healing items restore a further 30% more.',
+    icon: 'x',
+    skill: 'medicine',
+    skillLevel: 60,
+    minLevel: 6,
+    requires: ['field_medic'],
+    effects: [{ type: 'healing', value: 0.3 }],
+  },
+
+  // Survival
+  {
+    id: 'trapper',
+    name: 'Trapper',
+    description: 'Bring back 25% more from a hunt.',
+    icon: '^',
+    skill: 'survival',
+    skillLevel: 30,
+    effects: [{ type: 'hunt_yield', value: 0.25 }],
+  },
+  {
+    id: 'dead_eye_tracker',
+    name: 'Dead-Eye Tracker',
+    description: 'Hunts succeed 20% more often and you move unseen 10% longer.',
+    icon: '%',
+    skill: 'survival',
+    skillLevel: 55,
+    minLevel: 5,
+    requires: ['trapper'],
+    effects: [
+      { type: 'hunt_chance', value: 0.2 },
+      { type: 'detection', value: -0.1 },
+    ],
+  },
+].map((perk) => PerkSchema.parse(perk));
+
+const PERKS_BY_ID: Record<string, Perk> = Object.fromEntries(
+  PERKS.map((perk) => [perk.id, perk])
+);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get a perk by ID
+ */
+export function getPerk(perkId: string): Perk | undefined {
+  return PERKS_BY_ID[perkId];
+}
+
+/**
+ * Get the perks in one skill's tree, in unlock order
+ */
+export function getPerksForSkill(skill: CheckSkill): Perk[] {
+  return PERKS.filter((perk) => perk.skill === skill);
+}
+
+/**
+ * Combined multiplier for an effect across the perks a player has taken.
+ * Returns 1 when no perk touches the effect.
+ */
+export function getPerkModifier(perkIds: readonly string[], type: PerkEffectType): number {
+  let total = 0;
+  for (const perkId of perkIds) {
+    for (const effect of PERKS_BY_ID[perkId]?.effects ?? []) {
+      if (effect.type === type) total += effect.value;
+    }
+  }
+  return Math.max(0, 1 + total);
+}
+
+/** What the player brings to a perk check */
+export interface PerkCandidate {
+  level: number;
+  skills: Record<CheckSkill, number>;
+  perks: readonly string[];
+  perkPoints: number;
+}
+
+/**
+ * Why a perk can't be taken, or null if it can.
+ */
+export function getPerkBlocker(perk: Perk, player: PerkCandidate): string | null {
+  if (player.perks.includes(perk.id)) return 'Already taken.';
+  if (player.perkPoints < 1) return 'No perk points.';
+  if (player.level < perk.minLevel) return `Requires level ${perk.minLevel}.`;
+  if (player.skills[perk.skill] < perk.skillLevel) {
+    return `Requires ${perk.skill} ${perk.skillLevel}.`;
+  }
+  const missing = perk.requires.find((id) => !player.perks.includes(id));
+  if (missing) return `Requires ${getPerk(missing)?.name ?? missing}.`;
+  return null;
+}
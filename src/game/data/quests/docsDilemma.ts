@@ -11,7 +11,8 @@ export const DocsDilemma: Quest = {
   recommendedLevel: 2,
   tags: ['side', 'delivery', 'choice', 'medical'],
   repeatable: false,
-  timeLimitHours: null,
+  timeLimitHours: 72,
+  failStageId: 'stage_doc_too_late',
 
   prerequisites: {
     completedQuests: [],
@@ -127,6 +128,33 @@ export const DocsDilemma: Quest = {
         items: [{ itemId: 'item_medical_supplies', quantity: 1 }],
         reputation: {},
       },
+      exits: [
+        {
+          id: 'branch_junction',
+          description: 'You paid Junction City prices. Expensive, but nobody asked questions.',
+          objectives: ['obj_junction_supplies'],
+          nextStageId: 'stage_doc_deliver',
+          rewards: {
+            xp: 0,
+            gold: 0,
+            items: [],
+            reputation: { townsfolk: 5 },
+          },
+        },
+        {
+          id: 'branch_coppertown',
+          description:
+            'You bought from the company store. The clerk wrote your name in the ledger, and the Freeminers will hear of it.',
+          objectives: ['obj_coppertown_supplies'],
+          nextStageId: 'stage_doc_deliver',
+          rewards: {
+            xp: 0,
+            gold: 0,
+            items: [],
+            reputation: { ivrc: 5, freeminer: -10 },
+          },
+        },
+      ],
     },
 
     // Stage 3: Delivery
@@ -163,7 +191,38 @@ export const DocsDilemma: Quest = {
         xp: 25,
         gold: 0,
         items: [],
-        reputation: { townfolk: 15 },
+        reputation: { townsfolk: 15 },
+      },
+    },
+
+    // Fail stage: the supplies never came
+    {
+      id: 'stage_doc_too_late',
+      title: 'Too Late',
+      description: 'Three days have passed without the supplies. Face Doc Chen Wei.',
+      onStartText: 'Three days and no supplies. Somewhere in Dusty Springs, Doc Chen Wei is burying a patient.',
+      onCompleteText: 'Doc Chen Wei doesn\'t look up from his ledger. "I did what I could with what I had. So did you, I suppose."',
+      objectives: [
+        {
+          id: 'obj_face_doc',
+          description: 'Face Doc Chen Wei',
+          type: 'talk',
+          target: 'doc_chen',
+          count: 1,
+          current: 0,
+          optional: false,
+          hidden: false,
+          markerTarget: {
+            type: 'npc',
+            npcId: 'doc_chen',
+          },
+        },
+      ],
+      stageRewards: {
+        xp: 0,
+        gold: 0,
+        items: [],
+        reputation: { townsfolk: -10 },
       },
     },
   ],
@@ -172,7 +231,7 @@ export const DocsDilemma: Quest = {
     xp: 60,
     gold: 40,
     items: [{ itemId: 'item_healing_tonic', quantity: 3 }],
-    reputation: { townfolk: 10 },
+    reputation: { townsfolk: 10 },
     unlocksQuests: [],
   },
 };
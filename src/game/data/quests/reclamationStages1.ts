@@ -72,7 +72,7 @@ export const reclamationStages1: Stage[] = [
       xp: 75,
       gold: 0,
       items: [],
-      reputation: { freeminers: 25 },
+      reputation: { freeminer: 25 },
     },
   },
 
@@ -150,7 +150,7 @@ export const reclamationStages1: Stage[] = [
       xp: 150,
       gold: 50,
       items: [],
-      reputation: { freeminers: 30 },
+      reputation: { freeminer: 30 },
     },
   },
 ];
@@ -124,12 +124,12 @@ export const TheInheritance: Quest = {
       },
     },
 
-    // Stage 3: The Sheriff
+    // Stage 3: The Sheriff (or the Mayor)
     {
       id: 'stage_3_sheriff',
       title: 'Talk to Sheriff Cole',
       description:
-        'Sheriff Marcus Cole might know something about the fire. He\'s an honest man in a town full of IVRC influence.',
+        'Sheriff Marcus Cole might know something about the fire. He\'s an honest man in a town full of IVRC influence. Mayor Holt may know more than she lets on, too.',
       onStartText:
         'The Sheriff\'s office is down Main Street - look for the star on the door. Cole has a reputation for being one of the few straight shooters left.',
       onCompleteText:
@@ -171,13 +171,57 @@ export const TheInheritance: Quest = {
             npcId: 'sheriff_cole',
           },
         },
+        {
+          id: 'obj_press_mayor',
+          description: 'Or press Mayor Holt about what she knows',
+          type: 'talk',
+          target: 'mayor_holt',
+          count: 1,
+          current: 0,
+          optional: true,
+          hidden: false,
+          hint: 'The Mayor keeps office in the town hall. She won\'t admit anything unless you push.',
+          markerTarget: {
+            type: 'npc',
+            npcId: 'mayor_holt',
+          },
+        },
       ],
       stageRewards: {
         xp: 50,
         gold: 0,
         items: [],
-        reputation: { law: 10 },
+        reputation: {},
       },
+      exits: [
+        {
+          id: 'branch_sheriff',
+          description: 'You put your trust in the law. Cole will remember it.',
+          objectives: ['obj_find_sheriff', 'obj_talk_sheriff'],
+          flag: 'sheriff_knows_letter',
+          nextStageId: 'stage_4_freeminers',
+          rewards: {
+            xp: 0,
+            gold: 0,
+            items: [],
+            reputation: { townsfolk: 10 },
+          },
+        },
+        {
+          id: 'branch_mayor',
+          description:
+            'Mayor Holt admitted she knows who ordered the fire. She pointed you toward Freeminer\'s Hollow - and IVRC will hear you were asking.',
+          objectives: [],
+          flag: 'mayor_admitted_knowledge',
+          nextStageId: 'stage_4_freeminers',
+          rewards: {
+            xp: 0,
+            gold: 0,
+            items: [],
+            reputation: { ivrc: 5, townsfolk: -5 },
+          },
+        },
+      ],
     },
 
     // Stage 4: Follow the Leads
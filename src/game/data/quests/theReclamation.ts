@@ -33,7 +33,7 @@ export const TheReclamation: Quest = {
       { itemId: 'item_ironpick_deed', quantity: 1 },
       { itemId: 'item_starcite_sample', quantity: 3 },
     ],
-    reputation: { freeminers: 50, ivrc: -30 },
+    reputation: { freeminer: 50, ivrc: -30 },
     unlocksQuests: [],
   },
 };
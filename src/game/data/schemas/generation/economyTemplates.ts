@@ -102,6 +102,8 @@ export const ScheduleTemplateSchema = z.object({
       ]),
       locationMarker: z.string(),
       dialogueOverride: z.string().optional(),
+      /** Town event id (systems/calendar); the entry only applies while it is on */
+      event: z.string().optional(),
     }))
     .min(1),
   tags: z.array(z.string()).default([]),
@@ -71,6 +71,8 @@ export const ObjectiveTemplateSchema = z.object({
   countRange: z.tuple([z.number(), z.number()]).default([1, 1]),
   optional: z.boolean().default(false),
   hintTemplate: z.string().optional(),
+  /** Keep the previous stage's target (e.g. escort the NPC just met) */
+  reuseTarget: z.boolean().optional(),
 });
 export type ObjectiveTemplate = z.infer<typeof ObjectiveTemplateSchema>;
 
@@ -10,6 +10,8 @@ export {
   BuffTypeSchema,
   ConsumableItemSchema,
   ConsumableStatsSchema,
+  CraftingSkillSchema,
+  CraftingStationSchema,
   CurrencyItemSchema,
   EffectTypeSchema,
   InventoryItemInstanceSchema,
@@ -20,7 +22,12 @@ export {
   KeyItemSchema,
   LootEntrySchema,
   LootTableSchema,
+  RecipeIngredientSchema,
+  RecipeSchema,
   WeaponItemSchema,
+  WeaponModSchema,
+  WeaponModSlotSchema,
+  WeaponStatModifiersSchema,
   WeaponStatsSchema,
   WeaponTypeSchema,
 } from './schemas.ts';
@@ -32,6 +39,8 @@ export type {
   BuffType,
   ConsumableItem,
   ConsumableStats,
+  CraftingSkill,
+  CraftingStation,
   CurrencyItem,
   EffectType,
   InventoryItemInstance,
@@ -42,7 +51,12 @@ export type {
   KeyItem,
   LootEntry,
   LootTable,
+  Recipe,
+  RecipeIngredient,
   WeaponItem,
+  WeaponMod,
+  WeaponModSlot,
+  WeaponStatModifiers,
   WeaponStats,
   WeaponType,
 } from './schemas.ts';
@@ -60,5 +74,7 @@ export {
   validateInventoryItem,
   validateItem,
   validateLootTable,
+  validateRecipe,
   validateWeaponItem,
+  validateWeaponMod,
 } from './utilities.ts';
@@ -153,6 +153,63 @@ export const CurrencyItemSchema = BaseItemSchema.extend({
 });
 export type CurrencyItem = z.infer<typeof CurrencyItemSchema>;
 
+// ============================================================================
+// CRAFTING & WEAPON MODS
+// ============================================================================
+
+export const CraftingStationSchema = z.enum(['workbench', 'campfire']);
+export type CraftingStation = z.infer<typeof CraftingStationSchema>;
+
+export const CraftingSkillSchema = z.enum(['repair', 'medicine']);
+export type CraftingSkill = z.infer<typeof CraftingSkillSchema>;
+
+export const RecipeIngredientSchema = z.object({
+  itemId: z.string(),
+  quantity: z.number().int().min(1).default(1),
+});
+export type RecipeIngredient = z.infer<typeof RecipeIngredientSchema>;
+
+export const RecipeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().default(''),
+  ingredients: z.array(RecipeIngredientSchema).min(1),
+  output: RecipeIngredientSchema,
+  /** Where the recipe can be made; omitted means anywhere */
+  station: CraftingStationSchema.optional(),
+  /** Skill the recipe tests, and the level required */
+  skill: CraftingSkillSchema.optional(),
+  skillLevel: z.number().int().min(0).max(100).default(0),
+  tags: z.array(z.string()).default([]),
+});
+export type Recipe = z.infer<typeof RecipeSchema>;
+
+export const WeaponModSlotSchema = z.enum(['sight', 'cylinder', 'barrel', 'trigger']);
+export type WeaponModSlot = z.infer<typeof WeaponModSlotSchema>;
+
+/** Additive changes to a weapon's stats */
+export const WeaponStatModifiersSchema = z.object({
+  damage: z.number().optional(),
+  range: z.number().optional(),
+  accuracy: z.number().optional(),
+  fireRate: z.number().optional(),
+  clipSize: z.number().int().optional(),
+  reloadTime: z.number().optional(),
+});
+export type WeaponStatModifiers = z.infer<typeof WeaponStatModifiersSchema>;
+
+export const WeaponModSchema = z.object({
+  /** Item ID of the mod part */
+  id: z.string(),
+  slot: WeaponModSlotSchema,
+  /** Weapon types the mod fits */
+  weaponTypes: z.array(WeaponTypeSchema).min(1),
+  modifiers: WeaponStatModifiersSchema,
+  /** Multiplier on how far the weapon's report carries (1 = unchanged) */
+  noise: z.number().min(0).default(1),
+});
+export type WeaponMod = z.infer<typeof WeaponModSchema>;
+
 // ============================================================================
 // INVENTORY ITEM & LOOT TABLE
 // ============================================================================
@@ -9,14 +9,18 @@ import type {
   InventoryItemInstance,
   ItemType,
   LootTable,
+  Recipe,
   WeaponItem,
+  WeaponMod,
 } from './schemas.ts';
 import {
   BaseItemSchema,
   ConsumableItemSchema,
   InventoryItemInstanceSchema,
   LootTableSchema,
+  RecipeSchema,
   WeaponItemSchema,
+  WeaponModSchema,
 } from './schemas.ts';
 
 // ============================================================================
@@ -43,6 +47,14 @@ export function validateLootTable(data: unknown): LootTable {
   return LootTableSchema.parse(data);
 }
 
+export function validateRecipe(data: unknown): Recipe {
+  return RecipeSchema.parse(data);
+}
+
+export function validateWeaponMod(data: unknown): WeaponMod {
+  return WeaponModSchema.parse(data);
+}
+
 // ============================================================================
 // TYPE GUARDS
 // ============================================================================
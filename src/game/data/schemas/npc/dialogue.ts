@@ -17,6 +17,11 @@ export const ConditionTypeSchema = z.enum([
   'time_of_day',
   'flag_set', 'flag_not_set',
   'first_meeting', 'return_visit',
+  'skill_gte', 'attribute_gte',
+  'quest_branch',
+  'event_active',
+  'bounty_gte',
+  'approval_gte',
 ]);
 export type ConditionType = z.infer<typeof ConditionTypeSchema>;
 
@@ -37,6 +42,8 @@ export const DialogueEffectTypeSchema = z.enum([
   'give_item', 'take_item', 'give_gold', 'take_gold',
   'change_reputation', 'set_flag', 'clear_flag',
   'unlock_location', 'change_npc_state', 'trigger_event', 'open_shop',
+  'settle_bounty', 'resist_arrest',
+  'recruit_companion', 'dismiss_companion', 'change_approval', 'trade_companion',
 ]);
 export type DialogueEffectType = z.infer<typeof DialogueEffectTypeSchema>;
 
@@ -48,6 +55,39 @@ export const DialogueEffectSchema = z.object({
 });
 export type DialogueEffect = z.infer<typeof DialogueEffectSchema>;
 
+// ============================================================================
+// SKILL / ATTRIBUTE CHECKS
+// ============================================================================
+
+export const CheckSkillSchema = z.enum([
+  'guns', 'melee', 'lockpick', 'speech', 'repair', 'medicine', 'survival', 'barter',
+]);
+export type CheckSkill = z.infer<typeof CheckSkillSchema>;
+
+export const CheckAttributeSchema = z.enum([
+  'grit', 'perception', 'endurance', 'charisma', 'intelligence', 'agility', 'luck',
+]);
+export type CheckAttribute = z.infer<typeof CheckAttributeSchema>;
+
+/**
+ * A rolled check on a dialogue choice. Picking the choice rolls the player's
+ * skill (0-100) or attribute (1-10, scaled x10) against `difficulty` and
+ * branches to the success or failure node. `nextNodeId` on the choice is
+ * ignored when a check is present.
+ */
+export const DialogueCheckSchema = z.object({
+  stat: z.union([CheckSkillSchema, CheckAttributeSchema]),
+  /** Target score on the 0-100 scale */
+  difficulty: z.number().int().min(0).max(100),
+  successNodeId: z.string().nullable(),
+  failureNodeId: z.string().nullable(),
+  successEffects: z.array(DialogueEffectSchema).optional(),
+  failureEffects: z.array(DialogueEffectSchema).optional(),
+  /** Skill XP on success (failure earns a quarter); defaults from difficulty */
+  xp: z.number().int().min(0).optional(),
+});
+export type DialogueCheck = z.infer<typeof DialogueCheckSchema>;
+
 // ============================================================================
 // DIALOGUE CHOICE
 // ============================================================================
@@ -59,6 +99,7 @@ export const DialogueChoiceSchema = z.object({
   effects: z.array(DialogueEffectSchema).optional(),
   tags: z.array(z.string()).optional(),
   hint: z.string().optional(),
+  check: DialogueCheckSchema.optional(),
 });
 export type DialogueChoice = z.infer<typeof DialogueChoiceSchema>;
 
@@ -4,7 +4,10 @@
 
 // Dialogue
 export {
+  CheckAttributeSchema,
+  CheckSkillSchema,
   ConditionTypeSchema,
+  DialogueCheckSchema,
   DialogueChoiceSchema,
   DialogueConditionSchema,
   DialogueEffectSchema,
@@ -14,7 +17,10 @@ export {
   DialogueTreeSchema,
 } from './dialogue.ts';
 export type {
+  CheckAttribute,
+  CheckSkill,
   ConditionType,
+  DialogueCheck,
   DialogueChoice,
   DialogueCondition,
   DialogueEffect,
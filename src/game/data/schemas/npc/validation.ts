@@ -42,6 +42,11 @@ export function validateDialogueTreeIntegrity(tree: DialogueTree): string[] {
       if (choice.nextNodeId && !nodeIds.has(choice.nextNodeId)) {
         errors.push(`Choice in node ${node.id} references unknown node: ${choice.nextNodeId}`);
       }
+      for (const branchId of [choice.check?.successNodeId, choice.check?.failureNodeId]) {
+        if (branchId && !nodeIds.has(branchId)) {
+          errors.push(`Check in node ${node.id} references unknown node: ${branchId}`);
+        }
+      }
     }
   }
 
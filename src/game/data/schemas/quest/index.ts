@@ -7,6 +7,8 @@ export {
   ObjectiveSchema,
   ObjectiveTypeSchema,
   QuestSchema,
+  QuestStageExitSchema,
+  QuestStageRewardsSchema,
   QuestStageSchema,
   QuestStatusSchema,
   QuestTypeSchema,
@@ -17,6 +19,8 @@ export type {
   ObjectiveType,
   Quest,
   QuestStage,
+  QuestStageExit,
+  QuestStageRewards,
   QuestStatus,
   QuestType,
 } from './schemas.ts';
@@ -24,6 +28,10 @@ export type {
 export {
   createActiveQuest,
   getCurrentStage,
+  getNextStageIndex,
+  getSatisfiedExit,
+  getStageIndex,
+  hasTakenBranch,
   isCurrentStageComplete,
   isQuestComplete,
   isStageComplete,
@@ -32,4 +40,5 @@ export {
   validateObjective,
   validateQuest,
   validateQuestStage,
+  validateQuestStageGraph,
 } from './utilities.ts';
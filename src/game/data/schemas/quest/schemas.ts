@@ -8,8 +8,15 @@ import { z } from 'zod';
 // OBJECTIVE TYPES
 // ============================================================================
 
+/**
+ * escort: `target` NPC must reach `destination` alive.
+ * survive: hold out for `count` game minutes.
+ * defend: beat back `count` waves at the `target` position.
+ * stealth: reach the `target` location without being fully detected.
+ */
 export const ObjectiveTypeSchema = z.enum([
   'kill', 'collect', 'talk', 'visit', 'interact', 'deliver',
+  'escort', 'survive', 'defend', 'stealth',
 ]);
 export type ObjectiveType = z.infer<typeof ObjectiveTypeSchema>;
 
@@ -23,6 +30,8 @@ export const ObjectiveSchema = z.object({
   type: ObjectiveTypeSchema,
   target: z.string(),
   deliverTo: z.string().optional(),
+  /** Where an escorted NPC must be brought (location, building or marker id) */
+  destination: z.string().optional(),
   count: z.number().int().min(1).default(1),
   current: z.number().int().min(0).default(0),
   optional: z.boolean().default(false),
@@ -43,6 +52,48 @@ export const ObjectiveSchema = z.object({
 });
 export type Objective = z.infer<typeof ObjectiveSchema>;
 
+// ============================================================================
+// STAGE REWARDS SCHEMA
+// ============================================================================
+
+export const QuestStageRewardsSchema = z.object({
+  xp: z.number().int().min(0).default(0),
+  gold: z.number().int().min(0).default(0),
+  items: z
+    .array(z.object({ itemId: z.string(), quantity: z.number().int().min(1).default(1) }))
+    .default([]),
+  reputation: z.record(z.string(), z.number().int()).default({}),
+});
+export type QuestStageRewards = z.infer<typeof QuestStageRewardsSchema>;
+
+// ============================================================================
+// QUEST STAGE EXIT SCHEMA
+// ============================================================================
+
+/**
+ * A branch out of a stage. The first exit whose objectives are all complete,
+ * or whose dialogue flag is set while the stage is active, is taken and the
+ * others are closed off.
+ */
+export const QuestStageExitSchema = z
+  .object({
+    id: z.string(),
+    /** Quest log / notification text for the chosen branch */
+    description: z.string().optional(),
+    /** Objective ids (on this stage) that must all be complete */
+    objectives: z.array(z.string()).default([]),
+    /** Dialogue flag that takes this exit when set */
+    flag: z.string().optional(),
+    /** Stage to jump to; null completes the quest */
+    nextStageId: z.string().nullable(),
+    /** Granted on top of the stage's own rewards */
+    rewards: QuestStageRewardsSchema.optional(),
+  })
+  .refine((exit) => exit.objectives.length > 0 || exit.flag !== undefined, {
+    message: 'Stage exit needs objectives or a flag',
+  });
+export type QuestStageExit = z.infer<typeof QuestStageExitSchema>;
+
 // ============================================================================
 // QUEST STAGE SCHEMA
 // ============================================================================
@@ -54,16 +105,16 @@ export const QuestStageSchema = z.object({
   objectives: z.array(ObjectiveSchema).min(1),
   onStartText: z.string().optional(),
   onCompleteText: z.string().optional(),
-  stageRewards: z
-    .object({
-      xp: z.number().int().min(0).default(0),
-      gold: z.number().int().min(0).default(0),
-      items: z
-        .array(z.object({ itemId: z.string(), quantity: z.number().int().min(1).default(1) }))
-        .default([]),
-      reputation: z.record(z.string(), z.number().int()).default({}),
-    })
-    .default(() => ({ xp: 0, gold: 0, items: [], reputation: {} })),
+  stageRewards: QuestStageRewardsSchema.default(() => ({
+    xp: 0,
+    gold: 0,
+    items: [],
+    reputation: {},
+  })),
+  /** Mutually exclusive branches; when present they decide where the quest goes */
+  exits: z.array(QuestStageExitSchema).optional(),
+  /** Stage to continue to instead of the next in order; null ends the quest */
+  nextStageId: z.string().nullable().optional(),
 });
 export type QuestStage = z.infer<typeof QuestStageSchema>;
 
@@ -100,6 +151,8 @@ export const QuestSchema = z.object({
       minLevel: z.number().int().min(1).optional(),
       factionReputation: z.record(z.string(), z.number().int()).default({}),
       requiredItems: z.array(z.string()).default([]),
+      /** Town event id (systems/calendar) the quest is only offered during */
+      duringEvent: z.string().optional(),
     })
     .default(() => ({ completedQuests: [], factionReputation: {}, requiredItems: [] })),
   rewards: z
@@ -116,6 +169,8 @@ export const QuestSchema = z.object({
   tags: z.array(z.string()).default([]),
   repeatable: z.boolean().default(false),
   timeLimitHours: z.number().int().min(1).nullable().default(null),
+  /** Stage entered when the quest fails (e.g. time runs out); never reached in order */
+  failStageId: z.string().optional(),
 });
 export type Quest = z.infer<typeof QuestSchema>;
 
@@ -131,5 +186,7 @@ export const ActiveQuestSchema = z.object({
   startedAt: z.number().int(),
   completedAt: z.number().int().nullable().default(null),
   timeRemainingHours: z.number().nullable().default(null),
+  /** Exit taken out of each branching stage, keyed by stage id */
+  branches: z.record(z.string(), z.string()).default({}),
 });
 export type ActiveQuest = z.infer<typeof ActiveQuestSchema>;
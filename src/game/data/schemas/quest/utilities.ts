@@ -2,7 +2,7 @@
  * Quest Validation & Utility Functions
  */
 
-import type { ActiveQuest, Objective, Quest, QuestStage } from './schemas.ts';
+import type { ActiveQuest, Objective, Quest, QuestStage, QuestStageExit } from './schemas.ts';
 import { ActiveQuestSchema, ObjectiveSchema, QuestSchema, QuestStageSchema } from './schemas.ts';
 
 // ============================================================================
@@ -25,11 +25,64 @@ export function validateActiveQuest(data: unknown): ActiveQuest {
   return ActiveQuestSchema.parse(data);
 }
 
+export function validateQuestStageGraph(quest: Quest): string[] {
+  const errors: string[] = [];
+  const stageIds = new Set(quest.stages.map((stage) => stage.id));
+
+  if (quest.failStageId && !stageIds.has(quest.failStageId)) {
+    errors.push(`Quest ${quest.id} references unknown fail stage: ${quest.failStageId}`);
+  }
+
+  for (const stage of quest.stages) {
+    if (stage.nextStageId && !stageIds.has(stage.nextStageId)) {
+      errors.push(`Stage ${stage.id} references unknown next stage: ${stage.nextStageId}`);
+    }
+
+    const objectiveIds = new Set(stage.objectives.map((obj) => obj.id));
+    for (const exit of stage.exits ?? []) {
+      if (exit.nextStageId && !stageIds.has(exit.nextStageId)) {
+        errors.push(`Exit ${exit.id} in stage ${stage.id} references unknown stage: ${exit.nextStageId}`);
+      }
+      for (const objectiveId of exit.objectives) {
+        if (!objectiveIds.has(objectiveId)) {
+          errors.push(`Exit ${exit.id} in stage ${stage.id} references unknown objective: ${objectiveId}`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
 
+function isObjectiveComplete(stage: QuestStage, objectiveId: string, progress: Record<string, number>): boolean {
+  const objective = stage.objectives.find((obj) => obj.id === objectiveId);
+  return objective !== undefined && (progress[objectiveId] ?? 0) >= objective.count;
+}
+
+/**
+ * First exit whose objectives are all complete. Flag-only exits never match
+ * here; they are taken when their flag is raised.
+ */
+export function getSatisfiedExit(
+  stage: QuestStage,
+  progress: Record<string, number>
+): QuestStageExit | null {
+  return (
+    stage.exits?.find(
+      (exit) =>
+        exit.objectives.length > 0 &&
+        exit.objectives.every((id) => isObjectiveComplete(stage, id, progress))
+    ) ?? null
+  );
+}
+
 export function isStageComplete(stage: QuestStage, progress: Record<string, number>): boolean {
+  // Branching stages complete by taking an exit
+  if (stage.exits?.length) return getSatisfiedExit(stage, progress) !== null;
   return stage.objectives
     .filter((obj) => !obj.optional)
     .every((obj) => (progress[obj.id] ?? 0) >= obj.count);
@@ -41,9 +94,44 @@ export function isCurrentStageComplete(quest: Quest, activeQuest: ActiveQuest):
   return isStageComplete(currentStage, activeQuest.objectiveProgress);
 }
 
+export function getStageIndex(quest: Quest, stageId: string): number {
+  return quest.stages.findIndex((stage) => stage.id === stageId);
+}
+
+/**
+ * Index of the stage that follows `stageIndex`, or null when the quest ends.
+ * An exit's target wins over the stage's own nextStageId, which wins over
+ * array order.
+ */
+export function getNextStageIndex(
+  quest: Quest,
+  stageIndex: number,
+  exit: QuestStageExit | null = null
+): number | null {
+  const stage = quest.stages[stageIndex];
+  if (!stage) return null;
+
+  const nextStageId = exit ? exit.nextStageId : stage.nextStageId;
+  if (nextStageId === null) return null;
+  if (nextStageId !== undefined) {
+    const index = getStageIndex(quest, nextStageId);
+    return index >= 0 ? index : null;
+  }
+
+  const next = quest.stages[stageIndex + 1];
+  return next && next.id !== quest.failStageId ? stageIndex + 1 : null;
+}
+
 export function isQuestComplete(quest: Quest, activeQuest: ActiveQuest): boolean {
-  const isLastStage = activeQuest.currentStageIndex === quest.stages.length - 1;
-  return isLastStage && isCurrentStageComplete(quest, activeQuest);
+  if (!isCurrentStageComplete(quest, activeQuest)) return false;
+  const stage = quest.stages[activeQuest.currentStageIndex];
+  const exit = getSatisfiedExit(stage, activeQuest.objectiveProgress);
+  return getNextStageIndex(quest, activeQuest.currentStageIndex, exit) === null;
+}
+
+/** Whether the player took a given exit at any stage of the quest. */
+export function hasTakenBranch(activeQuest: Pick<ActiveQuest, 'branches'>, exitId: string): boolean {
+  return Object.values(activeQuest.branches ?? {}).includes(exitId);
 }
 
 export function getCurrentStage(quest: Quest, activeQuest: ActiveQuest): QuestStage | null {
@@ -59,6 +147,7 @@ export function createActiveQuest(questId: string): ActiveQuest {
     startedAt: Date.now(),
     completedAt: null,
     timeRemainingHours: null,
+    branches: {},
   };
 }
 
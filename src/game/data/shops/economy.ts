@@ -0,0 +1,160 @@
+/**
+ * Shop Economy - Runtime stock, restocking, and price modifiers
+ *
+ * Shop definitions describe what a merchant carries when fully stocked.
+ * The market state here tracks what is actually left, what the player
+ * has been selling, and when the shop last restocked.
+ */
+
+import type { BaseItem } from '../schemas/item';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Runtime stock and demand for one shop */
+export interface ShopMarketState {
+  /** Units left per item (-1 = infinite) */
+  stock: Record<string, number>;
+  /** Units the player has sold here recently, per item */
+  sold: Record<string, number>;
+  /** Game day of the last restock */
+  lastRestockDay: number;
+}
+
+/** Player- and market-dependent inputs to a price */
+export interface ShopPriceContext {
+  /** Player's barter skill (0-100) */
+  barter?: number;
+  /** Units of the item the player has recently sold to this shop */
+  sold?: number;
+  /** Multiplier on buy prices from the player's perks */
+  buyPerkModifier?: number;
+  /** Multiplier on sell prices from the player's perks */
+  sellPerkModifier?: number;
+}
+
+/** Where a shop trades, for regional price lookups */
+export interface ShopLocale {
+  locationId?: string;
+  regionId?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Regional price multipliers keyed by location or region ID, then by item ID
+ * or item tag. A location's table is applied on top of its region's.
+ */
+export const REGIONAL_PRICE_TABLES: Record<string, Record<string, number>> = {
+  // Junction City sits on the railroad and the ore seams
+  junction_city: { ammo: 0.8, metal: 0.85, tool: 0.9 },
+  coppertown: { metal: 0.8, medical: 1.2 },
+  // Devil's Backbone badlands: nothing flows in but trouble
+  region_devils_backbone: { water_canteen: 1.6, drink: 1.3, ammo: 1.2, medical: 1.25 },
+  region_western_desert: { water_canteen: 1.4, drink: 1.2 },
+  region_iron_mountains: { metal: 0.9, food: 1.15 },
+};
+
+/** How much one unit sold by the player drags the item's price down */
+export const SUPPLY_DRIFT_PER_UNIT = 0.05;
+
+/** Price floor however flooded the market is */
+export const MIN_SUPPLY_MODIFIER = 0.5;
+
+/** Barter discount on purchases per skill point (20% at 100) */
+const BARTER_BUY_DISCOUNT = 0.002;
+
+/** Barter premium on sales per skill point (20% at 100) */
+const BARTER_SELL_PREMIUM = 0.002;
+
+// ============================================================================
+// PRICE MODIFIERS
+// ============================================================================
+
+function lookupPriceTable(
+  table: Record<string, number> | undefined,
+  item: Pick<BaseItem, 'id' | 'tags'>
+): number {
+  if (!table) return 1;
+  if (table[item.id] !== undefined) return table[item.id];
+  const tag = item.tags.find((t) => table[t] !== undefined);
+  return tag ? table[tag] : 1;
+}
+
+/**
+ * Regional multiplier for an item at a shop's location and region.
+ */
+export function getRegionalPriceModifier(
+  locale: ShopLocale,
+  item: Pick<BaseItem, 'id' | 'tags'>
+): number {
+  const region = locale.regionId ? lookupPriceTable(REGIONAL_PRICE_TABLES[locale.regionId], item) : 1;
+  const location = locale.locationId
+    ? lookupPriceTable(REGIONAL_PRICE_TABLES[locale.locationId], item)
+    : 1;
+  return region * location;
+}
+
+/**
+ * Price drift from the player flooding a shop with one item.
+ */
+export function getSupplyModifier(sold: number): number {
+  return Math.max(MIN_SUPPLY_MODIFIER, 1 - sold * SUPPLY_DRIFT_PER_UNIT);
+}
+
+/** Barter multiplier on what the player pays. */
+export function getBarterBuyModifier(barter: number): number {
+  return 1 - Math.max(0, Math.min(100, barter)) * BARTER_BUY_DISCOUNT;
+}
+
+/** Barter multiplier on what the player is paid. */
+export function getBarterSellModifier(barter: number): number {
+  return 1 + Math.max(0, Math.min(100, barter)) * BARTER_SELL_PREMIUM;
+}
+
+// ============================================================================
+// MARKET STATE
+// ============================================================================
+
+/**
+ * Fresh market state with every item at its defined stock.
+ */
+export function createShopMarket(
+  inventory: Array<{ itemId: string; stock?: number }>,
+  day: number
+): ShopMarketState {
+  return {
+    stock: Object.fromEntries(inventory.map((item) => [item.itemId, item.stock ?? -1])),
+    sold: {},
+    lastRestockDay: day,
+  };
+}
+
+/**
+ * Restock a shop if at least `intervalDays` have passed since the last
+ * restock. Stock refills to the defined level and selling pressure halves
+ * for every interval elapsed.
+ */
+export function restockShopMarket(
+  market: ShopMarketState,
+  inventory: Array<{ itemId: string; stock?: number }>,
+  day: number,
+  intervalDays = 1
+): ShopMarketState {
+  const intervals = Math.floor((day - market.lastRestockDay) / intervalDays);
+  if (intervals < 1) return market;
+
+  const sold: Record<string, number> = {};
+  for (const [itemId, count] of Object.entries(market.sold)) {
+    const remaining = Math.floor(count / 2 ** intervals);
+    if (remaining > 0) sold[itemId] = remaining;
+  }
+
+  return {
+    ...createShopMarket(inventory, market.lastRestockDay + intervals * intervalDays),
+    sold,
+  };
+}
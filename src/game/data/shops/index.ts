@@ -7,6 +7,29 @@
 import { z } from 'zod';
 import { getItem } from '../items/index';
 import type { BaseItem } from '../schemas/item';
+import { type NPCFaction, NPCFactionSchema } from '../schemas/npc';
+import {
+  getBarterBuyModifier,
+  getBarterSellModifier,
+  getRegionalPriceModifier,
+  getSupplyModifier,
+  type ShopPriceContext,
+} from './economy';
+
+export {
+  createShopMarket,
+  getBarterBuyModifier,
+  getBarterSellModifier,
+  getRegionalPriceModifier,
+  getSupplyModifier,
+  MIN_SUPPLY_MODIFIER,
+  REGIONAL_PRICE_TABLES,
+  restockShopMarket,
+  SUPPLY_DRIFT_PER_UNIT,
+  type ShopLocale,
+  type ShopMarketState,
+  type ShopPriceContext,
+} from './economy';
 
 // ============================================================================
 // SHOP SCHEMAS
@@ -18,7 +41,7 @@ export const ShopItemSchema = z.object({
   stock: z.number().int().optional(),
   /** Price modifier (1.0 = base price, 1.2 = 20% markup) */
   priceModifier: z.number().min(0).optional(),
-  /** Minimum reputation to purchase */
+  /** Minimum reputation with the shop's faction to purchase */
   minReputation: z.number().int().optional(),
   /** Is this item hidden until unlocked? */
   hidden: z.boolean().optional(),
@@ -31,10 +54,19 @@ export const ShopDefinitionSchema = z.object({
   description: z.string().optional(),
   /** NPC who runs this shop */
   ownerId: z.string(),
+  /** Faction whose standing gates minReputation items (defaults to townsfolk) */
+  faction: NPCFactionSchema.optional(),
+  /** Location and region the shop trades in (regional price tables) */
+  locationId: z.string().optional(),
+  regionId: z.string().optional(),
+  /** Days between restocks (defaults to 1) */
+  restockDays: z.number().int().min(1).optional(),
   /** Items for sale */
   inventory: z.array(ShopItemSchema),
   /** Buy price modifier (how much shop pays for items) */
   buyModifier: z.number().min(0).max(1).optional(),
+  /** Repair price modifier; shops without one don't repair gear */
+  repairModifier: z.number().min(0).optional(),
   /** Can player sell items here? */
   canSell: z.boolean().optional(),
   /** Item types accepted for sale */
@@ -53,6 +85,9 @@ export const DocChenShop: ShopDefinition = {
   name: "Doc Chen's Medicine",
   description: 'Medical supplies and remedies, both western and traditional.',
   ownerId: 'doc_chen',
+  faction: 'townsfolk',
+  locationId: 'dusty_springs',
+  regionId: 'region_central_plains',
   inventory: [
     // Basic medical supplies
     { itemId: 'bandages', stock: 10, priceModifier: 1.0 },
@@ -77,6 +112,9 @@ export const GeneralStoreShop: ShopDefinition = {
   name: 'Dusty Springs General Store',
   description: 'Everything a frontier traveler needs.',
   ownerId: 'shop_keeper', // Generic NPC
+  faction: 'townsfolk',
+  locationId: 'dusty_springs',
+  regionId: 'region_central_plains',
   inventory: [
     // Consumables
     { itemId: 'trail_biscuits', stock: 20, priceModifier: 1.0 },
@@ -109,6 +147,10 @@ export const BlacksmithShop: ShopDefinition = {
   name: 'Iron Valley Smithy',
   description: 'Quality metalwork and repairs.',
   ownerId: 'blacksmith',
+  faction: 'townsfolk',
+  locationId: 'junction_city',
+  regionId: 'region_central_plains',
+  restockDays: 2,
   inventory: [
     // Weapons
     { itemId: 'hunting_knife', stock: 5, priceModifier: 0.9 },
@@ -124,6 +166,7 @@ export const BlacksmithShop: ShopDefinition = {
     { itemId: 'reinforced_knife', stock: 1, priceModifier: 1.2, minReputation: 5 },
   ],
   buyModifier: 0.6, // Blacksmith pays more for metal items
+  repairModifier: 1.0,
   canSell: true,
   acceptedTypes: ['weapon', 'junk'],
   tags: ['weapons', 'tools'],
@@ -134,6 +177,10 @@ export const GunsmithShop: ShopDefinition = {
   name: "Pete's Firearms",
   description: 'Fine firearms and ammunition.',
   ownerId: 'gunsmith',
+  faction: 'townsfolk',
+  locationId: 'junction_city',
+  regionId: 'region_central_plains',
+  restockDays: 3,
   inventory: [
     // Revolvers
     { itemId: 'revolver', stock: 3, priceModifier: 1.0 },
@@ -166,6 +213,9 @@ export const SaloonShop: ShopDefinition = {
   name: 'Lucky Strike Saloon',
   description: 'Drinks, food, and rumors.',
   ownerId: 'bartender',
+  faction: 'townsfolk',
+  locationId: 'dusty_springs',
+  regionId: 'region_central_plains',
   inventory: [
     // Drinks
     { itemId: 'whiskey', stock: -1, priceModifier: 1.0 }, // Infinite
@@ -220,22 +270,54 @@ export function getShopsByTag(tag: string): ShopDefinition[] {
 /**
  * Calculate buy price (what player pays)
  */
-export function calculateBuyPrice(_shop: ShopDefinition, item: ShopItem): number {
+export function calculateBuyPrice(
+  shop: ShopDefinition,
+  item: ShopItem,
+  context: ShopPriceContext = {}
+): number {
   const baseDef = getItem(item.itemId);
   if (!baseDef) return 0;
 
-  return Math.ceil(baseDef.value * (item.priceModifier ?? 1.0));
+  const modifier =
+    (item.priceModifier ?? 1.0) *
+    getRegionalPriceModifier(shop, baseDef) *
+    getSupplyModifier(context.sold ?? 0) *
+    getBarterBuyModifier(context.barter ?? 0) *
+    (context.buyPerkModifier ?? 1);
+  return Math.ceil(baseDef.value * modifier);
 }
 
 /**
  * Calculate sell price (what shop pays player)
  */
-export function calculateSellPrice(shop: ShopDefinition, itemDef: BaseItem): number {
-  return Math.floor(itemDef.value * (shop.buyModifier ?? 0.5));
+export function calculateSellPrice(
+  shop: ShopDefinition,
+  itemDef: BaseItem,
+  context: ShopPriceContext = {}
+): number {
+  const modifier =
+    (shop.buyModifier ?? 0.5) *
+    getRegionalPriceModifier(shop, itemDef) *
+    getSupplyModifier(context.sold ?? 0) *
+    getBarterSellModifier(context.barter ?? 0) *
+    (context.sellPerkModifier ?? 1);
+  const price = Math.floor(itemDef.value * modifier);
+
+  // Never pay more than the shop would charge for the same item
+  const stocked = shop.inventory.find((item) => item.itemId === itemDef.id);
+  if (!stocked) return price;
+  return Math.min(price, Math.max(0, calculateBuyPrice(shop, stocked, context) - 1));
 }
 
 /**
- * Get available items for a shop (filtered by reputation)
+ * Faction whose reputation gates a shop's stock
+ */
+export function getShopFaction(shop: ShopDefinition): NPCFaction {
+  return shop.faction ?? 'townsfolk';
+}
+
+/**
+ * Get available items for a shop (filtered by reputation with the shop's faction)
  */
 export function getAvailableShopItems(shop: ShopDefinition, playerReputation: number): ShopItem[] {
   return shop.inventory.filter((item) => {
@@ -50,6 +50,12 @@ export interface Projectile {
   direction: Position;
   lifetime: number;
   age: number;
+  /** Downward acceleration (m/s^2) for projectiles that drop over distance */
+  gravity?: number;
+  /** Wood-equivalent meters the projectile can still punch through */
+  penetration?: number;
+  /** Entity that fired it */
+  ownerId?: string;
 }
 
 // ============================================================================
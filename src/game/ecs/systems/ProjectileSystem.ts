@@ -1,9 +1,9 @@
 /**
  * Iron Frontier - Projectile System
  *
- * Manages projectile lifecycle: ages projectiles, checks lifetime expiry,
- * performs simple spherecast hit detection against collidable entities,
- * and removes spent projectiles from the world.
+ * Manages projectile lifecycle: ages projectiles, applies gravity drop,
+ * checks lifetime expiry, performs simple spherecast hit detection against
+ * collidable entities, and removes spent projectiles from the world.
  */
 
 import type { World } from 'miniplex';
@@ -45,8 +45,9 @@ function distanceSquared(a: Position, b: Position): number {
  *
  * 1. Age the projectile by deltaTime
  * 2. Check if lifetime expired -> remove
- * 3. Check collisions against provided target entities
- * 4. Invoke hit callback on collision -> remove projectile
+ * 3. Pull its velocity down by its gravity, if it has any
+ * 4. Check collisions against provided target entities
+ * 5. Invoke hit callback on collision -> remove projectile
  */
 export function projectileSystem(
   ecsWorld: World<Entity>,
@@ -67,6 +68,11 @@ export function projectileSystem(
       continue;
     }
 
+    // Gravity drop
+    if (entity.projectile.gravity) {
+      entity.velocity.y -= entity.projectile.gravity * deltaTime;
+    }
+
     // Collision detection: simple sphere overlap against targets
     const projectileRadius = entity.collider?.radius ?? 0.05;
 
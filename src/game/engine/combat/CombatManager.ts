@@ -1,8 +1,22 @@
 import * as THREE from 'three';
 import type { InputFrame } from '@/src/game/input/InputFrame';
-import { getWeaponConfig, type DifficultyLevel } from './DamageCalculator';
-import { performRaycast, fireMuzzleFlash } from './raycastHit';
+import { getModdedWeaponConfig, type DifficultyLevel, type WeaponConfig } from './DamageCalculator';
+import { aimWithSpread, performRaycast, fireMuzzleFlash } from './raycastHit';
+import { fireBullet, PLAYER_BULLET_TAG, stepBullets } from './ballistics';
 import { updateEnemies } from './enemyUpdater';
+import type { PerceptionContext } from './EnemyAI';
+import { NO_COVER, type CoverProvider } from './squad';
+import { computeAimAssist, type AimAssistConfig } from './aimAssist';
+import {
+  getJamChance,
+  JAM_CLEAR_TIME,
+  MELEE_WEAR_PER_SWING,
+  WEAPON_WEAR_PER_SHOT,
+} from '@/src/game/data/items/durability';
+import { getWeaponNoiseMultiplier } from '@/src/game/data/items/weaponMods';
+import { getPerkModifier } from '@/src/game/data/perks';
+import { NOISE_RADII, noiseBus } from '../noise';
+import { scopedRNG, rngTick } from '../../lib/prng';
 import {
   SPREAD_PER_SHOT,
   SPREAD_MOVEMENT,
@@ -20,10 +34,44 @@ export type {
   WeaponRuntimeState,
   CombatEnemy,
   KilledEnemyData,
+  NPCHit,
   CombatTickResult,
 } from './combatTypes';
 export { createWeaponState } from './weaponState';
 
+const _aim = new THREE.Ray();
+const _throw = new THREE.Vector3();
+
+/**
+ * Let nearby enemies hear the shot, swing or blast. Thrown explosives
+ * clatter down and go off at the end of their range, not in the player's hand.
+ */
+function emitWeaponNoise(
+  camera: THREE.Camera,
+  weaponConfig: WeaponConfig,
+  mods: readonly string[],
+): void {
+  if (weaponConfig.weaponType === 'explosive') {
+    camera.getWorldDirection(_throw).multiplyScalar(weaponConfig.range).add(camera.position);
+    const landing = { x: _throw.x, y: _throw.y, z: _throw.z };
+    noiseBus.emit({ kind: 'thrown', position: landing, radius: NOISE_RADII.thrown });
+    noiseBus.emit({
+      kind: 'explosion',
+      position: { ...landing },
+      radius: weaponConfig.loudness ?? NOISE_RADII.explosion,
+    });
+    return;
+  }
+
+  const kind = weaponConfig.ammoType === 'none' ? 'melee' : 'gunshot';
+  const loudness = weaponConfig.loudness ?? NOISE_RADII[kind];
+  noiseBus.emit({
+    kind,
+    position: { x: camera.position.x, y: camera.position.y, z: camera.position.z },
+    radius: kind === 'gunshot' ? loudness * getWeaponNoiseMultiplier(mods) : loudness,
+  });
+}
+
 export function processCombatTick(
   dt: number,
   inputFrame: Readonly<InputFrame>,
@@ -33,6 +81,10 @@ export function processCombatTick(
   weaponState: WeaponRuntimeState,
   difficulty: DifficultyLevel = 'normal',
   playerArmor: number = 0,
+  perception: PerceptionContext = {},
+  cover: CoverProvider = NO_COVER,
+  aimAssist: AimAssistConfig | null = null,
+  aimSway: number = 0,
 ): CombatTickResult {
   const result: CombatTickResult = {
     damageNumbers: [],
@@ -43,12 +95,21 @@ export function processCombatTick(
     playerDamageEvents: [],
     killedEnemies: [],
     killedEnemyData: [],
+    npcHits: [],
     playerFired: false,
+    weaponWear: 0,
+    weaponJammed: false,
     weaponState,
     crosshairSpread: weaponState.currentSpread,
+    aimAssist: aimAssist
+      ? computeAimAssist(dt, inputFrame, camera, enemies, aimAssist)
+      : { yaw: 0, pitch: 0 },
   };
 
-  const weaponConfig = getWeaponConfig(weaponState.weaponId);
+  // Bullets already in the air keep flying whatever the player does
+  stepBullets(dt, scene, enemies, camera.position, weaponState, difficulty, result);
+
+  const weaponConfig = getModdedWeaponConfig(weaponState.weaponId, weaponState.mods);
   if (!weaponConfig) return result;
 
   // Update spread decay
@@ -76,11 +137,23 @@ export function processCombatTick(
     weaponState.currentSpread *= 0.5;
   }
 
+  // Wind and rain keep the aim from ever settling fully
+  weaponState.currentSpread = Math.max(weaponState.currentSpread, aimSway);
+
   // Update fire cooldown
   if (weaponState.fireCooldown > 0) {
     weaponState.fireCooldown -= dt;
   }
 
+  // Work the action until a jam clears
+  if (weaponState.jammed) {
+    weaponState.jamClearTimer -= dt;
+    if (weaponState.jamClearTimer <= 0) {
+      weaponState.jammed = false;
+      weaponState.jamClearTimer = 0;
+    }
+  }
+
   // Reload state machine
   if (weaponState.reloadPhase !== 'none') {
     weaponState.reloadTimer -= dt;
@@ -108,7 +181,7 @@ export function processCombatTick(
     }
 
     result.crosshairSpread = weaponState.currentSpread;
-    updateEnemies(dt, enemies, camera, difficulty, playerArmor, false, result);
+    updateEnemies(dt, enemies, camera, difficulty, playerArmor, result, perception, cover);
     return result;
   }
 
@@ -123,7 +196,7 @@ export function processCombatTick(
     weaponState.reloadPhase = 'starting';
     weaponState.reloadTimer = weaponConfig.reloadTime * 0.2;
     result.crosshairSpread = weaponState.currentSpread;
-    updateEnemies(dt, enemies, camera, difficulty, playerArmor, false, result);
+    updateEnemies(dt, enemies, camera, difficulty, playerArmor, result, perception, cover);
     return result;
   }
 
@@ -138,29 +211,43 @@ export function processCombatTick(
     weaponState.reloadPhase = 'starting';
     weaponState.reloadTimer = weaponConfig.reloadTime * 0.2;
     result.crosshairSpread = weaponState.currentSpread;
-    updateEnemies(dt, enemies, camera, difficulty, playerArmor, false, result);
+    updateEnemies(dt, enemies, camera, difficulty, playerArmor, result, perception, cover);
     return result;
   }
 
   // Handle fire input
-  let playerFired = false;
-
   if (
     inputFrame.fire &&
     weaponState.fireCooldown <= 0 &&
-    weaponState.reloadPhase === 'none'
+    weaponState.reloadPhase === 'none' &&
+    !weaponState.jammed
   ) {
     const isMelee = weaponConfig.ammoType === 'none';
+    const jams =
+      !isMelee &&
+      weaponState.ammoInMagazine > 0 &&
+      scopedRNG('combat', 42, rngTick()) < getJamChance(weaponState.condition);
 
-    if (isMelee || weaponState.ammoInMagazine > 0) {
-      playerFired = true;
+    if (jams) {
+      weaponState.jammed = true;
+      weaponState.jamClearTimer = JAM_CLEAR_TIME;
+      result.weaponJammed = true;
+    } else if (isMelee || weaponState.ammoInMagazine > 0) {
       result.playerFired = true;
+      emitWeaponNoise(camera, weaponConfig, weaponState.mods);
 
       if (!isMelee) {
         weaponState.ammoInMagazine--;
       }
 
-      weaponState.fireCooldown = 1.0 / Math.max(0.1, weaponConfig.fireRate);
+      const fireRate = isMelee
+        ? weaponConfig.fireRate
+        : weaponConfig.fireRate * getPerkModifier(weaponState.perks, 'fire_rate');
+      weaponState.fireCooldown = 1.0 / Math.max(0.1, fireRate);
+
+      const wear = isMelee ? MELEE_WEAR_PER_SWING : WEAPON_WEAR_PER_SHOT;
+      weaponState.condition = Math.max(0, weaponState.condition - wear);
+      result.weaponWear += wear;
 
       weaponState.currentSpread = Math.min(
         MAX_SPREAD,
@@ -169,20 +256,34 @@ export function processCombatTick(
 
       result.muzzleFlash = fireMuzzleFlash(camera);
 
-      performRaycast(
-        camera,
-        scene,
-        enemies,
-        weaponState,
-        weaponConfig,
-        difficulty,
-        result,
-      );
+      if (weaponConfig.ballistics) {
+        const aim = aimWithSpread(camera, weaponState, _aim);
+        fireBullet(
+          PLAYER_BULLET_TAG,
+          aim.origin,
+          aim.direction,
+          weaponState.weaponId,
+          weaponConfig.ballistics,
+          weaponConfig.maxRange ?? weaponConfig.range * 1.5,
+          1,
+          'player',
+        );
+      } else {
+        performRaycast(
+          camera,
+          scene,
+          enemies,
+          weaponState,
+          weaponConfig,
+          difficulty,
+          result,
+        );
+      }
     }
   }
 
   // Update enemy AI
-  updateEnemies(dt, enemies, camera, difficulty, playerArmor, playerFired, result);
+  updateEnemies(dt, enemies, camera, difficulty, playerArmor, result, perception, cover);
 
   result.crosshairSpread = weaponState.currentSpread;
   return result;
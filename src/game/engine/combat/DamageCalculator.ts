@@ -2,8 +2,13 @@
 
 export type {
   WeaponConfig,
+  BallisticsConfig,
   FpsAccuracyConfig,
+  EnemyVisionConfig,
   EnemyConfig,
+  HitZone,
+  WoundEffect,
+  WeakPointConfig,
   DifficultyConfig,
   DifficultyLevel,
   DamageResult,
@@ -13,6 +18,7 @@ export type {
 
 export {
   getWeaponConfig,
+  getModdedWeaponConfig,
   getEnemyConfig,
   getDifficultyConfig,
 } from './configLookup';
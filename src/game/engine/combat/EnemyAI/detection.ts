@@ -1,3 +1,19 @@
+import * as THREE from 'three';
+import type { PhysicsWorld } from '../../physics/PhysicsWorld';
+import { getEnemyConfig, type EnemyVisionConfig } from '../DamageCalculator';
+import type { PlayerPerception, VisionZone } from './types';
+import {
+  DEFAULT_VISION,
+  EYE_HEIGHT,
+  NO_PERCEPTION,
+  PERIPHERAL_RANGE_FACTOR,
+  PERIPHERAL_VISIBILITY,
+  PROXIMITY_RADIUS,
+} from './types';
+
+/** Hits this close to the player count as reaching them (their own footing, etc.). */
+const LOS_TOLERANCE = 0.5;
+
 export function distanceSq(
   a: { x: number; y: number; z: number },
   b: { x: number; y: number; z: number },
@@ -21,10 +37,93 @@ export function normalize(v: { x: number; y: number; z: number }): { x: number;
   return { x: v.x / len, y: v.y / len, z: v.z / len };
 }
 
-export function canDetectPlayer(
-  enemyPos: { x: number; y: number; z: number },
+export type LineOfSightTest = (
+  from: { x: number; y: number; z: number },
+  to: { x: number; y: number; z: number },
+) => boolean;
+
+export interface PerceptionContext {
+  /** Scene brightness (1 = full daylight); scales how far enemies can see. */
+  lightLevel?: number;
+  /** How far the weather lets anyone see (1 = clear); fog and dust cut it. */
+  visibility?: number;
+  /** Percentage points the weather takes off enemy hit chance. */
+  accuracyPenalty?: number;
+  /** Whether nothing blocks the view between two points; omitted = open ground. */
+  lineOfSight?: LineOfSightTest;
+}
+
+export function getVisionConfig(enemyId: string): EnemyVisionConfig {
+  return getEnemyConfig(enemyId)?.vision ?? DEFAULT_VISION;
+}
+
+/** Yaw that looks from one point toward another, matching Object3D.lookAt. */
+export function yawToward(
+  from: { x: number; z: number },
+  to: { x: number; z: number },
+): number {
+  return Math.atan2(to.x - from.x, to.z - from.z);
+}
+
+/**
+ * Work out what an enemy standing at `position` and looking along `facing`
+ * can see of the player. The focal cone sees out to the full range, cut by
+ * darkness and weather; the wider peripheral cone only catches the player at close range and
+ * gives a weaker read. Anything the line-of-sight test rejects is unseen.
+ */
+export function perceivePlayer(
+  observer: { position: { x: number; y: number; z: number }; facing: number },
   playerPos: { x: number; y: number; z: number },
-  detectionRadius: number,
-): boolean {
-  return distanceSq(enemyPos, playerPos) <= detectionRadius * detectionRadius;
+  vision: EnemyVisionConfig,
+  context: PerceptionContext = {},
+): PlayerPerception {
+  const { lightLevel = 1, visibility: weatherVisibility = 1, lineOfSight } = context;
+  const dist = distance(observer.position, playerPos);
+  const range =
+    vision.range * Math.max(0, Math.min(1, lightLevel)) * Math.max(0, Math.min(1, weatherVisibility));
+  if (dist > range && dist > PROXIMITY_RADIUS) return { ...NO_PERCEPTION, distance: dist };
+
+  const toPlayer = normalize({
+    x: playerPos.x - observer.position.x,
+    y: 0,
+    z: playerPos.z - observer.position.z,
+  });
+  const dot = Math.sin(observer.facing) * toPlayer.x + Math.cos(observer.facing) * toPlayer.z;
+  const angle = (Math.acos(Math.max(-1, Math.min(1, dot))) * 180) / Math.PI;
+
+  let zone: VisionZone = 'none';
+  if (angle <= vision.focalAngle / 2 && dist <= range) {
+    zone = 'focal';
+  } else if (
+    (angle <= vision.peripheralAngle / 2 && dist <= range * PERIPHERAL_RANGE_FACTOR) ||
+    dist <= PROXIMITY_RADIUS
+  ) {
+    zone = 'peripheral';
+  }
+  if (zone === 'none') return { ...NO_PERCEPTION, distance: dist };
+
+  const { x, y, z } = observer.position;
+  const eye = { x, y: y + EYE_HEIGHT, z };
+  if (lineOfSight && !lineOfSight(eye, playerPos)) return { ...NO_PERCEPTION, distance: dist };
+
+  const clarity = range > 0 ? Math.max(0, 1 - dist / range) : 0;
+  let visibility = zone === 'focal' ? clarity : clarity * PERIPHERAL_VISIBILITY;
+  // Someone right alongside can't be missed, even in the dark
+  if (dist <= PROXIMITY_RADIUS) visibility = Math.max(visibility, PERIPHERAL_VISIBILITY);
+  return { zone, visibility, distance: dist };
+}
+
+const _from = new THREE.Vector3();
+const _dir = new THREE.Vector3();
+
+/** Line of sight that raycasts against the physics world's static colliders. */
+export function createPhysicsLineOfSight(world: Pick<PhysicsWorld, 'raycast'>): LineOfSightTest {
+  return (from, to) => {
+    _from.set(from.x, from.y, from.z);
+    _dir.set(to.x - from.x, to.y - from.y, to.z - from.z);
+    const dist = _dir.length();
+    if (dist < 0.0001) return true;
+    const hit = world.raycast(_from, _dir.divideScalar(dist), dist);
+    return !hit.hit || hit.distance >= dist - LOS_TOLERANCE;
+  };
 }
@@ -4,10 +4,16 @@ import {
   WanderBehavior,
 } from 'yuka';
 import { getEnemyConfig } from '../DamageCalculator';
-import type { EnemyAIState } from './types';
+import { NO_PERCEPTION, type EnemyAIState } from './types';
 
 export const entityManager = new EntityManager();
 
+/** Top speed of an unhurt enemy. */
+export function getEnemySpeed(enemyId: string): number {
+  const isFast = getEnemyConfig(enemyId)?.behaviorTags.includes('mobile') ?? false;
+  return isFast ? 4.0 : 2.5;
+}
+
 export function createEnemyAI(
   enemyId: string,
   level: number,
@@ -20,9 +26,7 @@ export function createEnemyAI(
   const vehicle = new Vehicle();
   vehicle.position.set(position.x, position.y, position.z);
 
-  const config = getEnemyConfig(enemyId);
-  const isFast = config?.behaviorTags.includes('mobile') ?? false;
-  vehicle.maxSpeed = isFast ? 4.0 : 2.5;
+  vehicle.maxSpeed = getEnemySpeed(enemyId);
   vehicle.maxForce = vehicle.maxSpeed * 3;
 
   const wander = new WanderBehavior();
@@ -51,6 +55,14 @@ export function createEnemyAI(
     reactionTimer: 0,
     hasReacted: false,
     alertness: 0,
+    facing: 0,
+    perception: { ...NO_PERCEPTION },
+    heardNoise: 0,
+    tactics: null,
+    wounds: { slowed: 0, unsteady: 0 },
+    weakPoints: Object.fromEntries(
+      (getEnemyConfig(enemyId)?.weakPoints ?? []).map((w) => [w.id, w.health]),
+    ),
   };
 }
 
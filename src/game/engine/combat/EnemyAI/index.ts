@@ -1,4 +1,32 @@
-export type { AIState, AIActionType, AIAction, EnemyAIState } from './types';
-export { createEnemyAI, disposeEnemyAI } from './factory';
+export type {
+  AIState,
+  AIActionType,
+  AIAction,
+  EnemyAIState,
+  PlayerPerception,
+  SquadOrder,
+  SquadRole,
+  SquadTactics,
+  VisionZone,
+} from './types';
+export {
+  DEFAULT_VISION,
+  HEARING_THRESHOLD,
+  IN_POSITION_RADIUS,
+  LIMB_WOUND_DURATION,
+  SLOWED_SPEED_FACTOR,
+  UNSTEADY_ACCURACY_PENALTY,
+} from './types';
+export {
+  createPhysicsLineOfSight,
+  getVisionConfig,
+  perceivePlayer,
+  yawToward,
+  type LineOfSightTest,
+  type PerceptionContext,
+} from './detection';
+export { createEnemyAI, disposeEnemyAI, getEnemySpeed } from './factory';
+export { tickWounds, woundEnemy } from './wounds';
 export { updateEnemyAI } from './stateMachine';
+export { alertEnemy } from './stateHandlers';
 export { updateAIEntityManager, applyAIMovement } from './movement';
@@ -10,54 +10,49 @@ import {
   MELEE_RANGE,
   ALERT_DURATION,
   PURSUE_TIMEOUT,
+  IN_POSITION_RADIUS,
+  SUPPRESSOR_ACCURACY_PENALTY,
+  SUPPRESSOR_FIRE_RATE,
+  UNSTEADY_ACCURACY_PENALTY,
 } from './types';
-import { distance, canDetectPlayer, normalize } from './detection';
+import { distance, normalize } from './detection';
+
+/** Go on alert, remembering `source` as where the player was last seen or heard. */
+export function alertEnemy(ai: EnemyAIState, source: { x: number; y: number; z: number }): void {
+  ai.state = 'alert';
+  ai.stateTimer = 0;
+  ai.lastKnownPlayerPos = { ...source };
+  ai.hasReacted = false;
+  ai.reactionTimer = getEnemyReactionTime(ai.enemyId, ai.alertness);
+}
 
 export function updateIdle(
   ai: EnemyAIState,
-  canSeePlayer: boolean,
-  playerFired: boolean,
-  dist: number,
+  noticedPlayer: boolean,
+  noiseSource: { x: number; y: number; z: number } | null,
   playerPos: { x: number; y: number; z: number },
 ): AIAction {
-  if (canSeePlayer) {
-    ai.state = 'alert';
-    ai.stateTimer = 0;
-    ai.lastKnownPlayerPos = { ...playerPos };
-    ai.hasReacted = false;
-    ai.reactionTimer = getEnemyReactionTime(ai.enemyId, ai.alertness);
-  } else if (playerFired && dist <= ALERT_RADIUS) {
-    ai.state = 'alert';
-    ai.stateTimer = 0;
-    ai.lastKnownPlayerPos = { ...playerPos };
-    ai.hasReacted = false;
-    ai.reactionTimer = getEnemyReactionTime(ai.enemyId, ai.alertness);
+  if (noticedPlayer) {
+    alertEnemy(ai, playerPos);
+  } else if (noiseSource) {
+    alertEnemy(ai, noiseSource);
   }
   return { type: 'none' };
 }
 
 export function updatePatrol(
   ai: EnemyAIState,
-  canSeePlayer: boolean,
-  playerFired: boolean,
-  dist: number,
+  noticedPlayer: boolean,
+  noiseSource: { x: number; y: number; z: number } | null,
   playerPos: { x: number; y: number; z: number },
 ): AIAction {
-  if (canSeePlayer) {
-    ai.state = 'alert';
-    ai.stateTimer = 0;
-    ai.lastKnownPlayerPos = { ...playerPos };
-    ai.hasReacted = false;
-    ai.reactionTimer = getEnemyReactionTime(ai.enemyId, ai.alertness);
+  if (noticedPlayer) {
+    alertEnemy(ai, playerPos);
     return { type: 'none' };
   }
 
-  if (playerFired && dist <= ALERT_RADIUS) {
-    ai.state = 'alert';
-    ai.stateTimer = 0;
-    ai.lastKnownPlayerPos = { ...playerPos };
-    ai.hasReacted = false;
-    ai.reactionTimer = getEnemyReactionTime(ai.enemyId, ai.alertness);
+  if (noiseSource) {
+    alertEnemy(ai, noiseSource);
     return { type: 'none' };
   }
 
@@ -150,7 +145,8 @@ export function updatePursue(
     return { type: 'none' };
   }
 
-  const moveTarget = ai.lastKnownPlayerPos ?? playerPos;
+  // Squadmates close in from their cover or flanking spot rather than head-on
+  const moveTarget = ai.tactics?.position ?? ai.lastKnownPlayerPos ?? playerPos;
   return {
     type: 'move',
     targetPosition: { ...moveTarget },
@@ -166,6 +162,7 @@ export function updateAttack(
   isRanged: boolean,
   isMelee: boolean,
   playerPos: { x: number; y: number; z: number },
+  accuracyPenalty = 0,
 ): AIAction {
   if (!canSeePlayer) {
     ai.state = 'pursue';
@@ -183,8 +180,12 @@ export function updateAttack(
     return { type: 'none' };
   }
 
+  const tactics = ai.tactics;
   if (ai.attackCooldown > 0) {
-    if (isRanged && rng() > 0.5) {
+    if (tactics?.position && distance(ai.position, tactics.position) > IN_POSITION_RADIUS) {
+      return { type: 'move', targetPosition: { ...tactics.position } };
+    }
+    if (isRanged && !tactics?.inCover && rng() > 0.5) {
       const toPlayer = normalize({
         x: playerPos.x - ai.position.x,
         y: 0,
@@ -207,16 +208,18 @@ export function updateAttack(
   if (config.weaponId) {
     fireRate = getEnemyFireRate(config.weaponId);
   }
+  const suppressing = tactics?.role === 'suppressor';
+  if (suppressing) {
+    fireRate *= SUPPRESSOR_FIRE_RATE;
+  }
   ai.attackCooldown = 1.0 / Math.max(0.1, fireRate);
 
   const accuracyRoll = rng() * 100;
-  const hitChance = getEnemyAccuracyAtDistance(
-    ai.enemyId,
-    ai.level,
-    dist,
-    'normal',
-    false,
-  );
+  const hitChance =
+    getEnemyAccuracyAtDistance(ai.enemyId, ai.level, dist, 'normal', false, tactics?.inCover) -
+    (suppressing ? SUPPRESSOR_ACCURACY_PENALTY : 0) -
+    (ai.wounds.unsteady > 0 ? UNSTEADY_ACCURACY_PENALTY : 0) -
+    accuracyPenalty;
 
   if (accuracyRoll > hitChance) {
     return { type: 'none' };
@@ -249,6 +252,22 @@ export function updateAttack(
   return { type: 'none' };
 }
 
+/** Fall back to the squad's rally point, keeping an eye out for the player. */
+export function updateRegroup(
+  ai: EnemyAIState,
+  rallyPoint: { x: number; y: number; z: number },
+  canSeePlayer: boolean,
+  playerPos: { x: number; y: number; z: number },
+): AIAction {
+  if (canSeePlayer) {
+    ai.lastKnownPlayerPos = { ...playerPos };
+  }
+  if (distance(ai.position, rallyPoint) <= IN_POSITION_RADIUS * 2) {
+    return { type: 'none' };
+  }
+  return { type: 'move', targetPosition: { ...rallyPoint } };
+}
+
 export function updateFlee(
   ai: EnemyAIState,
   dist: number,
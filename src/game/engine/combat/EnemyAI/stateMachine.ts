@@ -1,8 +1,15 @@
 import Alea from 'alea';
 import { getEnemyConfig } from '../DamageCalculator';
 import type { AIAction, EnemyAIState } from './types';
-import { DETECTION_RADIUS, FLEE_THRESHOLD } from './types';
-import { distance, canDetectPlayer } from './detection';
+import { FLEE_THRESHOLD, HEARD_NOISE_DECAY, HEARING_THRESHOLD } from './types';
+import { loudestNoise, type NoiseEvent } from '../../noise';
+import {
+  distance,
+  getVisionConfig,
+  perceivePlayer,
+  yawToward,
+  type PerceptionContext,
+} from './detection';
 import {
   updateIdle,
   updatePatrol,
@@ -10,13 +17,16 @@ import {
   updatePursue,
   updateAttack,
   updateFlee,
+  updateRegroup,
 } from './stateHandlers';
+import { tickWounds } from './wounds';
 
 export function updateEnemyAI(
   ai: EnemyAIState,
   dt: number,
   playerPos: { x: number; y: number; z: number },
-  playerFired: boolean,
+  noises: readonly NoiseEvent[],
+  perception: PerceptionContext = {},
 ): AIAction {
   if (ai.state === 'dead') {
     return { type: 'none' };
@@ -28,9 +38,24 @@ export function updateEnemyAI(
   const rng = Alea(`${ai.seed}-${Math.floor(ai.stateTimer * 10)}`) as unknown as () => number;
   ai.stateTimer += dt;
   ai.attackCooldown = Math.max(0, ai.attackCooldown - dt);
+  tickWounds(ai, dt);
 
   const dist = distance(ai.position, playerPos);
-  const canSeePlayer = canDetectPlayer(ai.position, playerPos, DETECTION_RADIUS);
+  ai.perception = perceivePlayer(ai, playerPos, getVisionConfig(ai.enemyId), perception);
+  // A peripheral glimpse is enough to put an idle enemy on alert, but it has to
+  // turn and get the player in its focal cone before it will engage
+  const noticedPlayer = ai.perception.zone !== 'none';
+  const canSeePlayer = ai.perception.zone === 'focal';
+
+  const heard = loudestNoise(ai.position, noises);
+  // Noises linger a moment, so the stealth tick (slower than the AI's) still
+  // hears a footstep or shot that landed between its samples
+  ai.heardNoise = Math.max(heard?.intensity ?? 0, ai.heardNoise - dt * HEARD_NOISE_DECAY);
+  // Where the noise came from, if it was loud enough to notice
+  const noiseSource = heard && heard.intensity >= HEARING_THRESHOLD ? heard.event.position : null;
+  if (noiseSource && !canSeePlayer && (ai.state === 'alert' || ai.state === 'pursue')) {
+    ai.lastKnownPlayerPos = { ...noiseSource };
+  }
   const isRanged = config.behaviorTags.includes('ranged');
   const isMelee = config.behaviorTags.includes('melee') || config.behaviorTags.includes('charges');
   const healthPct = ai.health / ai.maxHealth;
@@ -57,23 +82,63 @@ export function updateEnemyAI(
     ai.stateTimer = 0;
   }
 
+  let action: AIAction = { type: 'none' };
+  const rallyPoint = ai.tactics?.order === 'regroup' ? ai.tactics.position : null;
+  const isEngaged = ai.state === 'alert' || ai.state === 'pursue' || ai.state === 'attack';
+  if (rallyPoint && isEngaged) {
+    action = updateRegroup(ai, rallyPoint, canSeePlayer, playerPos);
+    updateFacing(ai, action);
+    return action;
+  }
+
   switch (ai.state) {
     case 'idle':
-      return updateIdle(ai, canSeePlayer, playerFired, dist, playerPos);
+      action = updateIdle(ai, noticedPlayer, noiseSource, playerPos);
+      break;
 
     case 'patrol':
-      return updatePatrol(ai, canSeePlayer, playerFired, dist, playerPos);
+      action = updatePatrol(ai, noticedPlayer, noiseSource, playerPos);
+      break;
 
     case 'alert':
-      return updateAlert(ai, dt, canSeePlayer, dist, config, isMelee, playerPos);
+      action = updateAlert(ai, dt, canSeePlayer, dist, config, isMelee, playerPos);
+      break;
 
     case 'pursue':
-      return updatePursue(ai, canSeePlayer, dist, config, isMelee, playerPos);
+      action = updatePursue(ai, canSeePlayer, dist, config, isMelee, playerPos);
+      break;
 
     case 'attack':
-      return updateAttack(ai, rng, canSeePlayer, dist, config, isRanged, isMelee, playerPos);
+      action = updateAttack(
+        ai,
+        rng,
+        canSeePlayer,
+        dist,
+        config,
+        isRanged,
+        isMelee,
+        playerPos,
+        perception.accuracyPenalty,
+      );
+      break;
 
     case 'flee':
-      return updateFlee(ai, dist, playerPos);
+      action = updateFlee(ai, dist, playerPos);
+      break;
+  }
+
+  updateFacing(ai, action);
+  return action;
+}
+
+/**
+ * Turn the enemy to look where it is heading, or at where it last saw the
+ * player while it is hunting them, so the vision cone follows its attention.
+ */
+function updateFacing(ai: EnemyAIState, action: AIAction): void {
+  const isHunting = ai.state === 'alert' || ai.state === 'pursue' || ai.state === 'attack';
+  const lookAt = isHunting && ai.lastKnownPlayerPos ? ai.lastKnownPlayerPos : action.targetPosition;
+  if (lookAt && distance(ai.position, lookAt) > 0.01) {
+    ai.facing = yawToward(ai.position, lookAt);
   }
 }
@@ -1,4 +1,5 @@
 import type { Vehicle } from 'yuka';
+import type { WoundEffect } from '../damageTypes';
 
 export type AIState =
   | 'idle'
@@ -18,6 +19,31 @@ export interface AIAction {
   damage?: number;
 }
 
+export type VisionZone = 'focal' | 'peripheral' | 'none';
+
+export interface PlayerPerception {
+  /** Which part of the enemy's vision the player is in */
+  zone: VisionZone;
+  /** How clearly the player is seen (0-1), before the player's own stealth modifiers */
+  visibility: number;
+  distance: number;
+}
+
+export type SquadRole = 'suppressor' | 'flanker' | 'rusher';
+
+export type SquadOrder = 'engage' | 'regroup' | 'retreat';
+
+/** What the enemy's squad wants from it; written by the squad coordinator. */
+export interface SquadTactics {
+  squadId: string;
+  role: SquadRole;
+  order: SquadOrder;
+  /** Where to fight from (cover, a flanking spot or the rally point), if anywhere */
+  position: { x: number; y: number; z: number } | null;
+  /** True while the enemy is standing in its assigned cover */
+  inCover: boolean;
+}
+
 export interface EnemyAIState {
   state: AIState;
   enemyId: string;
@@ -36,6 +62,18 @@ export interface EnemyAIState {
   reactionTimer: number;
   hasReacted: boolean;
   alertness: number;
+  /** Yaw in radians the enemy is looking along (0 = +Z) */
+  facing: number;
+  /** What the enemy saw of the player on its last update */
+  perception: PlayerPerception;
+  /** Loudest player noise (0-1) the enemy heard lately, fading at HEARD_NOISE_DECAY */
+  heardNoise: number;
+  /** Orders from the enemy's squad, or null when it fights alone */
+  tactics: SquadTactics | null;
+  /** Seconds left on each wound; Infinity once a part has been shot off */
+  wounds: Record<WoundEffect, number>;
+  /** Damage each of the enemy's weak points can still take, by id */
+  weakPoints: Record<string, number>;
 }
 
 export const DETECTION_RADIUS = 30;
@@ -44,3 +82,34 @@ export const MELEE_RANGE = 2.5;
 export const FLEE_THRESHOLD = 0.2;
 export const ALERT_DURATION = 5.0;
 export const PURSUE_TIMEOUT = 8.0;
+
+/** Vision for enemies whose config doesn't define one. */
+export const DEFAULT_VISION = { range: DETECTION_RADIUS, focalAngle: 60, peripheralAngle: 150 };
+/** The peripheral cone only reaches this fraction of the focal range. */
+export const PERIPHERAL_RANGE_FACTOR = 0.5;
+/** A peripheral glimpse counts for this much of a clear view. */
+export const PERIPHERAL_VISIBILITY = 0.4;
+/** Anyone this close is noticed whichever way the enemy is facing. */
+export const PROXIMITY_RADIUS = 2;
+/** Height of an enemy's eyes above its position. */
+export const EYE_HEIGHT = 1.6;
+
+/** Noises fainter than this at the enemy's position go unnoticed. */
+export const HEARING_THRESHOLD = 0.15;
+/** How fast a heard noise fades, in intensity per second. */
+export const HEARD_NOISE_DECAY = 1;
+
+/** Suppressors trade accuracy for volume of fire to pin the player down. */
+export const SUPPRESSOR_FIRE_RATE = 1.5;
+export const SUPPRESSOR_ACCURACY_PENALTY = 15;
+/** Close enough to an assigned position to count as being there. */
+export const IN_POSITION_RADIUS = 1;
+
+/** Seconds a leg or arm wound hampers the enemy. */
+export const LIMB_WOUND_DURATION = 6;
+/** A slowed enemy moves at this fraction of its usual speed. */
+export const SLOWED_SPEED_FACTOR = 0.5;
+/** Accuracy lost while an enemy's aim is unsteady. */
+export const UNSTEADY_ACCURACY_PENALTY = 25;
+
+export const NO_PERCEPTION: PlayerPerception = { zone: 'none', visibility: 0, distance: Infinity };
@@ -0,0 +1,27 @@
+import type { WoundEffect } from '../damageTypes';
+import { getEnemySpeed } from './factory';
+import type { EnemyAIState } from './types';
+import { LIMB_WOUND_DURATION, SLOWED_SPEED_FACTOR } from './types';
+
+function applySpeed(ai: EnemyAIState): void {
+  const factor = ai.wounds.slowed > 0 ? SLOWED_SPEED_FACTOR : 1;
+  ai.vehicle.maxSpeed = getEnemySpeed(ai.enemyId) * factor;
+}
+
+/** Hamper an enemy for `duration` seconds; pass Infinity for the rest of the fight. */
+export function woundEnemy(
+  ai: EnemyAIState,
+  effect: WoundEffect,
+  duration: number = LIMB_WOUND_DURATION,
+): void {
+  ai.wounds[effect] = Math.max(ai.wounds[effect], duration);
+  if (effect === 'slowed') applySpeed(ai);
+}
+
+/** Let wounds wear off. */
+export function tickWounds(ai: EnemyAIState, dt: number): void {
+  const wasSlowed = ai.wounds.slowed > 0;
+  ai.wounds.slowed = Math.max(0, ai.wounds.slowed - dt);
+  ai.wounds.unsteady = Math.max(0, ai.wounds.unsteady - dt);
+  if (wasSlowed && ai.wounds.slowed === 0) applySpeed(ai);
+}
@@ -8,14 +8,15 @@ import { getEnemyConfig, getDifficultyConfig, getWeaponConfig } from './configLo
  *
  * Uses the enemy's fpsAccuracy config to interpolate between baseAccuracy
  * and minAccuracy based on distance falloff bands. Applies difficulty
- * modifier and optional cover penalty (reduces enemy hit chance when
- * player is behind cover).
+ * modifier and optional cover modifiers (a player behind cover is harder
+ * to hit; an enemy shooting from cover gets a steadier aim).
  *
  * @param enemyId - Enemy definition ID
  * @param level - Enemy level
  * @param distance - Distance to target in meters
  * @param difficulty - Current difficulty level
  * @param playerBehindCover - Whether the player is currently behind cover
+ * @param enemyInCover - Whether the enemy is shooting from cover
  * @returns Effective accuracy percentage (0-100)
  */
 export function getEnemyAccuracyAtDistance(
@@ -24,6 +25,7 @@ export function getEnemyAccuracyAtDistance(
   distance: number,
   difficulty: DifficultyLevel,
   playerBehindCover: boolean = false,
+  enemyInCover: boolean = false,
 ): number {
   const enemy = getEnemyConfig(enemyId);
   if (!enemy) return 30;
@@ -64,6 +66,11 @@ export function getEnemyAccuracyAtDistance(
     accuracy -= fps.coverBonus;
   }
 
+  // Bracing against cover steadies the enemy's aim
+  if (enemyInCover) {
+    accuracy += fps.coverBonus;
+  }
+
   // Difficulty modifier
   accuracy += diff.enemyAccuracyMod;
 
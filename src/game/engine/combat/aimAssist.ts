@@ -0,0 +1,91 @@
+// aimAssist — Helps stick and touch players hold their aim on a target.
+//
+// Two effects, each 0-1:
+//   slowdown  — look input is damped while the sights are near a target, so
+//               sweeping past one doesn't overshoot it.
+//   magnetism — while the player moves or looks, aim is pulled toward the
+//               target nearest the sights. It never turns an idle camera.
+// Both fade out toward the edge of the assist cone. The result is a look
+// correction in InputFrame units for the caller to apply to the player.
+// Line of sight isn't checked; the cone is narrow enough that an enemy
+// behind cover rarely sits inside it.
+
+import * as THREE from 'three';
+import type { InputFrame } from '@/src/game/input/InputFrame';
+import type { CombatEnemy } from './combatTypes';
+
+export interface AimAssistConfig {
+  slowdown: number;
+  magnetism: number;
+}
+
+/** Half-angle of the cone around the sights that a target must be in (radians) */
+export const AIM_ASSIST_CONE = 0.12;
+/** Targets further than this are ignored (metres) */
+export const AIM_ASSIST_RANGE = 60;
+/** Fastest magnetism turns the view, at full strength (radians/second) */
+export const AIM_ASSIST_MAX_PULL = 0.8;
+/** Height above an enemy's feet that aim is drawn to: the torso */
+export const AIM_ASSIST_TARGET_HEIGHT = 0.8;
+
+const _inverse = new THREE.Quaternion();
+const _local = new THREE.Vector3();
+
+/**
+ * Look correction for this tick: positive yaw turns right and positive
+ * pitch looks down, as in InputFrame.look. Zero when no target is in the
+ * cone.
+ */
+export function computeAimAssist(
+  dt: number,
+  input: Readonly<InputFrame>,
+  camera: THREE.Camera,
+  enemies: readonly CombatEnemy[],
+  config: AimAssistConfig,
+): { yaw: number; pitch: number } {
+  const correction = { yaw: 0, pitch: 0 };
+  if (config.slowdown <= 0 && config.magnetism <= 0) return correction;
+
+  // The target nearest the sights, as angles off them
+  _inverse.copy(camera.quaternion).invert();
+  let best: { yaw: number; pitch: number; angle: number } | null = null;
+  for (const enemy of enemies) {
+    if (enemy.ai.state === 'dead') continue;
+    _local
+      .set(
+        enemy.ai.position.x,
+        enemy.ai.position.y + AIM_ASSIST_TARGET_HEIGHT,
+        enemy.ai.position.z,
+      )
+      .sub(camera.position);
+    if (_local.length() > AIM_ASSIST_RANGE) continue;
+    _local.applyQuaternion(_inverse);
+    if (_local.z >= 0) continue; // Behind the camera
+
+    const yaw = Math.atan2(_local.x, -_local.z);
+    const pitch = Math.atan2(_local.y, Math.hypot(_local.x, _local.z));
+    const angle = Math.hypot(yaw, pitch);
+    if (angle < AIM_ASSIST_CONE && (!best || angle < best.angle)) {
+      best = { yaw, pitch, angle };
+    }
+  }
+  if (!best) return correction;
+
+  const falloff = 1 - best.angle / AIM_ASSIST_CONE;
+
+  // Give back part of the look the player has already turned this tick
+  const damping = config.slowdown * falloff;
+  correction.yaw -= input.look.yaw * damping;
+  correction.pitch -= input.look.pitch * damping;
+
+  const isActive =
+    input.move.x !== 0 || input.move.z !== 0 || input.look.yaw !== 0 || input.look.pitch !== 0;
+  if (isActive && config.magnetism > 0 && best.angle > 0) {
+    const pull = Math.min(best.angle, AIM_ASSIST_MAX_PULL * config.magnetism * falloff * dt);
+    correction.yaw += (best.yaw / best.angle) * pull;
+    // Target above the sights (positive pitch) means looking up: negative look pitch
+    correction.pitch -= (best.pitch / best.angle) * pull;
+  }
+
+  return correction;
+}
@@ -0,0 +1,288 @@
+/**
+ * ballistics — Simulated bullets for weapons with a `ballistics` config.
+ *
+ * Instead of an instant hitscan, a shot becomes an ECS projectile with a
+ * muzzle velocity. The ProjectileSystem ages it and pulls it down under
+ * gravity; each tick this module sweeps the stretch it travelled against
+ * the scene. Thin wood and glass can be shot through at a loss of damage,
+ * metal and stone turn glancing shots into ricochets, and anything else
+ * stops the bullet with a spark.
+ *
+ * @module engine/combat/ballistics
+ */
+
+import * as THREE from 'three';
+import { projectiles, world as ecsWorld, type ProjectileEntity } from '../../ecs';
+import { projectileSystem } from '../../ecs/systems/ProjectileSystem';
+import { getSurface, type Surface } from '../materials/surfaces';
+import type { BallisticsConfig, DifficultyLevel } from './DamageCalculator';
+import { createImpactSpark } from './HitEffects';
+import { applyEnemyHit, applyNPCHit, findNPCId, mapEnemyMeshes } from './raycastHit';
+import type { CombatEnemy, CombatTickResult, WeaponRuntimeState } from './combatTypes';
+
+type Vec3 = { x: number; y: number; z: number };
+
+/** ECS tags telling the player's bullets from the enemies'. */
+export const PLAYER_BULLET_TAG = 'projectile:player';
+export const ENEMY_BULLET_TAG = 'projectile:enemy';
+
+/** Downward pull on a bullet in flight (m/s^2). */
+export const BULLET_GRAVITY = 9.81;
+
+/**
+ * Penetration each meter of a surface uses up, relative to wood. Untagged
+ * surfaces are treated as solid.
+ */
+export const SURFACE_RESISTANCE: Record<Surface, number> = {
+  wood: 1,
+  glass: 0.25,
+  metal: 10,
+  stone: Number.POSITIVE_INFINITY,
+};
+
+/** Share of a bullet's damage lost per meter of wood-equivalent it passes through. */
+export const DAMAGE_LOSS_PER_METER = 2;
+
+/** Hits on metal or stone flatter than this (cosine to the surface normal) glance off. */
+export const RICOCHET_MAX_COS = 0.25;
+/** Speed and damage a bullet keeps after a ricochet. */
+const RICOCHET_SPEED_KEPT = 0.6;
+const RICOCHET_DAMAGE_KEPT = 0.5;
+
+/** Radius of the sphere around the player's chest that enemy bullets hit. */
+export const PLAYER_HIT_RADIUS = 0.5;
+/** How far the player's chest sits below the camera. */
+export const PLAYER_CHEST_DROP = 0.5;
+
+/** Surfaces that can deflect a bullet. */
+const HARD_SURFACES: ReadonlySet<Surface> = new Set(['metal', 'stone']);
+
+const _raycaster = new THREE.Raycaster();
+const _start = new THREE.Vector3();
+const _dir = new THREE.Vector3();
+const _normal = new THREE.Vector3();
+const _box = new THREE.Box3();
+const _exit = new THREE.Vector3();
+const _ray = new THREE.Ray();
+
+/**
+ * Put a bullet in flight from `origin` along `direction`. `damage` is a
+ * multiplier on the weapon's damage for player bullets, and the damage in
+ * hit points for enemy bullets (worked out when they fire).
+ */
+export function fireBullet(
+  tag: typeof PLAYER_BULLET_TAG | typeof ENEMY_BULLET_TAG,
+  origin: Vec3,
+  direction: Vec3,
+  weaponId: string,
+  ballistics: BallisticsConfig,
+  maxRange: number,
+  damage: number,
+  ownerId: string,
+): void {
+  const len = Math.sqrt(direction.x ** 2 + direction.y ** 2 + direction.z ** 2) || 1;
+  const dir = { x: direction.x / len, y: direction.y / len, z: direction.z / len };
+  const speed = ballistics.muzzleVelocity;
+
+  ecsWorld.add({
+    tag,
+    position: { ...origin },
+    velocity: { x: dir.x * speed, y: dir.y * speed, z: dir.z * speed },
+    projectile: {
+      weaponId,
+      damage,
+      speed,
+      origin: { ...origin },
+      direction: dir,
+      lifetime: maxRange / speed,
+      age: 0,
+      gravity: BULLET_GRAVITY,
+      penetration: ballistics.penetration,
+      ownerId,
+    },
+  });
+}
+
+/** How far the ray travels inside `object`'s bounding box after `entry`. */
+function thicknessAt(object: THREE.Object3D, entry: THREE.Vector3, dir: THREE.Vector3): number {
+  _box.setFromObject(object);
+  // Step just inside, then find where the ray leaves the box from there
+  _ray.origin.copy(entry).addScaledVector(dir, 0.001);
+  _ray.direction.copy(dir);
+  if (!_box.containsPoint(_ray.origin)) return 0;
+  _ray.origin.addScaledVector(dir, 1000);
+  _ray.direction.negate();
+  if (!_ray.intersectBox(_box, _exit)) return 0;
+  return _exit.distanceTo(entry);
+}
+
+/** Distance along the segment at which it passes within `radius` of `center`, if it does. */
+function sweepSphere(
+  start: THREE.Vector3,
+  dir: THREE.Vector3,
+  length: number,
+  center: Vec3,
+  radius: number,
+): number | null {
+  const ox = start.x - center.x;
+  const oy = start.y - center.y;
+  const oz = start.z - center.z;
+  const b = ox * dir.x + oy * dir.y + oz * dir.z;
+  const c = ox * ox + oy * oy + oz * oz - radius * radius;
+  const disc = b * b - c;
+  if (disc < 0) return null;
+  const t = -b - Math.sqrt(disc);
+  if (t > length) return null;
+  if (t < 0) return c <= 0 ? 0 : null;
+  return t;
+}
+
+/**
+ * Advance every bullet by `dt`: age it and apply drop, then trace the
+ * distance it covers against the scene, the enemies and the player.
+ */
+export function stepBullets(
+  dt: number,
+  scene: THREE.Scene,
+  enemies: CombatEnemy[],
+  playerPos: Vec3,
+  weaponState: WeaponRuntimeState,
+  difficulty: DifficultyLevel,
+  result: CombatTickResult,
+): void {
+  // Ages, drops and expires the bullets; nothing is hit by sphere overlap
+  projectileSystem(ecsWorld, dt, []);
+
+  const meshToEnemy = mapEnemyMeshes(enemies);
+  const chest = { x: playerPos.x, y: playerPos.y - PLAYER_CHEST_DROP, z: playerPos.z };
+  const spent: ProjectileEntity[] = [];
+
+  for (const bullet of [...projectiles]) {
+    const fromPlayer = bullet.tag === PLAYER_BULLET_TAG;
+    if (!fromPlayer && bullet.tag !== ENEMY_BULLET_TAG) continue;
+    const shot = bullet.projectile;
+
+    _start.set(bullet.position.x, bullet.position.y, bullet.position.z);
+    _dir.set(bullet.velocity.x, bullet.velocity.y, bullet.velocity.z);
+    const speed = _dir.length();
+    let remaining = speed * dt;
+    _dir.normalize();
+
+    let stopped = false;
+    // Whatever we pass through this tick is left out of later hits
+    const passed = new Set<THREE.Object3D>();
+
+    _raycaster.set(_start, _dir);
+    _raycaster.far = remaining;
+    const hits = _raycaster
+      .intersectObjects(scene.children, true)
+      .filter((hit) => (hit.object as THREE.Mesh).isMesh && hit.object.visible);
+
+    const playerAt = fromPlayer
+      ? null
+      : sweepSphere(_start, _dir, remaining, chest, PLAYER_HIT_RADIUS);
+
+    for (const hit of hits) {
+      if (passed.has(hit.object)) continue;
+
+      if (playerAt !== null && playerAt <= hit.distance) break;
+
+      const travelled = Math.sqrt(
+        (hit.point.x - shot.origin.x) ** 2 +
+          (hit.point.y - shot.origin.y) ** 2 +
+          (hit.point.z - shot.origin.z) ** 2,
+      );
+
+      const enemy = meshToEnemy.get(hit.object);
+      if (enemy) {
+        // Enemies don't shoot each other
+        if (!fromPlayer) continue;
+        applyEnemyHit(
+          enemy,
+          hit.object,
+          hit.point,
+          travelled,
+          shot.weaponId,
+          weaponState,
+          difficulty,
+          result,
+          shot.damage,
+        );
+        stopped = true;
+        break;
+      }
+
+      const npcId = fromPlayer ? findNPCId(hit.object) : null;
+      if (npcId) {
+        applyNPCHit(
+          npcId,
+          hit.point,
+          travelled,
+          shot.weaponId,
+          weaponState,
+          difficulty,
+          result,
+          shot.damage,
+        );
+        stopped = true;
+        break;
+      }
+
+      const surface = getSurface(hit.object);
+      if (hit.face) {
+        _normal.copy(hit.face.normal).transformDirection(hit.object.matrixWorld);
+      } else {
+        _normal.copy(_dir).negate();
+      }
+      result.impactSparks.push(
+        createImpactSpark(
+          { x: hit.point.x, y: hit.point.y, z: hit.point.z },
+          { x: _normal.x, y: _normal.y, z: _normal.z },
+        ),
+      );
+
+      const cos = Math.abs(_dir.dot(_normal));
+      if (surface && HARD_SURFACES.has(surface) && cos < RICOCHET_MAX_COS) {
+        // Glance off, carrying on from the point of impact next tick
+        _dir.reflect(_normal);
+        const kept = speed * RICOCHET_SPEED_KEPT;
+        bullet.position = { x: hit.point.x, y: hit.point.y, z: hit.point.z };
+        bullet.velocity = { x: _dir.x * kept, y: _dir.y * kept, z: _dir.z * kept };
+        shot.damage *= RICOCHET_DAMAGE_KEPT;
+        remaining = 0;
+        break;
+      }
+
+      const thickness = thicknessAt(hit.object, hit.point, _dir);
+      const cost = thickness * (surface ? SURFACE_RESISTANCE[surface] : Number.POSITIVE_INFINITY);
+      const penetration = shot.penetration ?? 0;
+      if (cost <= penetration) {
+        shot.penetration = penetration - cost;
+        shot.damage *= Math.max(0, 1 - cost * DAMAGE_LOSS_PER_METER);
+        passed.add(hit.object);
+        if (shot.damage > 0) continue;
+      }
+      stopped = true;
+      break;
+    }
+
+    if (!stopped && playerAt !== null) {
+      result.playerDamageEvents.push({
+        damage: shot.damage,
+        attackerEntityId: shot.ownerId ?? '',
+        attackDirection: { x: _dir.x, y: _dir.y, z: _dir.z },
+      });
+      stopped = true;
+    }
+
+    if (stopped) {
+      spent.push(bullet);
+    } else if (remaining > 0) {
+      bullet.position.x += _dir.x * remaining;
+      bullet.position.y += _dir.y * remaining;
+      bullet.position.z += _dir.z * remaining;
+    }
+  }
+
+  for (const bullet of spent) ecsWorld.remove(bullet);
+}
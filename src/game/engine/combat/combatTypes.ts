@@ -18,6 +18,16 @@ export interface WeaponRuntimeState {
   reloadPhase: ReloadPhase;
   reloadTimer: number;
   currentSpread: number;
+  /** Condition of the equipped weapon (0-100), synced from the inventory */
+  condition: number;
+  /** True while the weapon is jammed and cannot fire */
+  jammed: boolean;
+  /** Seconds left clearing the current jam */
+  jamClearTimer: number;
+  /** Perks the player has taken, synced from the store */
+  perks: string[];
+  /** Mods fitted to the equipped weapon, synced from the inventory */
+  mods: string[];
 }
 
 export interface CombatEnemy {
@@ -26,6 +36,8 @@ export interface CombatEnemy {
   level: number;
   meshGroup: THREE.Group;
   ai: EnemyAIState;
+  /** Can be taken alive: a killing blow to a limb subdues them instead */
+  capturable?: boolean;
 }
 
 export interface KilledEnemyData {
@@ -41,6 +53,15 @@ export interface KilledEnemyData {
     rare: string[];
   };
   deathPosition: { x: number; y: number; z: number };
+  /** Brought down alive by a limb shot rather than killed */
+  subdued: boolean;
+}
+
+/** A player shot that landed on a townsperson */
+export interface NPCHit {
+  npcId: string;
+  damage: number;
+  position: { x: number; y: number; z: number };
 }
 
 export interface CombatTickResult {
@@ -56,7 +77,15 @@ export interface CombatTickResult {
   }>;
   killedEnemies: string[];
   killedEnemyData: KilledEnemyData[];
+  /** Townsfolk shot this tick; the scene tracks their health */
+  npcHits: NPCHit[];
   playerFired: boolean;
+  /** Condition the weapon lost this tick */
+  weaponWear: number;
+  /** True on the tick the weapon jammed */
+  weaponJammed: boolean;
   weaponState: Readonly<WeaponRuntimeState>;
   crosshairSpread: number;
+  /** Look correction from aim assist, for the caller to apply to the player */
+  aimAssist: { yaw: number; pitch: number };
 }
@@ -0,0 +1,115 @@
+// companionFire — Companions shooting alongside the player in the FPS loop.
+//
+// Companions don't raycast or carry ammo. Each one picks the nearest enemy
+// already in the fight (pursuing or attacking) inside their weapon's reach
+// and with a clear line, waits out their weapon's fire rate, and rolls
+// their marksmanship, falling off with range, to land the shot. Hits go
+// through applyEnemyHit so kills, loot and quest credit flow exactly as
+// they do for the player's own. Enemies don't shoot back at companions;
+// the player stays the only target.
+
+import * as THREE from 'three';
+import { scopedRNG, rngTick } from '../../lib/prng';
+import type { CombatEnemy, CombatTickResult, WeaponRuntimeState } from './combatTypes';
+import { getWeaponConfig, type DifficultyLevel } from './DamageCalculator';
+import type { LineOfSightTest } from './EnemyAI';
+import { applyEnemyHit } from './raycastHit';
+
+export interface CompanionGunner {
+  id: string;
+  /** Feet position, kept up to date by whoever moves the companion */
+  position: { x: number; y: number; z: number };
+  /** Carries the weapon id and the fire cooldown between ticks */
+  weaponState: WeaponRuntimeState;
+  /** Chance (0-1) a shot lands at point blank */
+  marksmanship: number;
+}
+
+/** Companions fire this much slower than the weapon allows */
+export const COMPANION_FIRE_DELAY = 1.6;
+/** Height of a companion's gun above their feet (metres) */
+export const COMPANION_MUZZLE_HEIGHT = 1.4;
+/** Height above an enemy's feet that companions aim for: the torso */
+const COMPANION_AIM_HEIGHT = 0.7;
+
+const _point = new THREE.Vector3();
+
+/**
+ * Step every companion's gun. Returns the weapon id of each shot fired so
+ * the caller can play it.
+ */
+export function stepCompanionFire(
+  dt: number,
+  gunners: readonly CompanionGunner[],
+  enemies: readonly CombatEnemy[],
+  difficulty: DifficultyLevel,
+  result: CombatTickResult,
+  lineOfSight?: LineOfSightTest,
+): string[] {
+  const shots: string[] = [];
+
+  for (const gunner of gunners) {
+    const weaponState = gunner.weaponState;
+    weaponState.fireCooldown = Math.max(0, weaponState.fireCooldown - dt);
+    if (weaponState.fireCooldown > 0) continue;
+
+    const weapon = getWeaponConfig(weaponState.weaponId);
+    if (!weapon || weapon.fireRate <= 0) continue;
+    const maxRange = weapon.maxRange ?? weapon.range * 1.5;
+
+    const muzzle = {
+      x: gunner.position.x,
+      y: gunner.position.y + COMPANION_MUZZLE_HEIGHT,
+      z: gunner.position.z,
+    };
+
+    let target: CombatEnemy | null = null;
+    let targetDist = maxRange;
+    for (const enemy of enemies) {
+      if (enemy.ai.state !== 'pursue' && enemy.ai.state !== 'attack') continue;
+      const dx = enemy.ai.position.x - muzzle.x;
+      const dz = enemy.ai.position.z - muzzle.z;
+      const dist = Math.sqrt(dx * dx + dz * dz);
+      if (dist > targetDist) continue;
+      const aim = {
+        x: enemy.ai.position.x,
+        y: enemy.ai.position.y + COMPANION_AIM_HEIGHT,
+        z: enemy.ai.position.z,
+      };
+      if (lineOfSight && !lineOfSight(muzzle, aim)) continue;
+      target = enemy;
+      targetDist = dist;
+    }
+    if (!target) continue;
+
+    weaponState.fireCooldown = (1 / weapon.fireRate) * COMPANION_FIRE_DELAY;
+    shots.push(weaponState.weaponId);
+
+    // Full marksmanship within the weapon's effective range, fading to a
+    // third of it at the edge of its reach
+    const overRange = Math.max(0, targetDist - weapon.range) / Math.max(1, maxRange - weapon.range);
+    const hitChance = gunner.marksmanship * (1 - (2 / 3) * Math.min(1, overRange));
+    if (scopedRNG('companion', 42, rngTick()) >= hitChance) continue;
+
+    // A companion's hit shouldn't flash the player's own hit marker
+    const hitMarker = result.hitMarker;
+    _point.set(
+      target.ai.position.x,
+      target.ai.position.y + COMPANION_AIM_HEIGHT,
+      target.ai.position.z,
+    );
+    applyEnemyHit(
+      target,
+      target.meshGroup,
+      _point,
+      targetDist,
+      weaponState.weaponId,
+      weaponState,
+      difficulty,
+      result,
+    );
+    result.hitMarker = hitMarker;
+  }
+
+  return shots;
+}
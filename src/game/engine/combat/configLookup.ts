@@ -3,6 +3,8 @@
 import weaponsData from '@/config/game/weapons.json';
 import enemiesData from '@/config/game/enemies.json';
 import difficultyData from '@/config/game/difficulty.json';
+import { applyWeaponMods } from '@/src/game/data/items/weaponMods';
+import type { WeaponStats } from '@/src/game/data/schemas/item';
 
 import type { WeaponConfig, EnemyConfig, DifficultyConfig, DifficultyLevel } from './damageTypes';
 
@@ -22,6 +24,51 @@ export function getWeaponConfig(weaponId: string): WeaponConfig | undefined {
   return weaponsByIdMap.get(weaponId);
 }
 
+const moddedWeaponsByKey = new Map<string, WeaponConfig>();
+
+/**
+ * Get a weapon's config with its fitted mods applied, the same stat changes
+ * applyWeaponMods makes to the item's WeaponStats. Cached per mod loadout.
+ */
+export function getModdedWeaponConfig(
+  weaponId: string,
+  modIds: readonly string[] = [],
+): WeaponConfig | undefined {
+  const weapon = weaponsByIdMap.get(weaponId);
+  if (!weapon || modIds.length === 0) return weapon;
+
+  const key = `${weaponId}:${modIds.join(',')}`;
+  const cached = moddedWeaponsByKey.get(key);
+  if (cached) return cached;
+
+  const stats = applyWeaponMods(
+    {
+      weaponType: weapon.weaponType as WeaponStats['weaponType'],
+      damage: weapon.damage,
+      range: weapon.range,
+      accuracy: weapon.accuracy,
+      fireRate: weapon.fireRate,
+      ammoType: weapon.ammoType as WeaponStats['ammoType'],
+      clipSize: weapon.ammoCapacity,
+      reloadTime: weapon.reloadTime,
+    },
+    modIds,
+  );
+  const modded: WeaponConfig = {
+    ...weapon,
+    damage: stats.damage,
+    range: stats.range,
+    maxRange:
+      weapon.maxRange === undefined ? undefined : weapon.maxRange + stats.range - weapon.range,
+    accuracy: stats.accuracy,
+    fireRate: stats.fireRate,
+    ammoCapacity: stats.clipSize,
+    reloadTime: stats.reloadTime,
+  };
+  moddedWeaponsByKey.set(key, modded);
+  return modded;
+}
+
 export function getEnemyConfig(enemyId: string): EnemyConfig | undefined {
   return enemiesByIdMap.get(enemyId);
 }
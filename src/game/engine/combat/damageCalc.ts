@@ -6,7 +6,13 @@ import type {
   EnemyDamageResult,
   ScaledEnemyStats,
 } from './damageTypes';
-import { getDifficultyConfig, getEnemyConfig, getWeaponConfig } from './configLookup';
+import {
+  getDifficultyConfig,
+  getEnemyConfig,
+  getModdedWeaponConfig,
+  getWeaponConfig,
+} from './configLookup';
+import { getPerkModifier } from '@/src/game/data/perks';
 
 /** Base headshot multiplier before difficulty adjustments. */
 const HEADSHOT_MULTIPLIER = 2.5;
@@ -50,6 +56,9 @@ export function distanceFalloff(
  * @param isHeadshot - Whether the ray hit the headshot zone
  * @param difficulty - Current difficulty level
  * @param enemyArmor - Target's armor value (flat damage reduction)
+ * @param conditionMultiplier - Weapon wear multiplier (1 = pristine)
+ * @param perkIds - Perks the player has taken
+ * @param modIds - Mods fitted to the weapon
  * @returns Full damage breakdown
  */
 export function calculateDamage(
@@ -58,8 +67,11 @@ export function calculateDamage(
   isHeadshot: boolean,
   difficulty: DifficultyLevel,
   enemyArmor: number = 0,
+  conditionMultiplier: number = 1,
+  perkIds: readonly string[] = [],
+  modIds: readonly string[] = [],
 ): DamageResult {
-  const weapon = getWeaponConfig(weaponId);
+  const weapon = getModdedWeaponConfig(weaponId, modIds);
   if (!weapon) {
     return {
       damage: 0,
@@ -72,8 +84,11 @@ export function calculateDamage(
 
   const diff = getDifficultyConfig(difficulty);
 
-  // Base damage
-  let dmg = weapon.damage;
+  // Base damage, reduced by weapon wear
+  let dmg = weapon.damage * conditionMultiplier;
+
+  // Gun and melee perks
+  dmg *= getPerkModifier(perkIds, weapon.ammoType === 'none' ? 'melee_damage' : 'gun_damage');
 
   // Distance falloff (uses maxRange from config)
   const falloff = distanceFalloff(distance, weapon.range, weapon.maxRange);
@@ -15,6 +15,10 @@ export interface WeaponConfig {
   fireRate: number;
   reloadTime: number;
   spread: number;
+  /** Radius in meters a shot (or swing) can be heard from. Falls back to NOISE_RADII. */
+  loudness?: number;
+  /** Fire simulated bullets instead of an instant hitscan. */
+  ballistics?: BallisticsConfig;
   ammoCapacity: number;
   ammoType: string;
   value: number;
@@ -23,6 +27,13 @@ export interface WeaponConfig {
   enemyFireRateMultiplier?: number;
 }
 
+export interface BallisticsConfig {
+  /** Bullet speed leaving the barrel, in meters per second. */
+  muzzleVelocity: number;
+  /** How much wood (in meters) a bullet can punch through; denser surfaces cost more. */
+  penetration: number;
+}
+
 export interface FpsAccuracyConfig {
   /** Base accuracy percentage (0-100) at close range. */
   baseAccuracy: number;
@@ -40,6 +51,34 @@ export interface FpsAccuracyConfig {
   reactionTimeMax: number;
 }
 
+export interface EnemyVisionConfig {
+  /** How far the enemy can see in full daylight (meters). */
+  range: number;
+  /** Full width of the focal cone in degrees — anything inside it is seen clearly. */
+  focalAngle: number;
+  /** Full width of the peripheral cone in degrees — only catches the player up close. */
+  peripheralAngle: number;
+}
+
+/** Part of an enemy's body a shot lands on. */
+export type HitZone = 'head' | 'torso' | 'arm' | 'leg';
+
+/** Lasting harm from a limb hit or a part being shot off. */
+export type WoundEffect = 'slowed' | 'unsteady';
+
+/** A component that can be shot off a mechanical enemy. */
+export interface WeakPointConfig {
+  /** Matches `userData.weakPoint` on the part of the enemy's mesh */
+  id: string;
+  name: string;
+  /** Damage the part soaks up before it breaks off */
+  health: number;
+  /** Extra damage the enemy takes from hits on the part */
+  damageMultiplier: number;
+  /** What losing the part does to the enemy for the rest of the fight */
+  effect?: WoundEffect;
+}
+
 export interface EnemyConfig {
   id: string;
   name: string;
@@ -73,6 +112,11 @@ export interface EnemyConfig {
   };
   /** FPS-specific accuracy, reaction time, and cover modifiers. */
   fpsAccuracy?: FpsAccuracyConfig;
+  /** Vision cone; enemies without one use DEFAULT_VISION. */
+  vision?: EnemyVisionConfig;
+  /** Damage multiplier per hit zone, over DEFAULT_HIT_ZONES. */
+  hitZones?: Partial<Record<HitZone, number>>;
+  weakPoints?: WeakPointConfig[];
   behaviorTags: string[];
   minLevel: number;
   maxLevel: number;
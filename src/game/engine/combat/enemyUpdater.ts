@@ -1,13 +1,58 @@
-import * as THREE from 'three';
-import { calculateEnemyDamage, type DifficultyLevel } from './DamageCalculator';
+import type * as THREE from 'three';
+import {
+  calculateEnemyDamage,
+  getEnemyConfig,
+  getWeaponConfig,
+  type DifficultyLevel,
+} from './DamageCalculator';
 import {
   updateEnemyAI,
   applyAIMovement,
   updateAIEntityManager,
+  type PerceptionContext,
 } from './EnemyAI';
 import type { CombatEnemy, CombatTickResult } from './combatTypes';
+import { noiseBus } from '../noise';
+import { NO_COVER, squadCoordinator, type CoverProvider } from './squad';
+import { BULLET_GRAVITY, ENEMY_BULLET_TAG, fireBullet, PLAYER_CHEST_DROP } from './ballistics';
+
+/** Height above an enemy's feet that its rifle fires from. */
+const ENEMY_MUZZLE_HEIGHT = 1.3;
+
+/**
+ * Send a rifle bullet at the player's chest, aimed high enough to allow for
+ * drop. Returns false if the enemy's weapon fires hitscan.
+ */
+function fireEnemyBullet(
+  enemy: CombatEnemy,
+  playerPos: { x: number; y: number; z: number },
+  damage: number,
+): boolean {
+  const weapon = getWeaponConfig(getEnemyConfig(enemy.enemyId)?.weaponId ?? '');
+  if (!weapon?.ballistics) return false;
 
-const _tempVec3 = new THREE.Vector3();
+  const origin = {
+    x: enemy.ai.position.x,
+    y: enemy.ai.position.y + ENEMY_MUZZLE_HEIGHT,
+    z: enemy.ai.position.z,
+  };
+  const dx = playerPos.x - origin.x;
+  const dz = playerPos.z - origin.z;
+  const travelTime = Math.sqrt(dx * dx + dz * dz) / weapon.ballistics.muzzleVelocity;
+  const drop = 0.5 * BULLET_GRAVITY * travelTime * travelTime;
+
+  fireBullet(
+    ENEMY_BULLET_TAG,
+    origin,
+    { x: dx, y: playerPos.y - PLAYER_CHEST_DROP + drop - origin.y, z: dz },
+    weapon.id,
+    weapon.ballistics,
+    weapon.maxRange ?? weapon.range * 1.5,
+    damage,
+    enemy.entityId,
+  );
+  return true;
+}
 
 export function updateEnemies(
   dt: number,
@@ -15,10 +60,13 @@ export function updateEnemies(
   camera: THREE.Camera,
   difficulty: DifficultyLevel,
   playerArmor: number,
-  playerFired: boolean,
   result: CombatTickResult,
+  perception: PerceptionContext = {},
+  cover: CoverProvider = NO_COVER,
 ): void {
   updateAIEntityManager(dt);
+  const noises = noiseBus.drain();
+  squadCoordinator.update(enemies.map((e) => e.ai), dt, cover());
 
   const playerPos = {
     x: camera.position.x,
@@ -29,7 +77,7 @@ export function updateEnemies(
   for (const enemy of enemies) {
     if (enemy.ai.state === 'dead') continue;
 
-    const action = updateEnemyAI(enemy.ai, dt, playerPos, playerFired);
+    const action = updateEnemyAI(enemy.ai, dt, playerPos, noises, perception);
     applyAIMovement(enemy.ai, action, dt);
 
     enemy.meshGroup.position.set(
@@ -37,15 +85,8 @@ export function updateEnemies(
       enemy.ai.position.y,
       enemy.ai.position.z,
     );
-
-    if (
-      enemy.ai.state === 'attack' ||
-      enemy.ai.state === 'pursue' ||
-      enemy.ai.state === 'alert'
-    ) {
-      _tempVec3.set(playerPos.x, enemy.ai.position.y, playerPos.z);
-      enemy.meshGroup.lookAt(_tempVec3);
-    }
+    // Keep the model pointing where the AI is actually looking
+    enemy.meshGroup.rotation.y = enemy.ai.facing;
 
     if (
       (action.type === 'attack_melee' || action.type === 'attack_ranged') &&
@@ -62,6 +103,11 @@ export function updateEnemies(
         ),
       );
 
+      // Rifle fire has to reach the player first, and may hit cover instead
+      if (action.type === 'attack_ranged' && fireEnemyBullet(enemy, playerPos, enemyDamage.damage)) {
+        continue;
+      }
+
       result.playerDamageEvents.push({
         damage: enemyDamage.damage,
         attackerEntityId: enemy.entityId,
@@ -0,0 +1,112 @@
+// hitZones — Which part of an enemy a shot landed on, and what that does to it.
+//
+// Body plans come from the part names the renderers give their meshes
+// (`head`, `body`, `arm_l`, `leg_fr`, `pincer_r`...). Parts that can be shot
+// off a machine carry `userData.weakPoint` set to an id from the enemy's
+// config.
+
+import type * as THREE from 'three';
+import { HEAD_RADIUS } from '@/src/game/engine/renderers/ChibiRenderer';
+import { woundEnemy } from './EnemyAI';
+import { getEnemyConfig, type HitZone, type WeakPointConfig, type WoundEffect } from './DamageCalculator';
+import type { CombatEnemy } from './combatTypes';
+
+const CHIBI_HEAD_CENTER_Y = 1.15;
+/** Unnamed parts above this height (before scaling) count as the head. */
+export const HEADSHOT_ZONE_MIN_Y = CHIBI_HEAD_CENTER_Y + HEAD_RADIUS * 0.4;
+
+/** Damage multipliers for enemies whose config doesn't set its own. */
+export const DEFAULT_HIT_ZONES: Record<HitZone, number> = {
+  // Weapons carry their own headshot multiplier on top of this
+  head: 1,
+  torso: 1,
+  arm: 0.75,
+  leg: 0.8,
+};
+
+/** Wounds inflicted by hits to each limb. */
+export const ZONE_WOUNDS: Partial<Record<HitZone, WoundEffect>> = {
+  leg: 'slowed',
+  arm: 'unsteady',
+};
+
+/** Zones where a killing blow subdues a capturable enemy instead. */
+export const NON_LETHAL_ZONES: readonly HitZone[] = ['arm', 'leg'];
+
+export interface ZoneHit {
+  zone: HitZone;
+  /** The weak point part that was struck, if it was one */
+  weakPoint: THREE.Object3D | null;
+}
+
+function zoneFromName(name: string): HitZone | null {
+  if (name === 'head' || name === 'eye') return 'head';
+  if (name === 'body') return 'torso';
+  if (name.startsWith('arm_') || name.startsWith('pincer_')) return 'arm';
+  if (name.startsWith('leg')) return 'leg';
+  return null;
+}
+
+/**
+ * Walk up from the struck mesh to the enemy's root to find the body part
+ * it belongs to. Anything unnamed falls back to the height of the hit,
+ * `relativeY` above the enemy's feet.
+ */
+export function resolveHitZone(
+  object: THREE.Object3D,
+  root: THREE.Object3D,
+  relativeY: number,
+): ZoneHit {
+  let zone: HitZone | null = null;
+  let weakPoint: THREE.Object3D | null = null;
+  for (let node: THREE.Object3D | null = object; node; node = node.parent) {
+    if (!weakPoint && node.userData.weakPoint) weakPoint = node;
+    zone ??= zoneFromName(node.name);
+    if (node === root) break;
+  }
+  if (!zone) {
+    zone = relativeY >= HEADSHOT_ZONE_MIN_Y * root.scale.y ? 'head' : 'torso';
+  }
+  return { zone, weakPoint };
+}
+
+export function getZoneMultiplier(enemyId: string, zone: HitZone): number {
+  return getEnemyConfig(enemyId)?.hitZones?.[zone] ?? DEFAULT_HIT_ZONES[zone];
+}
+
+/** Config for a struck weak point that hasn't been shot off yet. */
+export function getIntactWeakPoint(
+  enemy: CombatEnemy,
+  part: THREE.Object3D | null,
+): WeakPointConfig | null {
+  if (!part) return null;
+  const id = part.userData.weakPoint as string;
+  if (!(enemy.ai.weakPoints[id] > 0)) return null;
+  return getEnemyConfig(enemy.enemyId)?.weakPoints?.find((w) => w.id === id) ?? null;
+}
+
+/**
+ * Wear down a weak point. Once it breaks, every part sharing its id drops
+ * out of sight and the enemy suffers its effect for good. Returns true on
+ * the hit that breaks it.
+ */
+export function damageWeakPoint(
+  enemy: CombatEnemy,
+  weakPoint: WeakPointConfig,
+  damage: number,
+): boolean {
+  enemy.ai.weakPoints[weakPoint.id] = Math.max(0, enemy.ai.weakPoints[weakPoint.id] - damage);
+  if (enemy.ai.weakPoints[weakPoint.id] > 0) return false;
+
+  enemy.meshGroup.traverse((child) => {
+    if (child.userData.weakPoint === weakPoint.id) child.visible = false;
+  });
+  if (weakPoint.effect) woundEnemy(enemy.ai, weakPoint.effect, Number.POSITIVE_INFINITY);
+  return true;
+}
+
+/** Hamper an enemy hit in a limb. */
+export function woundByZone(enemy: CombatEnemy, zone: HitZone): void {
+  const effect = ZONE_WOUNDS[zone];
+  if (effect) woundEnemy(enemy.ai, effect);
+}
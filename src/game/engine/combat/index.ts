@@ -6,6 +6,7 @@ export {
   type CombatEnemy,
   type CombatTickResult,
   type KilledEnemyData,
+  type NPCHit,
   type WeaponRuntimeState,
   type ReloadPhase,
 } from './CombatManager';
@@ -15,6 +16,7 @@ export {
   calculateEnemyDamage,
   distanceFalloff,
   getWeaponConfig,
+  getModdedWeaponConfig,
   getEnemyConfig,
   getDifficultyConfig,
   getScaledEnemyStats,
@@ -24,8 +26,13 @@ export {
   type DamageResult,
   type EnemyDamageResult,
   type WeaponConfig,
+  type BallisticsConfig,
   type EnemyConfig,
+  type HitZone,
+  type WeakPointConfig,
+  type WoundEffect,
   type FpsAccuracyConfig,
+  type EnemyVisionConfig,
   type DifficultyConfig,
   type DifficultyLevel,
   type ScaledEnemyStats,
@@ -37,12 +44,84 @@ export {
   updateEnemyAI,
   applyAIMovement,
   updateAIEntityManager,
+  createPhysicsLineOfSight,
+  getVisionConfig,
+  perceivePlayer,
+  yawToward,
+  alertEnemy,
+  woundEnemy,
+  getEnemySpeed,
+  DEFAULT_VISION,
+  HEARING_THRESHOLD,
+  IN_POSITION_RADIUS,
+  LIMB_WOUND_DURATION,
+  SLOWED_SPEED_FACTOR,
+  UNSTEADY_ACCURACY_PENALTY,
   type AIState,
   type AIAction,
   type AIActionType,
   type EnemyAIState,
+  type LineOfSightTest,
+  type PerceptionContext,
+  type PlayerPerception,
+  type SquadOrder,
+  type SquadRole,
+  type SquadTactics,
+  type VisionZone,
 } from './EnemyAI';
 
+export {
+  SquadCoordinator,
+  squadCoordinator,
+  getSquadRole,
+  createPhysicsCoverProvider,
+  findCoverPoints,
+  isCoveredFrom,
+  NO_COVER,
+  REGROUP_DURATION,
+  RETREAT_LOSS_FRACTION,
+  type CoverPoint,
+  type CoverProvider,
+  type Squad,
+} from './squad';
+
+export {
+  resolveHitZone,
+  getZoneMultiplier,
+  DEFAULT_HIT_ZONES,
+  ZONE_WOUNDS,
+  NON_LETHAL_ZONES,
+  type ZoneHit,
+} from './hitZones';
+
+export { applyEnemyHit } from './raycastHit';
+
+export {
+  stepCompanionFire,
+  COMPANION_FIRE_DELAY,
+  COMPANION_MUZZLE_HEIGHT,
+  type CompanionGunner,
+} from './companionFire';
+
+export {
+  fireBullet,
+  stepBullets,
+  PLAYER_BULLET_TAG,
+  ENEMY_BULLET_TAG,
+  BULLET_GRAVITY,
+  SURFACE_RESISTANCE,
+  RICOCHET_MAX_COS,
+} from './ballistics';
+
+export {
+  computeAimAssist,
+  AIM_ASSIST_CONE,
+  AIM_ASSIST_RANGE,
+  AIM_ASSIST_MAX_PULL,
+  AIM_ASSIST_TARGET_HEIGHT,
+  type AimAssistConfig,
+} from './aimAssist';
+
 export {
   createDamageNumber,
   createHitMarker,
@@ -12,15 +12,20 @@ import {
   createImpactSpark,
   createMuzzleFlash,
 } from './HitEffects';
-import { HEAD_RADIUS } from '@/src/game/engine/renderers/ChibiRenderer';
+import { getConditionMultiplier } from '@/src/game/data/items/durability';
 import { scopedRNG, rngTick } from '../../lib/prng';
 import type { CombatEnemy, CombatTickResult, WeaponRuntimeState } from './combatTypes';
+import {
+  damageWeakPoint,
+  getIntactWeakPoint,
+  getZoneMultiplier,
+  NON_LETHAL_ZONES,
+  resolveHitZone,
+  woundByZone,
+} from './hitZones';
 
 const _raycaster = new THREE.Raycaster();
 
-const CHIBI_HEAD_CENTER_Y = 1.15;
-const HEADSHOT_ZONE_MIN_Y = CHIBI_HEAD_CENTER_Y + HEAD_RADIUS * 0.4;
-
 export function fireMuzzleFlash(camera: THREE.Camera): ReturnType<typeof createMuzzleFlash> {
   const muzzleWorldPos = new THREE.Vector3(0, 0, -0.5);
   muzzleWorldPos.applyMatrix4(camera.matrixWorld);
@@ -29,6 +34,176 @@ export function fireMuzzleFlash(camera: THREE.Camera): ReturnType<typeof createM
   );
 }
 
+/** Point `ray` down the crosshair, thrown off by the weapon's current spread. */
+export function aimWithSpread(
+  camera: THREE.Camera,
+  weaponState: WeaponRuntimeState,
+  ray: THREE.Ray,
+): THREE.Ray {
+  const spreadX = (scopedRNG('combat', 42, rngTick()) - 0.5) * weaponState.currentSpread;
+  const spreadY = (scopedRNG('combat', 42, rngTick()) - 0.5) * weaponState.currentSpread;
+  _raycaster.setFromCamera(new THREE.Vector2(spreadX, spreadY), camera);
+  return ray.copy(_raycaster.ray);
+}
+
+/** Map every object in the living enemies' mesh groups back to its enemy. */
+export function mapEnemyMeshes(enemies: CombatEnemy[]): Map<THREE.Object3D, CombatEnemy> {
+  const meshToEnemy = new Map<THREE.Object3D, CombatEnemy>();
+  for (const enemy of enemies) {
+    if (enemy.ai.state === 'dead') continue;
+    enemy.meshGroup.traverse((child) => {
+      meshToEnemy.set(child, enemy);
+    });
+    meshToEnemy.set(enemy.meshGroup, enemy);
+  }
+  return meshToEnemy;
+}
+
+/** Mods on the weapon that fired, unless the player has since switched away from it */
+function fittedMods(weaponId: string, weaponState: WeaponRuntimeState): readonly string[] {
+  return weaponId === weaponState.weaponId ? weaponState.mods : [];
+}
+
+/**
+ * Damage an enemy whose `part` was struck at `point` by a shot from
+ * `weaponId` that travelled `dist` meters, recording the damage number, hit
+ * marker and any kill. Limb hits wound the enemy and weak points wear down;
+ * a killing blow to a limb of a capturable enemy subdues them instead.
+ * `damageScale` carries losses from punching through cover on the way.
+ */
+export function applyEnemyHit(
+  hitEnemy: CombatEnemy,
+  part: THREE.Object3D,
+  point: { x: number; y: number; z: number },
+  dist: number,
+  weaponId: string,
+  weaponState: WeaponRuntimeState,
+  difficulty: DifficultyLevel,
+  result: CombatTickResult,
+  damageScale: number = 1,
+): void {
+  const { zone, weakPoint } = resolveHitZone(
+    part,
+    hitEnemy.meshGroup,
+    point.y - hitEnemy.ai.position.y,
+  );
+  const isHeadshot = zone === 'head';
+  const weak = getIntactWeakPoint(hitEnemy, weakPoint);
+
+  const enemyConfig = getEnemyConfig(hitEnemy.enemyId);
+  const enemyArmor = enemyConfig?.armor ?? 0;
+
+  const damageResult = calculateDamage(
+    weaponId,
+    dist,
+    isHeadshot,
+    difficulty,
+    enemyArmor,
+    getConditionMultiplier(weaponState.condition) *
+      damageScale *
+      getZoneMultiplier(hitEnemy.enemyId, zone) *
+      (weak?.damageMultiplier ?? 1),
+    weaponState.perks,
+    fittedMods(weaponId, weaponState),
+  );
+
+  hitEnemy.ai.health -= damageResult.damage;
+  const killed = hitEnemy.ai.health <= 0;
+
+  if (killed) {
+    const subdued = hitEnemy.capturable === true && NON_LETHAL_ZONES.includes(zone);
+    hitEnemy.ai.health = 0;
+    hitEnemy.ai.state = 'dead';
+    result.killedEnemies.push(hitEnemy.entityId);
+
+    if (!subdued) {
+      result.deathEffects.push(
+        createDeathEffect(
+          hitEnemy.ai.position,
+          enemyConfig?.type ?? 'bandit',
+        ),
+      );
+    }
+
+    if (enemyConfig) {
+      result.killedEnemyData.push({
+        entityId: hitEnemy.entityId,
+        enemyId: hitEnemy.enemyId,
+        enemyType: enemyConfig.type,
+        xpReward: enemyConfig.xpReward,
+        goldReward: enemyConfig.goldReward,
+        lootTable: enemyConfig.lootTable,
+        deathPosition: { ...hitEnemy.ai.position },
+        subdued,
+      });
+    }
+
+    result.damageNumbers.push(
+      createDamageNumber(
+        { x: point.x, y: point.y + 0.5, z: point.z },
+        0,
+        true,
+        subdued ? 'SUBDUED' : 'KILL',
+      ),
+    );
+  } else {
+    const broken = weak !== null && damageWeakPoint(hitEnemy, weak, damageResult.damage);
+    if (!weak) woundByZone(hitEnemy, zone);
+
+    result.damageNumbers.push(
+      createDamageNumber(
+        { x: point.x, y: point.y, z: point.z },
+        damageResult.damage,
+        damageResult.isCritical,
+        broken ? 'BROKEN' : undefined,
+      ),
+    );
+  }
+
+  result.hitMarker = createHitMarker(true, isHeadshot, killed);
+}
+
+/** The townsperson `object` belongs to, from the npcId tagged on their model. */
+export function findNPCId(object: THREE.Object3D): string | null {
+  let node: THREE.Object3D | null = object;
+  while (node) {
+    const npcId = node.userData?.npcId;
+    if (typeof npcId === 'string') return npcId;
+    node = node.parent;
+  }
+  return null;
+}
+
+/**
+ * Record a shot landing on townsperson `npcId`. Townsfolk have no combat AI,
+ * so the scene keeps their health and decides what the hit means.
+ */
+export function applyNPCHit(
+  npcId: string,
+  point: { x: number; y: number; z: number },
+  dist: number,
+  weaponId: string,
+  weaponState: WeaponRuntimeState,
+  difficulty: DifficultyLevel,
+  result: CombatTickResult,
+  damageScale: number = 1,
+): void {
+  const { damage, isCritical } = calculateDamage(
+    weaponId,
+    dist,
+    false,
+    difficulty,
+    0,
+    getConditionMultiplier(weaponState.condition) * damageScale,
+    weaponState.perks,
+    fittedMods(weaponId, weaponState),
+  );
+  const position = { x: point.x, y: point.y, z: point.z };
+  result.npcHits.push({ npcId, damage, position });
+  result.damageNumbers.push(createDamageNumber(position, damage, isCritical));
+  result.hitMarker = createHitMarker(true, false, false);
+}
+
 export function performRaycast(
   camera: THREE.Camera,
   scene: THREE.Scene,
@@ -38,100 +213,35 @@ export function performRaycast(
   difficulty: DifficultyLevel,
   result: CombatTickResult,
 ): void {
-  const spreadX = (scopedRNG('combat', 42, rngTick()) - 0.5) * weaponState.currentSpread;
-  const spreadY = (scopedRNG('combat', 42, rngTick()) - 0.5) * weaponState.currentSpread;
-  const aimPoint = new THREE.Vector2(spreadX, spreadY);
-
-  _raycaster.setFromCamera(aimPoint, camera);
+  aimWithSpread(camera, weaponState, _raycaster.ray);
 
   const maxRange = weaponConfig.range > 0
     ? (weaponConfig.maxRange ?? weaponConfig.range * 1.5)
     : 3;
   _raycaster.far = maxRange;
 
-  const enemyMeshes: THREE.Object3D[] = [];
-  const meshToEnemy = new Map<THREE.Object3D, CombatEnemy>();
-
-  for (const enemy of enemies) {
-    if (enemy.ai.state === 'dead') continue;
-    enemyMeshes.push(enemy.meshGroup);
-    enemy.meshGroup.traverse((child) => {
-      meshToEnemy.set(child, enemy);
-    });
-    meshToEnemy.set(enemy.meshGroup, enemy);
-  }
+  const meshToEnemy = mapEnemyMeshes(enemies);
+  const enemyMeshes = enemies.filter((e) => e.ai.state !== 'dead').map((e) => e.meshGroup);
 
-  const intersections = _raycaster.intersectObjects(enemyMeshes, true);
+  // Parts that have been shot off are hidden, not removed
+  const hit = _raycaster
+    .intersectObjects(enemyMeshes, true)
+    .find((h) => h.object.visible);
 
-  if (intersections.length > 0) {
-    const hit = intersections[0];
+  if (hit) {
     const hitEnemy = meshToEnemy.get(hit.object);
 
     if (hitEnemy) {
-      const enemyWorldY = hitEnemy.ai.position.y;
-      const hitRelativeY = hit.point.y - enemyWorldY;
-      const meshScale = hitEnemy.meshGroup.scale.y;
-      const scaledHeadshotMinY = HEADSHOT_ZONE_MIN_Y * meshScale;
-      const isHeadshot = hitRelativeY >= scaledHeadshotMinY;
-
-      const dist = hit.distance;
-      const enemyConfig = getEnemyConfig(hitEnemy.enemyId);
-      const enemyArmor = enemyConfig?.armor ?? 0;
-
-      const damageResult = calculateDamage(
+      applyEnemyHit(
+        hitEnemy,
+        hit.object,
+        hit.point,
+        hit.distance,
         weaponState.weaponId,
-        dist,
-        isHeadshot,
+        weaponState,
         difficulty,
-        enemyArmor,
+        result,
       );
-
-      hitEnemy.ai.health -= damageResult.damage;
-      const killed = hitEnemy.ai.health <= 0;
-
-      if (killed) {
-        hitEnemy.ai.health = 0;
-        hitEnemy.ai.state = 'dead';
-        result.killedEnemies.push(hitEnemy.entityId);
-
-        result.deathEffects.push(
-          createDeathEffect(
-            hitEnemy.ai.position,
-            enemyConfig?.type ?? 'bandit',
-          ),
-        );
-
-        if (enemyConfig) {
-          result.killedEnemyData.push({
-            entityId: hitEnemy.entityId,
-            enemyId: hitEnemy.enemyId,
-            enemyType: enemyConfig.type,
-            xpReward: enemyConfig.xpReward,
-            goldReward: enemyConfig.goldReward,
-            lootTable: enemyConfig.lootTable,
-            deathPosition: { ...hitEnemy.ai.position },
-          });
-        }
-
-        result.damageNumbers.push(
-          createDamageNumber(
-            { x: hit.point.x, y: hit.point.y + 0.5, z: hit.point.z },
-            0,
-            true,
-            'KILL',
-          ),
-        );
-      } else {
-        result.damageNumbers.push(
-          createDamageNumber(
-            { x: hit.point.x, y: hit.point.y, z: hit.point.z },
-            damageResult.damage,
-            damageResult.isCritical,
-          ),
-        );
-      }
-
-      result.hitMarker = createHitMarker(true, isHeadshot, killed);
       return;
     }
   }
@@ -140,6 +250,20 @@ export function performRaycast(
   for (const hit of envIntersections) {
     if (meshToEnemy.has(hit.object)) continue;
 
+    const npcId = findNPCId(hit.object);
+    if (npcId) {
+      applyNPCHit(
+        npcId,
+        hit.point,
+        hit.distance,
+        weaponState.weaponId,
+        weaponState,
+        difficulty,
+        result,
+      );
+      break;
+    }
+
     const normal = hit.face
       ? { x: hit.face.normal.x, y: hit.face.normal.y, z: hit.face.normal.z }
       : { x: 0, y: 1, z: 0 };
@@ -0,0 +1,272 @@
+/**
+ * SquadCoordinator — Turns enemies of the same faction into a squad.
+ *
+ * Each enemy still runs its own state machine and Yuka steering; the
+ * coordinator sits above them and, once per tick, writes SquadTactics that
+ * the state machines read: a role (suppressors fire from cover, flankers
+ * swing round the player's side, rushers close in), a position to fight
+ * from, and the squad's orders. It also shares the player's last known
+ * position across the squad, and has a living leader call a regroup or a
+ * retreat as members fall.
+ *
+ * @module engine/combat/squad/SquadCoordinator
+ */
+
+import { getEnemyConfig, getWeaponConfig } from '../DamageCalculator';
+import {
+  alertEnemy,
+  IN_POSITION_RADIUS,
+  type EnemyAIState,
+  type SquadRole,
+} from '../EnemyAI';
+import { isCoveredFrom } from './coverPoints';
+import type { CoverPoint, Squad } from './squadTypes';
+import {
+  COVER_SEARCH_RADIUS,
+  FLANK_DISTANCE,
+  MIN_COVER_DISTANCE,
+  REGROUP_DURATION,
+  RETREAT_LOSS_FRACTION,
+} from './squadTypes';
+
+type Vec3 = { x: number; y: number; z: number };
+
+function distanceXZ(a: Vec3, b: Vec3): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.z - b.z) ** 2);
+}
+
+const isAlive = (ai: EnemyAIState): boolean => ai.state !== 'dead' && ai.health > 0;
+
+const isEngaged = (ai: EnemyAIState): boolean =>
+  ai.state === 'alert' || ai.state === 'pursue' || ai.state === 'attack';
+
+/** Role an enemy plays in its squad, from its behaviour tags. */
+export function getSquadRole(enemyId: string): SquadRole {
+  const tags = getEnemyConfig(enemyId)?.behaviorTags ?? [];
+  if (!tags.includes('ranged') || tags.includes('charges')) return 'rusher';
+  if (tags.includes('flanker')) return 'flanker';
+  return 'suppressor';
+}
+
+export class SquadCoordinator {
+  private squads: Squad[] = [];
+  private roster: readonly EnemyAIState[] = [];
+
+  /**
+   * Coordinate one tick. Call before the enemies' own AI updates so they act
+   * on fresh orders; squads are re-formed whenever the set of enemies changes.
+   */
+  update(members: readonly EnemyAIState[], dt: number, cover: readonly CoverPoint[]): void {
+    if (!this.isRoster(members)) this.formSquads(members);
+    for (const squad of this.squads) this.updateSquad(squad, dt, cover);
+  }
+
+  getSquads(): readonly Squad[] {
+    return this.squads;
+  }
+
+  /** Forget every squad, e.g. when leaving a location. */
+  clear(): void {
+    for (const squad of this.squads) {
+      for (const member of squad.members) member.tactics = null;
+    }
+    this.squads = [];
+    this.roster = [];
+  }
+
+  private isRoster(members: readonly EnemyAIState[]): boolean {
+    return (
+      members.length === this.roster.length && members.every((m, i) => m === this.roster[i])
+    );
+  }
+
+  private formSquads(members: readonly EnemyAIState[]): void {
+    this.clear();
+    this.roster = [...members];
+
+    const byFaction = new Map<string, EnemyAIState[]>();
+    for (const member of members) {
+      const faction = getEnemyConfig(member.enemyId)?.faction ?? member.enemyId;
+      const group = byFaction.get(faction) ?? [];
+      group.push(member);
+      byFaction.set(faction, group);
+    }
+
+    for (const [faction, group] of byFaction) {
+      // A lone enemy has nobody to coordinate with
+      if (group.length < 2) continue;
+      const squad: Squad = {
+        id: `squad-${faction}`,
+        faction,
+        members: group,
+        leader:
+          group.find((m) => getEnemyConfig(m.enemyId)?.behaviorTags.includes('leader')) ?? null,
+        losses: 0,
+        lastKnownPlayerPos: null,
+        order: 'engage',
+        orderTimer: 0,
+        rallyPoint: null,
+      };
+
+      const roles = group.map((m) => getSquadRole(m.enemyId));
+      // Two or more shooters send one of them round the side
+      const shooters = roles.filter((r) => r === 'suppressor').length;
+      if (shooters >= 2 && !roles.includes('flanker')) {
+        const i = group.findIndex((m, j) => roles[j] === 'suppressor' && m !== squad.leader);
+        if (i >= 0) roles[i] = 'flanker';
+      }
+
+      group.forEach((member, i) => {
+        member.tactics = {
+          squadId: squad.id,
+          role: roles[i],
+          order: 'engage',
+          position: null,
+          inCover: false,
+        };
+      });
+      this.squads.push(squad);
+    }
+  }
+
+  private updateSquad(squad: Squad, dt: number, cover: readonly CoverPoint[]): void {
+    const alive = squad.members.filter(isAlive);
+    if (squad.leader && !isAlive(squad.leader)) squad.leader = null;
+
+    const losses = squad.members.length - alive.length;
+    if (losses > squad.losses) {
+      squad.losses = losses;
+      this.onCasualty(squad, alive);
+    }
+
+    if (squad.order === 'regroup') {
+      squad.orderTimer -= dt;
+      if (squad.orderTimer <= 0) {
+        squad.order = 'engage';
+        squad.rallyPoint = null;
+      }
+    }
+
+    if (squad.order !== 'retreat') this.shareIntel(squad, alive);
+
+    const claimed = new Set<CoverPoint>();
+    let flankSide = 1;
+    for (const member of alive) {
+      const tactics = member.tactics;
+      if (!tactics) continue;
+      tactics.order = squad.order;
+      tactics.position = null;
+
+      const threat = squad.lastKnownPlayerPos;
+      if (squad.order === 'regroup') {
+        tactics.position = squad.rallyPoint;
+      } else if (squad.order === 'engage' && threat && isEngaged(member)) {
+        if (tactics.role === 'suppressor') {
+          const spot = this.claimCover(member, threat, cover, claimed);
+          tactics.position = spot?.position ?? null;
+        } else if (tactics.role === 'flanker') {
+          tactics.position = flankPosition(threat, alive, flankSide);
+          flankSide = -flankSide;
+        }
+      }
+
+      tactics.inCover =
+        tactics.role === 'suppressor' &&
+        tactics.position !== null &&
+        squad.order === 'engage' &&
+        distanceXZ(member.position, tactics.position) <= IN_POSITION_RADIUS;
+    }
+  }
+
+  /** Whoever sees the player tells the rest of the squad, and raises the alarm. */
+  private shareIntel(squad: Squad, alive: EnemyAIState[]): void {
+    const spotter = alive.find((m) => m.perception.zone === 'focal' && m.lastKnownPlayerPos);
+    if (spotter?.lastKnownPlayerPos) {
+      squad.lastKnownPlayerPos = { ...spotter.lastKnownPlayerPos };
+    } else if (!squad.lastKnownPlayerPos) {
+      // Nobody has eyes on the player, but someone may have heard them
+      const alerted = alive.find((m) => isEngaged(m) && m.lastKnownPlayerPos);
+      if (alerted?.lastKnownPlayerPos) squad.lastKnownPlayerPos = { ...alerted.lastKnownPlayerPos };
+    }
+
+    const known = squad.lastKnownPlayerPos;
+    if (!known || !alive.some(isEngaged)) return;
+    for (const member of alive) {
+      if (member === spotter || member.perception.zone === 'focal') continue;
+      if (member.state === 'idle' || member.state === 'patrol') {
+        alertEnemy(member, known);
+      } else if (spotter && isEngaged(member)) {
+        member.lastKnownPlayerPos = { ...known };
+      }
+    }
+  }
+
+  /** A leader reacts to losing someone: regroup on them, or pull out if it's gone badly. */
+  private onCasualty(squad: Squad, alive: EnemyAIState[]): void {
+    const leader = squad.leader;
+    if (!leader || squad.order === 'retreat') return;
+
+    if (squad.losses / squad.members.length >= RETREAT_LOSS_FRACTION) {
+      squad.order = 'retreat';
+      squad.rallyPoint = null;
+      for (const member of alive) {
+        member.state = 'flee';
+        member.stateTimer = 0;
+      }
+      return;
+    }
+
+    squad.order = 'regroup';
+    squad.orderTimer = REGROUP_DURATION;
+    squad.rallyPoint = { ...leader.position };
+  }
+
+  /**
+   * Nearest free cover point that hides `member` from the threat while
+   * keeping it in weapon range. Keeps its current cover if that still works.
+   */
+  private claimCover(
+    member: EnemyAIState,
+    threat: Vec3,
+    cover: readonly CoverPoint[],
+    claimed: Set<CoverPoint>,
+  ): CoverPoint | null {
+    const range = getWeaponConfig(getEnemyConfig(member.enemyId)?.weaponId ?? '')?.range ?? 25;
+    let best: CoverPoint | null = null;
+    let bestDist = COVER_SEARCH_RADIUS;
+    for (const point of cover) {
+      if (claimed.has(point)) continue;
+      const toThreat = distanceXZ(point.position, threat);
+      if (toThreat < MIN_COVER_DISTANCE || toThreat > range) continue;
+      if (!isCoveredFrom(point, threat)) continue;
+      const dist = distanceXZ(member.position, point.position);
+      if (dist < bestDist) {
+        best = point;
+        bestDist = dist;
+      }
+    }
+    if (best) claimed.add(best);
+    return best;
+  }
+}
+
+/** A spot off to one side of the player, relative to where the squad stands. */
+function flankPosition(threat: Vec3, squad: readonly EnemyAIState[], side: number): Vec3 {
+  let cx = 0;
+  let cz = 0;
+  for (const member of squad) {
+    cx += member.position.x / squad.length;
+    cz += member.position.z / squad.length;
+  }
+  const dx = cx - threat.x;
+  const dz = cz - threat.z;
+  const len = Math.sqrt(dx * dx + dz * dz) || 1;
+  return {
+    x: threat.x - (dz / len) * side * FLANK_DISTANCE,
+    y: threat.y,
+    z: threat.z + (dx / len) * side * FLANK_DISTANCE,
+  };
+}
+
+/** Shared coordinator for the enemies in the current fight. */
+export const squadCoordinator = new SquadCoordinator();
@@ -0,0 +1,84 @@
+// coverPoints — Finds places to take cover beside buildings and placed props.
+
+import type { PhysicsWorld } from '../../physics/PhysicsWorld';
+import type { CoverPoint, CoverProvider } from './squadTypes';
+import { COVER_FACING, COVER_OFFSET, LOW_COVER_HEIGHT, MIN_COVER_HEIGHT } from './squadTypes';
+
+interface CoverSource {
+  center: { x: number; y: number; z: number };
+  halfExtents: { x: number; y: number; z: number };
+}
+
+/**
+ * Cover points around a set of box obstacles. Low obstacles (crates, walls)
+ * offer a spot in the middle of each side to shoot over; taller ones
+ * (buildings) offer their corners to lean out from.
+ */
+export function findCoverPoints(sources: readonly CoverSource[]): CoverPoint[] {
+  const points: CoverPoint[] = [];
+  for (const { center, halfExtents } of sources) {
+    const height = halfExtents.y * 2;
+    if (height < MIN_COVER_HEIGHT) continue;
+    const y = center.y - halfExtents.y;
+
+    if (height <= LOW_COVER_HEIGHT) {
+      for (const [nx, nz] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+        points.push({
+          position: {
+            x: center.x + nx * (halfExtents.x + COVER_OFFSET),
+            y,
+            z: center.z + nz * (halfExtents.z + COVER_OFFSET),
+          },
+          normal: { x: nx, z: nz },
+          height,
+        });
+      }
+    } else {
+      for (const [sx, sz] of [[1, 1], [1, -1], [-1, 1], [-1, -1]]) {
+        points.push({
+          position: {
+            x: center.x + sx * (halfExtents.x + COVER_OFFSET),
+            y,
+            z: center.z + sz * (halfExtents.z + COVER_OFFSET),
+          },
+          normal: { x: sx * Math.SQRT1_2, z: sz * Math.SQRT1_2 },
+          height,
+        });
+      }
+    }
+  }
+  return points;
+}
+
+/** Whether the obstacle behind a cover point stands between it and `threat`. */
+export function isCoveredFrom(
+  point: CoverPoint,
+  threat: { x: number; y: number; z: number },
+): boolean {
+  const dx = threat.x - point.position.x;
+  const dz = threat.z - point.position.z;
+  const len = Math.sqrt(dx * dx + dz * dz);
+  if (len < 0.0001) return false;
+  return (point.normal.x * dx + point.normal.z * dz) / len <= -COVER_FACING;
+}
+
+/**
+ * Cover from the physics world's box colliders, recomputed only when
+ * colliders are added or removed.
+ */
+export function createPhysicsCoverProvider(
+  world: Pick<PhysicsWorld, 'getBoxColliders' | 'colliderCount'>,
+): CoverProvider {
+  let cachedCount = -1;
+  let cached: CoverPoint[] = [];
+  return () => {
+    if (world.colliderCount !== cachedCount) {
+      cachedCount = world.colliderCount;
+      cached = findCoverPoints(world.getBoxColliders());
+    }
+    return cached;
+  };
+}
+
+/** For fights with nothing to hide behind. */
+export const NO_COVER: CoverProvider = () => [];
@@ -0,0 +1,18 @@
+// src/game/engine/combat/squad — Barrel export for enemy squad tactics.
+
+export { SquadCoordinator, squadCoordinator, getSquadRole } from './SquadCoordinator';
+export {
+  createPhysicsCoverProvider,
+  findCoverPoints,
+  isCoveredFrom,
+  NO_COVER,
+} from './coverPoints';
+export {
+  COVER_SEARCH_RADIUS,
+  FLANK_DISTANCE,
+  REGROUP_DURATION,
+  RETREAT_LOSS_FRACTION,
+  type CoverPoint,
+  type CoverProvider,
+  type Squad,
+} from './squadTypes';
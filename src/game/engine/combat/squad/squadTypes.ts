@@ -0,0 +1,52 @@
+// squadTypes — Types and tuning for enemy squad tactics.
+
+import type { EnemyAIState, SquadOrder } from '../EnemyAI';
+
+export interface CoverPoint {
+  /** Where to stand, at ground level beside the obstacle */
+  position: { x: number; y: number; z: number };
+  /** Horizontal unit vector pointing away from the obstacle */
+  normal: { x: number; z: number };
+  /** Height of the obstacle's top above its base */
+  height: number;
+}
+
+/** Supplies the cover points currently available in the world. */
+export type CoverProvider = () => readonly CoverPoint[];
+
+export interface Squad {
+  id: string;
+  faction: string;
+  members: EnemyAIState[];
+  /** Member with the `leader` behaviour tag, while it is alive */
+  leader: EnemyAIState | null;
+  /** Members lost so far */
+  losses: number;
+  /** Where the squad as a whole last knew the player to be */
+  lastKnownPlayerPos: { x: number; y: number; z: number } | null;
+  order: SquadOrder;
+  /** Seconds left on a regroup order */
+  orderTimer: number;
+  rallyPoint: { x: number; y: number; z: number } | null;
+}
+
+/** Obstacles lower than this don't hide a crouching gunman. */
+export const MIN_COVER_HEIGHT = 0.8;
+/** Obstacles up to this tall are shot over; taller ones are leaned round at the corners. */
+export const LOW_COVER_HEIGHT = 1.4;
+/** Gap left between a cover point and its obstacle. */
+export const COVER_OFFSET = 0.8;
+/** How far an enemy will move to reach cover. */
+export const COVER_SEARCH_RADIUS = 20;
+/** Cover this close to the player is too close to be worth taking. */
+export const MIN_COVER_DISTANCE = 5;
+/** How squarely an obstacle must face the threat to count as cover (dot product). */
+export const COVER_FACING = 0.3;
+
+/** How far to the player's side a flanker swings round. */
+export const FLANK_DISTANCE = 12;
+
+/** A leader calls a retreat once this share of the squad is down. */
+export const RETREAT_LOSS_FRACTION = 0.5;
+/** Seconds a squad spends regrouping on its leader after losing someone. */
+export const REGROUP_DURATION = 4;
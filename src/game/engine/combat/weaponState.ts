@@ -1,4 +1,4 @@
-import { getWeaponConfig } from './DamageCalculator';
+import { getModdedWeaponConfig } from './DamageCalculator';
 import type { WeaponRuntimeState } from './combatTypes';
 
 export const SPREAD_PER_SHOT = 3.0;
@@ -6,8 +6,14 @@ export const SPREAD_MOVEMENT = 0.5;
 export const SPREAD_DECAY_RATE = 4.0;
 export const MAX_SPREAD = 0.15;
 
-export function createWeaponState(weaponId: string, reserveAmmo: number = 60): WeaponRuntimeState {
-  const config = getWeaponConfig(weaponId);
+export function createWeaponState(
+  weaponId: string,
+  reserveAmmo: number = 60,
+  condition: number = 100,
+  perks: string[] = [],
+  mods: string[] = [],
+): WeaponRuntimeState {
+  const config = getModdedWeaponConfig(weaponId, mods);
   return {
     weaponId,
     ammoInMagazine: config?.ammoCapacity ?? 6,
@@ -16,5 +22,10 @@ export function createWeaponState(weaponId: string, reserveAmmo: number = 60): W
     reloadPhase: 'none',
     reloadTimer: 0,
     currentSpread: 0,
+    condition,
+    jammed: false,
+    jamClearTimer: 0,
+    perks,
+    mods,
   };
 }
@@ -6,6 +6,7 @@
  */
 
 import * as THREE from 'three';
+import { NOISE_RADII, noiseBus } from '../noise';
 
 export type { DoorState, DoorChangeCallback } from './doorTypes';
 import type { DoorState, DoorChangeCallback } from './doorTypes';
@@ -74,6 +75,7 @@ export class DoorSystem {
     door.isOpen = true;
     door.targetAngle = DOOR_OPEN_ANGLE;
     this.animatingDoors.add(buildingId);
+    this.emitDoorNoise(door);
     this.notifyListeners(door);
   }
 
@@ -83,6 +85,7 @@ export class DoorSystem {
     door.isOpen = false;
     door.targetAngle = 0;
     this.animatingDoors.add(buildingId);
+    this.emitDoorNoise(door);
     this.notifyListeners(door);
   }
 
@@ -150,6 +153,11 @@ export class DoorSystem {
     for (const cb of this.listeners) { cb(door); }
   }
 
+  private emitDoorNoise(door: DoorState): void {
+    const { x, y, z } = door.triggerPosition;
+    noiseBus.emit({ kind: 'door', position: { x, y, z }, radius: NOISE_RADII.door });
+  }
+
   dispose(): void {
     this.doors.clear();
     this.animatingDoors.clear();
@@ -13,6 +13,7 @@ import {
 } from 'three';
 
 import { globalTextureCache } from './TextureCache';
+import { tagSurface } from './surfaces';
 import {
   cacheKey,
   makeCanvas,
@@ -170,13 +171,16 @@ export function createGlassTexture(
     }
 
     ctx.globalAlpha = 1;
-    return materialFromCanvas(canvas, {
-      roughness: 0.05,
-      metalness: 0.1,
-      transparent: true,
-      opacity: 0.35,
-      side: DoubleSide,
-    });
+    return tagSurface(
+      materialFromCanvas(canvas, {
+        roughness: 0.05,
+        metalness: 0.1,
+        transparent: true,
+        opacity: 0.35,
+        side: DoubleSide,
+      }),
+      'glass',
+    );
   });
 }
 
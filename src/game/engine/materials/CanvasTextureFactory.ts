@@ -10,6 +10,7 @@ import {
 } from 'three';
 
 import { globalTextureCache } from './TextureCache';
+import { tagSurface } from './surfaces';
 import {
   cacheKey,
   makeCanvas,
@@ -95,7 +96,7 @@ export function createWoodTexture(
       ctx.fill();
     }
 
-    return materialFromCanvas(canvas, { roughness: 0.75, metalness: 0.0 });
+    return tagSurface(materialFromCanvas(canvas, { roughness: 0.75, metalness: 0.0 }), 'wood');
   });
 }
 
@@ -138,7 +139,7 @@ export function createStoneTexture(
       }
     }
 
-    return materialFromCanvas(canvas, { roughness: 0.9, metalness: 0.0 });
+    return tagSurface(materialFromCanvas(canvas, { roughness: 0.9, metalness: 0.0 }), 'stone');
   });
 }
 
@@ -183,7 +184,7 @@ export function createMetalTexture(
     }
 
     ctx.globalAlpha = 1;
-    return materialFromCanvas(canvas, { roughness: 0.35, metalness: 0.7 });
+    return tagSurface(materialFromCanvas(canvas, { roughness: 0.35, metalness: 0.7 }), 'metal');
   });
 }
 
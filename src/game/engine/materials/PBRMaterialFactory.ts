@@ -12,6 +12,7 @@ import {
 } from 'three';
 
 import { globalTextureCache } from './TextureCache';
+import { tagSurface } from './surfaces';
 
 // ---------------------------------------------------------------------------
 // Internal helpers
@@ -171,39 +172,41 @@ const PATHS = {
 // ---------------------------------------------------------------------------
 
 export function createPBRWoodSiding(repeat = 2): MeshStandardMaterial {
-  return createPBRMaterial('wood_siding', PATHS.wood_siding, repeat);
+  return tagSurface(createPBRMaterial('wood_siding', PATHS.wood_siding, repeat), 'wood');
 }
 
 export function createPBRWoodPlanks(repeat = 2): MeshStandardMaterial {
-  return createPBRMaterial('wood_planks', PATHS.wood_planks, repeat);
+  return tagSurface(createPBRMaterial('wood_planks', PATHS.wood_planks, repeat), 'wood');
 }
 
 export function createPBRWoodAged(repeat = 2): MeshStandardMaterial {
-  return createPBRMaterial('wood_aged', PATHS.wood_aged, repeat);
+  return tagSurface(createPBRMaterial('wood_aged', PATHS.wood_aged, repeat), 'wood');
 }
 
 export function createPBRMetalCorrugated(repeat = 2): MeshStandardMaterial {
-  return createPBRMaterial('metal_corrugated', PATHS.metal_corrugated, repeat, {
-    metalness: 0.8,
-  });
+  return tagSurface(
+    createPBRMaterial('metal_corrugated', PATHS.metal_corrugated, repeat, { metalness: 0.8 }),
+    'metal',
+  );
 }
 
 export function createPBRMetalRusted(repeat = 2): MeshStandardMaterial {
-  return createPBRMaterial('metal_rusted', PATHS.metal_rusted, repeat, {
-    metalness: 0.6,
-  });
+  return tagSurface(
+    createPBRMaterial('metal_rusted', PATHS.metal_rusted, repeat, { metalness: 0.6 }),
+    'metal',
+  );
 }
 
 export function createPBRStoneRough(repeat = 2): MeshStandardMaterial {
-  return createPBRMaterial('stone_rough', PATHS.stone_rough, repeat);
+  return tagSurface(createPBRMaterial('stone_rough', PATHS.stone_rough, repeat), 'stone');
 }
 
 export function createPBRClayAdobe(repeat = 2): MeshStandardMaterial {
-  return createPBRMaterial('clay_adobe', PATHS.clay_adobe, repeat);
+  return tagSurface(createPBRMaterial('clay_adobe', PATHS.clay_adobe, repeat), 'stone');
 }
 
 export function createPBRBrickOld(repeat = 2): MeshStandardMaterial {
-  return createPBRMaterial('brick_old', PATHS.brick_old, repeat);
+  return tagSurface(createPBRMaterial('brick_old', PATHS.brick_old, repeat), 'stone');
 }
 
 export function createPBRGroundDesert(repeat = 4): MeshStandardMaterial {
@@ -219,7 +222,8 @@ export function createPBRGravelRoad(repeat = 4): MeshStandardMaterial {
 }
 
 export function createPBRRustHeavy(repeat = 2): MeshStandardMaterial {
-  return createPBRMaterial('rust_heavy', PATHS.rust_heavy, repeat, {
-    metalness: 0.5,
-  });
+  return tagSurface(
+    createPBRMaterial('rust_heavy', PATHS.rust_heavy, repeat, { metalness: 0.5 }),
+    'metal',
+  );
 }
@@ -33,3 +33,5 @@ export {
 } from './PBRMaterialFactory';
 
 export { TextureCache, globalTextureCache } from './TextureCache';
+
+export { getSurface, tagSurface, type Surface } from './surfaces';
@@ -0,0 +1,21 @@
+// surfaces — What a material is physically made of, for bullet penetration
+// and ricochets. Stored on the material's (or a mesh's own) userData.
+
+import type { Material, Object3D } from 'three';
+
+export type Surface = 'wood' | 'glass' | 'metal' | 'stone';
+
+/** Mark a material or mesh as being made of `surface`. */
+export function tagSurface<T extends Material | Object3D>(target: T, surface: Surface): T {
+  target.userData.surface = surface;
+  return target;
+}
+
+/** The surface a hit object is made of: its own tag, else its material's, else null. */
+export function getSurface(object: Object3D): Surface | null {
+  const own = object.userData.surface as Surface | undefined;
+  if (own) return own;
+  const material = (object as Object3D & { material?: Material | Material[] }).material;
+  const first = Array.isArray(material) ? material[0] : material;
+  return (first?.userData.surface as Surface | undefined) ?? null;
+}
@@ -0,0 +1,91 @@
+/**
+ * NoiseBus — Collects the sounds the player makes so enemy AI can react.
+ *
+ * Emitters (weapons, footsteps, doors, explosions) push NoiseEvents in as they
+ * happen; the combat tick drains the queue once per frame and hands it to every
+ * enemy. Subscribers can also listen to events as they are emitted.
+ *
+ * @module engine/noise/NoiseBus
+ */
+
+import type { Gait, HeardNoise, NoiseEvent } from './noiseTypes';
+import {
+  FOOTSTEP_SURFACE_MULTIPLIERS,
+  GAIT_MULTIPLIERS,
+  NOISE_RADII,
+} from './noiseTypes';
+
+export type NoiseListener = (event: NoiseEvent) => void;
+
+/** Limit on queued events so a paused combat tick can't pile them up forever. */
+const MAX_PENDING = 64;
+
+export class NoiseBus {
+  private pending: NoiseEvent[] = [];
+  private listeners = new Set<NoiseListener>();
+
+  /** Queue a noise for the next combat tick and tell any subscribers. */
+  emit(event: NoiseEvent): void {
+    if (event.radius <= 0) return;
+    this.pending.push(event);
+    if (this.pending.length > MAX_PENDING) this.pending.shift();
+    for (const listener of this.listeners) listener(event);
+  }
+
+  /** Subscribe to noises as they happen. Returns an unsubscribe function. */
+  subscribe(listener: NoiseListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Take every noise emitted since the last drain. */
+  drain(): NoiseEvent[] {
+    const events = this.pending;
+    this.pending = [];
+    return events;
+  }
+
+  /** Drop queued noises and listeners (useful for cleanup/tests). */
+  clear(): void {
+    this.pending = [];
+    this.listeners.clear();
+  }
+}
+
+/** Global noise bus. */
+export const noiseBus = new NoiseBus();
+
+/** How loud a noise is at a listener's position (0 = out of earshot). */
+export function getNoiseIntensity(
+  event: NoiseEvent,
+  listener: { x: number; y: number; z: number },
+): number {
+  const dx = event.position.x - listener.x;
+  const dy = event.position.y - listener.y;
+  const dz = event.position.z - listener.z;
+  const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  return Math.max(0, 1 - dist / event.radius);
+}
+
+/** The loudest of several noises at a listener's position, or null if none reach it. */
+export function loudestNoise(
+  listener: { x: number; y: number; z: number },
+  events: readonly NoiseEvent[],
+): HeardNoise | null {
+  let best: HeardNoise | null = null;
+  for (const event of events) {
+    const intensity = getNoiseIntensity(event, listener);
+    if (intensity > 0 && (!best || intensity > best.intensity)) {
+      best = { event, intensity };
+    }
+  }
+  return best;
+}
+
+/** Radius of one footstep on the given ground at the given gait. */
+export function getFootstepRadius(surface: string, gait: Gait): number {
+  const ground = FOOTSTEP_SURFACE_MULTIPLIERS[surface] ?? 1;
+  return NOISE_RADII.footstep * ground * GAIT_MULTIPLIERS[gait];
+}
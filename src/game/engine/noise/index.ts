@@ -0,0 +1,20 @@
+// src/game/engine/noise — Barrel export for player noise propagation.
+
+export {
+  NoiseBus,
+  noiseBus,
+  getNoiseIntensity,
+  getFootstepRadius,
+  loudestNoise,
+  type NoiseListener,
+} from './NoiseBus';
+export {
+  FOOTSTEP_INTERVAL,
+  FOOTSTEP_SURFACE_MULTIPLIERS,
+  GAIT_MULTIPLIERS,
+  NOISE_RADII,
+  type Gait,
+  type HeardNoise,
+  type NoiseEvent,
+  type NoiseKind,
+} from './noiseTypes';
@@ -0,0 +1,56 @@
+// noiseTypes — Sound events enemies can hear, and how far each kind carries.
+
+/** Everything that makes noise is assumed to be the player's doing. */
+export type NoiseKind = 'gunshot' | 'melee' | 'footstep' | 'door' | 'thrown' | 'explosion';
+
+export interface NoiseEvent {
+  kind: NoiseKind;
+  /** Where the sound came from. */
+  position: { x: number; y: number; z: number };
+  /** Distance in meters at which the sound has faded to nothing. */
+  radius: number;
+}
+
+/** A noise as heard from one spot. */
+export interface HeardNoise {
+  event: NoiseEvent;
+  /** 1 at the source, falling linearly to 0 at the edge of its radius. */
+  intensity: number;
+}
+
+export type Gait = 'crouch' | 'walk' | 'sprint';
+
+/** Radius for each kind of noise when the source doesn't give one (weapons use their loudness). */
+export const NOISE_RADII: Record<NoiseKind, number> = {
+  gunshot: 50,
+  melee: 4,
+  footstep: 8,
+  door: 10,
+  thrown: 14,
+  explosion: 120,
+};
+
+/**
+ * How loud footsteps are on each kind of ground, keyed by terrain type. Sand
+ * and grass muffle them; scree, dry brush and boardwalks give them away.
+ */
+export const FOOTSTEP_SURFACE_MULTIPLIERS: Record<string, number> = {
+  desert: 0.7,
+  plains: 1,
+  grassland: 0.8,
+  forest: 1.3,
+  mountains: 1.4,
+  badlands: 1.2,
+  riverside: 1.1,
+  town: 1.25,
+};
+
+/** Footstep loudness for each way of moving. */
+export const GAIT_MULTIPLIERS: Record<Gait, number> = {
+  crouch: 0.25,
+  walk: 1,
+  sprint: 2.2,
+};
+
+/** How long between footstep noises at a walk, in seconds. */
+export const FOOTSTEP_INTERVAL = 0.5;
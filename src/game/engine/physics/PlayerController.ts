@@ -2,7 +2,9 @@
 //
 // Converts InputFrame movement intents into physics-resolved positions.
 // Handles walk/sprint, jumping (with coyote time), terrain following,
-// step-up, trigger volume enter/exit callbacks, and head bob.
+// step-up, trigger volume enter/exit callbacks, and head bob. Mounted, the
+// player moves at the horse's walk/trot/gallop instead and the gallop
+// spends the horse's stamina.
 
 import * as THREE from 'three';
 
@@ -10,6 +12,11 @@ import type { InputFrame } from '@/src/game/input/InputFrame';
 
 import type { TriggerEvent } from './physicsTypes';
 import type { PhysicsWorld } from './PhysicsWorld';
+import {
+  GAIT_BOB, MOUNTED_EYE_RISE,
+  resolveGait, stepMountStamina,
+  type Gait, type MountStats,
+} from './mountMovement';
 import {
   WALK_SPEED, SPRINT_SPEED, CROUCH_SPEED, JUMP_VELOCITY,
   PLAYER_HEIGHT, PLAYER_RADIUS, EYE_OFFSET, PITCH_LIMIT,
@@ -30,6 +37,8 @@ export interface PlayerState {
   readonly pitch: number;
   readonly grounded: boolean;
   readonly sprinting: boolean;
+  readonly mounted: boolean;
+  readonly gait: Gait | null;
 }
 
 export type TriggerCallback = (event: TriggerEvent) => void;
@@ -45,6 +54,10 @@ export class PlayerController {
   pitch = 0;
   grounded = false;
   sprinting = false;
+  /** The horse being ridden, if any */
+  mount: MountStats | null = null;
+  gait: Gait = 'walk';
+  mountStamina = 0;
 
   private bobPhase = 0;
   private lastHorizontalSpeed = 0;
@@ -83,9 +96,20 @@ export class PlayerController {
     const isMoving = _wishDir.lengthSq() > 0.001;
     if (isMoving) _wishDir.normalize();
 
-    this.sprinting = frame.sprint && isMoving;
-    const crouching = frame.crouch && !this.sprinting;
-    const speed = this.sprinting ? SPRINT_SPEED : crouching ? CROUCH_SPEED : WALK_SPEED;
+    let speed: number;
+    let crouching = false;
+    if (this.mount) {
+      this.gait = resolveGait(frame, this.mountStamina, this.gait);
+      this.mountStamina = stepMountStamina(
+        this.mountStamina, this.gait, isMoving, this.mount, delta,
+      );
+      this.sprinting = false;
+      speed = this.mount.speeds[this.gait];
+    } else {
+      this.sprinting = frame.sprint && isMoving;
+      crouching = frame.crouch && !this.sprinting;
+      speed = this.sprinting ? SPRINT_SPEED : crouching ? CROUCH_SPEED : WALK_SPEED;
+    }
 
     this.velocity.x = isMoving ? _wishDir.x * speed : 0;
     this.velocity.z = isMoving ? _wishDir.z * speed : 0;
@@ -134,9 +158,11 @@ export class PlayerController {
     this.grounded = result.grounded;
 
     if (this.grounded && this.lastHorizontalSpeed > 0.5) {
-      const bobSpeed = this.sprinting
-        ? BOB_FREQUENCY * 1.3
-        : crouching ? BOB_FREQUENCY * 0.7 : BOB_FREQUENCY;
+      const bobSpeed = this.mount
+        ? BOB_FREQUENCY * GAIT_BOB[this.gait]
+        : this.sprinting
+          ? BOB_FREQUENCY * 1.3
+          : crouching ? BOB_FREQUENCY * 0.7 : BOB_FREQUENCY;
       this.bobPhase += delta * bobSpeed;
     } else {
       this.bobPhase *= 0.9;
@@ -145,9 +171,23 @@ export class PlayerController {
     this.updateTriggers();
   }
 
+  /** Climb into the saddle of a horse with `stamina` left. */
+  mountHorse(stats: MountStats, stamina: number): void {
+    this.mount = stats;
+    this.mountStamina = Math.min(stamina, stats.maxStamina);
+    this.gait = 'walk';
+    this.sprinting = false;
+  }
+
+  dismount(): void {
+    this.mount = null;
+    this.gait = 'walk';
+  }
+
   getEyePosition(out: THREE.Vector3): THREE.Vector3 {
     const bob = Math.sin(this.bobPhase) * BOB_AMPLITUDE;
-    return out.set(this.position.x, this.position.y + EYE_OFFSET + bob, this.position.z);
+    const rise = this.mount ? MOUNTED_EYE_RISE : 0;
+    return out.set(this.position.x, this.position.y + EYE_OFFSET + rise + bob, this.position.z);
   }
 
   getCameraQuaternion(out: THREE.Quaternion): THREE.Quaternion {
@@ -174,6 +214,8 @@ export class PlayerController {
       pitch: this.pitch,
       grounded: this.grounded,
       sprinting: this.sprinting,
+      mounted: this.mount !== null,
+      gait: this.mount ? this.gait : null,
     };
   }
 
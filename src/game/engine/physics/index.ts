@@ -22,6 +22,13 @@ export type {
 // --- PlayerController ---
 export { PlayerController } from './PlayerController';
 export type { PlayerState, TriggerCallback } from './PlayerController';
+export {
+  resolveGait,
+  stepMountStamina,
+  GALLOP_MIN_STAMINA,
+  MOUNTED_EYE_RISE,
+} from './mountMovement';
+export type { Gait, MountStats } from './mountMovement';
 
 // --- CollisionShapes ---
 export {
@@ -0,0 +1,79 @@
+// mountMovement — Gaits and stamina for the PlayerController while riding.
+//
+// The horse's speeds and stamina come in as MountStats, so the controller
+// knows nothing of breeds. Galloping burns the horse's stamina; walking and
+// trotting let it recover.
+
+import type { InputFrame } from '@/src/game/input/InputFrame';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type Gait = 'walk' | 'trot' | 'gallop';
+
+export interface MountStats {
+  /** Ground speed at each gait (m/s) */
+  speeds: Record<Gait, number>;
+  maxStamina: number;
+  /** Stamina burnt per second at a gallop */
+  gallopDrain: number;
+  /** Stamina recovered per second at a walk or trot */
+  recovery: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How much higher the rider's eyes sit in the saddle (m) */
+export const MOUNTED_EYE_RISE = 1.1;
+
+/** Stamina a horse needs to break into a gallop */
+export const GALLOP_MIN_STAMINA = 10;
+
+/** Trotting recovers stamina at this fraction of the walking rate */
+export const TROT_RECOVERY_FACTOR = 0.5;
+
+/** Head bob frequency multiplier at each gait */
+export const GAIT_BOB: Record<Gait, number> = { walk: 0.6, trot: 1.1, gallop: 1.5 };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Gait for this frame: sprint gallops while the horse has the wind for it,
+ * crouch reins in to a walk, anything else trots. A galloping horse keeps
+ * going until it's spent; a tired one has to recover before galloping again.
+ */
+export function resolveGait(
+  frame: Readonly<InputFrame>,
+  stamina: number,
+  previous: Gait,
+): Gait {
+  const wantsGallop = frame.sprint && !frame.crouch;
+  if (wantsGallop) {
+    const threshold = previous === 'gallop' ? 0 : GALLOP_MIN_STAMINA;
+    if (stamina > threshold) return 'gallop';
+  }
+  return frame.crouch ? 'walk' : 'trot';
+}
+
+/** Horse stamina after `delta` seconds at `gait` (standing still counts as a walk). */
+export function stepMountStamina(
+  stamina: number,
+  gait: Gait,
+  moving: boolean,
+  stats: MountStats,
+  delta: number,
+): number {
+  let next = stamina;
+  if (moving && gait === 'gallop') {
+    next -= stats.gallopDrain * delta;
+  } else {
+    const factor = moving && gait === 'trot' ? TROT_RECOVERY_FACTOR : 1;
+    next += stats.recovery * factor * delta;
+  }
+  return Math.max(0, Math.min(stats.maxStamina, next));
+}
@@ -0,0 +1,138 @@
+// HorseRenderer — The player's horse, built from Three.js primitives.
+//
+// Full-size rather than chibi so the rider's eye height in the saddle reads
+// right. Faces +Z like the enemies. All variation comes from alea; the coat
+// colour comes from the breed.
+
+import * as THREE from 'three';
+
+import { makePRNG } from '../materials/canvasUtils';
+import { createLeatherTexture } from '../materials/CanvasTextureFactory.organic';
+
+/** Height of the saddle seat above the ground (m) */
+export const SADDLE_HEIGHT = 1.45;
+
+function shadow(mesh: THREE.Mesh): void {
+  mesh.castShadow = true;
+  mesh.receiveShadow = true;
+}
+
+/**
+ * Build a saddled horse. The `saddlebags` child starts hidden; show it once
+ * the horse has some.
+ */
+export function constructHorse(seed: string, coat: string): THREE.Group {
+  const rng = makePRNG(`horse-${seed}`);
+  const root = new THREE.Group();
+  root.name = 'horse';
+
+  const coatMat = createLeatherTexture(coat);
+  const maneMat = new THREE.MeshStandardMaterial({
+    color: rng() < 0.5 ? '#1E1410' : '#4A3426',
+    roughness: 0.9,
+  });
+  const hoofMat = new THREE.MeshStandardMaterial({ color: '#2B2420', roughness: 0.7 });
+  const tackMat = createLeatherTexture('#5C3A1E');
+
+  // Barrel body
+  const bodyGeo = new THREE.BoxGeometry(0.6, 0.65, 1.6, 2, 2, 3);
+  const body = new THREE.Mesh(bodyGeo, coatMat);
+  body.position.set(0, 1.15, 0);
+  body.name = 'body';
+  shadow(body);
+  root.add(body);
+
+  // Four long legs with dark hooves
+  const legGeo = new THREE.CylinderGeometry(0.09, 0.07, 0.85, 6);
+  const hoofGeo = new THREE.CylinderGeometry(0.09, 0.1, 0.1, 6);
+  const legPositions: [number, number][] = [[-0.2, 0.6], [0.2, 0.6], [-0.2, -0.6], [0.2, -0.6]];
+  const legNames = ['leg_fl', 'leg_fr', 'leg_bl', 'leg_br'];
+  legPositions.forEach(([x, z], i) => {
+    const leg = new THREE.Mesh(legGeo, coatMat);
+    leg.position.set(x, 0.47, z);
+    leg.name = legNames[i];
+    shadow(leg);
+    root.add(leg);
+
+    const hoof = new THREE.Mesh(hoofGeo, hoofMat);
+    hoof.position.set(x, 0.05, z);
+    root.add(hoof);
+  });
+
+  // Neck angled up and forward, head at the end of it
+  const neckGeo = new THREE.BoxGeometry(0.3, 0.8, 0.35);
+  const neck = new THREE.Mesh(neckGeo, coatMat);
+  neck.position.set(0, 1.6, 0.85);
+  neck.rotation.x = 0.6;
+  neck.name = 'neck';
+  shadow(neck);
+  root.add(neck);
+
+  const headGeo = new THREE.BoxGeometry(0.26, 0.28, 0.6);
+  const head = new THREE.Mesh(headGeo, coatMat);
+  head.position.set(0, 1.95, 1.2);
+  head.rotation.x = 0.35;
+  head.name = 'head';
+  shadow(head);
+  root.add(head);
+
+  // Upright ears
+  const earGeo = new THREE.ConeGeometry(0.05, 0.16, 4);
+  for (const side of [-1, 1]) {
+    const ear = new THREE.Mesh(earGeo, coatMat);
+    ear.position.set(side * 0.08, 2.15, 1.0);
+    root.add(ear);
+  }
+
+  // Mane along the top of the neck
+  const maneGeo = new THREE.BoxGeometry(0.08, 0.75, 0.12);
+  const mane = new THREE.Mesh(maneGeo, maneMat);
+  mane.position.set(0, 1.72, 0.72);
+  mane.rotation.x = 0.6;
+  mane.name = 'mane';
+  root.add(mane);
+
+  // Tail — long drooping cone
+  const tailGeo = new THREE.ConeGeometry(0.1, 0.8, 6);
+  const tail = new THREE.Mesh(tailGeo, maneMat);
+  tail.position.set(0, 1.05, -0.95);
+  tail.rotation.x = -0.35 - rng() * 0.15;
+  tail.name = 'tail';
+  root.add(tail);
+
+  // Saddle and blanket
+  const blanketGeo = new THREE.BoxGeometry(0.66, 0.04, 0.7);
+  const blanket = new THREE.Mesh(
+    blanketGeo,
+    new THREE.MeshStandardMaterial({ color: rng() < 0.5 ? '#8B2E1E' : '#2E4A6B', roughness: 0.9 }),
+  );
+  blanket.position.set(0, 1.49, 0.05);
+  root.add(blanket);
+
+  const saddleGeo = new THREE.BoxGeometry(0.4, 0.1, 0.5);
+  const saddle = new THREE.Mesh(saddleGeo, tackMat);
+  saddle.position.set(0, SADDLE_HEIGHT + 0.1, 0.05);
+  saddle.name = 'saddle';
+  shadow(saddle);
+  root.add(saddle);
+
+  const hornGeo = new THREE.CylinderGeometry(0.03, 0.03, 0.12, 6);
+  const horn = new THREE.Mesh(hornGeo, tackMat);
+  horn.position.set(0, SADDLE_HEIGHT + 0.2, 0.28);
+  root.add(horn);
+
+  // Saddlebags hung either side behind the saddle
+  const saddlebags = new THREE.Group();
+  saddlebags.name = 'saddlebags';
+  saddlebags.visible = false;
+  const bagGeo = new THREE.BoxGeometry(0.1, 0.32, 0.34);
+  for (const side of [-1, 1]) {
+    const bag = new THREE.Mesh(bagGeo, tackMat);
+    bag.position.set(side * 0.36, 1.3, -0.35);
+    shadow(bag);
+    saddlebags.add(bag);
+  }
+  root.add(saddlebags);
+
+  return root;
+}
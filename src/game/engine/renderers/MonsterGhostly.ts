@@ -44,6 +44,7 @@ export function buildRailWraith(seed: string): THREE.Group {
   // Glowing lantern in right hand
   const lanternGroup = new THREE.Group();
   lanternGroup.name = 'lantern';
+  lanternGroup.userData.weakPoint = 'lantern';
 
   // Lantern cage
   const cageMat = new THREE.MeshStandardMaterial({
@@ -2,6 +2,7 @@
 //
 // Brass-colored chibi built from visible mechanical parts: exposed gears,
 // pipe arms, smokestack hat, glowing red eye slit. Deterministic via alea.
+// The gears and smokestack are weak points that can be shot off.
 
 import * as THREE from 'three';
 
@@ -77,6 +78,7 @@ export function buildClockworkAutomaton(seed: string): THREE.Group {
     gear.position.set(x, y, BODY_D * 0.52);
     gear.rotation.x = Math.PI * 0.5;
     gear.name = `gear_${i}`;
+    gear.userData.weakPoint = 'gears';
     root.add(gear);
 
     // Gear teeth — small boxes around the cylinder
@@ -187,6 +189,7 @@ export function buildClockworkAutomaton(seed: string): THREE.Group {
   const stack = new THREE.Mesh(stackGeo, ironMat);
   stack.position.set(0, headY + HEAD_RADIUS * 0.9, -HEAD_RADIUS * 0.2);
   stack.name = 'smokestack';
+  stack.userData.weakPoint = 'smokestack';
   root.add(stack);
 
   // Stack rim
@@ -30,3 +30,8 @@ export {
   tickIdleAnimation,
   type EnemyAnimState,
 } from './EnemyAnimations';
+
+export {
+  constructHorse,
+  SADDLE_HEIGHT,
+} from './HorseRenderer';
@@ -3,6 +3,8 @@
 import Alea from 'alea';
 import * as THREE from 'three';
 
+import { tagSurface } from '../materials/surfaces';
+
 import {
   FENCE_POST_SPACING,
   FENCE_POST_HEIGHT,
@@ -35,10 +37,13 @@ export function addFencePosts(
     FENCE_POST_HEIGHT,
     6,
   );
-  const postMat = new THREE.MeshStandardMaterial({
-    color: '#7B6B5B',
-    roughness: 0.95,
-  });
+  const postMat = tagSurface(
+    new THREE.MeshStandardMaterial({
+      color: '#7B6B5B',
+      roughness: 0.95,
+    }),
+    'wood',
+  );
 
   const postCount = Math.floor(length / FENCE_POST_SPACING);
   const offset = ROAD_WIDTH * 0.8;
@@ -20,4 +20,10 @@ export interface IInputProvider {
 
   /** Permanently tear down event listeners and resources */
   dispose(): void;
+
+  /**
+   * Time step the polled frame was recorded with. Only providers that play
+   * back recorded input implement this; it overrides the real frame time.
+   */
+  frameDelta?(): number | null;
 }
@@ -17,6 +17,7 @@ import { KeyboardMouseProvider } from './providers/KeyboardMouseProvider';
 import { TouchProvider } from './providers/TouchProvider';
 import { GamepadProvider } from './providers/GamepadProvider';
 import { GyroProvider } from './providers/GyroProvider';
+import { type ControlSettings, DEFAULT_ACTIVATION, type ToggleableAction } from './bindings';
 
 // ---------------------------------------------------------------------------
 // Platform detection
@@ -197,6 +198,54 @@ export function initializeInput(): () => void {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Control settings
+// ---------------------------------------------------------------------------
+
+/** Mouse radians per pixel, and stick radians per tick, at full sensitivity. */
+const MAX_MOUSE_SENSITIVITY = 0.004;
+const MAX_STICK_SENSITIVITY = 0.08;
+
+/**
+ * Push the player's bindings and look options into whichever providers are
+ * registered. Safe to call before initializeInput() — it does nothing then.
+ */
+export function applyControlSettings(controls: ControlSettings): void {
+  const manager = InputManager.getInstance();
+
+  const activation = controls.activation ?? DEFAULT_ACTIVATION;
+  manager.setToggleActions(
+    (Object.keys(activation) as ToggleableAction[]).filter((a) => activation[a] === 'toggle'),
+  );
+
+  const kbm = manager.getProvider('keyboard-mouse');
+  if (kbm instanceof KeyboardMouseProvider) {
+    kbm.setBindings(controls.keyboard);
+    kbm.setSensitivity(MAX_MOUSE_SENSITIVITY * controls.lookSensitivity);
+    kbm.setInvertY(controls.invertY);
+  }
+
+  const gamepad = manager.getProvider('gamepad');
+  if (gamepad instanceof GamepadProvider) {
+    gamepad.setBindings(controls.gamepad);
+    gamepad.setSwapSticks(controls.swapSticks);
+    gamepad.setDeadzone(controls.stickDeadzone);
+    gamepad.setLookSensitivity(MAX_STICK_SENSITIVITY * controls.lookSensitivity);
+    gamepad.setInvertY(controls.invertY);
+  }
+}
+
+/**
+ * Whether the player is aiming with a stick or a touchscreen rather than a
+ * mouse — the inputs aim assist is for. Pass a platform already detected to
+ * skip detecting it again.
+ */
+export function usesAnalogAim(platform: Platform = detectPlatform()): boolean {
+  const gamepad = InputManager.getInstance().getProvider('gamepad');
+  if (gamepad instanceof GamepadProvider && gamepad.getIsConnected()) return true;
+  return platform !== 'desktop';
+}
+
 /**
  * Dispose all providers and reset the InputManager singleton.
  */
@@ -6,10 +6,25 @@
 //     override a lower-priority provider's `true` — we simply OR them together so any
 //     provider can trigger an action.
 //   - weaponSwitch: highest-priority non-zero value wins.
+//
+// Actions set to toggle with setToggleActions() are latched after merging: each
+// press flips them on or off, and the frame carries the latched state.
+//
+// A recorder attached with setRecorder() sees every merged frame (see ./replay).
 
+import type { ToggleableAction } from './bindings';
 import type { IInputProvider } from './IInputProvider';
 import { type InputFrame, createEmptyFrame } from './InputFrame';
 
+/** Receives each merged frame while a session is being recorded. */
+export interface FrameRecorder {
+  /**
+   * Store the frame, rounding it (in place) and the returned step to what
+   * the recording keeps, so the live session matches its replay exactly.
+   */
+  record(frame: InputFrame, dt: number): number;
+}
+
 type BooleanFrameKey =
   | 'fire'
   | 'aim'
@@ -41,6 +56,14 @@ export class InputManager {
   private providers: IInputProvider[] = [];
   private currentFrame: InputFrame = createEmptyFrame();
   private enabled = true;
+  private recorder: FrameRecorder | null = null;
+  /** Time step returned by the latest tick */
+  private lastStep = 0;
+  private toggleActions: readonly ToggleableAction[] = [];
+  /** Toggled actions currently switched on */
+  private latched = new Set<ToggleableAction>();
+  /** Toggled actions whose input was down last tick, to find fresh presses */
+  private held = new Set<ToggleableAction>();
 
   private constructor() {}
 
@@ -85,19 +108,52 @@ export class InputManager {
     return this.providers.find((p) => p.name === name);
   }
 
+  getProviders(): readonly IInputProvider[] {
+    return this.providers;
+  }
+
+  setRecorder(recorder: FrameRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  getRecorder(): FrameRecorder | null {
+    return this.recorder;
+  }
+
+  /** Make these actions toggle on each press; every other action is held. */
+  setToggleActions(actions: readonly ToggleableAction[]): void {
+    this.toggleActions = [...actions];
+    for (const action of this.latched) {
+      if (!actions.includes(action)) this.latched.delete(action);
+    }
+  }
+
+  getToggleActions(): readonly ToggleableAction[] {
+    return this.toggleActions;
+  }
+
   // ---------------------------------------------------------------------------
   // Per-tick update
   // ---------------------------------------------------------------------------
 
-  /** Poll all providers and merge into a single InputFrame. Call once per game tick. */
-  tick(): void {
-    if (!this.enabled) return;
+  /**
+   * Poll all providers and merge into a single InputFrame. Call once per game
+   * tick with the frame time; returns the time step to simulate, which differs
+   * from `dt` while recording (rounded) or replaying (the recorded step).
+   */
+  tick(dt = 0): number {
+    if (!this.enabled) {
+      this.lastStep = dt;
+      return dt;
+    }
 
     const merged = createEmptyFrame();
     let weaponSwitchPriority = -1;
+    let step = dt;
 
     for (const provider of this.providers) {
       const partial = provider.poll();
+      step = provider.frameDelta?.() ?? step;
 
       // Analog: accumulate
       if (partial.move) {
@@ -138,7 +194,39 @@ export class InputManager {
     merged.move.x = clamp(merged.move.x, -1, 1);
     merged.move.z = clamp(merged.move.z, -1, 1);
 
+    this.applyToggles(merged);
+    if (this.recorder) step = this.recorder.record(merged, step);
+
     this.currentFrame = merged;
+    this.lastStep = step;
+    return step;
+  }
+
+  /**
+   * The time step the latest tick returned. Simulation that runs outside the
+   * physics tick advances by this rather than its own frame delta, so
+   * recordings and replays step it the same way.
+   */
+  getLastStep(): number {
+    return this.lastStep;
+  }
+
+  private applyToggles(frame: InputFrame): void {
+    for (const action of this.toggleActions) {
+      const down = frame[action];
+      if (down && !this.held.has(action)) {
+        if (this.latched.has(action)) this.latched.delete(action);
+        else this.latched.add(action);
+      }
+      if (down) this.held.add(action);
+      else this.held.delete(action);
+      frame[action] = this.latched.has(action);
+    }
+    // A toggled sprint ends when the player stops moving
+    if (this.latched.has('sprint') && frame.move.x === 0 && frame.move.z === 0) {
+      this.latched.delete('sprint');
+      frame.sprint = false;
+    }
   }
 
   // ---------------------------------------------------------------------------
@@ -168,6 +256,7 @@ export class InputManager {
     }
     this.providers = [];
     this.currentFrame = createEmptyFrame();
+    this.recorder = null;
     this.enabled = false;
   }
 }
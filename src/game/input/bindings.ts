@@ -0,0 +1,294 @@
+// bindings — Rebindable controls: a binding map per provider, named presets,
+// and conflict detection for the rebinding screen.
+//
+// Keyboard bindings are KeyboardEvent.code values, with mouse buttons written
+// as `Mouse0` (left) and `Mouse2` (right). Gamepad bindings are button indices
+// in the standard mapping. Mouse and stick look stay on their axes; the
+// southpaw preset swaps which stick moves and which looks.
+
+import { InputAction } from './InputActions';
+
+/** Inputs bound to each action, primary binding first. */
+export type BindingMap<T> = Partial<Record<InputAction, T[]>>;
+export type KeyboardBindings = BindingMap<string>;
+export type GamepadBindings = BindingMap<number>;
+
+export type BindingDevice = 'keyboard' | 'gamepad';
+
+export type ControlPreset = 'default' | 'left-handed' | 'southpaw';
+
+/** Hold the input down for the action, or press once for on and again for off. */
+export type ActivationMode = 'hold' | 'toggle';
+export type ToggleableAction = 'crouch' | 'aim' | 'sprint';
+export type ActivationModes = Record<ToggleableAction, ActivationMode>;
+
+export interface ControlSettings {
+  /** Preset the bindings came from, or 'custom' once any is changed */
+  preset: ControlPreset | 'custom';
+  keyboard: KeyboardBindings;
+  gamepad: GamepadBindings;
+  /** Move with the right stick and look with the left */
+  swapSticks: boolean;
+  /** Look speed for mouse and stick (0-1, 0.5 is the standard speed) */
+  lookSensitivity: number;
+  invertY: boolean;
+  /** Stick travel ignored around the centre (0-MAX_STICK_DEADZONE) */
+  stickDeadzone: number;
+  /** Hold or toggle, for the actions that can be either */
+  activation: ActivationModes;
+}
+
+/** Standard-mapping gamepad button indices. */
+export const GamepadButton = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LB: 4,
+  RB: 5,
+  LT: 6,
+  RT: 7,
+  Select: 8,
+  Start: 9,
+  LeftStick: 10,
+  RightStick: 11,
+  DpadUp: 12,
+  DpadDown: 13,
+  DpadLeft: 14,
+  DpadRight: 15,
+  Back: 16,
+} as const;
+
+export const MAX_STICK_DEADZONE = 0.5;
+
+/** Actions the rebinding screen lists, in order, with their names. */
+export const ACTION_LABELS: ReadonlyArray<[InputAction, string]> = [
+  [InputAction.MoveForward, 'Move Forward'],
+  [InputAction.MoveBack, 'Move Back'],
+  [InputAction.MoveLeft, 'Move Left'],
+  [InputAction.MoveRight, 'Move Right'],
+  [InputAction.Fire, 'Fire'],
+  [InputAction.Aim, 'Aim'],
+  [InputAction.Reload, 'Reload'],
+  [InputAction.Interact, 'Interact'],
+  [InputAction.Jump, 'Jump'],
+  [InputAction.Sprint, 'Sprint'],
+  [InputAction.Crouch, 'Crouch'],
+  [InputAction.Inventory, 'Inventory'],
+  [InputAction.Map, 'Map'],
+  [InputAction.Menu, 'Menu'],
+  [InputAction.WeaponSlot1, 'Weapon 1'],
+  [InputAction.WeaponSlot2, 'Weapon 2'],
+  [InputAction.WeaponSlot3, 'Weapon 3'],
+  [InputAction.WeaponSlot4, 'Weapon 4'],
+  [InputAction.WeaponSlot5, 'Weapon 5'],
+  [InputAction.WeaponSlot6, 'Weapon 6'],
+];
+
+/** Weapon slot actions, slot 1 first. */
+export const WEAPON_SLOT_ACTIONS: readonly InputAction[] = [
+  InputAction.WeaponSlot1,
+  InputAction.WeaponSlot2,
+  InputAction.WeaponSlot3,
+  InputAction.WeaponSlot4,
+  InputAction.WeaponSlot5,
+  InputAction.WeaponSlot6,
+];
+
+// ---------------------------------------------------------------------------
+// Presets
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_KEYBOARD_BINDINGS: KeyboardBindings = {
+  [InputAction.MoveForward]: ['KeyW', 'ArrowUp'],
+  [InputAction.MoveBack]: ['KeyS', 'ArrowDown'],
+  [InputAction.MoveLeft]: ['KeyA', 'ArrowLeft'],
+  [InputAction.MoveRight]: ['KeyD', 'ArrowRight'],
+  [InputAction.Fire]: ['Mouse0'],
+  [InputAction.Aim]: ['Mouse2'],
+  [InputAction.Reload]: ['KeyR'],
+  [InputAction.Interact]: ['KeyE'],
+  [InputAction.Jump]: ['Space'],
+  [InputAction.Sprint]: ['ShiftLeft', 'ShiftRight'],
+  [InputAction.Crouch]: ['KeyC'],
+  [InputAction.Inventory]: ['Tab'],
+  [InputAction.Map]: ['KeyM'],
+  [InputAction.Menu]: ['Escape'],
+  [InputAction.WeaponSlot1]: ['Digit1'],
+  [InputAction.WeaponSlot2]: ['Digit2'],
+  [InputAction.WeaponSlot3]: ['Digit3'],
+  [InputAction.WeaponSlot4]: ['Digit4'],
+  [InputAction.WeaponSlot5]: ['Digit5'],
+  [InputAction.WeaponSlot6]: ['Digit6'],
+};
+
+/** Mouse in the left hand, so the right hand takes the keys round IJKL. */
+export const LEFT_HANDED_KEYBOARD_BINDINGS: KeyboardBindings = {
+  ...DEFAULT_KEYBOARD_BINDINGS,
+  [InputAction.MoveForward]: ['KeyI', 'ArrowUp'],
+  [InputAction.MoveBack]: ['KeyK', 'ArrowDown'],
+  [InputAction.MoveLeft]: ['KeyJ', 'ArrowLeft'],
+  [InputAction.MoveRight]: ['KeyL', 'ArrowRight'],
+  [InputAction.Reload]: ['KeyP'],
+  [InputAction.Interact]: ['KeyO'],
+  [InputAction.Jump]: ['Space'],
+  [InputAction.Sprint]: ['ShiftRight'],
+  [InputAction.Crouch]: ['KeyN'],
+  [InputAction.Inventory]: ['KeyU'],
+  [InputAction.Map]: ['KeyY'],
+  [InputAction.WeaponSlot1]: ['Digit7', 'Numpad1'],
+  [InputAction.WeaponSlot2]: ['Digit8', 'Numpad2'],
+  [InputAction.WeaponSlot3]: ['Digit9', 'Numpad3'],
+  [InputAction.WeaponSlot4]: ['Digit0', 'Numpad4'],
+  [InputAction.WeaponSlot5]: ['Minus', 'Numpad5'],
+  [InputAction.WeaponSlot6]: ['Equal', 'Numpad6'],
+};
+
+export const DEFAULT_GAMEPAD_BINDINGS: GamepadBindings = {
+  [InputAction.Fire]: [GamepadButton.RT],
+  [InputAction.Aim]: [GamepadButton.LT],
+  [InputAction.Reload]: [GamepadButton.RB],
+  [InputAction.Interact]: [GamepadButton.X],
+  [InputAction.Jump]: [GamepadButton.A],
+  [InputAction.Sprint]: [GamepadButton.Y],
+  [InputAction.Crouch]: [GamepadButton.B],
+  [InputAction.Inventory]: [GamepadButton.Back],
+  [InputAction.Map]: [GamepadButton.Select],
+  [InputAction.Menu]: [GamepadButton.Start],
+  [InputAction.WeaponSlot1]: [GamepadButton.DpadUp],
+  [InputAction.WeaponSlot2]: [GamepadButton.DpadRight],
+  [InputAction.WeaponSlot3]: [GamepadButton.DpadDown],
+  [InputAction.WeaponSlot4]: [GamepadButton.DpadLeft],
+};
+
+/** Southpaw also swaps the shoulders, so aim and fire follow the sticks. */
+const SOUTHPAW_GAMEPAD_BINDINGS: GamepadBindings = {
+  ...DEFAULT_GAMEPAD_BINDINGS,
+  [InputAction.Fire]: [GamepadButton.LT],
+  [InputAction.Aim]: [GamepadButton.RT],
+  [InputAction.Reload]: [GamepadButton.LB],
+};
+
+export const CONTROL_PRESETS: Record<
+  ControlPreset,
+  Pick<ControlSettings, 'keyboard' | 'gamepad' | 'swapSticks'>
+> = {
+  default: {
+    keyboard: DEFAULT_KEYBOARD_BINDINGS,
+    gamepad: DEFAULT_GAMEPAD_BINDINGS,
+    swapSticks: false,
+  },
+  'left-handed': {
+    keyboard: LEFT_HANDED_KEYBOARD_BINDINGS,
+    gamepad: DEFAULT_GAMEPAD_BINDINGS,
+    swapSticks: false,
+  },
+  southpaw: {
+    keyboard: DEFAULT_KEYBOARD_BINDINGS,
+    gamepad: SOUTHPAW_GAMEPAD_BINDINGS,
+    swapSticks: true,
+  },
+};
+
+export const DEFAULT_ACTIVATION: ActivationModes = {
+  crouch: 'toggle',
+  aim: 'hold',
+  sprint: 'hold',
+};
+
+export const DEFAULT_CONTROLS: ControlSettings = {
+  preset: 'default',
+  ...CONTROL_PRESETS.default,
+  lookSensitivity: 0.5,
+  invertY: false,
+  stickDeadzone: 0.15,
+  activation: DEFAULT_ACTIVATION,
+};
+
+// ---------------------------------------------------------------------------
+// Lookup and conflicts
+// ---------------------------------------------------------------------------
+
+/** First action `input` is bound to, if any. */
+export function getBoundAction<T>(bindings: BindingMap<T>, input: T): InputAction | null {
+  for (const [action] of ACTION_LABELS) {
+    if (bindings[action]?.includes(input)) return action;
+  }
+  return null;
+}
+
+/** Inputs bound to more than one action, with the actions sharing them. */
+export function findConflicts<T>(bindings: BindingMap<T>): Map<T, InputAction[]> {
+  const byInput = new Map<T, InputAction[]>();
+  for (const [action] of ACTION_LABELS) {
+    for (const input of bindings[action] ?? []) {
+      byInput.set(input, [...(byInput.get(input) ?? []), action]);
+    }
+  }
+  for (const [input, actions] of byInput) {
+    if (actions.length < 2) byInput.delete(input);
+  }
+  return byInput;
+}
+
+/**
+ * Make `input` the primary binding for `action`. Any other action using it
+ * loses it; those actions are returned so the screen can point them out.
+ */
+export function rebind<T>(
+  bindings: BindingMap<T>,
+  action: InputAction,
+  input: T,
+): { bindings: BindingMap<T>; displaced: InputAction[] } {
+  const next: BindingMap<T> = {};
+  const displaced: InputAction[] = [];
+  for (const [other] of ACTION_LABELS) {
+    const inputs = bindings[other] ?? [];
+    if (other === action) continue;
+    if (inputs.includes(input)) {
+      displaced.push(other);
+      next[other] = inputs.filter((i) => i !== input);
+    } else if (bindings[other]) {
+      next[other] = inputs;
+    }
+  }
+  const current = (bindings[action] ?? []).filter((i) => i !== input);
+  next[action] = [input, ...current.slice(1)];
+  return { bindings: next, displaced };
+}
+
+// ---------------------------------------------------------------------------
+// Display
+// ---------------------------------------------------------------------------
+
+const KEY_NAMES: Record<string, string> = {
+  Mouse0: 'Left Click',
+  Mouse1: 'Middle Click',
+  Mouse2: 'Right Click',
+  Space: 'Space',
+  ShiftLeft: 'Left Shift',
+  ShiftRight: 'Right Shift',
+  ControlLeft: 'Left Ctrl',
+  ControlRight: 'Right Ctrl',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Minus: '-',
+  Equal: '=',
+  Escape: 'Esc',
+};
+
+const BUTTON_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(GamepadButton).map(([name, index]) => [index, name]),
+);
+
+/** Short label for a key, mouse button or gamepad button. */
+export function describeInput(input: string | number): string {
+  if (typeof input === 'number') return BUTTON_NAMES[input] ?? `Button ${input}`;
+  if (KEY_NAMES[input]) return KEY_NAMES[input];
+  if (input.startsWith('Key')) return input.slice(3);
+  if (input.startsWith('Digit')) return input.slice(5);
+  if (input.startsWith('Numpad')) return `Num ${input.slice(6)}`;
+  return input;
+}
@@ -14,6 +14,29 @@ export {
 } from './providers/TouchProvider';
 export { XRControllerProvider } from './providers/XRControllerProvider';
 export {
+  ACTION_LABELS,
+  CONTROL_PRESETS,
+  DEFAULT_ACTIVATION,
+  DEFAULT_CONTROLS,
+  GamepadButton,
+  MAX_STICK_DEADZONE,
+  describeInput,
+  findConflicts,
+  getBoundAction,
+  rebind,
+  type ActivationMode,
+  type ActivationModes,
+  type BindingDevice,
+  type BindingMap,
+  type ControlPreset,
+  type ControlSettings,
+  type GamepadBindings,
+  type KeyboardBindings,
+  type ToggleableAction,
+} from './bindings';
+export {
+  applyControlSettings,
+  usesAnalogAim,
   initializeInput,
   teardownInput,
   detectPlatform,
@@ -1,21 +1,26 @@
 // GamepadProvider — Gamepad input provider using the Gamepad API
 //
-// Standard mapping:
+// Buttons come from a rebindable GamepadBindings map of standard-mapping
+// indices (see ../bindings.ts). By default:
 //   Left stick        — movement (x: strafe, y: forward/back)
 //   Right stick       — look (yaw / pitch)
-//   RT (button 7)     — fire
-//   LT (button 6)     — aim
-//   RB (button 5)     — reload
-//   A  (button 0)     — jump
-//   X  (button 2)     — interact
-//   Y  (button 3)     — sprint (toggle)
-//   Start (button 9)  — menu
-//   Select (button 8) — map
-//   Back (button 16)  — inventory (or Select fallback)
+//   RT / LT           — fire / aim
+//   RB                — reload
+//   A / B / X / Y     — jump / crouch / interact / sprint
+//   Start / Select    — menu / map
+//   Back (button 16)  — inventory
 //   D-pad Up/Rt/Dn/Lt — weapon slots 1-4
+// `swapSticks` (the southpaw preset) moves with the right stick and looks
+// with the left.
 
 import type { IInputProvider } from '../IInputProvider';
 import type { InputFrame } from '../InputFrame';
+import { InputAction } from '../InputActions';
+import {
+  DEFAULT_GAMEPAD_BINDINGS,
+  WEAPON_SLOT_ACTIONS,
+  type GamepadBindings,
+} from '../bindings';
 
 export interface GamepadConfig {
   /** Analog stick deadzone (default 0.15) */
@@ -26,6 +31,10 @@ export interface GamepadConfig {
   invertY: boolean;
   /** Gamepad index to use — null means first connected (default null) */
   gamepadIndex: number | null;
+  /** Buttons per action (default DEFAULT_GAMEPAD_BINDINGS) */
+  bindings: GamepadBindings;
+  /** Move with the right stick and look with the left (default false) */
+  swapSticks: boolean;
 }
 
 const DEFAULT_CONFIG: GamepadConfig = {
@@ -33,23 +42,10 @@ const DEFAULT_CONFIG: GamepadConfig = {
   lookSensitivity: 0.04,
   invertY: false,
   gamepadIndex: null,
+  bindings: DEFAULT_GAMEPAD_BINDINGS,
+  swapSticks: false,
 };
 
-// Standard gamepad button indices
-const BTN_A = 0;
-const BTN_X = 2;
-const BTN_Y = 3;
-const BTN_RB = 5;
-const BTN_LT = 6;
-const BTN_RT = 7;
-const BTN_SELECT = 8;
-const BTN_START = 9;
-const BTN_DPAD_UP = 12;
-const BTN_DPAD_DOWN = 13;
-const BTN_DPAD_LEFT = 14;
-const BTN_DPAD_RIGHT = 15;
-const BTN_BACK = 16; // Not always present
-
 // Standard gamepad axes indices
 const AXIS_LEFT_X = 0;
 const AXIS_LEFT_Y = 1;
@@ -64,7 +60,7 @@ export class GamepadProvider implements IInputProvider {
   private isEnabled = false;
   private connectedIndex: number | null = null;
   private weaponSlot = 0;
-  private prevDpad: [boolean, boolean, boolean, boolean] = [false, false, false, false];
+  private prevSlots: boolean[] = WEAPON_SLOT_ACTIONS.map(() => false);
 
   private readonly onGamepadConnected: (e: GamepadEvent) => void;
   private readonly onGamepadDisconnected: (e: GamepadEvent) => void;
@@ -86,17 +82,21 @@ export class GamepadProvider implements IInputProvider {
     const gp = this.getGamepad();
     if (!gp) return {};
 
-    // Movement from left stick
-    const rawMoveX = gp.axes[AXIS_LEFT_X] ?? 0;
-    const rawMoveY = gp.axes[AXIS_LEFT_Y] ?? 0;
+    const [moveX, moveY, lookX, lookY] = this.config.swapSticks
+      ? [AXIS_RIGHT_X, AXIS_RIGHT_Y, AXIS_LEFT_X, AXIS_LEFT_Y]
+      : [AXIS_LEFT_X, AXIS_LEFT_Y, AXIS_RIGHT_X, AXIS_RIGHT_Y];
+
+    // Movement from the move stick
+    const rawMoveX = gp.axes[moveX] ?? 0;
+    const rawMoveY = gp.axes[moveY] ?? 0;
     const move = {
       x: this.applyDeadzone(rawMoveX),
       z: -this.applyDeadzone(rawMoveY), // Invert: stick down (-1 in frame is back)
     };
 
-    // Look from right stick
-    const rawLookX = gp.axes[AXIS_RIGHT_X] ?? 0;
-    const rawLookY = gp.axes[AXIS_RIGHT_Y] ?? 0;
+    // Look from the look stick
+    const rawLookX = gp.axes[lookX] ?? 0;
+    const rawLookY = gp.axes[lookY] ?? 0;
     const pitchSign = this.config.invertY ? -1 : 1;
     const look = {
       yaw: this.applyDeadzone(rawLookX) * this.config.lookSensitivity,
@@ -104,19 +104,18 @@ export class GamepadProvider implements IInputProvider {
     };
 
     // Buttons
-    const fire = this.isPressed(gp, BTN_RT);
-    const aim = this.isPressed(gp, BTN_LT);
-    const reload = this.isPressed(gp, BTN_RB);
-    const jump = this.isPressed(gp, BTN_A);
-    const interact = this.isPressed(gp, BTN_X);
-    const sprint = this.isPressed(gp, BTN_Y);
-    const menu = this.isPressed(gp, BTN_START);
-    const map = this.isPressed(gp, BTN_SELECT);
-
-    // Inventory: use BTN_BACK if available, otherwise not mapped
-    const inventory = this.isPressed(gp, BTN_BACK);
-
-    // D-pad weapon switch — edge-triggered (fire once on press)
+    const fire = this.isHeld(gp, InputAction.Fire);
+    const aim = this.isHeld(gp, InputAction.Aim);
+    const reload = this.isHeld(gp, InputAction.Reload);
+    const jump = this.isHeld(gp, InputAction.Jump);
+    const interact = this.isHeld(gp, InputAction.Interact);
+    const sprint = this.isHeld(gp, InputAction.Sprint);
+    const crouch = this.isHeld(gp, InputAction.Crouch);
+    const menu = this.isHeld(gp, InputAction.Menu);
+    const map = this.isHeld(gp, InputAction.Map);
+    const inventory = this.isHeld(gp, InputAction.Inventory);
+
+    // Weapon switch — edge-triggered (fire once on press)
     this.updateWeaponSlot(gp);
     const weaponSwitch = this.weaponSlot;
     this.weaponSlot = 0;
@@ -130,6 +129,7 @@ export class GamepadProvider implements IInputProvider {
       interact,
       jump,
       sprint,
+      crouch,
       inventory,
       map,
       menu,
@@ -153,7 +153,7 @@ export class GamepadProvider implements IInputProvider {
     this.isEnabled = false;
     this.connectedIndex = null;
     this.weaponSlot = 0;
-    this.prevDpad = [false, false, false, false];
+    this.prevSlots = WEAPON_SLOT_ACTIONS.map(() => false);
 
     window.removeEventListener('gamepadconnected', this.onGamepadConnected);
     window.removeEventListener('gamepaddisconnected', this.onGamepadDisconnected);
@@ -179,6 +179,14 @@ export class GamepadProvider implements IInputProvider {
     this.config.invertY = value;
   }
 
+  setBindings(bindings: GamepadBindings): void {
+    this.config.bindings = bindings;
+  }
+
+  setSwapSticks(value: boolean): void {
+    this.config.swapSticks = value;
+  }
+
   /** Whether a gamepad is currently connected and being read */
   getIsConnected(): boolean {
     return this.getGamepad() !== null;
@@ -229,21 +237,18 @@ export class GamepadProvider implements IInputProvider {
     return btn ? btn.pressed : false;
   }
 
+  private isHeld(gp: Gamepad, action: InputAction): boolean {
+    return this.config.bindings[action]?.some((index) => this.isPressed(gp, index)) ?? false;
+  }
+
   private updateWeaponSlot(gp: Gamepad): void {
-    const dpad: [boolean, boolean, boolean, boolean] = [
-      this.isPressed(gp, BTN_DPAD_UP),
-      this.isPressed(gp, BTN_DPAD_RIGHT),
-      this.isPressed(gp, BTN_DPAD_DOWN),
-      this.isPressed(gp, BTN_DPAD_LEFT),
-    ];
+    const slots = WEAPON_SLOT_ACTIONS.map((action) => this.isHeld(gp, action));
 
     // Edge-detect: only fire on transition from not-pressed to pressed
-    if (dpad[0] && !this.prevDpad[0]) this.weaponSlot = 1;
-    else if (dpad[1] && !this.prevDpad[1]) this.weaponSlot = 2;
-    else if (dpad[2] && !this.prevDpad[2]) this.weaponSlot = 3;
-    else if (dpad[3] && !this.prevDpad[3]) this.weaponSlot = 4;
+    const pressed = slots.findIndex((held, i) => held && !this.prevSlots[i]);
+    if (pressed >= 0) this.weaponSlot = pressed + 1;
 
-    this.prevDpad = dpad;
+    this.prevSlots = slots;
   }
 
   private handleConnect(e: GamepadEvent): void {
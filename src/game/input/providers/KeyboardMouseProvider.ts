@@ -1,33 +1,32 @@
 // KeyboardMouseProvider — Desktop keyboard + mouse input provider
 //
-// Key bindings (defaults):
-//   WASD           — movement
-//   Mouse move     — look (requires pointer lock)
-//   Left click     — fire
-//   Right click    — aim
-//   R              — reload
-//   E              — interact
-//   Space          — jump
-//   ShiftLeft      — sprint
-//   C              — crouch (toggle stealth)
-//   Tab            — inventory
-//   KeyM           — map
-//   Escape         — menu (also releases pointer lock)
-//   Digit1-Digit6  — weapon slots
+// Keys and mouse buttons come from a rebindable KeyboardBindings map (see
+// ../bindings.ts for the default and left-handed layouts). Mouse movement
+// always drives look, and needs pointer lock. Escape releases pointer lock
+// whatever Menu is bound to.
 
 import type { IInputProvider } from '../IInputProvider';
 import type { InputFrame } from '../InputFrame';
+import { InputAction } from '../InputActions';
+import {
+  DEFAULT_KEYBOARD_BINDINGS,
+  WEAPON_SLOT_ACTIONS,
+  type KeyboardBindings,
+} from '../bindings';
 
 export interface KeyboardMouseConfig {
   /** Mouse sensitivity multiplier (default 0.002) */
   sensitivity: number;
   /** Invert Y axis (default false) */
   invertY: boolean;
+  /** Keys and mouse buttons per action (default DEFAULT_KEYBOARD_BINDINGS) */
+  bindings: KeyboardBindings;
 }
 
 const DEFAULT_CONFIG: KeyboardMouseConfig = {
   sensitivity: 0.002,
   invertY: false,
+  bindings: DEFAULT_KEYBOARD_BINDINGS,
 };
 
 export class KeyboardMouseProvider implements IInputProvider {
@@ -35,11 +34,11 @@ export class KeyboardMouseProvider implements IInputProvider {
   readonly priority = 0;
 
   private config: KeyboardMouseConfig;
+  /** Held key codes, plus `Mouse<button>` for held mouse buttons */
   private keysDown = new Set<string>();
+  private gameKeys = new Set<string>();
   private mouseDeltaX = 0;
   private mouseDeltaY = 0;
-  private mouseLeftDown = false;
-  private mouseRightDown = false;
   private weaponSlot = 0;
   private isEnabled = false;
   private isPointerLocked = false;
@@ -55,6 +54,7 @@ export class KeyboardMouseProvider implements IInputProvider {
 
   constructor(config: Partial<KeyboardMouseConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.gameKeys = collectGameKeys(this.config.bindings);
 
     this.onKeyDown = this.handleKeyDown.bind(this);
     this.onKeyUp = this.handleKeyUp.bind(this);
@@ -89,10 +89,10 @@ export class KeyboardMouseProvider implements IInputProvider {
 
     const move = { x: 0, z: 0 };
 
-    if (this.keysDown.has('KeyW') || this.keysDown.has('ArrowUp')) move.z += 1;
-    if (this.keysDown.has('KeyS') || this.keysDown.has('ArrowDown')) move.z -= 1;
-    if (this.keysDown.has('KeyA') || this.keysDown.has('ArrowLeft')) move.x -= 1;
-    if (this.keysDown.has('KeyD') || this.keysDown.has('ArrowRight')) move.x += 1;
+    if (this.isHeld(InputAction.MoveForward)) move.z += 1;
+    if (this.isHeld(InputAction.MoveBack)) move.z -= 1;
+    if (this.isHeld(InputAction.MoveLeft)) move.x -= 1;
+    if (this.isHeld(InputAction.MoveRight)) move.x += 1;
 
     // Normalize diagonal movement
     const mag = Math.sqrt(move.x * move.x + move.z * move.z);
@@ -118,16 +118,16 @@ export class KeyboardMouseProvider implements IInputProvider {
     return {
       move,
       look,
-      fire: this.mouseLeftDown,
-      aim: this.mouseRightDown,
-      reload: this.keysDown.has('KeyR'),
-      interact: this.keysDown.has('KeyE'),
-      jump: this.keysDown.has('Space'),
-      sprint: this.keysDown.has('ShiftLeft') || this.keysDown.has('ShiftRight'),
-      crouch: this.keysDown.has('KeyC'),
-      inventory: this.keysDown.has('Tab'),
-      map: this.keysDown.has('KeyM'),
-      menu: this.keysDown.has('Escape'),
+      fire: this.isHeld(InputAction.Fire),
+      aim: this.isHeld(InputAction.Aim),
+      reload: this.isHeld(InputAction.Reload),
+      interact: this.isHeld(InputAction.Interact),
+      jump: this.isHeld(InputAction.Jump),
+      sprint: this.isHeld(InputAction.Sprint),
+      crouch: this.isHeld(InputAction.Crouch),
+      inventory: this.isHeld(InputAction.Inventory),
+      map: this.isHeld(InputAction.Map),
+      menu: this.isHeld(InputAction.Menu),
       weaponSwitch,
     };
   }
@@ -155,8 +155,6 @@ export class KeyboardMouseProvider implements IInputProvider {
     if (!this.isEnabled) return;
     this.isEnabled = false;
     this.keysDown.clear();
-    this.mouseLeftDown = false;
-    this.mouseRightDown = false;
     this.mouseDeltaX = 0;
     this.mouseDeltaY = 0;
     this.weaponSlot = 0;
@@ -206,6 +204,17 @@ export class KeyboardMouseProvider implements IInputProvider {
     this.config.invertY = value;
   }
 
+  /** Swap in a new binding map; anything held is released. */
+  setBindings(bindings: KeyboardBindings): void {
+    this.config.bindings = bindings;
+    this.gameKeys = collectGameKeys(bindings);
+    this.keysDown.clear();
+  }
+
+  private isHeld(action: InputAction): boolean {
+    return this.config.bindings[action]?.some((input) => this.keysDown.has(input)) ?? false;
+  }
+
   // ---------------------------------------------------------------------------
   // Event handlers
   // ---------------------------------------------------------------------------
@@ -213,7 +222,7 @@ export class KeyboardMouseProvider implements IInputProvider {
   private handleKeyDown(e: KeyboardEvent): void {
     // Prevent default for game keys (not for browser shortcuts like Ctrl+R)
     if (!e.ctrlKey && !e.metaKey && !e.altKey) {
-      if (isGameKey(e.code)) {
+      if (this.gameKeys.has(e.code)) {
         e.preventDefault();
       }
     }
@@ -221,7 +230,7 @@ export class KeyboardMouseProvider implements IInputProvider {
     this.keysDown.add(e.code);
 
     // Weapon slot keys (fire once on press, not hold)
-    const slot = weaponSlotFromCode(e.code);
+    const slot = weaponSlotFromInput(this.config.bindings, e.code);
     if (slot > 0 && !e.repeat) {
       this.weaponSlot = slot;
     }
@@ -238,13 +247,17 @@ export class KeyboardMouseProvider implements IInputProvider {
   }
 
   private handleMouseDown(e: MouseEvent): void {
-    if (e.button === 0) this.mouseLeftDown = true;
-    if (e.button === 2) this.mouseRightDown = true;
+    const input = mouseInput(e.button);
+    this.keysDown.add(input);
+
+    const slot = weaponSlotFromInput(this.config.bindings, input);
+    if (slot > 0) {
+      this.weaponSlot = slot;
+    }
   }
 
   private handleMouseUp(e: MouseEvent): void {
-    if (e.button === 0) this.mouseLeftDown = false;
-    if (e.button === 2) this.mouseRightDown = false;
+    this.keysDown.delete(mouseInput(e.button));
   }
 
   private handlePointerLockChange(): void {
@@ -253,8 +266,9 @@ export class KeyboardMouseProvider implements IInputProvider {
       // Clear state when pointer lock is lost
       this.mouseDeltaX = 0;
       this.mouseDeltaY = 0;
-      this.mouseLeftDown = false;
-      this.mouseRightDown = false;
+      for (const input of [...this.keysDown]) {
+        if (input.startsWith('Mouse')) this.keysDown.delete(input);
+      }
     }
   }
 }
@@ -263,26 +277,26 @@ export class KeyboardMouseProvider implements IInputProvider {
 // Helpers
 // ---------------------------------------------------------------------------
 
-const GAME_KEYS = new Set<string>([
-  'KeyW', 'KeyA', 'KeyS', 'KeyD',
-  'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight',
-  'Space', 'ShiftLeft', 'ShiftRight',
-  'KeyR', 'KeyE', 'KeyM', 'KeyC', 'Tab',
-  'Digit1', 'Digit2', 'Digit3', 'Digit4', 'Digit5', 'Digit6',
-]);
-
-function isGameKey(code: string): boolean {
-  return GAME_KEYS.has(code);
+/** Binding name for a mouse button, e.g. `Mouse0` for the left button. */
+function mouseInput(button: number): string {
+  return `Mouse${button}`;
 }
 
-function weaponSlotFromCode(code: string): number {
-  switch (code) {
-    case 'Digit1': return 1;
-    case 'Digit2': return 2;
-    case 'Digit3': return 3;
-    case 'Digit4': return 4;
-    case 'Digit5': return 5;
-    case 'Digit6': return 6;
-    default: return 0;
+/**
+ * Keyboard codes the game swallows so the browser doesn't act on them.
+ * Escape is always left to the browser so it can release pointer lock.
+ */
+function collectGameKeys(bindings: KeyboardBindings): Set<string> {
+  const keys = new Set<string>();
+  for (const inputs of Object.values(bindings)) {
+    for (const input of inputs ?? []) {
+      if (!input.startsWith('Mouse') && input !== 'Escape') keys.add(input);
+    }
   }
+  return keys;
+}
+
+function weaponSlotFromInput(bindings: KeyboardBindings, input: string): number {
+  const index = WEAPON_SLOT_ACTIONS.findIndex((action) => bindings[action]?.includes(input));
+  return index + 1;
 }
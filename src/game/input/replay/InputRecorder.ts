@@ -0,0 +1,79 @@
+// InputRecorder — Captures the merged InputFrame of every tick into a replay.
+//
+// Attach with InputManager.setRecorder(). Each frame is rounded to the
+// replay's units before the game reads it, so the recorded session and its
+// replay see identical input and time steps.
+
+import { getRngCounter } from '../../lib/prng';
+import type { FrameRecorder } from '../InputManager';
+import type { InputFrame } from '../InputFrame';
+import {
+  REPLAY_VERSION,
+  type EncodedFrame,
+  type ReplayFile,
+  type ReplayPose,
+  appendFrame,
+  encodeFrame,
+  quantizeDelta,
+  quantizeFrame,
+} from './replayFormat';
+
+export interface RecordingStart {
+  /** World seed of the session */
+  seed: number;
+  /** Save data to restore before replaying, in save-slot form */
+  startSave: Record<string, unknown> | null;
+}
+
+export class InputRecorder implements FrameRecorder {
+  private readonly start: RecordingStart;
+  private readonly recordedAt = Date.now();
+  private readonly rngCounter = getRngCounter();
+  private readonly frames: (EncodedFrame | number)[] = [];
+  private frameCount = 0;
+  private player: ReplayPose | null = null;
+
+  constructor(start: RecordingStart) {
+    this.start = start;
+  }
+
+  record(frame: InputFrame, dt: number): number {
+    quantizeFrame(frame);
+    const step = quantizeDelta(dt);
+    appendFrame(this.frames, encodeFrame(frame, step));
+    this.frameCount++;
+    return step;
+  }
+
+  /** Note where the player began; later calls are ignored. */
+  setPlayerStart(pose: ReplayPose): void {
+    this.player ??= {
+      position: { ...pose.position },
+      velocity: { ...pose.velocity },
+      yaw: pose.yaw,
+      pitch: pose.pitch,
+    };
+  }
+
+  hasPlayerStart(): boolean {
+    return this.player !== null;
+  }
+
+  getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  /** Snapshot of everything recorded so far. */
+  toReplay(): ReplayFile {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.start.seed,
+      rngCounter: this.rngCounter,
+      startSave: this.start.startSave,
+      player: this.player,
+      recordedAt: this.recordedAt,
+      frameCount: this.frameCount,
+      frames: [...this.frames],
+    };
+  }
+}
@@ -0,0 +1,63 @@
+// ReplayProvider — Plays a recorded session back one frame per tick.
+//
+// Each poll returns the next recorded frame in full, and frameDelta()
+// hands the InputManager the step it was recorded with. Other providers
+// should be disabled while it plays (startReplay() does this) so live
+// input can't leak into the merge. Once the frames run out it polls empty.
+
+import type { IInputProvider } from '../IInputProvider';
+import type { InputFrame } from '../InputFrame';
+import { type EncodedFrame, type ReplayFile, decodeFrame, expandFrames } from './replayFormat';
+
+export class ReplayProvider implements IInputProvider {
+  readonly name = 'replay';
+  /** Above every live provider, though they should be disabled anyway */
+  readonly priority = 100;
+
+  readonly replay: ReplayFile;
+  private readonly frames: EncodedFrame[];
+  private cursor = 0;
+  private delta: number | null = null;
+  private isEnabled = false;
+
+  constructor(replay: ReplayFile) {
+    this.replay = replay;
+    this.frames = expandFrames(replay.frames);
+  }
+
+  poll(): Partial<InputFrame> {
+    this.delta = null;
+    if (!this.isEnabled || this.isFinished()) return {};
+
+    const { frame, dt } = decodeFrame(this.frames[this.cursor]);
+    this.cursor++;
+    this.delta = dt;
+    return frame;
+  }
+
+  frameDelta(): number | null {
+    return this.delta;
+  }
+
+  enable(): void {
+    this.isEnabled = true;
+  }
+
+  disable(): void {
+    this.isEnabled = false;
+    this.delta = null;
+  }
+
+  dispose(): void {
+    this.disable();
+  }
+
+  /** How many frames have been played back. */
+  getPosition(): number {
+    return this.cursor;
+  }
+
+  isFinished(): boolean {
+    return this.cursor >= this.frames.length;
+  }
+}
@@ -0,0 +1,71 @@
+// headless — Run a replay without a renderer, for asserting end state in Jest.
+//
+// Feeds the replay through a fresh InputManager, exactly as the game loop
+// would, and drives a PlayerController with each frame and its recorded
+// step. `onFrame` runs after every step for checking (or driving) anything
+// else: the store, combat, quest state. Restore `replay.startSave` into the
+// store first if the assertions depend on it.
+
+import * as THREE from 'three';
+import { PhysicsWorld } from '../../engine/physics/PhysicsWorld';
+import { type PlayerState, PlayerController } from '../../engine/physics/PlayerController';
+import { setRngCounter } from '../../lib/prng';
+import type { InputFrame } from '../InputFrame';
+import { InputManager } from '../InputManager';
+import { ReplayProvider } from './ReplayProvider';
+import type { ReplayFile } from './replayFormat';
+import { applyPose } from './replaySession';
+
+export interface HeadlessReplayOptions {
+  /** World to move through (default: an empty world with flat ground) */
+  physics?: PhysicsWorld;
+  /** Called after each frame is simulated */
+  onFrame?: (frame: Readonly<InputFrame>, dt: number, player: PlayerController) => void;
+}
+
+export interface HeadlessReplayResult {
+  /** Frames played back */
+  frames: number;
+  /** Simulated seconds */
+  elapsed: number;
+  /** Where the player ended up */
+  player: PlayerState;
+}
+
+/**
+ * Play a replay to the end, synchronously. Resets the InputManager
+ * singleton before and after, and rewinds rngTick to where the recording
+ * began.
+ */
+export function runReplayHeadless(
+  replay: ReplayFile,
+  options: HeadlessReplayOptions = {},
+): HeadlessReplayResult {
+  InputManager.resetInstance();
+  const manager = InputManager.getInstance();
+  manager.enable();
+  const provider = new ReplayProvider(replay);
+  manager.registerProvider(provider);
+  provider.enable();
+  setRngCounter(replay.rngCounter);
+
+  const player = new PlayerController(options.physics ?? new PhysicsWorld(), new THREE.Vector3());
+  applyPose(player, replay);
+
+  let frames = 0;
+  let elapsed = 0;
+  try {
+    while (!provider.isFinished()) {
+      const dt = manager.tick();
+      const frame = manager.getFrame();
+      player.update(frame, dt);
+      options.onFrame?.(frame, dt, player);
+      frames++;
+      elapsed += dt;
+    }
+  } finally {
+    InputManager.resetInstance();
+  }
+
+  return { frames, elapsed, player: player.getState() };
+}
@@ -0,0 +1,36 @@
+// replay — Deterministic input recording and playback barrel export
+
+export {
+  REPLAY_BUTTONS,
+  REPLAY_VERSION,
+  type EncodedFrame,
+  type ReplayFile,
+  type ReplayPose,
+  decodeFrame,
+  encodeFrame,
+  expandFrames,
+  parseReplay,
+  quantizeDelta,
+  quantizeFrame,
+  serializeReplay,
+} from './replayFormat';
+export { InputRecorder, type RecordingStart } from './InputRecorder';
+export { ReplayProvider } from './ReplayProvider';
+export {
+  applyPose,
+  downloadReplay,
+  getReplayProgress,
+  isRecording,
+  isReplaying,
+  type ReplayPlayer,
+  startRecording,
+  startReplay,
+  stopRecording,
+  stopReplay,
+  updateReplaySession,
+} from './replaySession';
+export {
+  type HeadlessReplayOptions,
+  type HeadlessReplayResult,
+  runReplayHeadless,
+} from './headless';
@@ -0,0 +1,184 @@
+// replayFormat — Compact on-disk form of a recorded input session.
+//
+// A replay holds the world seed, the rngTick counter and the save the
+// session started from, the player's starting pose and every merged InputFrame with the time step it
+// was simulated with. Values are stored as integers in fixed units:
+//   dt         — tenths of a millisecond
+//   move x/z   — thousandths
+//   look       — 1e-5 radians
+// A frame is `[dt, moveX, moveZ, yaw, pitch, buttons, weaponSwitch]` with
+// trailing zeros dropped, `buttons` a bitmask over REPLAY_BUTTONS. A bare
+// number n in the frame list repeats the previous frame n more times.
+//
+// The recorder rounds the live frame to these units before the game reads
+// it, so a replay reproduces the session exactly rather than approximately.
+// VR aim rays are not recorded.
+
+import { type InputFrame, createEmptyFrame } from '../InputFrame';
+
+export const REPLAY_VERSION = 1;
+
+const DT_UNITS = 10_000;
+const MOVE_UNITS = 1_000;
+const LOOK_UNITS = 100_000;
+
+/** Button order in the bitmask. Append only — reordering breaks old replays. */
+export const REPLAY_BUTTONS = [
+  'fire',
+  'aim',
+  'reload',
+  'interact',
+  'jump',
+  'sprint',
+  'crouch',
+  'inventory',
+  'map',
+  'menu',
+] as const;
+
+export type EncodedFrame = number[];
+
+/** Where the player stood, and how they were moving, when recording began. */
+export interface ReplayPose {
+  position: { x: number; y: number; z: number };
+  velocity: { x: number; y: number; z: number };
+  yaw: number;
+  pitch: number;
+}
+
+export interface ReplayFile {
+  version: number;
+  /** World seed of the recorded session */
+  seed: number;
+  /** rngTick counter when recording began; playback resumes from it */
+  rngCounter: number;
+  /** Save data the session started from, in save-slot form */
+  startSave: Record<string, unknown> | null;
+  /** Player pose at the first frame, if the physics tick reported one */
+  player: ReplayPose | null;
+  /** Wall-clock time recording started (ms since epoch) */
+  recordedAt: number;
+  frameCount: number;
+  frames: (EncodedFrame | number)[];
+}
+
+// ---------------------------------------------------------------------------
+// Rounding
+// ---------------------------------------------------------------------------
+
+function toUnits(value: number, units: number): number {
+  // `+ 0` turns -0 into 0 so it trims like any other zero
+  return Math.round(value * units) + 0;
+}
+
+/** Round a time step to what a replay stores. */
+export function quantizeDelta(dt: number): number {
+  return toUnits(dt, DT_UNITS) / DT_UNITS;
+}
+
+/** Round a frame in place to what a replay stores. */
+export function quantizeFrame(frame: InputFrame): void {
+  frame.move.x = toUnits(frame.move.x, MOVE_UNITS) / MOVE_UNITS;
+  frame.move.z = toUnits(frame.move.z, MOVE_UNITS) / MOVE_UNITS;
+  frame.look.yaw = toUnits(frame.look.yaw, LOOK_UNITS) / LOOK_UNITS;
+  frame.look.pitch = toUnits(frame.look.pitch, LOOK_UNITS) / LOOK_UNITS;
+}
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+export function encodeFrame(frame: InputFrame, dt: number): EncodedFrame {
+  let buttons = 0;
+  REPLAY_BUTTONS.forEach((key, bit) => {
+    if (frame[key]) buttons |= 1 << bit;
+  });
+  const encoded = [
+    toUnits(dt, DT_UNITS),
+    toUnits(frame.move.x, MOVE_UNITS),
+    toUnits(frame.move.z, MOVE_UNITS),
+    toUnits(frame.look.yaw, LOOK_UNITS),
+    toUnits(frame.look.pitch, LOOK_UNITS),
+    buttons,
+    frame.weaponSwitch,
+  ];
+  while (encoded.length > 1 && encoded[encoded.length - 1] === 0) encoded.pop();
+  return encoded;
+}
+
+export function decodeFrame(encoded: EncodedFrame): { frame: InputFrame; dt: number } {
+  const [dt = 0, moveX = 0, moveZ = 0, yaw = 0, pitch = 0, buttons = 0, weaponSwitch = 0] =
+    encoded;
+  const frame = createEmptyFrame();
+  frame.move.x = moveX / MOVE_UNITS;
+  frame.move.z = moveZ / MOVE_UNITS;
+  frame.look.yaw = yaw / LOOK_UNITS;
+  frame.look.pitch = pitch / LOOK_UNITS;
+  REPLAY_BUTTONS.forEach((key, bit) => {
+    frame[key] = (buttons & (1 << bit)) !== 0;
+  });
+  frame.weaponSwitch = weaponSwitch;
+  return { frame, dt: dt / DT_UNITS };
+}
+
+/** Append a frame, folding it into a run if it repeats the last one. */
+export function appendFrame(frames: (EncodedFrame | number)[], encoded: EncodedFrame): void {
+  const lastIndex = frames.length - 1;
+  const tail = frames[lastIndex];
+  const run = typeof tail === 'number' ? tail : 0;
+  const previous = frames[typeof tail === 'number' ? lastIndex - 1 : lastIndex];
+  if (Array.isArray(previous) && sameFrame(previous, encoded)) {
+    if (run > 0) frames[lastIndex] = run + 1;
+    else frames.push(1);
+    return;
+  }
+  frames.push(encoded);
+}
+
+function sameFrame(a: EncodedFrame, b: EncodedFrame): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+/** Expand a replay's run-length encoded frames, one entry per tick. */
+export function expandFrames(frames: (EncodedFrame | number)[]): EncodedFrame[] {
+  const expanded: EncodedFrame[] = [];
+  for (const entry of frames) {
+    if (typeof entry === 'number') {
+      const previous = expanded[expanded.length - 1];
+      if (!previous) throw new Error('Replay: frame run with nothing to repeat');
+      for (let i = 0; i < entry; i++) expanded.push(previous);
+    } else {
+      expanded.push(entry);
+    }
+  }
+  return expanded;
+}
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+export function serializeReplay(replay: ReplayFile): string {
+  return JSON.stringify(replay);
+}
+
+/** Parse a replay file, rejecting anything this build can't play back. */
+export function parseReplay(json: string): ReplayFile {
+  const data = JSON.parse(json) as Partial<ReplayFile>;
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Replay: unsupported version ${String(data.version)}`);
+  }
+  if (!Array.isArray(data.frames) || typeof data.seed !== 'number') {
+    throw new Error('Replay: missing frames or seed');
+  }
+  return {
+    version: data.version,
+    seed: data.seed,
+    rngCounter: data.rngCounter ?? 0,
+    startSave: data.startSave ?? null,
+    player: data.player ?? null,
+    recordedAt: data.recordedAt ?? 0,
+    frameCount: data.frameCount ?? expandFrames(data.frames).length,
+    frames: data.frames,
+  };
+}
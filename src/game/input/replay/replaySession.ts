@@ -0,0 +1,166 @@
+// replaySession — Starts and stops recording and live playback.
+//
+// Only one of the two runs at a time. While a replay plays every other
+// provider is disabled, and re-enabled when it ends. Toggles are switched off
+// too: recordings hold the latched state, so replaying through them again
+// would flip it back. The physics tick calls
+// updateReplaySession() each frame after InputManager.tick() so recordings
+// note where the player started and replays put the player back there.
+
+import type { PlayerController } from '../../engine/physics/PlayerController';
+import { setRngCounter } from '../../lib/prng';
+import type { ToggleableAction } from '../bindings';
+import { InputManager } from '../InputManager';
+import { InputRecorder, type RecordingStart } from './InputRecorder';
+import { ReplayProvider } from './ReplayProvider';
+import { type ReplayFile, serializeReplay } from './replayFormat';
+
+let recorder: InputRecorder | null = null;
+let playback: ReplayProvider | null = null;
+/** Providers switched off for the replay, to switch back on after */
+let suspended: string[] = [];
+let suspendedToggles: readonly ToggleableAction[] = [];
+/** Whether the player has been moved to the replay's starting pose yet */
+let poseApplied = false;
+let onReplayEnd: (() => void) | null = null;
+
+/** The parts of a player controller a session reads and restores. */
+export type ReplayPlayer = Pick<
+  PlayerController,
+  'position' | 'velocity' | 'yaw' | 'pitch' | 'teleport'
+>;
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+export function startRecording(start: RecordingStart): void {
+  stopReplay();
+  recorder = new InputRecorder(start);
+  InputManager.getInstance().setRecorder(recorder);
+}
+
+/** Stop recording and return what was captured, or null if nothing was. */
+export function stopRecording(): ReplayFile | null {
+  if (!recorder) return null;
+  const replay = recorder.toReplay();
+  if (InputManager.getInstance().getRecorder() === recorder) {
+    InputManager.getInstance().setRecorder(null);
+  }
+  recorder = null;
+  return replay;
+}
+
+export function isRecording(): boolean {
+  return recorder !== null;
+}
+
+// ---------------------------------------------------------------------------
+// Playback
+// ---------------------------------------------------------------------------
+
+/**
+ * Play a replay through the InputManager, in place of live input, with
+ * rngTick rewound to where the recording began. The caller is expected to
+ * have restored `replay.startSave` (and with it the world seed) first.
+ */
+export function startReplay(replay: ReplayFile, onEnd?: () => void): void {
+  stopRecording();
+  stopReplay();
+
+  const manager = InputManager.getInstance();
+  suspended = [];
+  for (const provider of manager.getProviders()) {
+    provider.disable();
+    suspended.push(provider.name);
+  }
+  suspendedToggles = manager.getToggleActions();
+  manager.setToggleActions([]);
+
+  setRngCounter(replay.rngCounter);
+  playback = new ReplayProvider(replay);
+  manager.registerProvider(playback);
+  playback.enable();
+  poseApplied = false;
+  onReplayEnd = onEnd ?? null;
+}
+
+export function stopReplay(): void {
+  if (!playback) return;
+  const manager = InputManager.getInstance();
+  manager.removeProvider(playback.name);
+  for (const name of suspended) manager.getProvider(name)?.enable();
+  manager.setToggleActions(suspendedToggles);
+
+  const done = onReplayEnd;
+  playback = null;
+  suspended = [];
+  suspendedToggles = [];
+  onReplayEnd = null;
+  done?.();
+}
+
+export function isReplaying(): boolean {
+  return playback !== null;
+}
+
+/** Frames played and total, while a replay runs. */
+export function getReplayProgress(): { position: number; total: number } | null {
+  if (!playback) return null;
+  return { position: playback.getPosition(), total: playback.replay.frameCount };
+}
+
+// ---------------------------------------------------------------------------
+// Per-frame hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Call once per frame after InputManager.tick() and before the player
+ * moves. Notes the starting pose of a new recording, moves the player to
+ * the starting pose of a new replay, and ends a replay that has run out.
+ */
+export function updateReplaySession(player: ReplayPlayer): void {
+  if (recorder && !recorder.hasPlayerStart()) {
+    recorder.setPlayerStart({
+      position: { x: player.position.x, y: player.position.y, z: player.position.z },
+      velocity: { x: player.velocity.x, y: player.velocity.y, z: player.velocity.z },
+      yaw: player.yaw,
+      pitch: player.pitch,
+    });
+  }
+
+  if (!playback) return;
+  if (!poseApplied) {
+    poseApplied = true;
+    applyPose(player, playback.replay);
+  }
+  // Stop on the tick after the last frame, once that frame has been simulated
+  if (playback.isFinished() && playback.frameDelta() === null) stopReplay();
+}
+
+/** Put the player where the replay's recording began. */
+export function applyPose(player: ReplayPlayer, replay: ReplayFile): void {
+  const pose = replay.player;
+  if (!pose) return;
+  player.teleport(player.position.set(pose.position.x, pose.position.y, pose.position.z));
+  player.velocity.set(pose.velocity.x, pose.velocity.y, pose.velocity.z);
+  player.yaw = pose.yaw;
+  player.pitch = pose.pitch;
+}
+
+// ---------------------------------------------------------------------------
+// Files
+// ---------------------------------------------------------------------------
+
+/** Trigger a browser download of a replay. */
+export function downloadReplay(replay: ReplayFile): void {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `replay-${new Date(replay.recordedAt).toISOString().replace(/[:.]/g, '-')}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -44,3 +44,13 @@ let _rngCounter = 0;
 export function rngTick(): number {
   return _rngCounter++;
 }
+
+/** Current value of the rngTick counter, without advancing it */
+export function getRngCounter(): number {
+  return _rngCounter;
+}
+
+/** Move the rngTick counter, e.g. back to where a recorded session began */
+export function setRngCounter(value: number): void {
+  _rngCounter = value;
+}
@@ -10,6 +10,7 @@
 import * as Tone from 'tone';
 import type { TimeOfDay } from '../../ddl/types';
 import { scopedRNG, rngTick } from '../../lib/prng';
+import type { WeatherAmbience } from '../../systems/weather';
 
 export type { AmbientZone, AmbientLayerConfig } from './ambientPresets';
 import type { AmbientZone } from './ambientPresets';
@@ -28,6 +29,9 @@ export class AmbientManager {
   private windNoise: Tone.Noise | null = null;
   private windFilter: Tone.AutoFilter | null = null;
   private windVolume: Tone.Volume | null = null;
+  private rainNoise: Tone.Noise | null = null;
+  private rainFilter: Tone.Filter | null = null;
+  private rainVolume: Tone.Volume | null = null;
   private currentZone: AmbientZone = 'wilderness';
   private currentTimeOfDay: TimeOfDay = 'noon';
   private isPlaying = false;
@@ -46,6 +50,7 @@ export class AmbientManager {
     this.disposeFading();
     this.disposeCrickets();
     this.disposeWind();
+    this.disposeRain();
     console.log('[AmbientManager] Stopped');
   }
 
@@ -101,6 +106,27 @@ export class AmbientManager {
     this.windVolume!.volume.rampTo(targetDb, 1.5);
   }
 
+  /** Drive the wind and rain layers from the current weather. */
+  public setWeather(ambience: WeatherAmbience): void {
+    this.setWindIntensity(ambience.wind);
+    this.setRainIntensity(ambience.rain);
+  }
+
+  private setRainIntensity(intensity: number): void {
+    if (intensity <= 0) { this.disposeRain(); return; }
+    if (!this.isPlaying) return;
+
+    if (!this.rainNoise) {
+      this.rainVolume = new Tone.Volume(-60).toDestination();
+      this.rainFilter = new Tone.Filter(3000, 'highpass').connect(this.rainVolume);
+      this.rainNoise = new Tone.Noise('white').connect(this.rainFilter);
+      this.rainNoise.start();
+    }
+
+    const targetDb = -36 + intensity * 22;
+    this.rainVolume!.volume.rampTo(targetDb, 2);
+  }
+
   private buildLayer(zone: AmbientZone): void {
     const preset = ZONE_PRESETS[zone];
     this.activeVolume = new Tone.Volume(-60).toDestination();
@@ -204,4 +230,14 @@ export class AmbientManager {
     this.windVolume?.dispose();
     this.windVolume = null;
   }
+
+  private disposeRain(): void {
+    this.rainNoise?.stop();
+    this.rainNoise?.dispose();
+    this.rainNoise = null;
+    this.rainFilter?.dispose();
+    this.rainFilter = null;
+    this.rainVolume?.dispose();
+    this.rainVolume = null;
+  }
 }
@@ -11,6 +11,7 @@
 
 import { AmbientManager } from '../AmbientManager';
 import { getWeaponSounds } from '../SFXCatalog';
+import { getWeatherAmbience } from '../../../systems/weather';
 import type { MusicManager } from '../MusicManager';
 import type { StoreApi } from 'zustand';
 import type { AudioBridgeStoreShape, GameAudioBridgeOptions } from './types';
@@ -48,6 +49,7 @@ export class GameAudioBridge {
     this.sfxCache = new SFXNodeCache(sfxVolume);
     this.ambientManager = new AmbientManager();
     this.ambientManager.start();
+    this.ambientManager.setWeather(getWeatherAmbience(options.store.getState().weather));
 
     this.cleanups.push(wireQuestEvents(this.sfxCache));
     this.cleanups.push(wireStoreEvents(
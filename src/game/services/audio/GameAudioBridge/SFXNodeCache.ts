@@ -8,6 +8,7 @@
  */
 
 import * as Tone from 'tone';
+import { subtitles } from '../../../systems/Subtitles';
 import { SFX_CATALOG, type SFXEntry } from '../SFXCatalog';
 
 export class SFXNodeCache {
@@ -33,11 +34,12 @@ export class SFXNodeCache {
     return { node, entry };
   }
 
-  /** Play a sound effect by catalog ID. */
+  /** Play a sound effect by catalog ID, captioning it if it has a caption. */
   play(sfxId: string, time?: number): void {
     const result = this.get(sfxId);
     if (!result) return;
     result.entry.trigger(result.node, time);
+    if (result.entry.caption) subtitles.caption(result.entry.caption);
   }
 
   /** Update the master SFX volume (0-1 gain). */
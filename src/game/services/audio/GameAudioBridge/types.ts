@@ -5,6 +5,7 @@
  */
 
 import type { StoreApi } from 'zustand';
+import type { WeatherState } from '../../../store/types';
 import type { MusicManager } from '../MusicManager';
 
 /**
@@ -39,6 +40,9 @@ export interface AudioBridgeStoreShape {
   // Time
   time: { hour: number };
 
+  // Weather
+  weather: WeatherState;
+
   // Player
   playerStats: { level: number; health: number };
   inventory: Array<{ id: string; itemId: string; quantity: number }>;
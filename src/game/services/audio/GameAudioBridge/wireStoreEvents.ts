@@ -10,6 +10,7 @@ import type { MusicManager } from '../MusicManager';
 import type { AmbientManager } from '../AmbientManager';
 import type { AudioBridgeStoreShape } from './types';
 import type { SFXNodeCache } from './SFXNodeCache';
+import { getWeatherAmbience } from '../../../systems/weather';
 import { hourToTimeOfDay } from './helpers';
 
 /**
@@ -127,6 +128,11 @@ export function wireStoreEvents(
       }
     }
 
+    // -- Weather (wind and rain layers) --
+    if (state.weather !== prevState.weather) {
+      ambientManager?.setWeather(getWeatherAmbience(state.weather));
+    }
+
     // -- Player death --
     if (
       state.playerStats.health <= 0 &&
@@ -24,6 +24,7 @@ export const COMBAT_SFX: Record<string, SFXEntry> = {
 
   bullet_whiz: {
     label: 'Bullet Whiz-by',
+    caption: 'Bullet whizzes past',
     category: 'combat',
     volume: -16,
     pitchRange: [200, 800],
@@ -63,6 +64,7 @@ export const COMBAT_SFX: Record<string, SFXEntry> = {
 
   enemy_death: {
     label: 'Enemy Death',
+    caption: 'Body hits the ground',
     category: 'combat',
     volume: -4,
     pitchRange: [-100, -30],
@@ -64,6 +64,7 @@ export const ENVIRONMENT_SFX: Record<string, SFXEntry> = {
 
   door_open: {
     label: 'Door Open',
+    caption: 'Door creaks open',
     category: 'environment',
     volume: -14,
     pitchRange: [-30, 30],
@@ -83,6 +84,7 @@ export const ENVIRONMENT_SFX: Record<string, SFXEntry> = {
 
   door_close: {
     label: 'Door Close',
+    caption: 'Door shuts',
     category: 'environment',
     volume: -10,
     pitchRange: [-50, 10],
@@ -3,6 +3,8 @@ import { scopedRNG, rngTick } from '../../lib/prng';
 
 export interface SFXEntry {
   label: string;
+  /** Shown when sound captions are on; sounds without one aren't captioned */
+  caption?: string;
   category: 'weapon' | 'combat' | 'environment' | 'ui' | 'ambient';
   volume: number;
   pitchRange: [number, number];
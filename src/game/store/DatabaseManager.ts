@@ -29,7 +29,6 @@ CREATE TABLE IF NOT EXISTS player (
   stamina INTEGER,
   max_stamina INTEGER,
   gold INTEGER,
-  reputation INTEGER,
   pos_x REAL,
   pos_y REAL,
   pos_z REAL,
@@ -173,9 +172,9 @@ export class DatabaseManager {
       `
       INSERT OR REPLACE INTO player (
         id, name, level, xp, xp_to_next, health, max_health,
-        stamina, max_stamina, gold, reputation,
+        stamina, max_stamina, gold,
         pos_x, pos_y, pos_z, rotation, last_updated
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
       [
         1, // Single player, always id=1
@@ -188,7 +187,6 @@ export class DatabaseManager {
         stats.stamina || 100,
         stats.maxStamina || 100,
         stats.gold || 0,
-        stats.reputation || 0,
         pos.x,
         pos.y,
         pos.z,
@@ -244,7 +242,6 @@ export class DatabaseManager {
         stamina: p.stamina,
         maxStamina: p.max_stamina,
         gold: p.gold,
-        reputation: p.reputation,
       },
       playerPosition: { x: p.pos_x, y: p.pos_y, z: p.pos_z },
       playerRotation: p.rotation,
@@ -16,14 +16,20 @@ import type { DataAccess, CreateGameStoreOptions } from './dataAccess';
 import { persistStorage } from './persistStorage';
 import {
   createAudioSlice,
+  createBountyBoardSlice,
   createCombatSlice,
+  createCompanionSlice,
   createCoreSlice,
   createDialogueSlice,
   createGameFlowSlice,
+  createHorseSlice,
   createInventorySlice,
+  createLawSlice,
   createPlayerSlice,
   createPuzzleSlice,
   createQuestSlice,
+  createRailroadSlice,
+  createReputationSlice,
   createSaveSlice,
   createSettingsSlice,
   createShopSlice,
@@ -60,10 +66,12 @@ export function createGameStore({
 
   // Create slice factories that need dependency injection
   const combatSlice = createCombatSlice(dataAccess) as any;
+  const companionSlice = createCompanionSlice(dataAccess) as any;
   const dialogueSlice = createDialogueSlice(dataAccess) as any;
   const gameFlowSlice = createGameFlowSlice(dataAccess) as any;
   const inventorySlice = createInventorySlice(dataAccess) as any;
   const questSlice = createQuestSlice(dataAccess) as any;
+  const railroadSlice = createRailroadSlice(dataAccess) as any;
   const saveSlice = createSaveSlice(storageAdapter, databaseManager) as any;
   const shopSlice = createShopSlice(dataAccess) as any;
   const travelSlice = createTravelSlice(dataAccess) as any;
@@ -77,7 +85,13 @@ export function createGameStore({
         ...(createCoreSlice as any)(set, get, api),
         ...(createPlayerSlice as any)(set, get, api),
         ...inventorySlice(set, get, api),
+        ...(createReputationSlice as any)(set, get, api),
+        ...(createLawSlice as any)(set, get, api),
         ...questSlice(set, get, api),
+        ...(createBountyBoardSlice as any)(set, get, api),
+        ...(createHorseSlice as any)(set, get, api),
+        ...companionSlice(set, get, api),
+        ...railroadSlice(set, get, api),
 
         // Interaction slices
         ...dialogueSlice(set, get, api),
@@ -110,10 +124,24 @@ export function createGameStore({
             worldSeed: state.worldSeed,
             playerName: state.playerName,
             playerStats: state.playerStats,
+            factionReputation: state.factionReputation,
+            bounties: state.bounties,
             inventory: state.inventory,
             equipment: state.equipment,
+            maxCarryWeight: state.maxCarryWeight,
+            bountyBoards: state.bountyBoards,
+            horses: state.horses,
+            activeHorseId: state.activeHorseId,
+            party: state.party,
+            companionItems: state.companionItems,
+            departedCompanionIds: state.departedCompanionIds,
+            railTickets: state.railTickets,
             activeQuests: state.activeQuests,
             completedQuests: state.completedQuests,
+            completedQuestBranches: state.completedQuestBranches,
+            failedQuestIds: state.failedQuestIds,
+            questTimerClock: state.questTimerClock,
+            shopMarkets: state.shopMarkets,
             collectedItemIds: state.collectedItemIds,
             settings: state.settings,
             saveVersion: state.saveVersion,
@@ -8,6 +8,7 @@
  */
 
 import type { CombatEncounter } from '../data/schemas/combat';
+import type { ShopPriceContext } from '../data/shops';
 import type { CombatActionType } from './types';
 
 /**
@@ -51,8 +52,8 @@ export interface DataAccess {
 
   // Shops
   getShopById: (shopId: string) => any;
-  calculateBuyPrice: (shop: any, item: any) => number;
-  calculateSellPrice: (shop: any, itemDef: any) => number;
+  calculateBuyPrice: (shop: any, item: any, context?: ShopPriceContext) => number;
+  calculateSellPrice: (shop: any, itemDef: any, context?: ShopPriceContext) => number;
   canSellItemToShop: (shop: any, itemType: string) => boolean;
 
   // Generation
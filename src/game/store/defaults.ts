@@ -4,6 +4,8 @@
  * Platform-agnostic default configuration values.
  */
 
+import { DEFAULT_CONTROLS } from '../input/bindings';
+import { DEFAULT_ACCESSIBILITY } from './slices/settingsSlice';
 import type {
   AudioState,
   CameraState,
@@ -24,7 +26,6 @@ export const DEFAULT_PLAYER_STATS: PlayerStats = {
   level: 1,
   gold: 50,
   ivrcScript: 0,
-  reputation: 0,
   attributes: {
     grit: 5,
     perception: 5,
@@ -44,6 +45,11 @@ export const DEFAULT_PLAYER_STATS: PlayerStats = {
     survival: 15,
     barter: 15,
   },
+  skillXP: {},
+  skillPoints: 0,
+  attributePoints: 0,
+  perkPoints: 0,
+  perks: [],
 };
 
 export const DEFAULT_EQUIPMENT: EquipmentState = {
@@ -65,11 +71,14 @@ export const DEFAULT_SETTINGS: GameSettings = {
   showMinimap: true,
   lowPowerMode: false,
   cameraDistance: 25,
+  controls: DEFAULT_CONTROLS,
+  accessibility: DEFAULT_ACCESSIBILITY,
 };
 
+/** Clock day 1 on the calendar (see systems/calendar CALENDAR_START) */
 export const DEFAULT_TIME: TimeState = {
   hour: 10,
-  dayOfYear: 150,
+  dayOfYear: 22,
   year: 1887,
 };
 
@@ -80,6 +80,9 @@ export type {
   // UI types
   GamePhase,
   // Settings types
+  AccessibilitySettings,
+  AimAssistSettings,
+  ColorblindMode,
   GameSettings,
   GameState,
   GameStateActions,
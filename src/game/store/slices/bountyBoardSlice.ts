@@ -0,0 +1,266 @@
+/**
+ * Bounty Board Slice - Wanted posters at sheriff's offices
+ *
+ * Every office in a town with law keeps a board of bounty contracts that
+ * rotates on the game clock. Accepting a contract starts its generated
+ * quest and marks the outlaw's camp on the map; the reward is claimed back
+ * at the office, with more paid for an outlaw brought in alive.
+ *
+ * Contract quests live here rather than in the quest library, so the quest
+ * slice looks them up through `getGeneratedQuest`.
+ *
+ * @module game/store/slices/bountyBoardSlice
+ */
+
+import type { StateCreator } from 'zustand';
+import type { ActiveQuest, Quest } from '../../data';
+import {
+  CAMP_LOCATION_TYPES,
+  findContract,
+  getContractStatus,
+  rotateBoard,
+  type BoardContext,
+  type BountyBoard,
+  type BountyBoards,
+  type BountyContract,
+  type ContractStatus,
+  type OutlawCamp,
+} from '../../systems/bountyBoard';
+import { LAW_SEVERITY, type Jurisdiction } from '../../systems/law';
+import type {
+  GameClockState,
+  TimeEventCallback,
+  TimeEventType,
+} from '../../systems/time';
+import type { Notification, PanelType, PlayerStats } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Bounty board state data (serializable).
+ */
+export interface BountyBoardState {
+  /** Boards keyed by the town whose office posts them */
+  bountyBoards: BountyBoards;
+  /** Town whose board the player has open */
+  bountyBoardTownId: string | null;
+}
+
+/**
+ * Bounty board actions.
+ */
+export interface BountyBoardActions {
+  /**
+   * Bring a town's board up to date with the clock, posting it if need be.
+   * Lawless towns have no office and get no board.
+   */
+  refreshBountyBoard: (townId: string) => BountyBoard | undefined;
+  /** Open the board in a town (defaults to the current location) */
+  openBountyBoard: (townId?: string) => boolean;
+  /** Take a posted contract; returns false if it isn't on offer */
+  acceptContract: (contractId: string) => boolean;
+  /** Collect the reward for an outlaw brought in; returns false if there's none due */
+  claimContract: (contractId: string) => boolean;
+  /** Where a contract stands */
+  getContractStatus: (contractId: string) => ContractStatus;
+  /** Contracts whose outlaw is waiting at a location (defaults to the current one) */
+  getHuntedContracts: (locationId?: string) => BountyContract[];
+  /** Quest a contract runs as, for the quest slice */
+  getGeneratedQuest: (questId: string) => Quest | undefined;
+  /** Rotate every posted board up to the given day */
+  rotateBountyBoards: (day: number) => void;
+  /** Subscribe board rotation to the game clock; returns an unsubscribe function */
+  watchBountyBoards: () => () => void;
+  /** Reset bounty board state */
+  resetBountyBoards: () => void;
+}
+
+/**
+ * Dependencies from other slices.
+ */
+export interface BountyBoardSliceDeps {
+  worldSeed: number;
+  currentLocationId: string | null;
+  loadedWorld: any | null;
+  clockState: GameClockState;
+  playerStats: PlayerStats;
+  activeQuests: ActiveQuest[];
+  getLawJurisdiction: (townId?: string) => Jurisdiction;
+  startQuest: (questId: string) => void;
+  updateObjective: (questId: string, objectiveId: string, progress: number) => void;
+  discoverLocation: (locationId: string) => void;
+  openPanel: (panel: PanelType) => void;
+  addNotification: (type: Notification['type'], message: string) => void;
+  onClockEvent: (event: TimeEventType, callback: TimeEventCallback) => () => void;
+}
+
+/**
+ * Complete bounty board slice type.
+ */
+export type BountyBoardSlice = BountyBoardState & BountyBoardActions;
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/**
+ * Default bounty board state.
+ */
+export const DEFAULT_BOUNTY_BOARD_STATE: BountyBoardState = {
+  bountyBoards: {},
+  bountyBoardTownId: null,
+};
+
+// ============================================================================
+// SLICE FACTORY
+// ============================================================================
+
+/**
+ * Creates the bounty board Zustand slice.
+ */
+export const createBountyBoardSlice: StateCreator<
+  BountyBoardSlice & BountyBoardSliceDeps,
+  [],
+  [],
+  BountyBoardSlice
+> = (set, get) => {
+  /** Every camp, hideout and ruin on the world map */
+  const getCamps = (): OutlawCamp[] => {
+    const locations = get().loadedWorld?.locations;
+    if (!locations?.values) return [];
+    return [...locations.values()]
+      .filter((resolved: any) => CAMP_LOCATION_TYPES.includes(resolved.ref?.type))
+      .map((resolved: any) => ({
+        locationId: resolved.ref.id,
+        name: resolved.ref.name,
+        coord: resolved.ref.coord,
+      }));
+  };
+
+  /** What the town's board is generated from, or null where there's no law */
+  const getBoardContext = (townId: string, day: number): BoardContext | null => {
+    const state = get();
+    const jurisdiction = state.getLawJurisdiction(townId);
+    if (LAW_SEVERITY[jurisdiction.lawLevel] === 0) return null;
+    const resolved = state.loadedWorld?.locations?.get?.(townId);
+    return {
+      worldSeed: state.worldSeed,
+      office: {
+        townId,
+        townName: jurisdiction.townName,
+        coord: resolved?.ref?.coord ?? { wx: 0, wy: 0 },
+      },
+      camps: getCamps(),
+      day,
+      playerLevel: state.playerStats.level,
+    };
+  };
+
+  /** Rotate a town's board to `day`, keeping contracts still being worked */
+  const refresh = (townId: string, day: number): BountyBoard | undefined => {
+    const context = getBoardContext(townId, day);
+    if (!context) return undefined;
+
+    const current = get().bountyBoards[townId];
+    const board = rotateBoard(current, context, (contract) => {
+      const status = get().getContractStatus(contract.id);
+      return status === 'hunting' || status === 'claimable';
+    });
+    if (board !== current) {
+      set({ bountyBoards: { ...get().bountyBoards, [townId]: board } });
+    }
+    return board;
+  };
+
+  return {
+    // State
+    ...DEFAULT_BOUNTY_BOARD_STATE,
+
+    // Actions
+    refreshBountyBoard: (townId: string) => refresh(townId, get().clockState.day),
+
+    openBountyBoard: (townId?: string) => {
+      const id = townId ?? get().currentLocationId;
+      if (!id) return false;
+      if (!get().refreshBountyBoard(id)) {
+        get().addNotification('info', 'Nobody posts bounties in a lawless town.');
+        return false;
+      }
+      set({ bountyBoardTownId: id });
+      get().openPanel('bounties');
+      return true;
+    },
+
+    acceptContract: (contractId: string) => {
+      const state = get();
+      const contract = findContract(state.bountyBoards, contractId);
+      if (!contract || contract.accepted) return false;
+
+      const board = state.bountyBoards[contract.officeId];
+      set({
+        bountyBoards: {
+          ...state.bountyBoards,
+          [contract.officeId]: {
+            ...board,
+            contracts: board.contracts.map((c) =>
+              c.id === contractId ? { ...c, accepted: true } : c
+            ),
+          },
+        },
+      });
+      state.discoverLocation(contract.campLocationId);
+      state.startQuest(contractId);
+      return true;
+    },
+
+    claimContract: (contractId: string) => {
+      const state = get();
+      const contract = findContract(state.bountyBoards, contractId);
+      const activeQuest = state.activeQuests.find((q) => q.questId === contractId);
+      if (!contract || !activeQuest || state.getContractStatus(contractId) !== 'claimable') {
+        return false;
+      }
+
+      const claim = contract.quest.stages[activeQuest.currentStageIndex]?.objectives[0];
+      if (!claim) return false;
+      state.updateObjective(contractId, claim.id, claim.count);
+      return true;
+    },
+
+    getContractStatus: (contractId: string) => {
+      const state = get();
+      const contract = findContract(state.bountyBoards, contractId);
+      if (!contract) return 'closed';
+      return getContractStatus(
+        contract,
+        state.activeQuests.find((q) => q.questId === contractId)
+      );
+    },
+
+    getHuntedContracts: (locationId?: string) => {
+      const state = get();
+      const id = locationId ?? state.currentLocationId;
+      return Object.values(state.bountyBoards)
+        .flatMap((board) => board.contracts)
+        .filter(
+          (contract) =>
+            contract.campLocationId === id && state.getContractStatus(contract.id) === 'hunting'
+        );
+    },
+
+    getGeneratedQuest: (questId: string) => findContract(get().bountyBoards, questId)?.quest,
+
+    rotateBountyBoards: (day: number) => {
+      for (const townId of Object.keys(get().bountyBoards)) {
+        refresh(townId, day);
+      }
+    },
+
+    watchBountyBoards: () =>
+      get().onClockEvent('dayChanged', (event) => get().rotateBountyBoards(event.day)),
+
+    resetBountyBoards: () => set({ ...DEFAULT_BOUNTY_BOARD_STATE }),
+  };
+};
@@ -7,8 +7,10 @@
  * @module game/store/slices/combatHelpers
  */
 
+import { applyWeaponMods } from '../../data/items/weaponMods';
 import type { CombatEncounter } from '../../data/schemas/combat';
 import { scopedRNG, rngTick } from '../../lib/prng';
+import type { Combatant as PartyAlly } from '../../systems/combat';
 import type {
   Combatant,
   EquipmentState,
@@ -29,12 +31,16 @@ export function buildPlayerCombatant(
   },
   dataAccess: CombatDataAccess
 ): Combatant {
-  const equippedWeaponId = state.equipment.weapon
-    ? state.inventory.find((item) => item.id === state.equipment.weapon)?.itemId ?? null
+  const equippedWeapon = state.equipment.weapon
+    ? state.inventory.find((item) => item.id === state.equipment.weapon) ?? null
     : null;
+  const equippedWeaponId = equippedWeapon?.itemId ?? null;
   const weaponDef = equippedWeaponId ? dataAccess.getItem(equippedWeaponId) : null;
-  const playerAccuracy = weaponDef?.weaponStats?.accuracy ?? 75;
-  const playerBaseDamage = weaponDef?.weaponStats?.damage ?? 10;
+  const weaponStats = weaponDef?.weaponStats
+    ? applyWeaponMods(weaponDef.weaponStats, equippedWeapon?.mods)
+    : null;
+  const playerAccuracy = weaponStats?.accuracy ?? 75;
+  const playerBaseDamage = weaponStats?.damage ?? 10;
   const playerArmor = Object.values(state.equipment)
     .map((equippedId) =>
       equippedId ? state.inventory.find((item) => item.id === equippedId) : null
@@ -45,7 +51,7 @@ export function buildPlayerCombatant(
       return total + (def?.armorStats?.defense ?? 0);
     }, 0);
   const playerAp = Math.max(4, Math.min(10, Math.round(state.playerStats.stamina / 25)));
-  const playerAmmo = weaponDef?.weaponStats?.clipSize ?? 0;
+  const playerAmmo = weaponStats?.clipSize ?? 0;
 
   return {
     definitionId: `player_${Date.now()}`,
@@ -115,6 +121,49 @@ export function buildEnemyCombatants(
   return combatants;
 }
 
+/**
+ * Build combatants for the companions fighting alongside the player. They
+ * line up behind the player, opposite the enemies.
+ */
+export function buildAllyCombatants(
+  allies: PartyAlly[],
+  dataAccess: CombatDataAccess
+): Combatant[] {
+  return allies.map((ally, index) => {
+    const weapon = ally.weaponId ? dataAccess.getItem(ally.weaponId) : null;
+    const allyAp = Math.max(4, Math.min(10, ally.stats.speed));
+    return {
+      definitionId: `${ally.id}_${Date.now()}`,
+      name: ally.name,
+      isPlayer: false,
+      isAlly: true,
+      health: ally.stats.hp,
+      maxHealth: ally.stats.maxHP,
+      actionPoints: allyAp,
+      maxActionPoints: allyAp,
+      position: { q: -1 - index, r: 0 },
+      statusEffects: [],
+      weaponId: ally.weaponId ?? '',
+      ammoInClip: weapon?.weaponStats?.clipSize ?? 0,
+      baseDamage: ally.stats.attack,
+      armor: ally.stats.defense,
+      accuracy: ally.stats.accuracy,
+      evasion: ally.stats.evasion,
+      level: 1,
+      isActive: false,
+      hasActed: false,
+      isDead: ally.stats.hp <= 0,
+    };
+  });
+}
+
+/**
+ * Whether a combatant fights against the player.
+ */
+export function isEnemyCombatant(combatant: Combatant): boolean {
+  return !combatant.isPlayer && !combatant.isAlly;
+}
+
 /**
  * Grant encounter rewards (XP, gold, items) to the player.
  */
@@ -5,7 +5,8 @@
 import type { StateCreator } from 'zustand';
 import type { CombatEncounter } from '../../data/schemas/combat';
 import type { CombatActionType, CombatPhase, CombatResult, CombatState, Combatant, EquipmentState, GamePhase, InventoryItem, Notification, PlayerStats } from '../types';
-import { buildEnemyCombatants, buildPlayerCombatant, grantEncounterRewards } from './combatHelpers';
+import type { Combatant as PartyAlly } from '../../systems/combat';
+import { buildAllyCombatants, buildEnemyCombatants, buildPlayerCombatant, grantEncounterRewards, isEnemyCombatant } from './combatHelpers';
 import { scopedRNG, rngTick } from '../../lib/prng';
 
 export interface CombatDataAccess {
@@ -49,12 +50,24 @@ export interface CombatSliceDeps {
   travelState: any;
   completeTravel: () => void;
   cancelTravel: () => void;
+  getPartyAllies: () => PartyAlly[];
 }
 
 export type CombatSlice = CombatSliceState & CombatActions;
 
 export const DEFAULT_COMBAT_SLICE_STATE: CombatSliceState = { combatState: null };
 
+/**
+ * Who an AI-controlled combatant shoots at: companions take the first enemy
+ * standing, enemies pick between the player and their companions.
+ */
+function pickAITarget(combatants: Combatant[], actor: Combatant): Combatant | undefined {
+  if (actor.isAlly) return combatants.find((c) => isEnemyCombatant(c) && !c.isDead);
+  const targets = combatants.filter((c) => !isEnemyCombatant(c) && !c.isDead);
+  if (targets.length <= 1) return targets[0];
+  return targets[Math.floor(scopedRNG('combat.target', 42, rngTick()) * targets.length)];
+}
+
 export const createCombatSlice = (
   dataAccess: CombatDataAccess
 ): StateCreator<CombatSlice & CombatSliceDeps, [], [], CombatSlice> => {
@@ -70,8 +83,9 @@ export const createCombatSlice = (
       }
 
       const player = buildPlayerCombatant(state, dataAccess);
+      const allies = buildAllyCombatants(state.getPartyAllies(), dataAccess);
       const enemies = buildEnemyCombatants(encounter, dataAccess);
-      const combatants = [player, ...enemies];
+      const combatants = [player, ...allies, ...enemies];
 
       set({
         combatState: {
@@ -164,7 +178,7 @@ export const createCombatSlice = (
       };
 
       const playerAlive = newCombatants.some((c) => c.isPlayer && !c.isDead);
-      const enemiesAlive = newCombatants.some((c) => !c.isPlayer && !c.isDead);
+      const enemiesAlive = newCombatants.some((c) => isEnemyCombatant(c) && !c.isDead);
       const nextPhase: CombatPhase = !playerAlive ? 'defeat' : !enemiesAlive ? 'victory' : combatState.phase;
 
       set({
@@ -194,10 +208,10 @@ export const createCombatSlice = (
           if (!cs || cs.currentTurnIndex !== actorIndex || cs.phase !== 'enemy_turn') return;
           const currentActor = cs.combatants[actorIndex];
           const apNeeded = dataAccess.AP_COSTS['attack'] ?? 2;
-          const playerTarget = cs.combatants.find((c) => c.isPlayer && !c.isDead);
-          if (currentActor.actionPoints >= apNeeded && playerTarget) {
+          const aiTarget = pickAITarget(cs.combatants, currentActor);
+          if (currentActor.actionPoints >= apNeeded && aiTarget) {
             set((s) => ({
-              combatState: { ...s.combatState!, selectedAction: 'attack', selectedTargetId: playerTarget.definitionId },
+              combatState: { ...s.combatState!, selectedAction: 'attack', selectedTargetId: aiTarget.definitionId },
             }));
             get().executeCombatAction();
           } else {
@@ -213,7 +227,7 @@ export const createCombatSlice = (
       if (!combatState) return;
 
       const playerAlive = combatState.combatants.some((c) => c.isPlayer && !c.isDead);
-      const enemiesAlive = combatState.combatants.some((c) => !c.isPlayer && !c.isDead);
+      const enemiesAlive = combatState.combatants.some((c) => isEnemyCombatant(c) && !c.isDead);
 
       if (!playerAlive) { set({ combatState: { ...combatState, phase: 'defeat' } }); return; }
       if (!enemiesAlive) {
@@ -236,15 +250,16 @@ export const createCombatSlice = (
       const newCombatants = [...combatState.combatants];
       const nextCombatant = newCombatants[nextIndex];
       newCombatants[nextIndex] = { ...nextCombatant, actionPoints: nextCombatant.maxActionPoints, hasActed: false };
+      // Companions act on their own, like the enemies do
       const nextPhase: CombatPhase = nextCombatant.isPlayer ? 'player_turn' : 'enemy_turn';
 
       set({ combatState: { ...combatState, currentTurnIndex: nextIndex, round, phase: nextPhase, combatants: newCombatants } });
 
       if (!nextCombatant.isPlayer) {
         setTimeout(() => {
-          const playerDef = newCombatants.find((c) => c.isPlayer);
-          if (playerDef && !playerDef.isDead) {
-            set((s) => ({ combatState: { ...s.combatState!, selectedAction: 'attack', selectedTargetId: playerDef.definitionId } }));
+          const aiTarget = pickAITarget(newCombatants, nextCombatant);
+          if (aiTarget) {
+            set((s) => ({ combatState: { ...s.combatState!, selectedAction: 'attack', selectedTargetId: aiTarget.definitionId } }));
             get().executeCombatAction();
           } else {
             get().endCombatTurn();
@@ -283,7 +298,7 @@ export const createCombatSlice = (
     getAliveEnemies: () => {
       const cs = get().combatState;
       if (!cs) return [];
-      return cs.combatants.filter((c) => !c.isPlayer && !c.isDead);
+      return cs.combatants.filter((c) => isEnemyCombatant(c) && !c.isDead);
     },
 
     getPlayerCombatant: () => {
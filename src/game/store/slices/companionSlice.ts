@@ -0,0 +1,320 @@
+/**
+ * Companion Slice - Who rides with the player and what they think of it
+ *
+ * Companions are recruited and dismissed through dialogue effects. Each keeps
+ * an approval score that moves with the tags of the dialogue choices the
+ * player picks and the crimes they commit in front of the party; at the leave
+ * threshold the companion quits for good. Companions carry items for the
+ * player and speak barks from their own dialogue tree as things happen.
+ *
+ * Items a companion can't hand back when they go (the player's pack is full)
+ * stay with them, and come back if they're recruited again.
+ *
+ * @module game/store/slices/companionSlice
+ */
+
+import type { StateCreator } from 'zustand';
+import type { DialogueCondition, DialogueNode, DialogueTree } from '../../data/schemas/npc';
+import { rngTick, scopedRNG } from '../../lib/prng';
+import type { Combatant } from '../../systems/combat';
+import {
+  canCarry,
+  changeApproval,
+  COMPANIONS,
+  createCompanion,
+  crossesWarning,
+  getApprovalChange,
+  getCompanionAllies,
+  getCompanionDefinition,
+  MAX_PARTY_SIZE,
+  pickCompanionBark,
+  willLeave,
+  type ApprovalEvent,
+  type Companion,
+  type CompanionBarkTrigger,
+  type CompanionId,
+} from '../../systems/companions';
+import { subtitles } from '../../systems/Subtitles';
+import type { GameClockState } from '../../systems/time';
+import type { EquipmentState, InventoryItem, Notification, PanelType } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Data the companion slice reads from the platform.
+ */
+export interface CompanionDataAccess {
+  getDialogueTreeById: (treeId: string) => DialogueTree | undefined;
+}
+
+/**
+ * Companion state data (serializable).
+ */
+export interface CompanionState {
+  /** Companions riding with the player */
+  party: Companion[];
+  /** What each companion is carrying for the player, by companion id */
+  companionItems: Record<string, InventoryItem[]>;
+  /** Companions who quit over the player's conduct and won't come back */
+  departedCompanionIds: string[];
+  /** Companion whose pack the player has open */
+  companionPanelId: string | null;
+}
+
+/**
+ * Companion actions.
+ */
+export interface CompanionActions {
+  /** Take an NPC on as a companion; returns false if they can't or won't come */
+  recruitCompanion: (companionId: string) => boolean;
+  /** Send a companion home, handing back what they carry */
+  dismissCompanion: (companionId: string) => void;
+  /** Move a companion's approval; they leave if it falls too low */
+  changeCompanionApproval: (companionId: string, delta: number) => void;
+  /** Let the party react to something the player did */
+  companionsReact: (events: readonly ApprovalEvent[]) => void;
+  /** A companion speaks up about the place or the moment */
+  companionsRemark: (trigger: CompanionBarkTrigger) => void;
+  /** Approval of a companion in the party, or null if they aren't in it */
+  getCompanionApproval: (companionId: string) => number | null;
+  isInParty: (npcId: string) => boolean;
+  /** Open a companion's pack (defaults to the first in the party) */
+  openCompanionPanel: (companionId?: string) => void;
+  /** Hand a companion an item from the player's inventory */
+  giveCompanionItem: (companionId: string, instanceId: string, quantity?: number) => boolean;
+  /** Take an item back from a companion */
+  takeCompanionItem: (companionId: string, instanceId: string) => boolean;
+  /** The party as allies for a turn-based fight */
+  getPartyAllies: () => Combatant[];
+  /** Reset companion state */
+  resetCompanions: () => void;
+}
+
+/**
+ * Dependencies from other slices.
+ */
+export interface CompanionSliceDeps {
+  clockState: GameClockState;
+  inventory: InventoryItem[];
+  equipment: EquipmentState;
+  addItem: (item: InventoryItem) => void;
+  removeItemByInstanceId: (instanceId: string, quantity?: number) => void;
+  checkDialogueCondition: (condition: DialogueCondition) => boolean;
+  openPanel: (panel: PanelType) => void;
+  addNotification: (type: Notification['type'], message: string) => void;
+}
+
+/**
+ * Complete companion slice type.
+ */
+export type CompanionSlice = CompanionState & CompanionActions;
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/**
+ * Default companion state.
+ */
+export const DEFAULT_COMPANION_STATE: CompanionState = {
+  party: [],
+  companionItems: {},
+  departedCompanionIds: [],
+  companionPanelId: null,
+};
+
+// ============================================================================
+// SLICE FACTORY
+// ============================================================================
+
+/**
+ * Creates the companion Zustand slice.
+ */
+export const createCompanionSlice = (
+  dataAccess: CompanionDataAccess
+): StateCreator<CompanionSlice & CompanionSliceDeps, [], [], CompanionSlice> => {
+  return (set, get) => {
+    /** Say a line from a companion's bark tree, if one fits */
+    const bark = (companionId: CompanionId, trigger: CompanionBarkTrigger) => {
+      const definition = COMPANIONS[companionId];
+      const isAvailable = (node: DialogueNode) =>
+        (node.conditions ?? []).every((c) => get().checkDialogueCondition(c));
+      const text = pickCompanionBark(
+        dataAccess.getDialogueTreeById(definition.barkTreeId),
+        trigger,
+        isAvailable,
+        scopedRNG('companion', 42, rngTick())
+      );
+      if (text) subtitles.say(definition.name, text);
+    };
+
+    /** Hand back what a companion carries; anything that won't fit stays with them */
+    const returnItems = (companionId: string) => {
+      const kept: InventoryItem[] = [];
+      for (const item of get().companionItems[companionId] ?? []) {
+        const before = get().inventory;
+        get().addItem(item);
+        // addItem leaves the inventory untouched when the pack is full
+        if (get().inventory === before) kept.push(item);
+      }
+      set({ companionItems: { ...get().companionItems, [companionId]: kept } });
+      if (kept.length > 0) {
+        const name = COMPANIONS[companionId as CompanionId]?.name ?? companionId;
+        get().addNotification('warning', `${name} kept what you had no room for`);
+      }
+    };
+
+    const leaveParty = (companionId: CompanionId) => {
+      set({
+        party: get().party.filter((c) => c.id !== companionId),
+        companionPanelId: get().companionPanelId === companionId ? null : get().companionPanelId,
+      });
+      returnItems(companionId);
+    };
+
+    return {
+      // State
+      ...DEFAULT_COMPANION_STATE,
+
+      // Actions
+      recruitCompanion: (companionId: string) => {
+        const state = get();
+        const definition = getCompanionDefinition(companionId);
+        if (!definition || state.isInParty(companionId)) return false;
+
+        if (state.departedCompanionIds.includes(companionId)) {
+          state.addNotification('warning', `${definition.name} won't ride with you again`);
+          return false;
+        }
+        if (state.party.length >= MAX_PARTY_SIZE) {
+          state.addNotification('warning', `You can't take on more than ${MAX_PARTY_SIZE} companions`);
+          return false;
+        }
+
+        set({ party: [...state.party, createCompanion(definition.id, state.clockState.day)] });
+        state.addNotification('info', `${definition.name} joined you`);
+        bark(definition.id, 'recruited');
+        return true;
+      },
+
+      dismissCompanion: (companionId: string) => {
+        const definition = getCompanionDefinition(companionId);
+        if (!definition || !get().isInParty(companionId)) return;
+
+        leaveParty(definition.id);
+        get().addNotification('info', `${definition.name} headed home`);
+        bark(definition.id, 'dismissed');
+      },
+
+      changeCompanionApproval: (companionId: string, delta: number) => {
+        const companion = get().party.find((c) => c.id === companionId);
+        if (!companion || delta === 0) return;
+
+        const updated = changeApproval(companion, delta);
+        set({ party: get().party.map((c) => (c.id === companionId ? updated : c)) });
+
+        const definition = COMPANIONS[companion.id];
+        if (willLeave(updated.approval)) {
+          set({ departedCompanionIds: [...get().departedCompanionIds, companion.id] });
+          leaveParty(companion.id);
+          get().addNotification('warning', `${definition.name} has had enough of you and left`);
+          bark(companion.id, 'leaving');
+        } else if (crossesWarning(companion.approval, updated.approval)) {
+          bark(companion.id, 'warning');
+        }
+      },
+
+      companionsReact: (events: readonly ApprovalEvent[]) => {
+        if (events.length === 0) return;
+
+        // Everyone's opinion counts, but only whoever cares most says so
+        let speaker: { id: CompanionId; delta: number; before: number } | null = null;
+        for (const companion of get().party) {
+          const delta = getApprovalChange(COMPANIONS[companion.id], events);
+          if (delta === 0) continue;
+          if (!speaker || Math.abs(delta) > Math.abs(speaker.delta)) {
+            speaker = { id: companion.id, delta, before: companion.approval };
+          }
+          get().changeCompanionApproval(companion.id, delta);
+        }
+        if (!speaker) return;
+
+        // Warnings and departures have already said their piece
+        const after = get().getCompanionApproval(speaker.id);
+        if (after === null || crossesWarning(speaker.before, after)) return;
+        bark(speaker.id, speaker.delta > 0 ? 'approve' : 'disapprove');
+      },
+
+      companionsRemark: (trigger: CompanionBarkTrigger) => {
+        const { party } = get();
+        if (party.length === 0) return;
+        const index = Math.floor(scopedRNG('companion', 42, rngTick()) * party.length);
+        bark(party[Math.min(index, party.length - 1)].id, trigger);
+      },
+
+      getCompanionApproval: (companionId: string) =>
+        get().party.find((c) => c.id === companionId)?.approval ?? null,
+
+      isInParty: (npcId: string) => get().party.some((c) => c.id === npcId),
+
+      openCompanionPanel: (companionId?: string) => {
+        const id = companionId ?? get().party[0]?.id;
+        if (!id || !get().isInParty(id)) return;
+        set({ companionPanelId: id });
+        get().openPanel('companions');
+      },
+
+      giveCompanionItem: (companionId: string, instanceId: string, quantity?: number) => {
+        const state = get();
+        const definition = getCompanionDefinition(companionId);
+        const item = state.inventory.find((i) => i.id === instanceId);
+        if (!definition || !item || !state.isInParty(companionId)) return false;
+
+        if (Object.values(state.equipment).includes(instanceId)) {
+          state.addNotification('warning', `Unequip the ${item.name} first`);
+          return false;
+        }
+
+        const amount = Math.min(quantity ?? item.quantity, item.quantity);
+        const carried = state.companionItems[companionId] ?? [];
+        if (!canCarry(definition, carried, item.weight * amount)) {
+          state.addNotification('warning', `${definition.name} can't carry any more`);
+          return false;
+        }
+
+        const existing = carried.find((i) => i.itemId === item.itemId && i.condition === item.condition);
+        const items = existing
+          ? carried.map((i) => (i === existing ? { ...i, quantity: i.quantity + amount } : i))
+          : [...carried, { ...item, quantity: amount }];
+        state.removeItemByInstanceId(instanceId, amount);
+        set({ companionItems: { ...state.companionItems, [companionId]: items } });
+        return true;
+      },
+
+      takeCompanionItem: (companionId: string, instanceId: string) => {
+        const state = get();
+        const carried = state.companionItems[companionId] ?? [];
+        const item = carried.find((i) => i.id === instanceId);
+        if (!item) return false;
+
+        const before = state.inventory;
+        state.addItem(item);
+        if (get().inventory === before) return false;
+
+        set({
+          companionItems: {
+            ...get().companionItems,
+            [companionId]: carried.filter((i) => i.id !== instanceId),
+          },
+        });
+        return true;
+      },
+
+      getPartyAllies: () => getCompanionAllies(get().party),
+
+      resetCompanions: () => set({ ...DEFAULT_COMPANION_STATE }),
+    };
+  };
+};
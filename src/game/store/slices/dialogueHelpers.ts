@@ -7,7 +7,12 @@
  * @module game/store/slices/dialogueHelpers
  */
 
-import type { DialogueCondition, DialogueEffect } from '../../data';
+import type { DialogueCheck, DialogueCondition, DialogueEffect } from '../../data';
+import { type CheckStats, formatCheckHint } from '../../systems/DialogueQuestBridge/skillChecks';
+import { isTownEventActive } from '../../systems/calendar';
+import { COMPANION_JOINED_FLAG } from '../../systems/companions';
+import { BOUNTY_SETTLED_FLAG, isSettleMethod, type SettleMethod } from '../../systems/law';
+import { getFactionReputation, resolveDialogueFaction } from '../../systems/reputation';
 import type { DialogueState } from '../types';
 
 /**
@@ -16,8 +21,17 @@ import type { DialogueState } from '../types';
 interface ConditionContext {
   inventory: { itemId: string; quantity: number }[];
   completedQuestIds: string[];
-  playerStats: Record<string, number>;
+  completedQuestBranches: Record<string, Record<string, string>>;
+  activeQuests: { questId: string; branches?: Record<string, string> }[];
+  playerStats: Record<string, unknown> & CheckStats;
+  factionReputation: Record<string, number>;
   dialogueState: DialogueState | null;
+  /** Absent outside the full store; event conditions then fail */
+  clockState?: { day: number; hour: number };
+  /** Absent outside the full store; bounty conditions then fail */
+  getBounty?: (townId?: string) => number;
+  /** Absent outside the full store; approval conditions then fail */
+  getCompanionApproval?: (companionId: string) => number | null;
 }
 
 /**
@@ -43,6 +57,15 @@ export function evaluateDialogueCondition(
     case 'quest_active':
       return true;
 
+    case 'quest_branch': {
+      if (!condition.target || !condition.stringValue) return false;
+      const branches =
+        state.activeQuests.find((q) => q.questId === condition.target)?.branches ??
+        state.completedQuestBranches[condition.target] ??
+        {};
+      return Object.values(branches).includes(condition.stringValue);
+    }
+
     case 'gold_gte':
       if (condition.target && condition.value !== undefined) {
         const statValue = state.playerStats[condition.target];
@@ -50,6 +73,41 @@ export function evaluateDialogueCondition(
       }
       return false;
 
+    case 'reputation_gte':
+    case 'reputation_lte': {
+      const faction = resolveDialogueFaction(condition.target, state.dialogueState?.npcFaction);
+      if (!faction) return false;
+      const rep = getFactionReputation(state.factionReputation, faction);
+      const threshold = condition.value ?? 0;
+      return condition.type === 'reputation_gte' ? rep >= threshold : rep <= threshold;
+    }
+
+    case 'skill_gte':
+      return condition.target
+        ? (state.playerStats.skills[condition.target] ?? 0) >= (condition.value ?? 0)
+        : false;
+
+    case 'attribute_gte':
+      return condition.target
+        ? (state.playerStats.attributes[condition.target] ?? 0) >= (condition.value ?? 0)
+        : false;
+
+    case 'event_active':
+      return condition.target && state.clockState
+        ? isTownEventActive(condition.target, state.clockState.day, state.clockState.hour)
+        : false;
+
+    case 'bounty_gte':
+      return state.getBounty
+        ? state.getBounty(condition.target) >= (condition.value ?? 1)
+        : false;
+
+    case 'approval_gte': {
+      const companionId = condition.target ?? state.dialogueState?.npcId;
+      const approval = companionId ? state.getCompanionApproval?.(companionId) : null;
+      return approval != null && approval >= (condition.value ?? 0);
+    }
+
     case 'flag_set':
       if (state.dialogueState && condition.target) {
         return state.dialogueState.conversationFlags[condition.target] === true;
@@ -67,6 +125,21 @@ export function evaluateDialogueCondition(
   }
 }
 
+/**
+ * Surface the odds of any check choices through their hint, e.g. "[Speech 65%]".
+ * Authored hints are kept ahead of the odds.
+ */
+export function withCheckHints<T extends { hint?: string; check?: DialogueCheck }>(
+  choices: T[],
+  stats: CheckStats
+): T[] {
+  return choices.map((choice) => {
+    if (!choice.check) return choice;
+    const odds = formatCheckHint(choice.check, stats);
+    return { ...choice, hint: choice.hint ? `${choice.hint} ${odds}` : odds };
+  });
+}
+
 /**
  * State actions needed for applying dialogue effects.
  */
@@ -74,6 +147,16 @@ interface EffectContext {
   addItemById: (itemId: string, quantity?: number) => void;
   startQuest: (questId: string) => void;
   setDialogueFlag: (flag: string, value: boolean) => void;
+  raiseQuestFlag: (flag: string) => void;
+  changeReputation: (faction: string, delta: number) => unknown;
+  settleBounty: (method: SettleMethod) => boolean;
+  resistArrest: () => void;
+  dialogueState: DialogueState | null;
+  /** Companion actions; contexts without them ignore companion effects */
+  recruitCompanion?: (companionId: string) => boolean;
+  dismissCompanion?: (companionId: string) => void;
+  changeCompanionApproval?: (companionId: string, delta: number) => void;
+  openCompanionPanel?: (companionId: string) => void;
 }
 
 /**
@@ -91,11 +174,49 @@ export function applyDialogueEffectHelper(
       if (effect.target) state.startQuest(effect.target);
       break;
     case 'set_flag':
-      if (effect.target) state.setDialogueFlag(effect.target, true);
+      if (effect.target) {
+        state.setDialogueFlag(effect.target, true);
+        state.raiseQuestFlag(effect.target);
+      }
       break;
     case 'clear_flag':
       if (effect.target) state.setDialogueFlag(effect.target, false);
       break;
+    case 'change_reputation': {
+      const faction = resolveDialogueFaction(effect.target, state.dialogueState?.npcFaction);
+      if (faction && effect.value) state.changeReputation(faction, effect.value);
+      break;
+    }
+    case 'settle_bounty':
+      if (isSettleMethod(effect.stringValue) && state.settleBounty(effect.stringValue)) {
+        state.setDialogueFlag(BOUNTY_SETTLED_FLAG, true);
+      }
+      break;
+    case 'resist_arrest':
+      state.resistArrest();
+      break;
+    case 'recruit_companion': {
+      const companionId = effect.target ?? state.dialogueState?.npcId;
+      if (companionId && state.recruitCompanion?.(companionId)) {
+        state.setDialogueFlag(COMPANION_JOINED_FLAG, true);
+      }
+      break;
+    }
+    case 'dismiss_companion': {
+      const companionId = effect.target ?? state.dialogueState?.npcId;
+      if (companionId) state.dismissCompanion?.(companionId);
+      break;
+    }
+    case 'change_approval': {
+      const companionId = effect.target ?? state.dialogueState?.npcId;
+      if (companionId && effect.value) state.changeCompanionApproval?.(companionId, effect.value);
+      break;
+    }
+    case 'trade_companion': {
+      const companionId = effect.target ?? state.dialogueState?.npcId;
+      if (companionId) state.openCompanionPanel?.(companionId);
+      break;
+    }
     default:
       break;
   }
@@ -4,8 +4,11 @@
  */
 import type { StateCreator } from 'zustand';
 import type { NPCDefinition, DialogueCondition, DialogueEffect } from '../../data';
-import type { DialogueState, GamePhase, Notification, NPC } from '../types';
-import { applyDialogueEffectHelper, evaluateDialogueCondition } from './dialogueHelpers';
+import { scopedRNG } from '../../lib/prng';
+import { rollDialogueCheck } from '../../systems/DialogueQuestBridge/skillChecks';
+import type { SettleMethod } from '../../systems/law';
+import type { DialogueState, GamePhase, Notification, NPC, PlayerSkills } from '../types';
+import { applyDialogueEffectHelper, evaluateDialogueCondition, withCheckHints } from './dialogueHelpers';
 
 export interface DialogueDataAccess {
   getNPCById: (npcId: string) => NPCDefinition | undefined;
@@ -17,6 +20,8 @@ export interface DialogueDataAccess {
 
 export interface DialogueSliceState {
   talkedNPCIds: string[];
+  /** Nodes (`treeId:nodeId`) whose on-enter rewards have already been handed out */
+  enteredDialogueNodeIds: string[];
   npcs: Record<string, NPC>;
 }
 
@@ -28,6 +33,7 @@ export interface DialogueActions {
   setDialogueFlag: (flag: string, value: boolean) => void;
   checkDialogueCondition: (condition: DialogueCondition) => boolean;
   applyDialogueEffect: (effect: DialogueEffect) => void;
+  enterDialogueNode: (treeId: string, node: any) => void;
   getActiveNPC: () => NPCDefinition | undefined;
   updateNPC: (npcId: string, updates: Partial<NPC>) => void;
   talkToNPC: (npcId: string) => void;
@@ -43,45 +49,75 @@ export interface DialogueSliceDeps {
   addNotification: (type: Notification['type'], message: string) => void;
   addItemById: (itemId: string, quantity?: number) => void;
   startQuest: (questId: string) => void;
+  changeReputation: (faction: string, delta: number) => unknown;
+  settleBounty: (method: SettleMethod) => boolean;
+  resistArrest: () => void;
+  getBounty: (townId?: string) => number;
+  companionsReact: (events: readonly string[]) => void;
+  gainSkillXP: (skill: keyof PlayerSkills, amount: number) => void;
+  worldSeed: number;
   completedQuestIds: string[];
+  completedQuestBranches: Record<string, Record<string, string>>;
+  activeQuests: { questId: string; branches?: Record<string, string> }[];
+  raiseQuestFlag: (flag: string) => void;
+  factionReputation: Record<string, number>;
   inventory: any[];
   playerStats: any;
+  clockState: { day: number; hour: number };
 }
 
 export type DialogueSlice = DialogueSliceState & DialogueActions;
 
 export const DEFAULT_DIALOGUE_SLICE_STATE: DialogueSliceState = {
   talkedNPCIds: [],
+  enteredDialogueNodeIds: [],
   npcs: {},
 };
 
+// On-enter effects that hand something out; revisiting a node doesn't repeat them
+const ONCE_PER_NODE_EFFECTS: ReadonlySet<DialogueEffect['type']> = new Set<DialogueEffect['type']>([
+  'start_quest', 'complete_quest', 'advance_quest',
+  'give_item', 'take_item', 'give_gold', 'take_gold',
+  'change_reputation', 'change_approval', 'unlock_location',
+]);
+
 export const createDialogueSlice = (
   dataAccess: DialogueDataAccess
 ): StateCreator<DialogueSlice & DialogueSliceDeps, [], [], DialogueSlice> => {
+  // Available choices for a node, with check odds shown in their hints
+  const choicesFor = (node: any, state: DialogueSlice & DialogueSliceDeps) =>
+    withCheckHints(
+      dataAccess.getAvailableChoices(node, (c) => state.checkDialogueCondition(c)),
+      state.playerStats
+    );
+
   return (set, get) => ({
     ...DEFAULT_DIALOGUE_SLICE_STATE,
 
     startDialogue: (npcId: string, treeId?: string) => {
       const state = get();
       const npc = dataAccess.getNPCById(npcId);
-      if (!npc) return;
+      // Trees opened by id (such as the law's) can be spoken by any townsperson
+      const npcName = npc?.name ?? (treeId ? state.npcs[npcId]?.name : undefined);
+      if (!npcName) return;
 
       const tree = treeId
         ? dataAccess.getDialogueTreeById(treeId)
         : dataAccess.getPrimaryDialogueTree(npcId);
-      if (!tree) { state.addNotification('warning', `${npc.name} has nothing to say.`); return; }
+      if (!tree) { state.addNotification('warning', `${npcName} has nothing to say.`); return; }
 
       const node = dataAccess.getDialogueEntryNode(tree, (c) => state.checkDialogueCondition(c));
       if (!node) return;
 
       state.setPhase('dialogue');
       state.setDialogue({
-        npcId, npcName: npc.name, treeId: tree.id, currentNodeId: node.id,
-        text: node.text, speaker: node.speaker || npc.name,
-        choices: dataAccess.getAvailableChoices(node, (c) => state.checkDialogueCondition(c)),
+        npcId, npcName, npcFaction: npc?.faction, treeId: tree.id, currentNodeId: node.id,
+        text: node.text, speaker: node.speaker || npcName,
+        choices: choicesFor(node, state),
         autoAdvanceNodeId: node.nextNodeId || null, history: [],
         conversationFlags: {}, startedAt: Date.now(),
       });
+      state.enterDialogueNode(tree.id, node);
     },
 
     selectChoice: (choiceIndex: number) => {
@@ -92,17 +128,41 @@ export const createDialogueSlice = (
       if (!choice) return;
 
       if (choice.effects) choice.effects.forEach((e: DialogueEffect) => state.applyDialogueEffect(e));
+      // Companions weigh in on the tone of what the player chose
+      if (choice.tags?.length) state.companionsReact(choice.tags);
+
+      let nextNodeId = choice.nextNodeId;
+      if (choice.check) {
+        // Seeded per world and choice so reloading can't reroll a failed check
+        const roll = scopedRNG(
+          'dialogue.check', state.worldSeed, dialogueState.treeId, dialogueState.currentNodeId, choiceIndex
+        );
+        const result = rollDialogueCheck(choice.check, state.playerStats, roll);
+        const outcomeEffects = result.success ? choice.check.successEffects : choice.check.failureEffects;
+        outcomeEffects?.forEach((e: DialogueEffect) => state.applyDialogueEffect(e));
+        state.addNotification(
+          result.success ? 'info' : 'warning',
+          `${choice.check.stat.toUpperCase()} check ${result.success ? 'passed' : 'failed'}`
+        );
+        if (result.skill && result.xp > 0) state.gainSkillXP(result.skill, result.xp);
+        nextNodeId = result.success ? choice.check.successNodeId : choice.check.failureNodeId;
+      }
 
-      if (choice.nextNodeId) {
-        const tree = dataAccess.getDialogueTreeById(dialogueState.treeId);
-        const nextNode = tree.nodes.find((n: any) => n.id === choice.nextNodeId);
+      // Effects may have changed the dialogue state (e.g. flags)
+      const current = get().dialogueState;
+      if (!current) return;
+
+      if (nextNodeId) {
+        const tree = dataAccess.getDialogueTreeById(current.treeId);
+        const nextNode = tree.nodes.find((n: any) => n.id === nextNodeId);
         if (nextNode) {
           state.setDialogue({
-            ...dialogueState, currentNodeId: nextNode.id, text: nextNode.text,
-            speaker: nextNode.speaker || dialogueState.npcName,
-            choices: dataAccess.getAvailableChoices(nextNode, (c) => state.checkDialogueCondition(c)),
-            history: [...dialogueState.history, choice.text],
+            ...current, currentNodeId: nextNode.id, text: nextNode.text,
+            speaker: nextNode.speaker || current.npcName,
+            choices: choicesFor(nextNode, get()),
+            history: [...current.history, choice.text],
           });
+          state.enterDialogueNode(current.treeId, nextNode);
         } else { state.endDialogue(); }
       } else { state.endDialogue(); }
     },
@@ -117,9 +177,10 @@ export const createDialogueSlice = (
           state.setDialogue({
             ...dialogueState, currentNodeId: nextNode.id, text: nextNode.text,
             speaker: nextNode.speaker || dialogueState.npcName,
-            choices: dataAccess.getAvailableChoices(nextNode, (c) => state.checkDialogueCondition(c)),
+            choices: choicesFor(nextNode, state),
             autoAdvanceNodeId: nextNode.nextNodeId || null,
           });
+          state.enterDialogueNode(dialogueState.treeId, nextNode);
         } else { state.endDialogue(); }
       } else { state.endDialogue(); }
     },
@@ -142,6 +203,17 @@ export const createDialogueSlice = (
     applyDialogueEffect: (effect: DialogueEffect) =>
       applyDialogueEffectHelper(effect, get()),
 
+    enterDialogueNode: (treeId: string, node: any) => {
+      if (!node.onEnterEffects?.length) return;
+      // Flags and the like are conversation state, set again on every visit
+      const key = `${treeId}:${node.id}`;
+      const firstVisit = !get().enteredDialogueNodeIds.includes(key);
+      if (firstVisit) set((s) => ({ enteredDialogueNodeIds: [...s.enteredDialogueNodeIds, key] }));
+      node.onEnterEffects
+        .filter((e: DialogueEffect) => firstVisit || !ONCE_PER_NODE_EFFECTS.has(e.type))
+        .forEach((e: DialogueEffect) => get().applyDialogueEffect(e));
+    },
+
     getActiveNPC: () => {
       const ds = get().dialogueState;
       if (!ds) return undefined;
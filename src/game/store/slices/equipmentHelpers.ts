@@ -12,6 +12,8 @@ import type {
   EquipmentState,
   InventoryItem,
 } from '../types';
+import { getConditionMultiplier } from '../../data/items/durability';
+import { applyWeaponMods } from '../../data/items/weaponMods';
 import type { InventoryDataAccess } from './inventorySlice';
 
 /**
@@ -43,7 +45,8 @@ export function resolveEquipmentSlot(
 }
 
 /**
- * Calculate total equipment bonuses from all equipped items.
+ * Calculate total equipment bonuses from all equipped items, including
+ * fitted weapon mods and scaled by each item's condition.
  */
 export function calculateEquipmentBonuses(
   equipment: EquipmentState,
@@ -59,12 +62,14 @@ export function calculateEquipmentBonuses(
     const def = dataAccess.getItem(item.itemId);
     if (!def) return;
 
+    const wear = getConditionMultiplier(item.condition);
     if (def.weaponStats) {
-      bonuses.damage += def.weaponStats.damage;
-      bonuses.accuracy += def.weaponStats.accuracy;
+      const stats = applyWeaponMods(def.weaponStats, item.mods);
+      bonuses.damage += Math.round(stats.damage * wear);
+      bonuses.accuracy += Math.round(stats.accuracy * wear);
     }
     if (def.armorStats) {
-      bonuses.defense += def.armorStats.defense;
+      bonuses.defense += Math.round(def.armorStats.defense * wear);
     }
   });
 
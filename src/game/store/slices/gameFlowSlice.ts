@@ -1,7 +1,7 @@
 /**
  * Game Flow Slice - Cross-cutting game lifecycle actions
  *
- * Manages game initialization, reset, time updates, and cleanup.
+ * Manages game initialization, reset, time updates, weather, and cleanup.
  * These actions coordinate across multiple slices and cannot
  * be assigned to a single domain slice.
  *
@@ -9,7 +9,10 @@
  */
 
 import type { StateCreator } from 'zustand';
+import { getCalendarDate } from '../../systems/calendar';
 import { questEvents } from '../../systems/QuestEvents';
+import type { TimeEventCallback, TimeEventType } from '../../systems/time';
+import { getLocationClimate, getRegionWeather } from '../../systems/weather';
 import type { DataAccess } from '../dataAccess';
 import {
   DEFAULT_AUDIO_STATE,
@@ -36,6 +39,8 @@ import type {
   WorldPosition,
 } from '../types';
 import { scopedRNG, rngTick } from '../../lib/prng';
+import { DEFAULT_FACTION_REPUTATION } from '../../systems/reputation';
+import { getClockMinutes } from './questHelpers';
 
 // ============================================================================
 // TYPES
@@ -65,6 +70,10 @@ export interface GameFlowActions {
   resetGame: () => void;
   /** Update in-game time */
   updateTime: (hours: number) => void;
+  /** Refresh the weather for the current location (defaults to the clock's time) */
+  updateWeather: (totalMinutes?: number) => void;
+  /** Keep the weather current on the game clock; returns an unsubscribe function */
+  watchWeather: () => () => void;
   /** Clean up timers and resources */
   destroyStore: () => void;
 }
@@ -76,16 +85,20 @@ export interface GameFlowSliceDeps {
   // State
   phase: GamePhase;
   clockState: any;
+  currentLocationId: string | null;
+  loadedWorld: any | null;
 
   // Actions from other slices
   setPhase: (phase: GamePhase) => void;
   addNotification: (type: Notification['type'], message: string) => void;
   initWorld: (worldId: string) => void;
+  refreshCarryWeight: () => void;
   resetSurvival: () => void;
   startClock: () => void;
   advanceTime: (hours: number) => void;
   saveGame: () => void;
   saveToSlot: (slotId: string) => Promise<void>;
+  onClockEvent: (event: TimeEventType, callback: TimeEventCallback) => () => void;
 }
 
 /**
@@ -156,20 +169,42 @@ export const createGameFlowSlice = (
           xp: 0,
           health: 100,
         },
+        factionReputation: { ...DEFAULT_FACTION_REPUTATION },
+        bounties: {},
+        bountyBoards: {},
+        bountyBoardTownId: null,
+        horses: [],
+        activeHorseId: null,
+        mounted: false,
+        liveryTownId: null,
+        party: [],
+        companionItems: {},
+        departedCompanionIds: [],
+        companionPanelId: null,
+        railTickets: [],
+        depotStationId: null,
         inventory: starterItems,
         // Reset world state
         currentWorldId: 'frontier_territory',
         currentLocationId: 'dusty_springs',
         discoveredLocationIds: ['dusty_springs'],
+        visitedLocationIds: ['dusty_springs'],
+        enteredDialogueNodeIds: [],
         time: DEFAULT_TIME,
         // Reset quest state
         activeQuests: [],
         completedQuests: [],
+        completedQuestBranches: {},
+        failedQuestIds: [],
+        questTimerClock: null,
+        // Reset shop stock
+        shopMarkets: {},
         // Reset notifications
         notifications: [],
       } as any);
 
       get().initWorld('frontier_territory');
+      get().refreshCarryWeight();
       get().resetSurvival();
       get().startClock();
     },
@@ -188,15 +223,35 @@ export const createGameFlowSlice = (
     updateTime: (hours: number) => {
       get().advanceTime(hours);
       const { clockState } = get();
+      const { dayOfYear, year } = getCalendarDate(clockState.day);
       set((s) => ({
         time: {
           ...s.time,
           hour: clockState.hour,
-          dayOfYear: clockState.day,
+          dayOfYear,
+          year,
         },
       }));
     },
 
+    updateWeather: (totalMinutes?: number) => {
+      const { clockState, currentLocationId, loadedWorld, worldSeed, weather } = get();
+      const minutes = totalMinutes ?? (clockState ? getClockMinutes(clockState) : 0);
+      const world = loadedWorld?.world ?? loadedWorld;
+      const next = getRegionWeather(getLocationClimate(world, currentLocationId), worldSeed, minutes);
+      // Ticks come every second; skip updates nobody would notice
+      const changed =
+        next.type !== weather.type ||
+        Math.abs(next.intensity - weather.intensity) >= 0.02 ||
+        Math.abs(next.windSpeed - weather.windSpeed) >= 0.5;
+      if (changed) set({ weather: next });
+    },
+
+    watchWeather: () => {
+      get().updateWeather();
+      return get().onClockEvent('tick', (event) => get().updateWeather(getClockMinutes(event)));
+    },
+
     destroyStore: () => {
       // Cleanup is handled by travel slice timer cleanup
       // This is a noop now that travel timer is managed by travelSlice
@@ -0,0 +1,315 @@
+/**
+ * Horse Slice - The player's horses and the liveries that keep them
+ *
+ * Horses are bought at a town's livery and either ride with the player or
+ * wait in a livery's stable, which charges by the day and sends them back
+ * out rested. The horse riding with the player carries its saddlebags (more
+ * carry weight) and speeds up overland travel. In the saddle it shares the
+ * rider's hits and may spook and throw them.
+ *
+ * Whether the player is in the saddle and within reach of the horse is set
+ * by the scene and not persisted.
+ *
+ * @module game/store/slices/horseSlice
+ */
+
+import type { StateCreator } from 'zustand';
+import type { TravelMethod } from '../../data/schemas/world';
+import { rngTick, scopedRNG } from '../../lib/prng';
+import {
+  createHorse,
+  getHorseBreed,
+  getHorseTravelSpeed,
+  getSaddlebagCapacity,
+  getStableFee,
+  HORSE_BREEDS,
+  HORSE_DAMAGE_SHARE,
+  restHorse,
+  SADDLEBAGS_PRICE,
+  THROWN_DAMAGE,
+  type Horse,
+} from '../../systems/horses';
+import { mountedTravelSpeed } from '../../systems/TravelManager';
+import type { GameClockState } from '../../systems/time';
+import type { Notification, PanelType, PlayerStats } from '../types';
+import { DEFAULT_INVENTORY_STATE } from './inventorySlice';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Horse state data (serializable).
+ */
+export interface HorseState {
+  /** Every horse the player owns, stabled or not */
+  horses: Horse[];
+  /** The horse riding with the player, if any */
+  activeHorseId: string | null;
+  /** Whether the player is in the saddle */
+  mounted: boolean;
+  /** Whether the player is close enough to the horse to mount */
+  horseInReach: boolean;
+  /** Town whose livery the player has open */
+  liveryTownId: string | null;
+}
+
+/**
+ * Horse actions.
+ */
+export interface HorseActions {
+  /** Open the livery in a town (defaults to the current location) */
+  openLivery: (townId?: string) => void;
+  /** Buy a horse at the open livery; it comes along if the player has none with them */
+  buyHorse: (breedId: string) => boolean;
+  /** Fit the horse riding with the player with saddlebags */
+  buySaddlebags: () => boolean;
+  /** Leave the horse riding with the player at the open livery */
+  stableHorse: () => boolean;
+  /** Settle a horse's stabling and ride out with it, stabling the current one */
+  takeHorse: (horseId: string) => boolean;
+  /** Get in the saddle; returns false if there's no horse at hand */
+  mountHorse: () => boolean;
+  dismountHorse: () => void;
+  toggleMount: () => void;
+  setHorseInReach: (inReach: boolean) => void;
+  /** Stamina as the PlayerController last left it */
+  setHorseStamina: (stamina: number) => void;
+  /** Hurt the horse riding with the player; it's lost if its health runs out */
+  woundHorse: (damage: number) => void;
+  /** The horse bolts and throws its rider */
+  spookHorse: () => void;
+  /** The rider's been hit: the horse shares the damage and may spook */
+  horseUnderFire: (damage: number) => void;
+  /** Carry weight with the saddlebags of the horse riding with the player */
+  refreshCarryWeight: () => void;
+  getActiveHorse: () => Horse | undefined;
+  /** Pace of the player's horse over a route by `method` */
+  getMountTravelSpeed: (method: TravelMethod) => number;
+  /** Reset horse state */
+  resetHorses: () => void;
+}
+
+/**
+ * Dependencies from other slices.
+ */
+export interface HorseSliceDeps {
+  currentLocationId: string | null;
+  clockState: GameClockState;
+  playerStats: PlayerStats;
+  maxCarryWeight: number;
+  updatePlayerStats: (stats: Partial<PlayerStats>) => void;
+  takeDamage: (amount: number) => void;
+  openPanel: (panel: PanelType) => void;
+  addNotification: (type: Notification['type'], message: string) => void;
+}
+
+/**
+ * Complete horse slice type.
+ */
+export type HorseSlice = HorseState & HorseActions;
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/**
+ * Default horse state.
+ */
+export const DEFAULT_HORSE_STATE: HorseState = {
+  horses: [],
+  activeHorseId: null,
+  mounted: false,
+  horseInReach: false,
+  liveryTownId: null,
+};
+
+// ============================================================================
+// SLICE FACTORY
+// ============================================================================
+
+/**
+ * Creates the horse Zustand slice.
+ */
+export const createHorseSlice: StateCreator<HorseSlice & HorseSliceDeps, [], [], HorseSlice> = (
+  set,
+  get
+) => {
+  /** Pay `cost` gold, or warn and refuse */
+  const pay = (cost: number, refusal: string): boolean => {
+    const { playerStats } = get();
+    if (playerStats.gold < cost) {
+      get().addNotification('warning', refusal);
+      return false;
+    }
+    if (cost > 0) get().updatePlayerStats({ gold: playerStats.gold - cost });
+    return true;
+  };
+
+  const updateHorse = (horseId: string, changes: Partial<Horse>) =>
+    set({
+      horses: get().horses.map((horse) => (horse.id === horseId ? { ...horse, ...changes } : horse)),
+    });
+
+  return {
+    // State
+    ...DEFAULT_HORSE_STATE,
+
+    // Actions
+    openLivery: (townId?: string) => {
+      set({ liveryTownId: townId ?? get().currentLocationId });
+      get().openPanel('livery');
+    },
+
+    buyHorse: (breedId: string) => {
+      const state = get();
+      const breed = getHorseBreed(breedId);
+      if (!breed || !state.liveryTownId) return false;
+      if (!pay(breed.price, `You can't afford the ${breed.name}.`)) return false;
+
+      const horse = createHorse(
+        `horse_${breed.id}_${Date.now()}`,
+        breed.id,
+        state.liveryTownId,
+        state.clockState.day
+      );
+      set({ horses: [...state.horses, horse] });
+      state.addNotification('item', `Bought a ${breed.name} for ${breed.price}g`);
+      if (!state.activeHorseId) get().takeHorse(horse.id);
+      return true;
+    },
+
+    buySaddlebags: () => {
+      const horse = get().getActiveHorse();
+      if (!horse || horse.saddlebags) return false;
+      if (!pay(SADDLEBAGS_PRICE, "You can't afford the saddlebags.")) return false;
+
+      updateHorse(horse.id, { saddlebags: true });
+      get().refreshCarryWeight();
+      get().addNotification('item', `Saddlebags fitted to ${horse.name}`);
+      return true;
+    },
+
+    stableHorse: () => {
+      const state = get();
+      const horse = state.getActiveHorse();
+      if (!horse || !state.liveryTownId) return false;
+
+      updateHorse(horse.id, { stabledAt: state.liveryTownId, stabledDay: state.clockState.day });
+      set({ activeHorseId: null, mounted: false, horseInReach: false });
+      get().refreshCarryWeight();
+      state.addNotification('info', `${horse.name} is stabled at the livery`);
+      return true;
+    },
+
+    takeHorse: (horseId: string) => {
+      const state = get();
+      const horse = state.horses.find((h) => h.id === horseId);
+      if (!horse || !horse.stabledAt || horse.stabledAt !== state.liveryTownId) return false;
+
+      const fee = getStableFee(horse, state.clockState.day);
+      if (!pay(fee, `The livery wants ${fee}g for ${horse.name}'s keep.`)) return false;
+      if (state.activeHorseId) get().stableHorse();
+
+      set({
+        horses: get().horses.map((h) =>
+          h.id === horseId ? { ...restHorse(h), stabledAt: null, stabledDay: 0 } : h
+        ),
+        activeHorseId: horseId,
+      });
+      get().refreshCarryWeight();
+      state.addNotification(
+        'info',
+        fee > 0 ? `Paid ${fee}g for ${horse.name}'s keep` : `${horse.name} is saddled and waiting`
+      );
+      return true;
+    },
+
+    mountHorse: () => {
+      const state = get();
+      const horse = state.getActiveHorse();
+      if (state.mounted || !horse) return false;
+      if (!state.horseInReach) {
+        state.addNotification('warning', `${horse.name} is too far away to mount`);
+        return false;
+      }
+      set({ mounted: true });
+      return true;
+    },
+
+    dismountHorse: () => set({ mounted: false }),
+
+    toggleMount: () => {
+      if (get().mounted) get().dismountHorse();
+      else get().mountHorse();
+    },
+
+    setHorseInReach: (inReach: boolean) => set({ horseInReach: inReach }),
+
+    setHorseStamina: (stamina: number) => {
+      const horse = get().getActiveHorse();
+      if (horse) updateHorse(horse.id, { stamina });
+    },
+
+    woundHorse: (damage: number) => {
+      const state = get();
+      const horse = state.getActiveHorse();
+      if (!horse || damage <= 0) return;
+
+      const health = Math.max(0, horse.health - damage);
+      if (health > 0) {
+        updateHorse(horse.id, { health });
+        return;
+      }
+
+      set({
+        horses: state.horses.filter((h) => h.id !== horse.id),
+        activeHorseId: null,
+        mounted: false,
+        horseInReach: false,
+      });
+      get().refreshCarryWeight();
+      state.addNotification('warning', `${horse.name} went down and won't get up`);
+    },
+
+    spookHorse: () => {
+      const state = get();
+      const horse = state.getActiveHorse();
+      if (!horse || !state.mounted) return;
+      set({ mounted: false });
+      state.takeDamage(THROWN_DAMAGE);
+      state.addNotification('warning', `${horse.name} spooked and threw you`);
+    },
+
+    horseUnderFire: (damage: number) => {
+      const state = get();
+      const horse = state.getActiveHorse();
+      if (!horse || !state.mounted) return;
+
+      state.woundHorse(Math.round(damage * HORSE_DAMAGE_SHARE));
+      if (!get().getActiveHorse()) return;
+      if (scopedRNG('horse', 42, rngTick()) < HORSE_BREEDS[horse.breedId].spookChance) {
+        get().spookHorse();
+      }
+    },
+
+    refreshCarryWeight: () =>
+      set({
+        maxCarryWeight:
+          DEFAULT_INVENTORY_STATE.maxCarryWeight + getSaddlebagCapacity(get().getActiveHorse()),
+      }),
+
+    getActiveHorse: () => {
+      const { horses, activeHorseId } = get();
+      return activeHorseId ? horses.find((horse) => horse.id === activeHorseId) : undefined;
+    },
+
+    getMountTravelSpeed: (method: TravelMethod) =>
+      mountedTravelSpeed(method, getHorseTravelSpeed(get().getActiveHorse())),
+
+    resetHorses: () => {
+      set({ ...DEFAULT_HORSE_STATE });
+      get().refreshCarryWeight();
+    },
+  };
+};
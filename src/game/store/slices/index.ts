@@ -41,6 +41,68 @@ export {
   type InventoryState,
 } from './inventorySlice';
 
+// Reputation slice - per-faction standing
+export {
+  createReputationSlice,
+  DEFAULT_REPUTATION_STATE,
+  type ReputationActions,
+  type ReputationSlice,
+  type ReputationSliceDeps,
+  type ReputationState,
+} from './reputationSlice';
+
+// Law slice - crimes and town bounties
+export {
+  createLawSlice,
+  DEFAULT_LAW_STATE,
+  type LawActions,
+  type LawSlice,
+  type LawSliceDeps,
+  type LawState,
+} from './lawSlice';
+
+// Bounty board slice - sheriff's office contracts
+export {
+  createBountyBoardSlice,
+  DEFAULT_BOUNTY_BOARD_STATE,
+  type BountyBoardActions,
+  type BountyBoardSlice,
+  type BountyBoardSliceDeps,
+  type BountyBoardState,
+} from './bountyBoardSlice';
+
+// Horse slice - owned horses and livery stabling
+export {
+  createHorseSlice,
+  DEFAULT_HORSE_STATE,
+  type HorseActions,
+  type HorseSlice,
+  type HorseSliceDeps,
+  type HorseState,
+} from './horseSlice';
+
+// Companion slice - party members, their approval and packs
+export {
+  createCompanionSlice,
+  DEFAULT_COMPANION_STATE,
+  type CompanionActions,
+  type CompanionDataAccess,
+  type CompanionSlice,
+  type CompanionSliceDeps,
+  type CompanionState,
+} from './companionSlice';
+
+// Railroad slice - train tickets and depots
+export {
+  createRailroadSlice,
+  DEFAULT_RAILROAD_STATE,
+  type RailroadActions,
+  type RailroadDataAccess,
+  type RailroadSlice,
+  type RailroadSliceDeps,
+  type RailroadState,
+} from './railroadSlice';
+
 // Quest slice - quests and objectives
 export {
   createQuestSlice,
@@ -119,8 +181,13 @@ export {
 // Settings slice - user preferences
 export {
   createSettingsSlice,
+  DEFAULT_ACCESSIBILITY,
   DEFAULT_SETTINGS,
   DEFAULT_SETTINGS_STATE,
+  getAccessibility,
+  getControls,
+  MIN_LOOK_SENSITIVITY,
+  normalizeSettings,
   type SettingsActions,
   type SettingsSlice,
   type SettingsState,
@@ -7,8 +7,29 @@
  */
 
 import type { StateCreator } from 'zustand';
-import type { EquipmentSlot, EquipmentState, InventoryItem, Notification } from '../types';
+import type {
+  EquipmentSlot,
+  EquipmentState,
+  InventoryItem,
+  Notification,
+  PlayerSkills,
+} from '../types';
 import type { ItemEffect } from '../../data/schemas/item';
+import {
+  clampCondition,
+  findRepairPart,
+  getArmorWear,
+  getFieldRepairAmount,
+  getFieldRepairCap,
+  REPAIR_PARTS,
+} from '../../data/items/durability';
+import { getRecipe } from '../../data/items/recipes';
+import { getPerkModifier } from '../../data/perks';
+import { SKILL_PRACTICE_XP } from '../../systems/skills';
+import { getWeaponMod } from '../../data/items/weaponMods';
+import type { CraftingStation } from '../../data/schemas/item';
+import type { CampingState } from '../../systems/camping';
+import { consumeIngredients, getAvailableStations, getCraftBlocker } from './craftingHelpers';
 import { calculateEquipmentBonuses, resolveEquipmentSlot } from './equipmentHelpers';
 import { scopedRNG, rngTick } from '../../lib/prng';
 
@@ -40,6 +61,22 @@ export interface InventoryActions {
   unequipItem: (slot: EquipmentSlot) => void;
   getEquippedItem: (slot: EquipmentSlot) => InventoryItem | null;
   getEquipmentBonuses: () => { damage: number; defense: number; accuracy: number };
+  /** Set an item's condition (clamped to 0-100) */
+  setItemCondition: (instanceId: string, condition: number) => void;
+  /** Wear an item down by `amount` condition */
+  degradeItem: (instanceId: string, amount: number) => void;
+  /** Spread wear from a hit of `damage` over equipped armor */
+  degradeArmor: (damage: number) => void;
+  /** Field-repair an item with one junk part, limited by the repair skill */
+  repairItem: (instanceId: string) => void;
+  /** Crafting stations usable right now */
+  getCraftingStations: () => CraftingStation[];
+  /** Why a recipe can't be crafted right now, or null if it can */
+  getCraftBlocker: (recipeId: string) => string | null;
+  /** Craft a recipe, consuming its ingredients */
+  craftItem: (recipeId: string) => void;
+  /** Fit a weapon mod from the inventory to a weapon (needs a workbench) */
+  applyWeaponMod: (weaponInstanceId: string, modItemId: string) => void;
   resetInventory: () => void;
 }
 
@@ -48,9 +85,11 @@ export interface InventorySliceDeps {
   heal: (amount: number) => void;
   takeDamage: (amount: number) => void;
   updatePlayerStats: (stats: any) => void;
+  gainSkillXP: (skill: keyof PlayerSkills, amount: number) => void;
   playerStats: any;
   playerPosition: any;
   worldItems: Record<string, any>;
+  campingState?: CampingState;
 }
 
 export type InventorySlice = InventoryState & InventoryActions;
@@ -161,9 +200,10 @@ export const createInventorySlice = (
       const def = dataAccess.getItem(item.itemId);
       if (!def?.effects?.length) return;
 
+      const healing = getPerkModifier(state.playerStats.perks ?? [], 'healing');
       def.effects.forEach((effect: ItemEffect) => {
         switch (effect.type) {
-          case 'heal': state.heal(effect.value); break;
+          case 'heal': state.heal(Math.round(effect.value * healing)); break;
           case 'stamina': state.updatePlayerStats({ stamina: Math.min(state.playerStats.maxStamina, state.playerStats.stamina + effect.value) }); break;
           case 'damage': state.takeDamage(effect.value); break;
           case 'buff': state.addNotification('info', `Buff applied: ${effect.buffType ?? 'unknown'}`); break;
@@ -176,6 +216,9 @@ export const createInventorySlice = (
         return { inventory: s.inventory.filter((i) => i.id !== instanceId) };
       });
       state.addNotification('info', `Used ${item.name}`);
+      if (def.tags?.includes('medical')) {
+        state.gainSkillXP('medicine', SKILL_PRACTICE_XP.treatWound);
+      }
     },
 
     dropItem: (instanceId: string) => {
@@ -213,6 +256,117 @@ export const createInventorySlice = (
     getEquipmentBonuses: () =>
       calculateEquipmentBonuses(get().equipment, get().inventory, dataAccess),
 
+    setItemCondition: (instanceId: string, condition: number) =>
+      set((s) => ({
+        inventory: s.inventory.map((i) =>
+          i.id === instanceId ? { ...i, condition: clampCondition(condition) } : i
+        ),
+      })),
+
+    degradeItem: (instanceId: string, amount: number) => {
+      const item = get().inventory.find((i) => i.id === instanceId);
+      if (!item || amount <= 0 || item.condition <= 0) return;
+      const condition = clampCondition(item.condition - amount);
+      get().setItemCondition(instanceId, condition);
+      if (condition <= 0) get().addNotification('warning', `${item.name} is broken.`);
+    },
+
+    degradeArmor: (damage: number) => {
+      const state = get();
+      const armor = Object.values(state.equipment)
+        .map((id) => (id ? state.inventory.find((i) => i.id === id) : undefined))
+        .filter((i): i is InventoryItem => !!i && !!dataAccess.getItem(i.itemId)?.armorStats);
+      const wear = getArmorWear(damage, armor.length);
+      for (const item of armor) state.degradeItem(item.id, wear);
+    },
+
+    repairItem: (instanceId: string) => {
+      const state = get();
+      const item = state.inventory.find((i) => i.id === instanceId);
+      if (!item) return;
+      const def = dataAccess.getItem(item.itemId);
+      if (!def?.weaponStats && !def?.armorStats) return;
+
+      const skill = state.playerStats.skills?.repair ?? 0;
+      const cap = getFieldRepairCap(skill);
+      if (item.condition >= cap) {
+        state.addNotification('warning', `You lack the skill to repair ${item.name} any further.`);
+        return;
+      }
+      const part = findRepairPart(state.getItemCount);
+      if (!part) {
+        state.addNotification('warning', 'You have no scrap to repair with.');
+        return;
+      }
+
+      const restored =
+        getFieldRepairAmount(REPAIR_PARTS[part], skill) *
+        getPerkModifier(state.playerStats.perks ?? [], 'repair');
+      const condition = Math.min(cap, item.condition + restored);
+      state.removeItem(part, 1);
+      state.setItemCondition(instanceId, condition);
+      state.addNotification('info', `Repaired ${item.name} (${Math.round(condition)}%)`);
+      state.gainSkillXP('repair', SKILL_PRACTICE_XP.fieldRepair);
+    },
+
+    getCraftingStations: () => getAvailableStations(get().campingState),
+
+    getCraftBlocker: (recipeId: string) => {
+      const recipe = getRecipe(recipeId);
+      if (!recipe) return 'Unknown recipe.';
+      const state = get();
+      return getCraftBlocker(
+        recipe,
+        state.getCraftingStations(),
+        state.playerStats.skills,
+        state.getItemCount
+      );
+    },
+
+    craftItem: (recipeId: string) => {
+      const state = get();
+      const recipe = getRecipe(recipeId);
+      if (!recipe) return;
+      const blocker = state.getCraftBlocker(recipeId);
+      if (blocker) {
+        state.addNotification('warning', blocker);
+        return;
+      }
+
+      set((s) => ({ inventory: consumeIngredients(s.inventory, recipe.ingredients) }));
+      get().addItemById(recipe.output.itemId, recipe.output.quantity);
+      state.addNotification('info', `Crafted ${recipe.name}`);
+      if (recipe.skill) state.gainSkillXP(recipe.skill, SKILL_PRACTICE_XP.craft);
+    },
+
+    applyWeaponMod: (weaponInstanceId: string, modItemId: string) => {
+      const state = get();
+      const weapon = state.inventory.find((i) => i.id === weaponInstanceId);
+      const weaponStats = weapon ? dataAccess.getItem(weapon.itemId)?.weaponStats : undefined;
+      const mod = getWeaponMod(modItemId);
+      if (!weapon || !weaponStats || !mod || state.getItemCount(modItemId) < 1) return;
+
+      if (!state.getCraftingStations().includes('workbench')) {
+        state.addNotification('warning', 'You need a workbench to fit that.');
+        return;
+      }
+      if (!mod.weaponTypes.includes(weaponStats.weaponType)) {
+        state.addNotification('warning', `That won't fit a ${weaponStats.weaponType}.`);
+        return;
+      }
+
+      // A mod in the same slot comes off and goes back in the pack
+      const replaced = (weapon.mods ?? []).find((id) => getWeaponMod(id)?.slot === mod.slot);
+      const mods = [...(weapon.mods ?? []).filter((id) => id !== replaced), modItemId];
+      state.removeItem(modItemId, 1);
+      set((s) => ({
+        inventory: s.inventory.map((i) => (i.id === weaponInstanceId ? { ...i, mods } : i)),
+      }));
+      if (replaced) get().addItemById(replaced, 1);
+      const modName = dataAccess.getItem(modItemId)?.name ?? modItemId;
+      state.addNotification('info', `Fitted ${modName} to ${weapon.name}`);
+    },
+
     resetInventory: () => set({ ...DEFAULT_INVENTORY_STATE }),
   });
 };
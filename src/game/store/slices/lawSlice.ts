@@ -0,0 +1,230 @@
+/**
+ * Law Slice - Crimes and the bounties they carry
+ *
+ * Witnessed crimes put a bounty on the player in the town where they
+ * happened, cost reputation with the faction that keeps order there and
+ * fade day by day on the game clock. Lawmen settle a bounty for a fine,
+ * jail time (which passes on the clock) or, in some towns, a bribe.
+ *
+ * @module game/store/slices/lawSlice
+ */
+
+import type { StateCreator } from 'zustand';
+import {
+  addBounty,
+  clearWarrants,
+  CRIME_LABELS,
+  CRIME_REPUTATION,
+  decayBounties,
+  getBribeCost,
+  getCrimeBounty,
+  getJailHours,
+  getJurisdiction,
+  getLawResponse,
+  getWantedStatus,
+  HOSTILE_CRIMES,
+  markHostile,
+  type BountyLedger,
+  type Crime,
+  type Jurisdiction,
+  type LawLevel,
+  type LawResponse,
+  type SettleMethod,
+  type WantedStatus,
+} from '../../systems/law';
+import type {
+  GameClockState,
+  TimeEventCallback,
+  TimeEventType,
+} from '../../systems/time';
+import type { Notification, PlayerStats } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Law state data (serializable).
+ */
+export interface LawState {
+  /** Bounties on the player, keyed by town id */
+  bounties: BountyLedger;
+}
+
+/**
+ * Law actions.
+ */
+export interface LawActions {
+  /**
+   * Record a crime in the current town. Unwitnessed crimes and crimes in
+   * lawless towns go unpunished. Returns the bounty added.
+   */
+  reportCrime: (crime: Crime, witnessIds: string[]) => number;
+  /** The law in a town (defaults to the current location) */
+  getLawJurisdiction: (townId?: string) => Jurisdiction;
+  /** The player's bounty and standing with the law in a town */
+  getWantedStatus: (townId?: string) => WantedStatus;
+  /** Bounty lawmen in a town act on, shared company warrants included */
+  getBounty: (townId?: string) => number;
+  /** What lawmen in a town do on seeing the player */
+  getLawResponse: (townId?: string) => LawResponse;
+  /** Clear the current town's warrants; returns false if the law refuses */
+  settleBounty: (method: SettleMethod) => boolean;
+  /** Refuse arrest in the current town, so lawmen shoot on sight */
+  resistArrest: () => void;
+  /** Fade bounties up to the given day */
+  decayBounties: (day: number) => void;
+  /** Subscribe bounty decay to the game clock; returns an unsubscribe function */
+  watchBounties: () => () => void;
+  /** Reset law state */
+  resetLaw: () => void;
+}
+
+/**
+ * Dependencies from other slices.
+ */
+export interface LawSliceDeps {
+  currentLocationId: string | null;
+  loadedWorld: any | null;
+  clockState: GameClockState;
+  playerStats: PlayerStats;
+  addNotification: (type: Notification['type'], message: string) => void;
+  updatePlayerStats: (stats: Partial<PlayerStats>) => void;
+  changeReputation: (faction: string, delta: number) => unknown;
+  updateTime: (hours: number) => void;
+  onClockEvent: (event: TimeEventType, callback: TimeEventCallback) => () => void;
+}
+
+/**
+ * Complete law slice type.
+ */
+export type LawSlice = LawState & LawActions;
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/**
+ * Default law state.
+ */
+export const DEFAULT_LAW_STATE: LawState = {
+  bounties: {},
+};
+
+// ============================================================================
+// SLICE FACTORY
+// ============================================================================
+
+/**
+ * Creates the law Zustand slice.
+ */
+export const createLawSlice: StateCreator<LawSlice & LawSliceDeps, [], [], LawSlice> = (
+  set,
+  get
+) => {
+  /** Pay `cost` gold, or warn and refuse */
+  const pay = (cost: number, refusal: string): boolean => {
+    const { playerStats } = get();
+    if (playerStats.gold < cost) {
+      get().addNotification('warning', refusal);
+      return false;
+    }
+    get().updatePlayerStats({ gold: playerStats.gold - cost });
+    return true;
+  };
+
+  return {
+    // State
+    ...DEFAULT_LAW_STATE,
+
+    // Actions
+    reportCrime: (crime: Crime, witnessIds: string[]) => {
+      if (witnessIds.length === 0) return 0;
+
+      const state = get();
+      const jurisdiction = state.getLawJurisdiction();
+      const amount = getCrimeBounty(crime, jurisdiction.lawLevel);
+      if (amount <= 0) return 0;
+
+      set({
+        bounties: addBounty(
+          state.bounties,
+          jurisdiction,
+          amount,
+          state.clockState.day,
+          HOSTILE_CRIMES.includes(crime.type)
+        ),
+      });
+      state.changeReputation(jurisdiction.faction, CRIME_REPUTATION[crime.type]);
+      state.addNotification(
+        'warning',
+        `${CRIME_LABELS[crime.type]} witnessed: ${amount}g bounty in ${jurisdiction.townName}`
+      );
+      return amount;
+    },
+
+    getLawJurisdiction: (townId?: string) => {
+      const { currentLocationId, loadedWorld } = get();
+      const id = townId ?? currentLocationId ?? '';
+      const resolved = loadedWorld?.locations?.get?.(id);
+      const lawLevel: LawLevel = resolved?.location?.atmosphere?.lawLevel ?? 'frontier';
+      return getJurisdiction(id, lawLevel, resolved?.ref?.name ?? id);
+    },
+
+    getWantedStatus: (townId?: string) =>
+      getWantedStatus(get().bounties, get().getLawJurisdiction(townId)),
+
+    getBounty: (townId?: string) => get().getWantedStatus(townId).amount,
+
+    getLawResponse: (townId?: string) =>
+      getLawResponse(get().getWantedStatus(townId), get().getLawJurisdiction(townId).lawLevel),
+
+    settleBounty: (method: SettleMethod) => {
+      const state = get();
+      const jurisdiction = state.getLawJurisdiction();
+      const status = getWantedStatus(state.bounties, jurisdiction);
+      if (status.amount <= 0) return false;
+
+      switch (method) {
+        case 'fine':
+          if (!pay(status.amount, "You can't cover the fine.")) return false;
+          state.addNotification('info', `Paid a ${status.amount}g fine`);
+          break;
+        case 'jail': {
+          const hours = getJailHours(status.amount);
+          state.updateTime(hours);
+          state.addNotification('info', `Served ${hours} hours in the ${jurisdiction.townName} jail`);
+          break;
+        }
+        case 'bribe': {
+          const cost = getBribeCost(status.amount, jurisdiction.lawLevel);
+          if (cost === null || status.hostile) {
+            state.addNotification('warning', 'The law here will not be bought.');
+            return false;
+          }
+          if (!pay(cost, "You can't cover the bribe.")) return false;
+          state.addNotification('info', `Paid ${cost}g to make the law look away`);
+          break;
+        }
+      }
+
+      set({ bounties: clearWarrants(get().bounties, jurisdiction) });
+      return true;
+    },
+
+    resistArrest: () => {
+      const state = get();
+      const jurisdiction = state.getLawJurisdiction();
+      if (state.getBounty() <= 0) return;
+      set({ bounties: markHostile(state.bounties, jurisdiction, state.clockState.day) });
+      state.addNotification('warning', `The ${jurisdiction.townName} law is coming for you`);
+    },
+
+    decayBounties: (day: number) => set({ bounties: decayBounties(get().bounties, day) }),
+
+    watchBounties: () =>
+      get().onClockEvent('dayChanged', (event) => get().decayBounties(event.day)),
+
+    resetLaw: () => set({ ...DEFAULT_LAW_STATE }),
+  };
+};
@@ -8,8 +8,12 @@
  */
 
 import type { StateCreator } from 'zustand';
+import { getPerk, getPerkBlocker, getPerkModifier, type PerkEffectType } from '../../data/perks';
+import { applySkillXP, getSkillCap, SKILL_ATTRIBUTES } from '../../systems/skills';
 import type {
   CharacterAppearance,
+  PlayerAttributes,
+  PlayerSkills,
   PlayerStats,
   WorldPosition,
   Notification,
@@ -53,6 +57,18 @@ export interface PlayerActions {
   updatePlayerStats: (stats: Partial<PlayerStats>) => void;
   /** Gain experience points */
   gainXP: (amount: number) => void;
+  /** Gain practice XP in a skill, up to the cap set by its governing attribute */
+  gainSkillXP: (skill: keyof PlayerSkills, amount: number) => void;
+  /** Spend a level-up skill point on a skill */
+  spendSkillPoint: (skill: keyof PlayerSkills) => void;
+  /** Spend a level-up attribute point on an attribute */
+  spendAttributePoint: (attribute: keyof PlayerAttributes) => void;
+  /** Why a perk can't be taken, or null if it can */
+  getPerkBlocker: (perkId: string) => string | null;
+  /** Spend a perk point on a perk */
+  unlockPerk: (perkId: string) => void;
+  /** Combined multiplier from taken perks for one effect (1 = no change) */
+  getPerkModifier: (effect: PerkEffectType) => number;
   /** Take damage (reduces health) */
   takeDamage: (amount: number) => void;
   /** Heal (increases health up to max) */
@@ -95,7 +111,6 @@ export const DEFAULT_PLAYER_STATS: PlayerStats = {
   level: 1,
   gold: 50,
   ivrcScript: 0,
-  reputation: 0,
   attributes: {
     grit: 5,
     perception: 5,
@@ -115,8 +130,25 @@ export const DEFAULT_PLAYER_STATS: PlayerStats = {
     survival: 25,
     barter: 20,
   },
+  skillXP: {},
+  skillPoints: 0,
+  attributePoints: 0,
+  perkPoints: 0,
+  perks: [],
 };
 
+/** Attributes cap out at 10. */
+export const MAX_ATTRIBUTE_LEVEL = 10;
+
+/** Skill points awarded on every level up. */
+export const SKILL_POINTS_PER_LEVEL = 5;
+
+/** Perk points awarded on every level up. */
+export const PERK_POINTS_PER_LEVEL = 1;
+
+/** An attribute point is awarded every this many levels. */
+export const ATTRIBUTE_POINT_INTERVAL = 2;
+
 /**
  * Default world position.
  */
@@ -205,16 +237,104 @@ export const createPlayerSlice: StateCreator<
       state.addNotification('xp', `Gained ${amount} XP`);
     }
 
+    const levelsGained = newLevel - level;
     set((s) => ({
       playerStats: {
         ...s.playerStats,
         xp: newXp,
         level: newLevel,
         xpToNext: newXpToNext,
+        // Saves from before levelling rewards existed have no point counters
+        skillPoints: (s.playerStats.skillPoints ?? 0) + levelsGained * SKILL_POINTS_PER_LEVEL,
+        perkPoints: (s.playerStats.perkPoints ?? 0) + levelsGained * PERK_POINTS_PER_LEVEL,
+        attributePoints:
+          (s.playerStats.attributePoints ?? 0) +
+          (levelsGained > 0 && newLevel % ATTRIBUTE_POINT_INTERVAL === 0 ? 1 : 0),
       },
     }));
   },
 
+  gainSkillXP: (skill: keyof PlayerSkills, amount: number) => {
+    if (amount <= 0) return;
+    // Saves from before skill XP existed have no skillXP record
+    const { skills, attributes, skillXP = {} } = get().playerStats;
+    const cap = getSkillCap(skill, attributes);
+    if (skills[skill] >= cap) return;
+
+    const { level, progress, gained } = applySkillXP(
+      skills[skill],
+      skillXP[skill] ?? 0,
+      amount,
+      cap
+    );
+
+    set((s) => ({
+      playerStats: {
+        ...s.playerStats,
+        skills: { ...s.playerStats.skills, [skill]: level },
+        skillXP: { ...skillXP, [skill]: progress },
+      },
+    }));
+
+    if (gained > 0) {
+      const label = skill.charAt(0).toUpperCase() + skill.slice(1);
+      const capped = level >= cap ? ` (your ${SKILL_ATTRIBUTES[skill]} limits it here)` : '';
+      get().addNotification('level', `${label} increased to ${level}${capped}`);
+    }
+  },
+
+  spendSkillPoint: (skill: keyof PlayerSkills) => {
+    const { skills, attributes, skillPoints = 0 } = get().playerStats;
+    if (skillPoints < 1 || skills[skill] >= getSkillCap(skill, attributes)) return;
+    set((s) => ({
+      playerStats: {
+        ...s.playerStats,
+        skills: { ...s.playerStats.skills, [skill]: skills[skill] + 1 },
+        skillPoints: skillPoints - 1,
+      },
+    }));
+  },
+
+  spendAttributePoint: (attribute: keyof PlayerAttributes) => {
+    const { attributes, attributePoints = 0 } = get().playerStats;
+    if (attributePoints < 1 || attributes[attribute] >= MAX_ATTRIBUTE_LEVEL) return;
+    set((s) => ({
+      playerStats: {
+        ...s.playerStats,
+        attributes: { ...s.playerStats.attributes, [attribute]: attributes[attribute] + 1 },
+        attributePoints: attributePoints - 1,
+      },
+    }));
+  },
+
+  getPerkBlocker: (perkId: string) => {
+    const perk = getPerk(perkId);
+    if (!perk) return 'Unknown perk.';
+    const { level, skills, perks = [], perkPoints = 0 } = get().playerStats;
+    return getPerkBlocker(perk, { level, skills, perks, perkPoints });
+  },
+
+  unlockPerk: (perkId: string) => {
+    const state = get();
+    const perk = getPerk(perkId);
+    const blocker = state.getPerkBlocker(perkId);
+    if (!perk || blocker) {
+      state.addNotification('warning', blocker ?? 'Unknown perk.');
+      return;
+    }
+    set((s) => ({
+      playerStats: {
+        ...s.playerStats,
+        perks: [...(s.playerStats.perks ?? []), perkId],
+        perkPoints: (s.playerStats.perkPoints ?? 0) - 1,
+      },
+    }));
+    state.addNotification('level', `Perk gained: ${perk.name}`);
+  },
+
+  getPerkModifier: (effect: PerkEffectType) =>
+    getPerkModifier(get().playerStats.perks ?? [], effect),
+
   takeDamage: (amount: number) => {
     set((state) => {
       const currentHealth = state.playerStats.health;
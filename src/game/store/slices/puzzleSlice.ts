@@ -11,7 +11,9 @@ import type { StateCreator } from 'zustand';
 import { PipeLogic, PuzzleGenerator } from '../../puzzles/pipe-fitter';
 import type { Direction, LockLevel, PipeCell, PipePuzzleState, PuzzleContext } from '../../puzzles/pipe-fitter/types';
 import { LOCK_DIFFICULTY } from '../../puzzles/pipe-fitter/types';
-import type { GamePhase, Notification } from '../types';
+import { crimeBus } from '../../systems/law';
+import { SKILL_PRACTICE_XP } from '../../systems/skills';
+import type { GamePhase, Notification, PlayerSkills, WorldPosition } from '../types';
 
 // ============================================================================
 // TYPES
@@ -61,10 +63,12 @@ export interface PuzzleSliceDeps {
   setPhase: (phase: GamePhase) => void;
   addNotification: (type: Notification['type'], message: string) => void;
   gainXP: (amount: number) => void;
+  gainSkillXP: (skill: keyof PlayerSkills, amount: number) => void;
   addGold: (amount: number) => void;
   getItemCount: (itemId: string) => number;
   removeItem: (itemId: string, quantity?: number) => void;
   addItemById: (itemId: string, quantity?: number) => void;
+  playerPosition: WorldPosition;
 }
 
 /**
@@ -203,8 +207,11 @@ export const createPuzzleSlice: StateCreator<
 
       if (puzzle?.context) {
         state.addNotification('info', `Lock opened! Gained ${xpReward} XP.`);
+        state.gainSkillXP('lockpick', SKILL_PRACTICE_XP.pickLock * lockLevel);
+        crimeBus.emit({ type: 'theft', position: { ...state.playerPosition }, value: goldReward });
       } else {
         state.addNotification('info', 'Systems restored!');
+        state.gainSkillXP('repair', SKILL_PRACTICE_XP.restoreSystems);
       }
       state.gainXP(xpReward);
       state.addGold(goldReward);
@@ -245,6 +252,7 @@ export const createPuzzleSlice: StateCreator<
       `Forced the lock open! Used ${diff.forceLockCost} lockpicks.`,
     );
     state.gainXP(xpReward);
+    crimeBus.emit({ type: 'theft', position: { ...state.playerPosition } });
 
     // Close after a brief moment (caller should handle)
     set({ activePuzzle: null });
@@ -0,0 +1,68 @@
+/**
+ * Quest Helpers - Time limit bookkeeping
+ *
+ * Pure functions for counting timed quests down against the game clock.
+ *
+ * @module game/store/slices/questHelpers
+ */
+
+import type { TimeEventPayload } from '../../systems/time';
+
+/** Fractions of the time limit left at which the player is warned. */
+export const QUEST_TIME_WARNING_FRACTIONS = [0.5, 0.25, 0.1];
+
+/**
+ * Result of counting a quest timer down.
+ */
+export interface QuestTimerTick {
+  /** Hours left after the tick (never negative) */
+  remaining: number;
+  /** Warning fraction crossed by this tick, if any */
+  warning: number | null;
+  /** Whether the timer ran out */
+  expired: boolean;
+}
+
+/**
+ * Total game minutes for a clock event, matching GameClockState.totalMinutes.
+ */
+export function getClockMinutes(event: Pick<TimeEventPayload, 'day' | 'hour' | 'minute'>): number {
+  return (event.day - 1) * 24 * 60 + event.hour * 60 + event.minute;
+}
+
+/**
+ * Count a quest timer down by elapsed hours. A long skip (e.g. resting)
+ * reports only the most urgent warning crossed.
+ */
+export function tickQuestTimer(
+  remainingHours: number,
+  elapsedHours: number,
+  limitHours: number
+): QuestTimerTick {
+  const remaining = Math.max(0, remainingHours - elapsedHours);
+  if (remaining <= 0) return { remaining: 0, warning: null, expired: true };
+
+  const crossed = QUEST_TIME_WARNING_FRACTIONS.filter(
+    (fraction) =>
+      remainingHours > limitHours * fraction && remaining <= limitHours * fraction
+  );
+  return {
+    remaining,
+    warning: crossed.length > 0 ? Math.min(...crossed) : null,
+    expired: false,
+  };
+}
+
+/**
+ * Human-readable time left, e.g. "2 days 4 hours".
+ */
+export function formatHoursRemaining(hours: number): string {
+  if (hours < 1) return 'less than an hour';
+  const whole = Math.floor(hours);
+  const days = Math.floor(whole / 24);
+  const rest = whole % 24;
+  const parts: string[] = [];
+  if (days > 0) parts.push(`${days} day${days !== 1 ? 's' : ''}`);
+  if (rest > 0) parts.push(`${rest} hour${rest !== 1 ? 's' : ''}`);
+  return parts.join(' ');
+}
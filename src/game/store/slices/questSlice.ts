@@ -2,14 +2,24 @@
  * Quest Slice - Quest state and actions
  *
  * Manages active, completed, and failed quests along with
- * objective tracking and quest rewards.
+ * objective tracking, quest rewards, and time limits counted
+ * down against the game clock.
  *
  * @module game/store/slices/questSlice
  */
 
 import type { StateCreator } from 'zustand';
-import type { ActiveQuest, Quest } from '../../data';
+import type { ActiveQuest, Quest, QuestStageRewards } from '../../data';
+import { getNextStageIndex, getSatisfiedExit } from '../../data/schemas/quest';
+import type { ReputationChange } from '../../systems/reputation';
+import type {
+  GameClockState,
+  TimeEventCallback,
+  TimeEventPayload,
+  TimeEventType,
+} from '../../systems/time';
 import type { Notification } from '../types';
+import { formatHoursRemaining, getClockMinutes, tickQuestTimer } from './questHelpers';
 
 // ============================================================================
 // TYPES
@@ -34,6 +44,12 @@ export interface QuestState {
   completedQuests: Quest[];
   /** IDs of completed quests (for quick lookup) */
   completedQuestIds: string[];
+  /** Branches taken in completed quests (questId -> stageId -> exitId) */
+  completedQuestBranches: Record<string, Record<string, string>>;
+  /** IDs of failed quests */
+  failedQuestIds: string[];
+  /** Clock minutes when quest timers were last counted down */
+  questTimerClock: number | null;
 }
 
 /**
@@ -44,12 +60,24 @@ export interface QuestActions {
   startQuest: (questId: string) => void;
   /** Update progress on a specific objective */
   updateObjective: (questId: string, objectiveId: string, progress: number) => void;
-  /** Advance to the next stage of a quest */
-  advanceQuestStage: (questId: string) => void;
+  /**
+   * Advance past the current stage. Branching stages follow `exitId` when
+   * given, otherwise the exit whose objectives are complete.
+   */
+  advanceQuestStage: (questId: string, exitId?: string) => void;
+  /** Take any active stage exit keyed on this dialogue flag */
+  raiseQuestFlag: (flag: string) => void;
   /** Complete a quest */
   completeQuest: (questId: string) => void;
-  /** Fail a quest */
-  failQuest: (questId: string) => void;
+  /**
+   * Fail a quest. With a fail stage the quest stays in the log on that
+   * stage (marked failed) until its objectives wrap it up.
+   */
+  failQuest: (questId: string, failStageId?: string) => void;
+  /** Count timed quests down to the given clock time, warning and failing as needed */
+  updateQuestTimers: (clockMinutes: number) => void;
+  /** Subscribe quest timers to the game clock; returns an unsubscribe function */
+  watchQuestTimers: () => () => void;
   /** Abandon a quest */
   abandonQuest: (questId: string) => void;
   /** Get an active quest by ID */
@@ -72,6 +100,11 @@ export interface QuestSliceDeps {
   gainXP: (amount: number) => void;
   addGold: (amount: number) => void;
   addItemById: (itemId: string, quantity?: number) => void;
+  changeReputation: (faction: string, delta: number) => ReputationChange[];
+  clockState: GameClockState;
+  onClockEvent: (event: TimeEventType, callback: TimeEventCallback) => () => void;
+  /** Quests generated at runtime (bounty contracts) that the library doesn't hold */
+  getGeneratedQuest?: (questId: string) => Quest | undefined;
 }
 
 /**
@@ -90,6 +123,9 @@ export const DEFAULT_QUEST_STATE: QuestState = {
   activeQuests: [],
   completedQuests: [],
   completedQuestIds: [],
+  completedQuestBranches: {},
+  failedQuestIds: [],
+  questTimerClock: null,
 };
 
 // ============================================================================
@@ -104,21 +140,44 @@ export const DEFAULT_QUEST_STATE: QuestState = {
 export const createQuestSlice = (
   dataAccess: QuestDataAccess
 ): StateCreator<QuestSlice & QuestSliceDeps, [], [], QuestSlice> => {
+  /** Quest library first, then quests generated during play */
+  const getQuest = (state: QuestSlice & QuestSliceDeps, questId: string): Quest | undefined =>
+    dataAccess.getQuestById(questId) ?? state.getGeneratedQuest?.(questId);
+
+  const grantStageRewards = (state: QuestSlice & QuestSliceDeps, rewards?: QuestStageRewards) => {
+    if (!rewards) return;
+    if (rewards.xp) state.gainXP(rewards.xp);
+    if (rewards.gold) state.addGold(rewards.gold);
+    for (const item of rewards.items ?? []) {
+      state.addItemById(item.itemId, item.quantity);
+    }
+    for (const [faction, delta] of Object.entries(rewards.reputation ?? {})) {
+      state.changeReputation(faction, delta);
+    }
+  };
+
   return (set, get) => ({
     // State
     ...DEFAULT_QUEST_STATE,
 
     // Actions
     startQuest: (questId: string) => {
-      const def = dataAccess.getQuestById(questId);
+      const def = getQuest(get(), questId);
       if (!def) return;
 
       // Check if already active or completed
       const state = get();
       if (state.activeQuests.some((q) => q.questId === questId)) return;
       if (state.completedQuestIds.includes(questId)) return;
+      if (state.failedQuestIds.includes(questId) && !def.repeatable) return;
+
+      // Bring running timers up to now so the new one starts from here
+      state.updateQuestTimers(state.clockState.totalMinutes);
 
-      const active = dataAccess.createActiveQuest(questId);
+      const active = {
+        ...dataAccess.createActiveQuest(questId),
+        timeRemainingHours: def.timeLimitHours,
+      };
       set((s) => ({
         activeQuests: [...s.activeQuests, active],
       }));
@@ -127,7 +186,7 @@ export const createQuestSlice = (
 
     updateObjective: (questId: string, objectiveId: string, progress: number) => {
       const state = get();
-      const questDef = dataAccess.getQuestById(questId);
+      const questDef = getQuest(state, questId);
       const activeQuest = state.activeQuests.find((q) => q.questId === questId);
       if (!questDef || !activeQuest) return;
 
@@ -161,38 +220,53 @@ export const createQuestSlice = (
       }
     },
 
-    advanceQuestStage: (questId: string) => {
+    advanceQuestStage: (questId: string, exitId?: string) => {
       const state = get();
-      const questDef = dataAccess.getQuestById(questId);
+      const questDef = getQuest(state, questId);
       const activeQuest = state.activeQuests.find((q) => q.questId === questId);
       if (!questDef || !activeQuest) return;
 
       const currentStage = questDef.stages[activeQuest.currentStageIndex];
       if (!currentStage) return;
 
-      // Stage rewards
-      if (currentStage.stageRewards?.xp) state.gainXP(currentStage.stageRewards.xp);
-      if (currentStage.stageRewards?.gold) state.addGold(currentStage.stageRewards.gold);
-      if (currentStage.stageRewards?.items?.length) {
-        currentStage.stageRewards.items.forEach(
-          (item: { itemId: string; quantity: number }) =>
-            state.addItemById(item.itemId, item.quantity)
-        );
-      }
+      // Branching stages can only be left through one of their exits
+      const exit = exitId
+        ? (currentStage.exits?.find((e) => e.id === exitId) ?? null)
+        : getSatisfiedExit(currentStage, activeQuest.objectiveProgress);
+      if (currentStage.exits?.length && !exit) return;
+
+      // Stage rewards, then the chosen branch's
+      grantStageRewards(state, currentStage.stageRewards);
+      grantStageRewards(state, exit?.rewards);
 
       if (currentStage.onCompleteText) {
         state.addNotification('quest', currentStage.onCompleteText);
       } else {
         state.addNotification('quest', `Stage complete: ${currentStage.title}`);
       }
+      if (exit?.description) {
+        state.addNotification('quest', exit.description);
+      }
 
-      const isLastStage = activeQuest.currentStageIndex >= questDef.stages.length - 1;
-      if (isLastStage) {
+      const branches = exit
+        ? { ...activeQuest.branches, [currentStage.id]: exit.id }
+        : activeQuest.branches;
+      set((s) => ({
+        activeQuests: s.activeQuests.map((q) =>
+          q.questId === questId ? { ...q, branches } : q
+        ),
+      }));
+
+      // A failed quest ends once its fail stage is wrapped up
+      const nextStageIndex =
+        activeQuest.status === 'failed'
+          ? null
+          : getNextStageIndex(questDef, activeQuest.currentStageIndex, exit);
+      if (nextStageIndex === null) {
         get().completeQuest(questId);
         return;
       }
 
-      const nextStageIndex = activeQuest.currentStageIndex + 1;
       const nextStage = questDef.stages[nextStageIndex];
 
       set((s) => ({
@@ -212,36 +286,124 @@ export const createQuestSlice = (
       }
     },
 
+    raiseQuestFlag: (flag: string) => {
+      for (const activeQuest of get().activeQuests) {
+        const questDef = getQuest(get(), activeQuest.questId);
+        const stage = questDef?.stages[activeQuest.currentStageIndex];
+        const exit = stage?.exits?.find((e) => e.flag === flag);
+        if (exit) get().advanceQuestStage(activeQuest.questId, exit.id);
+      }
+    },
+
     completeQuest: (questId: string) => {
       const state = get();
       const quest = state.activeQuests.find((q) => q.questId === questId);
       if (!quest) return;
 
-      const def = dataAccess.getQuestById(questId);
+      const def = getQuest(state, questId);
       if (!def) return;
 
+      if (quest.status === 'failed') {
+        set((s) => ({
+          activeQuests: s.activeQuests.filter((q) => q.questId !== questId),
+          failedQuestIds: [...s.failedQuestIds, questId],
+        }));
+        state.addNotification('quest', `Failed: ${def.title}`);
+        return;
+      }
+
       set((s) => ({
         activeQuests: s.activeQuests.filter((q) => q.questId !== questId),
         completedQuests: [...s.completedQuests, def],
         completedQuestIds: [...s.completedQuestIds, questId],
+        completedQuestBranches: {
+          ...s.completedQuestBranches,
+          [questId]: quest.branches ?? {},
+        },
       }));
 
       // Give rewards
-      if (def.rewards?.xp) state.gainXP(def.rewards.xp);
-      if (def.rewards?.gold) state.addGold(def.rewards.gold);
-      if (def.rewards?.items?.length) {
-        def.rewards.items.forEach((item: { itemId: string; quantity: number }) =>
-          state.addItemById(item.itemId, item.quantity)
-        );
-      }
+      grantStageRewards(state, def.rewards);
 
       state.addNotification('quest', `Completed: ${def.title}`);
     },
 
-    failQuest: (questId: string) => {
+    failQuest: (questId: string, failStageId?: string) => {
+      const state = get();
+      if (!state.activeQuests.some((q) => q.questId === questId)) return;
+
+      const def = getQuest(state, questId);
+      const failStageIndex =
+        def && failStageId ? def.stages.findIndex((stage) => stage.id === failStageId) : -1;
+
+      if (def && failStageIndex >= 0) {
+        set((s) => ({
+          activeQuests: s.activeQuests.map((q) =>
+            q.questId === questId
+              ? {
+                  ...q,
+                  status: 'failed' as const,
+                  currentStageIndex: failStageIndex,
+                  objectiveProgress: {},
+                  timeRemainingHours: null,
+                }
+              : q
+          ),
+        }));
+        const failStage = def.stages[failStageIndex];
+        state.addNotification('quest', failStage.onStartText ?? `Failed: ${def.title}`);
+        return;
+      }
+
       set((s) => ({
         activeQuests: s.activeQuests.filter((q) => q.questId !== questId),
+        failedQuestIds: [...s.failedQuestIds, questId],
       }));
+      if (def) state.addNotification('quest', `Failed: ${def.title}`);
+    },
+
+    updateQuestTimers: (clockMinutes: number) => {
+      const previous = get().questTimerClock;
+      set({ questTimerClock: clockMinutes });
+      // First reading, or the clock was rewound (e.g. a save was loaded)
+      if (previous === null || clockMinutes <= previous) return;
+
+      const elapsedHours = (clockMinutes - previous) / 60;
+      for (const activeQuest of get().activeQuests) {
+        if (activeQuest.status !== 'active' || activeQuest.timeRemainingHours === null) continue;
+        const def = getQuest(get(), activeQuest.questId);
+        if (!def?.timeLimitHours) continue;
+
+        const tick = tickQuestTimer(activeQuest.timeRemainingHours, elapsedHours, def.timeLimitHours);
+        set((s) => ({
+          activeQuests: s.activeQuests.map((q) =>
+            q.questId === activeQuest.questId ? { ...q, timeRemainingHours: tick.remaining } : q
+          ),
+        }));
+
+        if (tick.expired) {
+          get().addNotification('warning', `Out of time: ${def.title}`);
+          get().failQuest(activeQuest.questId, def.failStageId);
+        } else if (tick.warning !== null) {
+          get().addNotification(
+            'warning',
+            `${def.title}: ${formatHoursRemaining(tick.remaining)} left`
+          );
+        }
+      }
+    },
+
+    watchQuestTimers: () => {
+      // hourChanged fires once per advance, however long; dayChanged covers
+      // whole-day skips that land on the same hour
+      const onClock = (event: TimeEventPayload) =>
+        get().updateQuestTimers(getClockMinutes(event));
+      const offHour = get().onClockEvent('hourChanged', onClock);
+      const offDay = get().onClockEvent('dayChanged', onClock);
+      return () => {
+        offHour();
+        offDay();
+      };
     },
 
     abandonQuest: (questId: string) => {
@@ -253,7 +415,7 @@ export const createQuestSlice = (
     getActiveQuest: (questId: string) =>
       get().activeQuests.find((q) => q.questId === questId),
 
-    getQuestDefinition: (questId: string) => dataAccess.getQuestById(questId),
+    getQuestDefinition: (questId: string) => getQuest(get(), questId),
 
     isQuestCompleted: (questId: string) => get().completedQuestIds.includes(questId),
 
@@ -0,0 +1,268 @@
+/**
+ * Railroad Slice - Train tickets and the depots that sell them
+ *
+ * Stations are the locations on a railroad connection. The station master or
+ * telegraph operator sells tickets for the trains on the station's timetable,
+ * priced by the player's standing with the IVRC, and only to stations the
+ * player has already been to. A ticket holder can wait (or sleep) at the
+ * depot until their train leaves and board it while it's at the platform;
+ * a ticket for a train that's gone is lost.
+ *
+ * @module game/store/slices/railroadSlice
+ */
+
+import type { StateCreator } from 'zustand';
+import type { Connection } from '../../data/schemas/world';
+import { FrontierTerritory } from '../../data/worlds/frontier_territory';
+import { rngTick, scopedRNG } from '../../lib/prng';
+import {
+  formatDepartureTime,
+  getFare,
+  getTicketStatus,
+  getTimetable,
+  isStation,
+  pickTrainEncounter,
+  sellsTickets,
+  type RailTicket,
+  type TrainDeparture,
+} from '../../systems/railroad';
+import type { GameClockState } from '../../systems/time';
+import type { Journey, Notification, PanelType, PlayerStats } from '../types';
+import { getClockMinutes } from './questHelpers';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Data the railroad slice reads from the platform.
+ */
+export interface RailroadDataAccess {
+  getConnectionsFrom: (world: any, locationId: string) => Connection[];
+}
+
+/**
+ * Railroad state data (serializable).
+ */
+export interface RailroadState {
+  /** Tickets the player holds for trains that haven't left yet */
+  railTickets: RailTicket[];
+  /** Station whose depot the player has open */
+  depotStationId: string | null;
+}
+
+/**
+ * Railroad actions.
+ */
+export interface RailroadActions {
+  /** Open the depot at a station (defaults to the current location) */
+  openDepot: (stationId?: string) => void;
+  /** Whether trains stop at a location (defaults to the current location) */
+  isRailStation: (locationId?: string) => boolean;
+  /** Upcoming trains out of a station (defaults to the open depot) */
+  getTrainTimetable: (stationId?: string) => TrainDeparture[];
+  /** What the IVRC charges the player for a seat on a departure */
+  getTicketPrice: (departure: TrainDeparture) => number;
+  /** Buy a ticket; returns false if the depot won't sell it or the player can't pay */
+  buyTicket: (departure: TrainDeparture) => boolean;
+  /** Pass the time at the depot until a ticket's train leaves, then board it */
+  waitForTrain: (ticketId: string, sleep?: boolean) => void;
+  /** Board a ticket's train if it's at the platform */
+  boardTrain: (ticketId: string) => boolean;
+  /** Reset railroad state */
+  resetRailroad: () => void;
+}
+
+/**
+ * Dependencies from other slices.
+ */
+export interface RailroadSliceDeps {
+  currentLocationId: string | null;
+  visitedLocationIds: string[];
+  loadedWorld: any | null;
+  clockState: GameClockState;
+  playerStats: PlayerStats;
+  getReputation: (factionId: string) => number;
+  updatePlayerStats: (stats: Partial<PlayerStats>) => void;
+  advanceTime: (hours: number) => void;
+  restAtInn: (hours: number) => unknown;
+  startJourney: (journey: Journey) => void;
+  openPanel: (panel: PanelType) => void;
+  closePanel: () => void;
+  addNotification: (type: Notification['type'], message: string) => void;
+}
+
+/**
+ * Complete railroad slice type.
+ */
+export type RailroadSlice = RailroadState & RailroadActions;
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/**
+ * Default railroad state.
+ */
+export const DEFAULT_RAILROAD_STATE: RailroadState = {
+  railTickets: [],
+  depotStationId: null,
+};
+
+const locationName = (locationId: string): string =>
+  FrontierTerritory.locations.find((l) => l.id === locationId)?.name ?? locationId;
+
+const isSameDeparture = (a: TrainDeparture, b: TrainDeparture): boolean =>
+  a.lineId === b.lineId && a.fromId === b.fromId && a.toId === b.toId && a.departsAt === b.departsAt;
+
+// ============================================================================
+// SLICE FACTORY
+// ============================================================================
+
+/**
+ * Creates the railroad Zustand slice.
+ */
+export const createRailroadSlice = (
+  dataAccess: RailroadDataAccess
+): StateCreator<RailroadSlice & RailroadSliceDeps, [], [], RailroadSlice> => {
+  return (set, get) => {
+    const connectionsFrom = (locationId: string): Connection[] => {
+      const { loadedWorld } = get();
+      if (!loadedWorld) return [];
+      return dataAccess.getConnectionsFrom(loadedWorld.world ?? loadedWorld, locationId);
+    };
+
+    const now = () => getClockMinutes(get().clockState);
+
+    const removeTicket = (ticketId: string) =>
+      set({ railTickets: get().railTickets.filter((t) => t.id !== ticketId) });
+
+    return {
+      // State
+      ...DEFAULT_RAILROAD_STATE,
+
+      // Actions
+      openDepot: (stationId?: string) => {
+        const state = get();
+        const id = stationId ?? state.currentLocationId;
+        if (!id || !state.isRailStation(id)) {
+          state.addNotification('warning', 'No trains stop here.');
+          return;
+        }
+
+        const lost = state.railTickets.filter((t) => getTicketStatus(t, now()) === 'missed');
+        if (lost.length > 0) {
+          set({ railTickets: state.railTickets.filter((t) => !lost.includes(t)) });
+          state.addNotification('warning', `Your train to ${locationName(lost[0].toId)} left without you.`);
+        }
+
+        set({ depotStationId: id });
+        get().openPanel('depot');
+      },
+
+      isRailStation: (locationId?: string) => {
+        const id = locationId ?? get().currentLocationId;
+        return id ? isStation(connectionsFrom(id), id) : false;
+      },
+
+      getTrainTimetable: (stationId?: string) => {
+        const id = stationId ?? get().depotStationId;
+        return id ? getTimetable(connectionsFrom(id), id, now()) : [];
+      },
+
+      getTicketPrice: (departure: TrainDeparture) => getFare(departure, get().getReputation('ivrc')),
+
+      buyTicket: (departure: TrainDeparture) => {
+        const state = get();
+        if (!state.visitedLocationIds.includes(departure.toId)) {
+          state.addNotification('warning', "The depot only sells tickets to stations you've visited.");
+          return false;
+        }
+        if (!sellsTickets(state.getReputation('ivrc'))) {
+          state.addNotification('warning', "The IVRC won't sell you a ticket.");
+          return false;
+        }
+        if (state.railTickets.some((t) => isSameDeparture(t, departure))) {
+          state.addNotification('warning', 'You already have a ticket for that train.');
+          return false;
+        }
+        if (getTicketStatus(departure, now()) === 'missed') return false;
+
+        const price = state.getTicketPrice(departure);
+        if (state.playerStats.gold < price) {
+          state.addNotification('warning', `A ticket to ${locationName(departure.toId)} costs ${price}g.`);
+          return false;
+        }
+        state.updatePlayerStats({ gold: state.playerStats.gold - price });
+
+        const ticket: RailTicket = {
+          ...departure,
+          id: `ticket_${departure.lineId}_${departure.fromId}_${departure.toId}_${departure.departsAt}`,
+          price,
+        };
+        set({ railTickets: [...get().railTickets, ticket] });
+        state.addNotification(
+          'item',
+          `Bought a ticket to ${locationName(departure.toId)} on the ${formatDepartureTime(departure.departsAt)} train for ${price}g`
+        );
+        return true;
+      },
+
+      waitForTrain: (ticketId: string, sleep = false) => {
+        const state = get();
+        const ticket = state.railTickets.find((t) => t.id === ticketId);
+        if (!ticket || ticket.fromId !== state.currentLocationId) return;
+
+        const hours = (ticket.departsAt - now()) / 60;
+        if (hours > 0) {
+          if (sleep) state.restAtInn(hours);
+          else state.advanceTime(hours);
+        }
+        get().boardTrain(ticketId);
+      },
+
+      boardTrain: (ticketId: string) => {
+        const state = get();
+        const ticket = state.railTickets.find((t) => t.id === ticketId);
+        if (!ticket) return false;
+        if (ticket.fromId !== state.currentLocationId) {
+          state.addNotification('warning', `That train leaves from ${locationName(ticket.fromId)}.`);
+          return false;
+        }
+
+        const status = getTicketStatus(ticket, now());
+        if (status === 'waiting') {
+          state.addNotification(
+            'warning',
+            `The train to ${locationName(ticket.toId)} leaves at ${formatDepartureTime(ticket.departsAt)}.`
+          );
+          return false;
+        }
+        removeTicket(ticketId);
+        if (status === 'missed') {
+          state.addNotification('warning', `Your train to ${locationName(ticket.toId)} left without you.`);
+          return false;
+        }
+
+        state.closePanel();
+        state.addNotification('info', `All aboard for ${locationName(ticket.toId)}!`);
+        state.startJourney({
+          toLocationId: ticket.toId,
+          method: 'railroad',
+          travelTime: ticket.rideHours,
+          dangerLevel: ticket.danger,
+          encounterId: pickTrainEncounter(
+            ticket.lineId,
+            scopedRNG('railroad', 42, rngTick()),
+            scopedRNG('railroad', 42, rngTick())
+          ),
+        });
+        return true;
+      },
+
+      resetRailroad: () => {
+        set({ ...DEFAULT_RAILROAD_STATE });
+      },
+    };
+  };
+};
@@ -0,0 +1,133 @@
+/**
+ * Reputation Slice - Per-faction reputation ledger
+ *
+ * Tracks the player's standing with each faction (IVRC, Copperhead,
+ * Freeminers, Remnant, townsfolk). Changes ripple onto rival factions
+ * according to REPUTATION_RIPPLES, and crossing a standing tier
+ * (hostile -> revered) raises a notification.
+ *
+ * @module game/store/slices/reputationSlice
+ */
+
+import type { StateCreator } from 'zustand';
+import {
+  applyReputationChange,
+  DEFAULT_FACTION_REPUTATION,
+  FACTION_DISPLAY_NAMES,
+  type FactionReputation,
+  getFactionReputation,
+  getStandingTierDef,
+  type ReputationChange,
+  resolveReputationFaction,
+  type StandingTier,
+} from '../../systems/reputation';
+import type { Notification } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Reputation state data (serializable).
+ */
+export interface ReputationState {
+  /** Standing with each faction, -100..100 */
+  factionReputation: FactionReputation;
+}
+
+/**
+ * Reputation actions.
+ */
+export interface ReputationActions {
+  /**
+   * Change reputation with a faction. Accepts ledger ids and data aliases
+   * (e.g. 'freeminers', 'neutral'); unknown factions are ignored.
+   * Returns every change applied, including ripples.
+   */
+  changeReputation: (faction: string, delta: number) => ReputationChange[];
+  /** Current reputation with a faction (0 for unknown factions) */
+  getReputation: (faction: string) => number;
+  /** Current standing tier with a faction */
+  getStanding: (faction: string) => StandingTier;
+  /** Reset the ledger to neutral */
+  resetReputation: () => void;
+}
+
+/**
+ * Dependencies from other slices.
+ */
+export interface ReputationSliceDeps {
+  addNotification: (type: Notification['type'], message: string) => void;
+}
+
+/**
+ * Complete reputation slice type.
+ */
+export type ReputationSlice = ReputationState & ReputationActions;
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/**
+ * Default reputation state.
+ */
+export const DEFAULT_REPUTATION_STATE: ReputationState = {
+  factionReputation: { ...DEFAULT_FACTION_REPUTATION },
+};
+
+// ============================================================================
+// SLICE FACTORY
+// ============================================================================
+
+/**
+ * Creates the reputation Zustand slice.
+ */
+export const createReputationSlice: StateCreator<
+  ReputationSlice & ReputationSliceDeps,
+  [],
+  [],
+  ReputationSlice
+> = (set, get) => ({
+  // State
+  ...DEFAULT_REPUTATION_STATE,
+
+  // Actions
+  changeReputation: (faction: string, delta: number) => {
+    const resolved = resolveReputationFaction(faction);
+    if (!resolved || delta === 0) return [];
+
+    const { ledger, changes } = applyReputationChange(get().factionReputation, resolved, delta);
+    if (changes.length === 0) return [];
+
+    set({ factionReputation: ledger });
+
+    const state = get();
+    for (const change of changes) {
+      const name = FACTION_DISPLAY_NAMES[change.faction];
+      if (!change.ripple) {
+        const sign = change.delta >= 0 ? '+' : '';
+        state.addNotification('info', `${name} reputation ${sign}${change.delta}`);
+      }
+      if (change.currentTier !== change.previousTier) {
+        const { label } = getStandingTierDef(change.current);
+        state.addNotification(
+          change.current > change.previous ? 'info' : 'warning',
+          `${name} now regard you as ${label}`
+        );
+      }
+    }
+
+    return changes;
+  },
+
+  getReputation: (faction: string) => getFactionReputation(get().factionReputation, faction),
+
+  getStanding: (faction: string) =>
+    getStandingTierDef(getFactionReputation(get().factionReputation, faction)).tier,
+
+  resetReputation: () =>
+    set({
+      factionReputation: { ...DEFAULT_FACTION_REPUTATION },
+    }),
+});
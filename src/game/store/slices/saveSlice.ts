@@ -8,9 +8,17 @@
  */
 
 import type { StateCreator } from 'zustand';
+import type { ShopMarketState } from '../../data/shops';
+import type { BountyBoards } from '../../systems/bountyBoard';
+import type { Companion } from '../../systems/companions';
+import type { Horse } from '../../systems/horses';
+import type { RailTicket } from '../../systems/railroad';
+import type { BountyLedger } from '../../systems/law';
+import { normalizeFactionReputation } from '../../systems/reputation';
 import { getSaveSystem } from '../../systems/SaveSystem';
-import type { SaveSlotMeta } from '../../systems/SaveSystem';
+import type { GameSaveData, SaveSlotMeta } from '../../systems/SaveSystem';
 import type { StorageAdapter } from '../StorageAdapter';
+import { normalizeSettings } from './settingsSlice';
 import type {
   GamePhase,
   GameSettings,
@@ -41,6 +49,8 @@ export interface SaveActions {
   saveGame: () => void;
   /** Save binary database export */
   saveGameBinary: (saveId: string) => Promise<void>;
+  /** Snapshot of the state a save slot stores */
+  getSaveData: () => GameSaveData;
   /** Save to a named slot */
   saveToSlot: (slotId: string) => Promise<void>;
   /** Load from a named slot */
@@ -58,6 +68,15 @@ export interface SaveSliceDeps {
   // Read-only state needed for serialization
   playerName: string;
   playerStats: any;
+  factionReputation: any;
+  bounties: BountyLedger;
+  bountyBoards: BountyBoards;
+  horses: Horse[];
+  activeHorseId: string | null;
+  party: Companion[];
+  companionItems: Record<string, any[]>;
+  departedCompanionIds: string[];
+  railTickets: RailTicket[];
   clockState: any;
   currentLocationId: string | null;
   initialized: boolean;
@@ -67,6 +86,10 @@ export interface SaveSliceDeps {
   activeQuests: any[];
   completedQuests: any[];
   completedQuestIds: string[];
+  completedQuestBranches: Record<string, Record<string, string>>;
+  failedQuestIds: string[];
+  questTimerClock: number | null;
+  shopMarkets: Record<string, ShopMarketState>;
   collectedItemIds: string[];
   settings: GameSettings;
   fatigueState: any;
@@ -76,13 +99,16 @@ export interface SaveSliceDeps {
   isClockRunning: boolean;
   currentWorldId: string | null;
   discoveredLocationIds: string[];
+  visitedLocationIds: string[];
   talkedNPCIds: string[];
+  enteredDialogueNodeIds: string[];
   loadedWorld: any;
 
   // Actions from other slices
   setPhase: (phase: GamePhase) => void;
   addNotification: (type: Notification['type'], message: string) => void;
   initWorld: (worldId: string) => void;
+  refreshCarryWeight: () => void;
 }
 
 /**
@@ -133,21 +159,21 @@ export const createSaveSlice = (
       }
     },
 
-    saveToSlot: async (slotId: string) => {
+    getSaveData: (): GameSaveData => {
       const state = get();
-      const saveSystem = getSaveSystem();
-
-      // Derive location name from current location
-      const currentLocation = state.currentLocationId
-        ? (state.loadedWorld as any)?.locations?.get?.(state.currentLocationId)
-        : null;
-      const locationName =
-        currentLocation?.ref?.name ?? state.currentLocationId ?? 'Unknown';
-
-      const saveData = {
+      return {
         playerName: state.playerName,
         playTime: state.playTime,
         playerStats: state.playerStats,
+        factionReputation: state.factionReputation,
+        bounties: state.bounties,
+        bountyBoards: state.bountyBoards,
+        horses: state.horses,
+        activeHorseId: state.activeHorseId,
+        party: state.party,
+        companionItems: state.companionItems,
+        departedCompanionIds: state.departedCompanionIds,
+        railTickets: state.railTickets,
         clockState: state.clockState,
         currentLocationId: state.currentLocationId,
         initialized: state.initialized,
@@ -157,6 +183,10 @@ export const createSaveSlice = (
         activeQuests: state.activeQuests,
         completedQuests: state.completedQuests,
         completedQuestIds: state.completedQuestIds,
+        completedQuestBranches: state.completedQuestBranches,
+        failedQuestIds: state.failedQuestIds,
+        questTimerClock: state.questTimerClock,
+        shopMarkets: state.shopMarkets,
         collectedItemIds: state.collectedItemIds,
         settings: state.settings,
         saveVersion: state.saveVersion,
@@ -168,8 +198,24 @@ export const createSaveSlice = (
         isClockRunning: state.isClockRunning,
         currentWorldId: state.currentWorldId,
         discoveredLocationIds: state.discoveredLocationIds,
+        visitedLocationIds: state.visitedLocationIds,
         talkedNPCIds: state.talkedNPCIds,
+        enteredDialogueNodeIds: state.enteredDialogueNodeIds,
       };
+    },
+
+    saveToSlot: async (slotId: string) => {
+      const state = get();
+      const saveSystem = getSaveSystem();
+
+      // Derive location name from current location
+      const currentLocation = state.currentLocationId
+        ? (state.loadedWorld as any)?.locations?.get?.(state.currentLocationId)
+        : null;
+      const locationName =
+        currentLocation?.ref?.name ?? state.currentLocationId ?? 'Unknown';
+
+      const saveData = state.getSaveData();
 
       await saveSystem.save(slotId, saveData, locationName);
       set({ lastSaved: Date.now() });
@@ -195,13 +241,14 @@ export const createSaveSlice = (
 
       const patch: Record<string, unknown> = {};
       const keys = [
-        'playerName', 'playTime', 'playerStats', 'clockState',
+        'playerName', 'playTime', 'playerStats', 'factionReputation', 'clockState',
         'currentLocationId', 'initialized', 'worldSeed', 'inventory',
         'equipment', 'activeQuests', 'completedQuests', 'completedQuestIds',
-        'collectedItemIds', 'settings', 'saveVersion', 'lastSaved',
+        'completedQuestBranches', 'failedQuestIds', 'shopMarkets', 'bounties',
+        'bountyBoards', 'collectedItemIds', 'settings', 'saveVersion', 'lastSaved',
         'fatigueState', 'provisionsState', 'campingState', 'currentTerrain',
         'isClockRunning', 'currentWorldId', 'discoveredLocationIds',
-        'talkedNPCIds',
+        'talkedNPCIds', 'enteredDialogueNodeIds',
       ];
 
       for (const key of keys) {
@@ -211,8 +258,48 @@ export const createSaveSlice = (
         }
       }
 
+      // Older saves predate the faction ledger or lack newer factions
+      patch.factionReputation = normalizeFactionReputation(
+        data.factionReputation as Record<string, number> | undefined
+      );
+
+      // Older saves predate the law
+      patch.bounties = (data.bounties as BountyLedger | undefined) ?? {};
+
+      // Older saves predate the bounty boards
+      patch.bountyBoards = (data.bountyBoards as BountyBoards | undefined) ?? {};
+
+      // Older saves predate horses; the rider always loads on foot
+      patch.horses = (data.horses as Horse[] | undefined) ?? [];
+      patch.activeHorseId = (data.activeHorseId as string | null | undefined) ?? null;
+      patch.mounted = false;
+
+      // Older saves predate companions
+      patch.party = (data.party as Companion[] | undefined) ?? [];
+      patch.companionItems = (data.companionItems as Record<string, any[]> | undefined) ?? {};
+      patch.departedCompanionIds = (data.departedCompanionIds as string[] | undefined) ?? [];
+      patch.companionPanelId = null;
+
+      // Older saves predate railroad tickets
+      patch.railTickets = (data.railTickets as RailTicket[] | undefined) ?? [];
+      patch.depotStationId = null;
+
+      // Older saves predate visit tracking; only where the player stands counts
+      patch.visitedLocationIds =
+        (data.visitedLocationIds as string[] | undefined) ??
+        (data.currentLocationId ? [data.currentLocationId as string] : []);
+
+      // Older saves predate newer settings
+      if (patch.settings) {
+        patch.settings = normalizeSettings(patch.settings as Partial<GameSettings>);
+      }
+
+      // Quest timers resume from the loaded clock, never the previous session's
+      patch.questTimerClock = (data.questTimerClock as number | null | undefined) ?? null;
+
       patch.phase = 'playing';
       set(patch as any);
+      get().refreshCarryWeight();
 
       // Reinitialize world
       const worldId = (data.currentWorldId as string) ?? 'frontier_territory';
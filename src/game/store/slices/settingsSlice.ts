@@ -7,7 +7,17 @@
  */
 
 import type { StateCreator } from 'zustand';
-import type { GameSettings } from '../types';
+import type { InputAction } from '../../input/InputActions';
+import {
+  CONTROL_PRESETS,
+  DEFAULT_CONTROLS,
+  MAX_STICK_DEADZONE,
+  rebind,
+  type BindingDevice,
+  type ControlPreset,
+  type ControlSettings,
+} from '../../input/bindings';
+import type { AccessibilitySettings, AimAssistSettings, GameSettings } from '../types';
 
 // ============================================================================
 // TYPES
@@ -47,6 +57,25 @@ export interface SettingsActions {
   toggleLowPowerMode: () => void;
   /** Set camera distance */
   setCameraDistance: (distance: number) => void;
+  /** Update look options or bindings (partial) */
+  setControls: (controls: Partial<ControlSettings>) => void;
+  /**
+   * Bind an input to an action on one device. Returns the actions that lost
+   * the input to it.
+   */
+  rebindControl: (
+    device: BindingDevice,
+    action: InputAction,
+    input: string | number
+  ) => InputAction[];
+  /** Replace every binding with a named preset, keeping look options */
+  applyControlPreset: (preset: ControlPreset) => void;
+  /** Update palette, subtitle or aim assist options (partial) */
+  setAccessibility: (
+    accessibility: Partial<Omit<AccessibilitySettings, 'aimAssist'>> & {
+      aimAssist?: Partial<AimAssistSettings>;
+    }
+  ) => void;
   /** Reset settings to defaults */
   resetSettings: () => void;
 }
@@ -60,6 +89,17 @@ export type SettingsSlice = SettingsState & SettingsActions;
 // DEFAULTS
 // ============================================================================
 
+export const DEFAULT_ACCESSIBILITY: AccessibilitySettings = {
+  colorblindMode: 'off',
+  subtitles: true,
+  soundCaptions: false,
+  aimAssist: {
+    enabled: true,
+    slowdown: 0.4,
+    magnetism: 0.3,
+  },
+};
+
 /**
  * Default game settings.
  */
@@ -74,8 +114,37 @@ export const DEFAULT_SETTINGS: GameSettings = {
   showMinimap: true,
   lowPowerMode: false,
   cameraDistance: 15,
+  controls: DEFAULT_CONTROLS,
+  accessibility: DEFAULT_ACCESSIBILITY,
 };
 
+/** Lowest look sensitivity the options allow, so look never stops dead. */
+export const MIN_LOOK_SENSITIVITY = 0.1;
+
+/** Control settings, falling back to the defaults for saves from before they existed. */
+export function getControls(settings: GameSettings): ControlSettings {
+  return settings.controls ?? DEFAULT_CONTROLS;
+}
+
+/** Accessibility settings, falling back to the defaults for saves from before they existed. */
+export function getAccessibility(settings: GameSettings): AccessibilitySettings {
+  return settings.accessibility ?? DEFAULT_ACCESSIBILITY;
+}
+
+/** Fill in options added since `settings` was saved. */
+export function normalizeSettings(settings: Partial<GameSettings>): GameSettings {
+  const accessibility = { ...DEFAULT_ACCESSIBILITY, ...settings.accessibility };
+  return {
+    ...DEFAULT_SETTINGS,
+    ...settings,
+    controls: { ...DEFAULT_CONTROLS, ...settings.controls },
+    accessibility: {
+      ...accessibility,
+      aimAssist: { ...DEFAULT_ACCESSIBILITY.aimAssist, ...accessibility.aimAssist },
+    },
+  };
+}
+
 /**
  * Default settings state.
  */
@@ -164,6 +233,58 @@ export const createSettingsSlice: StateCreator<SettingsSlice, [], [], SettingsSl
     }));
   },
 
+  setControls: (controls: Partial<ControlSettings>) => {
+    set((state) => {
+      const next = { ...getControls(state.settings), ...controls };
+      next.lookSensitivity = Math.max(MIN_LOOK_SENSITIVITY, Math.min(1, next.lookSensitivity));
+      next.stickDeadzone = Math.max(0, Math.min(MAX_STICK_DEADZONE, next.stickDeadzone));
+      return { settings: { ...state.settings, controls: next } };
+    });
+  },
+
+  rebindControl: (device: BindingDevice, action: InputAction, input: string | number) => {
+    const controls = getControls(get().settings);
+    let displaced: InputAction[];
+    let next: ControlSettings;
+    if (device === 'keyboard') {
+      const result = rebind(controls.keyboard, action, String(input));
+      displaced = result.displaced;
+      next = { ...controls, keyboard: result.bindings };
+    } else {
+      const result = rebind(controls.gamepad, action, Number(input));
+      displaced = result.displaced;
+      next = { ...controls, gamepad: result.bindings };
+    }
+    set((state) => ({
+      settings: { ...state.settings, controls: { ...next, preset: 'custom' } },
+    }));
+    return displaced;
+  },
+
+  applyControlPreset: (preset: ControlPreset) => {
+    set((state) => ({
+      settings: {
+        ...state.settings,
+        controls: { ...getControls(state.settings), ...CONTROL_PRESETS[preset], preset },
+      },
+    }));
+  },
+
+  setAccessibility: (accessibility) => {
+    set((state) => {
+      const current = getAccessibility(state.settings);
+      const aimAssist = { ...current.aimAssist, ...accessibility.aimAssist };
+      aimAssist.slowdown = Math.max(0, Math.min(1, aimAssist.slowdown));
+      aimAssist.magnetism = Math.max(0, Math.min(1, aimAssist.magnetism));
+      return {
+        settings: {
+          ...state.settings,
+          accessibility: { ...current, ...accessibility, aimAssist },
+        },
+      };
+    });
+  },
+
   resetSettings: () =>
     set({
       settings: { ...DEFAULT_SETTINGS },
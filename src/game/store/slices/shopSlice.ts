@@ -1,13 +1,30 @@
 /**
  * Shop Slice - Shop state and actions
  *
- * Manages shop interactions including buying and selling items.
+ * Manages shop interactions including buying, selling and repairs, plus
+ * each shop's runtime stock, which restocks daily and remembers what the
+ * player has been selling so prices drift with supply.
  *
  * @module game/store/slices/shopSlice
  */
 
 import type { StateCreator } from 'zustand';
-import type { InventoryItem, Notification, PlayerStats } from '../types';
+import { CONDITION_MAX, getSmithRepairCost } from '../../data/items/durability';
+import { getPerkModifier } from '../../data/perks';
+import {
+  createShopMarket,
+  getShopFaction,
+  restockShopMarket,
+  type ShopMarketState,
+  type ShopPriceContext,
+} from '../../data/shops';
+import { SKILL_PRACTICE_XP } from '../../systems/skills';
+import type {
+  GameClockState,
+  TimeEventCallback,
+  TimeEventType,
+} from '../../systems/time';
+import type { InventoryItem, Notification, PlayerSkills, PlayerStats } from '../types';
 
 // ============================================================================
 // TYPES
@@ -19,8 +36,8 @@ import type { InventoryItem, Notification, PlayerStats } from '../types';
 export interface ShopDataAccess {
   getShopById: (shopId: string) => any;
   getItem: (itemId: string) => any;
-  calculateBuyPrice: (shop: any, item: any) => number;
-  calculateSellPrice: (shop: any, itemDef: any) => number;
+  calculateBuyPrice: (shop: any, item: any, context?: ShopPriceContext) => number;
+  calculateSellPrice: (shop: any, itemDef: any, context?: ShopPriceContext) => number;
   canSellItemToShop: (shop: any, itemType: string) => boolean;
 }
 
@@ -30,6 +47,8 @@ export interface ShopDataAccess {
 export interface ShopState {
   /** Active shop ID and owner */
   shopState: { shopId: string; ownerId: string } | null;
+  /** Runtime stock and selling pressure for shops the player has traded with */
+  shopMarkets: Record<string, ShopMarketState>;
 }
 
 /**
@@ -46,6 +65,20 @@ export interface ShopActions {
   sellItem: (inventoryId: string) => void;
   /** Check if player can afford an item */
   canAfford: (price: number) => boolean;
+  /** Units of an item left in a shop (-1 = infinite) */
+  getShopStock: (shopId: string, itemId: string) => number;
+  /** What the player would pay for an item at a shop */
+  getShopBuyPrice: (shopId: string, itemId: string) => number;
+  /** What a shop would pay the player for an item */
+  getShopSellPrice: (shopId: string, itemId: string) => number;
+  /** Gold a shop charges to fully repair an inventory item (0 = no repair offered) */
+  getShopRepairCost: (shopId: string, inventoryId: string) => number;
+  /** Pay the open shop to restore an inventory item to full condition */
+  repairAtShop: (inventoryId: string) => void;
+  /** Restock every shop that is due on the given day */
+  restockShops: (day: number) => void;
+  /** Subscribe restocking to the game clock; returns an unsubscribe function */
+  watchShopRestock: () => () => void;
   /** Reset shop state */
   resetShop: () => void;
 }
@@ -60,6 +93,11 @@ export interface ShopSliceDeps {
   addItemById: (itemId: string, quantity?: number) => void;
   removeItem: (itemId: string, quantity?: number) => void;
   updatePlayerStats: (stats: Partial<PlayerStats>) => void;
+  gainSkillXP: (skill: keyof PlayerSkills, amount: number) => void;
+  setItemCondition: (instanceId: string, condition: number) => void;
+  getReputation: (faction: string) => number;
+  clockState: GameClockState;
+  onClockEvent: (event: TimeEventType, callback: TimeEventCallback) => () => void;
 }
 
 /**
@@ -76,8 +114,12 @@ export type ShopSlice = ShopState & ShopActions;
  */
 export const DEFAULT_SHOP_STATE: ShopState = {
   shopState: null,
+  shopMarkets: {},
 };
 
+/** Barter practice from a trade, so cheap trinkets can't be farmed for XP */
+const haggleXP = (price: number): number => Math.floor(price / 10) * SKILL_PRACTICE_XP.haggle;
+
 // ============================================================================
 // SLICE FACTORY
 // ============================================================================
@@ -90,6 +132,21 @@ export const DEFAULT_SHOP_STATE: ShopState = {
 export const createShopSlice = (
   dataAccess: ShopDataAccess
 ): StateCreator<ShopSlice & ShopSliceDeps, [], [], ShopSlice> => {
+  /** A shop's market, created at full stock the first time it is needed */
+  const marketFor = (shop: any, state: ShopState & ShopSliceDeps): ShopMarketState =>
+    state.shopMarkets[shop.id] ?? createShopMarket(shop.inventory, state.clockState.day);
+
+  const priceContext = (
+    shop: any,
+    itemId: string,
+    state: ShopState & ShopSliceDeps
+  ): ShopPriceContext => ({
+    barter: state.playerStats.skills.barter,
+    sold: marketFor(shop, state).sold[itemId] ?? 0,
+    buyPerkModifier: getPerkModifier(state.playerStats.perks ?? [], 'buy_price'),
+    sellPerkModifier: getPerkModifier(state.playerStats.perks ?? [], 'sell_price'),
+  });
+
   return (set, get) => ({
     // State
     ...DEFAULT_SHOP_STATE,
@@ -116,12 +173,14 @@ export const createShopSlice = (
         return;
       }
 
-      if ((shopItem.minReputation ?? -100) > playerStats.reputation) {
+      if ((shopItem.minReputation ?? -100) > state.getReputation(getShopFaction(shop))) {
         state.addNotification('warning', 'Your reputation is too low.');
         return;
       }
 
-      if (shopItem.stock === 0) {
+      const market = marketFor(shop, state);
+      const stock = market.stock[itemId] ?? shopItem.stock ?? -1;
+      if (stock === 0) {
         state.addNotification('warning', 'That item is sold out.');
         return;
       }
@@ -129,7 +188,7 @@ export const createShopSlice = (
       const itemDef = dataAccess.getItem(itemId);
       if (!itemDef) return;
 
-      const price = dataAccess.calculateBuyPrice(shop, shopItem);
+      const price = dataAccess.calculateBuyPrice(shop, shopItem, priceContext(shop, itemId, state));
 
       if (playerStats.gold < price) {
         state.addNotification('warning', "Can't afford that.");
@@ -137,9 +196,18 @@ export const createShopSlice = (
       }
 
       // Transaction
+      if (stock > 0) {
+        set((s) => ({
+          shopMarkets: {
+            ...s.shopMarkets,
+            [shop.id]: { ...market, stock: { ...market.stock, [itemId]: stock - 1 } },
+          },
+        }));
+      }
       state.updatePlayerStats({ gold: playerStats.gold - price });
       state.addItemById(itemId, 1);
       state.addNotification('item', `Bought ${itemDef.name} for ${price}g`);
+      state.gainSkillXP('barter', haggleXP(price));
     },
 
     sellItem: (inventoryId: string) => {
@@ -166,18 +234,104 @@ export const createShopSlice = (
         return;
       }
 
-      const price = dataAccess.calculateSellPrice(shop, itemDef);
+      const price = dataAccess.calculateSellPrice(
+        shop,
+        itemDef,
+        priceContext(shop, item.itemId, state)
+      );
 
       // Transaction
+      const market = marketFor(shop, state);
+      set((s) => ({
+        shopMarkets: {
+          ...s.shopMarkets,
+          [shop.id]: {
+            ...market,
+            sold: { ...market.sold, [item.itemId]: (market.sold[item.itemId] ?? 0) + 1 },
+          },
+        },
+      }));
       state.removeItem(item.itemId, 1);
       state.updatePlayerStats({ gold: playerStats.gold + price });
       state.addNotification('item', `Sold ${item.name} for ${price}g`);
+      state.gainSkillXP('barter', haggleXP(price));
     },
 
     canAfford: (price: number) => {
       return get().playerStats.gold >= price;
     },
 
-    resetShop: () => set({ shopState: null }),
+    getShopStock: (shopId: string, itemId: string) => {
+      const shop = dataAccess.getShopById(shopId);
+      if (!shop) return 0;
+      const defined = shop.inventory.find((item: any) => item.itemId === itemId);
+      if (!defined) return 0;
+      return marketFor(shop, get()).stock[itemId] ?? defined.stock ?? -1;
+    },
+
+    getShopBuyPrice: (shopId: string, itemId: string) => {
+      const shop = dataAccess.getShopById(shopId);
+      const shopItem = shop?.inventory.find((item: any) => item.itemId === itemId);
+      if (!shopItem) return 0;
+      return dataAccess.calculateBuyPrice(shop, shopItem, priceContext(shop, itemId, get()));
+    },
+
+    getShopSellPrice: (shopId: string, itemId: string) => {
+      const shop = dataAccess.getShopById(shopId);
+      const itemDef = dataAccess.getItem(itemId);
+      if (!shop || !itemDef) return 0;
+      return dataAccess.calculateSellPrice(shop, itemDef, priceContext(shop, itemId, get()));
+    },
+
+    getShopRepairCost: (shopId: string, inventoryId: string) => {
+      const shop = dataAccess.getShopById(shopId);
+      const item = get().inventory.find((i) => i.id === inventoryId);
+      if (shop?.repairModifier === undefined || !item) return 0;
+      const itemDef = dataAccess.getItem(item.itemId);
+      if (!itemDef?.weaponStats && !itemDef?.armorStats) return 0;
+      return getSmithRepairCost(itemDef.value, item.condition, shop.repairModifier);
+    },
+
+    repairAtShop: (inventoryId: string) => {
+      const state = get();
+      const { shopState, playerStats } = state;
+      if (!shopState) return;
+
+      const item = state.inventory.find((i) => i.id === inventoryId);
+      if (!item) return;
+
+      const shop = dataAccess.getShopById(shopState.shopId);
+      if (shop?.repairModifier === undefined) {
+        state.addNotification('warning', "This merchant doesn't do repairs.");
+        return;
+      }
+
+      const cost = state.getShopRepairCost(shopState.shopId, inventoryId);
+      if (cost <= 0) return;
+      if (playerStats.gold < cost) {
+        state.addNotification('warning', "Can't afford that.");
+        return;
+      }
+
+      state.updatePlayerStats({ gold: playerStats.gold - cost });
+      state.setItemCondition(inventoryId, CONDITION_MAX);
+      state.addNotification('info', `Repaired ${item.name} for ${cost}g`);
+    },
+
+    restockShops: (day: number) => {
+      const markets = get().shopMarkets;
+      const restocked: Record<string, ShopMarketState> = {};
+      for (const [shopId, market] of Object.entries(markets)) {
+        const shop = dataAccess.getShopById(shopId);
+        if (!shop) continue;
+        restocked[shopId] = restockShopMarket(market, shop.inventory, day, shop.restockDays);
+      }
+      set({ shopMarkets: restocked });
+    },
+
+    watchShopRestock: () =>
+      get().onClockEvent('dayChanged', (event) => get().restockShops(event.day)),
+
+    resetShop: () => set({ ...DEFAULT_SHOP_STATE }),
   });
 };
@@ -6,7 +6,18 @@ import type { StateCreator } from 'zustand';
 import type { CombatEncounter } from '../../data/schemas/combat';
 import type { DangerLevel, TravelMethod } from '../../data/schemas/world';
 import { FrontierTerritory } from '../../data/worlds/frontier_territory';
-import type { GamePhase, Notification, TravelState, WorldItem, WorldPosition } from '../types';
+import { getOverlandRoute } from '../../systems/railroad';
+import { adjustTravelTime } from '../../systems/TravelManager';
+import { getWeatherEffects } from '../../systems/weather';
+import type {
+  GamePhase,
+  Journey,
+  Notification,
+  TravelState,
+  WeatherState,
+  WorldItem,
+  WorldPosition,
+} from '../types';
 import { rollTravelEncounter, TravelTimerManager } from './travelHelpers';
 
 export interface TravelDataAccess {
@@ -27,6 +38,8 @@ export interface TravelSliceState {
   currentWorldId: string | null;
   currentLocationId: string | null;
   discoveredLocationIds: string[];
+  /** Locations the player has actually arrived at (discovery alone doesn't count) */
+  visitedLocationIds: string[];
   loadedWorld: any | null;
   travelState: TravelState | null;
   worldItems: Record<string, WorldItem>;
@@ -36,6 +49,8 @@ export interface TravelSliceState {
 export interface TravelActions {
   initWorld: (worldId: string) => void;
   travelTo: (locationId: string) => void;
+  /** Set out on a trip whose route, time and encounter are already decided */
+  startJourney: (journey: Journey) => void;
   completeTravel: () => void;
   cancelTravel: () => void;
   discoverLocation: (locationId: string) => void;
@@ -55,6 +70,8 @@ export interface TravelSliceDeps {
   consumeProvisions: (hours: number) => { foodConsumed: number; waterConsumed: number; ranOutOfFood: boolean; ranOutOfWater: boolean };
   startCombat: (encounterId: string) => void;
   playerPosition: WorldPosition;
+  weather: WeatherState;
+  getMountTravelSpeed: (method: TravelMethod) => number;
   activeQuests: any[];
   updateObjective: (questId: string, objectiveId: string, progress: number) => void;
 }
@@ -62,7 +79,7 @@ export interface TravelSliceDeps {
 export type TravelSlice = TravelSliceState & TravelActions;
 
 export const DEFAULT_TRAVEL_SLICE_STATE: TravelSliceState = {
-  currentWorldId: null, currentLocationId: null, discoveredLocationIds: [],
+  currentWorldId: null, currentLocationId: null, discoveredLocationIds: [], visitedLocationIds: [],
   loadedWorld: null, travelState: null, worldItems: {}, collectedItemIds: [],
 };
 
@@ -89,17 +106,36 @@ export const createTravelSlice = (
         (conn) => conn.to === locationId || (conn.bidirectional && conn.from === locationId)
       );
 
-      const travelTime = connection?.travelTime ?? 8;
       const dangerLevel: DangerLevel = connection?.danger ?? 'moderate';
-      const method: TravelMethod = connection?.method ?? 'trail';
-      const startedAt = Date.now();
+      // Trains need a ticket; without one the player follows the tracks
+      const route = getOverlandRoute(connection?.method ?? 'trail', connection?.travelTime ?? 8);
+      // Bad weather slows the going; a horse speeds it up overland
+      const travelTime = adjustTravelTime(
+        route.travelTime,
+        getWeatherEffects(state.weather).travelSpeed * state.getMountTravelSpeed(route.method)
+      );
+
+      state.startJourney({
+        toLocationId: locationId,
+        method: route.method,
+        travelTime,
+        dangerLevel,
+        encounterId: rollTravelEncounter(dangerLevel, dataAccess.getEncounterById),
+      });
+    },
 
+    startJourney: (journey: Journey) => {
+      const state = get();
+      const { currentLocationId } = state;
+      if (!currentLocationId) return;
+
+      const { toLocationId, method, travelTime, dangerLevel, encounterId } = journey;
+      const startedAt = Date.now();
       timer.clear();
-      const encounterId = rollTravelEncounter(dangerLevel, dataAccess.getEncounterById);
 
       set({
         travelState: {
-          fromLocationId: currentLocationId, toLocationId: locationId, method, travelTime,
+          fromLocationId: currentLocationId, toLocationId, method, travelTime,
           progress: 0, dangerLevel, startedAt, encounterId,
         },
       });
@@ -127,7 +163,13 @@ export const createTravelSlice = (
       const destinationId = travelState.toLocationId;
       const travelHours = travelState.travelTime;
 
-      set({ currentLocationId: destinationId, travelState: null });
+      set({
+        currentLocationId: destinationId,
+        travelState: null,
+        visitedLocationIds: state.visitedLocationIds.includes(destinationId)
+          ? state.visitedLocationIds
+          : [...state.visitedLocationIds, destinationId],
+      });
       state.setPhase('playing');
       state.discoverLocation(destinationId);
       state.advanceTime(travelHours);
@@ -14,6 +14,8 @@ export interface Combatant {
   definitionId: string;
   name: string;
   isPlayer: boolean;
+  /** A companion fighting on the player's side */
+  isAlly?: boolean;
   health: number;
   maxHealth: number;
   actionPoints: number;
@@ -35,7 +35,7 @@ export interface TimeState {
   year: number;
 }
 
-export type WeatherType = 'clear' | 'cloudy' | 'dusty' | 'stormy';
+export type WeatherType = 'clear' | 'cloudy' | 'dusty' | 'rainy' | 'stormy' | 'foggy';
 
 export interface WeatherState {
   type: WeatherType;
@@ -1,3 +1,4 @@
+import type { DialogueCheck } from '../../data';
 import type { DialogueEffect } from './common';
 
 export interface DialogueState {
@@ -6,6 +7,8 @@ export interface DialogueState {
   npcTitle?: string;
   npcPortraitId?: string;
   npcExpression?: string;
+  /** Faction of the speaking NPC, used for speaker-relative reputation checks */
+  npcFaction?: string;
   treeId: string;
   currentNodeId: string;
   text: string;
@@ -16,6 +19,7 @@ export interface DialogueState {
     effects: DialogueEffect[];
     tags: string[];
     hint?: string;
+    check?: DialogueCheck;
   }[];
   autoAdvanceNodeId: string | null;
   history: string[];
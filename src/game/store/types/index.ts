@@ -55,9 +55,14 @@ export type {
   Combatant,
 } from './combat';
 
-export type { TravelState } from './travel';
+export type { Journey, TravelState } from './travel';
 
-export type { GameSettings } from './settings';
+export type {
+  AccessibilitySettings,
+  AimAssistSettings,
+  ColorblindMode,
+  GameSettings,
+} from './settings';
 
 export type { StealthState } from './stealth';
 
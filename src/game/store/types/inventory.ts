@@ -12,6 +12,8 @@ export interface InventoryItem {
   weight: number;
   type: string;
   droppable: boolean;
+  /** Weapon mod item IDs fitted to this weapon */
+  mods?: string[];
 }
 
 export type EquipmentSlot = 'weapon' | 'offhand' | 'head' | 'body' | 'accessory';
@@ -29,7 +29,14 @@ export interface PlayerStats {
   level: number;
   gold: number;
   ivrcScript: number;
-  reputation: number;
   attributes: PlayerAttributes;
   skills: PlayerSkills;
+  /** Progress toward the next point in each skill */
+  skillXP: Partial<Record<keyof PlayerSkills, number>>;
+  /** Unspent points from levelling up */
+  skillPoints: number;
+  attributePoints: number;
+  perkPoints: number;
+  /** IDs of perks the player has taken */
+  perks: string[];
 }
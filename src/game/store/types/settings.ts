@@ -1,3 +1,26 @@
+import type { ControlSettings } from '../../input/bindings';
+
+/** Which colour vision deficiency the HUD palette is adjusted for. */
+export type ColorblindMode = 'off' | 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+export interface AimAssistSettings {
+  /** Only ever applies to touch and gamepad aiming */
+  enabled: boolean;
+  /** How much look slows while the sights are over a target (0-1) */
+  slowdown: number;
+  /** How strongly aim is drawn onto a nearby target while moving (0-1) */
+  magnetism: number;
+}
+
+export interface AccessibilitySettings {
+  colorblindMode: ColorblindMode;
+  /** Show what NPCs say, with their names */
+  subtitles: boolean;
+  /** Caption sounds that carry information ([Bullet whizzes past]) */
+  soundCaptions: boolean;
+  aimAssist: AimAssistSettings;
+}
+
 export interface GameSettings {
   masterVolume: number;
   musicVolume: number;
@@ -9,4 +32,8 @@ export interface GameSettings {
   showMinimap: boolean;
   lowPowerMode: boolean;
   cameraDistance: number;
+  /** Key/button bindings and look options */
+  controls: ControlSettings;
+  /** Palettes, subtitles and aim assist */
+  accessibility: AccessibilitySettings;
 }
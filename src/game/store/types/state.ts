@@ -1,15 +1,36 @@
 import type { ActiveQuest, DialogueCondition, DialogueEffect, NPCDefinition, Quest } from '../../data';
+import type { PerkEffectType } from '../../data/perks';
+import type { TravelMethod } from '../../data/schemas/world';
+import type { BindingDevice, ControlPreset, ControlSettings } from '../../input/bindings';
+import type { InputAction } from '../../input/InputActions';
+import type { ShopMarketState } from '../../data/shops';
+import type { CraftingStation } from '../../data/schemas/item';
 import type { LockLevel, PipePuzzleState } from '../../puzzles/pipe-fitter';
+import type {
+  BountyLedger,
+  Crime,
+  Jurisdiction,
+  LawResponse,
+  SettleMethod,
+  WantedStatus,
+} from '../../systems/law';
+import type { BountyBoard, BountyBoards, BountyContract, ContractStatus } from '../../systems/bountyBoard';
+import type { ApprovalEvent, Companion, CompanionBarkTrigger } from '../../systems/companions';
+import type { Combatant } from '../../systems/combat';
+import type { Horse } from '../../systems/horses';
+import type { RailTicket, TrainDeparture } from '../../systems/railroad';
+import type { FactionReputation, ReputationChange, StandingTier } from '../../systems/reputation';
+import type { GameSaveData } from '../../systems/SaveSystem';
 import type { SurvivalSlice } from '../../systems/survivalStore';
 import type { AudioState, CameraState, CharacterAppearance, TimeState, WeatherState, WorldPosition } from './common';
 import type { CombatActionType, CombatState } from './combat';
 import type { DialogueState } from './dialogue';
 import type { EquipmentSlot, EquipmentState, InventoryItem } from './inventory';
 import type { NPC } from './npc';
-import type { PlayerStats } from './player';
-import type { GameSettings } from './settings';
+import type { PlayerAttributes, PlayerSkills, PlayerStats } from './player';
+import type { AccessibilitySettings, AimAssistSettings, GameSettings } from './settings';
 import type { StealthState } from './stealth';
-import type { TravelState } from './travel';
+import type { Journey, TravelState } from './travel';
 import type { GamePhase, Notification, PanelType } from './ui';
 import type { ChunkData, Structure, WorldItem } from './world';
 
@@ -28,6 +49,7 @@ export interface GameStateData {
   currentWorldId: string | null;
   currentLocationId: string | null;
   discoveredLocationIds: string[];
+  visitedLocationIds: string[];
   loadedWorld: any | null;
 
   // Player
@@ -42,14 +64,45 @@ export interface GameStateData {
   maxInventorySlots: number;
   maxCarryWeight: number;
 
+  // Reputation
+  factionReputation: FactionReputation;
+
+  // Law
+  bounties: BountyLedger;
+
+  // Bounty board
+  bountyBoards: BountyBoards;
+  bountyBoardTownId: string | null;
+
+  // Horses
+  horses: Horse[];
+  activeHorseId: string | null;
+  mounted: boolean;
+  horseInReach: boolean;
+  liveryTownId: string | null;
+
+  // Companions
+  party: Companion[];
+  companionItems: Record<string, InventoryItem[]>;
+  departedCompanionIds: string[];
+  companionPanelId: string | null;
+
+  // Railroad
+  railTickets: RailTicket[];
+  depotStationId: string | null;
+
   // Quests
   activeQuests: ActiveQuest[];
   completedQuests: Quest[];
   completedQuestIds: string[];
+  completedQuestBranches: Record<string, Record<string, string>>;
+  failedQuestIds: string[];
+  questTimerClock: number | null;
 
   // NPCs
   npcs: Record<string, NPC>;
   talkedNPCIds: string[];
+  enteredDialogueNodeIds: string[];
 
   // Structures
   structures: Record<string, Structure>;
@@ -78,6 +131,7 @@ export interface GameStateData {
 
   // Shop
   shopState: { shopId: string; ownerId: string } | null;
+  shopMarkets: Record<string, ShopMarketState>;
 
   // Travel
   travelState: TravelState | null;
@@ -105,6 +159,12 @@ export interface GameStateActions {
   setPlayerRotation: (rotation: number) => void;
   updatePlayerStats: (stats: Partial<PlayerStats>) => void;
   gainXP: (amount: number) => void;
+  gainSkillXP: (skill: keyof PlayerSkills, amount: number) => void;
+  spendSkillPoint: (skill: keyof PlayerSkills) => void;
+  spendAttributePoint: (attribute: keyof PlayerAttributes) => void;
+  getPerkBlocker: (perkId: string) => string | null;
+  unlockPerk: (perkId: string) => void;
+  getPerkModifier: (effect: PerkEffectType) => number;
   takeDamage: (amount: number) => void;
   heal: (amount: number) => void;
   addGold: (amount: number) => void;
@@ -124,12 +184,97 @@ export interface GameStateActions {
   getEquippedItem: (slot: EquipmentSlot) => InventoryItem | null;
   getEquipmentBonuses: () => { damage: number; defense: number; accuracy: number };
 
+  // Durability
+  setItemCondition: (instanceId: string, condition: number) => void;
+  degradeItem: (instanceId: string, amount: number) => void;
+  degradeArmor: (damage: number) => void;
+  repairItem: (instanceId: string) => void;
+
+  // Crafting
+  getCraftingStations: () => CraftingStation[];
+  getCraftBlocker: (recipeId: string) => string | null;
+  craftItem: (recipeId: string) => void;
+  applyWeaponMod: (weaponInstanceId: string, modItemId: string) => void;
+
+  // Reputation
+  changeReputation: (faction: string, delta: number) => ReputationChange[];
+  getReputation: (faction: string) => number;
+  getStanding: (faction: string) => StandingTier;
+
+  // Law
+  reportCrime: (crime: Crime, witnessIds: string[]) => number;
+  getLawJurisdiction: (townId?: string) => Jurisdiction;
+  getWantedStatus: (townId?: string) => WantedStatus;
+  getBounty: (townId?: string) => number;
+  getLawResponse: (townId?: string) => LawResponse;
+  settleBounty: (method: SettleMethod) => boolean;
+  resistArrest: () => void;
+  decayBounties: (day: number) => void;
+  watchBounties: () => () => void;
+
+  // Bounty board
+  refreshBountyBoard: (townId: string) => BountyBoard | undefined;
+  openBountyBoard: (townId?: string) => boolean;
+  acceptContract: (contractId: string) => boolean;
+  claimContract: (contractId: string) => boolean;
+  getContractStatus: (contractId: string) => ContractStatus;
+  getHuntedContracts: (locationId?: string) => BountyContract[];
+  getGeneratedQuest: (questId: string) => Quest | undefined;
+  rotateBountyBoards: (day: number) => void;
+  watchBountyBoards: () => () => void;
+
+  // Horses
+  openLivery: (townId?: string) => void;
+  buyHorse: (breedId: string) => boolean;
+  buySaddlebags: () => boolean;
+  stableHorse: () => boolean;
+  takeHorse: (horseId: string) => boolean;
+  mountHorse: () => boolean;
+  dismountHorse: () => void;
+  toggleMount: () => void;
+  setHorseInReach: (inReach: boolean) => void;
+  setHorseStamina: (stamina: number) => void;
+  woundHorse: (damage: number) => void;
+  spookHorse: () => void;
+  horseUnderFire: (damage: number) => void;
+  refreshCarryWeight: () => void;
+  getActiveHorse: () => Horse | undefined;
+  getMountTravelSpeed: (method: TravelMethod) => number;
+  resetHorses: () => void;
+
+  // Companions
+  recruitCompanion: (companionId: string) => boolean;
+  dismissCompanion: (companionId: string) => void;
+  changeCompanionApproval: (companionId: string, delta: number) => void;
+  companionsReact: (events: readonly ApprovalEvent[]) => void;
+  companionsRemark: (trigger: CompanionBarkTrigger) => void;
+  getCompanionApproval: (companionId: string) => number | null;
+  isInParty: (npcId: string) => boolean;
+  openCompanionPanel: (companionId?: string) => void;
+  giveCompanionItem: (companionId: string, instanceId: string, quantity?: number) => boolean;
+  takeCompanionItem: (companionId: string, instanceId: string) => boolean;
+  getPartyAllies: () => Combatant[];
+  resetCompanions: () => void;
+
+  // Railroad
+  openDepot: (stationId?: string) => void;
+  isRailStation: (locationId?: string) => boolean;
+  getTrainTimetable: (stationId?: string) => TrainDeparture[];
+  getTicketPrice: (departure: TrainDeparture) => number;
+  buyTicket: (departure: TrainDeparture) => boolean;
+  waitForTrain: (ticketId: string, sleep?: boolean) => void;
+  boardTrain: (ticketId: string) => boolean;
+  resetRailroad: () => void;
+
   // Quests
   startQuest: (questId: string) => void;
   updateObjective: (questId: string, objectiveId: string, progress: number) => void;
-  advanceQuestStage: (questId: string) => void;
+  advanceQuestStage: (questId: string, exitId?: string) => void;
+  raiseQuestFlag: (flag: string) => void;
   completeQuest: (questId: string) => void;
-  failQuest: (questId: string) => void;
+  failQuest: (questId: string, failStageId?: string) => void;
+  updateQuestTimers: (clockMinutes: number) => void;
+  watchQuestTimers: () => () => void;
   abandonQuest: (questId: string) => void;
   getActiveQuest: (questId: string) => ActiveQuest | undefined;
   getQuestDefinition: (questId: string) => Quest | undefined;
@@ -147,11 +292,14 @@ export interface GameStateActions {
   setDialogueFlag: (flag: string, value: boolean) => void;
   checkDialogueCondition: (condition: DialogueCondition) => boolean;
   applyDialogueEffect: (effect: DialogueEffect) => void;
+  enterDialogueNode: (treeId: string, node: any) => void;
   getActiveNPC: () => NPCDefinition | undefined;
 
   // World
   collectWorldItem: (itemId: string) => void;
   updateTime: (hours: number) => void;
+  updateWeather: (totalMinutes?: number) => void;
+  watchWeather: () => () => void;
 
   // Audio
   playMusic: (trackId: string) => void;
@@ -167,10 +315,23 @@ export interface GameStateActions {
 
   // Settings
   updateSettings: (settings: Partial<GameSettings>) => void;
+  setControls: (controls: Partial<ControlSettings>) => void;
+  rebindControl: (
+    device: BindingDevice,
+    action: InputAction,
+    input: string | number
+  ) => InputAction[];
+  applyControlPreset: (preset: ControlPreset) => void;
+  setAccessibility: (
+    accessibility: Partial<Omit<AccessibilitySettings, 'aimAssist'>> & {
+      aimAssist?: Partial<AimAssistSettings>;
+    }
+  ) => void;
 
   // Save
   saveGame: () => void;
   saveGameBinary: (saveId: string) => Promise<void>;
+  getSaveData: () => GameSaveData;
   saveToSlot: (slotId: string) => Promise<void>;
   loadFromSlot: (slotId: string) => Promise<boolean>;
   getSaveSlots: () => Promise<import('../../systems/SaveSystem').SaveSlotMeta[]>;
@@ -179,6 +340,7 @@ export interface GameStateActions {
   // Travel
   initWorld: (worldId: string) => void;
   travelTo: (locationId: string) => void;
+  startJourney: (journey: Journey) => void;
   completeTravel: () => void;
   cancelTravel: () => void;
   discoverLocation: (locationId: string) => void;
@@ -206,6 +368,13 @@ export interface GameStateActions {
   closeShop: () => void;
   buyItem: (itemId: string) => void;
   sellItem: (inventoryId: string) => void;
+  getShopStock: (shopId: string, itemId: string) => number;
+  getShopBuyPrice: (shopId: string, itemId: string) => number;
+  getShopSellPrice: (shopId: string, itemId: string) => number;
+  getShopRepairCost: (shopId: string, inventoryId: string) => number;
+  repairAtShop: (inventoryId: string) => void;
+  restockShops: (day: number) => void;
+  watchShopRestock: () => () => void;
 
   // Stealth
   setCrouching: (crouching: boolean) => void;
@@ -225,13 +394,28 @@ export interface PersistedGameState {
   playerAppearance: CharacterAppearance | null;
   playerPosition: WorldPosition;
   playerStats: PlayerStats;
+  factionReputation: FactionReputation;
+  bounties: BountyLedger;
+  bountyBoards: BountyBoards;
+  horses: Horse[];
+  activeHorseId: string | null;
+  party: Companion[];
+  companionItems: Record<string, InventoryItem[]>;
+  departedCompanionIds: string[];
+  railTickets: RailTicket[];
   equipment: EquipmentState;
   inventory: InventoryItem[];
+  maxCarryWeight: number;
   activeQuests: ActiveQuest[];
   completedQuests: Quest[];
   completedQuestIds: string[];
+  completedQuestBranches: Record<string, Record<string, string>>;
+  failedQuestIds: string[];
+  questTimerClock: number | null;
+  shopMarkets: Record<string, ShopMarketState>;
   collectedItemIds: string[];
   talkedNPCIds: string[];
+  enteredDialogueNodeIds: string[];
   settings: GameSettings;
   time: TimeState;
   saveVersion: number;
@@ -240,4 +424,5 @@ export interface PersistedGameState {
   currentWorldId: string | null;
   currentLocationId: string | null;
   discoveredLocationIds: string[];
+  visitedLocationIds: string[];
 }
@@ -10,3 +10,13 @@ export interface TravelState {
   startedAt: number;
   encounterId: string | null;
 }
+
+/** A trip about to begin, however it was arranged */
+export interface Journey {
+  toLocationId: string;
+  method: TravelMethod;
+  /** Game hours the trip takes */
+  travelTime: number;
+  dangerLevel: DangerLevel;
+  encounterId: string | null;
+}
@@ -10,7 +10,7 @@ export type GamePhase =
   | 'game_over'
   | 'puzzle';
 
-export type PanelType = 'inventory' | 'quests' | 'settings' | 'menu' | 'character';
+export type PanelType = 'inventory' | 'quests' | 'settings' | 'menu' | 'character' | 'bounties' | 'livery' | 'companions' | 'depot';
 
 export interface Notification {
   id: string;
@@ -35,6 +35,7 @@ import {
   calculateSellPrice,
   canSellItemToShop,
   getShopById,
+  type ShopPriceContext,
 } from '../data/shops';
 import { getWorldById, loadWorld } from '../data/worlds';
 import {
@@ -96,8 +97,10 @@ const webDataAccess: DataAccess = {
 
   // Shops
   getShopById: (shopId: string) => getShopById(shopId),
-  calculateBuyPrice: (shop: any, item: any) => calculateBuyPrice(shop, item),
-  calculateSellPrice: (shop: any, itemDef: any) => calculateSellPrice(shop, itemDef),
+  calculateBuyPrice: (shop: any, item: any, context?: ShopPriceContext) =>
+    calculateBuyPrice(shop, item, context),
+  calculateSellPrice: (shop: any, itemDef: any, context?: ShopPriceContext) =>
+    calculateSellPrice(shop, itemDef, context),
   canSellItemToShop,
 
   // Generation
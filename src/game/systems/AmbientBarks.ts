@@ -0,0 +1,89 @@
+/**
+ * AmbientBarks - Passing remarks from townsfolk as the player walks by.
+ *
+ * Lines come from the greeting and small-talk snippet pools, filtered by
+ * the NPC's role and personality. Only the nearest NPC within earshot
+ * speaks, each NPC waits a while before speaking again, and there's a gap
+ * between any two barks so they don't talk over each other. Barks are
+ * posted to the subtitle feed with the speaker's name.
+ *
+ * @module systems/AmbientBarks
+ */
+
+import { getSnippetsForNPC } from '../data/generation/pools';
+import { rngTick, scopedRNG } from '../lib/prng';
+import type { NPC } from '../store/types';
+
+/** How close the player must pass for an NPC to remark (metres) */
+export const BARK_RADIUS = 6;
+/** Seconds before the same NPC says anything again */
+export const BARK_COOLDOWN = 45;
+/** Seconds between any two barks */
+export const BARK_GAP = 8;
+
+const BARK_CATEGORIES = ['greeting', 'small_talk'] as const;
+
+/**
+ * Something `npc` might say in passing, or null if nothing suits them.
+ * Lines with template slots are skipped; there's no conversation to fill
+ * them from.
+ */
+export function pickBark(npc: NPC, seed: number = 42): string | null {
+  const lines = BARK_CATEGORIES.flatMap((category) =>
+    getSnippetsForNPC(npc.role, '', { ...npc.personality }, category)
+  )
+    .flatMap((snippet) => snippet.textTemplates)
+    .filter((line) => !line.includes('{{'));
+  if (lines.length === 0) return null;
+  return lines[Math.floor(scopedRNG('npc.bark', seed, npc.id, rngTick()) * lines.length)];
+}
+
+/** An NPC in the scene and where it stands right now. */
+export interface BarkCandidate {
+  npc: NPC;
+  x: number;
+  z: number;
+}
+
+export class AmbientBarker {
+  private lastBarkAt = new Map<string, number>();
+  private lastAnyAt = -Infinity;
+
+  /**
+   * Pick who, if anyone, speaks now. `now` is in seconds on any steady
+   * clock.
+   */
+  update(
+    now: number,
+    player: { x: number; z: number },
+    candidates: Iterable<BarkCandidate>,
+    seed?: number
+  ): { npc: NPC; text: string } | null {
+    if (now - this.lastAnyAt < BARK_GAP) return null;
+
+    let speaker: NPC | null = null;
+    let nearest = BARK_RADIUS;
+    for (const { npc, x, z } of candidates) {
+      if (!npc.isAlive) continue;
+      if (now - (this.lastBarkAt.get(npc.id) ?? -Infinity) < BARK_COOLDOWN) continue;
+      const distance = Math.hypot(x - player.x, z - player.z);
+      if (distance < nearest) {
+        nearest = distance;
+        speaker = npc;
+      }
+    }
+    if (!speaker) return null;
+
+    // Even an NPC with nothing to say is skipped for a while
+    this.lastBarkAt.set(speaker.id, now);
+    const text = pickBark(speaker, seed);
+    if (!text) return null;
+    this.lastAnyAt = now;
+    return { npc: speaker, text };
+  }
+
+  reset(): void {
+    this.lastBarkAt.clear();
+    this.lastAnyAt = -Infinity;
+  }
+}
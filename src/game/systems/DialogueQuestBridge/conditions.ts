@@ -5,6 +5,8 @@
  */
 
 import type { DialogueChoice, DialogueCondition } from '../../data/schemas/npc';
+import { isTownEventActive } from '../calendar';
+import { getFactionReputation, resolveDialogueFaction } from '../reputation';
 import type { BridgeStoreReader } from './types';
 
 /** Evaluate a single DialogueCondition against the current game state. */
@@ -24,6 +26,15 @@ export function evaluateCondition(
     case 'quest_complete':
       return state.completedQuestIds.includes(target);
 
+    case 'quest_branch': {
+      // stringValue is the exit id; completed quests keep their branches
+      const branches =
+        state.activeQuests.find((q) => q.questId === target)?.branches ??
+        state.completedQuestBranches[target] ??
+        {};
+      return Object.values(branches).includes(condition.stringValue ?? '');
+    }
+
     case 'quest_not_started':
       return (
         !state.activeQuests.some((q) => q.questId === target) &&
@@ -41,10 +52,13 @@ export function evaluateCondition(
       );
 
     case 'reputation_gte':
-      return state.playerStats.reputation >= value;
-
-    case 'reputation_lte':
-      return state.playerStats.reputation <= value;
+    case 'reputation_lte': {
+      // Explicit faction target, otherwise the speaking NPC's faction
+      const faction = resolveDialogueFaction(condition.target, state.dialogueState?.npcFaction);
+      if (!faction) return false;
+      const rep = getFactionReputation(state.factionReputation, faction);
+      return condition.type === 'reputation_gte' ? rep >= value : rep <= value;
+    }
 
     case 'gold_gte':
       return state.playerStats.gold >= value;
@@ -72,6 +86,28 @@ export function evaluateCondition(
       return state.talkedNPCIds.includes(rvNpc);
     }
 
+    case 'skill_gte':
+      return (state.playerStats.skills[target] ?? 0) >= value;
+
+    case 'attribute_gte':
+      return (state.playerStats.attributes[target] ?? 0) >= value;
+
+    case 'event_active':
+      return state.clockState
+        ? isTownEventActive(target, state.clockState.day, state.clockState.hour)
+        : false;
+
+    case 'bounty_gte':
+      return state.getBounty
+        ? state.getBounty(condition.target) >= (condition.value ?? 1)
+        : false;
+
+    case 'approval_gte': {
+      const companionId = condition.target ?? contextNpcId ?? state.dialogueState?.npcId;
+      const approval = companionId ? state.getCompanionApproval?.(companionId) : null;
+      return approval != null && approval >= value;
+    }
+
     case 'time_of_day':
       // Time checks require clock state which varies; treat as pass-through
       return true;
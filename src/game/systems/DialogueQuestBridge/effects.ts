@@ -5,7 +5,10 @@
  */
 
 import type { DialogueChoice, DialogueEffect } from '../../data/schemas/npc';
+import { COMPANION_JOINED_FLAG } from '../companions';
+import { BOUNTY_SETTLED_FLAG, isSettleMethod } from '../law';
 import { questEvents } from '../QuestEvents';
+import { resolveDialogueFaction } from '../reputation';
 import type { BridgeStore } from './types';
 
 /** Apply a single DialogueEffect, dispatching to store and quest events. */
@@ -77,13 +80,15 @@ export function applyDialogueEffect(
       store.addGold(-value);
       break;
 
-    case 'change_reputation':
-      store.updatePlayerStats({ reputation: store.playerStats.reputation + value });
-      store.addNotification('info', `Reputation ${value >= 0 ? '+' : ''}${value}`);
+    case 'change_reputation': {
+      const faction = resolveDialogueFaction(effect.target, store.dialogueState?.npcFaction);
+      if (faction && value !== 0) store.changeReputation(faction, value);
       break;
+    }
 
     case 'set_flag':
       store.setDialogueFlag(target, true);
+      store.raiseQuestFlag(target);
       break;
 
     case 'clear_flag':
@@ -107,6 +112,34 @@ export function applyDialogueEffect(
       }
       break;
 
+    case 'settle_bounty':
+      if (isSettleMethod(effect.stringValue) && store.settleBounty?.(effect.stringValue)) {
+        store.setDialogueFlag(BOUNTY_SETTLED_FLAG, true);
+      }
+      break;
+
+    case 'resist_arrest':
+      store.resistArrest?.();
+      break;
+
+    case 'recruit_companion':
+      if (store.recruitCompanion?.(target || npcId)) {
+        store.setDialogueFlag(COMPANION_JOINED_FLAG, true);
+      }
+      break;
+
+    case 'dismiss_companion':
+      store.dismissCompanion?.(target || npcId);
+      break;
+
+    case 'change_approval':
+      if (value !== 0) store.changeCompanionApproval?.(target || npcId, value);
+      break;
+
+    case 'trade_companion':
+      store.openCompanionPanel?.(target || npcId);
+      break;
+
     default:
       break;
   }
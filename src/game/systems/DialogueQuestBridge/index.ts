@@ -6,6 +6,19 @@ export {
   filterAvailableChoices,
 } from './conditions';
 
+export {
+  formatCheckHint,
+  getCheckChance,
+  getCheckScore,
+  getCheckSkillXP,
+  isCheckSkill,
+  rollDialogueCheck,
+  MAX_CHECK_CHANCE,
+  MIN_CHECK_CHANCE,
+  type CheckStats,
+  type DialogueCheckResult,
+} from './skillChecks';
+
 export {
   applyDialogueEffect,
   applyChoiceEffects,
@@ -5,7 +5,9 @@
  */
 
 import type { Quest } from '../../data/schemas/quest';
+import { isTownEventActive } from '../calendar';
 import { questEvents } from '../QuestEvents';
+import { getFactionReputation } from '../reputation';
 import type { BridgeStore, BridgeStoreReader } from './types';
 
 /** Check whether a quest's prerequisites are satisfied. */
@@ -29,6 +31,11 @@ export function canStartQuest(
     return false;
   }
 
+  // Faction standing
+  for (const [factionId, minRep] of Object.entries(prereqs.factionReputation)) {
+    if (getFactionReputation(state.factionReputation, factionId) < minRep) return false;
+  }
+
   // Required items
   if (prereqs.requiredItems && prereqs.requiredItems.length > 0) {
     for (const itemId of prereqs.requiredItems) {
@@ -36,6 +43,12 @@ export function canStartQuest(
     }
   }
 
+  // Only offered while a town event is on
+  if (prereqs.duringEvent) {
+    const clock = state.clockState;
+    if (!clock || !isTownEventActive(prereqs.duringEvent, clock.day, clock.hour)) return false;
+  }
+
   return true;
 }
 
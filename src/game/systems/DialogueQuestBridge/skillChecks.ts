@@ -0,0 +1,84 @@
+/**
+ * DialogueQuestBridge skill checks - Odds, hints and rolls for dialogue checks
+ *
+ * Skills are already on a 0-100 scale; attributes (1-10) are scaled x10 so
+ * both compare directly against a check's difficulty.
+ *
+ * @module systems/DialogueQuestBridge/skillChecks
+ */
+
+import {
+  type CheckSkill,
+  CheckSkillSchema,
+  type DialogueCheck,
+} from '../../data/schemas/npc';
+
+/** Player stats needed to resolve a check. */
+export interface CheckStats {
+  skills: Record<string, number>;
+  attributes: Record<string, number>;
+}
+
+export interface DialogueCheckResult {
+  success: boolean;
+  chance: number;
+  /** Skill that earns XP from this check (null for attribute checks) */
+  skill: CheckSkill | null;
+  xp: number;
+}
+
+/** Odds are never certain either way. */
+export const MIN_CHECK_CHANCE = 0.05;
+export const MAX_CHECK_CHANCE = 0.95;
+
+/** Every point of score over/under difficulty moves the odds by 2%. */
+const CHANCE_PER_POINT = 0.02;
+
+export function isCheckSkill(stat: string): stat is CheckSkill {
+  return (CheckSkillSchema.options as string[]).includes(stat);
+}
+
+/** The player's score for a check stat on the 0-100 scale. */
+export function getCheckScore(stat: DialogueCheck['stat'], stats: CheckStats): number {
+  if (isCheckSkill(stat)) return stats.skills[stat] ?? 0;
+  return (stats.attributes[stat] ?? 0) * 10;
+}
+
+/** Probability (0.05-0.95) that the player passes the check. */
+export function getCheckChance(check: DialogueCheck, stats: CheckStats): number {
+  const score = getCheckScore(check.stat, stats);
+  const chance = 0.5 + (score - check.difficulty) * CHANCE_PER_POINT;
+  return Math.max(MIN_CHECK_CHANCE, Math.min(MAX_CHECK_CHANCE, chance));
+}
+
+/** Choice hint shown in the dialogue box, e.g. "[Speech 65%]". */
+export function formatCheckHint(check: DialogueCheck, stats: CheckStats): string {
+  const label = check.stat.charAt(0).toUpperCase() + check.stat.slice(1);
+  return `[${label} ${Math.round(getCheckChance(check, stats) * 100)}%]`;
+}
+
+/** Skill XP for a check outcome; harder checks teach more. */
+export function getCheckSkillXP(check: DialogueCheck, success: boolean): number {
+  const base = check.xp ?? Math.max(5, Math.round(check.difficulty / 2));
+  return success ? base : Math.floor(base / 4);
+}
+
+/**
+ * Resolve a check against a uniform roll in [0, 1).
+ * Callers supply the roll from scopedRNG so outcomes are reproducible.
+ */
+export function rollDialogueCheck(
+  check: DialogueCheck,
+  stats: CheckStats,
+  roll: number,
+): DialogueCheckResult {
+  const chance = getCheckChance(check, stats);
+  const success = roll < chance;
+  const skill = isCheckSkill(check.stat) ? check.stat : null;
+  return {
+    success,
+    chance,
+    skill,
+    xp: skill ? getCheckSkillXP(check, success) : 0,
+  };
+}
@@ -5,14 +5,33 @@
  */
 
 import type { ActiveQuest, Quest } from '../../data/schemas/quest';
+import type { SettleMethod } from '../law';
 
 export interface BridgeStoreReader {
   activeQuests: ActiveQuest[];
   completedQuestIds: string[];
-  playerStats: { level: number; gold: number; reputation: number };
+  /** Branches taken in completed quests (questId -> stageId -> exitId) */
+  completedQuestBranches: Record<string, Record<string, string>>;
+  playerStats: {
+    level: number;
+    gold: number;
+    skills: Record<string, number>;
+    attributes: Record<string, number>;
+  };
+  factionReputation: Record<string, number>;
   inventory: { itemId: string; quantity: number }[];
   talkedNPCIds: string[];
-  dialogueState: { npcId: string; conversationFlags: Record<string, boolean> } | null;
+  dialogueState: {
+    npcId: string;
+    npcFaction?: string;
+    conversationFlags: Record<string, boolean>;
+  } | null;
+  /** Game clock, for town event conditions; without it they fail */
+  clockState?: { day: number; hour: number };
+  /** Bounty on the player in a town; without it bounty conditions fail */
+  getBounty?: (townId?: string) => number;
+  /** A party companion's approval; without it approval conditions fail */
+  getCompanionApproval?: (companionId: string) => number | null;
 }
 
 /** Minimal store actions needed by the bridge. */
@@ -27,9 +46,18 @@ export interface BridgeStoreActions {
   getActiveQuest: (questId: string) => ActiveQuest | undefined;
   markNPCTalked: (npcId: string) => void;
   setDialogueFlag: (flag: string, value: boolean) => void;
-  updatePlayerStats: (stats: Partial<{ reputation: number }>) => void;
+  raiseQuestFlag: (flag: string) => void;
+  changeReputation: (faction: string, delta: number) => unknown;
   openShop: (shopId: string) => void;
   discoverLocation: (locationId: string) => void;
+  /** Law actions; stores without them ignore the law's effects */
+  settleBounty?: (method: SettleMethod) => boolean;
+  resistArrest?: () => void;
+  /** Companion actions; stores without them ignore companion effects */
+  recruitCompanion?: (companionId: string) => boolean;
+  dismissCompanion?: (companionId: string) => void;
+  changeCompanionApproval?: (companionId: string, delta: number) => void;
+  openCompanionPanel?: (companionId: string) => void;
 }
 
 export type BridgeStore = BridgeStoreReader & BridgeStoreActions;
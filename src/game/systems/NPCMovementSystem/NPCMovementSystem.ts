@@ -16,6 +16,8 @@ import { distanceSqXZ, lerpAngle } from './utils';
 export class NPCMovementSystem {
   private states: Map<string, NPCMovementState> = new Map();
   private npcData: Map<string, NPCInstanceData> = new Map();
+  /** NPCs trailing the player instead of keeping a schedule */
+  private followers: Set<string> = new Set();
   private locationIndex: LocationMarkerIndex;
   private config: NPCMovementConfig;
 
@@ -27,10 +29,10 @@ export class NPCMovementSystem {
     this.config = { ...DEFAULT_MOVEMENT_CONFIG, ...config };
   }
 
-  registerNPC(npc: NPCInstanceData, initialHour: number): void {
+  registerNPC(npc: NPCInstanceData, initialHour: number, events: readonly string[] = []): void {
     this.npcData.set(npc.npcId, npc);
 
-    const target = resolveScheduleTarget(npc, initialHour, this.locationIndex);
+    const target = resolveScheduleTarget(npc, initialHour, this.locationIndex, events);
 
     const state: NPCMovementState = {
       npcId: npc.npcId,
@@ -53,9 +55,35 @@ export class NPCMovementSystem {
     this.states.set(npc.npcId, state);
   }
 
+  /**
+   * Register an NPC that follows the player around (a companion) rather
+   * than keeping a schedule.
+   */
+  registerFollower(npcId: string, position: Vec3): NPCMovementState {
+    const state: NPCMovementState = {
+      npcId,
+      currentPosition: { ...position },
+      targetPosition: { ...position },
+      facingYaw: 0,
+      speed: 0,
+      arrived: true,
+      interactingWithPlayer: false,
+      activity: 'follow',
+      isIndoors: false,
+      isAvailable: true,
+      patrolIndex: 0,
+      idleTimer: 0,
+      _lastResolvedHour: 0,
+    };
+    this.followers.add(npcId);
+    this.states.set(npcId, state);
+    return state;
+  }
+
   unregisterNPC(npcId: string): void {
     this.states.delete(npcId);
     this.npcData.delete(npcId);
+    this.followers.delete(npcId);
   }
 
   getState(npcId: string): NPCMovementState | undefined {
@@ -85,11 +113,21 @@ export class NPCMovementSystem {
     const currentFloorHour = Math.floor(ctx.gameHour);
 
     for (const [npcId, state] of this.states) {
+      if (this.followers.has(npcId)) {
+        if (state.interactingWithPlayer) {
+          this.facePosition(state, ctx.playerPosition, ctx.deltaTime);
+          state.speed = 0;
+        } else {
+          this.updateFollow(state, ctx.playerPosition, ctx.deltaTime);
+        }
+        continue;
+      }
+
       const npc = this.npcData.get(npcId);
       if (!npc) continue;
 
       if (currentFloorHour !== state._lastResolvedHour) {
-        this.resolveNewTarget(npc, state, ctx.gameHour);
+        this.resolveNewTarget(npc, state, ctx.gameHour, ctx.events);
         state._lastResolvedHour = currentFloorHour;
       }
 
@@ -112,12 +150,16 @@ export class NPCMovementSystem {
     }
   }
 
-  setLocationIndex(index: LocationMarkerIndex, currentHour: number): void {
+  setLocationIndex(
+    index: LocationMarkerIndex,
+    currentHour: number,
+    events: readonly string[] = [],
+  ): void {
     this.locationIndex = index;
     for (const [npcId, npc] of this.npcData) {
       const state = this.states.get(npcId);
       if (state) {
-        this.resolveNewTarget(npc, state, currentHour);
+        this.resolveNewTarget(npc, state, currentHour, events);
       }
     }
   }
@@ -125,14 +167,16 @@ export class NPCMovementSystem {
   clear(): void {
     this.states.clear();
     this.npcData.clear();
+    this.followers.clear();
   }
 
   private resolveNewTarget(
     npc: NPCInstanceData,
     state: NPCMovementState,
     gameHour: number,
+    events: readonly string[] = [],
   ): void {
-    const target = resolveScheduleTarget(npc, gameHour, this.locationIndex);
+    const target = resolveScheduleTarget(npc, gameHour, this.locationIndex, events);
 
     state.targetPosition = { ...target.position };
     state.activity = target.activity;
@@ -270,6 +314,43 @@ export class NPCMovementSystem {
     }
   }
 
+  private updateFollow(state: NPCMovementState, player: Vec3, dt: number): void {
+    const dx = player.x - state.currentPosition.x;
+    const dz = player.z - state.currentPosition.z;
+    const dist = Math.sqrt(dx * dx + dz * dz);
+    state.targetPosition = { ...player };
+    // Followers stay close enough that the player's footing is theirs
+    state.currentPosition.y = player.y;
+
+    if (dist <= this.config.followDistance) {
+      state.arrived = true;
+      state.speed = 0;
+      this.facePosition(state, player, dt);
+      return;
+    }
+
+    state.arrived = false;
+    const dirX = dx / dist;
+    const dirZ = dz / dist;
+
+    // Left far behind (fast travel, a gallop): reappear at the player's heels
+    if (dist > this.config.followCatchUpDistance) {
+      state.currentPosition.x = player.x - dirX * this.config.followDistance;
+      state.currentPosition.z = player.z - dirZ * this.config.followDistance;
+      state.speed = 0;
+      return;
+    }
+
+    const speed = dist > this.config.followRunDistance ? this.config.runSpeed : this.config.walkSpeed;
+    const step = Math.min(speed * dt, dist - this.config.followDistance);
+    state.currentPosition.x += dirX * step;
+    state.currentPosition.z += dirZ * step;
+    state.speed = speed;
+
+    const targetYaw = Math.atan2(dirX, dirZ);
+    state.facingYaw = lerpAngle(state.facingYaw, targetYaw, this.config.turnSpeed * dt);
+  }
+
   private facePosition(state: NPCMovementState, target: Vec3, dt: number): void {
     const dx = target.x - state.currentPosition.x;
     const dz = target.z - state.currentPosition.z;
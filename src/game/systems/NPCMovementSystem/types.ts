@@ -48,6 +48,14 @@ export interface NPCMovementConfig {
   idleChangePeriod: number;
   /** Speed multiplier when interacting with player (0 = stop) */
   interactionSpeedMultiplier: number;
+  /** Running speed for followers falling behind (m/s) */
+  runSpeed: number;
+  /** Distance a follower keeps from the player (meters) */
+  followDistance: number;
+  /** Beyond this distance a follower runs instead of walking (meters) */
+  followRunDistance: number;
+  /** Beyond this distance a follower is put back beside the player (meters) */
+  followCatchUpDistance: number;
 }
 
 /** External state the movement system reads each tick */
@@ -58,6 +66,8 @@ export interface NPCMovementContext {
   playerPosition: Vec3;
   /** Frame delta time in seconds */
   deltaTime: number;
+  /** Ids of town events under way (see systems/calendar) */
+  events?: readonly string[];
 }
 
 export const DEFAULT_MOVEMENT_CONFIG: NPCMovementConfig = {
@@ -67,4 +77,8 @@ export const DEFAULT_MOVEMENT_CONFIG: NPCMovementConfig = {
   idleWanderRadius: 2.0,
   idleChangePeriod: 4.0,
   interactionSpeedMultiplier: 0.0,
+  runSpeed: 4.5,
+  followDistance: 2.5,
+  followRunDistance: 6.0,
+  followCatchUpDistance: 40.0,
 };
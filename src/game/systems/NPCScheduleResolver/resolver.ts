@@ -7,13 +7,16 @@ import { INDOOR_ACTIVITIES, UNAVAILABLE_ACTIVITIES } from './types';
 
 /**
  * Resolves the current schedule target for an NPC at a given game hour.
+ * `events` are the ids of town events under way, which can pull NPCs to
+ * church or the town square.
  */
 export function resolveScheduleTarget(
   npc: NPCInstanceData,
   gameHour: number,
   index: LocationMarkerIndex,
+  events: readonly string[] = [],
 ): ResolvedScheduleTarget {
-  const entry = getNPCActivityAt(npc.schedule, gameHour);
+  const entry = getNPCActivityAt(npc.schedule, gameHour, events);
 
   if (!entry) {
     return {
@@ -58,6 +61,7 @@ export function resolveFullDaySchedule(
   }> = [];
 
   for (const entry of npc.schedule.entries) {
+    if (entry.event) continue;
     const target = resolveScheduleTarget(npc, entry.startHour, index);
     results.push({
       startHour: entry.startHour,
@@ -0,0 +1,177 @@
+/**
+ * QuestEncounters.ts - Escorts and defended positions out in the world
+ *
+ * Works out whom the player is escorting and where they are holding out, and
+ * reports how it goes to the quest bus: escorted NPCs reaching their
+ * destination, and raider waves beaten back or a position given up. The
+ * scene supplies live positions and the fights; QuestWiring turns the events
+ * into objective progress.
+ *
+ * @module systems/QuestEncounters
+ */
+
+import type { GameState, WorldPosition } from '../store/types';
+import { questEvents } from './QuestEvents';
+import { checkProximityObjectives } from './QuestMarkerSystem';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type QuestReader = Pick<GameState, 'activeQuests' | 'getQuestDefinition'>;
+
+/** An NPC the player is bringing somewhere for a quest */
+export interface Escort {
+  questId: string;
+  objectiveId: string;
+  npcId: string;
+  /** Location (or building) the NPC has to reach */
+  destination: string;
+}
+
+/** A location the player is holding against raiders for a quest */
+export interface DefendedPosition {
+  questId: string;
+  objectiveId: string;
+  positionId: string;
+  /** Waves beaten back so far */
+  wave: number;
+}
+
+export interface RaiderSpawn {
+  id: string;
+  configId: string;
+  level: number;
+  name: string;
+  /** Relative to the centre of the defended location */
+  position: [number, number, number];
+}
+
+export type RaidOutcome = 'defeated' | 'overrun';
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+/** Raiders riding in with each wave */
+export const RAIDERS_PER_WAVE = 3;
+
+/** enemies.json config the raiders fight with */
+export const RAIDER_CONFIG_ID = 'bandit_gunman';
+
+/** How far out from the centre of the position a wave appears (m) */
+export const RAID_DISTANCE = 35;
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/** Unfinished objectives of `type` in the current stage of each active quest */
+function currentObjectives(state: QuestReader, type: string) {
+  return state.activeQuests.flatMap((aq) => {
+    if (aq.status !== 'active') return [];
+    const stage = state.getQuestDefinition(aq.questId)?.stages[aq.currentStageIndex];
+    if (!stage) return [];
+    return stage.objectives
+      .filter((obj) => obj.type === type && (aq.objectiveProgress[obj.id] ?? 0) < obj.count)
+      .map((obj) => ({ questId: aq.questId, objective: obj, progress: aq.objectiveProgress[obj.id] ?? 0 }));
+  });
+}
+
+/**
+ * NPCs the player is escorting right now.
+ */
+export function getActiveEscorts(state: QuestReader): Escort[] {
+  return currentObjectives(state, 'escort')
+    .filter(({ objective }) => objective.destination)
+    .map(({ questId, objective }) => ({
+      questId,
+      objectiveId: objective.id,
+      npcId: objective.target,
+      destination: objective.destination as string,
+    }));
+}
+
+/**
+ * The position the player has to hold at `locationId`, if a quest has them
+ * defending it.
+ */
+export function getDefendedPosition(
+  state: QuestReader,
+  locationId: string | null,
+): DefendedPosition | null {
+  if (!locationId) return null;
+  const defended = currentObjectives(state, 'defend').find(
+    ({ objective }) => objective.target === locationId,
+  );
+  if (!defended) return null;
+  return {
+    questId: defended.questId,
+    objectiveId: defended.objective.id,
+    positionId: locationId,
+    wave: defended.progress,
+  };
+}
+
+/**
+ * The raiders in the next wave against a defended position, fanned out on
+ * one side of it, a different side each wave.
+ */
+export function getRaiderSpawns(defended: DefendedPosition): RaiderSpawn[] {
+  const spawns: RaiderSpawn[] = [];
+  for (let i = 0; i < RAIDERS_PER_WAVE; i++) {
+    const angle = ((i / RAIDERS_PER_WAVE) * Math.PI) / 2 + defended.wave;
+    spawns.push({
+      id: `raider-${defended.positionId}-${defended.wave}-${i}`,
+      configId: RAIDER_CONFIG_ID,
+      level: 1 + Math.min(2, defended.wave),
+      name: 'Raider',
+      position: [Math.cos(angle) * RAID_DISTANCE, 0, Math.sin(angle) * RAID_DISTANCE],
+    });
+  }
+  return spawns;
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Report escorted NPCs who have reached their destination, judged by where
+ * they are now (`livePositions`, by NPC ID) rather than where they were
+ * spawned.
+ */
+export function reportEscortArrivals(
+  state: GameState,
+  livePositions: ReadonlyMap<string, WorldPosition>,
+): void {
+  const escorts = getActiveEscorts(state);
+  for (const { questId, objectiveId } of checkProximityObjectives(state, livePositions)) {
+    const escort = escorts.find((e) => e.questId === questId && e.objectiveId === objectiveId);
+    if (escort) {
+      questEvents.emit('npcArrived', { npcId: escort.npcId, locationId: escort.destination });
+    }
+  }
+}
+
+/**
+ * Settle a wave of raiders at a defended position: beaten back once every
+ * raider is down, overrun if the player gives up the position (leaves it or
+ * falls) with any still standing. Reports the outcome and returns it, or
+ * null while the fight goes on.
+ */
+export function resolveRaid(
+  positionId: string,
+  raiders: readonly { ai: { health: number } }[],
+  holding: boolean,
+): RaidOutcome | null {
+  if (raiders.length > 0 && raiders.every((raider) => raider.ai.health <= 0)) {
+    questEvents.emit('waveDefeated', { positionId });
+    return 'defeated';
+  }
+  if (!holding) {
+    questEvents.emit('positionOverrun', { positionId });
+    return 'overrun';
+  }
+  return null;
+}
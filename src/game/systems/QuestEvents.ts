@@ -13,8 +13,8 @@
 // ============================================================================
 
 export interface QuestEventMap {
-  /** An enemy was defeated */
-  enemyKilled: { enemyType: string; enemyId: string; locationId: string };
+  /** An enemy was defeated (`entityId` names that particular enemy, where it matters) */
+  enemyKilled: { enemyType: string; enemyId: string; locationId: string; entityId?: string };
 
   /** Player picked up / received an item */
   itemPickedUp: { itemId: string; quantity: number };
@@ -34,6 +34,21 @@ export interface QuestEventMap {
   /** Player moved in 3D space (for proximity-based objective completion) */
   playerMoved: { x: number; y: number; z: number };
 
+  /** An NPC reached a location (escort objectives) */
+  npcArrived: { npcId: string; locationId: string };
+
+  /** An NPC died (fails escort objectives for that NPC) */
+  npcDied: { npcId: string };
+
+  /** Game time passed (survive objectives) */
+  timeElapsed: { minutes: number };
+
+  /** A wave of attackers was beaten back at a defended position */
+  waveDefeated: { positionId: string };
+
+  /** A defended position fell */
+  positionOverrun: { positionId: string };
+
   /** A quest was started (downstream notification) */
   questStarted: { questId: string };
 
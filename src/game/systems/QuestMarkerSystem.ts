@@ -44,6 +44,9 @@ export interface QuestMarker {
   isComplete: boolean;
 }
 
+/** Objective types that auto-complete when their target is reached. */
+const PROXIMITY_OBJECTIVE_TYPES = new Set<Objective['type']>(['visit', 'stealth', 'escort']);
+
 // ============================================================================
 // POSITION RESOLVERS
 // ============================================================================
@@ -146,7 +149,27 @@ function inferMarkerFromObjective(
         targetId: objective.target,
       };
 
+    case 'escort':
+      // Lead the escorted NPC to the destination; fall back to the NPC
+      if (objective.destination) {
+        return {
+          position:
+            resolveBuildingPosition(objective.destination, state) ??
+            resolveLocationPosition(objective.destination),
+          targetType: 'location',
+          targetId: objective.destination,
+        };
+      }
+      return {
+        position: resolveNPCPosition(objective.target, state),
+        targetType: 'npc',
+        targetId: objective.target,
+      };
+
     case 'visit':
+    case 'stealth':
+    case 'survive':
+    case 'defend':
       // Target could be a location, building, or marker
       return {
         position:
@@ -256,17 +279,44 @@ export function getActiveQuestMarkers(state: GameState): QuestMarker[] {
 }
 
 /**
- * Check if the player is within completion radius of any visit-type
- * objectives and return the ones that should be auto-completed.
+ * Resolve the two ends of a proximity check: where the objective completes,
+ * and who has to get there (the escorted NPC for escorts, else the player).
+ * An escorted NPC following the player is found in `livePositions`.
+ */
+function resolveArrival(
+  objective: Objective,
+  state: GameState,
+  livePositions?: ReadonlyMap<string, WorldPosition>,
+): { destination: WorldPosition | null; arrival: WorldPosition | null } {
+  if (objective.type === 'escort') {
+    if (!objective.destination) return { destination: null, arrival: null };
+    return {
+      destination:
+        resolveBuildingPosition(objective.destination, state) ??
+        resolveLocationPosition(objective.destination),
+      arrival: livePositions?.get(objective.target) ?? resolveNPCPosition(objective.target, state),
+    };
+  }
+  return {
+    destination: resolveMarkerTarget(objective, state).position,
+    arrival: state.playerPosition,
+  };
+}
+
+/**
+ * Check if the player (or an escorted NPC) is within completion radius of
+ * any visit, stealth or escort objectives and return the ones that should
+ * be auto-completed.
  *
  * @param state - The current game state
+ * @param livePositions - Where NPCs walking with the player are now, by NPC ID
  * @returns Array of { questId, objectiveId } pairs to complete
  */
 export function checkProximityObjectives(
   state: GameState,
+  livePositions?: ReadonlyMap<string, WorldPosition>,
 ): { questId: string; objectiveId: string }[] {
   const results: { questId: string; objectiveId: string }[] = [];
-  const playerPos = state.playerPosition;
 
   for (const aq of state.activeQuests) {
     const questDef: Quest | undefined = state.getQuestDefinition(aq.questId);
@@ -276,16 +326,15 @@ export function checkProximityObjectives(
     if (!stage) continue;
 
     for (const obj of stage.objectives) {
-      // Only visit-type objectives auto-complete on proximity
-      if (obj.type !== 'visit') continue;
+      if (!PROXIMITY_OBJECTIVE_TYPES.has(obj.type)) continue;
 
       const progress = aq.objectiveProgress[obj.id] ?? 0;
       if (progress >= obj.count) continue; // Already complete
 
-      const { position } = resolveMarkerTarget(obj, state);
-      if (!position) continue;
+      const { destination, arrival } = resolveArrival(obj, state, livePositions);
+      if (!destination || !arrival) continue;
 
-      const distance = distanceXZ(playerPos, position);
+      const distance = distanceXZ(arrival, destination);
       const radius = obj.completionRadius ?? 10;
 
       if (distance <= radius) {
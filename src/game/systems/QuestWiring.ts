@@ -5,6 +5,12 @@
  * Zustand store. Each objective type has a dedicated handler that matches
  * incoming events against active quest objectives.
  *
+ * Escort, defend and stealth objectives can also fail: a dead escort, an
+ * overrun position or full stealth detection fails the quest (into its
+ * fail stage, if it has one). The events themselves come from the world:
+ * QuestEncounters reports escorts arriving and raider waves, and the law's
+ * gunfire handling reports townsfolk killed.
+ *
  * Usage:
  *   import { initQuestSystem, teardownQuestSystem } from './QuestWiring';
  *   initQuestSystem(gameStore);
@@ -12,6 +18,7 @@
  * @module systems/QuestWiring
  */
 
+import { getClockMinutes } from '../store/slices/questHelpers';
 import type { GameState } from '../store/types';
 import { questEvents, type QuestEventMap, type QuestEventName } from './QuestEvents';
 import { checkProximityObjectives } from './QuestMarkerSystem';
@@ -30,6 +37,11 @@ export interface QuestSystemHandle {
   teardown: () => void;
 }
 
+type WiredObjective = { type: string; target: string; optional?: boolean };
+
+/** Stealth detection level at which stealth objectives fail. */
+export const STEALTH_FAIL_DETECTION = 100;
+
 // ============================================================================
 // OBJECTIVE MATCHERS
 // ============================================================================
@@ -44,6 +56,7 @@ function matchKill(
 ): number {
   if (objective.type !== 'kill') return 0;
   if (objective.target === data.enemyType || objective.target === data.enemyId) return 1;
+  if (data.entityId && objective.target === data.entityId) return 1;
   return 0;
 }
 
@@ -69,7 +82,8 @@ function matchVisit(
   objective: { type: string; target: string },
   data: QuestEventMap['locationVisited'],
 ): number {
-  if (objective.type !== 'visit') return 0;
+  // Reaching a stealth objective's target undetected completes it
+  if (objective.type !== 'visit' && objective.type !== 'stealth') return 0;
   if (objective.target === data.locationId) return 1;
   return 0;
 }
@@ -92,6 +106,32 @@ function matchInteract(
   return 0;
 }
 
+function matchEscort(
+  objective: { type: string; target: string; destination?: string },
+  data: QuestEventMap['npcArrived'],
+): number {
+  if (objective.type !== 'escort') return 0;
+  if (objective.target === data.npcId && objective.destination === data.locationId) return 1;
+  return 0;
+}
+
+function matchSurvive(
+  objective: { type: string; target: string },
+  data: QuestEventMap['timeElapsed'],
+): number {
+  if (objective.type !== 'survive') return 0;
+  return Math.floor(data.minutes);
+}
+
+function matchDefend(
+  objective: { type: string; target: string },
+  data: QuestEventMap['waveDefeated'],
+): number {
+  if (objective.type !== 'defend') return 0;
+  if (objective.target === data.positionId) return 1;
+  return 0;
+}
+
 // ============================================================================
 // PROGRESS UPDATER
 // ============================================================================
@@ -141,6 +181,15 @@ function processEvent<T extends QuestEventName>(
         case 'objectInteracted':
           delta = matchInteract(obj, data as QuestEventMap['objectInteracted']);
           break;
+        case 'npcArrived':
+          delta = matchEscort(obj, data as QuestEventMap['npcArrived']);
+          break;
+        case 'timeElapsed':
+          delta = matchSurvive(obj, data as QuestEventMap['timeElapsed']);
+          break;
+        case 'waveDefeated':
+          delta = matchDefend(obj, data as QuestEventMap['waveDefeated']);
+          break;
         default:
           break;
       }
@@ -153,6 +202,30 @@ function processEvent<T extends QuestEventName>(
   }
 }
 
+/**
+ * Fail every active quest whose current stage has an unfinished, required
+ * objective matching the predicate.
+ */
+function failObjectives(store: StoreApi, matches: (objective: WiredObjective) => boolean): void {
+  const state = store.getState();
+
+  for (const aq of state.activeQuests) {
+    if (aq.status !== 'active') continue;
+    const questDef = state.getQuestDefinition(aq.questId);
+    if (!questDef) continue;
+
+    const stage = questDef.stages[aq.currentStageIndex];
+    if (!stage) continue;
+
+    const failed = stage.objectives.some(
+      (obj) => !obj.optional && (aq.objectiveProgress[obj.id] ?? 0) < obj.count && matches(obj),
+    );
+    if (failed) {
+      state.failQuest(aq.questId, questDef.failStageId);
+    }
+  }
+}
+
 // ============================================================================
 // INIT / TEARDOWN
 // ============================================================================
@@ -177,6 +250,40 @@ export function initQuestSystem(store: StoreApi): QuestSystemHandle {
     processEvent(store, 'itemDelivered', d);
   const onObjectInteracted = (d: QuestEventMap['objectInteracted']) =>
     processEvent(store, 'objectInteracted', d);
+  const onNpcArrived = (d: QuestEventMap['npcArrived']) =>
+    processEvent(store, 'npcArrived', d);
+  const onTimeElapsed = (d: QuestEventMap['timeElapsed']) =>
+    processEvent(store, 'timeElapsed', d);
+  const onWaveDefeated = (d: QuestEventMap['waveDefeated']) =>
+    processEvent(store, 'waveDefeated', d);
+
+  // Failure conditions
+  const onNpcDied = (d: QuestEventMap['npcDied']) =>
+    failObjectives(store, (obj) => obj.type === 'escort' && obj.target === d.npcId);
+  const onPositionOverrun = (d: QuestEventMap['positionOverrun']) =>
+    failObjectives(store, (obj) => obj.type === 'defend' && obj.target === d.positionId);
+  const unsubscribeStealth = store.subscribe((state, prev) => {
+    const detection = state.stealthState.detectionLevel;
+    if (detection >= STEALTH_FAIL_DETECTION && prev.stealthState.detectionLevel < STEALTH_FAIL_DETECTION) {
+      failObjectives(store, (obj) => obj.type === 'stealth');
+    }
+  });
+
+  // Survive objectives count game minutes, including rests and travel
+  let lastClockMinutes = getClockMinutes(store.getState().clockState);
+  const unsubscribeClock = store.getState().onClockEvent('tick', (event) => {
+    const minutes = getClockMinutes(event);
+    const elapsed = minutes - lastClockMinutes;
+    lastClockMinutes = minutes;
+    if (elapsed > 0) questEvents.emit('timeElapsed', { minutes: elapsed });
+  });
+  // The clock ticks before the store catches up, so a clock change the ticks
+  // didn't see is a restore (loading a save); count on from the loaded time
+  const unsubscribeClockRestore = store.subscribe((state, prev) => {
+    if (state.clockState !== prev.clockState) {
+      lastClockMinutes = getClockMinutes(state.clockState);
+    }
+  });
 
   // Proximity-based visit objective completion.
   // When the player moves, check if they are within the completionRadius
@@ -192,9 +299,11 @@ export function initQuestSystem(store: StoreApi): QuestSystemHandle {
       const stage = questDef.stages[aq.currentStageIndex];
       if (!stage) continue;
       const obj = stage.objectives.find((o) => o.id === objectiveId);
-      if (!obj) continue;
+      // Escorts arrive where they are walking, not where they were spawned;
+      // QuestEncounters reports them from their live positions
+      if (!obj || obj.type === 'escort') continue;
       state.updateObjective(questId, objectiveId, obj.count);
-      // Also emit locationVisited so other systems can react
+      // Also emit the arrival so other systems can react
       questEvents.emit('locationVisited', { locationId: obj.target });
     }
   };
@@ -206,6 +315,11 @@ export function initQuestSystem(store: StoreApi): QuestSystemHandle {
   questEvents.on('itemDelivered', onItemDelivered);
   questEvents.on('objectInteracted', onObjectInteracted);
   questEvents.on('playerMoved', onPlayerMoved);
+  questEvents.on('npcArrived', onNpcArrived);
+  questEvents.on('timeElapsed', onTimeElapsed);
+  questEvents.on('waveDefeated', onWaveDefeated);
+  questEvents.on('npcDied', onNpcDied);
+  questEvents.on('positionOverrun', onPositionOverrun);
 
   return {
     teardown() {
@@ -216,6 +330,14 @@ export function initQuestSystem(store: StoreApi): QuestSystemHandle {
       questEvents.off('itemDelivered', onItemDelivered);
       questEvents.off('objectInteracted', onObjectInteracted);
       questEvents.off('playerMoved', onPlayerMoved);
+      questEvents.off('npcArrived', onNpcArrived);
+      questEvents.off('timeElapsed', onTimeElapsed);
+      questEvents.off('waveDefeated', onWaveDefeated);
+      questEvents.off('npcDied', onNpcDied);
+      questEvents.off('positionOverrun', onPositionOverrun);
+      unsubscribeStealth();
+      unsubscribeClock();
+      unsubscribeClockRestore();
     },
   };
 }
@@ -1,14 +1,21 @@
 /**
- * StealthSystem - Calculates player detection level based on proximity to hostiles
+ * StealthSystem - Calculates player detection level from what hostiles perceive
  *
  * Detection formula:
- *   base = inverseLerp(detectionRange, 0, distanceToNearestHostile) * 100
+ *   base = max(max(observer visibility), max(heard noise) * NOISE_WEIGHT) * 100
+ *
+ * Each observer's visibility (0-1) comes from the enemy AI's vision cone, line
+ * of sight, lighting and weather. Callers without perception data can omit
+ * `observers` and fall back to proximity:
+ *   base = inverseLerp(detectionRange * visibility, 0, distanceToNearestHostile) * 100
+ * where `visibility` is how far the weather lets anyone see (fog, dust).
  *
  * Modifiers (multiplicative):
  *   - Crouching:  -30% detection
- *   - Night time: -20% detection
+ *   - Night time: -20% detection (proximity only; observers already see less at night)
  *   - Moving:     +20% detection
  *   - Sprinting:  +40% detection
+ *   - Perks:      caller-supplied multiplier (e.g. Light Step)
  *
  * Detection decays at 15 units/sec when no hostiles are nearby.
  * Detection grows at 25 units/sec when hostiles are in range.
@@ -46,6 +53,9 @@ const MOVING_MODIFIER = 1.2;
 /** Sprinting modifier — increases detection by this factor */
 const SPRINTING_MODIFIER = 1.4;
 
+/** A noise heard at full volume counts for this much of being seen outright */
+const NOISE_WEIGHT = 0.6;
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -67,6 +77,14 @@ export interface StealthTickInput {
   dt: number;
   /** Positions of all hostile entities */
   hostilePositions: Array<{ x: number; y: number; z: number }>;
+  /** Detection multiplier from perks (default 1) */
+  perkModifier?: number;
+  /** How clearly each hostile currently sees the player (0-1), from their vision cones */
+  observers?: number[];
+  /** How loud the player's noise was to each hostile (0-1) */
+  hearing?: number[];
+  /** How far the weather lets anyone see, as a fraction of a clear day (default 1) */
+  visibility?: number;
 }
 
 export interface StealthTickResult {
@@ -93,6 +111,18 @@ function distanceXZ(
   return Math.sqrt(dx * dx + dz * dz);
 }
 
+/**
+ * Base detection (0-100) from distance alone, for callers without perception data.
+ */
+function proximityDetection(nearest: number, visibility: number): number {
+  const range = Math.max(MIN_DETECTION_DISTANCE * 2, DETECTION_RANGE * visibility);
+  if (nearest > range) return 0;
+  // Clamp distance to [MIN_DETECTION_DISTANCE, range]
+  const clampedDist = Math.max(MIN_DETECTION_DISTANCE, Math.min(range, nearest));
+  // inverseLerp: 1.0 at MIN_DETECTION_DISTANCE, 0.0 at range
+  return (1 - (clampedDist - MIN_DETECTION_DISTANCE) / (range - MIN_DETECTION_DISTANCE)) * 100;
+}
+
 /**
  * Run one stealth tick.
  *
@@ -109,6 +139,10 @@ export function tickStealth(input: StealthTickInput): StealthTickResult {
     currentDetection,
     dt,
     hostilePositions,
+    perkModifier = 1,
+    observers,
+    hearing = [],
+    visibility = 1,
   } = input;
 
   // No hostiles — decay toward zero
@@ -124,23 +158,22 @@ export function tickStealth(input: StealthTickInput): StealthTickResult {
     if (d < nearest) nearest = d;
   }
 
-  // If nearest hostile is beyond detection range, decay
-  if (nearest > DETECTION_RANGE) {
+  const heard = Math.max(0, ...hearing) * NOISE_WEIGHT * 100;
+  const rawTarget = Math.max(
+    heard,
+    observers ? Math.max(0, ...observers) * 100 : proximityDetection(nearest, visibility),
+  );
+
+  // Nobody can see or hear the player (or nobody is close enough), decay
+  if (rawTarget <= 0) {
     const decayed = Math.max(0, currentDetection - DETECTION_DECAY_RATE * dt);
     return { detectionLevel: decayed, nearestHostileDistance: nearest };
   }
 
-  // Calculate target detection from distance
-  // Clamp distance to [MIN_DETECTION_DISTANCE, DETECTION_RANGE]
-  const clampedDist = Math.max(MIN_DETECTION_DISTANCE, Math.min(DETECTION_RANGE, nearest));
-  // inverseLerp: 1.0 at MIN_DETECTION_DISTANCE, 0.0 at DETECTION_RANGE
-  const rawTarget =
-    (1 - (clampedDist - MIN_DETECTION_DISTANCE) / (DETECTION_RANGE - MIN_DETECTION_DISTANCE)) * 100;
-
   // Apply modifiers
-  let modifier = 1.0;
+  let modifier = perkModifier;
   if (isCrouching) modifier *= CROUCH_MODIFIER;
-  if (isNight) modifier *= NIGHT_MODIFIER;
+  if (isNight && !observers) modifier *= NIGHT_MODIFIER;
   if (isSprinting) {
     modifier *= SPRINTING_MODIFIER;
   } else if (isMoving) {
@@ -0,0 +1,78 @@
+/**
+ * Subtitles - Lines of speech and sound captions for the subtitle overlay.
+ *
+ * Anything that speaks or makes a sound worth captioning posts it here;
+ * the overlay subscribes and decides, from the player's accessibility
+ * settings, which kinds to show. Each line stays up for a time based on its
+ * length.
+ *
+ * @module systems/Subtitles
+ */
+
+export type SubtitleKind = 'speech' | 'sound';
+
+export interface Subtitle {
+  id: number;
+  kind: SubtitleKind;
+  /** Who is talking, for speech */
+  speaker: string | null;
+  text: string;
+  /** Seconds to keep it on screen */
+  duration: number;
+}
+
+export type SubtitleListener = (subtitle: Subtitle) => void;
+
+/** Shortest time any line is shown (seconds) */
+export const MIN_SUBTITLE_DURATION = 2;
+/** Extra time per word, at an easy reading pace (seconds) */
+export const SUBTITLE_SECONDS_PER_WORD = 0.3;
+
+/** How long to show `text` for. */
+export function getSubtitleDuration(text: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return Math.max(MIN_SUBTITLE_DURATION, words * SUBTITLE_SECONDS_PER_WORD);
+}
+
+export class SubtitleFeed {
+  private listeners = new Set<SubtitleListener>();
+  private nextId = 1;
+
+  /** Post a line spoken by `speaker`. */
+  say(speaker: string, text: string): Subtitle {
+    return this.post('speech', speaker, text);
+  }
+
+  /** Post a caption for a sound, e.g. "Bullet whizzes past". */
+  caption(text: string): Subtitle {
+    return this.post('sound', null, text);
+  }
+
+  /** Subscribe to new lines. Returns an unsubscribe function. */
+  subscribe(listener: SubtitleListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Drop all listeners (useful for cleanup/tests). */
+  clear(): void {
+    this.listeners.clear();
+  }
+
+  private post(kind: SubtitleKind, speaker: string | null, text: string): Subtitle {
+    const subtitle: Subtitle = {
+      id: this.nextId++,
+      kind,
+      speaker,
+      text,
+      duration: getSubtitleDuration(text),
+    };
+    for (const listener of this.listeners) listener(subtitle);
+    return subtitle;
+  }
+}
+
+/** Global subtitle feed. */
+export const subtitles = new SubtitleFeed();
@@ -24,6 +24,7 @@ import {
   MIN_TRAVEL_MS,
   MAX_TRAVEL_MS,
 } from './constants.ts';
+import { adjustTravelTime, mountedTravelSpeed } from './utilities.ts';
 
 // ============================================================================
 // TRAVEL MANAGER
@@ -46,13 +47,20 @@ export class TravelManager {
   // --------------------------------------------------------------------------
 
   /**
-   * Begin a new travel sequence.
+   * Begin a new travel sequence. `travelSpeed` scales the usual pace, e.g.
+   * the weather's effect on travel; slower journeys take more game hours.
+   * `mountSpeed` is the pace of the player's horse, which only counts
+   * on overland routes.
    *
    * @returns The initial TravelState for the store, or null if route is invalid.
    */
-  startTravel(route: TravelRoute): TravelState {
-    const durationMs = this.calculateDurationMs(route.travelTime);
-    const checkpoints = this.createCheckpoints(route);
+  startTravel(route: TravelRoute, travelSpeed = 1, mountSpeed = 1): TravelState {
+    const travelTime = adjustTravelTime(
+      route.travelTime,
+      travelSpeed * mountedTravelSpeed(route.method, mountSpeed)
+    );
+    const durationMs = this.calculateDurationMs(travelTime);
+    const checkpoints = this.createCheckpoints({ ...route, travelTime });
 
     this.state = {
       route,
@@ -69,7 +77,7 @@ export class TravelManager {
       fromLocationId: route.fromLocationId,
       toLocationId: route.toLocationId,
       method: route.method,
-      travelTime: route.travelTime,
+      travelTime,
       progress: 0,
       dangerLevel: route.danger,
       startedAt: this.state.startedAt,
@@ -4,7 +4,7 @@
  * @module systems/TravelManager/constants
  */
 
-import type { DangerLevel } from '../../data/schemas/world.ts';
+import type { DangerLevel, TravelMethod } from '../../data/schemas/world.ts';
 
 // ============================================================================
 // CONSTANTS
@@ -34,3 +34,6 @@ export function getCheckpointCount(travelTimeHours: number): number {
 export const MS_PER_GAME_HOUR_BASE = 400;
 export const MIN_TRAVEL_MS = 2000;
 export const MAX_TRAVEL_MS = 12000;
+
+/** Methods a rider covers faster on horseback; rails and rivers carry them at their own pace */
+export const OVERLAND_METHODS: readonly TravelMethod[] = ['road', 'trail', 'wilderness'];
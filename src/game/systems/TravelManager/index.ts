@@ -17,4 +17,9 @@ export type {
 export { TravelManager, getTravelManager } from './TravelManagerClass.ts';
 
 // Utility functions
-export { dangerDescription, methodDescription } from './utilities.ts';
+export {
+  adjustTravelTime,
+  mountedTravelSpeed,
+  dangerDescription,
+  methodDescription,
+} from './utilities.ts';
@@ -1,11 +1,13 @@
 /**
  * TravelManager utility functions — Human-readable descriptions for
- * danger levels and travel methods.
+ * danger levels and travel methods, and travel time in bad weather or
+ * on horseback.
  *
  * @module systems/TravelManager/utilities
  */
 
 import type { DangerLevel, TravelMethod } from '../../data/schemas/world.ts';
+import { OVERLAND_METHODS } from './constants.ts';
 
 // ============================================================================
 // UTILITY FUNCTIONS
@@ -50,3 +52,20 @@ export function methodDescription(method: TravelMethod): string {
       return 'Unknown travel method.';
   }
 }
+
+/**
+ * Game hours a journey of `travelTimeHours` takes at `travelSpeed` times
+ * the usual pace (e.g. slowed by a dust storm), to the nearest tenth.
+ */
+export function adjustTravelTime(travelTimeHours: number, travelSpeed: number): number {
+  if (travelSpeed <= 0) return travelTimeHours;
+  return Math.round((travelTimeHours / travelSpeed) * 10) / 10;
+}
+
+/**
+ * Pace a horse sets over a route by `method`: `mountSpeed` overland, the
+ * usual pace by rail or river where the horse is just cargo.
+ */
+export function mountedTravelSpeed(method: TravelMethod, mountSpeed: number): number {
+  return OVERLAND_METHODS.includes(method) ? mountSpeed : 1;
+}
@@ -0,0 +1,287 @@
+/**
+ * accessibility.test.ts - Tests for hold/toggle actions, aim assist,
+ * ambient barks, the subtitle feed and the accessibility settings
+ */
+
+import * as THREE from 'three';
+import { create } from 'zustand';
+import {
+  AIM_ASSIST_CONE,
+  type CombatEnemy,
+  computeAimAssist,
+  createEnemyAI,
+  disposeEnemyAI,
+} from '../../engine/combat';
+import type { IInputProvider } from '../../input/IInputProvider';
+import { createEmptyFrame, type InputFrame } from '../../input/InputFrame';
+import { InputManager } from '../../input/InputManager';
+import {
+  createSettingsSlice,
+  DEFAULT_ACCESSIBILITY,
+  getAccessibility,
+  normalizeSettings,
+  type SettingsSlice,
+} from '../../store/slices/settingsSlice';
+import type { GameSettings, NPC } from '../../store/types';
+import { AmbientBarker, BARK_COOLDOWN, BARK_GAP, BARK_RADIUS } from '../AmbientBarks';
+import { getSubtitleDuration, MIN_SUBTITLE_DURATION, SubtitleFeed } from '../Subtitles';
+
+/** Reports whatever the test sets on `next`. */
+class ManualProvider implements IInputProvider {
+  readonly name = 'manual';
+  readonly priority = 0;
+  next: Partial<InputFrame> = {};
+
+  poll(): Partial<InputFrame> {
+    return this.next;
+  }
+
+  enable(): void {}
+  disable(): void {}
+  dispose(): void {}
+}
+
+function createManager(): { manager: InputManager; provider: ManualProvider } {
+  InputManager.resetInstance();
+  const manager = InputManager.getInstance();
+  const provider = new ManualProvider();
+  manager.registerProvider(provider);
+  manager.enable();
+  return { manager, provider };
+}
+
+function makeNPC(id: string, overrides: Partial<NPC> = {}): NPC {
+  return {
+    id,
+    name: `Townsfolk ${id}`,
+    role: 'townsfolk',
+    appearance: {} as NPC['appearance'],
+    personality: { aggression: 0.2, friendliness: 0.8, curiosity: 0.5, greed: 0.3, honesty: 0.7 },
+    position: { x: 0, y: 0, z: 0 },
+    rotation: 0,
+    disposition: 50,
+    isAlive: true,
+    questGiver: false,
+    questIds: [],
+    ...overrides,
+  };
+}
+
+describe('hold/toggle actions', () => {
+  afterEach(() => InputManager.resetInstance());
+
+  it('should pass held actions straight through by default', () => {
+    const { manager, provider } = createManager();
+    provider.next = { crouch: true };
+    manager.tick(1 / 60);
+    expect(manager.getFrame().crouch).toBe(true);
+    provider.next = {};
+    manager.tick(1 / 60);
+    expect(manager.getFrame().crouch).toBe(false);
+  });
+
+  it('should latch a toggled action on press and release it on the next press', () => {
+    const { manager, provider } = createManager();
+    manager.setToggleActions(['crouch']);
+
+    provider.next = { crouch: true };
+    manager.tick(1 / 60);
+    manager.tick(1 / 60);
+    provider.next = {};
+    manager.tick(1 / 60);
+    expect(manager.getFrame().crouch).toBe(true);
+
+    provider.next = { crouch: true };
+    manager.tick(1 / 60);
+    expect(manager.getFrame().crouch).toBe(false);
+    provider.next = {};
+    manager.tick(1 / 60);
+    expect(manager.getFrame().crouch).toBe(false);
+  });
+
+  it('should end a toggled sprint when the player stops moving', () => {
+    const { manager, provider } = createManager();
+    manager.setToggleActions(['sprint']);
+
+    provider.next = { sprint: true, move: { x: 0, z: 1 } };
+    manager.tick(1 / 60);
+    provider.next = { move: { x: 0, z: 1 } };
+    manager.tick(1 / 60);
+    expect(manager.getFrame().sprint).toBe(true);
+
+    provider.next = {};
+    manager.tick(1 / 60);
+    expect(manager.getFrame().sprint).toBe(false);
+    provider.next = { move: { x: 0, z: 1 } };
+    manager.tick(1 / 60);
+    expect(manager.getFrame().sprint).toBe(false);
+  });
+
+  it('should drop latches for actions switched back to hold', () => {
+    const { manager, provider } = createManager();
+    manager.setToggleActions(['aim']);
+    provider.next = { aim: true };
+    manager.tick(1 / 60);
+    provider.next = {};
+    manager.tick(1 / 60);
+    expect(manager.getFrame().aim).toBe(true);
+
+    manager.setToggleActions([]);
+    manager.tick(1 / 60);
+    expect(manager.getFrame().aim).toBe(false);
+  });
+});
+
+describe('aim assist', () => {
+  const camera = new THREE.PerspectiveCamera();
+  let enemies: CombatEnemy[] = [];
+
+  /** An enemy `distance` ahead of the camera, `offset` metres to its right. */
+  function enemyAt(offset: number, distance = 20): CombatEnemy {
+    const enemy: CombatEnemy = {
+      entityId: `assist-${enemies.length}`,
+      enemyId: 'bandit_gunman',
+      level: 1,
+      meshGroup: new THREE.Group(),
+      ai: createEnemyAI(
+        'bandit_gunman',
+        1,
+        { x: offset, y: 0, z: -distance },
+        100,
+        100,
+        `assist-${enemies.length}`
+      ),
+    };
+    enemies.push(enemy);
+    return enemy;
+  }
+
+  function frame(overrides: Partial<InputFrame>): InputFrame {
+    return { ...createEmptyFrame(), ...overrides };
+  }
+
+  beforeEach(() => {
+    camera.position.set(0, 0.8, 0);
+    camera.quaternion.identity();
+  });
+
+  afterEach(() => {
+    for (const enemy of enemies) disposeEnemyAI(enemy.ai);
+    enemies = [];
+  });
+
+  it('should damp look input near a target', () => {
+    enemyAt(0.5);
+    const input = frame({ look: { yaw: 0.01, pitch: 0 } });
+    const correction = computeAimAssist(1 / 60, input, camera, enemies, {
+      slowdown: 0.5,
+      magnetism: 0,
+    });
+    expect(correction.yaw).toBeLessThan(0);
+    expect(correction.yaw).toBeGreaterThan(-0.005);
+  });
+
+  it('should pull toward the target while the player is active', () => {
+    enemyAt(1);
+    const config = { slowdown: 0, magnetism: 1 };
+    const idle = computeAimAssist(1 / 60, frame({}), camera, enemies, config);
+    expect(idle).toEqual({ yaw: 0, pitch: 0 });
+
+    const moving = computeAimAssist(1 / 60, frame({ move: { x: 0, z: 1 } }), camera, enemies, config);
+    // Target is to the right: positive yaw turns right
+    expect(moving.yaw).toBeGreaterThan(0);
+  });
+
+  it('should ignore targets outside the cone', () => {
+    enemyAt(Math.tan(AIM_ASSIST_CONE * 2) * 20);
+    const correction = computeAimAssist(
+      1 / 60,
+      frame({ look: { yaw: 0.01, pitch: 0 } }),
+      camera,
+      enemies,
+      { slowdown: 1, magnetism: 1 }
+    );
+    expect(correction).toEqual({ yaw: 0, pitch: 0 });
+  });
+});
+
+describe('ambient barks', () => {
+  const player = { x: 0, z: 0 };
+
+  it('should let the nearest NPC in earshot speak', () => {
+    const barker = new AmbientBarker();
+    const near = makeNPC('near');
+    const bark = barker.update(
+      100,
+      player,
+      [
+        { npc: makeNPC('far'), x: BARK_RADIUS + 1, z: 0 },
+        { npc: near, x: 2, z: 0 },
+        { npc: makeNPC('dead', { isAlive: false }), x: 1, z: 0 },
+      ],
+      7
+    );
+    expect(bark?.npc).toBe(near);
+    expect(bark?.text.length).toBeGreaterThan(0);
+  });
+
+  it('should space barks apart and rest each speaker', () => {
+    const barker = new AmbientBarker();
+    const a = { npc: makeNPC('a'), x: 1, z: 0 };
+    const b = { npc: makeNPC('b'), x: 3, z: 0 };
+
+    expect(barker.update(100, player, [a, b])?.npc.id).toBe('a');
+    expect(barker.update(100 + BARK_GAP / 2, player, [a, b])).toBeNull();
+    // After the gap, the first speaker is still resting
+    expect(barker.update(100 + BARK_GAP, player, [a, b])?.npc.id).toBe('b');
+    expect(barker.update(100 + BARK_GAP * 2, player, [a, b])).toBeNull();
+    expect(barker.update(100 + BARK_COOLDOWN, player, [a, b])?.npc.id).toBe('a');
+  });
+});
+
+describe('subtitle feed', () => {
+  it('should post speech and captions to listeners until unsubscribed', () => {
+    const feed = new SubtitleFeed();
+    const received: string[] = [];
+    const unsubscribe = feed.subscribe((line) =>
+      received.push(line.kind === 'speech' ? `${line.speaker}: ${line.text}` : `[${line.text}]`)
+    );
+
+    feed.say('Sheriff', 'Evening.');
+    feed.caption('Door creaks open');
+    unsubscribe();
+    feed.say('Sheriff', 'Anyone there?');
+
+    expect(received).toEqual(['Sheriff: Evening.', '[Door creaks open]']);
+  });
+
+  it('should keep longer lines up longer', () => {
+    expect(getSubtitleDuration('Howdy.')).toBe(MIN_SUBTITLE_DURATION);
+    const long = 'Word '.repeat(20);
+    expect(getSubtitleDuration(long)).toBeGreaterThan(MIN_SUBTITLE_DURATION);
+  });
+});
+
+describe('accessibility settings', () => {
+  function createStore() {
+    return create<SettingsSlice>()((...a) => ({ ...createSettingsSlice(...a) }));
+  }
+
+  it('should clamp aim assist strengths and keep other options', () => {
+    const store = createStore();
+    store.getState().setAccessibility({ colorblindMode: 'tritanopia' });
+    store.getState().setAccessibility({ aimAssist: { slowdown: 1.6, magnetism: -0.2 } });
+
+    const accessibility = getAccessibility(store.getState().settings);
+    expect(accessibility.colorblindMode).toBe('tritanopia');
+    expect(accessibility.aimAssist).toEqual({ enabled: true, slowdown: 1, magnetism: 0 });
+  });
+
+  it('should fill in settings missing from older saves', () => {
+    const old = { musicVolume: 0.3 } as Partial<GameSettings>;
+    const settings = normalizeSettings(old);
+    expect(settings.musicVolume).toBe(0.3);
+    expect(settings.accessibility).toEqual(DEFAULT_ACCESSIBILITY);
+    expect(settings.controls.activation.crouch).toBe('toggle');
+  });
+});
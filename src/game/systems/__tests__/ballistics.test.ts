@@ -0,0 +1,154 @@
+/**
+ * ballistics.test.ts - Tests for simulated rifle bullets: drop, travel time,
+ * penetration, ricochets and enemy fire
+ */
+
+import * as THREE from 'three';
+import {
+  createWeaponState,
+  ENEMY_BULLET_TAG,
+  fireBullet,
+  getWeaponConfig,
+  PLAYER_BULLET_TAG,
+  stepBullets,
+  type CombatTickResult,
+} from '../../engine/combat';
+import { projectiles, world } from '../../ecs';
+import { tagSurface, type Surface } from '../../engine/materials';
+
+const rifle = getWeaponConfig('hunting_rifle');
+const ballistics = rifle?.ballistics ?? { muzzleVelocity: 600, penetration: 0.3 };
+const weaponState = createWeaponState('hunting_rifle');
+const FAR_AWAY = { x: 0, y: 0, z: 1000 };
+
+function emptyResult(): CombatTickResult {
+  return {
+    damageNumbers: [],
+    hitMarker: null,
+    muzzleFlash: null,
+    deathEffects: [],
+    impactSparks: [],
+    playerDamageEvents: [],
+    killedEnemies: [],
+    killedEnemyData: [],
+    npcHits: [],
+    playerFired: false,
+    weaponWear: 0,
+    weaponJammed: false,
+    weaponState,
+    crosshairSpread: 0,
+    aimAssist: { yaw: 0, pitch: 0 },
+  };
+}
+
+/** A wall across the x axis at `x`, `thickness` meters deep. */
+function wall(scene: THREE.Scene, x: number, thickness: number, surface?: Surface): THREE.Mesh {
+  const material = new THREE.MeshBasicMaterial();
+  const mesh = new THREE.Mesh(
+    new THREE.BoxGeometry(thickness, 4, 4),
+    surface ? tagSurface(material, surface) : material,
+  );
+  mesh.position.set(x, 0, 0);
+  scene.add(mesh);
+  scene.updateMatrixWorld();
+  return mesh;
+}
+
+function fire(direction = { x: 1, y: 0, z: 0 }, tag = PLAYER_BULLET_TAG, damage = 1) {
+  fireBullet(tag, { x: 0, y: 0, z: 0 }, direction, 'hunting_rifle', ballistics, 900, damage, 'test');
+  return [...projectiles][0];
+}
+
+describe('ballistics', () => {
+  let scene: THREE.Scene;
+
+  beforeEach(() => {
+    scene = new THREE.Scene();
+  });
+
+  afterEach(() => {
+    for (const bullet of [...projectiles]) world.remove(bullet);
+  });
+
+  it('should give rifles ballistics and leave pistols hitscan', () => {
+    expect(rifle?.ballistics?.muzzleVelocity).toBeGreaterThan(0);
+    expect(getWeaponConfig('revolver')?.ballistics).toBeUndefined();
+  });
+
+  it('should travel at muzzle velocity and drop under gravity', () => {
+    const bullet = fire();
+    for (let i = 0; i < 10; i++) {
+      stepBullets(0.05, scene, [], FAR_AWAY, weaponState, 'normal', emptyResult());
+    }
+    expect(bullet.position.x).toBeCloseTo(ballistics.muzzleVelocity * 0.5, 0);
+    expect(bullet.position.y).toBeLessThan(-0.5);
+
+    // Expires once it has flown its range
+    for (let i = 0; i < 20; i++) {
+      stepBullets(0.1, scene, [], FAR_AWAY, weaponState, 'normal', emptyResult());
+    }
+    expect([...projectiles]).toHaveLength(0);
+  });
+
+  it('should punch through a thin wooden wall, losing damage', () => {
+    wall(scene, 10, 0.1, 'wood');
+    const bullet = fire();
+    const result = emptyResult();
+    stepBullets(0.05, scene, [], FAR_AWAY, weaponState, 'normal', result);
+
+    expect(result.impactSparks).toHaveLength(1);
+    expect(bullet.projectile.damage).toBeCloseTo(0.8);
+    expect(bullet.projectile.penetration).toBeCloseTo(ballistics.penetration - 0.1);
+    expect([...projectiles]).toHaveLength(1);
+  });
+
+  it('should stop in stone and in anything untagged', () => {
+    wall(scene, 10, 0.1, 'stone');
+    fire();
+    const result = emptyResult();
+    stepBullets(0.05, scene, [], FAR_AWAY, weaponState, 'normal', result);
+    expect(result.impactSparks).toHaveLength(1);
+    expect([...projectiles]).toHaveLength(0);
+
+    scene.clear();
+    wall(scene, 10, 0.1);
+    fire();
+    stepBullets(0.05, scene, [], FAR_AWAY, weaponState, 'normal', emptyResult());
+    expect([...projectiles]).toHaveLength(0);
+  });
+
+  it('should ricochet off metal at a glancing angle', () => {
+    wall(scene, 10, 0.1, 'metal');
+    // Nearly parallel to the wall's face, coming in from the side
+    const bullet = fire({ x: 0.1, y: 0, z: -1 });
+    bullet.position = { x: 8, y: 0, z: 20 };
+    const result = emptyResult();
+    stepBullets(0.05, scene, [], FAR_AWAY, weaponState, 'normal', result);
+
+    expect(result.impactSparks).toHaveLength(1);
+    expect(bullet.velocity.x).toBeLessThan(0);
+    expect(bullet.projectile.damage).toBeCloseTo(0.5);
+  });
+
+  it('should hit the player only after the travel time, unless cover is in the way', () => {
+    const player = { x: 120, y: 0.5, z: 0 };
+    fire({ x: 1, y: 0, z: 0 }, ENEMY_BULLET_TAG, 30);
+
+    const early = emptyResult();
+    stepBullets(0.1, scene, [], player, weaponState, 'normal', early);
+    expect(early.playerDamageEvents).toHaveLength(0);
+
+    const arrived = emptyResult();
+    stepBullets(0.2, scene, [], player, weaponState, 'normal', arrived);
+    expect(arrived.playerDamageEvents).toEqual([
+      { damage: 30, attackerEntityId: 'test', attackDirection: expect.any(Object) },
+    ]);
+
+    wall(scene, 60, 1, 'stone');
+    fire({ x: 1, y: 0, z: 0 }, ENEMY_BULLET_TAG, 30);
+    const blocked = emptyResult();
+    stepBullets(0.3, scene, [], player, weaponState, 'normal', blocked);
+    expect(blocked.playerDamageEvents).toHaveLength(0);
+    expect(blocked.impactSparks).toHaveLength(1);
+  });
+});
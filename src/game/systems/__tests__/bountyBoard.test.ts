@@ -0,0 +1,310 @@
+/**
+ * bountyBoard.test.ts - Tests for sheriff's bounty boards: contract
+ * generation and rotation, the dead-or-alive contract flow through the
+ * store, and taking an outlaw alive with a limb shot
+ */
+
+import * as THREE from 'three';
+import { create } from 'zustand';
+import {
+  createActiveQuest,
+  isCurrentStageComplete,
+  QuestSchema,
+  validateQuestStageGraph,
+} from '../../data/schemas/quest';
+import {
+  applyEnemyHit,
+  type CombatEnemy,
+  type CombatTickResult,
+  createEnemyAI,
+  createWeaponState,
+  disposeEnemyAI,
+} from '../../engine/combat';
+import {
+  type BountyBoardSlice,
+  type BountyBoardSliceDeps,
+  createBountyBoardSlice,
+} from '../../store/slices/bountyBoardSlice';
+import { createQuestSlice, type QuestSlice, type QuestSliceDeps } from '../../store/slices/questSlice';
+import type { PlayerStats } from '../../store/types';
+import {
+  BOARD_SIZE,
+  type BoardContext,
+  CAPTURE_EXIT_ID,
+  generateContract,
+  getCaptureTarget,
+  getContractStatus,
+  getOutlawSpawns,
+  KILL_EXIT_ID,
+  ROTATION_DAYS,
+  rotateBoard,
+} from '../bountyBoard';
+import type { Jurisdiction } from '../law';
+import { DEFAULT_CLOCK_STATE } from '../time';
+
+const CAMPS = [
+  { locationId: 'dry_gulch', name: 'Dry Gulch', coord: { wx: 2, wy: 1 } },
+  { locationId: 'old_mission', name: 'Old Mission', coord: { wx: -3, wy: 0 } },
+  { locationId: 'far_ridge', name: 'Far Ridge', coord: { wx: 40, wy: 40 } },
+  { locationId: 'snake_pass', name: 'Snake Pass', coord: { wx: 0, wy: 4 } },
+];
+
+function context(day = 0, townId = 'dusty_springs'): BoardContext {
+  return {
+    worldSeed: 1234,
+    office: { townId, townName: 'Dusty Springs', coord: { wx: 0, wy: 0 } },
+    camps: CAMPS,
+    day,
+    playerLevel: 3,
+  };
+}
+
+describe('bounty contracts', () => {
+  it('should post the same contract for the same office and rotation', () => {
+    const a = generateContract(context(), 0, 0);
+    const b = generateContract(context(), 0, 0);
+    expect(a).not.toBeNull();
+    expect(b).toEqual(a);
+    expect(generateContract(context(0, 'red_gulch'), 0, 0)?.outlaw.name).not.toBe(a?.outlaw.name);
+  });
+
+  it('should send the outlaw to one of the camps nearest the office', () => {
+    for (let slot = 0; slot < BOARD_SIZE; slot++) {
+      expect(generateContract(context(), 0, slot)?.campLocationId).not.toBe('far_ridge');
+    }
+  });
+
+  it('should pay more for the outlaw alive than dead', () => {
+    const contract = generateContract(context(), 0, 0)!;
+    expect(contract.reward).toBeGreaterThan(0);
+    expect(contract.captureReward).toBeGreaterThan(contract.reward);
+  });
+
+  it('should write a valid quest that branches on how the outlaw was taken', () => {
+    const { quest, outlaw, reward, captureReward } = generateContract(context(), 0, 1)!;
+    expect(() => QuestSchema.parse(quest)).not.toThrow();
+    expect(validateQuestStageGraph(quest)).toEqual([]);
+
+    const [hunt, alive, dead] = quest.stages;
+    expect(hunt.objectives.map((o) => o.target)).toEqual([outlaw.id, getCaptureTarget(outlaw.id)]);
+    expect(hunt.exits?.map((e) => [e.id, e.nextStageId])).toEqual([
+      [CAPTURE_EXIT_ID, alive.id],
+      [KILL_EXIT_ID, dead.id],
+    ]);
+    expect(alive.stageRewards?.gold).toBe(captureReward);
+    expect(dead.stageRewards?.gold).toBe(reward);
+    expect(quest.rewards.gold).toBe(0);
+  });
+
+  it('should gather the gang around the outlaw, only the outlaw capturable', () => {
+    const contract = generateContract(context(), 0, 0)!;
+    const spawns = getOutlawSpawns(contract);
+    expect(spawns).toHaveLength(1 + contract.outlaw.gangSize);
+    expect(spawns.filter((s) => s.capturable).map((s) => s.id)).toEqual([contract.outlaw.id]);
+  });
+});
+
+describe('bounty board rotation', () => {
+  it('should fill the board and keep it until the rotation ends', () => {
+    const board = rotateBoard(undefined, context(0), () => false);
+    expect(board.contracts).toHaveLength(BOARD_SIZE);
+    expect(rotateBoard(board, context(ROTATION_DAYS - 1), () => false)).toBe(board);
+  });
+
+  it('should keep contracts still being worked when new posters go up', () => {
+    const board = rotateBoard(undefined, context(0), () => false);
+    const [worked] = board.contracts;
+    const next = rotateBoard(board, context(ROTATION_DAYS), (c) => c.id === worked.id);
+
+    expect(next.contracts).toHaveLength(BOARD_SIZE);
+    expect(next.contracts[0]).toBe(worked);
+    expect(next.contracts.slice(1).map((c) => c.id)).not.toContain(board.contracts[1].id);
+  });
+
+  it('should track where a contract stands from its quest', () => {
+    const contract = generateContract(context(), 0, 0)!;
+    const accepted = { ...contract, accepted: true };
+    expect(getContractStatus(contract, undefined)).toBe('posted');
+    expect(getContractStatus(accepted, { status: 'active', currentStageIndex: 0 })).toBe('hunting');
+    expect(getContractStatus(accepted, { status: 'active', currentStageIndex: 1 })).toBe(
+      'claimable'
+    );
+    expect(getContractStatus(accepted, undefined)).toBe('closed');
+  });
+});
+
+describe('BountyBoardSlice', () => {
+  type Store = BountyBoardSlice & BountyBoardSliceDeps & QuestSlice & QuestSliceDeps;
+  let store: ReturnType<typeof create<Store>>;
+  let gold: number;
+  let panels: string[];
+  let discovered: string[];
+
+  const jurisdiction = (townId?: string): Jurisdiction => ({
+    townId: townId ?? 'dusty_springs',
+    townName: townId === 'signal_rock' ? 'Signal Rock' : 'Dusty Springs',
+    lawLevel: townId === 'signal_rock' ? 'lawless' : 'orderly',
+    faction: 'townsfolk',
+  });
+
+  beforeEach(() => {
+    gold = 0;
+    panels = [];
+    discovered = [];
+    const questSlice = createQuestSlice({
+      getQuestById: () => undefined,
+      createActiveQuest,
+      isCurrentStageComplete,
+    });
+    store = create<Store>()((set, get, api) => ({
+      ...questSlice(set, get, api),
+      ...createBountyBoardSlice(set, get, api),
+      worldSeed: 1234,
+      currentLocationId: 'dusty_springs',
+      loadedWorld: {
+        locations: new Map(
+          CAMPS.map((camp) => [
+            camp.locationId,
+            { ref: { id: camp.locationId, name: camp.name, type: 'camp', coord: camp.coord } },
+          ])
+        ),
+      },
+      clockState: { ...DEFAULT_CLOCK_STATE },
+      playerStats: { level: 3 } as PlayerStats,
+      getLawJurisdiction: jurisdiction,
+      discoverLocation: (id) => {
+        discovered.push(id);
+      },
+      openPanel: (panel) => {
+        panels.push(panel);
+      },
+      addNotification: () => {},
+      gainXP: () => {},
+      addGold: (amount) => {
+        gold += amount;
+      },
+      addItemById: () => {},
+      changeReputation: () => [],
+      onClockEvent: () => () => {},
+    }));
+  });
+
+  it('should open the board in a town with law, but not a lawless one', () => {
+    expect(store.getState().openBountyBoard()).toBe(true);
+    expect(panels).toEqual(['bounties']);
+    expect(store.getState().bountyBoards.dusty_springs.contracts).toHaveLength(BOARD_SIZE);
+
+    expect(store.getState().openBountyBoard('signal_rock')).toBe(false);
+    expect(store.getState().bountyBoards.signal_rock).toBeUndefined();
+  });
+
+  it('should pay the bigger reward for an outlaw taken alive', () => {
+    store.getState().openBountyBoard();
+    const [contract] = store.getState().bountyBoards.dusty_springs.contracts;
+
+    expect(store.getState().acceptContract(contract.id)).toBe(true);
+    expect(store.getState().acceptContract(contract.id)).toBe(false);
+    expect(discovered).toEqual([contract.campLocationId]);
+    expect(store.getState().getHuntedContracts(contract.campLocationId)).toHaveLength(1);
+    expect(store.getState().claimContract(contract.id)).toBe(false);
+
+    store.getState().updateObjective(contract.id, `${contract.id}_capture`, 1);
+    expect(store.getState().getContractStatus(contract.id)).toBe('claimable');
+    expect(store.getState().getHuntedContracts(contract.campLocationId)).toHaveLength(0);
+
+    expect(store.getState().claimContract(contract.id)).toBe(true);
+    expect(gold).toBe(contract.captureReward);
+    expect(store.getState().getContractStatus(contract.id)).toBe('closed');
+  });
+
+  it('should pay the posted reward for a dead outlaw', () => {
+    store.getState().openBountyBoard();
+    const [contract] = store.getState().bountyBoards.dusty_springs.contracts;
+    store.getState().acceptContract(contract.id);
+
+    store.getState().updateObjective(contract.id, `${contract.id}_kill`, 1);
+    store.getState().claimContract(contract.id);
+    expect(gold).toBe(contract.reward);
+  });
+
+  it('should keep an accepted contract on the board through rotations', () => {
+    store.getState().openBountyBoard();
+    const [contract] = store.getState().bountyBoards.dusty_springs.contracts;
+    store.getState().acceptContract(contract.id);
+
+    store.getState().rotateBountyBoards(ROTATION_DAYS * 2);
+    const board = store.getState().bountyBoards.dusty_springs;
+    expect(board.contracts[0].id).toBe(contract.id);
+    expect(store.getState().getQuestDefinition(contract.id)).toBe(contract.quest);
+  });
+});
+
+describe('taking an outlaw alive', () => {
+  const weaponState = createWeaponState('revolver');
+  let enemy: CombatEnemy;
+
+  function result(): CombatTickResult {
+    return {
+      damageNumbers: [],
+      hitMarker: null,
+      muzzleFlash: null,
+      deathEffects: [],
+      impactSparks: [],
+      playerDamageEvents: [],
+      killedEnemies: [],
+      killedEnemyData: [],
+      npcHits: [],
+      playerFired: false,
+      weaponWear: 0,
+      weaponJammed: false,
+      weaponState,
+      crosshairSpread: 0,
+      aimAssist: { yaw: 0, pitch: 0 },
+    };
+  }
+
+  function spawnOutlaw(capturable: boolean): CombatEnemy {
+    const root = new THREE.Group();
+    for (const name of ['body', 'leg_r']) {
+      const part = new THREE.Mesh(new THREE.BoxGeometry(0.2, 0.2, 0.2));
+      part.name = name;
+      root.add(part);
+    }
+    return {
+      entityId: 'bounty-outlaw',
+      enemyId: 'bandit_sharpshooter',
+      level: 1,
+      meshGroup: root,
+      // One hit from death
+      ai: createEnemyAI('bandit_sharpshooter', 1, { x: 0, y: 0, z: 0 }, 1, 100, 'bounty-outlaw'),
+      capturable,
+    };
+  }
+
+  function shoot(part: string): CombatTickResult {
+    const tick = result();
+    const mesh = enemy.meshGroup.getObjectByName(part) as THREE.Object3D;
+    applyEnemyHit(enemy, mesh, { x: 0, y: 0.5, z: 0 }, 5, 'revolver', weaponState, 'normal', tick);
+    return tick;
+  }
+
+  afterEach(() => disposeEnemyAI(enemy.ai));
+
+  it('should subdue a capturable outlaw brought down by a limb shot', () => {
+    enemy = spawnOutlaw(true);
+    const tick = shoot('leg_r');
+    expect(tick.killedEnemyData[0].subdued).toBe(true);
+    expect(tick.deathEffects).toHaveLength(0);
+    expect(tick.damageNumbers[0].label).toBe('SUBDUED');
+  });
+
+  it('should kill a capturable outlaw shot in the body', () => {
+    enemy = spawnOutlaw(true);
+    expect(shoot('body').killedEnemyData[0].subdued).toBe(false);
+  });
+
+  it('should kill anyone else whatever the shot', () => {
+    enemy = spawnOutlaw(false);
+    expect(shoot('leg_r').killedEnemyData[0].subdued).toBe(false);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * calendar.test.ts - Tests for seasons, seasonal daylight and temperature,
+ * seasonal gathering and town events in schedules, dialogue and quests
+ */
+
+import { getNPCActivityAt } from '../../data/generation/templates/scheduleTemplates';
+import {
+  preacher_schedule,
+  townsfolk_schedule,
+} from '../../data/generation/templates/scheduleTemplates/officials';
+import type { Quest } from '../../data/schemas/quest';
+import {
+  CALENDAR_START,
+  DAYS_PER_SEASON,
+  DAYS_PER_YEAR,
+  getActiveTownEvents,
+  getCalendarDate,
+  getSeasonalPhaseBoundaries,
+  getTemperature,
+  getTemperatureEffects,
+  getTownEventsOn,
+  isTownEventActive,
+} from '../calendar';
+import { type BridgeStoreReader, canStartQuest, evaluateCondition } from '../DialogueQuestBridge';
+import { DEFAULT_PROVISIONS_CONFIG, ProvisionsSystem } from '../provisions';
+import { executeForage, executeHunt } from '../provisions/gathering';
+import { GameClock } from '../time';
+
+/** First clock day of the next summer */
+const SUMMER_DAY = DAYS_PER_SEASON - CALENDAR_START.dayOfYear + 2;
+const WINTER_DAY = SUMMER_DAY + DAYS_PER_SEASON * 2;
+/** Clock day 1 is a Friday */
+const SUNDAY = 3;
+const FOUNDERS_DAY = SUMMER_DAY + 3;
+
+describe('calendar dates', () => {
+  it('should start on the configured date', () => {
+    expect(getCalendarDate(1)).toEqual({
+      year: CALENDAR_START.year,
+      dayOfYear: CALENDAR_START.dayOfYear,
+      season: 'spring',
+      dayOfSeason: CALENDAR_START.dayOfYear,
+      weekday: 'friday',
+    });
+  });
+
+  it('should turn the seasons, weeks and years', () => {
+    expect(getCalendarDate(SUMMER_DAY - 1).season).toBe('spring');
+    expect(getCalendarDate(SUMMER_DAY)).toMatchObject({ season: 'summer', dayOfSeason: 1 });
+    expect(getCalendarDate(WINTER_DAY).season).toBe('winter');
+    expect(getCalendarDate(SUNDAY).weekday).toBe('sunday');
+    expect(getCalendarDate(SUNDAY + 7).weekday).toBe('sunday');
+
+    const nextYear = getCalendarDate(1 + DAYS_PER_YEAR);
+    expect(nextYear.year).toBe(CALENDAR_START.year + 1);
+    expect(nextYear.dayOfYear).toBe(CALENDAR_START.dayOfYear);
+  });
+});
+
+describe('seasonal daylight', () => {
+  it('should keep summer evenings light and winter ones dark', () => {
+    const summer = new GameClock(
+      { daylight: getSeasonalPhaseBoundaries },
+      { day: SUMMER_DAY, hour: 20 }
+    );
+    const winter = new GameClock(
+      { daylight: getSeasonalPhaseBoundaries },
+      { day: WINTER_DAY, hour: 20 }
+    );
+    expect(summer.getPhase()).toBe('dusk');
+    expect(winter.getPhase()).toBe('night');
+  });
+
+  it('should fall back to the fixed boundaries without a daylight function', () => {
+    const clock = new GameClock({}, { day: WINTER_DAY, hour: 17 });
+    expect(clock.getPhase()).toBe('day');
+  });
+});
+
+describe('temperature', () => {
+  it('should run hottest on summer afternoons and coldest on winter nights', () => {
+    const summerAfternoon = getTemperature(SUMMER_DAY, 15);
+    const summerNight = getTemperature(SUMMER_DAY, 3);
+    const winterNight = getTemperature(WINTER_DAY, 3);
+    expect(summerAfternoon).toBeGreaterThan(summerNight);
+    expect(summerNight).toBeGreaterThan(winterNight);
+  });
+
+  it('should cool off in the rain', () => {
+    const rain = { type: 'rainy' as const, intensity: 1, windDirection: 0, windSpeed: 5 };
+    expect(getTemperature(SUMMER_DAY, 15, rain)).toBeLessThan(getTemperature(SUMMER_DAY, 15));
+  });
+
+  it('should make heat thirsty and cold hungry work', () => {
+    expect(getTemperatureEffects(65)).toEqual({ fatigue: 1, food: 1, water: 1 });
+
+    const hot = getTemperatureEffects(95);
+    expect(hot.water).toBeGreaterThan(1);
+    expect(hot.food).toBe(1);
+    expect(hot.fatigue).toBeGreaterThan(1);
+
+    const cold = getTemperatureEffects(25);
+    expect(cold.food).toBeGreaterThan(1);
+    expect(cold.water).toBe(1);
+    expect(cold.fatigue).toBeGreaterThan(1);
+  });
+
+  it('should scale food eaten on the trail', () => {
+    const warm = new ProvisionsSystem();
+    const cold = new ProvisionsSystem();
+    const base = warm.consumeForTravel(4).foodConsumed;
+    expect(cold.consumeForTravel(4, 1, 1.5).foodConsumed).toBeCloseTo(base * 1.5);
+  });
+});
+
+describe('seasonal gathering', () => {
+  const config = DEFAULT_PROVISIONS_CONFIG;
+
+  it('should find less to forage in winter', () => {
+    // Just under the forest odds: a find any other season, not in winter
+    const roll = config.foragingChances.forest * 0.9;
+    expect(executeForage(config, 'forest', () => roll).success).toBe(true);
+    expect(executeForage(config, 'forest', () => roll, 'winter').success).toBe(false);
+  });
+
+  it('should bring back more game in autumn', () => {
+    const plain = executeHunt(config, 1, () => 0.5);
+    const autumn = executeHunt(config, 1, () => 0.5, {}, 'autumn');
+    expect(autumn.foodGained).toBeGreaterThan(plain.foodGained);
+  });
+});
+
+describe('town events', () => {
+  it('should hold Sunday service on Sunday mornings', () => {
+    expect(isTownEventActive('sunday_service', SUNDAY, 10)).toBe(true);
+    expect(isTownEventActive('sunday_service', SUNDAY, 12)).toBe(false);
+    expect(isTownEventActive('sunday_service', SUNDAY + 1, 10)).toBe(false);
+  });
+
+  it("should hold Founders' Day once a year", () => {
+    expect(getTownEventsOn(FOUNDERS_DAY).map((e) => e.id)).toContain('founders_day');
+    expect(getTownEventsOn(FOUNDERS_DAY + 1).map((e) => e.id)).not.toContain('founders_day');
+    expect(getTownEventsOn(FOUNDERS_DAY + DAYS_PER_YEAR).map((e) => e.id)).toContain(
+      'founders_day'
+    );
+  });
+
+  it('should send townsfolk to church during the service', () => {
+    const events = getActiveTownEvents(SUNDAY, 10).map((e) => e.id);
+    expect(getNPCActivityAt(townsfolk_schedule, 10, events)).toMatchObject({
+      activity: 'pray',
+      locationMarker: '{{church}}',
+    });
+    expect(getNPCActivityAt(preacher_schedule, 10, events)?.locationMarker).toBe('{{church}}');
+    // Any other morning they go about their day
+    expect(getNPCActivityAt(townsfolk_schedule, 10)?.activity).toBe('travel');
+  });
+
+  it('should gate dialogue and quests on events', () => {
+    const state: BridgeStoreReader = {
+      activeQuests: [],
+      completedQuestIds: [],
+      completedQuestBranches: {},
+      playerStats: { level: 1, gold: 0, skills: {}, attributes: {} },
+      factionReputation: {},
+      inventory: [],
+      talkedNPCIds: [],
+      dialogueState: null,
+      clockState: { day: FOUNDERS_DAY, hour: 12 },
+    };
+    const fair: Quest = {
+      id: 'test_fair',
+      title: 'Shooting Match',
+      description: 'Test quest',
+      type: 'side',
+      giverNpcId: null,
+      recommendedLevel: 1,
+      stages: [
+        {
+          id: 'shoot',
+          title: 'shoot',
+          description: 'shoot',
+          objectives: [
+            {
+              id: 'targets',
+              description: 'targets',
+              type: 'interact',
+              target: 'target_board',
+              count: 1,
+              current: 0,
+              optional: false,
+              hidden: false,
+            },
+          ],
+          stageRewards: { xp: 0, gold: 0, items: [], reputation: {} },
+        },
+      ],
+      prerequisites: {
+        completedQuests: [],
+        factionReputation: {},
+        requiredItems: [],
+        duringEvent: 'founders_day',
+      },
+      rewards: { xp: 0, gold: 0, items: [], reputation: {}, unlocksQuests: [] },
+      tags: [],
+      repeatable: false,
+      timeLimitHours: null,
+    };
+
+    expect(evaluateCondition({ type: 'event_active', target: 'founders_day' }, state)).toBe(true);
+    expect(canStartQuest(fair, state)).toBe(true);
+
+    const nextDay = { ...state, clockState: { day: FOUNDERS_DAY + 1, hour: 12 } };
+    expect(evaluateCondition({ type: 'event_active', target: 'founders_day' }, nextDay)).toBe(
+      false
+    );
+    expect(canStartQuest(fair, nextDay)).toBe(false);
+  });
+});
@@ -0,0 +1,503 @@
+/**
+ * companions.test.ts - Tests for companions: approval and its thresholds,
+ * following the player, shooting alongside them in both combat loops, and
+ * recruiting, trading with and losing companions through the store
+ */
+
+import * as THREE from 'three';
+import { create } from 'zustand';
+import { getEnemyById } from '../../data/enemies';
+import { getDialogueTreeById, getNPCById } from '../../data/npcs';
+import type { CombatEncounter } from '../../data/schemas/combat';
+import { DialogueTreeSchema, type DialogueTree } from '../../data/schemas/npc';
+import {
+  type CombatEnemy,
+  type CombatTickResult,
+  COMPANION_FIRE_DELAY,
+  type CompanionGunner,
+  createEnemyAI,
+  createWeaponState,
+  disposeEnemyAI,
+  getWeaponConfig,
+  stepCompanionFire,
+} from '../../engine/combat';
+import {
+  type CombatDataAccess,
+  type CombatSlice,
+  type CombatSliceDeps,
+  createCombatSlice,
+} from '../../store/slices/combatSlice';
+import {
+  createCompanionSlice,
+  type CompanionSlice,
+  type CompanionSliceDeps,
+} from '../../store/slices/companionSlice';
+import {
+  applyDialogueEffectHelper,
+  evaluateDialogueCondition,
+} from '../../store/slices/dialogueHelpers';
+import type { EquipmentState, InventoryItem, PlayerStats } from '../../store/types';
+import { getValidTargets } from '../combat';
+import {
+  changeApproval,
+  COMPANION_JOINED_FLAG,
+  COMPANION_LEAVE_APPROVAL,
+  COMPANION_WARNING_APPROVAL,
+  COMPANIONS,
+  canCarry,
+  createCompanion,
+  crossesWarning,
+  getApprovalChange,
+  getCompanionAllies,
+  pickCompanionBark,
+  willLeave,
+} from '../companions';
+import type { LocationMarkerIndex } from '../NPCScheduleResolver';
+import { NPCMovementSystem } from '../NPCMovementSystem';
+import { DEFAULT_MOVEMENT_CONFIG } from '../NPCMovementSystem/types';
+import { DEFAULT_CLOCK_STATE } from '../time';
+
+function item(id: string, itemId: string, weight: number, quantity = 1): InventoryItem {
+  return {
+    id,
+    itemId,
+    name: itemId,
+    rarity: 'common',
+    quantity,
+    condition: 100,
+    weight,
+    type: 'consumable',
+    droppable: true,
+  };
+}
+
+describe('approval', () => {
+  it('should weigh events by what each companion cares about', () => {
+    expect(getApprovalChange(COMPANIONS.doc_chen, ['crime:murder'])).toBe(-20);
+    expect(getApprovalChange(COMPANIONS.diamondback, ['aggressive', 'lawful'])).toBe(1);
+    expect(getApprovalChange(COMPANIONS.doc_chen, ['small_talk'])).toBe(0);
+  });
+
+  it('should clamp approval and mark the warning and leave lines', () => {
+    const doc = createCompanion('doc_chen', 1);
+    expect(doc.approval).toBe(COMPANIONS.doc_chen.startingApproval);
+    expect(changeApproval(doc, 500).approval).toBe(100);
+    expect(changeApproval(doc, -500).approval).toBe(0);
+
+    expect(willLeave(COMPANION_LEAVE_APPROVAL)).toBe(true);
+    expect(willLeave(COMPANION_LEAVE_APPROVAL + 1)).toBe(false);
+    expect(crossesWarning(COMPANION_WARNING_APPROVAL + 5, COMPANION_WARNING_APPROVAL)).toBe(true);
+    expect(crossesWarning(COMPANION_WARNING_APPROVAL - 1, COMPANION_WARNING_APPROVAL - 5)).toBe(false);
+  });
+
+  it('should limit what a companion carries to their capacity', () => {
+    const samuel = COMPANIONS.samuel_ironpick;
+    const pack = [item('a', 'ore', samuel.carryCapacity - 5)];
+    expect(canCarry(samuel, pack, 5)).toBe(true);
+    expect(canCarry(samuel, pack, 6)).toBe(false);
+  });
+
+  it('should pick barks tagged for the moment', () => {
+    const tree = getDialogueTreeById(COMPANIONS.doc_chen.barkTreeId);
+    const line = pickCompanionBark(tree, 'town', () => true, 0.99);
+    expect(tree?.nodes.find((node) => node.text === line)?.tags).toContain('town');
+    expect(pickCompanionBark(tree, 'town', () => false, 0)).toBeNull();
+    expect(pickCompanionBark(undefined, 'town', () => true, 0)).toBeNull();
+  });
+
+  it('should check approval in dialogue conditions', () => {
+    const state = {
+      inventory: [],
+      completedQuestIds: [],
+      completedQuestBranches: {},
+      activeQuests: [],
+      playerStats: { skills: {}, attributes: {} },
+      factionReputation: {},
+      dialogueState: null,
+      getCompanionApproval: (id: string) => (id === 'doc_chen' ? 72 : null),
+    };
+    const condition = { type: 'approval_gte' as const, target: 'doc_chen', value: 70 };
+    expect(evaluateDialogueCondition(condition, state)).toBe(true);
+    expect(evaluateDialogueCondition({ ...condition, value: 80 }, state)).toBe(false);
+    expect(evaluateDialogueCondition({ ...condition, target: 'diamondback' }, state)).toBe(false);
+  });
+
+  it('should flag a recruit only when the companion comes along', () => {
+    const flags: Record<string, boolean> = {};
+    const context = {
+      addItemById: jest.fn(),
+      startQuest: jest.fn(),
+      setDialogueFlag: (flag: string, value: boolean) => {
+        flags[flag] = value;
+      },
+      raiseQuestFlag: jest.fn(),
+      changeReputation: jest.fn(),
+      settleBounty: jest.fn(),
+      resistArrest: jest.fn(),
+      recruitCompanion: jest.fn((id: string) => id === 'doc_chen'),
+      dialogueState: null,
+    };
+    applyDialogueEffectHelper({ type: 'recruit_companion', target: 'diamondback' }, context);
+    expect(flags[COMPANION_JOINED_FLAG]).toBeUndefined();
+    applyDialogueEffectHelper({ type: 'recruit_companion', target: 'doc_chen' }, context);
+    expect(flags[COMPANION_JOINED_FLAG]).toBe(true);
+  });
+});
+
+describe('companion dialogue', () => {
+  const expectLinked = (tree: DialogueTree) => {
+    const ids = new Set(tree.nodes.map((node) => node.id));
+    for (const entry of tree.entryPoints) expect(ids.has(entry.nodeId)).toBe(true);
+    for (const node of tree.nodes) {
+      for (const choice of node.choices ?? []) {
+        if (choice.nextNodeId) expect(ids.has(choice.nextNodeId)).toBe(true);
+      }
+    }
+  };
+
+  it.each(Object.values(COMPANIONS))('should ship valid trees for $id', (companion) => {
+    const main = getDialogueTreeById(`${companion.id}_main`);
+    const road = getDialogueTreeById(companion.dialogueTreeId);
+    const barks = getDialogueTreeById(companion.barkTreeId);
+
+    for (const tree of [main, road, barks]) {
+      expect(tree).toBeDefined();
+      expect(DialogueTreeSchema.safeParse(tree).success).toBe(true);
+      expectLinked(tree as DialogueTree);
+    }
+
+    expect(main?.nodes.some((node) => node.id === 'companion_ask')).toBe(true);
+    expect(getNPCById(companion.id)?.dialogueTreeIds).toEqual(
+      expect.arrayContaining([companion.dialogueTreeId, companion.barkTreeId])
+    );
+    for (const trigger of ['recruited', 'dismissed', 'warning', 'leaving'] as const) {
+      expect(pickCompanionBark(barks, trigger, () => true, 0)).not.toBeNull();
+    }
+  });
+});
+
+describe('following the player', () => {
+  const NO_MARKERS: LocationMarkerIndex = {
+    byAssignment: new Map(),
+    byRole: new Map(),
+    byTag: new Map(),
+    roadPositions: new Map(),
+    townCenter: { x: 0, y: 0, z: 0 },
+    outskirts: [],
+  };
+  const config = DEFAULT_MOVEMENT_CONFIG;
+  const step = (system: NPCMovementSystem, x: number, dt = 0.1) =>
+    system.update({ gameHour: 12, playerPosition: { x, y: 3, z: 0 }, deltaTime: dt });
+
+  it('should walk after a nearby player and stop at their side', () => {
+    const system = new NPCMovementSystem(NO_MARKERS);
+    const state = system.registerFollower('doc_chen', { x: 0, y: 0, z: 0 });
+
+    step(system, config.followDistance + 1);
+    expect(state.speed).toBe(config.walkSpeed);
+    expect(state.currentPosition.x).toBeCloseTo(config.walkSpeed * 0.1);
+    expect(state.currentPosition.y).toBe(3);
+
+    step(system, config.followDistance + 1, 10);
+    expect(state.currentPosition.x).toBeCloseTo(1);
+    step(system, config.followDistance + 1);
+    expect(state.speed).toBe(0);
+  });
+
+  it('should run to catch up and reappear behind a player left far off', () => {
+    const system = new NPCMovementSystem(NO_MARKERS);
+    const state = system.registerFollower('doc_chen', { x: 0, y: 0, z: 0 });
+
+    step(system, config.followRunDistance + 1);
+    expect(state.speed).toBe(config.runSpeed);
+
+    step(system, 500);
+    expect(state.currentPosition.x).toBeCloseTo(500 - config.followDistance);
+  });
+
+  it('should hold still while the player talks to them', () => {
+    const system = new NPCMovementSystem(NO_MARKERS);
+    const state = system.registerFollower('doc_chen', { x: 0, y: 0, z: 0 });
+    system.startInteraction('doc_chen');
+    step(system, 10);
+    expect(state.currentPosition.x).toBe(0);
+    expect(state.speed).toBe(0);
+  });
+});
+
+describe('companions in combat', () => {
+  const enemies: CombatEnemy[] = [];
+  afterEach(() => {
+    for (const enemy of enemies.splice(0)) disposeEnemyAI(enemy.ai);
+  });
+
+  function emptyResult(): CombatTickResult {
+    return {
+      damageNumbers: [],
+      hitMarker: null,
+      muzzleFlash: null,
+      deathEffects: [],
+      impactSparks: [],
+      playerDamageEvents: [],
+      killedEnemies: [],
+      killedEnemyData: [],
+      npcHits: [],
+      playerFired: false,
+      weaponWear: 0,
+      weaponJammed: false,
+      weaponState: createWeaponState('revolver'),
+      crosshairSpread: 0,
+      aimAssist: { yaw: 0, pitch: 0 },
+    };
+  }
+
+  function spawn(x: number, fighting: boolean): CombatEnemy {
+    const body = new THREE.Group();
+    const enemy: CombatEnemy = {
+      entityId: `bandit-${x}`,
+      enemyId: 'bandit_gunman',
+      level: 1,
+      meshGroup: body,
+      ai: createEnemyAI('bandit_gunman', 1, { x, y: 0, z: 0 }, 500, 500, `companion-${x}`),
+    };
+    if (fighting) enemy.ai.state = 'pursue';
+    enemies.push(enemy);
+    return enemy;
+  }
+
+  const gunner = (marksmanship: number): CompanionGunner => ({
+    id: 'diamondback',
+    position: { x: 0, y: 0, z: 0 },
+    weaponState: createWeaponState('schofield'),
+    marksmanship,
+  });
+
+  it('should shoot the nearest enemy in the fight and wait out the fire rate', () => {
+    const far = spawn(8, true);
+    const near = spawn(4, true);
+    spawn(2, false);
+    const shooter = gunner(1);
+    const result = emptyResult();
+
+    expect(stepCompanionFire(0.1, [shooter], enemies, 'normal', result)).toEqual(['schofield']);
+    expect(near.ai.health).toBeLessThan(near.ai.maxHealth);
+    expect(far.ai.health).toBe(far.ai.maxHealth);
+    expect(result.hitMarker).toBeNull();
+
+    const fireRate = getWeaponConfig('schofield')?.fireRate ?? 1;
+    expect(shooter.weaponState.fireCooldown).toBeCloseTo((1 / fireRate) * COMPANION_FIRE_DELAY);
+    expect(stepCompanionFire(0.01, [shooter], enemies, 'normal', result)).toEqual([]);
+  });
+
+  it('should hold fire without a clear line or with nobody fighting', () => {
+    spawn(4, true);
+    const result = emptyResult();
+    expect(stepCompanionFire(0.1, [gunner(1)], enemies, 'normal', result, () => false)).toEqual([]);
+    expect(stepCompanionFire(0.1, [gunner(1)], [spawn(3, false)], 'normal', result)).toEqual([]);
+  });
+
+  it('should miss every shot with no marksmanship', () => {
+    const enemy = spawn(4, true);
+    const shooter = gunner(0);
+    stepCompanionFire(0.1, [shooter], enemies, 'normal', emptyResult());
+    expect(enemy.ai.health).toBe(enemy.ai.maxHealth);
+  });
+
+  it('should field the party as allies the enemy can target', () => {
+    const allies = getCompanionAllies([
+      createCompanion('doc_chen', 1),
+      createCompanion('samuel_ironpick', 1),
+    ]);
+    expect(allies.map((ally) => ally.type)).toEqual(['ally', 'ally']);
+    expect(allies[1]).toMatchObject({
+      definitionId: 'samuel_ironpick',
+      weaponId: COMPANIONS.samuel_ironpick.weaponId,
+      behavior: COMPANIONS.samuel_ironpick.behavior,
+    });
+    expect(allies[0].id).not.toBe(allies[1].id);
+
+    const enemy = { ...allies[0], id: 'enemy_0', type: 'enemy' as const };
+    const targets = getValidTargets(
+      { combatants: [...allies, enemy] } as Parameters<typeof getValidTargets>[0],
+      'enemy_0'
+    );
+    expect(targets).toHaveLength(2);
+  });
+});
+
+describe('companions in a turn-based fight', () => {
+  type Store = CombatSlice & CombatSliceDeps;
+  const encounter = {
+    id: 'test_ambush',
+    enemies: [{ enemyId: 'bandit_gunman', count: 1 }],
+    canFlee: true,
+  } as CombatEncounter;
+  const dataAccess: CombatDataAccess = {
+    getEnemyById,
+    getEncounterById: (id) => (id === encounter.id ? encounter : undefined),
+    getItem: () => null,
+    calculateHitChance: () => 100,
+    calculateDamage: () => 1000,
+    rollHit: () => true,
+    rollCritical: () => false,
+    AP_COSTS: { attack: 2 } as CombatDataAccess['AP_COSTS'],
+  };
+  let store: ReturnType<typeof create<Store>>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store = create<Store>()((set, get, api) => ({
+      ...createCombatSlice(dataAccess)(set, get, api),
+      phase: 'playing',
+      setPhase: (phase) => set({ phase }),
+      addNotification: () => {},
+      playerName: 'Stranger',
+      playerStats: { health: 100, maxHealth: 100, stamina: 100, level: 1 } as PlayerStats,
+      equipment: {} as EquipmentState,
+      inventory: [],
+      gainXP: () => {},
+      addGold: () => {},
+      addItemById: () => {},
+      applyCombatFatigue: () => {},
+      travelState: null,
+      completeTravel: () => {},
+      cancelTravel: () => {},
+      getPartyAllies: () => getCompanionAllies([createCompanion('diamondback', 1)]),
+    }));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should bring the party into the fight on the player\'s side', () => {
+    store.getState().startCombat(encounter.id);
+    const { combatants, turnOrder } = store.getState().combatState!;
+
+    expect(combatants.map((c) => c.name)).toEqual(['Stranger', 'Diamondback', 'Bandit Gunman']);
+    expect(combatants[1]).toMatchObject({ isPlayer: false, isAlly: true });
+    expect(turnOrder).toEqual(combatants.map((c) => c.definitionId));
+    expect(store.getState().getAliveEnemies().map((c) => c.name)).toEqual(['Bandit Gunman']);
+  });
+
+  it('should have companions shoot the enemy and win the fight', () => {
+    store.getState().startCombat(encounter.id);
+    store.getState().endCombatTurn();
+    expect(store.getState().combatState!.currentTurnIndex).toBe(1);
+
+    jest.runOnlyPendingTimers();
+    const { combatants, phase } = store.getState().combatState!;
+    expect(combatants[2].isDead).toBe(true);
+    expect(combatants[0].health).toBe(100);
+    expect(phase).toBe('victory');
+  });
+});
+
+describe('CompanionSlice', () => {
+  type Store = CompanionSlice & CompanionSliceDeps;
+  let store: ReturnType<typeof create<Store>>;
+  let panels: string[];
+  const MAX_SLOTS = 3;
+
+  beforeEach(() => {
+    panels = [];
+    store = create<Store>()((set, get, api) => ({
+      ...createCompanionSlice({ getDialogueTreeById })(set, get, api),
+      clockState: { ...DEFAULT_CLOCK_STATE, day: 4 },
+      inventory: [item('bandage', 'bandage', 0.5, 4), item('rifle', 'rifle', 9)],
+      equipment: { weapon: 'rifle' } as EquipmentState,
+      addItem: (added) => {
+        if (get().inventory.length >= MAX_SLOTS) return;
+        set({ inventory: [...get().inventory, added] });
+      },
+      removeItemByInstanceId: (instanceId, quantity = 1) =>
+        set({
+          inventory: get()
+            .inventory.map((i) => (i.id === instanceId ? { ...i, quantity: i.quantity - quantity } : i))
+            .filter((i) => i.quantity > 0),
+        }),
+      checkDialogueCondition: () => true,
+      openPanel: (panel) => {
+        panels.push(panel);
+      },
+      addNotification: () => {},
+    }));
+  });
+
+  const approval = (id: string) => store.getState().getCompanionApproval(id);
+
+  it('should recruit up to a full party', () => {
+    expect(store.getState().recruitCompanion('doc_chen')).toBe(true);
+    expect(store.getState().recruitCompanion('doc_chen')).toBe(false);
+    expect(store.getState().recruitCompanion('sheriff_cole')).toBe(false);
+    expect(store.getState().recruitCompanion('diamondback')).toBe(true);
+    expect(store.getState().recruitCompanion('samuel_ironpick')).toBe(false);
+
+    expect(store.getState().party[0]).toMatchObject({ id: 'doc_chen', recruitedDay: 4 });
+    expect(store.getState().getPartyAllies()).toHaveLength(2);
+  });
+
+  it('should trade items, but never what the player has equipped', () => {
+    store.getState().recruitCompanion('doc_chen');
+    expect(store.getState().giveCompanionItem('doc_chen', 'rifle')).toBe(false);
+    expect(store.getState().giveCompanionItem('doc_chen', 'bandage', 2)).toBe(true);
+    expect(store.getState().giveCompanionItem('doc_chen', 'bandage', 1)).toBe(true);
+
+    const carried = store.getState().companionItems.doc_chen;
+    expect(carried).toHaveLength(1);
+    expect(carried[0].quantity).toBe(3);
+    expect(store.getState().inventory.find((i) => i.id === 'bandage')?.quantity).toBe(1);
+
+    expect(store.getState().takeCompanionItem('doc_chen', carried[0].id)).toBe(true);
+    expect(store.getState().companionItems.doc_chen).toEqual([]);
+
+    store.getState().openCompanionPanel();
+    expect(store.getState().companionPanelId).toBe('doc_chen');
+    expect(panels).toEqual(['companions']);
+  });
+
+  it('should refuse loads heavier than a companion can carry', () => {
+    store.setState({ inventory: [item('anvil', 'anvil', COMPANIONS.diamondback.carryCapacity + 1)] });
+    store.getState().recruitCompanion('diamondback');
+    expect(store.getState().giveCompanionItem('diamondback', 'anvil')).toBe(false);
+    expect(store.getState().companionItems.diamondback).toBeUndefined();
+  });
+
+  it('should hand back what a dismissed companion carries and let them rejoin', () => {
+    store.getState().recruitCompanion('doc_chen');
+    store.getState().giveCompanionItem('doc_chen', 'bandage');
+    store.getState().dismissCompanion('doc_chen');
+
+    expect(store.getState().isInParty('doc_chen')).toBe(false);
+    expect(store.getState().companionItems.doc_chen).toEqual([]);
+    expect(store.getState().inventory.find((i) => i.itemId === 'bandage')?.quantity).toBe(4);
+    expect(store.getState().recruitCompanion('doc_chen')).toBe(true);
+  });
+
+  it('should move each companion by their own opinions of a choice', () => {
+    store.getState().recruitCompanion('doc_chen');
+    store.getState().recruitCompanion('diamondback');
+    store.getState().companionsReact(['aggressive']);
+
+    expect(approval('doc_chen')).toBe(COMPANIONS.doc_chen.startingApproval - 3);
+    expect(approval('diamondback')).toBe(COMPANIONS.diamondback.startingApproval + 3);
+  });
+
+  it('should lose a companion for good once approval falls too far', () => {
+    store.getState().recruitCompanion('doc_chen');
+    store.getState().giveCompanionItem('doc_chen', 'bandage');
+    store.setState({
+      inventory: [item('a', 'a', 1), item('b', 'b', 1), item('c', 'c', 1)],
+    });
+
+    store.getState().companionsReact(['crime:murder']);
+    expect(store.getState().isInParty('doc_chen')).toBe(true);
+    store.getState().companionsReact(['crime:murder']);
+
+    expect(store.getState().isInParty('doc_chen')).toBe(false);
+    expect(store.getState().departedCompanionIds).toEqual(['doc_chen']);
+    // The pack was full, so the bandages went with him
+    expect(store.getState().companionItems.doc_chen).toHaveLength(1);
+    expect(store.getState().recruitCompanion('doc_chen')).toBe(false);
+  });
+});
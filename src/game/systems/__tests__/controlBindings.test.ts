@@ -0,0 +1,94 @@
+/**
+ * controlBindings.test.ts - Tests for remappable controls: presets, rebinding
+ * with conflict detection, and the control settings in the store
+ */
+
+import { create } from 'zustand';
+import {
+  CONTROL_PRESETS,
+  DEFAULT_CONTROLS,
+  DEFAULT_KEYBOARD_BINDINGS,
+  findConflicts,
+  GamepadButton,
+  getBoundAction,
+  MAX_STICK_DEADZONE,
+  rebind,
+} from '../../input/bindings';
+import { InputAction } from '../../input/InputActions';
+import {
+  createSettingsSlice,
+  getControls,
+  MIN_LOOK_SENSITIVITY,
+  type SettingsSlice,
+} from '../../store/slices/settingsSlice';
+import type { GameSettings } from '../../store/types';
+
+function createStore() {
+  return create<SettingsSlice>()((...a) => ({ ...createSettingsSlice(...a) }));
+}
+
+describe('control bindings', () => {
+  it('should ship presets without conflicts', () => {
+    for (const preset of Object.values(CONTROL_PRESETS)) {
+      expect(findConflicts(preset.keyboard).size).toBe(0);
+      expect(findConflicts(preset.gamepad).size).toBe(0);
+    }
+    expect(getBoundAction(CONTROL_PRESETS['left-handed'].keyboard, 'KeyI')).toBe(
+      InputAction.MoveForward
+    );
+    expect(CONTROL_PRESETS.southpaw.swapSticks).toBe(true);
+  });
+
+  it('should take a rebound key away from the action that had it', () => {
+    const { bindings, displaced } = rebind(DEFAULT_KEYBOARD_BINDINGS, InputAction.Jump, 'KeyE');
+
+    expect(displaced).toEqual([InputAction.Interact]);
+    expect(bindings[InputAction.Jump]).toEqual(['KeyE']);
+    expect(bindings[InputAction.Interact]).toEqual([]);
+    expect(findConflicts(bindings).size).toBe(0);
+    // Secondary bindings survive a change to the primary
+    const moved = rebind(bindings, InputAction.MoveForward, 'KeyZ').bindings;
+    expect(moved[InputAction.MoveForward]).toEqual(['KeyZ', 'ArrowUp']);
+  });
+
+  it('should report inputs shared by more than one action', () => {
+    const conflicts = findConflicts({
+      ...DEFAULT_KEYBOARD_BINDINGS,
+      [InputAction.Crouch]: ['KeyR'],
+    });
+    expect(conflicts.get('KeyR')).toEqual([InputAction.Reload, InputAction.Crouch]);
+  });
+});
+
+describe('control settings', () => {
+  it('should fall back to the defaults for older saves', () => {
+    const store = createStore();
+    const { controls: _, ...legacy } = store.getState().settings;
+    expect(getControls(legacy as GameSettings)).toBe(DEFAULT_CONTROLS);
+  });
+
+  it('should clamp look sensitivity and deadzone', () => {
+    const store = createStore();
+    store.getState().setControls({ lookSensitivity: 0, stickDeadzone: 0.9 });
+    const controls = store.getState().settings.controls;
+    expect(controls.lookSensitivity).toBe(MIN_LOOK_SENSITIVITY);
+    expect(controls.stickDeadzone).toBe(MAX_STICK_DEADZONE);
+  });
+
+  it('should mark rebinding as custom and restore a preset on request', () => {
+    const store = createStore();
+    store.getState().setControls({ invertY: true });
+    const displaced = store
+      .getState()
+      .rebindControl('gamepad', InputAction.Reload, GamepadButton.A);
+    expect(displaced).toEqual([InputAction.Jump]);
+    expect(store.getState().settings.controls.preset).toBe('custom');
+
+    store.getState().applyControlPreset('southpaw');
+    const controls = store.getState().settings.controls;
+    expect(controls.preset).toBe('southpaw');
+    expect(controls.gamepad).toBe(CONTROL_PRESETS.southpaw.gamepad);
+    // Look options aren't part of a preset
+    expect(controls.invertY).toBe(true);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * crafting.test.ts - Tests for crafting recipes and weapon mods
+ */
+
+import * as THREE from 'three';
+import { create } from 'zustand';
+import { createWeaponState, getWeaponConfig, processCombatTick } from '../../engine/combat';
+import { createEmptyFrame, type InputFrame } from '../../input/InputFrame';
+import { applyWeaponMods, getItem, getRecipe, RECIPES } from '../../data/items';
+import { validateRecipe } from '../../data/schemas/item';
+import { DEFAULT_PLAYER_STATS } from '../../store/defaults';
+import { consumeIngredients, getCraftBlocker } from '../../store/slices/craftingHelpers';
+import {
+  createInventorySlice,
+  type InventorySlice,
+  type InventorySliceDeps,
+} from '../../store/slices/inventorySlice';
+import type { InventoryItem, PlayerStats } from '../../store/types';
+import type { CampingState } from '../camping';
+import { getInteriorManager, resetInteriorManager } from '../InteriorManager';
+
+const stack = (id: string, itemId: string, quantity: number): InventoryItem => ({
+  id,
+  itemId,
+  name: getItem(itemId)?.name ?? itemId,
+  rarity: 'common',
+  quantity,
+  weight: 1,
+  condition: 100,
+  type: getItem(itemId)?.type ?? 'junk',
+  droppable: true,
+});
+
+describe('recipes', () => {
+  it('should only reference items that exist', () => {
+    for (const recipe of RECIPES) {
+      expect(getItem(recipe.output.itemId)).toBeDefined();
+      for (const ingredient of recipe.ingredients) {
+        expect(getItem(ingredient.itemId)).toBeDefined();
+      }
+    }
+  });
+
+  it('should reject a recipe without ingredients', () => {
+    expect(() =>
+      validateRecipe({ id: 'bad', name: 'Bad', ingredients: [], output: { itemId: 'coffee' } })
+    ).toThrow();
+  });
+
+  it('should report the first blocker: station, then skill, then ingredients', () => {
+    const lantern = getRecipe('recipe_lantern')!;
+    const skills = { ...DEFAULT_PLAYER_STATS.skills, repair: 0 };
+    const none = () => 0;
+    expect(getCraftBlocker(lantern, [], skills, none)).toBe('You need a workbench to make that.');
+    expect(getCraftBlocker(lantern, ['workbench'], skills, none)).toBe('Requires repair 10.');
+    const skilled = { ...skills, repair: 10 };
+    expect(getCraftBlocker(lantern, ['workbench'], skilled, none)).toBe('Missing ingredients.');
+    expect(getCraftBlocker(lantern, ['workbench'], skilled, () => 5)).toBeNull();
+  });
+
+  it('should draw ingredients across stacks', () => {
+    const result = consumeIngredients(
+      [stack('a', 'scrap_metal', 2), stack('b', 'oil_can', 1), stack('c', 'scrap_metal', 3)],
+      [{ itemId: 'scrap_metal', quantity: 4 }]
+    );
+    expect(result.map((i) => [i.id, i.quantity])).toEqual([
+      ['b', 1],
+      ['c', 1],
+    ]);
+  });
+});
+
+describe('weapon mods', () => {
+  it('should add modifiers and clamp accuracy', () => {
+    const base = getItem('hunting_rifle')!.weaponStats!;
+    const scoped = applyWeaponMods(base, ['mod_scope']);
+    expect(scoped.range).toBe(base.range + 15);
+    expect(scoped.accuracy).toBe(Math.min(100, base.accuracy + 15));
+    expect(applyWeaponMods(base, ['not_a_mod'])).toEqual(base);
+  });
+
+  it('should hold two more rounds in the FPS loop with an extended cylinder', () => {
+    const capacity = getWeaponConfig('revolver')!.ammoCapacity;
+    const weaponState = createWeaponState('revolver', 60, 100, [], ['mod_extended_cylinder']);
+    expect(weaponState.ammoInMagazine).toBe(capacity + 2);
+
+    const camera = new THREE.PerspectiveCamera();
+    const scene = new THREE.Scene();
+    const tick = (input: Partial<InputFrame>) =>
+      processCombatTick(0.1, { ...createEmptyFrame(), ...input }, camera, scene, [], weaponState);
+
+    tick({ fire: true });
+    expect(weaponState.ammoInMagazine).toBe(capacity + 1);
+    tick({ reload: true });
+    for (let i = 0; i < 50 && weaponState.reloadPhase !== 'none'; i++) tick({});
+    expect(weaponState.ammoInMagazine).toBe(capacity + 2);
+    expect(weaponState.ammoReserve).toBe(59);
+  });
+});
+
+describe('InventorySlice crafting', () => {
+  type Store = InventorySlice & InventorySliceDeps;
+  let store: ReturnType<typeof create<Store>>;
+  let notifications: string[];
+
+  const camp = (fireState: CampingState['fireState']) =>
+    store.setState({
+      campingState: { isCamping: true, fireState } as CampingState,
+    });
+  const weapon = (id: string) => store.getState().inventory.find((i) => i.id === id);
+
+  beforeEach(() => {
+    notifications = [];
+    const inventorySlice = createInventorySlice({ getItem });
+    store = create<Store>()((...a) => ({
+      ...inventorySlice(...(a as Parameters<typeof inventorySlice>)),
+      addNotification: (_type, message) => {
+        notifications.push(message);
+      },
+      heal: () => {},
+      gainSkillXP: () => {},
+      takeDamage: () => {},
+      updatePlayerStats: (stats: Partial<PlayerStats>) =>
+        a[0]((s) => ({ playerStats: { ...s.playerStats, ...stats } })),
+      playerStats: { ...DEFAULT_PLAYER_STATS },
+      playerPosition: { x: 0, y: 0, z: 0 },
+      worldItems: {},
+    }));
+  });
+
+  afterEach(() => {
+    resetInteriorManager();
+  });
+
+  it('should cook at a lit campfire only', () => {
+    store.getState().addItemById('coffee_beans', 1);
+    store.getState().craftItem('recipe_coffee');
+    expect(store.getState().getItemCount('coffee')).toBe(0);
+    expect(notifications.at(-1)).toBe('You need a campfire to make that.');
+
+    camp('none');
+    expect(store.getState().getCraftingStations()).toEqual([]);
+
+    camp('burning');
+    store.getState().craftItem('recipe_coffee');
+    expect(store.getState().getItemCount('coffee')).toBe(2);
+    expect(store.getState().getItemCount('coffee_beans')).toBe(0);
+  });
+
+  it('should check the medicine skill', () => {
+    store.getState().addItemById('bandages', 2);
+    store.getState().addItemById('laudanum', 1);
+    store.getState().addItemById('whiskey', 1);
+    store.getState().craftItem('recipe_medical_kit');
+    expect(store.getState().getItemCount('medical_kit')).toBe(0);
+
+    store.getState().updatePlayerStats({
+      skills: { ...DEFAULT_PLAYER_STATS.skills, medicine: 25 },
+    });
+    store.getState().craftItem('recipe_medical_kit');
+    expect(store.getState().getItemCount('medical_kit')).toBe(1);
+    expect(store.getState().getItemCount('bandages')).toBe(0);
+  });
+
+  it('should fit mods at a workbench and swap out the old one', () => {
+    store.setState({ inventory: [stack('rifle', 'hunting_rifle', 1)] });
+    store.getState().addItemById('mod_scope', 1);
+    store.getState().applyWeaponMod('rifle', 'mod_scope');
+    expect(weapon('rifle')?.mods).toBeUndefined();
+    expect(notifications.at(-1)).toBe('You need a workbench to fit that.');
+
+    getInteriorManager().enterBuilding('smithy', 'blacksmith');
+    store.getState().applyWeaponMod('rifle', 'mod_scope');
+    expect(weapon('rifle')?.mods).toEqual(['mod_scope']);
+    expect(store.getState().getItemCount('mod_scope')).toBe(0);
+
+    store.getState().addItemById('mod_scope', 1);
+    store.getState().applyWeaponMod('rifle', 'mod_scope');
+    expect(weapon('rifle')?.mods).toEqual(['mod_scope']);
+    expect(store.getState().getItemCount('mod_scope')).toBe(1);
+  });
+
+  it('should refuse mods that do not fit the weapon', () => {
+    getInteriorManager().enterBuilding('smithy', 'blacksmith');
+    store.setState({ inventory: [stack('gun', 'revolver_basic', 1)] });
+    store.getState().addItemById('mod_scope', 1);
+    store.getState().applyWeaponMod('gun', 'mod_scope');
+    expect(weapon('gun')?.mods).toBeUndefined();
+    expect(notifications.at(-1)).toBe("That won't fit a revolver.");
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * dialogueChecks.test.ts - Tests for skill/attribute checks in dialogue
+ */
+
+import type { DialogueCheck } from '../../data/schemas/npc';
+import { withCheckHints } from '../../store/slices/dialogueHelpers';
+import {
+  type BridgeStoreReader,
+  evaluateCondition,
+  formatCheckHint,
+  getCheckChance,
+  getCheckScore,
+  MAX_CHECK_CHANCE,
+  MIN_CHECK_CHANCE,
+  rollDialogueCheck,
+} from '../DialogueQuestBridge';
+
+const stats = {
+  skills: { speech: 40, lockpick: 15 },
+  attributes: { grit: 6, luck: 3 },
+};
+
+const speechCheck: DialogueCheck = {
+  stat: 'speech',
+  difficulty: 40,
+  successNodeId: 'pass',
+  failureNodeId: 'fail',
+};
+
+describe('dialogue check odds', () => {
+  it('should scale attributes onto the skill range', () => {
+    expect(getCheckScore('speech', stats)).toBe(40);
+    expect(getCheckScore('grit', stats)).toBe(60);
+  });
+
+  it('should give even odds when score matches difficulty', () => {
+    expect(getCheckChance(speechCheck, stats)).toBeCloseTo(0.5);
+  });
+
+  it('should move odds by 2% per point', () => {
+    expect(getCheckChance({ ...speechCheck, difficulty: 30 }, stats)).toBeCloseTo(0.7);
+    expect(getCheckChance({ ...speechCheck, stat: 'grit', difficulty: 70 }, stats)).toBeCloseTo(0.3);
+  });
+
+  it('should never be certain either way', () => {
+    expect(getCheckChance({ ...speechCheck, difficulty: 0 }, stats)).toBe(MAX_CHECK_CHANCE);
+    expect(getCheckChance({ ...speechCheck, difficulty: 100 }, stats)).toBe(MIN_CHECK_CHANCE);
+  });
+
+  it('should format a hint with the odds', () => {
+    expect(formatCheckHint({ ...speechCheck, difficulty: 30 }, stats)).toBe('[Speech 70%]');
+  });
+});
+
+describe('rollDialogueCheck', () => {
+  it('should pass when the roll is under the chance', () => {
+    const result = rollDialogueCheck(speechCheck, stats, 0.49);
+    expect(result.success).toBe(true);
+    expect(result.skill).toBe('speech');
+    expect(result.xp).toBe(20);
+  });
+
+  it('should fail at or above the chance with reduced XP', () => {
+    const result = rollDialogueCheck(speechCheck, stats, 0.5);
+    expect(result.success).toBe(false);
+    expect(result.xp).toBe(5);
+  });
+
+  it('should honor authored XP', () => {
+    expect(rollDialogueCheck({ ...speechCheck, xp: 12 }, stats, 0).xp).toBe(12);
+  });
+
+  it('should not award skill XP for attribute checks', () => {
+    const result = rollDialogueCheck({ ...speechCheck, stat: 'luck' }, stats, 0);
+    expect(result.skill).toBeNull();
+    expect(result.xp).toBe(0);
+  });
+});
+
+describe('withCheckHints', () => {
+  it('should only annotate check choices', () => {
+    const choices = withCheckHints(
+      [
+        { text: 'Plain', hint: 'Leave' },
+        { text: 'Persuade', check: speechCheck },
+        { text: 'Persuade again', hint: 'Risky', check: speechCheck },
+      ],
+      stats
+    );
+    expect(choices.map((c) => c.hint)).toEqual(['Leave', '[Speech 50%]', 'Risky [Speech 50%]']);
+  });
+});
+
+describe('skill and attribute conditions', () => {
+  const baseState: BridgeStoreReader = {
+    activeQuests: [],
+    completedQuestIds: [],
+    completedQuestBranches: {},
+    playerStats: { level: 1, gold: 0, ...stats },
+    factionReputation: {},
+    inventory: [],
+    talkedNPCIds: [],
+    dialogueState: null,
+  };
+
+  it('should compare skills against the threshold', () => {
+    expect(evaluateCondition({ type: 'skill_gte', target: 'speech', value: 40 }, baseState)).toBe(true);
+    expect(evaluateCondition({ type: 'skill_gte', target: 'lockpick', value: 20 }, baseState)).toBe(false);
+  });
+
+  it('should compare attributes against the threshold', () => {
+    expect(evaluateCondition({ type: 'attribute_gte', target: 'grit', value: 6 }, baseState)).toBe(true);
+    expect(evaluateCondition({ type: 'attribute_gte', target: 'luck', value: 5 }, baseState)).toBe(false);
+  });
+});
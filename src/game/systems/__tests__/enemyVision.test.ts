@@ -0,0 +1,136 @@
+/**
+ * enemyVision.test.ts - Tests for enemy vision cones, line of sight and
+ * perception-driven stealth detection
+ */
+
+import * as THREE from 'three';
+import {
+  createEnemyAI,
+  createPhysicsLineOfSight,
+  DEFAULT_VISION,
+  disposeEnemyAI,
+  type EnemyAIState,
+  getVisionConfig,
+  perceivePlayer,
+  updateEnemyAI,
+} from '../../engine/combat';
+import { createBoxCollider } from '../../engine/physics/colliderFactories';
+import { PhysicsWorld } from '../../engine/physics/PhysicsWorld';
+import { tickStealth } from '../StealthSystem';
+import { PHASE_LIGHT_LEVELS } from '../time';
+
+const ORIGIN = { x: 0, y: 0, z: 0 };
+const vision = { range: 40, focalAngle: 60, peripheralAngle: 160 };
+
+// Facing 0 looks down +Z
+const lookingNorth = { position: ORIGIN, facing: 0 };
+
+describe('perceivePlayer', () => {
+  it('should see clearly inside the focal cone only', () => {
+    const ahead = perceivePlayer(lookingNorth, { x: 0, y: 0, z: 10 }, vision);
+    expect(ahead.zone).toBe('focal');
+    expect(ahead.visibility).toBeCloseTo(0.75);
+
+    expect(perceivePlayer(lookingNorth, { x: 0, y: 0, z: -10 }, vision).zone).toBe('none');
+    expect(perceivePlayer(lookingNorth, { x: 0, y: 0, z: 50 }, vision).zone).toBe('none');
+  });
+
+  it('should only catch the player at close range out of the corner of its eye', () => {
+    const beside = perceivePlayer(lookingNorth, { x: 10, y: 0, z: 2 }, vision);
+    expect(beside.zone).toBe('peripheral');
+    expect(beside.visibility).toBeLessThan(0.5);
+
+    expect(perceivePlayer(lookingNorth, { x: 30, y: 0, z: 5 }, vision).zone).toBe('none');
+    expect(perceivePlayer(lookingNorth, { x: 0, y: 0, z: -1.5 }, vision).zone).toBe('peripheral');
+  });
+
+  it('should see less far in the dark', () => {
+    const player = { x: 0, y: 0, z: 25 };
+    expect(perceivePlayer(lookingNorth, player, vision).zone).toBe('focal');
+    const atNight = perceivePlayer(lookingNorth, player, vision, {
+      lightLevel: PHASE_LIGHT_LEVELS.night,
+    });
+    expect(atNight.zone).toBe('none');
+  });
+
+  it('should not see through walls', () => {
+    const world = new PhysicsWorld();
+    world.addStaticCollider(createBoxCollider(6, 4, 1, new THREE.Vector3(0, 0, 5)));
+    const lineOfSight = createPhysicsLineOfSight(world);
+
+    expect(perceivePlayer(lookingNorth, { x: 0, y: 1.6, z: 10 }, vision, { lineOfSight }).zone).toBe(
+      'none'
+    );
+    expect(perceivePlayer(lookingNorth, { x: 0, y: 1.6, z: 3 }, vision, { lineOfSight }).zone).toBe(
+      'focal'
+    );
+  });
+
+  it('should fall back to the default vision for unknown enemies', () => {
+    expect(getVisionConfig('not_an_enemy')).toBe(DEFAULT_VISION);
+    expect(getVisionConfig('ivrc_marksman').range).toBeGreaterThan(DEFAULT_VISION.range);
+  });
+});
+
+describe('enemy AI perception', () => {
+  let ai: EnemyAIState;
+
+  beforeEach(() => {
+    ai = createEnemyAI('bandit_gunman', 1, ORIGIN, 100, 100, 'vision-test');
+  });
+
+  afterEach(() => {
+    disposeEnemyAI(ai);
+  });
+
+  it('should not notice a player behind it', () => {
+    updateEnemyAI(ai, 0.1, { x: 0, y: 0, z: -15 }, []);
+    expect(ai.state).toBe('idle');
+    expect(ai.perception.zone).toBe('none');
+  });
+
+  it('should go on alert when it sees the player ahead', () => {
+    updateEnemyAI(ai, 0.1, { x: 0, y: 0, z: 15 }, []);
+    expect(ai.state).toBe('alert');
+    expect(ai.perception.zone).toBe('focal');
+  });
+
+  it('should turn toward a peripheral glimpse', () => {
+    updateEnemyAI(ai, 0.1, { x: 8, y: 0, z: 4 }, []);
+    expect(ai.perception.zone).toBe('peripheral');
+    expect(ai.state).toBe('alert');
+    expect(ai.facing).toBeCloseTo(Math.atan2(8, 4));
+  });
+
+  it('should ignore a player hidden behind cover', () => {
+    updateEnemyAI(ai, 0.1, { x: 0, y: 0, z: 15 }, [], { lineOfSight: () => false });
+    expect(ai.state).toBe('idle');
+  });
+});
+
+describe('tickStealth with observers', () => {
+  const input = {
+    playerPosition: ORIGIN,
+    isCrouching: false,
+    isMoving: false,
+    isSprinting: false,
+    isNight: false,
+    currentDetection: 50,
+    dt: 1,
+    hostilePositions: [{ x: 5, y: 0, z: 0 }],
+  };
+
+  it('should decay when nearby hostiles cannot see the player', () => {
+    const result = tickStealth({ ...input, observers: [0] });
+    expect(result.detectionLevel).toBeLessThan(50);
+    expect(result.nearestHostileDistance).toBe(5);
+  });
+
+  it('should rise toward the clearest view', () => {
+    const result = tickStealth({ ...input, currentDetection: 0, observers: [0.2, 0.9] });
+    expect(result.detectionLevel).toBe(25);
+    expect(tickStealth({ ...input, currentDetection: 80, observers: [0.9] }).detectionLevel).toBe(
+      90
+    );
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * hitZones.test.ts - Tests for location-based damage: hit zones, limb
+ * wounds and weak points shot off mechanical enemies
+ */
+
+import * as THREE from 'three';
+import {
+  applyEnemyHit,
+  type CombatEnemy,
+  type CombatTickResult,
+  createEnemyAI,
+  createWeaponState,
+  disposeEnemyAI,
+  getEnemySpeed,
+  getZoneMultiplier,
+  LIMB_WOUND_DURATION,
+  resolveHitZone,
+  updateEnemyAI,
+} from '../../engine/combat';
+
+const weaponState = createWeaponState('revolver');
+
+function emptyResult(): CombatTickResult {
+  return {
+    damageNumbers: [],
+    hitMarker: null,
+    muzzleFlash: null,
+    deathEffects: [],
+    impactSparks: [],
+    playerDamageEvents: [],
+    killedEnemies: [],
+    killedEnemyData: [],
+    npcHits: [],
+    playerFired: false,
+    weaponWear: 0,
+    weaponJammed: false,
+    weaponState,
+    crosshairSpread: 0,
+    aimAssist: { yaw: 0, pitch: 0 },
+  };
+}
+
+/** A bare-bones body plan with the part names the renderers use. */
+function buildBody(): THREE.Group {
+  const root = new THREE.Group();
+  for (const name of ['head', 'body', 'arm_l', 'leg_r', 'gear_0', 'holster']) {
+    const part = new THREE.Mesh(new THREE.BoxGeometry(0.2, 0.2, 0.2));
+    part.name = name;
+    root.add(part);
+  }
+  (root.getObjectByName('gear_0') as THREE.Object3D).userData.weakPoint = 'gears';
+  return root;
+}
+
+function spawn(enemyId: string): CombatEnemy {
+  return {
+    entityId: enemyId,
+    enemyId,
+    level: 1,
+    meshGroup: buildBody(),
+    ai: createEnemyAI(enemyId, 1, { x: 0, y: 0, z: 0 }, 500, 500, `zones-${enemyId}`),
+  };
+}
+
+function shoot(enemy: CombatEnemy, part: string, y = 1): CombatTickResult {
+  const result = emptyResult();
+  const mesh = enemy.meshGroup.getObjectByName(part) as THREE.Object3D;
+  applyEnemyHit(enemy, mesh, { x: 0, y, z: 0 }, 5, 'revolver', weaponState, 'normal', result);
+  return result;
+}
+
+describe('hit zones', () => {
+  let enemies: CombatEnemy[] = [];
+  const track = (enemy: CombatEnemy) => {
+    enemies.push(enemy);
+    return enemy;
+  };
+
+  afterEach(() => {
+    for (const enemy of enemies) disposeEnemyAI(enemy.ai);
+    enemies = [];
+  });
+
+  it('should name the zone from the part hit, else from its height', () => {
+    const root = buildBody();
+    const part = (name: string) => root.getObjectByName(name) as THREE.Object3D;
+    expect(resolveHitZone(part('head'), root, 0).zone).toBe('head');
+    expect(resolveHitZone(part('arm_l'), root, 1).zone).toBe('arm');
+    expect(resolveHitZone(part('leg_r'), root, 1).zone).toBe('leg');
+    expect(resolveHitZone(part('holster'), root, 0.8).zone).toBe('torso');
+    expect(resolveHitZone(part('holster'), root, 1.4).zone).toBe('head');
+    expect(resolveHitZone(part('gear_0'), root, 1).weakPoint).toBe(part('gear_0'));
+  });
+
+  it('should weight damage by zone, per enemy', () => {
+    expect(getZoneMultiplier('bandit_gunman', 'leg')).toBeLessThan(1);
+    expect(getZoneMultiplier('desert_wolf', 'leg')).toBeLessThan(
+      getZoneMultiplier('bandit_gunman', 'leg')
+    );
+    expect(getZoneMultiplier('remnant_sentry', 'torso')).toBeLessThan(1);
+
+    const enemy = track(spawn('bandit_gunman'));
+    const torso = shoot(enemy, 'body').damageNumbers[0].value;
+    const leg = shoot(enemy, 'leg_r').damageNumbers[0].value;
+    const head = shoot(enemy, 'head');
+    expect(leg).toBeLessThan(torso);
+    expect(head.damageNumbers[0].value).toBeGreaterThan(torso);
+    expect(head.hitMarker?.isHeadshot).toBe(true);
+  });
+
+  it('should slow an enemy shot in the leg until the wound wears off', () => {
+    const enemy = track(spawn('bandit_gunman'));
+    shoot(enemy, 'leg_r');
+    expect(enemy.ai.wounds.slowed).toBe(LIMB_WOUND_DURATION);
+    expect(enemy.ai.vehicle.maxSpeed).toBeLessThan(getEnemySpeed('bandit_gunman'));
+
+    updateEnemyAI(enemy.ai, LIMB_WOUND_DURATION, { x: 0, y: 0, z: -100 }, []);
+    expect(enemy.ai.wounds.slowed).toBe(0);
+    expect(enemy.ai.vehicle.maxSpeed).toBe(getEnemySpeed('bandit_gunman'));
+  });
+
+  it('should throw off the aim of an enemy shot in the arm', () => {
+    const enemy = track(spawn('bandit_gunman'));
+    shoot(enemy, 'arm_l');
+    expect(enemy.ai.wounds.unsteady).toBe(LIMB_WOUND_DURATION);
+    expect(enemy.ai.wounds.slowed).toBe(0);
+  });
+
+  it('should shoot weak points off a machine for good', () => {
+    const enemy = track(spawn('remnant_sentry'));
+    const gear = enemy.meshGroup.getObjectByName('gear_0') as THREE.Object3D;
+    let broke = false;
+    for (let i = 0; i < 10 && !broke; i++) {
+      broke = shoot(enemy, 'gear_0').damageNumbers[0].label === 'BROKEN';
+    }
+
+    expect(broke).toBe(true);
+    expect(enemy.ai.weakPoints.gears).toBe(0);
+    expect(gear.visible).toBe(false);
+    expect(enemy.ai.wounds.slowed).toBe(Number.POSITIVE_INFINITY);
+
+    updateEnemyAI(enemy.ai, 60, { x: 0, y: 0, z: -100 }, []);
+    expect(enemy.ai.vehicle.maxSpeed).toBeLessThan(getEnemySpeed('remnant_sentry'));
+  });
+});
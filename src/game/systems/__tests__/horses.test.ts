@@ -0,0 +1,223 @@
+/**
+ * horses.test.ts - Tests for riding: gaits and horse stamina in the
+ * PlayerController, breeds on the road, and buying, stabling, wounding and
+ * spooking horses through the store
+ */
+
+import * as THREE from 'three';
+import { create } from 'zustand';
+import {
+  GALLOP_MIN_STAMINA,
+  MOUNTED_EYE_RISE,
+  resolveGait,
+  stepMountStamina,
+} from '../../engine/physics';
+import { PhysicsWorld } from '../../engine/physics/PhysicsWorld';
+import { PlayerController } from '../../engine/physics/PlayerController';
+import { createEmptyFrame, type InputFrame } from '../../input/InputFrame';
+import {
+  createHorseSlice,
+  type HorseSlice,
+  type HorseSliceDeps,
+} from '../../store/slices/horseSlice';
+import { DEFAULT_INVENTORY_STATE } from '../../store/slices/inventorySlice';
+import type { PlayerStats } from '../../store/types';
+import {
+  createHorse,
+  getMountStats,
+  getStableFee,
+  HORSE_BREEDS,
+  HORSE_DAMAGE_SHARE,
+  SADDLEBAGS_PRICE,
+  STABLE_FEE_PER_DAY,
+  THROWN_DAMAGE,
+} from '../horses';
+import { mountedTravelSpeed } from '../TravelManager';
+import { DEFAULT_CLOCK_STATE } from '../time';
+
+function frame(input: Partial<InputFrame>): InputFrame {
+  return { ...createEmptyFrame(), ...input };
+}
+
+const mustang = getMountStats(createHorse('h1', 'mustang', 'dusty_springs', 0));
+
+describe('gaits', () => {
+  it('should trot by default, walk on crouch and gallop on sprint', () => {
+    expect(resolveGait(frame({}), 100, 'walk')).toBe('trot');
+    expect(resolveGait(frame({ crouch: true }), 100, 'trot')).toBe('walk');
+    expect(resolveGait(frame({ sprint: true }), 100, 'trot')).toBe('gallop');
+  });
+
+  it('should keep a gallop going until the horse is spent, but not start one tired', () => {
+    expect(resolveGait(frame({ sprint: true }), GALLOP_MIN_STAMINA / 2, 'gallop')).toBe('gallop');
+    expect(resolveGait(frame({ sprint: true }), GALLOP_MIN_STAMINA / 2, 'trot')).toBe('trot');
+    expect(resolveGait(frame({ sprint: true }), 0, 'gallop')).toBe('trot');
+  });
+
+  it('should burn stamina at a gallop and recover it slower at a trot than a walk', () => {
+    expect(stepMountStamina(50, 'gallop', true, mustang, 1)).toBeCloseTo(50 - mustang.gallopDrain);
+    const walked = stepMountStamina(50, 'walk', true, mustang, 1);
+    const trotted = stepMountStamina(50, 'trot', true, mustang, 1);
+    expect(walked).toBeGreaterThan(trotted);
+    expect(trotted).toBeGreaterThan(50);
+    expect(stepMountStamina(mustang.maxStamina, 'walk', false, mustang, 10)).toBe(
+      mustang.maxStamina
+    );
+  });
+
+  it('should move the rider at the gait speed, higher in the saddle', () => {
+    const player = new PlayerController(new PhysicsWorld(), new THREE.Vector3(0, 0, 0));
+    const onFoot = player.getEyePosition(new THREE.Vector3()).y;
+
+    player.mountHorse(mustang, 80);
+    player.update(frame({ move: { x: 0, z: 1 }, sprint: true }), 0.1);
+
+    expect(player.getState()).toMatchObject({ mounted: true, gait: 'gallop', sprinting: false });
+    expect(Math.hypot(player.velocity.x, player.velocity.z)).toBeCloseTo(mustang.speeds.gallop);
+    expect(player.mountStamina).toBeLessThan(80);
+    expect(player.getEyePosition(new THREE.Vector3()).y).toBeGreaterThan(onFoot + MOUNTED_EYE_RISE / 2);
+
+    player.dismount();
+    expect(player.getState()).toMatchObject({ mounted: false, gait: null });
+  });
+});
+
+describe('horses on the road', () => {
+  it('should speed up overland travel only', () => {
+    expect(mountedTravelSpeed('trail', 1.5)).toBe(1.5);
+    expect(mountedTravelSpeed('wilderness', 1.5)).toBe(1.5);
+    expect(mountedTravelSpeed('railroad', 1.5)).toBe(1);
+    expect(mountedTravelSpeed('river', 1.5)).toBe(1);
+  });
+
+  it('should trade speed for carrying between breeds', () => {
+    const { quarter_horse, percheron } = HORSE_BREEDS;
+    expect(quarter_horse.gallopSpeed).toBeGreaterThan(percheron.gallopSpeed);
+    expect(percheron.saddlebagCapacity).toBeGreaterThan(quarter_horse.saddlebagCapacity);
+  });
+
+  it('should charge for every day stabled after the first', () => {
+    const horse = createHorse('h1', 'mustang', 'dusty_springs', 3);
+    expect(getStableFee(horse, 3)).toBe(0);
+    expect(getStableFee(horse, 6)).toBe(3 * STABLE_FEE_PER_DAY);
+  });
+});
+
+describe('HorseSlice', () => {
+  type Store = HorseSlice & HorseSliceDeps;
+  let store: ReturnType<typeof create<Store>>;
+  let damage: number;
+  let panels: string[];
+
+  beforeEach(() => {
+    damage = 0;
+    panels = [];
+    store = create<Store>()((set, get, api) => ({
+      ...createHorseSlice(set, get, api),
+      currentLocationId: 'dusty_springs',
+      clockState: { ...DEFAULT_CLOCK_STATE, day: 1 },
+      playerStats: { gold: 1000 } as PlayerStats,
+      maxCarryWeight: DEFAULT_INVENTORY_STATE.maxCarryWeight,
+      updatePlayerStats: (stats) => set({ playerStats: { ...get().playerStats, ...stats } }),
+      takeDamage: (amount) => {
+        damage += amount;
+      },
+      openPanel: (panel) => {
+        panels.push(panel);
+      },
+      addNotification: () => {},
+    }));
+    store.getState().openLivery();
+  });
+
+  const gold = () => store.getState().playerStats.gold;
+  const buyAndMount = (breedId = 'mustang') => {
+    store.getState().buyHorse(breedId);
+    store.getState().setHorseInReach(true);
+    store.getState().mountHorse();
+    return store.getState().getActiveHorse()!;
+  };
+
+  it('should sell a horse that rides out with the player', () => {
+    expect(panels).toEqual(['livery']);
+    expect(store.getState().buyHorse('mustang')).toBe(true);
+    expect(gold()).toBe(1000 - HORSE_BREEDS.mustang.price);
+    expect(store.getState().getActiveHorse()).toMatchObject({ breedId: 'mustang', stabledAt: null });
+    expect(store.getState().getMountTravelSpeed('road')).toBe(HORSE_BREEDS.mustang.travelSpeed);
+  });
+
+  it('should refuse a horse the player cannot afford', () => {
+    store.setState({ playerStats: { gold: 10 } as PlayerStats });
+    expect(store.getState().buyHorse('percheron')).toBe(false);
+    expect(store.getState().horses).toHaveLength(0);
+  });
+
+  it('should only mount a horse within reach', () => {
+    store.getState().buyHorse('mustang');
+    expect(store.getState().mountHorse()).toBe(false);
+    store.getState().setHorseInReach(true);
+    store.getState().toggleMount();
+    expect(store.getState().mounted).toBe(true);
+    store.getState().toggleMount();
+    expect(store.getState().mounted).toBe(false);
+  });
+
+  it('should add saddlebag capacity to carry weight while the horse is along', () => {
+    store.getState().buyHorse('percheron');
+    expect(store.getState().buySaddlebags()).toBe(true);
+    const capacity =
+      DEFAULT_INVENTORY_STATE.maxCarryWeight + HORSE_BREEDS.percheron.saddlebagCapacity;
+    expect(store.getState().maxCarryWeight).toBe(capacity);
+    expect(gold()).toBe(1000 - HORSE_BREEDS.percheron.price - SADDLEBAGS_PRICE);
+
+    store.getState().stableHorse();
+    expect(store.getState().maxCarryWeight).toBe(DEFAULT_INVENTORY_STATE.maxCarryWeight);
+  });
+
+  it('should bill the stabling and send the horse out rested', () => {
+    const horse = buyAndMount();
+    store.getState().woundHorse(20);
+    store.getState().stableHorse();
+    expect(store.getState().mounted).toBe(false);
+    expect(store.getState().getMountTravelSpeed('road')).toBe(1);
+
+    store.setState({ clockState: { ...DEFAULT_CLOCK_STATE, day: 4 } });
+    const before = gold();
+    expect(store.getState().takeHorse(horse.id)).toBe(true);
+    expect(gold()).toBe(before - 3 * STABLE_FEE_PER_DAY);
+    expect(store.getState().getActiveHorse()?.health).toBe(HORSE_BREEDS.mustang.maxHealth);
+  });
+
+  it('should only hand over horses stabled at the open livery', () => {
+    const horse = buyAndMount();
+    store.getState().stableHorse();
+    store.getState().openLivery('red_gulch');
+    expect(store.getState().takeHorse(horse.id)).toBe(false);
+  });
+
+  it('should wound a ridden horse with its rider and lose it when it falls', () => {
+    const horse = buyAndMount('percheron');
+    store.getState().horseUnderFire(20);
+    expect(store.getState().getActiveHorse()?.health).toBe(
+      horse.health - 20 * HORSE_DAMAGE_SHARE
+    );
+
+    store.getState().woundHorse(1000);
+    expect(store.getState().horses).toHaveLength(0);
+    expect(store.getState().mounted).toBe(false);
+  });
+
+  it('should throw the rider when the horse spooks', () => {
+    buyAndMount();
+    store.getState().spookHorse();
+    expect(store.getState().mounted).toBe(false);
+    expect(damage).toBe(THROWN_DAMAGE);
+  });
+
+  it('should leave a horse on foot out of the fighting', () => {
+    const horse = buyAndMount();
+    store.getState().dismountHorse();
+    store.getState().horseUnderFire(20);
+    expect(store.getState().getActiveHorse()?.health).toBe(horse.health);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * inputReplay.test.ts - Tests for recording input sessions and replaying
+ * them frame-for-frame, live and headless
+ */
+
+import * as THREE from 'three';
+import { PhysicsWorld } from '../../engine/physics/PhysicsWorld';
+import { PlayerController } from '../../engine/physics/PlayerController';
+import type { IInputProvider } from '../../input/IInputProvider';
+import type { InputFrame } from '../../input/InputFrame';
+import { InputManager } from '../../input/InputManager';
+import {
+  decodeFrame,
+  encodeFrame,
+  expandFrames,
+  InputRecorder,
+  parseReplay,
+  type ReplayFile,
+  runReplayHeadless,
+  serializeReplay,
+  startRecording,
+  startReplay,
+  stopRecording,
+  stopReplay,
+  updateReplaySession,
+} from '../../input/replay';
+import { getRngCounter, rngTick, setRngCounter } from '../../lib/prng';
+
+/** Wanders, looks around, sprints and jumps on a fixed schedule. */
+class ScriptedProvider implements IInputProvider {
+  readonly name = 'scripted';
+  readonly priority = 0;
+  private tick = 0;
+  private isEnabled = true;
+
+  poll(): Partial<InputFrame> {
+    if (!this.isEnabled) return {};
+    const t = this.tick++;
+    return {
+      move: { x: Math.sin(t * 0.13), z: Math.cos(t * 0.07) },
+      look: { yaw: Math.sin(t * 0.31) * 0.0123, pitch: Math.cos(t * 0.17) * 0.00457 },
+      sprint: t % 40 < 20,
+      jump: t % 90 === 30,
+      fire: t > 100 && t < 110,
+    };
+  }
+
+  enable(): void {
+    this.isEnabled = true;
+  }
+
+  disable(): void {
+    this.isEnabled = false;
+  }
+
+  dispose(): void {}
+}
+
+/** Jittery frame times, like a real renderer's. */
+const frameTime = (i: number) => 1 / 60 + Math.sin(i) * 0.0021;
+
+/** Record `ticks` frames of the scripted player, as the physics tick does. */
+function recordSession(ticks: number): { replay: ReplayFile; end: THREE.Vector3 } {
+  InputManager.resetInstance();
+  const manager = InputManager.getInstance();
+  manager.enable();
+  manager.registerProvider(new ScriptedProvider());
+
+  const player = new PlayerController(new PhysicsWorld(), new THREE.Vector3(3, 0, -2));
+  player.yaw = 0.4;
+  startRecording({ seed: 1887, startSave: { playerName: 'Tester' } });
+  for (let i = 0; i < ticks; i++) {
+    const dt = manager.tick(frameTime(i));
+    updateReplaySession(player);
+    player.update(manager.getFrame(), dt);
+  }
+  const replay = stopRecording() as ReplayFile;
+  return { replay, end: player.position.clone() };
+}
+
+describe('input replay', () => {
+  afterEach(() => {
+    stopRecording();
+    InputManager.resetInstance();
+  });
+
+  it('should pack frames into trimmed integers and runs of repeats', () => {
+    const frame: InputFrame = {
+      ...decodeFrame([]).frame,
+      move: { x: 0.5, z: -1 },
+      jump: true,
+    };
+    const encoded = encodeFrame(frame, 0.0167);
+    expect(encoded).toEqual([167, 500, -1000, 0, 0, 16]);
+    expect(decodeFrame(encoded)).toEqual({ frame, dt: 0.0167 });
+
+    const recorder = new InputRecorder({ seed: 1, startSave: null });
+    for (let i = 0; i < 5; i++) recorder.record(decodeFrame([]).frame, 1 / 60);
+    const replay = recorder.toReplay();
+    expect(replay.frames).toEqual([[167], 4]);
+    expect(expandFrames(replay.frames)).toHaveLength(5);
+  });
+
+  it('should reject replays from another format version', () => {
+    const { replay } = recordSession(3);
+    expect(() => parseReplay(serializeReplay({ ...replay, version: 99 }))).toThrow(
+      'unsupported version 99'
+    );
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+  });
+
+  it('should reproduce a recorded session exactly, headless', () => {
+    const { replay, end } = recordSession(300);
+    expect(replay.frameCount).toBe(300);
+    expect(replay.player?.yaw).toBe(0.4);
+
+    const result = runReplayHeadless(parseReplay(serializeReplay(replay)));
+    expect(result.frames).toBe(300);
+    expect(result.player.position.x).toBe(end.x);
+    expect(result.player.position.y).toBe(end.y);
+    expect(result.player.position.z).toBe(end.z);
+  });
+
+  it('should rewind rngTick to where the recording began', () => {
+    setRngCounter(500);
+    const { replay } = recordSession(3);
+    expect(replay.rngCounter).toBe(500);
+
+    rngTick();
+    const ticks: number[] = [];
+    runReplayHeadless(replay, { onFrame: () => ticks.push(rngTick()) });
+    expect(ticks).toEqual([500, 501, 502]);
+
+    startReplay(replay);
+    expect(getRngCounter()).toBe(500);
+    stopReplay();
+  });
+
+  it('should replay live in place of other input, then hand it back', () => {
+    const { replay, end } = recordSession(60);
+
+    const manager = InputManager.getInstance();
+    const onEnd = jest.fn();
+    startReplay(replay, onEnd);
+
+    const player = new PlayerController(new PhysicsWorld());
+    for (let i = 0; i <= 60; i++) {
+      // Wildly wrong frame times are replaced by the recorded ones
+      const dt = manager.tick(1);
+      updateReplaySession(player);
+      if (i < 60) player.update(manager.getFrame(), dt);
+    }
+
+    expect(player.position.equals(end)).toBe(true);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(manager.getProvider('replay')).toBeUndefined();
+    manager.tick(1);
+    expect(manager.getFrame().move.x).not.toBe(0);
+  });
+
+  it('should hand the recorded step to simulation outside the physics tick', () => {
+    const { replay } = recordSession(10);
+
+    const manager = InputManager.getInstance();
+    startReplay(replay);
+    const steps: number[] = [];
+    for (let i = 0; i < 10; i++) {
+      const dt = manager.tick(1);
+      expect(manager.getLastStep()).toBe(dt);
+      steps.push(dt);
+    }
+
+    expect(steps).not.toContain(1);
+    stopReplay();
+  });
+});
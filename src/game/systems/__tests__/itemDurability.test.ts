@@ -0,0 +1,186 @@
+/**
+ * itemDurability.test.ts - Tests for item wear, jamming and repairs
+ */
+
+import { create } from 'zustand';
+import {
+  findRepairPart,
+  getArmorWear,
+  getConditionMultiplier,
+  getFieldRepairCap,
+  getItem,
+  getJamChance,
+  getSmithRepairCost,
+} from '../../data/items';
+import {
+  calculateBuyPrice,
+  calculateSellPrice,
+  canSellItemToShop,
+  getShopById,
+} from '../../data/shops';
+import { calculateDamage } from '../../engine/combat/damageCalc';
+import { DEFAULT_PLAYER_STATS } from '../../store/defaults';
+import {
+  createInventorySlice,
+  type InventorySlice,
+  type InventorySliceDeps,
+} from '../../store/slices/inventorySlice';
+import { createShopSlice, type ShopSlice } from '../../store/slices/shopSlice';
+import type { InventoryItem, PlayerStats } from '../../store/types';
+import { DEFAULT_CLOCK_STATE } from '../time';
+
+describe('durability rules', () => {
+  it('should scale effectiveness from half at 0 to full at 100', () => {
+    expect(getConditionMultiplier(100)).toBe(1);
+    expect(getConditionMultiplier(50)).toBe(0.75);
+    expect(getConditionMultiplier(0)).toBe(0.5);
+  });
+
+  it('should only jam below the threshold', () => {
+    expect(getJamChance(40)).toBe(0);
+    expect(getJamChance(20)).toBeCloseTo(0.125);
+    expect(getJamChance(0)).toBe(0.25);
+  });
+
+  it('should spread armor wear across pieces', () => {
+    expect(getArmorWear(10, 2)).toBe(1);
+    expect(getArmorWear(10, 0)).toBe(0);
+  });
+
+  it('should cap field repairs by skill', () => {
+    expect(getFieldRepairCap(0)).toBe(50);
+    expect(getFieldRepairCap(60)).toBe(80);
+    expect(getFieldRepairCap(100)).toBe(100);
+  });
+
+  it('should prefer better parts first', () => {
+    const counts: Record<string, number> = { rusty_nail: 3, scrap_metal: 1 };
+    expect(findRepairPart((id) => counts[id] ?? 0)).toBe('scrap_metal');
+    expect(findRepairPart(() => 0)).toBeNull();
+  });
+
+  it('should charge smiths by value and damage', () => {
+    expect(getSmithRepairCost(100, 100)).toBe(0);
+    expect(getSmithRepairCost(100, 50)).toBe(50);
+    expect(getSmithRepairCost(25, 99)).toBe(1);
+  });
+
+  it('should reduce combat damage with a worn weapon', () => {
+    const pristine = calculateDamage('revolver_basic', 1, false, 'normal');
+    const worn = calculateDamage('revolver_basic', 1, false, 'normal', 0, getConditionMultiplier(0));
+    expect(worn.damage).toBeLessThan(pristine.damage);
+  });
+});
+
+describe('InventorySlice durability', () => {
+  type Store = InventorySlice & InventorySliceDeps & ShopSlice;
+  let store: ReturnType<typeof create<Store>>;
+  let notifications: string[];
+
+  const gear = (id: string, itemId: string, condition: number, type: string): InventoryItem => ({
+    id,
+    itemId,
+    name: getItem(itemId)?.name ?? itemId,
+    rarity: 'common',
+    quantity: 1,
+    weight: 1,
+    condition,
+    type,
+    droppable: true,
+  });
+
+  beforeEach(() => {
+    notifications = [];
+    const inventorySlice = createInventorySlice({ getItem });
+    const shopSlice = createShopSlice({
+      getShopById,
+      getItem,
+      calculateBuyPrice,
+      calculateSellPrice,
+      canSellItemToShop,
+    });
+    store = create<Store>()((...a) => ({
+      ...inventorySlice(...(a as Parameters<typeof inventorySlice>)),
+      ...shopSlice(...(a as unknown as Parameters<typeof shopSlice>)),
+      addNotification: (_type, message) => {
+        notifications.push(message);
+      },
+      heal: () => {},
+      gainSkillXP: () => {},
+      takeDamage: () => {},
+      updatePlayerStats: (stats: Partial<PlayerStats>) =>
+        a[0]((s) => ({ playerStats: { ...s.playerStats, ...stats } })),
+      playerStats: { ...DEFAULT_PLAYER_STATS, gold: 100 },
+      playerPosition: { x: 0, y: 0, z: 0 },
+      worldItems: {},
+      getReputation: () => 0,
+      clockState: { ...DEFAULT_CLOCK_STATE },
+      onClockEvent: () => () => {},
+    }));
+    store.setState({
+      inventory: [
+        gear('gun', 'revolver_basic', 100, 'weapon'),
+        gear('holster', 'quickdraw_holster', 100, 'armor'),
+      ],
+    });
+    store.getState().equipItem('gun');
+    store.getState().equipItem('holster');
+  });
+
+  const condition = (id: string) => store.getState().inventory.find((i) => i.id === id)?.condition;
+
+  it('should scale equipment bonuses by condition', () => {
+    const full = store.getState().getEquipmentBonuses().damage;
+    store.getState().setItemCondition('gun', 0);
+    expect(store.getState().getEquipmentBonuses().damage).toBe(Math.round(full * 0.5));
+  });
+
+  it('should wear items and report when they break', () => {
+    store.getState().degradeItem('gun', 30);
+    expect(condition('gun')).toBe(70);
+    store.getState().degradeItem('gun', 500);
+    expect(condition('gun')).toBe(0);
+    expect(notifications).toContain(`${getItem('revolver_basic')?.name} is broken.`);
+  });
+
+  it('should wear only equipped armor when hit', () => {
+    store.getState().degradeArmor(10);
+    expect(condition('holster')).toBe(98);
+    expect(condition('gun')).toBe(100);
+  });
+
+  it('should field repair with junk up to the skill cap', () => {
+    store.getState().setItemCondition('gun', 20);
+    store.getState().addItemById('scrap_metal', 3);
+    store.getState().repairItem('gun');
+    // 20 + 20 * (0.5 + 0.15) with the default repair skill of 15
+    expect(condition('gun')).toBeCloseTo(33);
+    expect(store.getState().getItemCount('scrap_metal')).toBe(2);
+
+    store.getState().setItemCondition('gun', 57.5);
+    store.getState().repairItem('gun');
+    expect(store.getState().getItemCount('scrap_metal')).toBe(2);
+    expect(notifications.at(-1)).toMatch(/lack the skill/);
+  });
+
+  it('should refuse to field repair without parts', () => {
+    store.getState().setItemCondition('gun', 20);
+    store.getState().repairItem('gun');
+    expect(condition('gun')).toBe(20);
+  });
+
+  it('should sell full repairs at the smithy only', () => {
+    store.getState().setItemCondition('gun', 50);
+    store.getState().openShop('general_store');
+    expect(store.getState().getShopRepairCost('general_store', 'gun')).toBe(0);
+    store.getState().repairAtShop('gun');
+    expect(condition('gun')).toBe(50);
+
+    store.getState().openShop('blacksmith_shop');
+    const cost = store.getState().getShopRepairCost('blacksmith_shop', 'gun');
+    expect(cost).toBeGreaterThan(0);
+    store.getState().repairAtShop('gun');
+    expect(condition('gun')).toBe(100);
+    expect(store.getState().playerStats.gold).toBe(100 - cost);
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * law.test.ts - Tests for crimes, witnesses, town bounties and their
+ * settlement, the law store slice and bounty dialogue
+ */
+
+import { create } from 'zustand';
+import { LawConfrontationDialogue } from '../../data/npcs/dialogues/lawmen';
+import { DialogueTreeSchema } from '../../data/schemas/npc';
+import {
+  applyDialogueEffectHelper,
+  evaluateDialogueCondition,
+} from '../../store/slices/dialogueHelpers';
+import { createLawSlice, type LawSlice, type LawSliceDeps } from '../../store/slices/lawSlice';
+import type { PlayerStats } from '../../store/types';
+import { type BridgeStoreReader, evaluateCondition } from '../DialogueQuestBridge';
+import {
+  addBounty,
+  BOUNTY_SETTLED_FLAG,
+  type Crime,
+  clearWarrants,
+  decayBounties,
+  findWitnesses,
+  getBribeCost,
+  getCrimeBounty,
+  getJailHours,
+  getJurisdiction,
+  getLawResponse,
+  getWantedStatus,
+  isBuildingClosed,
+  LAW_DIALOGUE_ID,
+  type WitnessCandidate,
+} from '../law';
+import type { GameClockState, TimeEventCallback } from '../time';
+
+const DAY = { visibility: 1, isNight: false };
+
+/** A townsperson at the origin looking down +z */
+function candidate(overrides: Partial<WitnessCandidate> = {}): WitnessCandidate {
+  return {
+    id: 'npc_1',
+    position: { x: 0, y: 0, z: 0 },
+    facingYaw: 0,
+    isIndoors: false,
+    isAsleep: false,
+    isLawman: false,
+    ...overrides,
+  };
+}
+
+function crime(type: Crime['type'], z: number, extra: Partial<Crime> = {}): Crime {
+  return { type, position: { x: 0, y: 0, z }, ...extra };
+}
+
+describe('witnesses', () => {
+  it('should see crimes in front within sight range', () => {
+    expect(findWitnesses(crime('theft', 10), [candidate()], DAY)).toEqual(['npc_1']);
+    expect(findWitnesses(crime('theft', 30), [candidate()], DAY)).toEqual([]);
+  });
+
+  it('should miss quiet crimes behind them unless close by', () => {
+    expect(findWitnesses(crime('theft', -10), [candidate()], DAY)).toEqual([]);
+    expect(findWitnesses(crime('theft', -3), [candidate()], DAY)).toEqual(['npc_1']);
+  });
+
+  it('should see less far at night and in bad weather', () => {
+    expect(findWitnesses(crime('theft', 20), [candidate()], { ...DAY, isNight: true })).toEqual([]);
+    expect(findWitnesses(crime('theft', 15), [candidate()], { ...DAY, visibility: 0.4 })).toEqual(
+      []
+    );
+  });
+
+  it('should not see from indoors or asleep', () => {
+    const inside = candidate({ isIndoors: true });
+    const asleep = candidate({ id: 'npc_2', isAsleep: true });
+    expect(findWitnesses(crime('theft', 2), [inside, asleep], DAY)).toEqual([]);
+  });
+
+  it('should hear gunfire through walls and in their sleep', () => {
+    const inside = candidate({ isIndoors: true });
+    const asleep = candidate({ id: 'npc_2', isAsleep: true });
+    expect(findWitnesses(crime('assault', -30), [inside, asleep], DAY)).toEqual(['npc_1', 'npc_2']);
+    expect(findWitnesses(crime('murder', -40), [inside], DAY)).toEqual([]);
+  });
+
+  it('should not count the victim', () => {
+    expect(findWitnesses(crime('assault', 2, { victimId: 'npc_1' }), [candidate()], DAY)).toEqual(
+      []
+    );
+  });
+});
+
+describe('crimes', () => {
+  it('should scale bounties with the town law level', () => {
+    expect(getCrimeBounty(crime('trespass', 0), 'frontier')).toBe(10);
+    expect(getCrimeBounty(crime('murder', 0), 'strict')).toBe(375);
+    expect(getCrimeBounty(crime('murder', 0), 'lawless')).toBe(0);
+  });
+
+  it('should add what was taken to theft bounties', () => {
+    expect(getCrimeBounty(crime('theft', 0, { value: 10 }), 'strict')).toBe(53);
+  });
+
+  it('should look up who keeps order in a town', () => {
+    expect(getJurisdiction('junction_city', 'strict').faction).toBe('ivrc');
+    expect(getJurisdiction('prospect').faction).toBe('freeminer');
+    expect(getJurisdiction('dusty_springs').faction).toBe('townsfolk');
+  });
+
+  it('should close businesses outside opening hours', () => {
+    expect(isBuildingClosed('general_store', 12)).toBe(false);
+    expect(isBuildingClosed('general_store', 20)).toBe(true);
+    expect(isBuildingClosed('saloon', 1)).toBe(false);
+    expect(isBuildingClosed('saloon', 5)).toBe(true);
+  });
+
+  it('should always close homes and never close unlisted buildings', () => {
+    expect(isBuildingClosed('house_small', 12)).toBe(true);
+    expect(isBuildingClosed('water_tower', 3)).toBe(false);
+  });
+});
+
+describe('bounties', () => {
+  const junction = getJurisdiction('junction_city', 'strict');
+  const coppertown = getJurisdiction('coppertown', 'strict');
+  const prospect = getJurisdiction('prospect');
+  const hollow = getJurisdiction('freeminer_hollow');
+
+  it('should accumulate per town', () => {
+    let ledger = addBounty({}, junction, 50, 1);
+    ledger = addBounty(ledger, junction, 25, 2);
+    expect(ledger.junction_city.amount).toBe(75);
+    expect(ledger.junction_city.lastCrimeDay).toBe(2);
+    expect(ledger.junction_city.lastDecayDay).toBe(1);
+  });
+
+  it('should share company warrants between company towns', () => {
+    const ledger = addBounty(addBounty({}, junction, 50, 1), prospect, 30, 1);
+    expect(getWantedStatus(ledger, coppertown).amount).toBe(50);
+    expect(getWantedStatus(ledger, prospect).amount).toBe(30);
+    expect(getWantedStatus(ledger, hollow).amount).toBe(0);
+  });
+
+  it('should clear every warrant that applies in a town', () => {
+    const ledger = addBounty(addBounty({}, junction, 50, 1), prospect, 30, 1);
+    const cleared = clearWarrants(ledger, coppertown);
+    expect(Object.keys(cleared)).toEqual(['prospect']);
+  });
+
+  it('should decay daily and drop small bounties', () => {
+    const ledger = addBounty(addBounty({}, junction, 100, 0), prospect, 5, 0);
+    const decayed = decayBounties(ledger, 1);
+    expect(decayed.junction_city.amount).toBe(90);
+    expect(decayed.prospect).toBeUndefined();
+    expect(decayBounties(ledger, 3).junction_city.amount).toBe(72);
+  });
+
+  it('should stop shooting on sight after a few quiet days', () => {
+    const ledger = addBounty({}, junction, 375, 0, true);
+    expect(decayBounties(ledger, 2).junction_city.hostile).toBe(true);
+    expect(decayBounties(ledger, 3).junction_city.hostile).toBe(false);
+  });
+
+  it('should confront, then attack, as the bounty grows', () => {
+    expect(getLawResponse({ amount: 10, hostile: false }, 'frontier')).toBe('none');
+    expect(getLawResponse({ amount: 25, hostile: false }, 'frontier')).toBe('confront');
+    expect(getLawResponse({ amount: 10, hostile: false }, 'strict')).toBe('confront');
+    expect(getLawResponse({ amount: 400, hostile: false }, 'frontier')).toBe('attack');
+    expect(getLawResponse({ amount: 10, hostile: true }, 'frontier')).toBe('attack');
+    expect(getLawResponse({ amount: 500, hostile: true }, 'lawless')).toBe('none');
+  });
+
+  it('should bound jail time', () => {
+    expect(getJailHours(50)).toBe(10);
+    expect(getJailHours(10)).toBe(4);
+    expect(getJailHours(5000)).toBe(168);
+  });
+
+  it('should only take bribes where the law can be bought', () => {
+    expect(getBribeCost(100, 'frontier')).toBe(50);
+    expect(getBribeCost(100, 'strict')).toBe(75);
+    expect(getBribeCost(100, 'orderly')).toBeNull();
+  });
+});
+
+describe('LawSlice', () => {
+  let store: ReturnType<typeof create<LawSlice & LawSliceDeps>>;
+  let notifications: string[];
+  let dayListener: TimeEventCallback | null;
+  const changeReputation = jest.fn();
+  const updateTime = jest.fn();
+
+  const town = (name: string, lawLevel: string) => ({
+    ref: { name },
+    location: { atmosphere: { lawLevel } },
+  });
+
+  beforeEach(() => {
+    notifications = [];
+    dayListener = null;
+    changeReputation.mockClear();
+    updateTime.mockClear();
+    store = create<LawSlice & LawSliceDeps>()((set, get, api) => ({
+      ...createLawSlice(set, get, api),
+      currentLocationId: 'junction_city',
+      loadedWorld: {
+        locations: new Map([
+          ['junction_city', town('Junction City', 'strict')],
+          ['sunset_ranch', town('Sunset Ranch', 'orderly')],
+          ['signal_rock', town('Signal Rock', 'lawless')],
+        ]),
+      },
+      clockState: { hour: 12, minute: 0, day: 1, isPaused: false, totalMinutes: 0 } as GameClockState,
+      playerStats: { gold: 100 } as PlayerStats,
+      addNotification: (_type, message) => {
+        notifications.push(message);
+      },
+      updatePlayerStats: (stats) => set({ playerStats: { ...get().playerStats, ...stats } }),
+      changeReputation,
+      updateTime,
+      onClockEvent: (_event, callback) => {
+        dayListener = callback;
+        return () => {
+          dayListener = null;
+        };
+      },
+    }));
+  });
+
+  const theft: Crime = { type: 'theft', position: { x: 0, y: 0, z: 0 }, value: 10 };
+
+  it('should let unwitnessed crimes go', () => {
+    expect(store.getState().reportCrime(theft, [])).toBe(0);
+    expect(store.getState().bounties).toEqual({});
+  });
+
+  it('should put a bounty on witnessed crimes and cost reputation', () => {
+    expect(store.getState().reportCrime(theft, ['npc_1'])).toBe(53);
+    expect(store.getState().getBounty()).toBe(53);
+    expect(store.getState().getLawResponse()).toBe('confront');
+    expect(changeReputation).toHaveBeenCalledWith('ivrc', -5);
+    expect(notifications).toContain('Theft witnessed: 53g bounty in Junction City');
+  });
+
+  it('should not punish crimes in lawless towns', () => {
+    store.setState({ currentLocationId: 'signal_rock' });
+    expect(store.getState().reportCrime(theft, ['npc_1'])).toBe(0);
+  });
+
+  it('should settle a fine the player can afford', () => {
+    store.getState().reportCrime(theft, ['npc_1']);
+    expect(store.getState().settleBounty('fine')).toBe(true);
+    expect(store.getState().playerStats.gold).toBe(47);
+    expect(store.getState().getBounty()).toBe(0);
+  });
+
+  it('should refuse a fine the player cannot afford', () => {
+    store.setState({ playerStats: { gold: 10 } as PlayerStats });
+    store.getState().reportCrime(theft, ['npc_1']);
+    expect(store.getState().settleBounty('fine')).toBe(false);
+    expect(store.getState().getBounty()).toBe(53);
+  });
+
+  it('should pass time in jail', () => {
+    store.getState().reportCrime(theft, ['npc_1']);
+    expect(store.getState().settleBounty('jail')).toBe(true);
+    expect(updateTime).toHaveBeenCalledWith(11);
+    expect(store.getState().getBounty()).toBe(0);
+  });
+
+  it('should take bribes only where the law can be bought', () => {
+    store.getState().reportCrime(theft, ['npc_1']);
+    expect(store.getState().settleBounty('bribe')).toBe(true);
+    expect(store.getState().playerStats.gold).toBe(60);
+
+    store.setState({ currentLocationId: 'sunset_ranch' });
+    store.getState().reportCrime(theft, ['npc_1']);
+    expect(store.getState().settleBounty('bribe')).toBe(false);
+    expect(store.getState().getBounty()).toBeGreaterThan(0);
+  });
+
+  it('should turn lawmen hostile on resisting arrest, and refuse bribes after', () => {
+    store.getState().reportCrime(theft, ['npc_1']);
+    store.getState().resistArrest();
+    expect(store.getState().getLawResponse()).toBe('attack');
+    expect(store.getState().settleBounty('bribe')).toBe(false);
+  });
+
+  it('should decay bounties on the game clock', () => {
+    store.getState().reportCrime(theft, ['npc_1']);
+    const teardown = store.getState().watchBounties();
+    dayListener?.({ hour: 0, minute: 0, day: 2, phase: 'night' });
+    expect(store.getState().getBounty()).toBe(47);
+    teardown();
+    expect(dayListener).toBeNull();
+  });
+});
+
+describe('bounty dialogue', () => {
+  const baseState: BridgeStoreReader = {
+    activeQuests: [],
+    completedQuestIds: [],
+    completedQuestBranches: {},
+    playerStats: { level: 1, gold: 0, skills: {}, attributes: {} },
+    factionReputation: {},
+    inventory: [],
+    talkedNPCIds: [],
+    dialogueState: null,
+  };
+
+  it('should check the bounty where the player stands', () => {
+    const wanted = { ...baseState, getBounty: () => 30 };
+    expect(evaluateCondition({ type: 'bounty_gte' }, wanted)).toBe(true);
+    expect(evaluateCondition({ type: 'bounty_gte', value: 50 }, wanted)).toBe(false);
+    expect(evaluateCondition({ type: 'bounty_gte' }, baseState)).toBe(false);
+  });
+
+  it('should agree in the store helpers', () => {
+    const state = {
+      inventory: [],
+      completedQuestIds: [],
+      completedQuestBranches: {},
+      activeQuests: [],
+      playerStats: { skills: {}, attributes: {} },
+      factionReputation: {},
+      dialogueState: null,
+      getBounty: () => 0,
+    };
+    expect(evaluateDialogueCondition({ type: 'bounty_gte' }, state)).toBe(false);
+  });
+
+  it('should flag a settled bounty for the conversation', () => {
+    const flags: Record<string, boolean> = {};
+    const context = {
+      addItemById: jest.fn(),
+      startQuest: jest.fn(),
+      setDialogueFlag: (flag: string, value: boolean) => {
+        flags[flag] = value;
+      },
+      raiseQuestFlag: jest.fn(),
+      changeReputation: jest.fn(),
+      settleBounty: jest.fn((method: string) => method === 'fine'),
+      resistArrest: jest.fn(),
+      dialogueState: null,
+    };
+    applyDialogueEffectHelper({ type: 'settle_bounty', stringValue: 'bribe' }, context);
+    expect(flags[BOUNTY_SETTLED_FLAG]).toBeUndefined();
+    applyDialogueEffectHelper({ type: 'settle_bounty', stringValue: 'fine' }, context);
+    expect(flags[BOUNTY_SETTLED_FLAG]).toBe(true);
+    applyDialogueEffectHelper({ type: 'settle_bounty', stringValue: 'charm' }, context);
+    expect(context.settleBounty).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ship a valid confrontation tree', () => {
+    expect(LawConfrontationDialogue.id).toBe(LAW_DIALOGUE_ID);
+    expect(DialogueTreeSchema.safeParse(LawConfrontationDialogue).success).toBe(true);
+    const ids = new Set(LawConfrontationDialogue.nodes.map((node) => node.id));
+    for (const node of LawConfrontationDialogue.nodes) {
+      for (const choice of node.choices ?? []) {
+        for (const next of [choice.nextNodeId, choice.check?.successNodeId, choice.check?.failureNodeId]) {
+          if (next) expect(ids.has(next)).toBe(true);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * noise.test.ts - Tests for the noise bus, footstep and weapon loudness, and
+ * enemies reacting to what they hear
+ */
+
+import * as THREE from 'three';
+import { getWeaponMod, getWeaponNoiseMultiplier } from '../../data/items';
+import {
+  createEnemyAI,
+  createWeaponState,
+  disposeEnemyAI,
+  type EnemyAIState,
+  getWeaponConfig,
+  processCombatTick,
+  updateEnemyAI,
+} from '../../engine/combat';
+import { getDoorSystem } from '../../engine/interiors/DoorSystem';
+import {
+  getFootstepRadius,
+  getNoiseIntensity,
+  loudestNoise,
+  NoiseBus,
+  noiseBus,
+  type NoiseEvent,
+} from '../../engine/noise';
+import { createEmptyFrame } from '../../input/InputFrame';
+import { tickStealth } from '../StealthSystem';
+
+const ORIGIN = { x: 0, y: 0, z: 0 };
+const noise = (kind: NoiseEvent['kind'], x: number, z: number, radius: number): NoiseEvent => ({
+  kind,
+  position: { x, y: 0, z },
+  radius,
+});
+
+describe('NoiseBus', () => {
+  it('should queue noises until drained and notify subscribers', () => {
+    const bus = new NoiseBus();
+    const heard: NoiseEvent[] = [];
+    const unsubscribe = bus.subscribe((event) => heard.push(event));
+
+    bus.emit(noise('door', 0, 0, 10));
+    bus.emit(noise('footstep', 0, 0, 0));
+    unsubscribe();
+    bus.emit(noise('thrown', 0, 0, 14));
+
+    expect(heard).toHaveLength(1);
+    expect(bus.drain().map((e) => e.kind)).toEqual(['door', 'thrown']);
+    expect(bus.drain()).toEqual([]);
+  });
+
+  it('should fall off with distance', () => {
+    const shot = noise('gunshot', 0, 0, 50);
+    expect(getNoiseIntensity(shot, ORIGIN)).toBe(1);
+    expect(getNoiseIntensity(shot, { x: 25, y: 0, z: 0 })).toBeCloseTo(0.5);
+    expect(getNoiseIntensity(shot, { x: 60, y: 0, z: 0 })).toBe(0);
+    expect(loudestNoise(ORIGIN, [noise('door', 5, 0, 10), shot])?.event).toBe(shot);
+    expect(loudestNoise({ x: 100, y: 0, z: 0 }, [shot])).toBeNull();
+  });
+});
+
+describe('noise sources', () => {
+  afterEach(() => {
+    noiseBus.clear();
+  });
+
+  it('should make crouch-walking quiet and sprinting loud, by terrain', () => {
+    expect(getFootstepRadius('plains', 'crouch')).toBeLessThan(getFootstepRadius('plains', 'walk'));
+    expect(getFootstepRadius('plains', 'sprint')).toBeGreaterThan(
+      getFootstepRadius('plains', 'walk')
+    );
+    expect(getFootstepRadius('mountains', 'walk')).toBeGreaterThan(
+      getFootstepRadius('desert', 'walk')
+    );
+  });
+
+  it('should give weapons their own loudness, muffled by a baffle', () => {
+    const rifle = getWeaponConfig('hunting_rifle')?.loudness ?? 0;
+    const revolver = getWeaponConfig('revolver')?.loudness ?? 0;
+    expect(rifle).toBeGreaterThan(revolver);
+    expect(getWeaponMod('mod_choke')?.noise).toBe(1);
+    expect(getWeaponNoiseMultiplier(['mod_baffle'])).toBeLessThan(1);
+  });
+
+  it('should make a noise when a door opens', () => {
+    const doors = getDoorSystem();
+    doors.registerDoor('noise_test', 'saloon', 'Saloon', new THREE.Vector3(4, 0, 2));
+    doors.openDoor('noise_test');
+    const [event] = noiseBus.drain();
+    expect(event.kind).toBe('door');
+    expect(event.position).toEqual({ x: 4, y: 0, z: 2 });
+    doors.unregisterDoor('noise_test');
+  });
+
+  it('should land a thrown stick of dynamite down range before it blows', () => {
+    const camera = new THREE.PerspectiveCamera();
+    const events: NoiseEvent[] = [];
+    noiseBus.subscribe((event) => events.push(event));
+    processCombatTick(
+      0.016,
+      { ...createEmptyFrame(), fire: true },
+      camera,
+      new THREE.Scene(),
+      [],
+      createWeaponState('dynamite')
+    );
+    const range = getWeaponConfig('dynamite')?.range ?? 0;
+    expect(events.map((e) => e.kind)).toEqual(['thrown', 'explosion']);
+    expect(events[0].position.z).toBeCloseTo(-range);
+    expect(events[1].position).toEqual(events[0].position);
+  });
+});
+
+describe('enemies hearing noise', () => {
+  let ai: EnemyAIState;
+
+  beforeEach(() => {
+    ai = createEnemyAI('bandit_gunman', 1, ORIGIN, 100, 100, 'noise-test');
+  });
+
+  afterEach(() => {
+    disposeEnemyAI(ai);
+  });
+
+  // Player is behind the enemy, out of its vision cone
+  const hiddenPlayer = { x: 0, y: 0, z: -20 };
+
+  it('should go on alert and remember the source of a loud noise', () => {
+    updateEnemyAI(ai, 0.1, hiddenPlayer, [noise('gunshot', 3, -18, 50)]);
+    expect(ai.state).toBe('alert');
+    expect(ai.lastKnownPlayerPos).toEqual({ x: 3, y: 0, z: -18 });
+    expect(ai.heardNoise).toBeGreaterThan(0.5);
+  });
+
+  it('should miss a faint or distant noise', () => {
+    updateEnemyAI(ai, 0.1, hiddenPlayer, [noise('footstep', 0, -20, 2)]);
+    expect(ai.state).toBe('idle');
+    updateEnemyAI(ai, 0.1, hiddenPlayer, [noise('footstep', 0, -20, 22)]);
+    expect(ai.state).toBe('idle');
+    expect(ai.heardNoise).toBeGreaterThan(0);
+  });
+
+  it('should keep hearing a noise for a moment after it stops', () => {
+    updateEnemyAI(ai, 0.1, hiddenPlayer, [noise('footstep', 0, -20, 22)]);
+    const heard = ai.heardNoise;
+    updateEnemyAI(ai, 0.02, hiddenPlayer, []);
+    expect(ai.heardNoise).toBeCloseTo(heard - 0.02);
+    updateEnemyAI(ai, 1, hiddenPlayer, []);
+    expect(ai.heardNoise).toBe(0);
+  });
+});
+
+describe('tickStealth with hearing', () => {
+  it('should raise detection from noise even when unseen', () => {
+    const result = tickStealth({
+      playerPosition: ORIGIN,
+      isCrouching: false,
+      isMoving: false,
+      isSprinting: false,
+      isNight: false,
+      currentDetection: 0,
+      dt: 10,
+      hostilePositions: [{ x: 10, y: 0, z: 0 }],
+      observers: [0],
+      hearing: [0.5],
+    });
+    expect(result.detectionLevel).toBeCloseTo(30);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * perks.test.ts - Tests for level-up points, the perk trees and perk modifiers
+ */
+
+import { create } from 'zustand';
+import { getPerk, getPerkBlocker, getPerkModifier, PERKS } from '../../data/perks';
+import { calculateBuyPrice, getShopById } from '../../data/shops';
+import { calculateDamage } from '../../engine/combat/damageCalc';
+import {
+  createPlayerSlice,
+  DEFAULT_PLAYER_STATS,
+  type PlayerSlice,
+  type PlayerSliceDeps,
+  SKILL_POINTS_PER_LEVEL,
+} from '../../store/slices/playerSlice';
+import { DEFAULT_PROVISIONS_CONFIG } from '../provisions';
+import { executeHunt } from '../provisions/gathering';
+import { tickStealth } from '../StealthSystem';
+
+describe('perk trees', () => {
+  it('should only require perks from the same tree', () => {
+    for (const perk of PERKS) {
+      for (const id of perk.requires) {
+        expect(getPerk(id)?.skill).toBe(perk.skill);
+      }
+    }
+  });
+
+  it('should sum effects into a multiplier', () => {
+    expect(getPerkModifier([], 'gun_damage')).toBe(1);
+    expect(getPerkModifier(['steady_hand', 'deadeye'], 'gun_damage')).toBeCloseTo(1.3);
+    expect(getPerkModifier(['light_step', 'dead_eye_tracker'], 'detection')).toBeCloseTo(0.75);
+    expect(getPerkModifier(['not_a_perk'], 'repair')).toBe(1);
+  });
+
+  it('should check points, level, skill and prerequisites in order', () => {
+    const perk = getPerk('fan_the_hammer')!;
+    const player = {
+      level: 4,
+      skills: { ...DEFAULT_PLAYER_STATS.skills, guns: 45 },
+      perks: ['steady_hand'],
+      perkPoints: 1,
+    };
+    expect(getPerkBlocker(perk, player)).toBeNull();
+    expect(getPerkBlocker(perk, { ...player, perkPoints: 0 })).toBe('No perk points.');
+    expect(getPerkBlocker(perk, { ...player, level: 3 })).toBe('Requires level 4.');
+    expect(getPerkBlocker(perk, { ...player, skills: { ...player.skills, guns: 44 } })).toBe(
+      'Requires guns 45.'
+    );
+    expect(getPerkBlocker(perk, { ...player, perks: [] })).toBe('Requires Steady Hand.');
+  });
+});
+
+describe('perk modifiers in systems', () => {
+  it('should raise firearm damage', () => {
+    const base = calculateDamage('revolver_basic', 1, false, 'normal');
+    const perked = calculateDamage('revolver_basic', 1, false, 'normal', 0, 1, ['deadeye']);
+    expect(perked.damage).toBeGreaterThan(base.damage);
+  });
+
+  it('should slow detection', () => {
+    const input = {
+      playerPosition: { x: 0, y: 0, z: 0 },
+      isCrouching: false,
+      isMoving: false,
+      isSprinting: false,
+      isNight: false,
+      currentDetection: 0,
+      dt: 10,
+      hostilePositions: [{ x: 10, y: 0, z: 0 }],
+    };
+    const base = tickStealth(input).detectionLevel;
+    expect(tickStealth({ ...input, perkModifier: 0.5 }).detectionLevel).toBeCloseTo(base / 2);
+  });
+
+  it('should bring back more from a hunt', () => {
+    const rng = () => 0;
+    const base = executeHunt(DEFAULT_PROVISIONS_CONFIG, 0, rng);
+    const perked = executeHunt(DEFAULT_PROVISIONS_CONFIG, 0, rng, { yield: 2 });
+    expect(perked.foodGained).toBe(base.foodGained * 2);
+  });
+
+  it('should lower shop prices', () => {
+    const shop = getShopById('general_store');
+    const shopItem = shop?.inventory.find((i) => i.itemId === 'lantern');
+    if (!shop || !shopItem) throw new Error('fixture missing');
+    expect(calculateBuyPrice(shop, shopItem, { buyPerkModifier: 0.9 })).toBeLessThan(
+      calculateBuyPrice(shop, shopItem)
+    );
+  });
+});
+
+describe('PlayerSlice progression', () => {
+  type Store = PlayerSlice & PlayerSliceDeps;
+  let store: ReturnType<typeof create<Store>>;
+  let notifications: string[];
+
+  beforeEach(() => {
+    notifications = [];
+    store = create<Store>()((...a) => ({
+      ...createPlayerSlice(...(a as Parameters<typeof createPlayerSlice>)),
+      addNotification: (_type, message) => {
+        notifications.push(message);
+      },
+      setPhase: () => {},
+    }));
+  });
+
+  const stats = () => store.getState().playerStats;
+
+  it('should award points on level up', () => {
+    store.getState().gainXP(100);
+    expect(stats().level).toBe(2);
+    expect(stats().skillPoints).toBe(SKILL_POINTS_PER_LEVEL);
+    expect(stats().perkPoints).toBe(1);
+    expect(stats().attributePoints).toBe(1);
+
+    store.getState().gainXP(150);
+    expect(stats().level).toBe(3);
+    expect(stats().attributePoints).toBe(1);
+  });
+
+  it('should spend skill and attribute points up to the caps', () => {
+    store.getState().updatePlayerStats({ skillPoints: 2, attributePoints: 1 });
+    store.getState().spendSkillPoint('guns');
+    expect(stats().skills.guns).toBe(DEFAULT_PLAYER_STATS.skills.guns + 1);
+    expect(stats().skillPoints).toBe(1);
+
+    store.getState().updatePlayerStats({
+      attributes: { ...DEFAULT_PLAYER_STATS.attributes, grit: 10 },
+    });
+    store.getState().spendAttributePoint('grit');
+    expect(stats().attributes.grit).toBe(10);
+    expect(stats().attributePoints).toBe(1);
+  });
+
+  it('should unlock perks and apply their modifiers', () => {
+    store.getState().unlockPerk('steady_hand');
+    expect(notifications.at(-1)).toBe('No perk points.');
+
+    store.getState().updatePlayerStats({
+      perkPoints: 1,
+      skills: { ...DEFAULT_PLAYER_STATS.skills, guns: 25 },
+    });
+    store.getState().unlockPerk('steady_hand');
+    expect(stats().perks).toEqual(['steady_hand']);
+    expect(stats().perkPoints).toBe(0);
+    expect(store.getState().getPerkModifier('gun_damage')).toBeCloseTo(1.1);
+  });
+
+  it('should cope with saves made before perks existed', () => {
+    const { perks: _perks, perkPoints: _points, ...legacy } = DEFAULT_PLAYER_STATS;
+    store.setState({ playerStats: legacy as typeof DEFAULT_PLAYER_STATS });
+    expect(store.getState().getPerkModifier('detection')).toBe(1);
+    expect(store.getState().getPerkBlocker('steady_hand')).toBe('No perk points.');
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * questBranches.test.ts - Tests for branching quest stages
+ */
+
+import { create } from 'zustand';
+import { QUESTS_BY_ID } from '../../data/quests';
+import {
+  createActiveQuest,
+  getNextStageIndex,
+  getSatisfiedExit,
+  isCurrentStageComplete,
+  isStageComplete,
+  type Quest,
+  type QuestStage,
+  validateQuestStageGraph,
+} from '../../data/schemas/quest';
+import { evaluateDialogueCondition } from '../../store/slices/dialogueHelpers';
+import {
+  createDialogueSlice,
+  type DialogueSlice,
+  type DialogueSliceDeps,
+} from '../../store/slices/dialogueSlice';
+import {
+  createQuestSlice,
+  type QuestSlice,
+  type QuestSliceDeps,
+} from '../../store/slices/questSlice';
+import { DEFAULT_CLOCK_STATE } from '../time';
+
+const rewards = (reputation: Record<string, number> = {}) => ({ xp: 0, gold: 0, items: [], reputation });
+
+const stage = (id: string, extra: Partial<QuestStage> = {}): QuestStage => ({
+  id,
+  title: id,
+  description: id,
+  objectives: [
+    {
+      id: `${id}_obj`,
+      description: id,
+      type: 'talk',
+      target: 'npc',
+      count: 1,
+      current: 0,
+      optional: false,
+      hidden: false,
+    },
+  ],
+  stageRewards: rewards(),
+  ...extra,
+});
+
+const forkStage = stage('fork', {
+  objectives: ['left', 'right'].map((id) => ({
+    id,
+    description: id,
+    type: 'interact' as const,
+    target: id,
+    count: 1,
+    current: 0,
+    optional: true,
+    hidden: false,
+  })),
+  exits: [
+    {
+      id: 'go_left',
+      objectives: ['left'],
+      nextStageId: 'left_stage',
+      rewards: rewards({ ivrc: 10 }),
+    },
+    { id: 'go_right', objectives: ['right'], nextStageId: null },
+    { id: 'go_secret', objectives: [], flag: 'secret_found', nextStageId: 'finale' },
+  ],
+});
+
+const quest: Quest = {
+  id: 'test_fork',
+  title: 'Fork in the Road',
+  description: 'Test quest',
+  type: 'side',
+  giverNpcId: null,
+  recommendedLevel: 1,
+  stages: [
+    forkStage,
+    stage('left_stage', { nextStageId: 'finale' }),
+    stage('unused_stage'),
+    stage('finale'),
+  ],
+  prerequisites: { completedQuests: [], factionReputation: {}, requiredItems: [] },
+  rewards: { ...rewards(), unlocksQuests: [] },
+  tags: [],
+  repeatable: false,
+  timeLimitHours: null,
+};
+
+describe('quest stage utilities', () => {
+  it('should pick the first exit whose objectives are complete', () => {
+    expect(getSatisfiedExit(forkStage, {})).toBeNull();
+    expect(getSatisfiedExit(forkStage, { right: 1 })?.id).toBe('go_right');
+    expect(getSatisfiedExit(forkStage, { left: 1, right: 1 })?.id).toBe('go_left');
+  });
+
+  it('should complete branching stages only through an exit', () => {
+    expect(isStageComplete(forkStage, {})).toBe(false);
+    expect(isStageComplete(forkStage, { left: 1 })).toBe(true);
+  });
+
+  it('should resolve the next stage from exits, stage links and order', () => {
+    const [, goRight, goSecret] = forkStage.exits ?? [];
+    expect(getNextStageIndex(quest, 0, goSecret)).toBe(3);
+    expect(getNextStageIndex(quest, 0, goRight)).toBeNull();
+    expect(getNextStageIndex(quest, 1)).toBe(3);
+    expect(getNextStageIndex(quest, 2)).toBe(3);
+    expect(getNextStageIndex(quest, 3)).toBeNull();
+  });
+
+  it('should flag dangling stage and objective references', () => {
+    const broken: Quest = {
+      ...quest,
+      stages: [
+        stage('only', {
+          exits: [{ id: 'bad', objectives: ['missing'], nextStageId: 'nowhere' }],
+        }),
+      ],
+    };
+    expect(validateQuestStageGraph(broken)).toEqual([
+      'Exit bad in stage only references unknown stage: nowhere',
+      'Exit bad in stage only references unknown objective: missing',
+    ]);
+  });
+
+  it('should keep authored quests free of dangling branches', () => {
+    for (const def of Object.values(QUESTS_BY_ID)) {
+      expect(validateQuestStageGraph(def)).toEqual([]);
+    }
+  });
+
+  it('should wait for a branch in docsDilemma instead of completing at once', () => {
+    const def = QUESTS_BY_ID.side_docs_dilemma;
+    const active = { ...createActiveQuest(def.id), currentStageIndex: 1 };
+    expect(isCurrentStageComplete(def, active)).toBe(false);
+  });
+});
+
+describe('QuestSlice branching', () => {
+  let store: ReturnType<typeof create<QuestSlice & QuestSliceDeps>>;
+  let reputation: [string, number][];
+
+  beforeEach(() => {
+    reputation = [];
+    const slice = createQuestSlice({
+      getQuestById: (id) => (id === quest.id ? quest : undefined),
+      createActiveQuest,
+      isCurrentStageComplete,
+    });
+    store = create<QuestSlice & QuestSliceDeps>()((...a) => ({
+      ...slice(...a),
+      addNotification: () => {},
+      gainXP: () => {},
+      addGold: () => {},
+      addItemById: () => {},
+      changeReputation: (faction, delta) => {
+        reputation.push([faction, delta]);
+        return [];
+      },
+      clockState: { ...DEFAULT_CLOCK_STATE },
+      onClockEvent: () => () => {},
+    }));
+    store.getState().startQuest(quest.id);
+  });
+
+  it('should jump to the exit target and record the branch', () => {
+    store.getState().updateObjective(quest.id, 'left', 1);
+    const active = store.getState().getActiveQuest(quest.id);
+    expect(active?.currentStageIndex).toBe(1);
+    expect(active?.branches).toEqual({ fork: 'go_left' });
+    expect(reputation).toEqual([['ivrc', 10]]);
+  });
+
+  it('should follow a stage nextStageId after the fork', () => {
+    store.getState().updateObjective(quest.id, 'left', 1);
+    store.getState().updateObjective(quest.id, 'left_stage_obj', 1);
+    expect(store.getState().getActiveQuest(quest.id)?.currentStageIndex).toBe(3);
+  });
+
+  it('should take flag exits when the flag is raised', () => {
+    store.getState().raiseQuestFlag('secret_found');
+    expect(store.getState().getActiveQuest(quest.id)?.currentStageIndex).toBe(3);
+  });
+
+  it('should not advance a fork without a branch', () => {
+    store.getState().advanceQuestStage(quest.id);
+    expect(store.getState().getActiveQuest(quest.id)?.currentStageIndex).toBe(0);
+  });
+
+  it('should keep branches after a null exit completes the quest', () => {
+    store.getState().updateObjective(quest.id, 'right', 1);
+    expect(store.getState().completedQuestIds).toEqual([quest.id]);
+    expect(store.getState().completedQuestBranches[quest.id]).toEqual({ fork: 'go_right' });
+  });
+});
+
+describe('quest_branch dialogue condition', () => {
+  const state = {
+    inventory: [],
+    completedQuestIds: ['done_quest'],
+    completedQuestBranches: { done_quest: { fork: 'go_right' } },
+    activeQuests: [{ questId: 'test_fork', branches: { fork: 'go_left' } }],
+    playerStats: { skills: {}, attributes: {} },
+    factionReputation: {},
+    dialogueState: null,
+  };
+
+  it('should match branches on active and completed quests', () => {
+    const check = (target: string, stringValue: string) =>
+      evaluateDialogueCondition({ type: 'quest_branch', target, stringValue }, state);
+    expect(check('test_fork', 'go_left')).toBe(true);
+    expect(check('test_fork', 'go_right')).toBe(false);
+    expect(check('done_quest', 'go_right')).toBe(true);
+  });
+});
+
+describe('dialogue onEnterEffects', () => {
+  const tree = {
+    id: 'test_tree',
+    nodes: [
+      { id: 'start', text: 'Howdy.', nextNodeId: 'hint' },
+      {
+        id: 'hint',
+        text: 'Word is the bank gets robbed tonight.',
+        nextNodeId: 'start',
+        onEnterEffects: [
+          { type: 'change_reputation', target: 'townsfolk', value: 15 },
+          { type: 'set_flag', target: 'heard_hint' },
+        ],
+      },
+    ],
+  };
+  let store: ReturnType<typeof create<DialogueSlice & DialogueSliceDeps>>;
+  let reputation: [string, number][];
+
+  beforeEach(() => {
+    reputation = [];
+    const slice = createDialogueSlice({
+      getNPCById: () => ({ id: 'sheriff', name: 'Sheriff' }) as any,
+      getDialogueTreeById: () => tree,
+      getPrimaryDialogueTree: () => tree,
+      getDialogueEntryNode: (t) => t.nodes[0],
+      getAvailableChoices: () => [],
+    });
+    store = create<DialogueSlice & DialogueSliceDeps>()((set, get, api) => ({
+      ...slice(set, get, api),
+      dialogueState: null,
+      setDialogue: (dialogueState) => set({ dialogueState }),
+      setPhase: () => {},
+      changeReputation: (faction, delta) => {
+        reputation.push([faction, delta]);
+        return [];
+      },
+      playerStats: { skills: {}, attributes: {} },
+      raiseQuestFlag: () => {},
+    }) as any);
+  });
+
+  it('should fire once per node, however often it is re-entered', () => {
+    store.getState().startDialogue('sheriff');
+    store.getState().advanceDialogue();
+    store.getState().advanceDialogue();
+    store.getState().advanceDialogue();
+    expect(store.getState().dialogueState?.currentNodeId).toBe('hint');
+    store.getState().endDialogue();
+
+    store.getState().startDialogue('sheriff');
+    store.getState().advanceDialogue();
+
+    expect(reputation).toEqual([['townsfolk', 15]]);
+    expect(store.getState().enteredDialogueNodeIds).toEqual(['test_tree:hint']);
+  });
+
+  it('should set flags again on every visit, in later conversations too', () => {
+    store.getState().startDialogue('sheriff');
+    store.getState().advanceDialogue();
+    expect(store.getState().dialogueState?.conversationFlags).toEqual({ heard_hint: true });
+    store.getState().endDialogue();
+
+    store.getState().startDialogue('sheriff');
+    expect(store.getState().dialogueState?.conversationFlags).toEqual({});
+    store.getState().advanceDialogue();
+    expect(store.getState().dialogueState?.conversationFlags).toEqual({ heard_hint: true });
+    expect(reputation).toEqual([['townsfolk', 15]]);
+  });
+});
@@ -0,0 +1,493 @@
+/**
+ * questObjectives.test.ts - Tests for escort, survive, defend and stealth
+ * objectives, and for the escorts and raids that drive them in the world
+ */
+
+import * as THREE from 'three';
+import { create } from 'zustand';
+import type { ActiveQuest, Objective, Quest } from '../../data/schemas/quest';
+import { generateQuest } from '../../data/generation/generators/questGenerator';
+import { convertGeneratedQuest } from '../../data/generation/integration/gameStoreIntegration/questConverters';
+import type { QuestGenerationContext } from '../../data/generation/generators/questGenerator/types';
+import { SeededRandom } from '../../data/generation/seededRandom';
+import { getQuestTemplate } from '../../data/generation/templates/questTemplates';
+import {
+  applyEnemyHit,
+  type CombatEnemy,
+  type CombatTickResult,
+  createEnemyAI,
+  createWeaponState,
+  disposeEnemyAI,
+  processCombatTick,
+} from '../../engine/combat';
+import { createEmptyFrame } from '../../input/InputFrame';
+import type { GameState } from '../../store/types';
+import { recordTownsfolkHit } from '../law';
+import { NPCMovementSystem } from '../NPCMovementSystem';
+import type { LocationMarkerIndex } from '../NPCScheduleResolver';
+import {
+  getActiveEscorts,
+  getDefendedPosition,
+  getRaiderSpawns,
+  RAIDERS_PER_WAVE,
+  reportEscortArrivals,
+  resolveRaid,
+} from '../QuestEncounters';
+import { questEvents } from '../QuestEvents';
+import { checkProximityObjectives, getActiveQuestMarkers } from '../QuestMarkerSystem';
+import { initQuestSystem, type QuestSystemHandle } from '../QuestWiring';
+import { GameClock } from '../time';
+import { TOWN_POSITIONS } from '../ZoneSystem';
+
+const objective = (id: string, extra: Partial<Objective>): Objective => ({
+  id,
+  description: id,
+  type: 'visit',
+  target: 'target',
+  count: 1,
+  current: 0,
+  optional: false,
+  hidden: false,
+  ...extra,
+});
+
+const [townId] = Object.keys(TOWN_POSITIONS);
+const town = TOWN_POSITIONS[townId];
+
+const quest: Quest = {
+  id: 'test_objectives',
+  title: 'Hard Road',
+  description: 'Test quest',
+  type: 'side',
+  giverNpcId: null,
+  recommendedLevel: 1,
+  stages: [
+    {
+      id: 'road',
+      title: 'road',
+      description: 'road',
+      objectives: [
+        objective('escort', { type: 'escort', target: 'widow', destination: townId }),
+        objective('survive', { type: 'survive', target: 'camp', count: 90 }),
+        objective('defend', { type: 'defend', target: 'barn', count: 2 }),
+        objective('sneak', { type: 'stealth', target: townId }),
+      ],
+      stageRewards: { xp: 0, gold: 0, items: [], reputation: {} },
+    },
+  ],
+  prerequisites: { completedQuests: [], factionReputation: {}, requiredItems: [] },
+  rewards: { xp: 0, gold: 0, items: [], reputation: {}, unlocksQuests: [] },
+  tags: [],
+  repeatable: false,
+  timeLimitHours: null,
+};
+
+const activeQuest: ActiveQuest = {
+  questId: quest.id,
+  status: 'active',
+  currentStageIndex: 0,
+  objectiveProgress: {},
+  startedAt: 0,
+  completedAt: null,
+  timeRemainingHours: null,
+  branches: {},
+};
+
+describe('quest wiring for new objective types', () => {
+  let clock: GameClock;
+  let failed: string[];
+  let handle: QuestSystemHandle;
+  let store: ReturnType<typeof create<GameState>>;
+
+  beforeEach(() => {
+    clock = new GameClock();
+    failed = [];
+    store = create<GameState>()(
+      (set) =>
+        ({
+          activeQuests: [{ ...activeQuest }],
+          stealthState: { detectionLevel: 0, isHidden: true, isCrouching: false, nearestHostileDistance: -1 },
+          playerPosition: { x: 0, y: 0, z: 0 },
+          clockState: clock.getState(),
+          npcs: {},
+          structures: {},
+          getQuestDefinition: (id: string) => (id === quest.id ? quest : undefined),
+          updateObjective: (questId: string, objectiveId: string, progress: number) =>
+            set((s) => ({
+              activeQuests: s.activeQuests.map((q) =>
+                q.questId === questId
+                  ? { ...q, objectiveProgress: { ...q.objectiveProgress, [objectiveId]: progress } }
+                  : q
+              ),
+            })),
+          failQuest: (questId: string) => {
+            failed.push(questId);
+          },
+          onClockEvent: (event: Parameters<GameClock['on']>[0], callback: Parameters<GameClock['on']>[1]) =>
+            clock.on(event, callback),
+        }) as unknown as GameState
+    );
+    handle = initQuestSystem(store);
+  });
+
+  afterEach(() => {
+    handle.teardown();
+    clock.dispose();
+  });
+
+  const progress = (id: string) => store.getState().activeQuests[0].objectiveProgress[id] ?? 0;
+
+  it('should complete escorts when the NPC arrives at the destination', () => {
+    questEvents.emit('npcArrived', { npcId: 'widow', locationId: 'elsewhere' });
+    expect(progress('escort')).toBe(0);
+    questEvents.emit('npcArrived', { npcId: 'widow', locationId: townId });
+    expect(progress('escort')).toBe(1);
+  });
+
+  it('should fail escorts when the NPC dies', () => {
+    questEvents.emit('npcDied', { npcId: 'stranger' });
+    expect(failed).toEqual([]);
+    questEvents.emit('npcDied', { npcId: 'widow' });
+    expect(failed).toEqual([quest.id]);
+  });
+
+  it('should count survived game minutes from the clock', () => {
+    clock.advanceTime(30);
+    expect(progress('survive')).toBe(30);
+    clock.advanceHours(2);
+    expect(progress('survive')).toBe(90);
+  });
+
+  it('should not count the clock jump when a save is loaded', () => {
+    clock.advanceTime(10);
+    const loaded = { ...clock.getState(), day: 3, totalMinutes: clock.getState().totalMinutes + 2880 };
+    store.setState({ clockState: loaded });
+    clock.loadState(loaded);
+    clock.advanceTime(15);
+    expect(progress('survive')).toBe(25);
+  });
+
+  it('should count defended waves and fail when overrun', () => {
+    questEvents.emit('waveDefeated', { positionId: 'barn' });
+    expect(progress('defend')).toBe(1);
+    questEvents.emit('positionOverrun', { positionId: 'barn' });
+    expect(failed).toEqual([quest.id]);
+  });
+
+  it('should fail stealth objectives at full detection', () => {
+    store.setState({ stealthState: { ...store.getState().stealthState, detectionLevel: 99 } });
+    expect(failed).toEqual([]);
+    store.setState({ stealthState: { ...store.getState().stealthState, detectionLevel: 100 } });
+    expect(failed).toEqual([quest.id]);
+  });
+
+  it('should not fail objectives that are already done', () => {
+    questEvents.emit('locationVisited', { locationId: townId });
+    expect(progress('sneak')).toBe(1);
+    store.setState({ stealthState: { ...store.getState().stealthState, detectionLevel: 100 } });
+    expect(failed).toEqual([]);
+  });
+});
+
+describe('quest markers for new objective types', () => {
+  const state = (extra: Partial<GameState>) =>
+    ({
+      activeQuests: [{ ...activeQuest }],
+      playerPosition: { x: town.x + 100, y: 0, z: town.z },
+      npcs: { widow: { position: { x: town.x + 50, y: 0, z: town.z } } },
+      structures: {},
+      getQuestDefinition: () => quest,
+      ...extra,
+    }) as unknown as GameState;
+
+  it('should point escorts at their destination', () => {
+    const marker = getActiveQuestMarkers(state({})).find((m) => m.objectiveId === 'escort');
+    expect(marker?.targetId).toBe(townId);
+    expect(marker?.worldPosition).toEqual({ x: town.x, y: 0, z: town.z });
+  });
+
+  it('should complete escorts by the NPC position, not the player', () => {
+    const npcs = { widow: { position: { x: town.x + 5, y: 0, z: town.z } } };
+    const completions = checkProximityObjectives(state({ npcs } as Partial<GameState>));
+    expect(completions.map((c) => c.objectiveId)).toEqual(['escort']);
+  });
+
+  it('should complete stealth objectives by player proximity', () => {
+    const completions = checkProximityObjectives(state({ playerPosition: { x: town.x, y: 0, z: town.z } }));
+    expect(completions.map((c) => c.objectiveId)).toEqual(['sneak']);
+  });
+});
+
+describe('generated escort objectives', () => {
+  const context: QuestGenerationContext = {
+    worldSeed: 1,
+    playerLevel: 3,
+    gameHour: 12,
+    factionTensions: {},
+    activeEvents: [],
+    contextTags: [],
+    availableNPCs: [
+      { id: 'npc_a', name: 'Ada', role: 'traveler', tags: ['traveler'] },
+      { id: 'npc_b', name: 'Bo', role: 'traveler', tags: ['traveler'] },
+    ],
+    availableItems: [],
+    availableLocations: [{ id: 'loc_fort', name: 'Fort Ash', type: 'town', tags: ['town'] }],
+    availableEnemies: [],
+  };
+
+  it('should escort the NPC met in the previous stage to the destination', () => {
+    const template = getQuestTemplate('escort_traveler');
+    if (!template) throw new Error('escort_traveler template missing');
+    const generated = generateQuest(new SeededRandom(7), template, context);
+    const [meet] = generated.stages[0].objectives;
+    const [escort] = generated.stages[1].objectives;
+    expect(escort.type).toBe('escort');
+    expect(escort.targetId).toBe(meet.targetId);
+    expect(escort.destinationId).toBe(generated.locationIds[0]);
+  });
+});
+
+describe('generated objectives driven from the world', () => {
+  const context: QuestGenerationContext = {
+    worldSeed: 1,
+    playerLevel: 4,
+    gameHour: 12,
+    factionTensions: {},
+    activeEvents: [],
+    contextTags: [],
+    availableNPCs: [
+      { id: 'npc_a', name: 'Ada', role: 'traveler', tags: ['traveler'] },
+      { id: 'npc_b', name: 'Bo', role: 'traveler', tags: ['traveler'] },
+    ],
+    availableItems: [],
+    availableLocations: [{ id: townId, name: 'Town', type: 'town', tags: ['town'] }],
+    availableEnemies: [],
+  };
+  const ranches = ['ranch_dry_creek', 'ranch_lone_pine', 'ranch_red_rock'];
+  const ranchContext: QuestGenerationContext = {
+    ...context,
+    availableLocations: [
+      ...context.availableLocations,
+      ...ranches.map((id) => ({ id, name: id, type: 'ranch', tags: ['ranch'] })),
+    ],
+  };
+
+  let clock: GameClock;
+  let failed: string[];
+  let handle: QuestSystemHandle;
+  let store: ReturnType<typeof create<GameState>>;
+
+  /** Start the player on `templateId`, at the stage the world takes over */
+  function startQuest(templateId: string, stageIndex: number, from = context): Quest {
+    const template = getQuestTemplate(templateId);
+    if (!template) throw new Error(`${templateId} template missing`);
+    const generated = convertGeneratedQuest(generateQuest(new SeededRandom(7), template, from));
+    store.setState({
+      activeQuests: [{ ...activeQuest, questId: generated.id, currentStageIndex: stageIndex }],
+      getQuestDefinition: (id: string) => (id === generated.id ? generated : undefined),
+    });
+    return generated;
+  }
+
+  beforeEach(() => {
+    clock = new GameClock();
+    failed = [];
+    store = create<GameState>()(
+      (set) =>
+        ({
+          activeQuests: [],
+          stealthState: { detectionLevel: 0, isHidden: true, isCrouching: false, nearestHostileDistance: -1 },
+          playerPosition: { x: 0, y: 0, z: 0 },
+          clockState: clock.getState(),
+          npcs: {},
+          structures: {},
+          getQuestDefinition: () => undefined,
+          updateObjective: (questId: string, objectiveId: string, progress: number) =>
+            set((s) => ({
+              activeQuests: s.activeQuests.map((q) =>
+                q.questId === questId
+                  ? { ...q, objectiveProgress: { ...q.objectiveProgress, [objectiveId]: progress } }
+                  : q
+              ),
+            })),
+          failQuest: (questId: string) => {
+            failed.push(questId);
+          },
+          onClockEvent: (event: Parameters<GameClock['on']>[0], callback: Parameters<GameClock['on']>[1]) =>
+            clock.on(event, callback),
+        }) as unknown as GameState
+    );
+    handle = initQuestSystem(store);
+  });
+
+  afterEach(() => {
+    handle.teardown();
+    clock.dispose();
+  });
+
+  const progress = (objectiveId: string) =>
+    store.getState().activeQuests[0].objectiveProgress[objectiveId] ?? 0;
+
+  describe('escorts', () => {
+    const NO_MARKERS: LocationMarkerIndex = {
+      byAssignment: new Map(),
+      byRole: new Map(),
+      byTag: new Map(),
+      roadPositions: new Map(),
+      townCenter: { x: 0, y: 0, z: 0 },
+      outskirts: [],
+    };
+
+    it('should complete once the following NPC walks into the destination', () => {
+      const generated = startQuest('escort_traveler', 1);
+      const [escort] = getActiveEscorts(store.getState());
+      expect(escort.npcId).toBe(generated.stages[0].objectives[0].target);
+      expect(escort.destination).toBe(townId);
+      // Where the NPC was met says nothing about where they are now
+      const npcs = { [escort.npcId]: { position: { x: town.x, y: 0, z: town.z } } };
+      store.setState({ npcs } as unknown as Partial<GameState>);
+
+      const movement = new NPCMovementSystem(NO_MARKERS);
+      const follower = movement.registerFollower(escort.npcId, { x: town.x + 200, y: 0, z: town.z });
+      const live = () => new Map([[escort.npcId, follower.currentPosition]]);
+
+      reportEscortArrivals(store.getState(), live());
+      expect(progress(escort.objectiveId)).toBe(0);
+
+      movement.update({ gameHour: 12, playerPosition: { x: town.x, y: 0, z: town.z }, deltaTime: 0.1 });
+      reportEscortArrivals(store.getState(), live());
+      expect(progress(escort.objectiveId)).toBe(1);
+      expect(failed).not.toContain(generated.id);
+    });
+
+    it('should fail when the player guns the NPC down', () => {
+      const generated = startQuest('escort_traveler', 1);
+      const [escort] = getActiveEscorts(store.getState());
+      const camera = new THREE.PerspectiveCamera();
+      const scene = new THREE.Scene();
+      const npc = new THREE.Group();
+      npc.userData = { npcId: escort.npcId };
+      npc.position.set(0, 0, -5);
+      npc.add(new THREE.Mesh(new THREE.BoxGeometry(2, 2, 2)));
+      scene.add(npc);
+      scene.updateMatrixWorld();
+
+      const weaponState = createWeaponState('revolver');
+      const damageTaken = new Map<string, number>();
+      let killed = false;
+      for (let i = 0; i < 100 && !killed; i++) {
+        const frame = { ...createEmptyFrame(), fire: true, reload: weaponState.ammoInMagazine === 0 };
+        const tick = processCombatTick(0.5, frame, camera, scene, [], weaponState);
+        for (const hit of tick.npcHits) killed = recordTownsfolkHit(damageTaken, hit) || killed;
+      }
+
+      expect(killed).toBe(true);
+      expect(failed).toEqual([generated.id]);
+    });
+  });
+
+  describe('defended positions', () => {
+    const weaponState = createWeaponState('revolver');
+    let positionId: string;
+    let raiders: CombatEnemy[];
+
+    /** Put the player on the homestead they have ridden out to hold */
+    function holdHomestead(): Quest {
+      const generated = startQuest('hold_homestead', 1, ranchContext);
+      positionId = generated.stages[0].objectives[0].target;
+      return generated;
+    }
+
+    function rideIn(): CombatEnemy[] {
+      const defended = getDefendedPosition(store.getState(), positionId);
+      if (!defended) throw new Error('nothing to defend');
+      raiders = getRaiderSpawns(defended).map((spawn) => {
+        const root = new THREE.Group();
+        const body = new THREE.Mesh(new THREE.BoxGeometry(0.5, 1, 0.5));
+        body.name = 'body';
+        root.add(body);
+        const [x, y, z] = spawn.position;
+        return {
+          entityId: spawn.id,
+          enemyId: spawn.configId,
+          level: spawn.level,
+          meshGroup: root,
+          ai: createEnemyAI(spawn.configId, spawn.level, { x, y, z }, 30, 30, spawn.id),
+        };
+      });
+      return raiders;
+    }
+
+    function result(): CombatTickResult {
+      return {
+        damageNumbers: [],
+        hitMarker: null,
+        muzzleFlash: null,
+        deathEffects: [],
+        impactSparks: [],
+        playerDamageEvents: [],
+        killedEnemies: [],
+        killedEnemyData: [],
+        npcHits: [],
+        playerFired: false,
+        weaponWear: 0,
+        weaponJammed: false,
+        weaponState,
+        crosshairSpread: 0,
+        aimAssist: { yaw: 0, pitch: 0 },
+      };
+    }
+
+    function shootDown(raider: CombatEnemy): void {
+      const body = raider.meshGroup.getObjectByName('body') as THREE.Object3D;
+      while (raider.ai.health > 0) {
+        applyEnemyHit(raider, body, raider.ai.position, 5, 'revolver', weaponState, 'normal', result());
+      }
+    }
+
+    beforeEach(() => {
+      raiders = [];
+    });
+
+    afterEach(() => {
+      for (const raider of raiders) disposeEnemyAI(raider.ai);
+    });
+
+    it('should count a wave once every raider in it is down', () => {
+      const generated = holdHomestead();
+      const defend = generated.stages[1].objectives.find((o) => o.type === 'defend');
+      expect(ranches).toContain(positionId);
+      expect(defend?.target).toBe(positionId);
+
+      const wave = rideIn();
+      expect(wave).toHaveLength(RAIDERS_PER_WAVE);
+      shootDown(wave[0]);
+      shootDown(wave[1]);
+      expect(resolveRaid(positionId, wave, true)).toBeNull();
+      expect(progress(defend?.id ?? '')).toBe(0);
+
+      shootDown(wave[2]);
+      expect(resolveRaid(positionId, wave, true)).toBe('defeated');
+      expect(progress(defend?.id ?? '')).toBe(1);
+      // The next wave is a fresh set of riders
+      expect(getDefendedPosition(store.getState(), positionId)?.wave).toBe(1);
+      expect(rideIn()[0].entityId).not.toBe(wave[0].entityId);
+      for (const raider of wave) disposeEnemyAI(raider.ai);
+    });
+
+    it('should fail when the player gives up the position with raiders standing', () => {
+      const generated = holdHomestead();
+      const wave = rideIn();
+      shootDown(wave[0]);
+      expect(resolveRaid(positionId, wave, false)).toBe('overrun');
+      expect(failed).toEqual([generated.id]);
+    });
+
+    it('should count the night survived there from the clock', () => {
+      const generated = holdHomestead();
+      const survive = generated.stages[1].objectives.find((o) => o.type === 'survive');
+      clock.advanceTime(45);
+      expect(progress(survive?.id ?? '')).toBe(45);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * questTimers.test.ts - Tests for quest time limits against the game clock
+ */
+
+import { create } from 'zustand';
+import { QUESTS_BY_ID } from '../../data/quests';
+import {
+  createActiveQuest,
+  getNextStageIndex,
+  isCurrentStageComplete,
+  type Quest,
+  type QuestStage,
+  validateQuestStageGraph,
+} from '../../data/schemas/quest';
+import {
+  formatHoursRemaining,
+  getClockMinutes,
+  tickQuestTimer,
+} from '../../store/slices/questHelpers';
+import {
+  createQuestSlice,
+  type QuestSlice,
+  type QuestSliceDeps,
+} from '../../store/slices/questSlice';
+import { DEFAULT_CLOCK_STATE, GameClock } from '../time';
+
+const stage = (id: string): QuestStage => ({
+  id,
+  title: id,
+  description: id,
+  onStartText: id === 'too_late' ? 'The trail has gone cold.' : undefined,
+  objectives: [
+    {
+      id: `${id}_obj`,
+      description: id,
+      type: 'talk',
+      target: 'npc',
+      count: 1,
+      current: 0,
+      optional: false,
+      hidden: false,
+    },
+  ],
+  stageRewards: { xp: 0, gold: 0, items: [], reputation: {} },
+});
+
+const quest: Quest = {
+  id: 'test_timed',
+  title: 'Against the Clock',
+  description: 'Test quest',
+  type: 'side',
+  giverNpcId: null,
+  recommendedLevel: 1,
+  stages: [stage('ride'), stage('arrive'), stage('too_late')],
+  prerequisites: { completedQuests: [], factionReputation: {}, requiredItems: [] },
+  rewards: { xp: 50, gold: 0, items: [], reputation: {}, unlocksQuests: [] },
+  tags: [],
+  repeatable: false,
+  timeLimitHours: 10,
+  failStageId: 'too_late',
+};
+
+describe('quest timer helpers', () => {
+  it('should convert clock events to total minutes', () => {
+    expect(getClockMinutes({ day: 1, hour: 10, minute: 0 })).toBe(DEFAULT_CLOCK_STATE.totalMinutes);
+    expect(getClockMinutes({ day: 3, hour: 1, minute: 30 })).toBe(2 * 1440 + 90);
+  });
+
+  it('should warn once per threshold crossed', () => {
+    expect(tickQuestTimer(10, 1, 10)).toEqual({ remaining: 9, warning: null, expired: false });
+    expect(tickQuestTimer(6, 1, 10)).toEqual({ remaining: 5, warning: 0.5, expired: false });
+    expect(tickQuestTimer(5, 1, 10).warning).toBeNull();
+  });
+
+  it('should report only the most urgent warning on a long skip', () => {
+    expect(tickQuestTimer(9, 8, 10)).toEqual({ remaining: 1, warning: 0.1, expired: false });
+  });
+
+  it('should expire at zero', () => {
+    expect(tickQuestTimer(2, 5, 10)).toEqual({ remaining: 0, warning: null, expired: true });
+  });
+
+  it('should format the time left', () => {
+    expect(formatHoursRemaining(52.5)).toBe('2 days 4 hours');
+    expect(formatHoursRemaining(24)).toBe('1 day');
+    expect(formatHoursRemaining(1)).toBe('1 hour');
+    expect(formatHoursRemaining(0.5)).toBe('less than an hour');
+  });
+});
+
+describe('fail stages', () => {
+  it('should keep the fail stage out of normal progression', () => {
+    expect(getNextStageIndex(quest, 0)).toBe(1);
+    expect(getNextStageIndex(quest, 1)).toBeNull();
+  });
+
+  it('should flag a missing fail stage', () => {
+    expect(validateQuestStageGraph({ ...quest, failStageId: 'nowhere' })).toEqual([
+      'Quest test_timed references unknown fail stage: nowhere',
+    ]);
+  });
+
+  it('should give docsDilemma a deadline with a fail stage', () => {
+    const def = QUESTS_BY_ID.side_docs_dilemma;
+    expect(def.timeLimitHours).toBe(72);
+    expect(def.stages.some((s) => s.id === def.failStageId)).toBe(true);
+  });
+});
+
+describe('QuestSlice timers', () => {
+  let store: ReturnType<typeof create<QuestSlice & QuestSliceDeps>>;
+  let clock: GameClock;
+  let notifications: string[];
+  let xp: number;
+
+  beforeEach(() => {
+    notifications = [];
+    xp = 0;
+    clock = new GameClock();
+    const slice = createQuestSlice({
+      getQuestById: (id) => (id === quest.id ? quest : undefined),
+      createActiveQuest,
+      isCurrentStageComplete,
+    });
+    store = create<QuestSlice & QuestSliceDeps>()((...a) => ({
+      ...slice(...a),
+      addNotification: (_type, message) => {
+        notifications.push(message);
+      },
+      gainXP: (amount) => {
+        xp += amount;
+      },
+      addGold: () => {},
+      addItemById: () => {},
+      changeReputation: () => [],
+      clockState: clock.getState(),
+      onClockEvent: (event, callback) => clock.on(event, callback),
+    }));
+    store.getState().watchQuestTimers();
+    store.getState().startQuest(quest.id);
+  });
+
+  afterEach(() => {
+    clock.dispose();
+  });
+
+  const remaining = () => store.getState().getActiveQuest(quest.id)?.timeRemainingHours;
+
+  it('should start the timer at the time limit', () => {
+    expect(remaining()).toBe(10);
+  });
+
+  it('should count down as the clock advances', () => {
+    clock.advanceHours(3);
+    expect(remaining()).toBe(7);
+  });
+
+  it('should count whole-day skips that land on the same hour', () => {
+    clock.advanceHours(24);
+    expect(store.getState().getActiveQuest(quest.id)?.status).toBe('failed');
+  });
+
+  it('should warn as thresholds are crossed', () => {
+    clock.advanceHours(5);
+    expect(notifications).toContain('Against the Clock: 5 hours left');
+  });
+
+  it('should move to the fail stage when time runs out', () => {
+    clock.advanceHours(10);
+    const active = store.getState().getActiveQuest(quest.id);
+    expect(active?.status).toBe('failed');
+    expect(active?.currentStageIndex).toBe(2);
+    expect(notifications).toContain('Out of time: Against the Clock');
+    expect(notifications).toContain('The trail has gone cold.');
+  });
+
+  it('should finish a failed quest without rewards', () => {
+    clock.advanceHours(10);
+    store.getState().updateObjective(quest.id, 'too_late_obj', 1);
+    expect(store.getState().activeQuests).toEqual([]);
+    expect(store.getState().failedQuestIds).toEqual([quest.id]);
+    expect(store.getState().completedQuestIds).toEqual([]);
+    expect(xp).toBe(0);
+  });
+
+  it('should not restart a failed quest', () => {
+    store.getState().failQuest(quest.id);
+    store.getState().startQuest(quest.id);
+    expect(store.getState().getActiveQuest(quest.id)).toBeUndefined();
+  });
+
+  it('should count from the new time after the clock is rewound', () => {
+    clock.advanceHours(2);
+    store.getState().updateQuestTimers(0);
+    expect(remaining()).toBe(8);
+    store.getState().updateQuestTimers(60);
+    expect(remaining()).toBe(7);
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * railroad.test.ts - Tests for trains: timetables off the world's railroad
+ * connections, IVRC fares, hold-ups on the line, and buying tickets, waiting
+ * and boarding through the store
+ */
+
+import { create } from 'zustand';
+import { getEncounterById } from '../../data/enemies';
+import { getConnectionsFrom } from '../../data/schemas/world';
+import { FrontierTerritory } from '../../data/worlds/frontier_territory';
+import { type TravelSlice, type TravelSliceDeps, createTravelSlice } from '../../store/slices/travelSlice';
+import {
+  createRailroadSlice,
+  type RailroadSlice,
+  type RailroadSliceDeps,
+} from '../../store/slices/railroadSlice';
+import type { Journey, PlayerStats } from '../../store/types';
+import {
+  BOARDING_WINDOW_MINUTES,
+  formatDepartureTime,
+  getFare,
+  getOverlandRoute,
+  getTicketStatus,
+  getTimetable,
+  isStation,
+  pickTrainEncounter,
+  RAIL_LINES,
+  RAIL_WALK_FACTOR,
+  sellsTickets,
+  TIMETABLE_LENGTH,
+  TRAIN_ENCOUNTERS,
+} from '../railroad';
+import { DEFAULT_CLOCK_STATE, type GameClockState } from '../time';
+
+const connectionsFrom = (locationId: string) => getConnectionsFrom(FrontierTerritory, locationId);
+
+const clockAt = (minutes: number): GameClockState => ({
+  ...DEFAULT_CLOCK_STATE,
+  day: Math.floor(minutes / 1440) + 1,
+  hour: Math.floor((minutes % 1440) / 60),
+  minute: minutes % 60,
+  totalMinutes: minutes,
+});
+
+describe('timetables', () => {
+  it('should only treat locations on a rail line as stations', () => {
+    expect(isStation(connectionsFrom('dusty_springs'), 'dusty_springs')).toBe(true);
+    expect(isStation(connectionsFrom('coppertown'), 'coppertown')).toBe(true);
+    expect(isStation(connectionsFrom('sunset_ranch'), 'sunset_ranch')).toBe(false);
+  });
+
+  it('should list the next trains in either direction, soonest first', () => {
+    const timetable = getTimetable(connectionsFrom('dusty_springs'), 'dusty_springs', 9 * 60);
+
+    expect(timetable).toHaveLength(TIMETABLE_LENGTH);
+    expect(timetable.every((d) => d.toId === 'thornwood_station' && d.lineId === 'main_line')).toBe(
+      true
+    );
+    expect(timetable.map((d) => formatDepartureTime(d.departsAt))).toEqual([
+      '10:00',
+      '14:00',
+      '18:00',
+      '06:00',
+      '10:00',
+      '14:00',
+    ]);
+    expect(timetable[3].departsAt).toBe(1440 + 6 * 60);
+  });
+
+  it('should keep a train on the board while it waits at the platform', () => {
+    const board = (now: number) => getTimetable(connectionsFrom('junction_city'), 'junction_city', now);
+    expect(board(8 * 60 + BOARDING_WINDOW_MINUTES)[0]).toMatchObject({
+      toId: 'coppertown',
+      departsAt: 8 * 60,
+    });
+    expect(board(8 * 60 + BOARDING_WINDOW_MINUTES + 1)[0].departsAt).toBe(16 * 60);
+  });
+
+  it('should move a ticket from waiting to boarding to missed', () => {
+    const [departure] = getTimetable(connectionsFrom('dusty_springs'), 'dusty_springs', 9 * 60);
+    expect(getTicketStatus(departure, departure.departsAt - 1)).toBe('waiting');
+    expect(getTicketStatus(departure, departure.departsAt)).toBe('boarding');
+    expect(getTicketStatus(departure, departure.departsAt + BOARDING_WINDOW_MINUTES)).toBe(
+      'boarding'
+    );
+    expect(getTicketStatus(departure, departure.departsAt + BOARDING_WINDOW_MINUTES + 1)).toBe(
+      'missed'
+    );
+  });
+});
+
+describe('fares and hold-ups', () => {
+  const [departure] = getTimetable(connectionsFrom('dusty_springs'), 'dusty_springs', 0);
+  const neutral = RAIL_LINES.main_line.baseFare + RAIL_LINES.main_line.farePerHour * departure.rideHours;
+
+  it('should price a seat by IVRC standing', () => {
+    expect(getFare(departure, 0)).toBe(neutral);
+    expect(getFare(departure, 100)).toBe(Math.round(neutral * 0.5));
+    expect(getFare(departure, -100)).toBe(Math.round(neutral * 1.5));
+    expect(getFare(departure, 40)).toBeLessThan(neutral);
+  });
+
+  it('should refuse tickets to enemies of the company', () => {
+    expect(sellsTickets(0)).toBe(true);
+    expect(sellsTickets(-30)).toBe(true);
+    expect(sellsTickets(-80)).toBe(false);
+  });
+
+  it('should hold up a train only on a bad roll', () => {
+    const chance = RAIL_LINES.mountain_line.robberyChance;
+    expect(pickTrainEncounter('mountain_line', chance, 0)).toBeNull();
+    expect(pickTrainEncounter('mountain_line', 0, 0)).toBe('train_robbery');
+    expect(pickTrainEncounter('mountain_line', 0, 0.99)).toBe('copperhead_train_heist');
+    expect(pickTrainEncounter('no_such_line', 0, 0)).toBeNull();
+  });
+
+  it('should only pick encounters that exist', () => {
+    for (const { encounterId } of TRAIN_ENCOUNTERS) {
+      expect(getEncounterById(encounterId)).toBeDefined();
+    }
+  });
+
+  it('should send the player along the tracks on foot without a ticket', () => {
+    expect(getOverlandRoute('railroad', 2)).toEqual({
+      method: 'road',
+      travelTime: 2 * RAIL_WALK_FACTOR,
+    });
+    expect(getOverlandRoute('trail', 5)).toEqual({ method: 'trail', travelTime: 5 });
+  });
+});
+
+describe('RailroadSlice', () => {
+  type Store = RailroadSlice & RailroadSliceDeps;
+  let store: ReturnType<typeof create<Store>>;
+  let reputation: number;
+  let panels: string[];
+  let journeys: Journey[];
+  let rested: number;
+
+  beforeEach(() => {
+    reputation = 0;
+    panels = [];
+    journeys = [];
+    rested = 0;
+    const passTime = (hours: number) => {
+      const minutes = Math.round(
+        (store.getState().clockState.day - 1) * 1440 +
+          store.getState().clockState.hour * 60 +
+          store.getState().clockState.minute +
+          hours * 60
+      );
+      store.setState({ clockState: clockAt(minutes) });
+    };
+
+    store = create<Store>()((set, get, api) => ({
+      ...createRailroadSlice({ getConnectionsFrom })(set, get, api),
+      currentLocationId: 'dusty_springs',
+      visitedLocationIds: ['dusty_springs', 'thornwood_station'],
+      loadedWorld: { world: FrontierTerritory },
+      clockState: clockAt(9 * 60),
+      playerStats: { gold: 100 } as PlayerStats,
+      getReputation: () => reputation,
+      updatePlayerStats: (stats) => set({ playerStats: { ...get().playerStats, ...stats } }),
+      advanceTime: passTime,
+      restAtInn: (hours) => {
+        rested += hours;
+        passTime(hours);
+      },
+      startJourney: (journey) => {
+        journeys.push(journey);
+      },
+      openPanel: (panel) => {
+        panels.push(panel);
+      },
+      closePanel: () => {
+        panels.push('closed');
+      },
+      addNotification: () => {},
+    }));
+    store.getState().openDepot();
+  });
+
+  const gold = () => store.getState().playerStats.gold;
+  const nextTrain = () => store.getState().getTrainTimetable()[0];
+  const buyNext = () => {
+    store.getState().buyTicket(nextTrain());
+    return store.getState().railTickets[0];
+  };
+
+  it('should open a depot only where trains stop', () => {
+    expect(panels).toEqual(['depot']);
+    expect(store.getState().depotStationId).toBe('dusty_springs');
+
+    store.setState({ currentLocationId: 'sunset_ranch', depotStationId: null });
+    store.getState().openDepot();
+    expect(panels).toEqual(['depot']);
+    expect(store.getState().depotStationId).toBeNull();
+  });
+
+  it('should sell a ticket to a visited station at the IVRC price', () => {
+    reputation = 60;
+    const departure = nextTrain();
+    const price = getFare(departure, 60);
+
+    expect(store.getState().buyTicket(departure)).toBe(true);
+    expect(gold()).toBe(100 - price);
+    expect(store.getState().railTickets).toEqual([
+      expect.objectContaining({ toId: 'thornwood_station', departsAt: departure.departsAt, price }),
+    ]);
+    expect(store.getState().buyTicket(departure)).toBe(false);
+    expect(gold()).toBe(100 - price);
+  });
+
+  it('should refuse tickets to unvisited stations, enemies and the broke', () => {
+    store.setState({ visitedLocationIds: ['dusty_springs'] });
+    expect(store.getState().buyTicket(nextTrain())).toBe(false);
+
+    store.setState({ visitedLocationIds: ['dusty_springs', 'thornwood_station'] });
+    reputation = -80;
+    expect(store.getState().buyTicket(nextTrain())).toBe(false);
+
+    reputation = 0;
+    store.setState({ playerStats: { gold: 1 } as PlayerStats });
+    expect(store.getState().buyTicket(nextTrain())).toBe(false);
+
+    expect(store.getState().railTickets).toHaveLength(0);
+  });
+
+  it('should not board before the train is in', () => {
+    const ticket = buyNext();
+    expect(store.getState().boardTrain(ticket.id)).toBe(false);
+    expect(journeys).toHaveLength(0);
+    expect(store.getState().railTickets).toHaveLength(1);
+  });
+
+  it('should wait for the train and ride it to the destination', () => {
+    const ticket = buyNext();
+    store.getState().waitForTrain(ticket.id);
+
+    expect(store.getState().clockState.hour).toBe(10);
+    expect(rested).toBe(0);
+    expect(journeys).toEqual([
+      expect.objectContaining({
+        toLocationId: 'thornwood_station',
+        method: 'railroad',
+        travelTime: ticket.rideHours,
+        dangerLevel: ticket.danger,
+      }),
+    ]);
+    expect(panels).toContain('closed');
+    expect(store.getState().railTickets).toHaveLength(0);
+  });
+
+  it('should sleep until the train when asked', () => {
+    const ticket = buyNext();
+    store.getState().waitForTrain(ticket.id, true);
+    expect(rested).toBe(1);
+    expect(journeys).toHaveLength(1);
+  });
+
+  it('should lose a ticket for a train that has gone', () => {
+    const ticket = buyNext();
+    store.setState({ clockState: clockAt(ticket.departsAt + BOARDING_WINDOW_MINUTES + 1) });
+
+    expect(store.getState().boardTrain(ticket.id)).toBe(false);
+    expect(journeys).toHaveLength(0);
+    expect(store.getState().railTickets).toHaveLength(0);
+  });
+
+  it('should only board at the ticket station', () => {
+    const ticket = buyNext();
+    store.setState({ currentLocationId: 'junction_city', clockState: clockAt(ticket.departsAt) });
+
+    expect(store.getState().boardTrain(ticket.id)).toBe(false);
+    store.getState().waitForTrain(ticket.id);
+    expect(journeys).toHaveLength(0);
+    expect(store.getState().railTickets).toHaveLength(1);
+  });
+});
+
+describe('visiting stations', () => {
+  type Store = TravelSlice & TravelSliceDeps;
+  let store: ReturnType<typeof create<Store>>;
+
+  beforeEach(() => {
+    store = create<Store>()((set, get, api) => ({
+      ...createTravelSlice({} as Parameters<typeof createTravelSlice>[0])(set, get, api),
+      currentLocationId: 'dusty_springs',
+      visitedLocationIds: ['dusty_springs'],
+      setPhase: (phase) => set({ phase }),
+      addNotification: () => {},
+      advanceTime: () => {},
+      applyTravelFatigue: () => {},
+      consumeProvisions: () => ({
+        foodConsumed: 0,
+        waterConsumed: 0,
+        ranOutOfFood: false,
+        ranOutOfWater: false,
+      }),
+    } as Store));
+  });
+
+  it('should count a station as visited on arrival, not on discovery', () => {
+    store.getState().discoverLocation('thornwood_station');
+    expect(store.getState().visitedLocationIds).toEqual(['dusty_springs']);
+
+    store.setState({
+      travelState: {
+        fromLocationId: 'dusty_springs',
+        toLocationId: 'thornwood_station',
+        method: 'railroad',
+        travelTime: 2,
+        progress: 100,
+        dangerLevel: 'safe',
+        startedAt: 0,
+        encounterId: null,
+      },
+    });
+    store.getState().completeTravel();
+    expect(store.getState().visitedLocationIds).toEqual(['dusty_springs', 'thornwood_station']);
+    expect(store.getState().currentLocationId).toBe('thornwood_station');
+  });
+});
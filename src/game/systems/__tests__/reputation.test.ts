@@ -0,0 +1,186 @@
+/**
+ * reputation.test.ts - Tests for the faction reputation ledger and store slice
+ */
+
+import { create } from 'zustand';
+import {
+  createReputationSlice,
+  type ReputationSlice,
+  type ReputationSliceDeps,
+} from '../../store/slices/reputationSlice';
+import { evaluateCondition } from '../DialogueQuestBridge';
+import type { BridgeStoreReader } from '../DialogueQuestBridge';
+import {
+  applyReputationChange,
+  DEFAULT_FACTION_REPUTATION,
+  getFactionReputation,
+  getStandingTier,
+  normalizeFactionReputation,
+  resolveDialogueFaction,
+  resolveReputationFaction,
+} from '../reputation';
+
+describe('reputation utilities', () => {
+  describe('getStandingTier', () => {
+    it('should map values onto tiers from hostile to revered', () => {
+      expect(getStandingTier(-100)).toBe('hostile');
+      expect(getStandingTier(-60)).toBe('hostile');
+      expect(getStandingTier(-59)).toBe('unfriendly');
+      expect(getStandingTier(0)).toBe('neutral');
+      expect(getStandingTier(20)).toBe('friendly');
+      expect(getStandingTier(50)).toBe('honored');
+      expect(getStandingTier(100)).toBe('revered');
+    });
+  });
+
+  describe('resolveReputationFaction', () => {
+    it('should accept ledger factions', () => {
+      expect(resolveReputationFaction('ivrc')).toBe('ivrc');
+    });
+
+    it('should resolve aliases', () => {
+      expect(resolveReputationFaction('freeminers')).toBe('freeminer');
+      expect(resolveReputationFaction('neutral')).toBe('townsfolk');
+      expect(resolveReputationFaction('railroad_company')).toBe('ivrc');
+    });
+
+    it('should return null for unknown factions', () => {
+      expect(resolveReputationFaction('martians')).toBeNull();
+      expect(resolveReputationFaction(undefined)).toBeNull();
+    });
+  });
+
+  describe('resolveDialogueFaction', () => {
+    it('should prefer an explicit target', () => {
+      expect(resolveDialogueFaction('copperhead', 'ivrc')).toBe('copperhead');
+    });
+
+    it('should fall back to the speaker faction', () => {
+      expect(resolveDialogueFaction(undefined, 'ivrc')).toBe('ivrc');
+      expect(resolveDialogueFaction('speaker_faction', 'freeminer')).toBe('freeminer');
+    });
+  });
+
+  describe('applyReputationChange', () => {
+    it('should change the target faction', () => {
+      const { ledger } = applyReputationChange(DEFAULT_FACTION_REPUTATION, 'freeminer', 10);
+      expect(ledger.freeminer).toBe(10);
+    });
+
+    it('should not mutate the input ledger', () => {
+      const input = { ...DEFAULT_FACTION_REPUTATION };
+      applyReputationChange(input, 'ivrc', 20);
+      expect(input).toEqual(DEFAULT_FACTION_REPUTATION);
+    });
+
+    it('should ripple onto rival factions', () => {
+      const { ledger, changes } = applyReputationChange(DEFAULT_FACTION_REPUTATION, 'copperhead', 20);
+      expect(ledger.copperhead).toBe(20);
+      expect(ledger.ivrc).toBe(-10);
+      expect(ledger.townsfolk).toBe(-5);
+      expect(changes.filter((c) => c.ripple).map((c) => c.faction)).toEqual(['ivrc', 'townsfolk']);
+    });
+
+    it('should drop ripples that round to zero', () => {
+      const { changes } = applyReputationChange(DEFAULT_FACTION_REPUTATION, 'ivrc', 5);
+      expect(changes.map((c) => c.faction)).toEqual(['ivrc', 'copperhead', 'freeminer']);
+    });
+
+    it('should clamp to the reputation range', () => {
+      const start = { ...DEFAULT_FACTION_REPUTATION, townsfolk: 95 };
+      const { ledger, changes } = applyReputationChange(start, 'townsfolk', 20);
+      expect(ledger.townsfolk).toBe(100);
+      expect(changes[0].delta).toBe(5);
+    });
+
+    it('should report tier transitions', () => {
+      const start = { ...DEFAULT_FACTION_REPUTATION, ivrc: 15 };
+      const { changes } = applyReputationChange(start, 'ivrc', 10);
+      expect(changes[0].previousTier).toBe('neutral');
+      expect(changes[0].currentTier).toBe('friendly');
+    });
+  });
+
+  describe('normalizeFactionReputation', () => {
+    it('should fill missing factions from older saves', () => {
+      expect(normalizeFactionReputation({ ivrc: 30 })).toEqual({
+        ...DEFAULT_FACTION_REPUTATION,
+        ivrc: 30,
+      });
+    });
+  });
+
+  describe('getFactionReputation', () => {
+    it('should read aliased factions from the ledger', () => {
+      const ledger = { ...DEFAULT_FACTION_REPUTATION, freeminer: 40 };
+      expect(getFactionReputation(ledger, 'freeminers')).toBe(40);
+      expect(getFactionReputation(ledger, 'unknown')).toBe(0);
+    });
+  });
+});
+
+describe('ReputationSlice', () => {
+  let store: ReturnType<typeof create<ReputationSlice & ReputationSliceDeps>>;
+  let notifications: string[];
+
+  beforeEach(() => {
+    notifications = [];
+    store = create<ReputationSlice & ReputationSliceDeps>()((...a) => ({
+      ...createReputationSlice(...a),
+      addNotification: (_type, message) => {
+        notifications.push(message);
+      },
+    }));
+  });
+
+  it('should start every faction at neutral', () => {
+    expect(store.getState().factionReputation).toEqual(DEFAULT_FACTION_REPUTATION);
+    expect(store.getState().getStanding('ivrc')).toBe('neutral');
+  });
+
+  it('should apply changes with ripples', () => {
+    store.getState().changeReputation('freeminers', 30);
+    expect(store.getState().getReputation('freeminer')).toBe(30);
+    expect(store.getState().getReputation('ivrc')).toBe(-15);
+    expect(store.getState().getStanding('freeminer')).toBe('friendly');
+  });
+
+  it('should notify on tier changes', () => {
+    store.getState().changeReputation('ivrc', 25);
+    expect(notifications).toContain('IVRC now regard you as Friendly');
+  });
+
+  it('should ignore unknown factions', () => {
+    expect(store.getState().changeReputation('martians', 10)).toEqual([]);
+    expect(notifications).toHaveLength(0);
+  });
+
+  it('should reset the ledger', () => {
+    store.getState().changeReputation('remnant', -40);
+    store.getState().resetReputation();
+    expect(store.getState().factionReputation).toEqual(DEFAULT_FACTION_REPUTATION);
+  });
+});
+
+describe('reputation dialogue conditions', () => {
+  const baseState: BridgeStoreReader = {
+    activeQuests: [],
+    completedQuestIds: [],
+    completedQuestBranches: {},
+    playerStats: { level: 1, gold: 0, skills: {}, attributes: {} },
+    factionReputation: { ...DEFAULT_FACTION_REPUTATION, ivrc: 25, copperhead: -40 },
+    inventory: [],
+    talkedNPCIds: [],
+    dialogueState: { npcId: 'mayor_holt', npcFaction: 'ivrc', conversationFlags: {} },
+  };
+
+  it('should check the targeted faction', () => {
+    expect(evaluateCondition({ type: 'reputation_gte', target: 'ivrc', value: 20 }, baseState)).toBe(true);
+    expect(evaluateCondition({ type: 'reputation_lte', target: 'copperhead', value: -30 }, baseState)).toBe(true);
+  });
+
+  it('should default to the speaker faction', () => {
+    expect(evaluateCondition({ type: 'reputation_gte', value: 20 }, baseState)).toBe(true);
+    expect(evaluateCondition({ type: 'reputation_gte', value: 30 }, baseState)).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * shopEconomy.test.ts - Tests for shop stock, restocking and dynamic prices
+ */
+
+import { create } from 'zustand';
+import { getItem } from '../../data/items';
+import {
+  calculateBuyPrice,
+  calculateSellPrice,
+  createShopMarket,
+  getBarterBuyModifier,
+  getRegionalPriceModifier,
+  getShopById,
+  getSupplyModifier,
+  MIN_SUPPLY_MODIFIER,
+  restockShopMarket,
+} from '../../data/shops';
+import { DEFAULT_PLAYER_STATS } from '../../store/defaults';
+import { createShopSlice, type ShopSlice, type ShopSliceDeps } from '../../store/slices/shopSlice';
+import type { InventoryItem } from '../../store/types';
+import { DEFAULT_CLOCK_STATE, GameClock } from '../time';
+
+const ammo = { id: 'revolver_ammo', tags: ['ammo', 'pistol'] };
+const canteen = { id: 'water_canteen', tags: ['consumable', 'drink', 'survival'] };
+
+describe('shop price modifiers', () => {
+  it('should discount ammo in Junction City', () => {
+    expect(getRegionalPriceModifier({ locationId: 'junction_city' }, ammo)).toBe(0.8);
+    expect(getRegionalPriceModifier({ locationId: 'dusty_springs' }, ammo)).toBe(1);
+  });
+
+  it('should charge more for water in the badlands, by item before tag', () => {
+    expect(getRegionalPriceModifier({ regionId: 'region_devils_backbone' }, canteen)).toBe(1.6);
+    expect(
+      getRegionalPriceModifier({ regionId: 'region_devils_backbone' }, { id: 'beer', tags: ['drink'] })
+    ).toBe(1.3);
+  });
+
+  it('should drift prices down as the player sells, to a floor', () => {
+    expect(getSupplyModifier(0)).toBe(1);
+    expect(getSupplyModifier(4)).toBeCloseTo(0.8);
+    expect(getSupplyModifier(100)).toBe(MIN_SUPPLY_MODIFIER);
+  });
+
+  it('should apply barter to buy and sell prices', () => {
+    const shop = getShopById('general_store');
+    const shopItem = shop?.inventory.find((i) => i.itemId === 'lantern');
+    const lantern = getItem('lantern');
+    if (!shop || !shopItem || !lantern) throw new Error('fixture missing');
+
+    expect(getBarterBuyModifier(100)).toBeCloseTo(0.8);
+    expect(calculateBuyPrice(shop, shopItem, { barter: 100 })).toBeLessThan(
+      calculateBuyPrice(shop, shopItem)
+    );
+    expect(calculateSellPrice(shop, lantern, { barter: 100 })).toBeGreaterThanOrEqual(
+      calculateSellPrice(shop, lantern)
+    );
+  });
+
+  it('should never pay more for an item than the shop charges for it', () => {
+    const shop = getShopById('blacksmith_shop');
+    const scrap = getItem('scrap_metal');
+    const shopItem = shop?.inventory.find((i) => i.itemId === 'scrap_metal');
+    if (!shop || !scrap || !shopItem) throw new Error('fixture missing');
+
+    const context = { barter: 100 };
+    expect(calculateSellPrice(shop, scrap, context)).toBeLessThan(
+      calculateBuyPrice(shop, shopItem, context)
+    );
+  });
+});
+
+describe('shop market state', () => {
+  const inventory = [{ itemId: 'rope', stock: 5 }, { itemId: 'beer' }];
+
+  it('should start at defined stock with infinite items marked -1', () => {
+    expect(createShopMarket(inventory, 1).stock).toEqual({ rope: 5, beer: -1 });
+  });
+
+  it('should wait for the restock interval', () => {
+    const market = { ...createShopMarket(inventory, 1), stock: { rope: 1, beer: -1 } };
+    expect(restockShopMarket(market, inventory, 2, 2)).toBe(market);
+    expect(restockShopMarket(market, inventory, 3, 2).stock.rope).toBe(5);
+  });
+
+  it('should halve selling pressure for each interval passed', () => {
+    const market = { ...createShopMarket(inventory, 1), sold: { rope: 8, beer: 1 } };
+    const restocked = restockShopMarket(market, inventory, 3);
+    expect(restocked.sold).toEqual({ rope: 2 });
+    expect(restocked.lastRestockDay).toBe(3);
+  });
+});
+
+describe('ShopSlice', () => {
+  let store: ReturnType<typeof create<ShopSlice & ShopSliceDeps>>;
+  let clock: GameClock;
+
+  const lantern: InventoryItem = {
+    id: 'inv_lantern',
+    itemId: 'lantern',
+    name: 'Lantern',
+    rarity: 'common',
+    type: 'junk',
+    quantity: 3,
+    weight: 1,
+    usable: false,
+    condition: 100,
+    droppable: true,
+  };
+
+  beforeEach(() => {
+    clock = new GameClock();
+    const slice = createShopSlice({
+      getShopById,
+      getItem,
+      calculateBuyPrice,
+      calculateSellPrice,
+      canSellItemToShop: () => true,
+    });
+    store = create<ShopSlice & ShopSliceDeps>()((...a) => ({
+      ...slice(...a),
+      addNotification: () => {},
+      playerStats: { ...DEFAULT_PLAYER_STATS, gold: 10_000 },
+      inventory: [lantern],
+      addItemById: () => {},
+      removeItem: () => {},
+      gainSkillXP: () => {},
+      updatePlayerStats: (stats) =>
+        a[0]((s) => ({ playerStats: { ...s.playerStats, ...stats } })),
+      getReputation: () => 100,
+      clockState: { ...DEFAULT_CLOCK_STATE },
+      onClockEvent: (event, callback) => clock.on(event, callback),
+    }));
+    store.getState().openShop('general_store');
+  });
+
+  afterEach(() => {
+    clock.dispose();
+  });
+
+  it('should take bought items out of stock until sold out', () => {
+    for (let i = 0; i < 3; i++) store.getState().buyItem('lantern');
+    expect(store.getState().getShopStock('general_store', 'lantern')).toBe(0);
+
+    const gold = store.getState().playerStats.gold;
+    store.getState().buyItem('lantern');
+    expect(store.getState().playerStats.gold).toBe(gold);
+  });
+
+  it('should restock on the next day', () => {
+    store.getState().buyItem('lantern');
+    store.getState().watchShopRestock();
+    clock.advanceHours(24);
+    expect(store.getState().getShopStock('general_store', 'lantern')).toBe(3);
+  });
+
+  it('should lower prices for items the player keeps selling', () => {
+    const before = store.getState().getShopSellPrice('general_store', 'lantern');
+    for (let i = 0; i < 10; i++) store.getState().sellItem('inv_lantern');
+    expect(store.getState().getShopSellPrice('general_store', 'lantern')).toBeLessThan(before);
+    expect(store.getState().shopMarkets.general_store.sold.lantern).toBe(10);
+  });
+
+  it('should price purchases with the barter skill', () => {
+    const base = store.getState().getShopBuyPrice('general_store', 'lantern');
+    store.setState({
+      playerStats: {
+        ...store.getState().playerStats,
+        skills: { ...store.getState().playerStats.skills, barter: 100 },
+      },
+    });
+    expect(store.getState().getShopBuyPrice('general_store', 'lantern')).toBeLessThan(base);
+  });
+});
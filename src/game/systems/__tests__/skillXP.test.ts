@@ -0,0 +1,140 @@
+/**
+ * skillXP.test.ts - Tests for learn-by-doing skill practice
+ */
+
+import { create } from 'zustand';
+import { getItem } from '../../data/items';
+import { DEFAULT_PLAYER_STATS } from '../../store/defaults';
+import {
+  createInventorySlice,
+  type InventorySlice,
+  type InventorySliceDeps,
+} from '../../store/slices/inventorySlice';
+import {
+  createPlayerSlice,
+  type PlayerSlice,
+  type PlayerSliceDeps,
+} from '../../store/slices/playerSlice';
+import type { PlayerSkills, PlayerStats } from '../../store/types';
+import { DEFAULT_PROVISIONS_CONFIG } from '../provisions';
+import { executeForage, executeHunt } from '../provisions/gathering';
+import {
+  applySkillXP,
+  getSkillCap,
+  getSkillXPCost,
+  MAX_SKILL_LEVEL,
+  SKILL_PRACTICE_XP,
+} from '../skills';
+
+describe('skill progression rules', () => {
+  it('should cost more XP at higher levels', () => {
+    expect(getSkillXPCost(50)).toBeGreaterThan(getSkillXPCost(10));
+    expect(getSkillXPCost(0)).toBe(100);
+  });
+
+  it('should cap skills by their governing attribute', () => {
+    const attributes = { ...DEFAULT_PLAYER_STATS.attributes, agility: 3, intelligence: 10 };
+    expect(getSkillCap('lockpick', attributes)).toBe(58);
+    expect(getSkillCap('repair', attributes)).toBe(MAX_SKILL_LEVEL);
+  });
+
+  it('should carry XP across several points and stop at the cap', () => {
+    const cost = getSkillXPCost(20) + getSkillXPCost(21);
+    expect(applySkillXP(20, 0, cost + 5, 100)).toEqual({ level: 22, progress: 5, gained: 2 });
+    expect(applySkillXP(20, 0, 10_000, 21)).toEqual({ level: 21, progress: 0, gained: 1 });
+    expect(applySkillXP(21, 40, 50, 21).gained).toBe(0);
+  });
+});
+
+describe('gathering practice', () => {
+  it('should reward survival practice for foraging and hunting', () => {
+    const config = DEFAULT_PROVISIONS_CONFIG;
+    expect(executeForage(config, 'forest', () => 0).skillXP).toBe(SKILL_PRACTICE_XP.forage);
+    expect(executeForage(config, 'forest', () => 0.99).skillXP).toBe(
+      SKILL_PRACTICE_XP.gatherFailed
+    );
+    expect(executeForage(config, 'town', () => 0).skillXP).toBe(0);
+    expect(executeHunt(config, 0, () => 0).skillXP).toBe(SKILL_PRACTICE_XP.hunt);
+  });
+});
+
+describe('PlayerSlice skill XP', () => {
+  type Store = PlayerSlice & PlayerSliceDeps;
+  let store: ReturnType<typeof create<Store>>;
+  let notifications: string[];
+
+  beforeEach(() => {
+    notifications = [];
+    store = create<Store>()((...a) => ({
+      ...createPlayerSlice(...(a as Parameters<typeof createPlayerSlice>)),
+      addNotification: (_type, message) => {
+        notifications.push(message);
+      },
+      setPhase: () => {},
+    }));
+  });
+
+  const stats = () => store.getState().playerStats;
+
+  it('should bank progress and announce a rise', () => {
+    store.getState().gainSkillXP('medicine', 40);
+    expect(stats().skills.medicine).toBe(15);
+    expect(stats().skillXP.medicine).toBe(40);
+    expect(notifications).toEqual([]);
+
+    store.getState().gainSkillXP('medicine', getSkillXPCost(15));
+    expect(stats().skills.medicine).toBe(16);
+    expect(notifications).toEqual(['Medicine increased to 16']);
+  });
+
+  it('should stop at the attribute cap', () => {
+    store.getState().updatePlayerStats({
+      skills: { ...DEFAULT_PLAYER_STATS.skills, lockpick: 69 },
+    });
+    store.getState().gainSkillXP('lockpick', 10_000);
+    expect(stats().skills.lockpick).toBe(70);
+    expect(notifications.at(-1)).toBe('Lockpick increased to 70 (your agility limits it here)');
+
+    store.getState().gainSkillXP('lockpick', 10_000);
+    expect(stats().skills.lockpick).toBe(70);
+  });
+
+  it('should cope with saves made before skill XP existed', () => {
+    const { skillXP: _skillXP, ...legacy } = DEFAULT_PLAYER_STATS;
+    store.setState({ playerStats: legacy as PlayerStats });
+    store.getState().gainSkillXP('barter', 30);
+    expect(stats().skillXP.barter).toBe(30);
+  });
+});
+
+describe('InventorySlice practice', () => {
+  type Store = InventorySlice & InventorySliceDeps;
+  let store: ReturnType<typeof create<Store>>;
+  let practice: [keyof PlayerSkills, number][];
+
+  beforeEach(() => {
+    practice = [];
+    const inventorySlice = createInventorySlice({ getItem });
+    store = create<Store>()((...a) => ({
+      ...inventorySlice(...(a as Parameters<typeof inventorySlice>)),
+      addNotification: () => {},
+      heal: () => {},
+      takeDamage: () => {},
+      updatePlayerStats: () => {},
+      gainSkillXP: (skill, amount) => {
+        practice.push([skill, amount]);
+      },
+      playerStats: { ...DEFAULT_PLAYER_STATS },
+      playerPosition: { x: 0, y: 0, z: 0 },
+      worldItems: {},
+    }));
+  });
+
+  it('should train medicine when treating wounds only', () => {
+    store.getState().addItemById('bandages', 1);
+    store.getState().addItemById('coffee', 1);
+    const inventory = store.getState().inventory;
+    for (const item of inventory) store.getState().useItem(item.id);
+    expect(practice).toEqual([['medicine', SKILL_PRACTICE_XP.treatWound]]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * squadTactics.test.ts - Tests for enemy squads: roles, cover, shared
+ * intel and leader orders
+ */
+
+import {
+  createEnemyAI,
+  disposeEnemyAI,
+  type EnemyAIState,
+  findCoverPoints,
+  getEnemyAccuracyAtDistance,
+  getSquadRole,
+  isCoveredFrom,
+  REGROUP_DURATION,
+  SquadCoordinator,
+  updateEnemyAI,
+} from '../../engine/combat';
+
+const at = (x: number, z: number) => ({ x, y: 0, z });
+
+describe('cover points', () => {
+  const crate = { center: { x: 0, y: 0.5, z: 0 }, halfExtents: { x: 1, y: 0.5, z: 1 } };
+  const barn = { center: { x: 20, y: 3, z: 0 }, halfExtents: { x: 4, y: 3, z: 4 } };
+  const pebble = { center: { x: -20, y: 0.2, z: 0 }, halfExtents: { x: 1, y: 0.2, z: 1 } };
+
+  it('should offer the sides of low cover and the corners of tall cover', () => {
+    const points = findCoverPoints([crate, barn, pebble]);
+    expect(points).toHaveLength(8);
+    expect(points.filter((p) => p.height === 1).map((p) => p.position)).toContainEqual(
+      at(1.8, 0)
+    );
+    expect(points.filter((p) => p.height === 6).map((p) => p.position)).toContainEqual(
+      at(24.8, 4.8)
+    );
+  });
+
+  it('should only cover from threats on the far side', () => {
+    const [east] = findCoverPoints([crate]);
+    expect(east.normal).toEqual({ x: 1, z: 0 });
+    expect(isCoveredFrom(east, at(-10, 0))).toBe(true);
+    expect(isCoveredFrom(east, at(10, 0))).toBe(false);
+  });
+
+  it('should steady the aim of an enemy shooting from cover', () => {
+    const open = getEnemyAccuracyAtDistance('bandit_gunman', 1, 10, 'normal');
+    const braced = getEnemyAccuracyAtDistance('bandit_gunman', 1, 10, 'normal', false, true);
+    expect(braced).toBeGreaterThan(open);
+  });
+});
+
+describe('SquadCoordinator', () => {
+  let coordinator: SquadCoordinator;
+  let leader: EnemyAIState;
+  let gunmen: EnemyAIState[];
+  let thug: EnemyAIState;
+  let wolf: EnemyAIState;
+  let all: EnemyAIState[];
+
+  beforeEach(() => {
+    coordinator = new SquadCoordinator();
+    leader = createEnemyAI('bandit_leader', 1, at(0, 0), 100, 100, 'squad-leader');
+    gunmen = [1, 2].map((i) =>
+      createEnemyAI('bandit_gunman', 1, at(i * 3, 0), 100, 100, `squad-gunman-${i}`)
+    );
+    thug = createEnemyAI('bandit_thug', 1, at(-3, 0), 100, 100, 'squad-thug');
+    wolf = createEnemyAI('desert_wolf', 1, at(0, 40), 100, 100, 'squad-wolf');
+    all = [leader, ...gunmen, thug, wolf];
+  });
+
+  afterEach(() => {
+    for (const ai of all) disposeEnemyAI(ai);
+  });
+
+  it('should group by faction and hand out roles', () => {
+    coordinator.update(all, 0.1, []);
+    expect(coordinator.getSquads()).toHaveLength(1);
+    expect(wolf.tactics).toBeNull();
+    expect(leader.tactics?.role).toBe('suppressor');
+    expect(gunmen.map((g) => g.tactics?.role)).toEqual(['flanker', 'suppressor']);
+    expect(thug.tactics?.role).toBe('rusher');
+    expect(getSquadRole('copperhead_gunslinger')).toBe('flanker');
+  });
+
+  it("should share the player's position and alert the rest of the squad", () => {
+    coordinator.update(all, 0.1, []);
+    // Only the leader is looking the player's way
+    updateEnemyAI(leader, 0.1, at(0, 15), []);
+    expect(leader.state).toBe('alert');
+    expect(gunmen[1].state).toBe('idle');
+
+    coordinator.update(all, 0.1, []);
+    expect(gunmen[1].state).toBe('alert');
+    expect(gunmen[1].lastKnownPlayerPos).toEqual(at(0, 15));
+    expect(wolf.state).toBe('idle');
+  });
+
+  it('should send suppressors to cover and flankers round the side', () => {
+    const crate = { center: { x: 6, y: 0.5, z: 8 }, halfExtents: { x: 1, y: 0.5, z: 1 } };
+    const cover = findCoverPoints([crate]);
+    for (const ai of [leader, ...gunmen, thug]) ai.state = 'pursue';
+    leader.lastKnownPlayerPos = at(0, 20);
+    leader.perception = { zone: 'focal', visibility: 1, distance: 20 };
+
+    coordinator.update(all, 0.1, cover);
+    // The leader is nearest the best spot, so the other suppressor takes the next one
+    expect(leader.tactics?.position).toEqual(at(6, 6.2));
+    const suppressor = gunmen[1];
+    expect(suppressor.tactics?.position).toEqual(at(7.8, 8));
+    expect(suppressor.tactics?.inCover).toBe(false);
+    const flank = gunmen[0].tactics?.position ?? at(0, 20);
+    expect(Math.hypot(flank.x, flank.z - 20)).toBeCloseTo(12);
+    expect(flank.x).toBeGreaterThan(10);
+    expect(thug.tactics?.position).toBeNull();
+
+    const action = updateEnemyAI(suppressor, 0.1, at(0, -30), []);
+    expect(action.targetPosition).toEqual(at(7.8, 8));
+  });
+
+  it('should regroup on the leader after a loss, then re-engage', () => {
+    coordinator.update(all, 0.1, []);
+    thug.health = 0;
+    thug.state = 'dead';
+    leader.state = 'attack';
+    gunmen[0].state = 'pursue';
+    gunmen[0].position = at(10, 10);
+
+    coordinator.update(all, 0.1, []);
+    expect(gunmen[0].tactics?.order).toBe('regroup');
+    const action = updateEnemyAI(gunmen[0], 0.1, at(0, -30), []);
+    expect(action).toEqual({ type: 'move', targetPosition: at(0, 0) });
+
+    coordinator.update(all, REGROUP_DURATION, []);
+    expect(gunmen[0].tactics?.order).toBe('engage');
+  });
+
+  it('should retreat when the squad is cut in half, unless the leader is down', () => {
+    coordinator.update(all, 0.1, []);
+    for (const ai of [thug, gunmen[0]]) {
+      ai.health = 0;
+      ai.state = 'dead';
+    }
+    coordinator.update(all, 0.1, []);
+    expect(gunmen[1].state).toBe('flee');
+    expect(leader.tactics?.order).toBe('retreat');
+  });
+
+  it('should fight on without orders once the leader falls', () => {
+    coordinator.update(all, 0.1, []);
+    for (const ai of [leader, thug]) {
+      ai.health = 0;
+      ai.state = 'dead';
+    }
+    gunmen[1].state = 'attack';
+    coordinator.update(all, 0.1, []);
+    expect(gunmen[1].state).toBe('attack');
+    expect(gunmen[1].tactics?.order).toBe('engage');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * weather.test.ts - Tests for the seeded regional weather simulation and
+ * its effects on travel, provisions and stealth
+ */
+
+import type { RegionBiome } from '../../data/schemas/world';
+import type { WeatherState, WeatherType } from '../../store/types';
+import { ProvisionsSystem } from '../provisions';
+import { tickStealth } from '../StealthSystem';
+import { adjustTravelTime } from '../TravelManager';
+import {
+  DEFAULT_WEATHER_CONFIG,
+  FULL_WEATHER_EFFECTS,
+  getRegionWeather,
+  getWeatherAmbience,
+  getWeatherEffects,
+} from '../weather';
+
+const SEED = 1234;
+const FRONT_MINUTES = DEFAULT_WEATHER_CONFIG.frontHours * 60;
+
+function weather(type: WeatherType, intensity: number, windSpeed = 0): WeatherState {
+  return { type, intensity, windDirection: 0, windSpeed };
+}
+
+/** How many of `fronts` consecutive fronts had `type` weather. */
+function countFronts(climate: RegionBiome, type: WeatherType, fronts = 300): number {
+  let count = 0;
+  for (let f = 0; f < fronts; f++) {
+    if (getRegionWeather(climate, SEED, f * FRONT_MINUTES).type === type) count++;
+  }
+  return count;
+}
+
+describe('regional weather', () => {
+  it('should give the same weather for the same seed, region and time', () => {
+    const a = getRegionWeather('badlands', SEED, 5000);
+    const b = getRegionWeather('badlands', SEED, 5000);
+    expect(a).toEqual(b);
+  });
+
+  it('should follow each region climate', () => {
+    expect(countFronts('badlands', 'dusty')).toBeGreaterThan(countFronts('riverside', 'dusty'));
+    expect(countFronts('riverside', 'foggy')).toBeGreaterThan(countFronts('badlands', 'foggy'));
+    expect(countFronts('salt_flat', 'rainy')).toBe(0);
+  });
+
+  it('should build new weather up over the start of a front', () => {
+    let front = 1;
+    while (
+      getRegionWeather('grassland', SEED, front * FRONT_MINUTES).type ===
+        getRegionWeather('grassland', SEED, front * FRONT_MINUTES - 1).type ||
+      getRegionWeather('grassland', SEED, front * FRONT_MINUTES).type === 'clear'
+    ) {
+      front++;
+    }
+    const start = front * FRONT_MINUTES;
+    const peak = getRegionWeather('grassland', SEED, start + DEFAULT_WEATHER_CONFIG.buildUpMinutes);
+    const halfway = getRegionWeather('grassland', SEED, start + DEFAULT_WEATHER_CONFIG.buildUpMinutes / 2);
+
+    expect(getRegionWeather('grassland', SEED, start).intensity).toBe(0);
+    expect(halfway.intensity).toBeCloseTo(peak.intensity / 2);
+    expect(getRegionWeather('grassland', SEED, start + FRONT_MINUTES - 1).intensity).toBe(
+      peak.intensity
+    );
+  });
+});
+
+describe('weather effects', () => {
+  it('should scale from clear to full strength with intensity', () => {
+    expect(getWeatherEffects(weather('dusty', 0))).toEqual(FULL_WEATHER_EFFECTS.clear);
+    expect(getWeatherEffects(weather('dusty', 1))).toEqual(FULL_WEATHER_EFFECTS.dusty);
+
+    const half = getWeatherEffects(weather('foggy', 0.5));
+    expect(half.visibility).toBeCloseTo((1 + FULL_WEATHER_EFFECTS.foggy.visibility) / 2);
+  });
+
+  it('should only rain in wet weather', () => {
+    expect(getWeatherAmbience(weather('rainy', 0.7, 5)).rain).toBe(0.7);
+    expect(getWeatherAmbience(weather('dusty', 0.7, 20)).rain).toBe(0);
+    expect(getWeatherAmbience(weather('dusty', 0.7, 20)).wind).toBeGreaterThan(0.5);
+  });
+
+  it('should slow travel', () => {
+    expect(adjustTravelTime(4, 1)).toBe(4);
+    expect(adjustTravelTime(4, 0.5)).toBe(8);
+  });
+
+  it('should scale water drunk on the trail', () => {
+    const calm = new ProvisionsSystem();
+    const storm = new ProvisionsSystem();
+    const calmUse = calm.consumeForTravel(4).waterConsumed;
+    const stormUse = storm.consumeForTravel(4, 1.5).waterConsumed;
+    expect(stormUse).toBeCloseTo(calmUse * 1.5);
+    expect(storm.consumeForTravel(4, 1.5).foodConsumed).toBe(calm.consumeForTravel(4).foodConsumed);
+  });
+
+  it('should hide the player from distant hostiles in fog', () => {
+    const input = {
+      playerPosition: { x: 0, y: 0, z: 0 },
+      isCrouching: false,
+      isMoving: false,
+      isSprinting: false,
+      isNight: false,
+      currentDetection: 0,
+      dt: 10,
+      hostilePositions: [{ x: 20, y: 0, z: 0 }],
+    };
+    const clear = tickStealth(input).detectionLevel;
+    const fog = getWeatherEffects(weather('foggy', 1)).visibility;
+    expect(clear).toBeGreaterThan(0);
+    expect(tickStealth({ ...input, visibility: fog }).detectionLevel).toBe(0);
+  });
+});
@@ -0,0 +1,37 @@
+/** Contracts posted on each board */
+export const BOARD_SIZE = 3;
+
+/** Days between new sets of wanted posters */
+export const ROTATION_DAYS = 3;
+
+/** Quest template the contracts are written from */
+export const BOUNTY_QUEST_TEMPLATE_ID = 'bounty_basic';
+
+/** NPC templates wanted outlaws are drawn from */
+export const OUTLAW_NPC_TEMPLATE_IDS = ['gang_member', 'rustler', 'bandit_leader'];
+
+/** World location types an outlaw can make camp at */
+export const CAMP_LOCATION_TYPES = ['camp', 'hideout', 'ruins', 'landmark'];
+
+/** How many of the camps nearest an office its contracts send the player to */
+export const CAMP_CHOICES = 3;
+
+/** How far from the centre of its location a camp sits (m) */
+export const CAMP_DISTANCE: [number, number] = [30, 50];
+
+/** How far the gang stands from the outlaw (m) */
+export const GANG_SPREAD = 6;
+
+/** Extra share of the reward paid for bringing an outlaw in alive */
+export const CAPTURE_BONUS = 0.5;
+
+/** Entity ids of wanted outlaws and their gangs start with this */
+export const BOUNTY_TARGET_PREFIX = 'bounty-';
+
+/** Quest objective targets for taking an outlaw alive and claiming a bounty */
+export const CAPTURE_TARGET_PREFIX = 'capture:';
+export const CLAIM_TARGET_PREFIX = 'claim:';
+
+/** Exits out of a contract's hunt stage */
+export const CAPTURE_EXIT_ID = 'taken_alive';
+export const KILL_EXIT_ID = 'taken_dead';
@@ -0,0 +1,85 @@
+/**
+ * Contracts - Looking up posted contracts and the outlaws they send the
+ * player after.
+ *
+ * @module systems/bountyBoard/contracts
+ */
+
+import { BOUNTY_TARGET_PREFIX, CAPTURE_TARGET_PREFIX, GANG_SPREAD } from './config';
+import type { BountyBoards, BountyContract, ContractStatus } from './types';
+
+/** A contract's quest as the quest log holds it */
+interface ContractQuestState {
+  status: string;
+  currentStageIndex: number;
+}
+
+/** Someone waiting at a camp for the player: the outlaw or one of their gang */
+export interface OutlawSpawn {
+  id: string;
+  configId: string;
+  level: number;
+  name: string;
+  /** Relative to the centre of the camp's location */
+  position: [number, number, number];
+  /** Only the outlaw can be taken alive */
+  capturable: boolean;
+}
+
+/** Where a contract stands, given its quest in the log (if any). */
+export function getContractStatus(
+  contract: BountyContract,
+  activeQuest: ContractQuestState | undefined
+): ContractStatus {
+  if (!contract.accepted) return 'posted';
+  if (!activeQuest || activeQuest.status !== 'active') return 'closed';
+  return activeQuest.currentStageIndex === 0 ? 'hunting' : 'claimable';
+}
+
+export function findContract(boards: BountyBoards, contractId: string): BountyContract | undefined {
+  for (const board of Object.values(boards)) {
+    const contract = board.contracts.find((c) => c.id === contractId);
+    if (contract) return contract;
+  }
+  return undefined;
+}
+
+export function isBountyTarget(entityId: string): boolean {
+  return entityId.startsWith(BOUNTY_TARGET_PREFIX);
+}
+
+/** Objective target a non-lethal takedown of `entityId` completes. */
+export function getCaptureTarget(entityId: string): string {
+  return `${CAPTURE_TARGET_PREFIX}${entityId}`;
+}
+
+/** The outlaw and their gang, gathered around the camp. */
+export function getOutlawSpawns(contract: BountyContract): OutlawSpawn[] {
+  const { outlaw, campPosition } = contract;
+  const spawns: OutlawSpawn[] = [
+    {
+      id: outlaw.id,
+      configId: outlaw.configId,
+      level: outlaw.level,
+      name: outlaw.name,
+      position: [campPosition.x, 0, campPosition.z],
+      capturable: true,
+    },
+  ];
+  for (let i = 0; i < outlaw.gangSize; i++) {
+    const angle = (i / outlaw.gangSize) * Math.PI * 2;
+    spawns.push({
+      id: `${outlaw.id}-gang-${i}`,
+      configId: outlaw.gangConfigId,
+      level: outlaw.gangLevel,
+      name: `${outlaw.name}'s gang`,
+      position: [
+        campPosition.x + Math.cos(angle) * GANG_SPREAD,
+        0,
+        campPosition.z + Math.sin(angle) * GANG_SPREAD,
+      ],
+      capturable: false,
+    });
+  }
+  return spawns;
+}
@@ -0,0 +1,266 @@
+/**
+ * Bounty board generation - Wanted posters for a sheriff's office.
+ *
+ * Each poster names an outlaw drawn from the NPC generator, written up as a
+ * bounty quest by the quest generator and sent to one of the camps nearest
+ * the office with the gang from the WantedOutlaw encounter. Boards are
+ * seeded from the world seed, the office and the rotation, so every office
+ * posts the same contracts for the same days.
+ *
+ * A contract's hunt stage ends one of two ways: killing the outlaw, or a
+ * non-lethal takedown that brings them in alive for the bigger payout. The
+ * reward is paid when the player claims it back at the office.
+ *
+ * @module systems/bountyBoard/generation
+ */
+
+import { generateNPC } from '../../data/generation/generators/npcGenerator';
+import { generateQuest } from '../../data/generation/generators/questGenerator';
+import { convertGeneratedQuest } from '../../data/generation/integration/gameStoreIntegration/questConverters';
+import { ProceduralLocationManager } from '../../data/generation/ProceduralLocationManager';
+import { combineSeeds, hashString, SeededRandom } from '../../data/generation/seededRandom';
+import { WantedOutlaw } from '../../data/generation/templates/encounterTemplates';
+import { getNPCTemplate } from '../../data/generation/templates/npcTemplates';
+import { getQuestTemplate } from '../../data/generation/templates/questTemplates';
+import type { GenerationContext } from '../../data/schemas/generation';
+import type { Objective, Quest, QuestStage } from '../../data/schemas/quest';
+import {
+  BOARD_SIZE,
+  BOUNTY_QUEST_TEMPLATE_ID,
+  BOUNTY_TARGET_PREFIX,
+  CAMP_CHOICES,
+  CAMP_DISTANCE,
+  CAPTURE_BONUS,
+  CAPTURE_EXIT_ID,
+  CAPTURE_TARGET_PREFIX,
+  CLAIM_TARGET_PREFIX,
+  KILL_EXIT_ID,
+  OUTLAW_NPC_TEMPLATE_IDS,
+  ROTATION_DAYS,
+} from './config';
+import type {
+  BountyBoard,
+  BountyContract,
+  BountyOffice,
+  OutlawCamp,
+  WantedOutlaw as Outlaw,
+} from './types';
+
+/** What an office's board is generated from */
+export interface BoardContext {
+  worldSeed: number;
+  office: BountyOffice;
+  camps: readonly OutlawCamp[];
+  day: number;
+  playerLevel: number;
+}
+
+/** The rotation a clock day falls in. */
+export function getBoardRotation(day: number): number {
+  return Math.floor(day / ROTATION_DAYS);
+}
+
+/** Camps closest to the office, nearest first. */
+export function getNearbyCamps(office: BountyOffice, camps: readonly OutlawCamp[]): OutlawCamp[] {
+  const distance = (camp: OutlawCamp) =>
+    Math.hypot(camp.coord.wx - office.coord.wx, camp.coord.wy - office.coord.wy);
+  return [...camps].sort((a, b) => distance(a) - distance(b)).slice(0, CAMP_CHOICES);
+}
+
+function objective(fields: Pick<Objective, 'id' | 'description' | 'type' | 'target'> & Partial<Objective>): Objective {
+  return { count: 1, current: 0, optional: false, hidden: false, ...fields };
+}
+
+/**
+ * Rewrite the generated quest's stages around the contract: a hunt stage
+ * that branches on whether the outlaw was taken alive, then a claim stage
+ * for each branch paying out at the office.
+ */
+function writeContractQuest(
+  quest: Quest,
+  office: BountyOffice,
+  camp: OutlawCamp,
+  outlaw: Outlaw,
+  reward: number,
+  captureReward: number
+): Quest {
+  const [hunt, claim] = quest.stages;
+  const marker = { locationId: camp.locationId, markerLabel: outlaw.name };
+  const hint = `${outlaw.name} is holed up at ${camp.name}. Shoot to wound (arms or legs) to take them alive.`;
+
+  const kill = objective({
+    id: `${quest.id}_kill`,
+    description: `Kill ${outlaw.name}`,
+    type: 'kill',
+    target: outlaw.id,
+    optional: true,
+    hint,
+    mapMarker: marker,
+  });
+  const capture = objective({
+    id: `${quest.id}_capture`,
+    description: `Take ${outlaw.name} alive`,
+    type: 'interact',
+    target: `${CAPTURE_TARGET_PREFIX}${outlaw.id}`,
+    optional: true,
+    hint,
+    mapMarker: marker,
+  });
+
+  const claimStage = (suffix: string, gold: number, onCompleteText: string): QuestStage => ({
+    ...claim,
+    id: `${claim.id}_${suffix}`,
+    description: `Return to the ${office.townName} sheriff's office to claim your reward.`,
+    objectives: [
+      objective({
+        id: `${quest.id}_claim`,
+        description: `Claim the bounty at the ${office.townName} sheriff's office`,
+        type: 'interact',
+        target: `${CLAIM_TARGET_PREFIX}${quest.id}`,
+        mapMarker: { locationId: office.townId, markerLabel: 'Sheriff' },
+      }),
+    ],
+    onCompleteText,
+    stageRewards: { xp: 0, gold, items: [], reputation: {} },
+    nextStageId: null,
+  });
+  const claimAlive = claimStage(
+    'alive',
+    captureReward,
+    `${outlaw.name} is behind bars. You collected ${captureReward}g.`
+  );
+  const claimDead = claimStage('dead', reward, `You collected ${reward}g for ${outlaw.name}.`);
+
+  return {
+    ...quest,
+    description: `${quest.description} Last seen at ${camp.name}.`,
+    giverNpcId: null,
+    startLocationId: office.townId,
+    stages: [
+      {
+        ...hunt,
+        description: `Track down ${outlaw.name} at ${camp.name}, dead or alive.`,
+        objectives: [kill, capture],
+        exits: [
+          {
+            id: CAPTURE_EXIT_ID,
+            description: `${outlaw.name} taken alive`,
+            objectives: [capture.id],
+            nextStageId: claimAlive.id,
+          },
+          {
+            id: KILL_EXIT_ID,
+            description: `${outlaw.name} is dead`,
+            objectives: [kill.id],
+            nextStageId: claimDead.id,
+          },
+        ],
+      },
+      claimAlive,
+      claimDead,
+    ],
+    // Paid by the claim stages instead
+    rewards: { ...quest.rewards, gold: 0 },
+  };
+}
+
+/**
+ * Generate the contract in `slot` of the office's board for a rotation, or
+ * null if there's nowhere nearby for an outlaw to hide.
+ */
+export function generateContract(
+  context: BoardContext,
+  rotation: number,
+  slot: number
+): BountyContract | null {
+  const { office, worldSeed } = context;
+  // The generators' name pools and templates load with the procedural
+  // manager, which a game restored from a save may not have started yet
+  ProceduralLocationManager.initialize(worldSeed);
+  const nearby = getNearbyCamps(office, context.camps);
+  const npcTemplate = getNPCTemplate(OUTLAW_NPC_TEMPLATE_IDS[slot % OUTLAW_NPC_TEMPLATE_IDS.length]);
+  const questTemplate = getQuestTemplate(BOUNTY_QUEST_TEMPLATE_ID);
+  if (nearby.length === 0 || !npcTemplate || !questTemplate) return null;
+
+  const rng = new SeededRandom(combineSeeds(worldSeed, hashString(office.townId), rotation, slot));
+  const camp = rng.pick(nearby);
+  const generation: GenerationContext = {
+    worldSeed,
+    locationId: camp.locationId,
+    playerLevel: Math.min(10, Math.max(1, context.playerLevel)),
+    gameHour: 12,
+    factionTensions: {},
+    activeEvents: [],
+    contextTags: ['bounty'],
+  };
+
+  const npc = generateNPC(rng, npcTemplate, generation);
+  const generated = generateQuest(
+    rng,
+    questTemplate,
+    {
+      ...generation,
+      // The outlaw is the only name the poster can carry
+      availableNPCs: [{ id: npc.id, name: npc.name, role: npc.role, tags: npc.tags }],
+      availableItems: [],
+      availableLocations: [],
+      availableEnemies: [],
+    },
+    { id: office.townId, name: `the ${office.townName} sheriff` }
+  );
+  const quest = convertGeneratedQuest(generated);
+
+  const [leader, gang] = WantedOutlaw.enemies;
+  const outlaw: Outlaw = {
+    id: `${BOUNTY_TARGET_PREFIX}${quest.id}`,
+    name: npc.name,
+    description: npc.description,
+    configId: leader.enemyIdOrTag,
+    level: Math.max(1, Math.round(generated.level * leader.levelScale)),
+    gangConfigId: gang.enemyIdOrTag,
+    gangLevel: Math.max(1, Math.round(generated.level * gang.levelScale)),
+    gangSize: rng.int(gang.countRange[0], gang.countRange[1]),
+  };
+
+  const angle = rng.float(0, Math.PI * 2);
+  const distance = rng.float(CAMP_DISTANCE[0], CAMP_DISTANCE[1]);
+  const reward = generated.rewards.gold;
+  const captureReward = reward + Math.ceil(reward * CAPTURE_BONUS);
+
+  return {
+    id: quest.id,
+    officeId: office.townId,
+    campLocationId: camp.locationId,
+    campName: camp.name,
+    campPosition: { x: Math.cos(angle) * distance, z: Math.sin(angle) * distance },
+    outlaw,
+    reward,
+    captureReward,
+    postedDay: context.day,
+    accepted: false,
+    quest: writeContractQuest(quest, office, camp, outlaw, reward, captureReward),
+  };
+}
+
+/**
+ * The office's board for the context's day. A board already posted for the
+ * current rotation is returned as is; otherwise fresh posters go up, keeping
+ * any contracts `keep` accepts (ones the player is still working on).
+ */
+export function rotateBoard(
+  board: BountyBoard | undefined,
+  context: BoardContext,
+  keep: (contract: BountyContract) => boolean
+): BountyBoard {
+  const rotation = getBoardRotation(context.day);
+  if (board && board.rotation === rotation) return board;
+
+  const kept = board?.contracts.filter(keep) ?? [];
+  const fresh: BountyContract[] = [];
+  for (let slot = 0; slot < BOARD_SIZE && kept.length + fresh.length < BOARD_SIZE; slot++) {
+    const contract = generateContract(context, rotation, slot);
+    if (contract && !kept.some((c) => c.id === contract.id)) fresh.push(contract);
+  }
+
+  return { townId: context.office.townId, rotation, contracts: [...kept, ...fresh] };
+}
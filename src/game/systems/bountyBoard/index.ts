@@ -0,0 +1,39 @@
+export type {
+  WorldCoord,
+  BountyOffice,
+  OutlawCamp,
+  WantedOutlaw,
+  BountyContract,
+  BountyBoard,
+  BountyBoards,
+  ContractStatus,
+} from './types';
+
+export {
+  BOARD_SIZE,
+  ROTATION_DAYS,
+  CAMP_LOCATION_TYPES,
+  CAPTURE_BONUS,
+  BOUNTY_TARGET_PREFIX,
+  CAPTURE_TARGET_PREFIX,
+  CLAIM_TARGET_PREFIX,
+  CAPTURE_EXIT_ID,
+  KILL_EXIT_ID,
+} from './config';
+
+export {
+  getBoardRotation,
+  getNearbyCamps,
+  generateContract,
+  rotateBoard,
+  type BoardContext,
+} from './generation';
+
+export {
+  getContractStatus,
+  findContract,
+  isBountyTarget,
+  getCaptureTarget,
+  getOutlawSpawns,
+  type OutlawSpawn,
+} from './contracts';
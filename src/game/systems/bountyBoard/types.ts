@@ -0,0 +1,72 @@
+import type { Quest } from '../../data/schemas/quest';
+
+/** World map coordinates (WorldLocationRef.coord) */
+export interface WorldCoord {
+  wx: number;
+  wy: number;
+}
+
+/** A town whose sheriff's office keeps a bounty board */
+export interface BountyOffice {
+  townId: string;
+  townName: string;
+  coord: WorldCoord;
+}
+
+/** Somewhere out on the open range an outlaw can hole up */
+export interface OutlawCamp {
+  locationId: string;
+  name: string;
+  coord: WorldCoord;
+}
+
+/** The outlaw a contract is out on, and the gang riding with them */
+export interface WantedOutlaw {
+  /** Entity id the outlaw spawns under at the camp */
+  id: string;
+  name: string;
+  description: string;
+  /** enemies.json id for the outlaw */
+  configId: string;
+  level: number;
+  /** enemies.json id and level for the gang */
+  gangConfigId: string;
+  gangLevel: number;
+  gangSize: number;
+}
+
+/** A wanted poster on a sheriff's board */
+export interface BountyContract {
+  /** Id of the generated quest the contract runs as */
+  id: string;
+  officeId: string;
+  campLocationId: string;
+  campName: string;
+  /** Where the camp sits, relative to the centre of its location */
+  campPosition: { x: number; z: number };
+  outlaw: WantedOutlaw;
+  /** Paid for bringing the outlaw in dead */
+  reward: number;
+  /** Paid for bringing the outlaw in alive */
+  captureReward: number;
+  postedDay: number;
+  accepted: boolean;
+  quest: Quest;
+}
+
+/** One office's board */
+export interface BountyBoard {
+  townId: string;
+  /** Rotation the posted contracts belong to */
+  rotation: number;
+  contracts: BountyContract[];
+}
+
+/** Boards keyed by town id */
+export type BountyBoards = Record<string, BountyBoard>;
+
+/**
+ * Where a contract stands: posted on the board, being hunted, waiting to be
+ * claimed at the office, or closed (claimed, failed or abandoned).
+ */
+export type ContractStatus = 'posted' | 'hunting' | 'claimable' | 'closed';
@@ -0,0 +1,81 @@
+/**
+ * Calendar - Seasons, weekdays and temperature on top of the game clock.
+ *
+ * The clock counts days from 1; the calendar places each day in a year of
+ * four short seasons, starting from CALENDAR_START. Everything here is a
+ * pure function of the clock day and hour.
+ *
+ * @module systems/calendar/calendar
+ */
+
+import type { WeatherState } from '../../store/types';
+import type { PhaseBoundaries } from '../time';
+import {
+  CALENDAR_START,
+  COLD_FOOD_RATE,
+  COMFORT_RANGE,
+  DAILY_TEMPERATURE_SWING,
+  DAYS_PER_SEASON,
+  DAYS_PER_YEAR,
+  EXPOSURE_FATIGUE_RATE,
+  HEAT_WATER_RATE,
+  SEASON_ORDER,
+  SEASONS,
+  WARMEST_HOUR,
+  WEATHER_TEMPERATURE,
+  WEEKDAYS,
+} from './config';
+import type { CalendarDate, Season, TemperatureEffects } from './types';
+
+/** The calendar date of clock day `day`. */
+export function getCalendarDate(day: number): CalendarDate {
+  const offset = CALENDAR_START.dayOfYear - 1 + Math.max(0, day - 1);
+  const dayOfYear = (offset % DAYS_PER_YEAR) + 1;
+  const weekdayOffset = WEEKDAYS.indexOf(CALENDAR_START.weekday) + Math.max(0, day - 1);
+  return {
+    year: CALENDAR_START.year + Math.floor(offset / DAYS_PER_YEAR),
+    dayOfYear,
+    season: SEASON_ORDER[Math.floor((dayOfYear - 1) / DAYS_PER_SEASON)],
+    dayOfSeason: ((dayOfYear - 1) % DAYS_PER_SEASON) + 1,
+    weekday: WEEKDAYS[weekdayOffset % WEEKDAYS.length],
+  };
+}
+
+export function getSeason(day: number): Season {
+  return getCalendarDate(day).season;
+}
+
+/** e.g. "Sunday, 3 Summer 1887" */
+export function formatCalendarDate(date: CalendarDate): string {
+  const weekday = date.weekday.charAt(0).toUpperCase() + date.weekday.slice(1);
+  return `${weekday}, ${date.dayOfSeason} ${SEASONS[date.season].label} ${date.year}`;
+}
+
+/** Dawn, day, dusk and night hours for clock day `day`. */
+export function getSeasonalPhaseBoundaries(day: number): PhaseBoundaries {
+  return SEASONS[getSeason(day)].daylight;
+}
+
+/**
+ * Air temperature in degrees Fahrenheit: the season's mean, warmest in the
+ * afternoon and coldest before dawn, shifted by the weather.
+ */
+export function getTemperature(day: number, hour: number, weather?: WeatherState): number {
+  const daily = Math.cos(((hour - WARMEST_HOUR) / 24) * Math.PI * 2);
+  const weatherShift = weather
+    ? WEATHER_TEMPERATURE[weather.type] * Math.max(0, Math.min(1, weather.intensity))
+    : 0;
+  return SEASONS[getSeason(day)].temperature + DAILY_TEMPERATURE_SWING * daily + weatherShift;
+}
+
+/** Heat makes the body thirsty, cold hungry, and both tire it. */
+export function getTemperatureEffects(temperature: number): TemperatureEffects {
+  const [cold, hot] = COMFORT_RANGE;
+  const heat = Math.max(0, temperature - hot);
+  const chill = Math.max(0, cold - temperature);
+  return {
+    fatigue: 1 + (heat + chill) * EXPOSURE_FATIGUE_RATE,
+    food: 1 + chill * COLD_FOOD_RATE,
+    water: 1 + heat * HEAT_WATER_RATE,
+  };
+}
@@ -0,0 +1,106 @@
+import type { WeatherType } from '../../store/types';
+import type { Season, SeasonConfig, TownEvent, Weekday } from './types';
+
+/** Seasons run four weeks apiece so a playthrough sees the year turn */
+export const DAYS_PER_SEASON = 28;
+
+export const SEASON_ORDER: Season[] = ['spring', 'summer', 'autumn', 'winter'];
+
+export const DAYS_PER_YEAR = DAYS_PER_SEASON * SEASON_ORDER.length;
+
+export const WEEKDAYS: Weekday[] = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+];
+
+/** Where clock day 1 falls: a Friday in late spring */
+export const CALENDAR_START = {
+  year: 1887,
+  dayOfYear: 22,
+  weekday: 'friday' as Weekday,
+};
+
+export const SEASONS: Record<Season, SeasonConfig> = {
+  spring: {
+    label: 'Spring',
+    daylight: { dawn: [5, 7], day: [7, 18], dusk: [18, 20], night: [20, 5] },
+    temperature: 62,
+    forage: { chance: 1, yield: 1.1 },
+    hunt: { chance: 1, yield: 1 },
+  },
+  summer: {
+    label: 'Summer',
+    daylight: { dawn: [4, 6], day: [6, 19], dusk: [19, 21], night: [21, 4] },
+    temperature: 84,
+    forage: { chance: 1.1, yield: 1.25 },
+    hunt: { chance: 1.1, yield: 1 },
+  },
+  autumn: {
+    label: 'Autumn',
+    daylight: { dawn: [5, 7], day: [7, 17], dusk: [17, 19], night: [19, 5] },
+    temperature: 58,
+    forage: { chance: 1, yield: 1.4 },
+    hunt: { chance: 1.2, yield: 1.2 },
+  },
+  winter: {
+    label: 'Winter',
+    daylight: { dawn: [6, 8], day: [8, 16], dusk: [16, 18], night: [18, 6] },
+    temperature: 36,
+    forage: { chance: 0.5, yield: 0.5 },
+    hunt: { chance: 0.8, yield: 0.9 },
+  },
+};
+
+/** Degrees either side of the day's mean; warmest mid-afternoon */
+export const DAILY_TEMPERATURE_SWING = 12;
+
+/** Hour the day is warmest */
+export const WARMEST_HOUR = 15;
+
+/** Degrees the weather adds or takes off at full intensity */
+export const WEATHER_TEMPERATURE: Record<WeatherType, number> = {
+  clear: 0,
+  cloudy: -4,
+  dusty: 4,
+  rainy: -8,
+  stormy: -10,
+  foggy: -6,
+};
+
+/** Temperatures (°F) the body takes in its stride */
+export const COMFORT_RANGE: [number, number] = [50, 80];
+
+/** Extra per degree outside the comfort range */
+export const HEAT_WATER_RATE = 0.02;
+export const COLD_FOOD_RATE = 0.015;
+export const EXPOSURE_FATIGUE_RATE = 0.01;
+
+export const TOWN_EVENTS: TownEvent[] = [
+  {
+    id: 'founders_day',
+    name: "Founders' Day",
+    description: 'The whole town turns out for the fair: stalls, shooting matches and a dance.',
+    date: { season: 'summer', day: 4 },
+    hours: [8, 24],
+  },
+  {
+    id: 'sunday_service',
+    name: 'Sunday Service',
+    description: 'The preacher holds the morning service at the church.',
+    date: { weekday: 'sunday' },
+    hours: [9, 11],
+    venue: 'church',
+  },
+  {
+    id: 'harvest_dance',
+    name: 'Harvest Dance',
+    description: 'Fiddles and lanterns in the square once the harvest is in.',
+    date: { season: 'autumn', day: 20 },
+    hours: [18, 24],
+  },
+];
@@ -0,0 +1,36 @@
+/**
+ * Town events - Dated gatherings (fairs, dances) and weekly ones (Sunday
+ * service) that NPC schedules, dialogue and quests can refer to by id.
+ *
+ * @module systems/calendar/events
+ */
+
+import { getCalendarDate } from './calendar';
+import { TOWN_EVENTS } from './config';
+import type { CalendarDate, TownEvent } from './types';
+
+export function getTownEvent(eventId: string): TownEvent | undefined {
+  return TOWN_EVENTS.find((event) => event.id === eventId);
+}
+
+function fallsOn(event: TownEvent, date: CalendarDate): boolean {
+  if ('weekday' in event.date) return event.date.weekday === date.weekday;
+  return event.date.season === date.season && event.date.day === date.dayOfSeason;
+}
+
+/** Events held at some point on clock day `day`. */
+export function getTownEventsOn(day: number): TownEvent[] {
+  const date = getCalendarDate(day);
+  return TOWN_EVENTS.filter((event) => fallsOn(event, date));
+}
+
+/** Events under way at `hour` on clock day `day`. */
+export function getActiveTownEvents(day: number, hour: number): TownEvent[] {
+  return getTownEventsOn(day).filter(
+    (event) => hour >= event.hours[0] && hour < event.hours[1]
+  );
+}
+
+export function isTownEventActive(eventId: string, day: number, hour: number): boolean {
+  return getActiveTownEvents(day, hour).some((event) => event.id === eventId);
+}
@@ -0,0 +1,37 @@
+export type {
+  Season,
+  Weekday,
+  CalendarDate,
+  GatheringOdds,
+  SeasonConfig,
+  TemperatureEffects,
+  TownEventDate,
+  TownEvent,
+} from './types';
+
+export {
+  DAYS_PER_SEASON,
+  DAYS_PER_YEAR,
+  SEASON_ORDER,
+  WEEKDAYS,
+  CALENDAR_START,
+  SEASONS,
+  COMFORT_RANGE,
+  TOWN_EVENTS,
+} from './config';
+
+export {
+  getCalendarDate,
+  getSeason,
+  formatCalendarDate,
+  getSeasonalPhaseBoundaries,
+  getTemperature,
+  getTemperatureEffects,
+} from './calendar';
+
+export {
+  getTownEvent,
+  getTownEventsOn,
+  getActiveTownEvents,
+  isTownEventActive,
+} from './events';
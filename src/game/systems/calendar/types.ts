@@ -0,0 +1,60 @@
+import type { PhaseBoundaries } from '../time';
+
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export type Weekday =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday';
+
+/** A game clock day placed on the calendar */
+export interface CalendarDate {
+  year: number;
+  /** 1 to DAYS_PER_YEAR */
+  dayOfYear: number;
+  season: Season;
+  /** 1 to DAYS_PER_SEASON */
+  dayOfSeason: number;
+  weekday: Weekday;
+}
+
+/** Multipliers on a gathering attempt (1 = no change) */
+export interface GatheringOdds {
+  chance: number;
+  yield: number;
+}
+
+export interface SeasonConfig {
+  label: string;
+  /** Phase boundaries; longer days in summer, short ones in winter */
+  daylight: PhaseBoundaries;
+  /** Mean temperature over the day, in degrees Fahrenheit */
+  temperature: number;
+  forage: GatheringOdds;
+  hunt: GatheringOdds;
+}
+
+/** What heat and cold do to the body (1 = no change) */
+export interface TemperatureEffects {
+  fatigue: number;
+  food: number;
+  water: number;
+}
+
+/** When a town event falls: a date each year, or a day each week */
+export type TownEventDate = { season: Season; day: number } | { weekday: Weekday };
+
+export interface TownEvent {
+  id: string;
+  name: string;
+  description: string;
+  date: TownEventDate;
+  /** Start and end hour; an end of 24 runs to midnight */
+  hours: [number, number];
+  /** Building archetype it is held at (e.g. 'church'); absent means the town centre */
+  venue?: string;
+}
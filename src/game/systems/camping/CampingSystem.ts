@@ -109,7 +109,8 @@ export class CampingSystem {
         }
       }
 
-      clock.advanceHours(1, false);
+      // Hour by hour so clock listeners (quest timers) see the rested time
+      clock.advanceHours(1);
       hoursRested = hour + 1;
     }
 
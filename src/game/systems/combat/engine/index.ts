@@ -1,5 +1,11 @@
 export { MAX_LOG_ENTRIES, BASE_FLEE_CHANCE, FLEE_SPEED_BONUS } from './helpers';
-export { createPlayerCombatant, createEnemyCombatant, initializeCombat, calculateTurnOrder } from './init';
+export {
+  createPlayerCombatant,
+  createEnemyCombatant,
+  createAllyCombatant,
+  initializeCombat,
+  calculateTurnOrder,
+} from './init';
 export { getCurrentCombatant, advanceTurn, startNewRound } from './turns';
 export { processAction } from './actions';
 export { applyStatusEffects, checkCombatEnd, updateCombatPhase, calculateRewards } from './effects';
@@ -63,6 +63,35 @@ export function createEnemyCombatant(enemy: EnemyDefinition, index: number): Com
   };
 }
 
+/**
+ * A companion fighting on the player's side. Allies line up behind the
+ * player, opposite the enemies.
+ */
+export function createAllyCombatant(
+  allyId: string,
+  name: string,
+  stats: CombatStats,
+  weaponId: string | null,
+  index: number,
+  behavior?: Combatant['behavior']
+): Combatant {
+  return {
+    id: generateCombatantId(allyId, index),
+    definitionId: allyId,
+    name,
+    type: 'ally',
+    isPlayer: false,
+    stats: { ...stats },
+    statusEffects: [],
+    position: { q: -1 - index, r: 0 },
+    weaponId,
+    ammoInClip: 6,
+    isAlive: true,
+    hasActedThisTurn: false,
+    behavior,
+  };
+}
+
 export function initializeCombat(
   encounter: CombatEncounter,
   context: CombatInitContext,
@@ -96,6 +96,7 @@ export {
   FLEE_SPEED_BONUS,
   createPlayerCombatant,
   createEnemyCombatant,
+  createAllyCombatant,
   initializeCombat,
   calculateTurnOrder,
   getCurrentCombatant,
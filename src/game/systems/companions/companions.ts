@@ -0,0 +1,105 @@
+import type { DialogueNode, DialogueTree } from '../../data/schemas/npc';
+import { createAllyCombatant, type Combatant } from '../combat';
+import {
+  COMPANION_LEAVE_APPROVAL,
+  COMPANION_WARNING_APPROVAL,
+  COMPANIONS,
+  MAX_APPROVAL,
+} from './config';
+import type {
+  ApprovalEvent,
+  CarriedItem,
+  Companion,
+  CompanionBarkTrigger,
+  CompanionDefinition,
+  CompanionId,
+} from './types';
+
+export function isCompanionId(id: string): id is CompanionId {
+  return id in COMPANIONS;
+}
+
+export function getCompanionDefinition(id: string): CompanionDefinition | undefined {
+  return isCompanionId(id) ? COMPANIONS[id] : undefined;
+}
+
+export function createCompanion(id: CompanionId, day: number): Companion {
+  return { id, approval: COMPANIONS[id].startingApproval, recruitedDay: day };
+}
+
+/** How much a companion's approval moves over what the player just did */
+export function getApprovalChange(
+  definition: CompanionDefinition,
+  events: readonly ApprovalEvent[]
+): number {
+  return events.reduce((total, event) => total + (definition.opinions[event] ?? 0), 0);
+}
+
+/** The companion with their approval moved by `delta`, kept within 0-100 */
+export function changeApproval(companion: Companion, delta: number): Companion {
+  const approval = Math.min(MAX_APPROVAL, Math.max(0, companion.approval + delta));
+  return { ...companion, approval };
+}
+
+/** Whether a companion has had enough of the player */
+export function willLeave(approval: number): boolean {
+  return approval <= COMPANION_LEAVE_APPROVAL;
+}
+
+/** Whether a change from `before` to `after` takes a companion into warning territory */
+export function crossesWarning(before: number, after: number): boolean {
+  return before > COMPANION_WARNING_APPROVAL && after <= COMPANION_WARNING_APPROVAL;
+}
+
+/** A word for how a companion feels about the player */
+export function getApprovalMood(approval: number): string {
+  if (approval <= COMPANION_WARNING_APPROVAL) return 'Fed up';
+  if (approval < 50) return 'Wary';
+  if (approval < 75) return 'Easy';
+  return 'Loyal';
+}
+
+export function getCarriedWeight(items: readonly CarriedItem[]): number {
+  return items.reduce((total, item) => total + item.weight * item.quantity, 0);
+}
+
+/** Whether a companion can take `weight` more on top of what they carry */
+export function canCarry(
+  definition: CompanionDefinition,
+  items: readonly CarriedItem[],
+  weight: number
+): boolean {
+  return getCarriedWeight(items) + weight <= definition.carryCapacity;
+}
+
+/** The party as allies for a turn-based fight */
+export function getCompanionAllies(party: readonly Companion[]): Combatant[] {
+  return party.map((companion, index) => {
+    const definition = COMPANIONS[companion.id];
+    return createAllyCombatant(
+      definition.id,
+      definition.name,
+      definition.combat,
+      definition.weaponId,
+      index,
+      definition.behavior
+    );
+  });
+}
+
+/**
+ * Pick one of the lines in a companion's bark tree tagged for `trigger`.
+ * `isAvailable` checks a node's conditions, so a bark can depend on the
+ * hour, a flag or the player's standing like any other dialogue.
+ */
+export function pickCompanionBark(
+  tree: DialogueTree | undefined,
+  trigger: CompanionBarkTrigger,
+  isAvailable: (node: DialogueNode) => boolean,
+  roll: number
+): string | null {
+  if (!tree) return null;
+  const lines = tree.nodes.filter((node) => node.tags?.includes(trigger) && isAvailable(node));
+  if (lines.length === 0) return null;
+  return lines[Math.min(lines.length - 1, Math.floor(roll * lines.length))].text;
+}
@@ -0,0 +1,116 @@
+import type { CompanionDefinition, CompanionId } from './types';
+
+export const COMPANIONS: Record<CompanionId, CompanionDefinition> = {
+  doc_chen: {
+    id: 'doc_chen',
+    name: 'Doc Chen',
+    role: 'doctor',
+    description: 'Steady hands and a long memory. Hates needless killing more than he fears it.',
+    combat: {
+      hp: 70,
+      maxHP: 70,
+      attack: 6,
+      defense: 3,
+      speed: 9,
+      accuracy: 65,
+      evasion: 10,
+      critChance: 5,
+      critMultiplier: 1.5,
+    },
+    behavior: 'support',
+    weaponId: 'revolver',
+    marksmanship: 0.45,
+    carryCapacity: 30,
+    startingApproval: 55,
+    opinions: {
+      lawful: 2,
+      aggressive: -3,
+      confrontational: -2,
+      bribe: -2,
+      'crime:murder': -20,
+      'crime:assault': -8,
+      'crime:theft': -4,
+    },
+    dialogueTreeId: 'doc_chen_companion',
+    barkTreeId: 'doc_chen_barks',
+  },
+  diamondback: {
+    id: 'diamondback',
+    name: 'Diamondback',
+    role: 'gang_leader',
+    description: 'Quick, cold and sure of her aim. Has no love for the law or the company that owns it.',
+    combat: {
+      hp: 90,
+      maxHP: 90,
+      attack: 12,
+      defense: 4,
+      speed: 13,
+      accuracy: 80,
+      evasion: 15,
+      critChance: 15,
+      critMultiplier: 1.75,
+    },
+    behavior: 'aggressive',
+    weaponId: 'schofield',
+    marksmanship: 0.7,
+    carryCapacity: 25,
+    startingApproval: 45,
+    opinions: {
+      lawful: -2,
+      aggressive: 3,
+      confrontational: 2,
+      bribe: 1,
+      'crime:theft': 1,
+      'crime:murder': -6,
+    },
+    dialogueTreeId: 'diamondback_companion',
+    barkTreeId: 'diamondback_barks',
+  },
+  samuel_ironpick: {
+    id: 'samuel_ironpick',
+    name: 'Samuel',
+    role: 'miner',
+    description: 'Old and slow, but strong as a mule, and his scattergun settles arguments.',
+    combat: {
+      hp: 120,
+      maxHP: 120,
+      attack: 10,
+      defense: 8,
+      speed: 6,
+      accuracy: 60,
+      evasion: 5,
+      critChance: 5,
+      critMultiplier: 1.5,
+    },
+    behavior: 'defensive',
+    weaponId: 'shotgun',
+    marksmanship: 0.55,
+    carryCapacity: 60,
+    startingApproval: 50,
+    opinions: {
+      lawful: 1,
+      aggressive: -2,
+      bribe: -3,
+      'crime:murder': -15,
+      'crime:assault': -5,
+      'crime:theft': -6,
+    },
+    dialogueTreeId: 'samuel_ironpick_companion',
+    barkTreeId: 'samuel_ironpick_barks',
+  },
+};
+
+/** Most companions who'll ride with the player at once */
+export const MAX_PARTY_SIZE = 2;
+
+/** Approval runs from 0 to this */
+export const MAX_APPROVAL = 100;
+
+/** Companions at or below this approval quit the party for good */
+export const COMPANION_LEAVE_APPROVAL = 20;
+
+/** Falling to this approval earns the player a warning */
+export const COMPANION_WARNING_APPROVAL = 35;
+
+/** Flag a recruit conversation raises when the companion agrees to come along */
+export const COMPANION_JOINED_FLAG = 'companion_joined';
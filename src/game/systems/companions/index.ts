@@ -0,0 +1,32 @@
+export type {
+  ApprovalEvent,
+  CarriedItem,
+  Companion,
+  CompanionBarkTrigger,
+  CompanionDefinition,
+  CompanionId,
+} from './types';
+
+export {
+  COMPANIONS,
+  MAX_PARTY_SIZE,
+  MAX_APPROVAL,
+  COMPANION_LEAVE_APPROVAL,
+  COMPANION_WARNING_APPROVAL,
+  COMPANION_JOINED_FLAG,
+} from './config';
+
+export {
+  isCompanionId,
+  getCompanionDefinition,
+  createCompanion,
+  getApprovalChange,
+  changeApproval,
+  willLeave,
+  crossesWarning,
+  getApprovalMood,
+  getCarriedWeight,
+  canCarry,
+  getCompanionAllies,
+  pickCompanionBark,
+} from './companions';
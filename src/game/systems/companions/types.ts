@@ -0,0 +1,70 @@
+/**
+ * Companion types - Who can ride with the player and what they think of them
+ *
+ * @module systems/companions/types
+ */
+
+import type { CombatStats } from '../combat';
+
+export type CompanionId = 'doc_chen' | 'diamondback' | 'samuel_ironpick';
+
+/** Moments a companion may speak up about; bark tree nodes are tagged with one */
+export type CompanionBarkTrigger =
+  | 'recruited'
+  | 'dismissed'
+  | 'town'
+  | 'wilderness'
+  | 'approve'
+  | 'disapprove'
+  | 'warning'
+  | 'leaving';
+
+/**
+ * Something the player did that a companion may have an opinion on: a tag
+ * from the dialogue choice they picked (`lawful`, `aggressive`, `bribe`...)
+ * or `crime:<type>` for a crime committed in front of them.
+ */
+export type ApprovalEvent = string;
+
+export interface CompanionDefinition {
+  /** Id of the NPC who joins */
+  id: CompanionId;
+  /** Name used in barks and notifications */
+  name: string;
+  /** NPC role, for their look */
+  role: string;
+  description: string;
+  /** Stats they bring to a turn-based fight */
+  combat: CombatStats;
+  /** How they fight when the turn-based AI plays them */
+  behavior: 'aggressive' | 'defensive' | 'ranged' | 'support';
+  /** Weapon they carry in both combat loops */
+  weaponId: string;
+  /** Chance (0-1) an FPS shot lands at point blank, falling off with range */
+  marksmanship: number;
+  /** Weight they'll carry for the player */
+  carryCapacity: number;
+  /** Approval (0-100) on the day they join */
+  startingApproval: number;
+  /** Approval change per event they care about */
+  opinions: Record<ApprovalEvent, number>;
+  /** Tree spoken when the player talks to them on the road */
+  dialogueTreeId: string;
+  /** Tree their barks are drawn from, one node per line */
+  barkTreeId: string;
+}
+
+/** A companion riding with the player */
+export interface Companion {
+  id: CompanionId;
+  /** 0-100; at or below the leave threshold they quit the party */
+  approval: number;
+  /** Game day they joined */
+  recruitedDay: number;
+}
+
+/** Anything with a weight, stacked */
+export interface CarriedItem {
+  weight: number;
+  quantity: number;
+}
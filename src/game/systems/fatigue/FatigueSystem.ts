@@ -82,12 +82,13 @@ export class FatigueSystem {
     return this.getEffects().isVulnerable;
   }
 
-  applyTravelFatigue(realMinutes: number, isNight = false): void {
+  /** `exposure` scales the whole of it, e.g. for travelling in the heat or cold. */
+  applyTravelFatigue(realMinutes: number, isNight = false, exposure = 1): void {
     let fatigue = realMinutes * this.config.rates.travel;
     if (isNight) {
       fatigue += realMinutes * this.config.rates.nightPenalty;
     }
-    this.addFatigue(fatigue);
+    this.addFatigue(fatigue * exposure);
   }
 
   applyCombatFatigue(realMinutes = 1): void {
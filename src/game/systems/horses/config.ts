@@ -0,0 +1,86 @@
+import type { HorseBreed, HorseBreedId } from './types';
+
+export const HORSE_BREEDS: Record<HorseBreedId, HorseBreed> = {
+  mustang: {
+    id: 'mustang',
+    name: 'Mustang',
+    description: 'Half-wild and cheap. Hardy, but skittish under fire.',
+    price: 120,
+    maxHealth: 80,
+    maxStamina: 100,
+    gallopSpeed: 13,
+    travelSpeed: 1.5,
+    saddlebagCapacity: 25,
+    spookChance: 0.15,
+    coat: '#8B5A2B',
+  },
+  quarter_horse: {
+    id: 'quarter_horse',
+    name: 'Quarter Horse',
+    description: 'The fastest thing on four legs over a short run.',
+    price: 200,
+    maxHealth: 100,
+    maxStamina: 90,
+    gallopSpeed: 15,
+    travelSpeed: 1.6,
+    saddlebagCapacity: 30,
+    spookChance: 0.1,
+    coat: '#6B3E26',
+  },
+  appaloosa: {
+    id: 'appaloosa',
+    name: 'Appaloosa',
+    description: 'Spotted and sure-footed, with the wind to gallop all day.',
+    price: 260,
+    maxHealth: 100,
+    maxStamina: 130,
+    gallopSpeed: 13.5,
+    travelSpeed: 1.7,
+    saddlebagCapacity: 35,
+    spookChance: 0.08,
+    coat: '#D8CFC0',
+  },
+  percheron: {
+    id: 'percheron',
+    name: 'Percheron',
+    description: 'A draft horse. Slow, steady, and carries a wagon-load.',
+    price: 300,
+    maxHealth: 140,
+    maxStamina: 120,
+    gallopSpeed: 11,
+    travelSpeed: 1.4,
+    saddlebagCapacity: 60,
+    spookChance: 0.04,
+    coat: '#3A3A3A',
+  },
+};
+
+/** Walking pace of any horse (m/s) */
+export const HORSE_WALK_SPEED = 3;
+
+/** A trot is this fraction of the horse's gallop */
+export const TROT_FACTOR = 0.55;
+
+/** Seconds of gallop a fresh horse has in it, before breed stamina */
+export const GALLOP_SECONDS = 12;
+
+/** Stamina recovered per second at a walk */
+export const HORSE_RECOVERY = 5;
+
+/** What a pair of saddlebags costs at the livery */
+export const SADDLEBAGS_PRICE = 40;
+
+/** Gold per day (or part of one) a livery charges to stable a horse */
+export const STABLE_FEE_PER_DAY = 2;
+
+/** How close the player must be to their horse to mount it (m) */
+export const MOUNT_RANGE = 3;
+
+/** Share of the damage a rider takes that their horse takes too */
+export const HORSE_DAMAGE_SHARE = 0.5;
+
+/** Damage the player takes when a spooked horse throws them */
+export const THROWN_DAMAGE = 8;
+
+/** Building archetype whose doors lead to the livery */
+export const LIVERY_ARCHETYPE_ID = 'livery';
@@ -0,0 +1,82 @@
+/**
+ * Horses - Breeds, what a horse is good for in the saddle and on the road,
+ * and what it costs to keep one at the livery.
+ *
+ * @module systems/horses/horses
+ */
+
+import type { MountStats } from '../../engine/physics';
+import {
+  GALLOP_SECONDS,
+  HORSE_BREEDS,
+  HORSE_RECOVERY,
+  HORSE_WALK_SPEED,
+  STABLE_FEE_PER_DAY,
+  TROT_FACTOR,
+} from './config';
+import type { Horse, HorseBreed, HorseBreedId } from './types';
+
+export function getHorseBreed(breedId: string): HorseBreed | undefined {
+  return HORSE_BREEDS[breedId as HorseBreedId];
+}
+
+export function isHorseBreed(breedId: string): breedId is HorseBreedId {
+  return breedId in HORSE_BREEDS;
+}
+
+/** A fresh horse of `breedId`, stabled at `townId` from `day`. */
+export function createHorse(
+  id: string,
+  breedId: HorseBreedId,
+  townId: string,
+  day: number
+): Horse {
+  const breed = HORSE_BREEDS[breedId];
+  return {
+    id,
+    breedId,
+    name: breed.name,
+    health: breed.maxHealth,
+    stamina: breed.maxStamina,
+    saddlebags: false,
+    stabledAt: townId,
+    stabledDay: day,
+  };
+}
+
+/** Gaits and wind the PlayerController rides the horse with. */
+export function getMountStats(horse: Horse): MountStats {
+  const breed = HORSE_BREEDS[horse.breedId];
+  return {
+    speeds: {
+      walk: HORSE_WALK_SPEED,
+      trot: breed.gallopSpeed * TROT_FACTOR,
+      gallop: breed.gallopSpeed,
+    },
+    maxStamina: breed.maxStamina,
+    gallopDrain: breed.maxStamina / GALLOP_SECONDS,
+    recovery: HORSE_RECOVERY,
+  };
+}
+
+/** Carry weight the horse's saddlebags add. */
+export function getSaddlebagCapacity(horse: Horse | null | undefined): number {
+  if (!horse?.saddlebags) return 0;
+  return HORSE_BREEDS[horse.breedId].saddlebagCapacity;
+}
+
+/** Overland pace with the horse along, relative to going on foot. */
+export function getHorseTravelSpeed(horse: Horse | null | undefined): number {
+  return horse ? HORSE_BREEDS[horse.breedId].travelSpeed : 1;
+}
+
+/** Livery's bill for a horse stabled since `stabledDay`; the first day is free. */
+export function getStableFee(horse: Horse, day: number): number {
+  return Math.max(0, day - horse.stabledDay) * STABLE_FEE_PER_DAY;
+}
+
+/** A stabled horse is fed, rested and tended back to full health. */
+export function restHorse(horse: Horse): Horse {
+  const breed = HORSE_BREEDS[horse.breedId];
+  return { ...horse, health: breed.maxHealth, stamina: breed.maxStamina };
+}
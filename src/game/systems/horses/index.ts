@@ -0,0 +1,24 @@
+export type { HorseBreedId, HorseBreed, Horse } from './types';
+
+export {
+  HORSE_BREEDS,
+  HORSE_WALK_SPEED,
+  TROT_FACTOR,
+  SADDLEBAGS_PRICE,
+  STABLE_FEE_PER_DAY,
+  MOUNT_RANGE,
+  HORSE_DAMAGE_SHARE,
+  THROWN_DAMAGE,
+  LIVERY_ARCHETYPE_ID,
+} from './config';
+
+export {
+  getHorseBreed,
+  isHorseBreed,
+  createHorse,
+  getMountStats,
+  getSaddlebagCapacity,
+  getHorseTravelSpeed,
+  getStableFee,
+  restHorse,
+} from './horses';
@@ -0,0 +1,36 @@
+export type HorseBreedId = 'mustang' | 'quarter_horse' | 'appaloosa' | 'percheron';
+
+export interface HorseBreed {
+  id: HorseBreedId;
+  name: string;
+  description: string;
+  /** Price at a livery (gold) */
+  price: number;
+  maxHealth: number;
+  maxStamina: number;
+  /** Ground speed at a full gallop (m/s) */
+  gallopSpeed: number;
+  /** Overland travel pace relative to going on foot */
+  travelSpeed: number;
+  /** Carry weight a pair of saddlebags adds on this horse */
+  saddlebagCapacity: number;
+  /** Chance each hit the horse takes under its rider spooks it */
+  spookChance: number;
+  /** Coat colour for the model */
+  coat: string;
+}
+
+/** A horse the player owns */
+export interface Horse {
+  id: string;
+  breedId: HorseBreedId;
+  name: string;
+  health: number;
+  stamina: number;
+  /** Whether it wears saddlebags */
+  saddlebags: boolean;
+  /** Town whose livery is stabling it, or null while it's with the player */
+  stabledAt: string | null;
+  /** Clock day it was left at the livery */
+  stabledDay: number;
+}
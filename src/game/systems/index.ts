@@ -8,14 +8,14 @@
  * @module systems
  */
 
-// Survival: time, fatigue, provisions, camping, survivalStore
+// Survival: time, calendar, fatigue, provisions, camping, survivalStore
 export * from './survival.barrel.ts';
 
-// World: encounters, travel, save, spatial, zones, collisions, boundaries
+// World: encounters, travel, save, spatial, zones, collisions, boundaries, weather
 export * from './world.barrel.ts';
 
-// Quest & Dialogue: events, wiring, markers, dialogue bridge
+// Quest & Dialogue: events, wiring, markers, dialogue bridge, bounty board
 export * from './quest.barrel.ts';
 
-// NPC & Interaction: interaction, interior, schedule, movement, doors
+// NPC & Interaction: interaction, interior, schedule, movement, doors, reputation, law, barks, subtitles
 export * from './npc.barrel.ts';
@@ -0,0 +1,134 @@
+/**
+ * Bounty ledger - The price on the player's head in each town.
+ *
+ * Every witnessed crime adds to the bounty in the town it happened in.
+ * Company towns share warrants, so a bounty in one IVRC town stands in
+ * them all. Bounties fade day by day; murder makes lawmen shoot on sight
+ * until the player has kept out of trouble for a few days.
+ *
+ * @module systems/law/bounty
+ */
+
+import {
+  ATTACK_BOUNTY,
+  BOUNTY_DECAY_PER_DAY,
+  BRIBE_RATES,
+  CONFRONT_BOUNTY,
+  HOSTILE_COOLDOWN_DAYS,
+  JAIL_HOURS_PER_DOLLAR,
+  LAW_SEVERITY,
+  MAX_JAIL_HOURS,
+  MIN_BOUNTY,
+  MIN_JAIL_HOURS,
+  SETTLE_METHODS,
+  SHARED_WARRANT_FACTIONS,
+} from './config';
+import type {
+  Bounty,
+  BountyLedger,
+  Jurisdiction,
+  LawLevel,
+  LawResponse,
+  SettleMethod,
+  WantedStatus,
+} from './types';
+
+/** Add `amount` to the bounty in the jurisdiction's town. */
+export function addBounty(
+  ledger: BountyLedger,
+  jurisdiction: Jurisdiction,
+  amount: number,
+  day: number,
+  hostile = false
+): BountyLedger {
+  const previous = ledger[jurisdiction.townId];
+  return {
+    ...ledger,
+    [jurisdiction.townId]: {
+      ...jurisdiction,
+      amount: (previous?.amount ?? 0) + amount,
+      hostile: (previous?.hostile ?? false) || hostile,
+      lastCrimeDay: day,
+      lastDecayDay: previous?.lastDecayDay ?? day,
+    },
+  };
+}
+
+/** The bounties lawmen in a town act on: its own, plus shared company warrants. */
+export function getWarrants(ledger: BountyLedger, jurisdiction: Jurisdiction): Bounty[] {
+  const shared = SHARED_WARRANT_FACTIONS.includes(jurisdiction.faction);
+  return Object.values(ledger).filter(
+    (bounty) =>
+      bounty.townId === jurisdiction.townId || (shared && bounty.faction === jurisdiction.faction)
+  );
+}
+
+export function getWantedStatus(ledger: BountyLedger, jurisdiction: Jurisdiction): WantedStatus {
+  const warrants = getWarrants(ledger, jurisdiction);
+  return {
+    amount: warrants.reduce((sum, bounty) => sum + bounty.amount, 0),
+    hostile: warrants.some((bounty) => bounty.hostile),
+  };
+}
+
+/** Drop every warrant that applies in the jurisdiction's town. */
+export function clearWarrants(ledger: BountyLedger, jurisdiction: Jurisdiction): BountyLedger {
+  const cleared = new Set(getWarrants(ledger, jurisdiction).map((bounty) => bounty.townId));
+  return Object.fromEntries(
+    Object.entries(ledger).filter(([townId]) => !cleared.has(townId))
+  );
+}
+
+/** Resisting arrest: lawmen answering to the jurisdiction open fire. */
+export function markHostile(
+  ledger: BountyLedger,
+  jurisdiction: Jurisdiction,
+  day: number
+): BountyLedger {
+  const next = { ...ledger };
+  for (const bounty of getWarrants(ledger, jurisdiction)) {
+    next[bounty.townId] = { ...bounty, hostile: true, lastCrimeDay: day };
+  }
+  return next;
+}
+
+/** Fade each bounty for the days since it last faded, dropping small ones. */
+export function decayBounties(ledger: BountyLedger, day: number): BountyLedger {
+  const next: BountyLedger = {};
+  for (const bounty of Object.values(ledger)) {
+    const days = Math.max(0, day - bounty.lastDecayDay);
+    const amount = Math.floor(bounty.amount * (1 - BOUNTY_DECAY_PER_DAY) ** days);
+    if (amount < MIN_BOUNTY) continue;
+    next[bounty.townId] = {
+      ...bounty,
+      amount,
+      hostile: bounty.hostile && day - bounty.lastCrimeDay < HOSTILE_COOLDOWN_DAYS,
+      lastDecayDay: Math.max(day, bounty.lastDecayDay),
+    };
+  }
+  return next;
+}
+
+/** What lawmen do on seeing a player with this status. */
+export function getLawResponse(status: WantedStatus, lawLevel: LawLevel): LawResponse {
+  // Nobody enforces anything in a lawless town
+  if (status.amount <= 0 || LAW_SEVERITY[lawLevel] === 0) return 'none';
+  if (status.hostile || status.amount >= ATTACK_BOUNTY[lawLevel]) return 'attack';
+  if (status.amount >= CONFRONT_BOUNTY[lawLevel]) return 'confront';
+  return 'none';
+}
+
+/** Hours behind bars that work off a bounty. */
+export function getJailHours(amount: number): number {
+  return Math.min(MAX_JAIL_HOURS, Math.max(MIN_JAIL_HOURS, Math.round(amount * JAIL_HOURS_PER_DOLLAR)));
+}
+
+/** What it takes to make a lawman look away, or null where they can't be bought. */
+export function getBribeCost(amount: number, lawLevel: LawLevel): number | null {
+  const rate = BRIBE_RATES[lawLevel];
+  return rate === null ? null : Math.ceil(amount * rate);
+}
+
+export function isSettleMethod(value: unknown): value is SettleMethod {
+  return SETTLE_METHODS.includes(value as SettleMethod);
+}
@@ -0,0 +1,169 @@
+import type { ReputationFaction } from '../reputation';
+import type { CrimeType, LawLevel, SettleMethod } from './types';
+
+/** Base bounty for each crime before the town's law level is applied */
+export const CRIME_BOUNTIES: Record<CrimeType, number> = {
+  trespass: 10,
+  theft: 25,
+  assault: 40,
+  murder: 250,
+};
+
+export const CRIME_LABELS: Record<CrimeType, string> = {
+  trespass: 'Trespassing',
+  theft: 'Theft',
+  assault: 'Assault',
+  murder: 'Murder',
+};
+
+/** Reputation lost with the town's law faction when a crime is witnessed */
+export const CRIME_REPUTATION: Record<CrimeType, number> = {
+  trespass: -2,
+  theft: -5,
+  assault: -8,
+  murder: -20,
+};
+
+/** Crimes that put lawmen straight to shooting */
+export const HOSTILE_CRIMES: CrimeType[] = ['murder'];
+
+/** Gunfire carries; these are heard as well as seen */
+export const LOUD_CRIMES: CrimeType[] = ['assault', 'murder'];
+
+/** Bounty multiplier; lawless towns have nobody to report to */
+export const LAW_SEVERITY: Record<LawLevel, number> = {
+  lawless: 0,
+  frontier: 1,
+  orderly: 1.25,
+  strict: 1.5,
+};
+
+/** Who keeps order in each town; anywhere else it's the townsfolk */
+export const TOWN_LAW_FACTIONS: Record<string, ReputationFaction> = {
+  junction_city: 'ivrc',
+  coppertown: 'ivrc',
+  thornwood_station: 'ivrc',
+  prospect: 'freeminer',
+  freeminer_hollow: 'freeminer',
+};
+
+/** Company towns share wanted posters; a bounty in one stands in all */
+export const SHARED_WARRANT_FACTIONS: ReputationFaction[] = ['ivrc'];
+
+// ============================================================================
+// WITNESSES
+// ============================================================================
+
+/** How far a townsperson can make out a crime in clear daylight (m) */
+export const WITNESS_SIGHT_RANGE = 25;
+
+/** Half-angle of a townsperson's view (radians) */
+export const WITNESS_HALF_FOV = Math.PI / 3;
+
+/** Close enough to notice whichever way they're facing (m) */
+export const WITNESS_NOTICE_RANGE = 4;
+
+/** How far gunfire draws attention, through walls included (m) */
+export const WITNESS_HEARING_RANGE = 35;
+
+/** Sight range left after dark */
+export const NIGHT_SIGHT_MULTIPLIER = 0.5;
+
+export const LAWMAN_ROLES = ['sheriff', 'deputy'];
+
+// ============================================================================
+// BOUNTIES AND THE LAW'S RESPONSE
+// ============================================================================
+
+/** Share of each bounty forgotten per day */
+export const BOUNTY_DECAY_PER_DAY = 0.1;
+
+/** Bounties below this are dropped */
+export const MIN_BOUNTY = 5;
+
+/** Days without a new crime before lawmen stop shooting on sight */
+export const HOSTILE_COOLDOWN_DAYS = 3;
+
+/** Bounty at which lawmen stop the player, by law level */
+export const CONFRONT_BOUNTY: Record<LawLevel, number> = {
+  lawless: Number.POSITIVE_INFINITY,
+  frontier: 25,
+  orderly: 15,
+  strict: 10,
+};
+
+/** Bounty at which lawmen open fire, by law level */
+export const ATTACK_BOUNTY: Record<LawLevel, number> = {
+  lawless: Number.POSITIVE_INFINITY,
+  frontier: 400,
+  orderly: 300,
+  strict: 200,
+};
+
+/** How close a lawman comes before calling the player over (m) */
+export const CONFRONT_RANGE = 12;
+
+/** Real seconds before a lawman who was walked away from tries again */
+export const CONFRONT_COOLDOWN = 45;
+
+/** Jail time per dollar of bounty, and its bounds (hours) */
+export const JAIL_HOURS_PER_DOLLAR = 0.2;
+export const MIN_JAIL_HOURS = 4;
+export const MAX_JAIL_HOURS = 24 * 7;
+
+/** Share of the bounty a lawman takes to look away; null where they won't */
+export const BRIBE_RATES: Record<LawLevel, number | null> = {
+  lawless: null,
+  frontier: 0.5,
+  orderly: null,
+  strict: 0.75,
+};
+
+export const SETTLE_METHODS: SettleMethod[] = ['fine', 'jail', 'bribe'];
+
+/** Dialogue tree lawmen use to settle a bounty */
+export const LAW_DIALOGUE_ID = 'law_confrontation';
+
+/** Conversation flag raised once a settle_bounty effect succeeds */
+export const BOUNTY_SETTLED_FLAG = 'bounty_settled';
+
+/** Riders sent after a hostile player, by law level */
+export const POSSE_SIZE: Record<LawLevel, number> = {
+  lawless: 0,
+  frontier: 2,
+  orderly: 3,
+  strict: 4,
+};
+
+/** Enemy config the posse fights with */
+export const POSSE_CONFIG_ID = 'ivrc_guard';
+
+export const POSSE_ID_PREFIX = 'posse-';
+
+/** Health of a townsperson under fire */
+export const TOWNSFOLK_HEALTH = 100;
+
+// ============================================================================
+// BUILDINGS
+// ============================================================================
+
+/**
+ * Opening hours by archetype. Hours may wrap past midnight; archetypes not
+ * listed never close.
+ */
+export const BUSINESS_HOURS: Record<string, [number, number]> = {
+  general_store: [7, 19],
+  bank: [9, 16],
+  saloon: [10, 2],
+  blacksmith: [7, 18],
+  doctor_office: [8, 20],
+  newspaper: [8, 18],
+  mining_office: [6, 18],
+  telegraph_office: [7, 19],
+  undertaker: [8, 18],
+  barber: [8, 18],
+  church: [6, 21],
+};
+
+/** Homes, closed to strangers at any hour */
+export const PRIVATE_BUILDINGS = ['house_small', 'house_large'];
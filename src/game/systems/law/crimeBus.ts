@@ -0,0 +1,35 @@
+/**
+ * CrimeBus - Carries the player's crimes from wherever they happen (a
+ * forced lock, a door, a gunshot) to the town's witnesses.
+ *
+ * @module systems/law/crimeBus
+ */
+
+import type { Crime } from './types';
+
+export type CrimeListener = (crime: Crime) => void;
+
+export class CrimeBus {
+  private listeners = new Set<CrimeListener>();
+
+  /** Tell every subscriber about a crime. */
+  emit(crime: Crime): void {
+    for (const listener of this.listeners) listener(crime);
+  }
+
+  /** Subscribe to crimes as they happen. Returns an unsubscribe function. */
+  subscribe(listener: CrimeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Drop all listeners (useful for cleanup/tests). */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
+
+/** Global crime bus. */
+export const crimeBus = new CrimeBus();
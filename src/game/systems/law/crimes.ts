@@ -0,0 +1,73 @@
+/**
+ * Crimes - What the player's misdeeds are worth to the law, where and when a
+ * building counts as closed, and what shooting a townsperson amounts to.
+ *
+ * @module systems/law/crimes
+ */
+
+import { questEvents } from '../QuestEvents';
+import {
+  BUSINESS_HOURS,
+  CRIME_BOUNTIES,
+  LAW_SEVERITY,
+  PRIVATE_BUILDINGS,
+  TOWN_LAW_FACTIONS,
+  TOWNSFOLK_HEALTH,
+} from './config';
+import { crimeBus } from './crimeBus';
+import type { Crime, Jurisdiction, LawLevel } from './types';
+
+/** The law in town `townId`. */
+export function getJurisdiction(
+  townId: string,
+  lawLevel: LawLevel = 'frontier',
+  townName: string = townId
+): Jurisdiction {
+  return {
+    townId,
+    townName,
+    lawLevel,
+    faction: TOWN_LAW_FACTIONS[townId] ?? 'townsfolk',
+  };
+}
+
+/** Bounty a witnessed crime carries in a town of the given law level. */
+export function getCrimeBounty(crime: Crime, lawLevel: LawLevel): number {
+  const base = CRIME_BOUNTIES[crime.type] + (crime.type === 'theft' ? (crime.value ?? 0) : 0);
+  return Math.round(base * LAW_SEVERITY[lawLevel]);
+}
+
+/** Whether walking into a building of `archetypeId` at `hour` is trespassing. */
+export function isBuildingClosed(archetypeId: string, hour: number): boolean {
+  if (PRIVATE_BUILDINGS.includes(archetypeId)) return true;
+  const hours = BUSINESS_HOURS[archetypeId];
+  if (!hours) return false;
+  const [open, close] = hours;
+  const h = ((hour % 24) + 24) % 24;
+  return open < close ? h < open || h >= close : h < open && h >= close;
+}
+
+/**
+ * Count a gunshot that struck townsperson `hit.npcId`, who dies once
+ * `damageTaken` reaches TOWNSFOLK_HEALTH. The first hit is an assault and the
+ * last a murder, which also ends any quest that needed them alive. Returns
+ * true if this hit killed them.
+ */
+export function recordTownsfolkHit(
+  damageTaken: Map<string, number>,
+  hit: { npcId: string; damage: number; position: { x: number; y: number; z: number } }
+): boolean {
+  const before = damageTaken.get(hit.npcId) ?? 0;
+  if (before >= TOWNSFOLK_HEALTH) return false;
+  const taken = before + hit.damage;
+  damageTaken.set(hit.npcId, taken);
+  if (taken >= TOWNSFOLK_HEALTH) {
+    crimeBus.emit({ type: 'murder', position: hit.position, victimId: hit.npcId });
+    questEvents.emit('npcDied', { npcId: hit.npcId });
+    return true;
+  }
+  if (before === 0) {
+    crimeBus.emit({ type: 'assault', position: hit.position, victimId: hit.npcId });
+  }
+  return false;
+}
@@ -0,0 +1,51 @@
+export type {
+  LawLevel,
+  CrimeType,
+  Crime,
+  Jurisdiction,
+  WitnessCandidate,
+  WitnessConditions,
+  Bounty,
+  BountyLedger,
+  WantedStatus,
+  LawResponse,
+  SettleMethod,
+} from './types';
+
+export {
+  CRIME_BOUNTIES,
+  CRIME_LABELS,
+  CRIME_REPUTATION,
+  HOSTILE_CRIMES,
+  LAW_SEVERITY,
+  TOWN_LAW_FACTIONS,
+  CONFRONT_RANGE,
+  CONFRONT_COOLDOWN,
+  SETTLE_METHODS,
+  LAW_DIALOGUE_ID,
+  BOUNTY_SETTLED_FLAG,
+  POSSE_SIZE,
+  POSSE_CONFIG_ID,
+  POSSE_ID_PREFIX,
+  TOWNSFOLK_HEALTH,
+  BUSINESS_HOURS,
+} from './config';
+
+export { getJurisdiction, getCrimeBounty, isBuildingClosed, recordTownsfolkHit } from './crimes';
+
+export { isLawman, canSee, findWitnesses } from './witnesses';
+
+export {
+  addBounty,
+  getWarrants,
+  getWantedStatus,
+  clearWarrants,
+  markHostile,
+  decayBounties,
+  getLawResponse,
+  getJailHours,
+  getBribeCost,
+  isSettleMethod,
+} from './bounty';
+
+export { CrimeBus, crimeBus, type CrimeListener } from './crimeBus';
@@ -0,0 +1,71 @@
+import type { ReputationFaction } from '../reputation';
+
+type Vec3 = { x: number; y: number; z: number };
+
+/** How hard a town enforces its laws (LocationSchema atmosphere.lawLevel) */
+export type LawLevel = 'lawless' | 'frontier' | 'orderly' | 'strict';
+
+export type CrimeType = 'theft' | 'assault' | 'murder' | 'trespass';
+
+/** Something the player did that the law would want to hear about */
+export interface Crime {
+  type: CrimeType;
+  /** Where it happened */
+  position: Vec3;
+  /** Gold taken, for thefts */
+  value?: number;
+  /** NPC harmed, who can't be a witness to it */
+  victimId?: string;
+}
+
+/** The town whose law a crime falls under */
+export interface Jurisdiction {
+  townId: string;
+  townName: string;
+  lawLevel: LawLevel;
+  /** Faction whose lawmen keep order there */
+  faction: ReputationFaction;
+}
+
+/** A townsperson who might see or hear a crime */
+export interface WitnessCandidate {
+  id: string;
+  position: Vec3;
+  /** Facing around Y, atan2(dx, dz) like NPCMovementState */
+  facingYaw: number;
+  isIndoors: boolean;
+  isAsleep: boolean;
+  isLawman: boolean;
+}
+
+/** Conditions that limit how far witnesses can see */
+export interface WitnessConditions {
+  /** Weather visibility, 0-1 */
+  visibility: number;
+  isNight: boolean;
+}
+
+/** The price on the player's head in one town */
+export interface Bounty extends Jurisdiction {
+  amount: number;
+  /** Lawmen shoot on sight rather than make an arrest */
+  hostile: boolean;
+  lastCrimeDay: number;
+  /** Clock day decay was last applied */
+  lastDecayDay: number;
+}
+
+/** Bounties keyed by town id */
+export type BountyLedger = Record<string, Bounty>;
+
+/** The player's wanted status in one town, counting shared warrants */
+export interface WantedStatus {
+  amount: number;
+  hostile: boolean;
+}
+
+/** What the law does on seeing the player */
+export type LawResponse = 'none' | 'confront' | 'attack';
+
+/** Ways to clear a bounty with the law */
+export type SettleMethod = 'fine' | 'jail' | 'bribe';
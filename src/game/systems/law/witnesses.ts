@@ -0,0 +1,70 @@
+/**
+ * Witnesses - Which townsfolk see or hear a crime.
+ *
+ * A townsperson sees what happens in front of them within sight range
+ * (shortened by night and weather), notices anything right beside them,
+ * and hears gunfire from further off even indoors. Sleepers see nothing,
+ * though gunfire wakes them.
+ *
+ * @module systems/law/witnesses
+ */
+
+import {
+  LAWMAN_ROLES,
+  LOUD_CRIMES,
+  NIGHT_SIGHT_MULTIPLIER,
+  WITNESS_HALF_FOV,
+  WITNESS_HEARING_RANGE,
+  WITNESS_NOTICE_RANGE,
+  WITNESS_SIGHT_RANGE,
+} from './config';
+import type { Crime, WitnessCandidate, WitnessConditions } from './types';
+
+type Vec3 = { x: number; y: number; z: number };
+
+export function isLawman(role: string): boolean {
+  return LAWMAN_ROLES.includes(role);
+}
+
+/** Whether `candidate` can see `position`. */
+export function canSee(
+  candidate: WitnessCandidate,
+  position: Vec3,
+  conditions: WitnessConditions
+): boolean {
+  if (candidate.isAsleep || candidate.isIndoors) return false;
+
+  const dx = position.x - candidate.position.x;
+  const dz = position.z - candidate.position.z;
+  const dist = Math.sqrt(dx * dx + dz * dz);
+  if (dist <= WITNESS_NOTICE_RANGE) return true;
+
+  const range =
+    WITNESS_SIGHT_RANGE *
+    Math.max(0, Math.min(1, conditions.visibility)) *
+    (conditions.isNight ? NIGHT_SIGHT_MULTIPLIER : 1);
+  if (dist > range) return false;
+
+  let offset = Math.atan2(dx, dz) - candidate.facingYaw;
+  offset = Math.atan2(Math.sin(offset), Math.cos(offset));
+  return Math.abs(offset) <= WITNESS_HALF_FOV;
+}
+
+/** Ids of the candidates who witness `crime`; victims don't count. */
+export function findWitnesses(
+  crime: Crime,
+  candidates: readonly WitnessCandidate[],
+  conditions: WitnessConditions
+): string[] {
+  const loud = LOUD_CRIMES.includes(crime.type);
+  return candidates
+    .filter((candidate) => {
+      if (candidate.id === crime.victimId) return false;
+      if (canSee(candidate, crime.position, conditions)) return true;
+      if (!loud) return false;
+      const dx = crime.position.x - candidate.position.x;
+      const dz = crime.position.z - candidate.position.z;
+      return dx * dx + dz * dz <= WITNESS_HEARING_RANGE * WITNESS_HEARING_RANGE;
+    })
+    .map((candidate) => candidate.id);
+}
@@ -3,7 +3,8 @@
  *
  * Re-exports NPC, interaction, and interior systems:
  * InteractionSystem, InteriorManager, NPCScheduleResolver,
- * NPCMovementSystem, DoorSystem
+ * NPCMovementSystem, DoorSystem, faction reputation, crime and bounties,
+ * ambient barks, subtitles, companions
  *
  * @module systems/npc
  */
@@ -60,3 +61,89 @@ export {
   type DoorState,
   type DoorChangeCallback,
 } from '../engine/interiors/DoorSystem';
+
+// Faction Reputation (per-faction ledger, standing tiers, ripples)
+export {
+  applyReputationChange,
+  getFactionReputation,
+  getStandingTier,
+  normalizeFactionReputation,
+  resolveDialogueFaction,
+  resolveReputationFaction,
+  DEFAULT_FACTION_REPUTATION,
+  FACTION_DISPLAY_NAMES,
+  REPUTATION_FACTIONS,
+  REPUTATION_RIPPLES,
+  STANDING_TIERS,
+  type FactionReputation,
+  type ReputationChange,
+  type ReputationFaction,
+  type StandingTier,
+} from './reputation';
+
+// Law (crimes, witnesses, town bounties)
+export {
+  getJurisdiction,
+  getCrimeBounty,
+  isBuildingClosed,
+  isLawman,
+  canSee,
+  findWitnesses,
+  addBounty,
+  getWantedStatus,
+  clearWarrants,
+  decayBounties,
+  getLawResponse,
+  getJailHours,
+  getBribeCost,
+  crimeBus,
+  CRIME_LABELS,
+  LAW_DIALOGUE_ID,
+  BOUNTY_SETTLED_FLAG,
+  type Crime,
+  type CrimeType,
+  type Bounty,
+  type BountyLedger,
+  type LawLevel,
+  type LawResponse,
+  type SettleMethod,
+  type WantedStatus,
+} from './law';
+
+// Ambient Barks (passing remarks from nearby NPCs)
+export {
+  AmbientBarker,
+  pickBark,
+  BARK_COOLDOWN,
+  BARK_GAP,
+  BARK_RADIUS,
+  type BarkCandidate,
+} from './AmbientBarks';
+
+// Subtitles (speech and sound captions for the overlay)
+export {
+  SubtitleFeed,
+  subtitles,
+  getSubtitleDuration,
+  MIN_SUBTITLE_DURATION,
+  SUBTITLE_SECONDS_PER_WORD,
+  type Subtitle,
+  type SubtitleKind,
+  type SubtitleListener,
+} from './Subtitles';
+
+// Companions (recruitable NPCs who ride, fight and judge)
+export {
+  COMPANIONS,
+  MAX_PARTY_SIZE,
+  COMPANION_LEAVE_APPROVAL,
+  COMPANION_JOINED_FLAG,
+  isCompanionId,
+  getCompanionDefinition,
+  getCompanionAllies,
+  pickCompanionBark,
+  type Companion,
+  type CompanionBarkTrigger,
+  type CompanionDefinition,
+  type CompanionId,
+} from './companions';
@@ -1,5 +1,6 @@
 import type {
   ForagingResult,
+  HuntingPerks,
   HuntingResult,
   ProvisionsConfig,
   ProvisionsState,
@@ -7,6 +8,7 @@ import type {
   TerrainType,
 } from './types';
 import { DEFAULT_PROVISIONS_CONFIG, DEFAULT_PROVISIONS_STATE, STATUS_THRESHOLDS } from './config';
+import type { Season } from '../calendar';
 import { executeHunt, executeForage } from './gathering';
 
 export class ProvisionsSystem {
@@ -77,7 +79,11 @@ export class ProvisionsSystem {
     return 'Supplies are adequate for now.';
   }
 
-  consumeForTravel(hours: number): {
+  /**
+   * `waterRate` and `foodRate` scale what's used, e.g. more water in a dust
+   * storm or the summer heat, more food in the winter cold.
+   */
+  consumeForTravel(hours: number, waterRate = 1, foodRate = 1): {
     foodConsumed: number;
     waterConsumed: number;
     ranOutOfFood: boolean;
@@ -86,8 +92,14 @@ export class ProvisionsSystem {
     const previousFood = this.state.food;
     const previousWater = this.state.water;
 
-    this.state.food = Math.max(0, this.state.food - hours * this.config.consumption.food);
-    this.state.water = Math.max(0, this.state.water - hours * this.config.consumption.water);
+    this.state.food = Math.max(
+      0,
+      this.state.food - hours * this.config.consumption.food * foodRate
+    );
+    this.state.water = Math.max(
+      0,
+      this.state.water - hours * this.config.consumption.water * waterRate
+    );
 
     if (this.hasFood()) { this.state.hoursSinceFood = 0; }
     else { this.state.hoursSinceFood += hours; }
@@ -138,9 +150,14 @@ export class ProvisionsSystem {
     this.state.hoursSinceWater = 0;
   }
 
-  attemptHunt(skillModifier = 0, rng?: () => number): HuntingResult {
+  attemptHunt(
+    skillModifier = 0,
+    rng?: () => number,
+    perks: HuntingPerks = {},
+    season?: Season
+  ): HuntingResult {
     const random = rng ?? Math.random;
-    const result = executeHunt(this.config, skillModifier, random);
+    const result = executeHunt(this.config, skillModifier, random, perks, season);
     if (result.apply) {
       this.addFood(result.foodGained);
       this.addWater(result.waterGained);
@@ -149,9 +166,9 @@ export class ProvisionsSystem {
     return huntResult;
   }
 
-  attemptForage(terrain: TerrainType, rng?: () => number): ForagingResult {
+  attemptForage(terrain: TerrainType, rng?: () => number, season?: Season): ForagingResult {
     const random = rng ?? Math.random;
-    const result = executeForage(this.config, terrain, random);
+    const result = executeForage(this.config, terrain, random, season);
     if (result.apply) {
       this.addFood(result.foodFound);
       this.addWater(result.waterFound);
@@ -1,15 +1,23 @@
-import type { ForagingResult, HuntingResult, TerrainType } from './types';
+import type { ForagingResult, HuntingPerks, HuntingResult, TerrainType } from './types';
 import type { ProvisionsConfig } from './types';
+import { SEASONS, type Season } from '../calendar';
+import { SKILL_PRACTICE_XP } from '../skills';
 import { FORAGING_ITEMS, FORAGING_YIELDS } from './config';
 
+/** `season` shifts the odds and the haul; without one the year has no say. */
 export function executeHunt(
   config: ProvisionsConfig,
   skillModifier: number,
-  rng: () => number
+  rng: () => number,
+  perks: HuntingPerks = {},
+  season?: Season
 ): HuntingResult & { apply: boolean } {
   const { hunting } = config;
+  const seasonal = season ? SEASONS[season].hunt : { chance: 1, yield: 1 };
+  const chance = (perks.chance ?? 1) * seasonal.chance;
+  const yieldMultiplier = (perks.yield ?? 1) * seasonal.yield;
 
-  const successChance = Math.min(1, hunting.baseChance + skillModifier);
+  const successChance = Math.min(1, (hunting.baseChance + skillModifier) * chance);
   const success = rng() < successChance;
 
   if (!success) {
@@ -21,11 +29,13 @@ export function executeHunt(
       fatigueCost: hunting.fatigueCost,
       timeSpent: hunting.duration,
       description: 'The hunt was unsuccessful. No game was found.',
+      skillXP: SKILL_PRACTICE_XP.gatherFailed,
     };
   }
 
   const foodGained = Math.floor(
-    hunting.foodYield[0] + rng() * (hunting.foodYield[1] - hunting.foodYield[0])
+    (hunting.foodYield[0] + rng() * (hunting.foodYield[1] - hunting.foodYield[0])) *
+      yieldMultiplier
   );
 
   let waterGained = 0;
@@ -33,7 +43,8 @@ export function executeHunt(
 
   if (rng() < hunting.waterChance) {
     waterGained = Math.floor(
-      hunting.waterYield[0] + rng() * (hunting.waterYield[1] - hunting.waterYield[0])
+      (hunting.waterYield[0] + rng() * (hunting.waterYield[1] - hunting.waterYield[0])) *
+        yieldMultiplier
     );
     description += ` You also found ${waterGained} water.`;
   }
@@ -46,15 +57,18 @@ export function executeHunt(
     fatigueCost: hunting.fatigueCost,
     timeSpent: hunting.duration,
     description,
+    skillXP: SKILL_PRACTICE_XP.hunt,
   };
 }
 
 export function executeForage(
   config: ProvisionsConfig,
   terrain: TerrainType,
-  rng: () => number
+  rng: () => number,
+  season?: Season
 ): ForagingResult & { apply: boolean } {
-  const chance = config.foragingChances[terrain];
+  const seasonal = season ? SEASONS[season].forage : { chance: 1, yield: 1 };
+  const chance = Math.min(1, config.foragingChances[terrain] * seasonal.chance);
 
   if (chance <= 0 || rng() >= chance) {
     return {
@@ -64,6 +78,7 @@ export function executeForage(
       waterFound: 0,
       timeSpent: 0.5,
       foundItems: [],
+      skillXP: chance > 0 ? SKILL_PRACTICE_XP.gatherFailed : 0,
     };
   }
 
@@ -71,10 +86,10 @@ export function executeForage(
   const items = FORAGING_ITEMS[terrain];
 
   const foodFound = Math.floor(
-    yields.food[0] + rng() * (yields.food[1] - yields.food[0])
+    (yields.food[0] + rng() * (yields.food[1] - yields.food[0])) * seasonal.yield
   );
   const waterFound = Math.floor(
-    yields.water[0] + rng() * (yields.water[1] - yields.water[0])
+    (yields.water[0] + rng() * (yields.water[1] - yields.water[0])) * seasonal.yield
   );
 
   const numItems = Math.min(items.length, 1 + Math.floor(rng() * 2));
@@ -92,5 +107,6 @@ export function executeForage(
     waterFound,
     timeSpent: 1,
     foundItems,
+    skillXP: SKILL_PRACTICE_XP.forage,
   };
 }
@@ -2,6 +2,7 @@ export type {
   TerrainType,
   ProvisionStatus,
   HuntingResult,
+  HuntingPerks,
   ForagingResult,
   ProvisionsConfig,
   ProvisionsState,
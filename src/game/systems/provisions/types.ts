@@ -17,6 +17,16 @@ export interface HuntingResult {
   fatigueCost: number;
   timeSpent: number;
   description: string;
+  /** Survival skill XP earned from the attempt */
+  skillXP: number;
+}
+
+/** Perk multipliers applied to a hunt (1 = no change) */
+export interface HuntingPerks {
+  /** Multiplies the chance of finding game */
+  chance?: number;
+  /** Multiplies food and water brought back */
+  yield?: number;
 }
 
 export interface ForagingResult {
@@ -25,6 +35,8 @@ export interface ForagingResult {
   waterFound: number;
   timeSpent: number;
   foundItems: string[];
+  /** Survival skill XP earned from the attempt */
+  skillXP: number;
 }
 
 export interface ProvisionsConfig {
@@ -2,7 +2,8 @@
  * Quest & Dialogue Systems Barrel
  *
  * Re-exports quest and dialogue bridge systems:
- * QuestEvents, QuestWiring, QuestMarkerSystem, DialogueQuestBridge
+ * QuestEvents, QuestWiring, QuestMarkerSystem, QuestEncounters, DialogueQuestBridge,
+ * bountyBoard
  *
  * @module systems/quest
  */
@@ -30,6 +31,22 @@ export {
   type QuestMarker,
 } from './QuestMarkerSystem';
 
+// Quest Encounters (escorts and defended positions)
+export {
+  getActiveEscorts,
+  getDefendedPosition,
+  getRaiderSpawns,
+  reportEscortArrivals,
+  resolveRaid,
+  RAIDERS_PER_WAVE,
+  RAIDER_CONFIG_ID,
+  RAID_DISTANCE,
+  type Escort,
+  type DefendedPosition,
+  type RaiderSpawn,
+  type RaidOutcome,
+} from './QuestEncounters';
+
 // Dialogue <-> Quest Bridge
 export {
   evaluateCondition,
@@ -40,7 +57,32 @@ export {
   canStartQuest,
   getAvailableNpcQuests,
   onDialogueEnd,
+  formatCheckHint,
+  getCheckChance,
+  rollDialogueCheck,
+  type CheckStats,
+  type DialogueCheckResult,
   type BridgeStoreReader,
   type BridgeStoreActions,
   type BridgeStore,
 } from './DialogueQuestBridge';
+
+// Bounty Board (sheriff's office contracts)
+export {
+  BOARD_SIZE,
+  ROTATION_DAYS,
+  CAPTURE_BONUS,
+  getBoardRotation,
+  generateContract,
+  rotateBoard,
+  getContractStatus,
+  findContract,
+  isBountyTarget,
+  getCaptureTarget,
+  getOutlawSpawns,
+  type BountyContract,
+  type BountyBoard,
+  type BountyBoards,
+  type ContractStatus,
+  type OutlawSpawn,
+} from './bountyBoard';
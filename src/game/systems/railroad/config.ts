@@ -0,0 +1,47 @@
+import type { RailLine, TrainEncounter } from './types';
+
+export const RAIL_LINES: Record<string, RailLine> = {
+  main_line: {
+    id: 'main_line',
+    name: 'Main Line',
+    departures: [6, 10, 14, 18],
+    baseFare: 4,
+    farePerHour: 4,
+    robberyChance: 0.06,
+  },
+  mountain_line: {
+    id: 'mountain_line',
+    name: 'Mountain Line',
+    departures: [8, 16],
+    baseFare: 6,
+    farePerHour: 5,
+    robberyChance: 0.15,
+  },
+};
+
+/** Hold-ups a train can run into; weights are relative */
+export const TRAIN_ENCOUNTERS: TrainEncounter[] = [
+  { encounterId: 'train_robbery', weight: 3 },
+  { encounterId: 'copperhead_train_heist', weight: 1 },
+];
+
+/** Minutes a train waits at the platform after its departure time */
+export const BOARDING_WINDOW_MINUTES = 30;
+
+/** How many upcoming departures a station's timetable lists */
+export const TIMETABLE_LENGTH = 6;
+
+/** IVRC fares at neutral standing, scaled down to this at the best standing */
+export const MIN_FARE_MODIFIER = 0.5;
+
+/** ...and up to this at the worst */
+export const MAX_FARE_MODIFIER = 1.5;
+
+/** Walking the tracks takes this many times as long as riding them */
+export const RAIL_WALK_FACTOR = 2;
+
+/** NPC roles that sell tickets */
+export const DEPOT_ROLES: readonly string[] = ['station_master', 'telegraph_operator'];
+
+/** Building archetype whose counter sells tickets */
+export const DEPOT_ARCHETYPE_ID = 'telegraph_office';
@@ -0,0 +1,32 @@
+export type {
+  RailLine,
+  RailTicket,
+  TicketStatus,
+  TrainDeparture,
+  TrainEncounter,
+} from './types';
+
+export {
+  RAIL_LINES,
+  TRAIN_ENCOUNTERS,
+  BOARDING_WINDOW_MINUTES,
+  TIMETABLE_LENGTH,
+  MIN_FARE_MODIFIER,
+  MAX_FARE_MODIFIER,
+  RAIL_WALK_FACTOR,
+  DEPOT_ROLES,
+  DEPOT_ARCHETYPE_ID,
+} from './config';
+
+export {
+  getRailLine,
+  isStation,
+  getTimetable,
+  formatDepartureTime,
+  getTicketStatus,
+  getFareModifier,
+  getFare,
+  sellsTickets,
+  pickTrainEncounter,
+  getOverlandRoute,
+} from './railroad';
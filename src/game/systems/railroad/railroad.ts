@@ -0,0 +1,140 @@
+/**
+ * Railroad - The trains that run along the world's railroad connections:
+ * which line a connection belongs to, when trains leave, what the IVRC
+ * charges for a seat, and what can happen on the way.
+ *
+ * @module systems/railroad/railroad
+ */
+
+import type { Connection, TravelMethod } from '../../data/schemas/world';
+import { getStandingTier } from '../reputation';
+import {
+  BOARDING_WINDOW_MINUTES,
+  MAX_FARE_MODIFIER,
+  MIN_FARE_MODIFIER,
+  RAIL_LINES,
+  RAIL_WALK_FACTOR,
+  TIMETABLE_LENGTH,
+  TRAIN_ENCOUNTERS,
+} from './config';
+import type { RailLine, TicketStatus, TrainDeparture } from './types';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** The line a connection is part of, if trains run on it */
+export function getRailLine(connection: Connection): RailLine | undefined {
+  if (connection.method !== 'railroad' || !connection.passable) return undefined;
+  const lineId = connection.tags.find((tag) => tag in RAIL_LINES);
+  return lineId ? RAIL_LINES[lineId] : undefined;
+}
+
+/** Whether trains stop at `locationId`, given the connections from it */
+export function isStation(connections: readonly Connection[], locationId: string): boolean {
+  return connections.some(
+    (c) => (c.from === locationId || c.to === locationId) && getRailLine(c) !== undefined
+  );
+}
+
+/**
+ * The next trains out of `stationId` from clock minute `now`, soonest
+ * first. A train still waiting at the platform is listed until it leaves.
+ */
+export function getTimetable(
+  connections: readonly Connection[],
+  stationId: string,
+  now: number,
+  count = TIMETABLE_LENGTH
+): TrainDeparture[] {
+  const today = Math.floor(now / MINUTES_PER_DAY) * MINUTES_PER_DAY;
+  const departures: TrainDeparture[] = [];
+
+  for (const connection of connections) {
+    const line = getRailLine(connection);
+    if (!line) continue;
+    const toId =
+      connection.from === stationId
+        ? connection.to
+        : connection.bidirectional && connection.to === stationId
+          ? connection.from
+          : null;
+    if (!toId) continue;
+
+    // Today's and tomorrow's trains cover a timetable read at any hour
+    for (const dayStart of [today, today + MINUTES_PER_DAY]) {
+      for (const hour of line.departures) {
+        const departsAt = dayStart + hour * 60;
+        if (departsAt + BOARDING_WINDOW_MINUTES < now) continue;
+        departures.push({
+          lineId: line.id,
+          fromId: stationId,
+          toId,
+          departsAt,
+          rideHours: connection.travelTime,
+          danger: connection.danger,
+        });
+      }
+    }
+  }
+
+  return departures.sort((a, b) => a.departsAt - b.departsAt).slice(0, count);
+}
+
+/** Clock time of a departure, e.g. '06:00' */
+export function formatDepartureTime(departsAt: number): string {
+  const minuteOfDay = departsAt % MINUTES_PER_DAY;
+  const hours = Math.floor(minuteOfDay / 60);
+  const minutes = minuteOfDay % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+export function getTicketStatus(departure: TrainDeparture, now: number): TicketStatus {
+  if (now < departure.departsAt) return 'waiting';
+  return now <= departure.departsAt + BOARDING_WINDOW_MINUTES ? 'boarding' : 'missed';
+}
+
+/** IVRC prices by standing: 1 when neutral, cheaper for friends, dearer for enemies */
+export function getFareModifier(ivrcReputation: number): number {
+  return Math.min(MAX_FARE_MODIFIER, Math.max(MIN_FARE_MODIFIER, 1 - ivrcReputation / 200));
+}
+
+export function getFare(departure: TrainDeparture, ivrcReputation: number): number {
+  const line = RAIL_LINES[departure.lineId];
+  if (!line) return 0;
+  const base = line.baseFare + line.farePerHour * departure.rideHours;
+  return Math.max(1, Math.round(base * getFareModifier(ivrcReputation)));
+}
+
+/** The company won't sell a seat to anyone it counts as an enemy */
+export function sellsTickets(ivrcReputation: number): boolean {
+  return getStandingTier(ivrcReputation) !== 'hostile';
+}
+
+/**
+ * What holds up a ride on `lineId`, if anything: `roll` against the line's
+ * robbery chance, then `pick` among the train encounters by weight.
+ */
+export function pickTrainEncounter(lineId: string, roll: number, pick: number): string | null {
+  const line = RAIL_LINES[lineId];
+  if (!line || roll >= line.robberyChance || TRAIN_ENCOUNTERS.length === 0) return null;
+
+  const total = TRAIN_ENCOUNTERS.reduce((sum, e) => sum + e.weight, 0);
+  let remaining = pick * total;
+  for (const encounter of TRAIN_ENCOUNTERS) {
+    remaining -= encounter.weight;
+    if (remaining < 0) return encounter.encounterId;
+  }
+  return TRAIN_ENCOUNTERS[TRAIN_ENCOUNTERS.length - 1].encounterId;
+}
+
+/**
+ * How a route goes without a train. Railroads are walked (or ridden) along
+ * the graded bed at road pace, taking longer than the train.
+ */
+export function getOverlandRoute(
+  method: TravelMethod,
+  travelTime: number
+): { method: TravelMethod; travelTime: number } {
+  return method === 'railroad'
+    ? { method: 'road', travelTime: travelTime * RAIL_WALK_FACTOR }
+    : { method, travelTime };
+}
@@ -0,0 +1,43 @@
+import type { DangerLevel } from '../../data/schemas/world';
+
+/** A rail line, keyed by the tag its connections carry (e.g. 'main_line') */
+export interface RailLine {
+  id: string;
+  name: string;
+  /** Hours of the day a train leaves each station on the line */
+  departures: number[];
+  /** Flat part of a fare (gold) */
+  baseFare: number;
+  /** Fare per hour of the ride (gold) */
+  farePerHour: number;
+  /** Chance a ride on this line is held up */
+  robberyChance: number;
+}
+
+/** A train due to leave a station */
+export interface TrainDeparture {
+  lineId: string;
+  fromId: string;
+  toId: string;
+  /** Clock minutes (since the start of day 1) the train leaves */
+  departsAt: number;
+  /** Game hours the ride takes */
+  rideHours: number;
+  danger: DangerLevel;
+}
+
+/** A ticket the player holds for one departure */
+export interface RailTicket extends TrainDeparture {
+  id: string;
+  /** What the player paid (gold) */
+  price: number;
+}
+
+/** Where a ticket stands against the clock */
+export type TicketStatus = 'waiting' | 'boarding' | 'missed';
+
+/** An encounter a train can run into, and how often relative to the others */
+export interface TrainEncounter {
+  encounterId: string;
+  weight: number;
+}
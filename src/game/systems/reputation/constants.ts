@@ -0,0 +1,72 @@
+import type { FactionReputation, ReputationFaction, StandingTierDef } from './types';
+
+export const REPUTATION_MIN = -100;
+export const REPUTATION_MAX = 100;
+
+export const REPUTATION_FACTIONS: ReputationFaction[] = [
+  'ivrc',
+  'copperhead',
+  'freeminer',
+  'remnant',
+  'townsfolk',
+];
+
+export const FACTION_DISPLAY_NAMES: Record<ReputationFaction, string> = {
+  ivrc: 'IVRC',
+  copperhead: 'Copperhead Gang',
+  freeminer: 'Freeminers',
+  remnant: 'The Remnant',
+  townsfolk: 'Townsfolk',
+};
+
+/** Standing bands ordered from worst to best; a value belongs to the last band whose min it meets. */
+export const STANDING_TIERS: StandingTierDef[] = [
+  { tier: 'hostile', label: 'Hostile', min: REPUTATION_MIN },
+  { tier: 'unfriendly', label: 'Unfriendly', min: -59 },
+  { tier: 'neutral', label: 'Neutral', min: -19 },
+  { tier: 'friendly', label: 'Friendly', min: 20 },
+  { tier: 'honored', label: 'Honored', min: 50 },
+  { tier: 'revered', label: 'Revered', min: 80 },
+];
+
+/**
+ * Inter-faction ripple rules. A change of `delta` with the source faction
+ * also changes each listed faction by `delta * factor` (truncated toward zero).
+ * Ripples do not chain.
+ */
+export const REPUTATION_RIPPLES: Record<ReputationFaction, Partial<Record<ReputationFaction, number>>> = {
+  ivrc: { copperhead: -0.5, freeminer: -0.5, townsfolk: -0.1 },
+  copperhead: { ivrc: -0.5, townsfolk: -0.25 },
+  freeminer: { ivrc: -0.5, townsfolk: 0.2 },
+  remnant: { ivrc: -0.25, townsfolk: -0.25 },
+  townsfolk: { copperhead: -0.2 },
+};
+
+/**
+ * Faction ids used by generated content and older data that map onto ledger
+ * factions. 'neutral' speakers (sheriffs, shopkeepers) reflect standing with
+ * townsfolk.
+ */
+export const FACTION_ALIASES: Record<string, ReputationFaction> = {
+  neutral: 'townsfolk',
+  townfolk: 'townsfolk',
+  law: 'townsfolk',
+  law_enforcement: 'townsfolk',
+  town_council: 'townsfolk',
+  merchants_guild: 'townsfolk',
+  freeminers: 'freeminer',
+  prospectors_union: 'freeminer',
+  railroad: 'ivrc',
+  railroad_company: 'ivrc',
+  mining_consortium: 'ivrc',
+  desperados: 'copperhead',
+  automaton_collective: 'remnant',
+};
+
+export const DEFAULT_FACTION_REPUTATION: FactionReputation = {
+  ivrc: 0,
+  copperhead: 0,
+  freeminer: 0,
+  remnant: 0,
+  townsfolk: 0,
+};
@@ -0,0 +1,29 @@
+export type {
+  FactionReputation,
+  ReputationChange,
+  ReputationChangeResult,
+  ReputationFaction,
+  StandingTier,
+  StandingTierDef,
+} from './types';
+export {
+  DEFAULT_FACTION_REPUTATION,
+  FACTION_ALIASES,
+  FACTION_DISPLAY_NAMES,
+  REPUTATION_FACTIONS,
+  REPUTATION_MAX,
+  REPUTATION_MIN,
+  REPUTATION_RIPPLES,
+  STANDING_TIERS,
+} from './constants';
+export {
+  applyReputationChange,
+  clampReputation,
+  getFactionReputation,
+  getStandingTier,
+  getStandingTierDef,
+  isReputationFaction,
+  normalizeFactionReputation,
+  resolveDialogueFaction,
+  resolveReputationFaction,
+} from './utilities';
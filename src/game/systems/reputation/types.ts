@@ -0,0 +1,34 @@
+import type { NPCFaction } from '../../data/schemas/npc';
+
+/** Factions that keep a standing with the player (every NPC faction except 'neutral'). */
+export type ReputationFaction = Exclude<NPCFaction, 'neutral'>;
+
+/** Named standing bands, from worst to best. */
+export type StandingTier = 'hostile' | 'unfriendly' | 'neutral' | 'friendly' | 'honored' | 'revered';
+
+export interface StandingTierDef {
+  tier: StandingTier;
+  label: string;
+  /** Inclusive lower bound of the band */
+  min: number;
+}
+
+/** Per-faction reputation values, clamped to REPUTATION_MIN..REPUTATION_MAX. */
+export type FactionReputation = Record<ReputationFaction, number>;
+
+/** A single applied change, including ripples onto other factions. */
+export interface ReputationChange {
+  faction: ReputationFaction;
+  delta: number;
+  previous: number;
+  current: number;
+  previousTier: StandingTier;
+  currentTier: StandingTier;
+  /** True when this change came from another faction's ripple rule */
+  ripple: boolean;
+}
+
+export interface ReputationChangeResult {
+  ledger: FactionReputation;
+  changes: ReputationChange[];
+}
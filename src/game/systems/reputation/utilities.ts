@@ -0,0 +1,123 @@
+import {
+  DEFAULT_FACTION_REPUTATION,
+  FACTION_ALIASES,
+  REPUTATION_FACTIONS,
+  REPUTATION_MAX,
+  REPUTATION_MIN,
+  REPUTATION_RIPPLES,
+  STANDING_TIERS,
+} from './constants';
+import type {
+  FactionReputation,
+  ReputationChange,
+  ReputationChangeResult,
+  ReputationFaction,
+  StandingTier,
+  StandingTierDef,
+} from './types';
+
+export function isReputationFaction(id: string): id is ReputationFaction {
+  return (REPUTATION_FACTIONS as string[]).includes(id);
+}
+
+/**
+ * Resolve a faction id from quest/dialogue/shop data to a ledger faction.
+ * Returns null for ids that do not map to any faction.
+ */
+export function resolveReputationFaction(id: string | null | undefined): ReputationFaction | null {
+  if (!id) return null;
+  if (isReputationFaction(id)) return id;
+  return FACTION_ALIASES[id] ?? null;
+}
+
+/**
+ * Resolve the faction a dialogue condition/effect refers to. An explicit
+ * target wins; an unset target (or the 'speaker_faction' placeholder used by
+ * generated dialogue) falls back to the speaking NPC's faction.
+ */
+export function resolveDialogueFaction(
+  target: string | null | undefined,
+  speakerFaction: string | null | undefined
+): ReputationFaction | null {
+  if (target && target !== 'speaker_faction') return resolveReputationFaction(target);
+  return resolveReputationFaction(speakerFaction);
+}
+
+export function clampReputation(value: number): number {
+  return Math.max(REPUTATION_MIN, Math.min(REPUTATION_MAX, value));
+}
+
+export function getStandingTierDef(value: number): StandingTierDef {
+  let match = STANDING_TIERS[0];
+  for (const def of STANDING_TIERS) {
+    if (value >= def.min) match = def;
+  }
+  return match;
+}
+
+export function getStandingTier(value: number): StandingTier {
+  return getStandingTierDef(value).tier;
+}
+
+export function getFactionReputation(
+  ledger: Partial<FactionReputation> | undefined,
+  faction: string | null | undefined
+): number {
+  const resolved = resolveReputationFaction(faction);
+  if (!resolved) return 0;
+  return ledger?.[resolved] ?? 0;
+}
+
+/**
+ * Fill in any factions missing from a (possibly older) saved ledger.
+ */
+export function normalizeFactionReputation(
+  ledger: Partial<FactionReputation> | undefined
+): FactionReputation {
+  const result = { ...DEFAULT_FACTION_REPUTATION };
+  if (!ledger) return result;
+  for (const faction of REPUTATION_FACTIONS) {
+    const value = ledger[faction];
+    if (typeof value === 'number') result[faction] = clampReputation(value);
+  }
+  return result;
+}
+
+/**
+ * Apply a reputation delta to a faction plus its ripple rules.
+ * Pure: returns a new ledger and the list of changes that actually moved a value.
+ */
+export function applyReputationChange(
+  ledger: FactionReputation,
+  faction: ReputationFaction,
+  delta: number
+): ReputationChangeResult {
+  const next = { ...ledger };
+  const changes: ReputationChange[] = [];
+
+  const apply = (target: ReputationFaction, amount: number, ripple: boolean) => {
+    const previous = next[target];
+    const current = clampReputation(previous + amount);
+    if (current === previous) return;
+    next[target] = current;
+    changes.push({
+      faction: target,
+      delta: current - previous,
+      previous,
+      current,
+      previousTier: getStandingTier(previous),
+      currentTier: getStandingTier(current),
+      ripple,
+    });
+  };
+
+  apply(faction, delta, false);
+
+  const ripples = REPUTATION_RIPPLES[faction];
+  for (const [other, factor] of Object.entries(ripples) as [ReputationFaction, number][]) {
+    const amount = Math.trunc(delta * factor);
+    if (amount !== 0) apply(other, amount, true);
+  }
+
+  return { ledger: next, changes };
+}
@@ -0,0 +1,46 @@
+import type { AttributeName, SkillName } from './types';
+
+export const MAX_SKILL_LEVEL = 100;
+
+/** Skill XP needed for the first point; later points cost more. */
+export const SKILL_XP_PER_POINT = 100;
+
+/** Each skill level adds this fraction of SKILL_XP_PER_POINT to the next point's cost. */
+export const SKILL_XP_GROWTH = 0.02;
+
+/** A skill's cap is SKILL_CAP_BASE + SKILL_CAP_PER_ATTRIBUTE x its governing attribute. */
+export const SKILL_CAP_BASE = 40;
+export const SKILL_CAP_PER_ATTRIBUTE = 6;
+
+/** The attribute that limits how far each skill can be trained. */
+export const SKILL_ATTRIBUTES: Record<SkillName, AttributeName> = {
+  guns: 'perception',
+  melee: 'grit',
+  lockpick: 'agility',
+  speech: 'charisma',
+  repair: 'intelligence',
+  medicine: 'intelligence',
+  survival: 'endurance',
+  barter: 'charisma',
+};
+
+/** Skill XP earned by practising each activity. */
+export const SKILL_PRACTICE_XP = {
+  /** Lockpick, per lock level */
+  pickLock: 15,
+  /** Repair, for restoring systems in a pipe puzzle */
+  restoreSystems: 10,
+  /** Repair, for a field repair */
+  fieldRepair: 6,
+  /** The recipe's skill, for crafting something that needs it */
+  craft: 8,
+  /** Medicine, for using a medical item */
+  treatWound: 10,
+  /** Survival, for a forage or hunt */
+  forage: 8,
+  hunt: 12,
+  /** Survival, for coming back empty-handed */
+  gatherFailed: 2,
+  /** Barter, per 10 gold traded */
+  haggle: 1,
+} as const;
@@ -0,0 +1,11 @@
+export type { AttributeName, SkillName, SkillProgress } from './types';
+export {
+  MAX_SKILL_LEVEL,
+  SKILL_ATTRIBUTES,
+  SKILL_CAP_BASE,
+  SKILL_CAP_PER_ATTRIBUTE,
+  SKILL_PRACTICE_XP,
+  SKILL_XP_GROWTH,
+  SKILL_XP_PER_POINT,
+} from './constants';
+export { applySkillXP, getSkillCap, getSkillXPCost } from './utilities';
@@ -0,0 +1,17 @@
+import type { CheckAttribute, CheckSkill } from '../../data/schemas/npc';
+
+/** A player skill on the 0-100 scale. */
+export type SkillName = CheckSkill;
+
+/** A player attribute on the 1-10 scale. */
+export type AttributeName = CheckAttribute;
+
+/** Outcome of adding practice XP to one skill. */
+export interface SkillProgress {
+  /** Skill level after the XP is applied */
+  level: number;
+  /** XP carried toward the next point */
+  progress: number;
+  /** Points gained from this XP */
+  gained: number;
+}
@@ -0,0 +1,45 @@
+import {
+  MAX_SKILL_LEVEL,
+  SKILL_ATTRIBUTES,
+  SKILL_CAP_BASE,
+  SKILL_CAP_PER_ATTRIBUTE,
+  SKILL_XP_GROWTH,
+  SKILL_XP_PER_POINT,
+} from './constants';
+import type { AttributeName, SkillName, SkillProgress } from './types';
+
+/** XP needed to raise a skill from `level` to `level + 1`. */
+export function getSkillXPCost(level: number): number {
+  return Math.round(SKILL_XP_PER_POINT * (1 + level * SKILL_XP_GROWTH));
+}
+
+/** How far a skill can be trained with the player's current attributes. */
+export function getSkillCap(skill: SkillName, attributes: Record<AttributeName, number>): number {
+  const attribute = attributes[SKILL_ATTRIBUTES[skill]] ?? 0;
+  return Math.min(MAX_SKILL_LEVEL, SKILL_CAP_BASE + attribute * SKILL_CAP_PER_ATTRIBUTE);
+}
+
+/**
+ * Add practice XP to a skill. Each point costs more than the last, and XP
+ * stops accruing once the skill reaches its cap.
+ */
+export function applySkillXP(
+  level: number,
+  progress: number,
+  amount: number,
+  cap: number,
+): SkillProgress {
+  if (level >= cap) return { level, progress: 0, gained: 0 };
+
+  let current = level;
+  let remaining = progress + Math.max(0, amount);
+  while (current < cap && remaining >= getSkillXPCost(current)) {
+    remaining -= getSkillXPCost(current);
+    current++;
+  }
+  return {
+    level: current,
+    progress: current >= cap ? 0 : remaining,
+    gained: current - level,
+  };
+}
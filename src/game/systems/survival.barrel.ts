@@ -2,7 +2,7 @@
  * Survival Systems Barrel
  *
  * Re-exports all survival-related game systems:
- * GameClock, FatigueSystem, ProvisionsSystem, CampingSystem, SurvivalStore
+ * GameClock, calendar, FatigueSystem, ProvisionsSystem, CampingSystem, SurvivalStore
  *
  * @module systems/survival
  */
@@ -22,8 +22,39 @@ export {
   type TimeEventCallback,
   type GameClockConfig,
   type GameClockState,
+  type PhaseBoundaries,
 } from './time';
 
+// Calendar (seasons, temperature, town events)
+export {
+  getCalendarDate,
+  getSeason,
+  formatCalendarDate,
+  getSeasonalPhaseBoundaries,
+  getTemperature,
+  getTemperatureEffects,
+  getTownEvent,
+  getTownEventsOn,
+  getActiveTownEvents,
+  isTownEventActive,
+  DAYS_PER_SEASON,
+  DAYS_PER_YEAR,
+  SEASON_ORDER,
+  WEEKDAYS,
+  CALENDAR_START,
+  SEASONS,
+  COMFORT_RANGE,
+  TOWN_EVENTS,
+  type Season,
+  type Weekday,
+  type CalendarDate,
+  type GatheringOdds,
+  type SeasonConfig,
+  type TemperatureEffects,
+  type TownEventDate,
+  type TownEvent,
+} from './calendar';
+
 // Fatigue System
 export {
   FatigueSystem,
@@ -1,7 +1,13 @@
 import { GameClock } from '../time';
+import {
+  getSeasonalPhaseBoundaries,
+  getTemperature,
+  getTemperatureEffects,
+} from '../calendar';
 import { FatigueSystem } from '../fatigue';
 import { ProvisionsSystem } from '../provisions';
 import { CampingSystem } from '../camping';
+import { getWeatherEffects } from '../weather';
 import type { SurvivalSliceCreator, SurvivalState, SurvivalSlice, SurvivalContext } from './types';
 import { DEFAULT_SURVIVAL_STATE } from './types';
 import { createTimeActions } from './timeActions';
@@ -10,7 +16,7 @@ import { createProvisionsActions } from './provisionsActions';
 import { createCampingActions } from './campingActions';
 
 export const createSurvivalSlice: SurvivalSliceCreator = (set, get, _api) => {
-  const clock = new GameClock();
+  const clock = new GameClock({ daylight: getSeasonalPhaseBoundaries });
   const fatigue = new FatigueSystem();
   const provisions = new ProvisionsSystem();
   const camping = new CampingSystem();
@@ -28,12 +34,23 @@ export const createSurvivalSlice: SurvivalSliceCreator = (set, get, _api) => {
     camping.loadState(state.campingState);
   };
 
+  // Standalone (without the weather from the game store) the air is clear
+  const getExposure = () => {
+    const { clockState, weather } = get();
+    const temperature = getTemperatureEffects(
+      getTemperature(clockState.day, clockState.hour, weather)
+    );
+    const weatherWater = weather ? getWeatherEffects(weather).waterConsumption : 1;
+    return { ...temperature, water: temperature.water * weatherWater };
+  };
+
   const ctx: SurvivalContext = {
     systems: { clock, fatigue, provisions, camping },
     set,
     get,
     syncSystems,
     gameHoursToRealMinutes,
+    getExposure,
   };
 
   return {
@@ -50,13 +67,14 @@ export const createSurvivalSlice: SurvivalSliceCreator = (set, get, _api) => {
       syncSystems();
       const isNight = clock.isNight();
       const realMinutes = gameHoursToRealMinutes(hours);
+      const exposure = getExposure();
 
       clock.advanceHours(hours);
 
-      const consumed = provisions.consumeForTravel(hours);
+      const consumed = provisions.consumeForTravel(hours, exposure.water, exposure.food);
 
       const provisionMultiplier = provisions.getFatigueMultiplier();
-      fatigue.applyTravelFatigue(realMinutes, isNight);
+      fatigue.applyTravelFatigue(realMinutes, isNight, exposure.fatigue);
 
       if (provisionMultiplier > 1) {
         const baseFatiguePerRealMin = 2;
@@ -76,7 +94,7 @@ export const createSurvivalSlice: SurvivalSliceCreator = (set, get, _api) => {
       const nightExtra = isNight ? realMinutes * 1.5 : 0;
       return {
         hoursElapsed: hours,
-        fatigueGained: (baseFatigue + nightExtra) * provisionMultiplier,
+        fatigueGained: (baseFatigue + nightExtra) * exposure.fatigue * provisionMultiplier,
         provisionsConsumed: {
           food: consumed.foodConsumed,
           water: consumed.waterConsumed,
@@ -7,7 +7,7 @@ export const createFatigueActions = (ctx: SurvivalContext) => ({
     const provisionMultiplier = ctx.systems.provisions.getFatigueMultiplier();
     const realMinutes = ctx.gameHoursToRealMinutes(hours);
 
-    ctx.systems.fatigue.applyTravelFatigue(realMinutes, isNight);
+    ctx.systems.fatigue.applyTravelFatigue(realMinutes, isNight, ctx.getExposure().fatigue);
 
     if (provisionMultiplier > 1) {
       const baseFatiguePerRealMin = 2;
@@ -2,6 +2,7 @@ export {
   type SurvivalState,
   type SurvivalActions,
   type SurvivalSlice,
+  type SurvivalSliceDeps,
   DEFAULT_SURVIVAL_STATE,
 } from './types';
 
@@ -1,9 +1,12 @@
+import { getSeason } from '../calendar';
+import type { HuntingPerks } from '../provisions';
 import type { SurvivalContext } from './types';
 
 export const createProvisionsActions = (ctx: SurvivalContext) => ({
   consumeProvisions: (hours: number) => {
     ctx.syncSystems();
-    const result = ctx.systems.provisions.consumeForTravel(hours);
+    const { food, water } = ctx.getExposure();
+    const result = ctx.systems.provisions.consumeForTravel(hours, water, food);
     ctx.set({ provisionsState: ctx.systems.provisions.getState() });
     return result;
   },
@@ -32,9 +35,10 @@ export const createProvisionsActions = (ctx: SurvivalContext) => ({
     ctx.set({ provisionsState: ctx.systems.provisions.getState() });
   },
 
-  attemptHunt: (skillModifier = 0) => {
+  attemptHunt: (skillModifier = 0, perks: HuntingPerks = {}) => {
     ctx.syncSystems();
-    const result = ctx.systems.provisions.attemptHunt(skillModifier);
+    const season = getSeason(ctx.get().clockState.day);
+    const result = ctx.systems.provisions.attemptHunt(skillModifier, undefined, perks, season);
 
     ctx.systems.fatigue.addFatigue(result.fatigueCost);
     ctx.systems.clock.advanceHours(result.timeSpent);
@@ -44,6 +48,7 @@ export const createProvisionsActions = (ctx: SurvivalContext) => ({
       fatigueState: ctx.systems.fatigue.getState(),
       clockState: ctx.systems.clock.getState(),
     });
+    ctx.get().gainSkillXP?.('survival', result.skillXP);
 
     return result;
   },
@@ -51,7 +56,8 @@ export const createProvisionsActions = (ctx: SurvivalContext) => ({
   attemptForage: () => {
     ctx.syncSystems();
     const terrain = ctx.get().currentTerrain;
-    const result = ctx.systems.provisions.attemptForage(terrain);
+    const season = getSeason(ctx.get().clockState.day);
+    const result = ctx.systems.provisions.attemptForage(terrain, undefined, season);
 
     ctx.systems.clock.advanceHours(result.timeSpent);
 
@@ -59,6 +65,7 @@ export const createProvisionsActions = (ctx: SurvivalContext) => ({
       provisionsState: ctx.systems.provisions.getState(),
       clockState: ctx.systems.clock.getState(),
     });
+    ctx.get().gainSkillXP?.('survival', result.skillXP);
 
     return result;
   },
@@ -1,3 +1,5 @@
+import { getCalendarDate } from '../calendar';
+import type { TimeEventCallback, TimeEventType } from '../time';
 import type { SurvivalContext, SurvivalSlice } from './types';
 
 export const createTimeActions = (ctx: SurvivalContext) => ({
@@ -42,6 +44,9 @@ export const createTimeActions = (ctx: SurvivalContext) => ({
     ctx.set({ clockState: ctx.systems.clock.getState() });
   },
 
+  onClockEvent: (event: TimeEventType, callback: TimeEventCallback) =>
+    ctx.systems.clock.on(event, callback),
+
   tickClock: () => {
     if (!ctx.get().isClockRunning) return;
 
@@ -50,6 +55,7 @@ export const createTimeActions = (ctx: SurvivalContext) => ({
     // that overwrites the clock's internally-advanced totalMinutes with the
     // stale store value, preventing time from ever progressing.
     const nextClock = ctx.systems.clock.getState();
+    const { dayOfYear, year } = getCalendarDate(nextClock.day);
     ctx.set((state) => {
       const timeState = (state as { time?: { hour: number; dayOfYear: number } }).time;
       return {
@@ -58,7 +64,8 @@ export const createTimeActions = (ctx: SurvivalContext) => ({
           time: {
             ...timeState,
             hour: nextClock.hour,
-            dayOfYear: nextClock.day,
+            dayOfYear,
+            year,
           },
         }),
       } as Partial<SurvivalSlice>;
@@ -1,8 +1,11 @@
 import type { StateCreator } from 'zustand';
-import type { GameClockState, TimePhase } from '../time';
+import type { GameClockState, TimeEventCallback, TimeEventType, TimePhase } from '../time';
 import type { FatigueState, FatigueLevel, FatigueEffects } from '../fatigue';
-import type { ProvisionsState, ProvisionStatus, TerrainType, HuntingResult, ForagingResult } from '../provisions';
+import type { ProvisionsState, ProvisionStatus, TerrainType, HuntingPerks, HuntingResult, ForagingResult } from '../provisions';
 import type { CampingState, RestDuration, CampingResult, CampEncounter } from '../camping';
+import type { SkillName } from '../skills';
+import type { WeatherState } from '../../store/types';
+import type { TemperatureEffects } from '../calendar';
 import { DEFAULT_CLOCK_STATE } from '../time';
 import { DEFAULT_FATIGUE_STATE } from '../fatigue';
 import { DEFAULT_PROVISIONS_STATE } from '../provisions';
@@ -24,6 +27,8 @@ export interface SurvivalActions {
   advanceTime: (hours: number) => void;
   setTime: (hour: number, minute?: number) => void;
   tickClock: () => void;
+  /** Subscribe to clock events; returns an unsubscribe function */
+  onClockEvent: (event: TimeEventType, callback: TimeEventCallback) => () => void;
 
   applyTravelFatigue: (hours: number) => void;
   applyCombatFatigue: (realMinutes?: number) => void;
@@ -41,7 +46,7 @@ export interface SurvivalActions {
   addWater: (amount: number) => void;
   addProvisions: (food: number, water: number) => void;
   refillProvisions: () => void;
-  attemptHunt: (skillModifier?: number) => HuntingResult;
+  attemptHunt: (skillModifier?: number, perks?: HuntingPerks) => HuntingResult;
   attemptForage: () => ForagingResult;
 
   setTerrain: (terrain: TerrainType) => void;
@@ -86,6 +91,12 @@ export interface SurvivalActions {
 
 export type SurvivalSlice = SurvivalState & SurvivalActions;
 
+/** Actions from the combined game store; absent when the slice runs on its own. */
+export interface SurvivalSliceDeps {
+  gainSkillXP?: (skill: SkillName, amount: number) => void;
+  weather?: WeatherState;
+}
+
 export const DEFAULT_SURVIVAL_STATE: SurvivalState = {
   clockState: { ...DEFAULT_CLOCK_STATE },
   isClockRunning: false,
@@ -96,7 +107,7 @@ export const DEFAULT_SURVIVAL_STATE: SurvivalState = {
 };
 
 export type SurvivalSliceCreator = StateCreator<
-  SurvivalSlice,
+  SurvivalSlice & SurvivalSliceDeps,
   [],
   [],
   SurvivalSlice
@@ -115,7 +126,9 @@ export interface SurvivalContext {
     (partial: Partial<SurvivalSlice> | ((state: SurvivalSlice) => Partial<SurvivalSlice>)): void;
     (state: SurvivalSlice | ((state: SurvivalSlice) => SurvivalSlice), replace: true): void;
   };
-  get: () => SurvivalSlice;
+  get: () => SurvivalSlice & SurvivalSliceDeps;
   syncSystems: () => void;
   gameHoursToRealMinutes: (gameHours: number) => number;
+  /** Multipliers on food, water and travel fatigue from the weather and temperature */
+  getExposure: () => TemperatureEffects;
 }
@@ -1,6 +1,7 @@
 import type {
   GameClockConfig,
   GameClockState,
+  PhaseBoundaries,
   TimeEventCallback,
   TimeEventPayload,
   TimeEventType,
@@ -72,7 +73,7 @@ export class GameClock {
 
   getAmbientLight(): number {
     const hour = this.state.hour + this.state.minute / 60;
-    const { phaseBoundaries } = this.config;
+    const phaseBoundaries = this.getPhaseBoundaries();
 
     if (hour >= phaseBoundaries.night[0] || hour < phaseBoundaries.dawn[0]) {
       return 0.2;
@@ -255,8 +256,12 @@ export class GameClock {
     }
   }
 
+  getPhaseBoundaries(): PhaseBoundaries {
+    return this.config.daylight?.(this.state.day) ?? this.config.phaseBoundaries;
+  }
+
   private calculatePhase(hour: number): TimePhase {
-    const { phaseBoundaries } = this.config;
+    const phaseBoundaries = this.getPhaseBoundaries();
 
     if (hour >= phaseBoundaries.night[0] || hour < phaseBoundaries.night[1]) {
       return 'night';
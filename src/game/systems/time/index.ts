@@ -4,9 +4,11 @@ export {
   type TimeEventPayload,
   type TimeEventCallback,
   type GameClockConfig,
+  type PhaseBoundaries,
   type GameClockState,
   DEFAULT_CLOCK_CONFIG,
   DEFAULT_CLOCK_STATE,
+  PHASE_LIGHT_LEVELS,
 } from './types';
 
 export { GameClock } from './GameClock';
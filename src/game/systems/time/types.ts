@@ -1,5 +1,13 @@
 export type TimePhase = 'dawn' | 'day' | 'dusk' | 'night';
 
+/** How well-lit the world is in each phase (1 = full daylight). */
+export const PHASE_LIGHT_LEVELS: Record<TimePhase, number> = {
+  dawn: 0.7,
+  day: 1,
+  dusk: 0.65,
+  night: 0.4,
+};
+
 export type TimeEventType = 'tick' | 'hourChanged' | 'phaseChanged' | 'dayChanged';
 
 export interface TimeEventPayload {
@@ -12,15 +20,15 @@ export interface TimeEventPayload {
 
 export type TimeEventCallback = (event: TimeEventPayload) => void;
 
+/** Start and end hour of each phase of the day */
+export type PhaseBoundaries = Record<TimePhase, [number, number]>;
+
 export interface GameClockConfig {
   msPerGameMinute: number;
   tickInterval: number;
-  phaseBoundaries: {
-    dawn: [number, number];
-    day: [number, number];
-    dusk: [number, number];
-    night: [number, number];
-  };
+  phaseBoundaries: PhaseBoundaries;
+  /** Phase boundaries for a given day (e.g. by season); falls back to phaseBoundaries */
+  daylight?: (day: number) => PhaseBoundaries;
 }
 
 export interface GameClockState {
@@ -0,0 +1,86 @@
+import type { RegionBiome } from '../../data/schemas/world';
+import type { WeatherType } from '../../store/types';
+import type { WeatherConfig, WeatherEffects, WeatherOdds } from './types';
+
+export const DEFAULT_WEATHER_CONFIG: WeatherConfig = {
+  frontHours: 4,
+  buildUpMinutes: 60,
+  persistence: 3,
+  memory: 6,
+};
+
+/** Climate used where the region can't be worked out */
+export const DEFAULT_CLIMATE: RegionBiome = 'grassland';
+
+/**
+ * Weather odds per region biome. Dust storms blow through the badlands and
+ * salt flats; fog gathers along the rivers and in the high passes.
+ */
+export const CLIMATES: Record<RegionBiome, WeatherOdds> = {
+  desert: { clear: 6, cloudy: 1, dusty: 3, stormy: 0.5 },
+  badlands: { clear: 4, cloudy: 1, dusty: 5, stormy: 1 },
+  grassland: { clear: 5, cloudy: 3, rainy: 2, stormy: 1, foggy: 0.5 },
+  scrubland: { clear: 5, cloudy: 2, dusty: 2, rainy: 1, stormy: 0.5 },
+  mountain: { clear: 3, cloudy: 3, rainy: 1, stormy: 2, foggy: 2 },
+  riverside: { clear: 4, cloudy: 2, rainy: 2, foggy: 4, stormy: 0.5 },
+  salt_flat: { clear: 7, cloudy: 0.5, dusty: 3 },
+};
+
+/** Effects of each kind of weather at full intensity */
+export const FULL_WEATHER_EFFECTS: Record<WeatherType, WeatherEffects> = {
+  clear: {
+    visibility: 1,
+    enemyAccuracyPenalty: 0,
+    aimSway: 0,
+    waterConsumption: 1,
+    travelSpeed: 1,
+  },
+  cloudy: {
+    visibility: 0.9,
+    enemyAccuracyPenalty: 0,
+    aimSway: 0,
+    waterConsumption: 0.9,
+    travelSpeed: 1,
+  },
+  dusty: {
+    visibility: 0.35,
+    enemyAccuracyPenalty: 15,
+    aimSway: 0.04,
+    waterConsumption: 1.5,
+    travelSpeed: 0.65,
+  },
+  rainy: {
+    visibility: 0.7,
+    enemyAccuracyPenalty: 5,
+    aimSway: 0.01,
+    waterConsumption: 0.7,
+    travelSpeed: 0.8,
+  },
+  stormy: {
+    visibility: 0.5,
+    enemyAccuracyPenalty: 10,
+    aimSway: 0.03,
+    waterConsumption: 0.8,
+    travelSpeed: 0.6,
+  },
+  foggy: {
+    visibility: 0.3,
+    enemyAccuracyPenalty: 5,
+    aimSway: 0,
+    waterConsumption: 0.9,
+    travelSpeed: 0.85,
+  },
+};
+
+/** Wind speed range for each kind of weather, calm to full strength */
+export const WIND_SPEEDS: Record<WeatherType, [number, number]> = {
+  clear: [2, 8],
+  cloudy: [4, 10],
+  dusty: [10, 25],
+  rainy: [4, 12],
+  stormy: [12, 25],
+  foggy: [0, 3],
+};
+
+/** Wind speed heard as a full gale in the ambience */
+export const MAX_WIND_SPEED = 25;
@@ -0,0 +1,22 @@
+export type {
+  WeatherOdds,
+  WeatherEffects,
+  WeatherAmbience,
+  WeatherConfig,
+} from './types';
+
+export {
+  DEFAULT_WEATHER_CONFIG,
+  DEFAULT_CLIMATE,
+  CLIMATES,
+  FULL_WEATHER_EFFECTS,
+  WIND_SPEEDS,
+  MAX_WIND_SPEED,
+} from './config';
+
+export {
+  getRegionWeather,
+  getLocationClimate,
+  getWeatherEffects,
+  getWeatherAmbience,
+} from './simulation';
@@ -0,0 +1,132 @@
+/**
+ * Weather simulation - Seeded weather per region, on the game clock.
+ *
+ * Time is cut into fronts of a few game hours. Each front's weather is drawn
+ * from the region's climate, with the previous front's weather likelier to
+ * hold; the draw only depends on the world seed, the region and the front,
+ * so the same region always has the same weather at the same time and
+ * nothing needs saving. New weather builds up over the first part of a
+ * front rather than switching at once.
+ *
+ * @module systems/weather/simulation
+ */
+
+import type { RegionBiome, World } from '../../data/schemas/world';
+import { getRegionAt } from '../../data/schemas/world';
+import { scopedRNG } from '../../lib/prng';
+import type { WeatherState, WeatherType } from '../../store/types';
+import {
+  CLIMATES,
+  DEFAULT_CLIMATE,
+  DEFAULT_WEATHER_CONFIG,
+  FULL_WEATHER_EFFECTS,
+  MAX_WIND_SPEED,
+  WIND_SPEEDS,
+} from './config';
+import type { WeatherAmbience, WeatherConfig, WeatherEffects } from './types';
+
+function rollFront(
+  climate: RegionBiome,
+  seed: number,
+  front: number,
+  previous: WeatherType | null,
+  config: WeatherConfig
+): WeatherType {
+  const odds = Object.entries(CLIMATES[climate]) as [WeatherType, number][];
+  const weights = odds.map(([type, weight]) =>
+    type === previous ? weight * config.persistence : weight
+  );
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let roll = scopedRNG('weather.front', seed, climate, front) * total;
+  for (let i = 0; i < odds.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return odds[i][0];
+  }
+  return odds[odds.length - 1][0];
+}
+
+function frontWeather(
+  climate: RegionBiome,
+  seed: number,
+  front: number,
+  config: WeatherConfig
+): WeatherType {
+  let type: WeatherType | null = null;
+  for (let f = front - config.memory; f <= front; f++) {
+    type = rollFront(climate, seed, f, type, config);
+  }
+  return type as WeatherType;
+}
+
+function frontPeak(climate: RegionBiome, seed: number, front: number, type: WeatherType): number {
+  if (type === 'clear') return 0;
+  return 0.4 + 0.6 * scopedRNG('weather.intensity', seed, climate, front);
+}
+
+/**
+ * The weather in a region of climate `climate` at `totalMinutes` on the
+ * game clock.
+ */
+export function getRegionWeather(
+  climate: RegionBiome,
+  seed: number,
+  totalMinutes: number,
+  config: WeatherConfig = DEFAULT_WEATHER_CONFIG
+): WeatherState {
+  const frontMinutes = config.frontHours * 60;
+  const front = Math.floor(totalMinutes / frontMinutes);
+  const type = frontWeather(climate, seed, front, config);
+  const previous = frontWeather(climate, seed, front - 1, config);
+
+  const peak = frontPeak(climate, seed, front, type);
+  const t = Math.min(1, (totalMinutes - front * frontMinutes) / config.buildUpMinutes);
+  // The same weather strengthens or eases; different weather builds from nothing
+  const from = previous === type ? frontPeak(climate, seed, front - 1, type) : 0;
+  const intensity = from + (peak - from) * t;
+
+  const [calm, gale] = WIND_SPEEDS[type];
+  return {
+    type,
+    intensity,
+    windDirection: Math.floor(scopedRNG('weather.wind', seed, climate, front) * 360),
+    windSpeed: calm + (gale - calm) * intensity,
+  };
+}
+
+/**
+ * The climate at a location: the biome of the region it lies in. Falls back
+ * to DEFAULT_CLIMATE for unknown locations.
+ */
+export function getLocationClimate(
+  world: World | null | undefined,
+  locationId: string | null
+): RegionBiome {
+  if (!world || !locationId) return DEFAULT_CLIMATE;
+  const location = world.locations.find((loc) => loc.id === locationId);
+  if (!location) return DEFAULT_CLIMATE;
+  return getRegionAt(world, location.coord)?.biome ?? DEFAULT_CLIMATE;
+}
+
+/** What `weather` does to play, scaled by its intensity. */
+export function getWeatherEffects(weather: WeatherState): WeatherEffects {
+  const clear = FULL_WEATHER_EFFECTS.clear;
+  const full = FULL_WEATHER_EFFECTS[weather.type] ?? clear;
+  const t = Math.max(0, Math.min(1, weather.intensity));
+  const lerp = (key: keyof WeatherEffects) => clear[key] + (full[key] - clear[key]) * t;
+  return {
+    visibility: lerp('visibility'),
+    enemyAccuracyPenalty: lerp('enemyAccuracyPenalty'),
+    aimSway: lerp('aimSway'),
+    waterConsumption: lerp('waterConsumption'),
+    travelSpeed: lerp('travelSpeed'),
+  };
+}
+
+/** How loud the wind and rain should be in the ambience. */
+export function getWeatherAmbience(weather: WeatherState): WeatherAmbience {
+  const isWet = weather.type === 'rainy' || weather.type === 'stormy';
+  return {
+    wind: Math.min(1, weather.windSpeed / MAX_WIND_SPEED),
+    rain: isWet ? weather.intensity : 0,
+  };
+}
@@ -0,0 +1,35 @@
+import type { WeatherType } from '../../store/types';
+
+/** Relative odds of each kind of weather setting in */
+export type WeatherOdds = Partial<Record<WeatherType, number>>;
+
+/** What the weather does to play */
+export interface WeatherEffects {
+  /** How far anyone can see, as a fraction of a clear day */
+  visibility: number;
+  /** Percentage points off enemy hit chance */
+  enemyAccuracyPenalty: number;
+  /** Spread the player's aim can't settle below */
+  aimSway: number;
+  /** Multiplier on water drunk */
+  waterConsumption: number;
+  /** Multiplier on overland travel speed */
+  travelSpeed: number;
+}
+
+/** Loudness (0-1) of the weather's layers in the ambience */
+export interface WeatherAmbience {
+  wind: number;
+  rain: number;
+}
+
+export interface WeatherConfig {
+  /** Game hours each weather front lasts */
+  frontHours: number;
+  /** Game minutes new weather takes to build to full strength */
+  buildUpMinutes: number;
+  /** Multiplier on the odds of the last front's weather holding */
+  persistence: number;
+  /** Fronts looked back over to work out the weather before this one */
+  memory: number;
+}
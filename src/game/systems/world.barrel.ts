@@ -3,7 +3,7 @@
  *
  * Re-exports world-related systems:
  * EncounterSystem, TravelManager, SaveSystem, SpatialHash, ZoneSystem,
- * CollisionSystem, TownBoundarySystem
+ * CollisionSystem, TownBoundarySystem, weather, railroad
  *
  * @module systems/world
  */
@@ -21,6 +21,8 @@ export {
 export {
   TravelManager,
   getTravelManager,
+  adjustTravelTime,
+  mountedTravelSpeed,
   dangerDescription,
   methodDescription,
   type TravelRoute,
@@ -97,3 +99,38 @@ export {
   type BoundaryState,
   type BoundaryEventCallback,
 } from './TownBoundarySystem';
+
+// Weather (seeded per-region weather on the game clock)
+export {
+  getRegionWeather,
+  getLocationClimate,
+  getWeatherEffects,
+  getWeatherAmbience,
+  DEFAULT_WEATHER_CONFIG,
+  DEFAULT_CLIMATE,
+  CLIMATES,
+  FULL_WEATHER_EFFECTS,
+  type WeatherEffects,
+  type WeatherAmbience,
+  type WeatherConfig,
+  type WeatherOdds,
+} from './weather';
+
+// Railroad (lines, timetables and fares)
+export {
+  RAIL_LINES,
+  TRAIN_ENCOUNTERS,
+  getRailLine,
+  isStation,
+  getTimetable,
+  formatDepartureTime,
+  getTicketStatus,
+  getFare,
+  sellsTickets,
+  pickTrainEncounter,
+  getOverlandRoute,
+  type RailLine,
+  type RailTicket,
+  type TicketStatus,
+  type TrainDeparture,
+} from './railroad';
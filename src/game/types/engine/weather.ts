@@ -4,7 +4,7 @@
 // WEATHER & TIME
 // ============================================================================
 
-export type WeatherType = 'clear' | 'cloudy' | 'dusty' | 'stormy';
+export type WeatherType = 'clear' | 'cloudy' | 'dusty' | 'rainy' | 'stormy' | 'foggy';
 
 export interface WeatherState {
   type: WeatherType;
@@ -15,6 +15,6 @@ export interface WeatherState {
 
 export interface TimeState {
   hour: number; // 0-24
-  dayOfYear: number; // 1-365
+  dayOfYear: number; // 1-112 (four 28-day seasons)
   year: number;
 }
@@ -8,6 +8,8 @@
  * Requirements: All (provides test data for all E2E test suites)
  */
 
+import { DEFAULT_CONTROLS } from '../../src/game/input/bindings';
+import { DEFAULT_ACCESSIBILITY } from '../../src/game/store/slices/settingsSlice';
 import type {
     CharacterAppearance,
     CombatState,
@@ -61,7 +63,6 @@ export const MOCK_PLAYER_STATS: PlayerStats = {
   level: 1,
   gold: 50,
   ivrcScript: 0,
-  reputation: 0,
   attributes: {
     grit: 5,
     perception: 5,
@@ -81,6 +82,11 @@ export const MOCK_PLAYER_STATS: PlayerStats = {
     survival: 15,
     barter: 15,
   },
+  skillXP: {},
+  skillPoints: 0,
+  attributePoints: 0,
+  perkPoints: 0,
+  perks: [],
 };
 
 /** Player stats with low health for testing edge cases */
@@ -100,7 +106,6 @@ export const HIGH_LEVEL_PLAYER_STATS: PlayerStats = {
   maxStamina: 150,
   stamina: 150,
   gold: 500,
-  reputation: 50,
 };
 
 /** Player stats with zero gold for testing shop edge cases */
@@ -517,6 +522,8 @@ export const DEFAULT_SETTINGS: GameSettings = {
   showMinimap: true,
   lowPowerMode: false,
   cameraDistance: 15,
+  controls: DEFAULT_CONTROLS,
+  accessibility: DEFAULT_ACCESSIBILITY,
 };
 
 /** Settings with reduced motion enabled */